@@ -4,13 +4,15 @@
  * that are delegated by the Conductor orchestrator
  */
 
-import { lstatSync, readdirSync } from "node:fs";
-import { extname, join } from "node:path";
+import { extname } from "node:path";
 import { ConfigLoader, getConfig } from "../config/yaml-config.js";
+import { IgnoreRules } from "../core/ignore-rules.js";
 import { type KnowledgeEntry, knowledgeBus } from "../core/knowledge-bus.js";
 import { getSQLiteManager } from "../storage/sqlite-manager.js";
 import { type AgentMessage, type AgentTask, AgentType } from "../types/agent.js";
-import type { ParserOptions } from "../types/parser.js";
+import type { IgnoreSummary } from "../types/ignore.js";
+import type { FileChange, ParserOptions } from "../types/parser.js";
+import type { Entity } from "../types/storage.js";
 import { getSupportedExtensions } from "../parsers/language-configs.js";
 import { BaseAgent } from "./base.js";
 import { IndexerAgent } from "./indexer-agent.js";
@@ -36,6 +38,10 @@ export class DevAgent extends BaseAgent {
   private defaultBatchSize: number;
   private readonly defaultMaxConcurrency: number;
   private readonly defaultMemoryLimit: number;
+  // Background jobs this agent is indexing right now
+  private runningJobs = new Set<string>();
+  // Running jobs cancelled via `indexing:cancel`; checked before each batch
+  private cancelledJobs = new Set<string>();
 
   constructor(_agentId?: string) {
     const agentConfig = getDevAgentConfig();
@@ -94,13 +100,20 @@ export class DevAgent extends BaseAgent {
     });
 
     knowledgeBus.subscribe(this.id, "resources:adjusted", (entry) => this.handleResourceAdjustment(entry));
+    knowledgeBus.subscribe(this.id, "indexing:cancel", (entry) => this.handleIndexingCancel(entry));
 
     console.log(`[DevAgent ${this.id}] Initialized and ready for implementation tasks`);
   }
 
   protected canProcessTask(task: AgentTask): boolean {
-    // DevAgent can handle index, implementation, and refactor tasks
-    return task.type === "index" || task.type === "implementation" || task.type === "refactor" || task.type === "dev";
+    // DevAgent can handle index, file change, implementation, and refactor tasks
+    return (
+      task.type === "index" ||
+      task.type === "index:changes" ||
+      task.type === "implementation" ||
+      task.type === "refactor" ||
+      task.type === "dev"
+    );
   }
 
   protected async handleMessage(message: AgentMessage): Promise<void> {
@@ -116,6 +129,9 @@ export class DevAgent extends BaseAgent {
         case "index":
           return await this.handleIndexTask(task);
 
+        case "index:changes":
+          return await this.handleFileChangesTask(task);
+
         case "implementation":
           return await this.handleImplementationTask(task);
 
@@ -167,6 +183,120 @@ export class DevAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Apply a batch of file changes (from the file watcher) to the graph.
+   * Deleted files lose all their entities; created/modified files are re-parsed and
+   * re-indexed in place, dropping entities that disappeared from the new version.
+   */
+  private async handleFileChangesTask(task: AgentTask): Promise<unknown> {
+    const payload = task.payload as { changes: FileChange[]; product_id?: string };
+    const changes = payload.changes ?? [];
+
+    if (!this.indexerAgent) {
+      throw new Error("Indexer agent not initialized");
+    }
+
+    const startTime = Date.now();
+    const removedEntities: Entity[] = [];
+    const indexedEntityIds: string[] = [];
+    const filePaths: string[] = [];
+    const skipped: string[] = [];
+    let relationshipsCreated = 0;
+
+    for (const change of changes.filter((c) => c.changeType === "deleted")) {
+      const result = (await this.indexerAgent.process({
+        id: `index-remove-${Date.now()}-${change.filePath}`,
+        type: "index:remove",
+        priority: 7,
+        payload: { filePath: change.filePath },
+        createdAt: Date.now(),
+      })) as { removed: Entity[] };
+      removedEntities.push(...result.removed);
+      filePaths.push(change.filePath);
+    }
+
+    const updated = changes.filter((c) => c.changeType !== "deleted" && c.content !== undefined);
+    if (updated.length > 0 && !this.parserAgent) {
+      console.warn(`[DevAgent ${this.id}] ParserAgent unavailable, skipping ${updated.length} changed files`);
+      skipped.push(...updated.map((c) => c.filePath));
+    } else if (updated.length > 0 && this.parserAgent) {
+      const results = (await this.parserAgent.process({
+        id: `parse-changes-${Date.now()}`,
+        type: "parse:incremental",
+        priority: 8,
+        payload: { changes: updated },
+        createdAt: Date.now(),
+      })) as any[]; // ParseResult[]
+
+      for (const res of results || []) {
+        const file = res?.filePath;
+        if (!file) continue;
+
+        const relationships = (Array.isArray(res.relationships) ? res.relationships : [])
+          .filter((r: any) => r?.from && r.to && r.type)
+          .map((r: any) => ({
+            from: r.from,
+            to: r.to,
+            type: r.type,
+            targetFile: r.targetFile ?? file,
+            metadata: r.metadata,
+          }));
+
+        try {
+          const indexed = (await this.indexerAgent.process({
+            id: `index-file-${Date.now()}-${file}`,
+            type: "index:file",
+            priority: 7,
+            payload: {
+              entities: Array.isArray(res.entities) ? res.entities : [],
+              relationships,
+              filePath: file,
+              product_id: payload.product_id,
+            },
+            createdAt: Date.now(),
+          })) as { entityIds: string[]; removed: Entity[]; relationshipsCreated: number };
+
+          indexedEntityIds.push(...indexed.entityIds);
+          removedEntities.push(...indexed.removed);
+          relationshipsCreated += indexed.relationshipsCreated || 0;
+          filePaths.push(file);
+        } catch (err) {
+          console.error(`[DevAgent ${this.id}] Re-indexing failed for file ${file}:`, err);
+          skipped.push(file);
+        }
+      }
+    }
+
+    const summary = {
+      filePaths,
+      changes: changes.map((c) => ({ filePath: c.filePath, changeType: c.changeType })),
+      entityIds: [...indexedEntityIds, ...removedEntities.map((e) => e.id)],
+      removedEntities: removedEntities.map((e) => ({
+        id: e.id,
+        name: e.name,
+        type: e.type,
+        filePath: e.filePath,
+        location: e.location,
+      })),
+      relationshipsCreated,
+      skipped,
+      timeMs: Date.now() - startTime,
+    };
+
+    // Lets QueryAgent invalidate cached results and SemanticAgent drop stale vectors
+    knowledgeBus.publish("index:updated", summary, this.id);
+
+    return {
+      status: "completed",
+      filesProcessed: filePaths.length,
+      entitiesIndexed: indexedEntityIds.length,
+      entitiesRemoved: removedEntities.length,
+      relationshipsCreated,
+      skipped,
+      timeMs: summary.timeMs,
+    };
+  }
+
   private async handleImplementationTask(task: AgentTask): Promise<unknown> {
     const payload = task.payload as any;
     console.log(`[DevAgent ${this.id}] Implementing: ${payload.description || "task"}`);
@@ -215,13 +345,41 @@ export class DevAgent extends BaseAgent {
   }
 
   private async performRealIndexing(payload: any): Promise<any> {
+    const jobId: string | undefined = payload.jobId;
+    if (!jobId) return this.indexDirectory(payload);
+
+    this.runningJobs.add(jobId);
+    try {
+      return await this.indexDirectory(payload);
+    } finally {
+      this.runningJobs.delete(jobId);
+      this.cancelledJobs.delete(jobId);
+    }
+  }
+
+  private async indexDirectory(payload: any): Promise<any> {
     console.log(`[DevAgent ${this.id}] Performing real indexing...`);
 
     const directory = payload.directory;
     const excludePatterns = payload.excludePatterns || [];
-
-    const files = await this.collectFiles(directory, excludePatterns);
-    console.log(`[DevAgent ${this.id}] Found ${files.length} files to process`);
+    const jobId: string | undefined = payload.jobId;
+
+    const { files, skipped } = this.collectFiles(
+      directory,
+      excludePatterns,
+      payload.ignoreFiles !== false,
+      payload.includeTests === true,
+    );
+    console.log(
+      `[DevAgent ${this.id}] Found ${files.length} files to process (${skipped.filesSkipped} skipped by ignore rules)`,
+    );
+    if (jobId) {
+      knowledgeBus.publish(
+        "indexing:progress",
+        { jobId, phase: "indexing", totalFiles: files.length, skipped },
+        this.id,
+      );
+    }
 
     const configLoader = ConfigLoader.getInstance();
     const isDebugMode = process.env.MCP_DEBUG_MODE === "1";
@@ -236,8 +394,15 @@ export class DevAgent extends BaseAgent {
     let totalEntities = 0;
     let totalRelationships = 0;
     let filesProcessed = 0;
+    let cancelled = false;
 
     for (let i = 0; i < files.length; i += effectiveBatchSize) {
+      if (jobId && this.cancelledJobs.has(jobId)) {
+        console.log(`[DevAgent ${this.id}] Job ${jobId} cancelled after ${filesProcessed}/${files.length} files`);
+        cancelled = true;
+        break;
+      }
+
       const batch = files.slice(i, Math.min(i + effectiveBatchSize, files.length));
 
       try {
@@ -270,7 +435,8 @@ export class DevAgent extends BaseAgent {
                     from: r.from,
                     to: r.to,
                     type: r.type,
-                    targetFile: fp,
+                    targetFile: r.targetFile ?? fp,
+                    metadata: r.metadata,
                   });
                 }
               }
@@ -446,9 +612,23 @@ export class DevAgent extends BaseAgent {
       if ((i + effectiveBatchSize) % 500 === 0 || i + effectiveBatchSize >= files.length) {
         console.log(`[DevAgent ${this.id}] Progress: ${filesProcessed}/${files.length} files processed`);
       }
+      if (jobId) {
+        knowledgeBus.publish(
+          "indexing:progress",
+          {
+            jobId,
+            filesProcessed,
+            totalFiles: files.length,
+            entitiesExtracted: totalEntities,
+            relationshipsCreated: totalRelationships,
+          },
+          this.id,
+        );
+      }
     }
 
     return {
+      cancelled,
       filesProcessed,
       entitiesExtracted: totalEntities,
       relationshipsCreated: totalRelationships,
@@ -456,84 +636,27 @@ export class DevAgent extends BaseAgent {
     };
   }
 
-  private async collectFiles(directory: string, excludePatterns: string[]): Promise<string[]> {
-    const files: string[] = [];
-    const defaultExcludedDirNames = new Set([
-      "node_modules",
-      "tmp",
-      "temp",
-      "cache",
-      "__pycache__",
-      ".pytest_cache",
-      "venv",
-      ".venv",
-      "test",
-      "tests",
-      "__tests__",
-      ".memory_bank",
-      "build",
-      "dist",
-      "out",
-      ".next",
-      ".nuxt",
-      "coverage",
-      "archives",
-      "archive",
-      "backups",
-      "backup",
-    ]);
-    const agentId = this.id; // Capture this.id for use in nested function
-
-    function shouldExclude(path: string): boolean {
-      for (const pattern of excludePatterns) {
-        if (pattern.includes("**")) {
-          const regex = pattern.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*");
-          if (new RegExp(regex).test(path)) return true;
-        } else if (path.includes(pattern.replace(/\*/g, ""))) {
-          return true;
-        }
-      }
-      return false;
-    }
-
-    function walkDir(dir: string) {
-      try {
-        const items = readdirSync(dir);
-        for (const item of items) {
-          const fullPath = join(dir, item);
-
-          if (shouldExclude(fullPath)) continue;
-
-          const lstat = lstatSync(fullPath, { throwIfNoEntry: false });
-          if (!lstat) {
-            continue;
-          }
-          if (lstat.isSymbolicLink()) {
-            continue;
-          }
-
-          if (lstat.isDirectory()) {
-            const lowerItem = item.toLowerCase();
-            if (defaultExcludedDirNames.has(lowerItem)) {
-              continue;
-            }
-            if (!item.startsWith(".")) {
-              walkDir(fullPath);
-            }
-          } else if (lstat.isFile()) {
-            const ext = extname(fullPath).toLowerCase();
-            if (SUPPORTED_CODE_EXTENSIONS.includes(ext as (typeof SUPPORTED_CODE_EXTENSIONS)[number])) {
-              files.push(fullPath);
-            }
-          }
-        }
-      } catch (error) {
-        console.error(`[DevAgent ${agentId}] Error reading directory ${dir}:`, error);
-      }
-    }
+  /**
+   * Source files under the directory, minus what the default rules, `.gitignore`,
+   * `.git/info/exclude`, `.codegraphignore` and the exclude patterns skip
+   */
+  private collectFiles(
+    directory: string,
+    excludePatterns: string[],
+    ignoreFiles: boolean,
+    includeTests: boolean,
+  ): { files: string[]; skipped: IgnoreSummary } {
+    const rules = new IgnoreRules(directory, { excludePatterns, ignoreFiles, includeTests });
+    const files = rules.collectFiles((filePath) =>
+      SUPPORTED_CODE_EXTENSIONS.includes(extname(filePath).toLowerCase() as (typeof SUPPORTED_CODE_EXTENSIONS)[number]),
+    );
+    return { files, skipped: rules.summary() };
+  }
 
-    walkDir(directory);
-    return files;
+  private handleIndexingCancel(entry: KnowledgeEntry): void {
+    const { jobId } = entry.data as { jobId?: string };
+    // Queued, finished and other agents' jobs are not tracked here
+    if (jobId && this.runningJobs.has(jobId)) this.cancelledJobs.add(jobId);
   }
 
   private handleResourceAdjustment(entry: KnowledgeEntry): void {
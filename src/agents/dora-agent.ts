@@ -6,9 +6,39 @@
 
 import { getConfig } from "../config/yaml-config.js";
 import { type KnowledgeEntry, knowledgeBus } from "../core/knowledge-bus.js";
+import { getGraphStorage } from "../storage/graph-storage-factory.js";
+import { discoverPatterns, exploreCodebase } from "../tools/codebase-exploration.js";
 import { type AgentMessage, type AgentTask, AgentType } from "../types/agent.js";
+import type {
+  CitedEntity,
+  ExplorationFinding,
+  ExplorationOptions,
+  ExplorationReport,
+  SemanticSearchFn,
+} from "../types/exploration.js";
 import { BaseAgent } from "./base.js";
 
+// Degree above which an explored entity is called out as a change risk
+const HIGHLY_CONNECTED_DEGREE = 20;
+
+/**
+ * Task payload fields understood by the research handlers
+ */
+interface ResearchPayload {
+  topic?: string;
+  description?: string;
+  target?: string;
+  query?: string;
+  scope?: string;
+  entityId?: string;
+  entityIds?: string[];
+  rootDir?: string;
+  product_id?: string;
+  depth?: number;
+  maxSeeds?: number;
+  limit?: number;
+}
+
 function getDoraAgentConfig() {
   const config = getConfig();
   return {
@@ -19,6 +49,8 @@ function getDoraAgentConfig() {
 }
 
 export class DoraAgent extends BaseAgent {
+  private semanticSearch?: SemanticSearchFn;
+
   constructor(_agentId?: string) {
     const agentConfig = getDoraAgentConfig();
     super(AgentType.DORA, {
@@ -92,26 +124,50 @@ export class DoraAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Semantic search used to pick seeds for free-text topics; without it Dora falls back to name matching
+   */
+  setSemanticSearch(search: SemanticSearchFn | undefined): void {
+    this.semanticSearch = search;
+  }
+
+  /**
+   * Explore the graph around a topic or entities and return a cited research report
+   */
+  async explore(options: ExplorationOptions): Promise<ExplorationReport> {
+    const storage = await getGraphStorage();
+    const report = await exploreCodebase(storage, options, this.semanticSearch);
+    knowledgeBus.publish("exploration:completed", { topic: options.topic, stats: report.stats }, this.id);
+    return report;
+  }
+
+  private explorationOptions(payload: ResearchPayload, topic: string | undefined): ExplorationOptions {
+    return {
+      topic,
+      entityIds: payload.entityIds ?? (payload.entityId ? [payload.entityId] : undefined),
+      rootDir: payload.rootDir,
+      product_id: payload.product_id,
+      depth: payload.depth,
+      maxSeeds: payload.maxSeeds,
+      limit: payload.limit,
+    };
+  }
+
   private async handleResearchTask(task: AgentTask): Promise<unknown> {
-    const payload = task.payload as any;
-    console.log(`[DoraAgent ${this.id}] Researching: ${payload.description || "best practices"}`);
+    const payload = (task.payload ?? {}) as ResearchPayload;
+    const topic = payload.topic ?? payload.description ?? payload.query;
+    console.log(`[DoraAgent ${this.id}] Researching: ${topic ?? payload.entityIds?.join(", ") ?? "codebase"}`);
+
+    const report = await this.explore(this.explorationOptions(payload, topic));
 
-    // Simulate research process
     const researchResult = {
       status: "completed",
       taskId: task.id,
       research: {
-        topic: payload.description || "general research",
-        findings: [
-          "Analyzed existing patterns in the codebase",
-          "Identified best practices for implementation",
-          "Found relevant documentation and examples",
-        ],
-        recommendations: [
-          "Follow established coding patterns",
-          "Consider performance implications",
-          "Ensure proper error handling",
-        ],
+        topic: topic ?? "entities",
+        findings: report.findings,
+        recommendations: this.recommend(report),
+        report,
         timestamp: Date.now(),
       },
     };
@@ -123,86 +179,92 @@ export class DoraAgent extends BaseAgent {
   }
 
   private async handleExplorationTask(task: AgentTask): Promise<unknown> {
-    const payload = task.payload as any;
-    console.log(`[DoraAgent ${this.id}] Exploring codebase for: ${payload.target || "patterns"}`);
+    const payload = (task.payload ?? {}) as ResearchPayload;
+    const target = payload.target ?? payload.topic ?? payload.query;
+    console.log(
+      `[DoraAgent ${this.id}] Exploring codebase for: ${target ?? payload.entityIds?.join(", ") ?? "entities"}`,
+    );
+
+    const report = await this.explore(this.explorationOptions(payload, target));
 
     return {
       status: "completed",
       taskId: task.id,
       exploration: {
-        target: payload.target || "codebase",
-        discoveries: [
-          "Found common architectural patterns",
-          "Identified code organization structure",
-          "Located key integration points",
-        ],
-        insights: [
-          "The codebase follows a modular architecture",
-          "Clear separation of concerns is maintained",
-          "Well-defined interfaces between modules",
-        ],
+        target: target ?? "entities",
+        report,
         timestamp: Date.now(),
       },
     };
   }
 
   private async handleDocumentationTask(task: AgentTask): Promise<unknown> {
-    const payload = task.payload as any;
-    console.log(`[DoraAgent ${this.id}] Documenting: ${payload.target || "implementation"}`);
+    const payload = (task.payload ?? {}) as ResearchPayload;
+    const target = payload.target ?? payload.topic ?? payload.description;
+    console.log(`[DoraAgent ${this.id}] Documenting: ${target ?? "implementation"}`);
+
+    const report = await this.explore(this.explorationOptions(payload, target));
+    const line = (entity: CitedEntity) => `${entity.name} (${entity.type}) - ${entity.filePath}:${entity.line}`;
+    const publicSurface = report.modules.flatMap((module) => module.publicSurface);
 
     return {
       status: "completed",
       taskId: task.id,
       documentation: {
-        target: payload.target || "code",
+        target: target ?? "code",
         sections: [
           {
             title: "Overview",
-            content: "Documentation for the implemented functionality",
+            content: report.findings.map((finding) => finding.summary).join("\n"),
+            citations: report.seeds.map((seed) => seed.id),
+          },
+          {
+            title: "Entry Points",
+            content: report.entryPoints.map(line).join("\n"),
+            citations: report.entryPoints.map((entry) => entry.id),
           },
           {
-            title: "Usage",
-            content: "How to use the implemented features",
+            title: "Modules",
+            content: report.modules
+              .map((module) => {
+                const deps = module.dependsOn.map((dep) => dep.module).join(", ");
+                return `${module.module}: ${module.files} file(s), ${module.entities} entities${deps ? `; depends on ${deps}` : ""}`;
+              })
+              .join("\n"),
+            citations: publicSurface.map((entity) => entity.id),
           },
           {
             title: "API Reference",
-            content: "Detailed API documentation",
+            content: [...publicSurface, ...report.keyEntities.filter((e) => !publicSurface.some((p) => p.id === e.id))]
+              .map(line)
+              .join("\n"),
+            citations: [...publicSurface.map((entity) => entity.id), ...report.keyEntities.map((entity) => entity.id)],
           },
         ],
+        report,
         timestamp: Date.now(),
       },
     };
   }
 
   private async handlePatternDiscoveryTask(task: AgentTask): Promise<unknown> {
-    const payload = task.payload as any;
+    const payload = (task.payload ?? {}) as ResearchPayload;
     console.log(`[DoraAgent ${this.id}] Discovering patterns in: ${payload.scope || "codebase"}`);
 
+    const storage = await getGraphStorage();
+    const patterns = await discoverPatterns(storage, {
+      scope: payload.scope,
+      product_id: payload.product_id,
+      limit: payload.limit,
+    });
+
     return {
       status: "completed",
       taskId: task.id,
       patterns: {
-        scope: payload.scope || "global",
-        discovered: [
-          {
-            type: "architectural",
-            name: "Layered Architecture",
-            occurrences: 15,
-            description: "Clear separation between layers",
-          },
-          {
-            type: "design",
-            name: "Factory Pattern",
-            occurrences: 8,
-            description: "Used for object creation",
-          },
-          {
-            type: "coding",
-            name: "Error Handling Pattern",
-            occurrences: 23,
-            description: "Consistent error handling approach",
-          },
-        ],
+        scope: patterns.scope,
+        discovered: patterns.patterns,
+        entitiesScanned: patterns.entitiesScanned,
         timestamp: Date.now(),
       },
     };
@@ -211,19 +273,72 @@ export class DoraAgent extends BaseAgent {
   private async handleGenericResearch(task: AgentTask): Promise<unknown> {
     console.log(`[DoraAgent ${this.id}] Performing generic research for task type: ${task.type}`);
 
-    // Default research response for unknown task types
+    // Unknown task types are researched as an exploration of whatever topic the payload names
+    const payload = (task.payload ?? {}) as ResearchPayload;
+    const topic = payload.topic ?? payload.query ?? payload.description ?? payload.target;
+    const report =
+      topic || payload.entityIds?.length || payload.entityId
+        ? await this.explore(this.explorationOptions(payload, topic))
+        : undefined;
+
     return {
       status: "completed",
       taskId: task.id,
       type: task.type,
       result: {
-        message: `Research completed for ${task.type}`,
+        message: report ? `Research completed for ${task.type}` : `No topic or entities given for ${task.type}`,
+        report,
         data: task.payload,
         timestamp: Date.now(),
       },
     };
   }
 
+  /**
+   * Derive follow-up suggestions from a report, keeping the citations of the findings they come from
+   */
+  private recommend(report: ExplorationReport): ExplorationFinding[] {
+    const recommendations: ExplorationFinding[] = [];
+
+    if (report.seeds.length === 0) {
+      recommendations.push({
+        summary: "Index the repository or refine the topic; nothing in the graph matched it",
+        citations: [],
+      });
+      return recommendations;
+    }
+
+    const [entry] = report.entryPoints;
+    if (entry) {
+      recommendations.push({
+        summary: `Start reading at ${entry.name} (${entry.filePath}:${entry.line})`,
+        citations: [entry.id],
+      });
+    }
+
+    const [central] = report.keyEntities;
+    if (central && central.degree >= HIGHLY_CONNECTED_DEGREE) {
+      recommendations.push({
+        summary: `${central.name} has ${central.degree} relationships; check its dependents before changing it`,
+        citations: [central.id],
+      });
+    }
+
+    for (const module of report.modules) {
+      for (const dependency of module.dependsOn) {
+        const target = report.modules.find((candidate) => candidate.module === dependency.module);
+        if (!target || module.module > target.module) continue;
+        if (!target.dependsOn.some((back) => back.module === module.module)) continue;
+        recommendations.push({
+          summary: `Consider breaking the mutual dependency between ${module.module} and ${target.module}`,
+          citations: [...module.publicSurface, ...target.publicSurface].map((entity) => entity.id),
+        });
+      }
+    }
+
+    return recommendations;
+  }
+
   protected async onShutdown(): Promise<void> {
     console.log(`[DoraAgent ${this.id}] Explorer signing off...`);
   }
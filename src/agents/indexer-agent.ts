@@ -61,6 +61,13 @@ function stableEntityId(base: Omit<Entity, "id" | "createdAt" | "updatedAt">): s
   const key = `${base.filePath}|${base.type}|${base.name}|${s}-${eIdx}`;
   return createHash("sha256").update(key).digest("base64url").slice(0, ID_LENGTH);
 }
+/**
+ * Analyzers for Go/Java address entities as `${filePath}:<kind>:...:<name>`; reduce such ids to the name
+ */
+function localSymbolName(name: string, filePath: string): string {
+  if (!name.startsWith(`${filePath}:`)) return name;
+  return name.split(":").pop() || name;
+}
 function stableRelationshipId(fromId: string, toId: string, type: RelationType | string): string {
   return createHash("sha256").update(`${fromId}|${toId}|${type}`).digest("base64url").slice(0, ID_LENGTH);
 }
@@ -78,7 +85,7 @@ interface ProvidedRelationship {
 }
 
 export interface IndexerTask extends AgentTask {
-  type: "index:entities" | "index:incremental" | "query:graph" | "query:subgraph";
+  type: "index:entities" | "index:file" | "index:remove" | "index:incremental" | "query:graph" | "query:subgraph";
   payload: {
     entities?: ParsedEntity[];
     filePath?: string;
@@ -245,6 +252,17 @@ export class IndexerAgent extends BaseAgent {
           indexerTask.payload.product_id,
         );
 
+      case "index:file":
+        return await this.reindexFile(
+          indexerTask.payload.entities!,
+          indexerTask.payload.filePath!,
+          indexerTask.payload.relationships,
+          indexerTask.payload.product_id,
+        );
+
+      case "index:remove":
+        return await this.removeFile(indexerTask.payload.filePath!);
+
       case "index:incremental":
         return await this.incrementalUpdate(indexerTask.payload.changes!);
 
@@ -267,7 +285,7 @@ export class IndexerAgent extends BaseAgent {
     filePath: string,
     providedRelationships?: ProvidedRelationship[],
     product_id?: string,
-  ): Promise<BatchResult & { entitiesIndexed: number; relationshipsCreated: number }> {
+  ): Promise<BatchResult & { entitiesIndexed: number; relationshipsCreated: number; entityIds: string[] }> {
     const startTime = Date.now();
     console.log(`[${this.id}] Indexing ${entities.length} entities from ${filePath}`);
 
@@ -329,7 +347,7 @@ export class IndexerAgent extends BaseAgent {
       }
 
       function resolveByNameAndLine(name: string, line?: number): string | undefined {
-        const candidates = byName.get(name);
+        const candidates = byName.get(name) ?? byName.get(localSymbolName(name, filePath));
         if (!candidates || candidates.length === 0) return undefined;
 
         if (line == null) return candidates[0]?.id;
@@ -352,7 +370,7 @@ export class IndexerAgent extends BaseAgent {
 
         if (!toId) {
           const src = rel.targetFile || "unknown";
-          toId = `external:${src}:${rel.to}`;
+          toId = `external:${src}:${localSymbolName(rel.to, filePath)}`;
         }
 
         if (fromId && toId) {
@@ -361,7 +379,7 @@ export class IndexerAgent extends BaseAgent {
             fromId,
             toId,
             type: rel.type as any,
-            metadata: { line: rel.metadata?.line, context: rel.type },
+            metadata: { ...rel.metadata, line: rel.metadata?.line, context: rel.type },
             createdAt: Date.now(),
             project_id: product_id,
           } as Relationship);
@@ -379,9 +397,11 @@ export class IndexerAgent extends BaseAgent {
 
     for (const rel of relationships) {
       if (typeof rel.toId === "string" && rel.toId.startsWith("external:")) {
-        const parts = rel.toId.split(":");
-        const source = parts[1] ?? "unknown";
-        const symbol = parts.slice(2).join(":") || "unknown";
+        // Sources may contain ":" themselves (`node:fs`, Windows paths); the symbol is the last segment
+        const ref = rel.toId.slice("external:".length);
+        const separator = ref.lastIndexOf(":");
+        const source = (separator > 0 ? ref.slice(0, separator) : ref) || "unknown";
+        const symbol = (separator > 0 ? ref.slice(separator + 1) : "") || "unknown";
 
         const placeholderBase: Omit<Entity, "id" | "createdAt" | "updatedAt"> = {
           name: symbol,
@@ -481,9 +501,52 @@ export class IndexerAgent extends BaseAgent {
       timeMs: indexTime,
       entitiesIndexed: entityResult.processed,
       relationshipsCreated: relResult.processed,
+      entityIds: storageEntities.map((entity) => entity.id),
     };
   }
 
+  /**
+   * Re-index a file in place: outgoing relationships are rebuilt and entities that
+   * no longer exist in the new parse are removed (their inbound edges cascade)
+   */
+  async reindexFile(
+    entities: ParsedEntity[],
+    filePath: string,
+    providedRelationships?: ProvidedRelationship[],
+    product_id?: string,
+  ): Promise<
+    BatchResult & { entitiesIndexed: number; relationshipsCreated: number; entityIds: string[]; removed: Entity[] }
+  > {
+    const previous = await this.graphStorage.getEntitiesByFile(filePath);
+    await this.graphStorage.deleteRelationshipsFrom(previous.map((entity) => entity.id));
+
+    const result = await this.indexEntities(entities, filePath, providedRelationships, product_id);
+
+    const current = new Set(result.entityIds);
+    const removed = previous.filter((entity) => !current.has(entity.id));
+    if (removed.length > 0) {
+      await this.batchOps.deleteEntities(removed.map((entity) => entity.id));
+      this.cacheManager.clear();
+    }
+
+    return { ...result, removed };
+  }
+
+  /**
+   * Remove a file and all of its entities from the graph
+   */
+  async removeFile(filePath: string): Promise<{ filePath: string; removed: Entity[] }> {
+    const removed = await this.graphStorage.getEntitiesByFile(filePath);
+    if (removed.length > 0) {
+      await this.batchOps.deleteEntities(removed.map((entity) => entity.id));
+    }
+    await this.graphStorage.deleteFileInfo(filePath);
+    this.cacheManager.clear();
+
+    console.log(`[${this.id}] Removed ${removed.length} entities for deleted file ${filePath}`);
+    return { filePath, removed };
+  }
+
   /**
    * Build relationships from parsed entities
    */
@@ -36,6 +36,7 @@ import { SemanticCache } from "../semantic/semantic-cache.js";
 import { VectorStore } from "../semantic/vector-store.js";
 import { getGraphStorage } from "../storage/graph-storage-factory.js";
 import { type AgentMessage, type AgentTask, AgentType } from "../types/agent.js";
+import type { CodeMetrics } from "../types/code-metrics.js";
 import type { ParsedEntity } from "../types/parser.js";
 import {
   type CloneGroup,
@@ -563,8 +564,8 @@ export class SemanticAgent extends BaseAgent implements SemanticOperations {
     return this.codeAnalyzer.crossLanguageSearch(query, languages);
   }
 
-  async suggestRefactoring(code: string): Promise<RefactoringSuggestion[]> {
-    return this.codeAnalyzer.suggestRefactoring(code);
+  async suggestRefactoring(code: string, metrics?: CodeMetrics): Promise<RefactoringSuggestion[]> {
+    return this.codeAnalyzer.suggestRefactoring(code, metrics);
   }
 
   /**
@@ -700,6 +701,9 @@ export class SemanticAgent extends BaseAgent implements SemanticOperations {
     knowledgeBus.subscribe(this.id, "index:complete", this.handleIndexComplete.bind(this));
     knowledgeBus.subscribe(this.id, "index:completed", this.handleIndexComplete.bind(this));
 
+    // Drop embeddings for entities removed by incremental (watch mode) re-indexing
+    knowledgeBus.subscribe(this.id, "index:updated", this.handleIndexUpdated.bind(this));
+
     // Subscribe to entity updates
     knowledgeBus.subscribe(this.id, /^entity:.*/, this.handleEntityUpdate.bind(this));
 
@@ -735,6 +739,44 @@ export class SemanticAgent extends BaseAgent implements SemanticOperations {
     }
   }
 
+  private async handleIndexUpdated(entry: KnowledgeEntry): Promise<void> {
+    const { removedEntities } = entry.data as { removedEntities?: Array<Partial<Entity>> };
+    if (!Array.isArray(removedEntities) || removedEntities.length === 0) return;
+
+    const modelName = (this as any).embeddingGen?.modelName || "default";
+    let deleted = 0;
+    for (const entity of removedEntities) {
+      // Embeddings are keyed by entity id or by a hash of the parsed entity, so clear both
+      const ids = [this.embeddingId(entity, modelName), this.embeddingId({ ...entity, id: undefined }, modelName)];
+      for (const id of ids) {
+        try {
+          await this.vectorStore.delete(id);
+          deleted++;
+        } catch (e) {
+          if (this.debugMode) console.warn(`[${this.id}] Failed to delete embedding ${id}:`, (e as Error).message);
+        }
+      }
+    }
+
+    // Cached search results may still point at the removed entities
+    this.cache.clear();
+    this.semanticMetrics.vectorsStored = await this.vectorStore.count();
+    if (this.debugMode) {
+      console.log(`[${this.id}] Cleared embeddings for ${removedEntities.length} removed entities (${deleted} ids)`);
+    }
+  }
+
+  private embeddingId(entity: any, modelName: string): string {
+    return entity.id
+      ? `ent:${entity.id}`
+      : `doc:${createHash("sha256")
+          .update(
+            `${entity.filePath ?? ""}|${entity.type}|${entity.name}|${entity.location?.start?.index ?? -1}-${entity.location?.end?.index ?? -1}|${modelName}`,
+          )
+          .digest("base64url")
+          .slice(0, 24)}`;
+  }
+
   private async handleEntityUpdate(entry: KnowledgeEntry): Promise<void> {
     const entity = entry.data as ParsedEntity;
     const e: any = entity as any;
@@ -809,14 +851,7 @@ export class SemanticAgent extends BaseAgent implements SemanticOperations {
     const vectorEmbeddings: VectorEmbedding[] = entities.map((entity, i) => {
       const x: any = entity as any;
 
-      const stableId = x.id
-        ? `ent:${x.id}`
-        : `doc:${createHash("sha256")
-            .update(
-              `${x.filePath ?? ""}|${x.type}|${x.name}|${x.location?.start?.index ?? -1}-${x.location?.end?.index ?? -1}|${modelName}`,
-            )
-            .digest("base64url")
-            .slice(0, 24)}`;
+      const stableId = this.embeddingId(x, modelName);
 
       const storedEntity = entityDataMap.get(x.id);
       const filePath = x.filePath ?? x.path ?? storedEntity?.filePath ?? "";
@@ -10,7 +10,7 @@
  */
 
 import { existsSync, readFileSync } from "node:fs";
-import { join, resolve } from "node:path";
+import { delimiter, dirname, join, resolve } from "node:path";
 import { parse as parseYaml } from "yaml";
 
 // =============================================================================
@@ -83,6 +83,10 @@ export interface MCPConfig {
     popularEntitiesTopic?: string;
     useReranker?: boolean;
   };
+  security?: {
+    /** Directories clients may name (the server root is always allowed); MCP_ALLOWED_ROOTS */
+    allowedRoots?: string[];
+  };
 }
 
 // Resolved embedding configuration returned to callers
@@ -175,6 +179,11 @@ export interface IndexerConfig {
   batchSize?: number;
   cacheSize?: number;
   cacheTTL?: number;
+  watch?: {
+    enabled?: boolean; // INDEXER_WATCH or --watch
+    debounceMs?: number; // INDEXER_WATCH_DEBOUNCE_MS
+    excludePatterns?: string[];
+  };
 }
 
 export interface AgentRuntimeConfig {
@@ -265,6 +274,9 @@ const DEFAULT_CONFIG: AppConfig = {
       popularEntitiesTopic: "semantic:warmup:entities",
       useReranker: false,
     },
+    security: {
+      allowedRoots: [],
+    },
   },
   database: {
     path: "./vectors.db",
@@ -310,6 +322,11 @@ const DEFAULT_CONFIG: AppConfig = {
     batchSize: 1000,
     cacheSize: 52428800, // 50MB
     cacheTTL: 300000, // 5 minutes
+    watch: {
+      enabled: false,
+      debounceMs: 500,
+      excludePatterns: [],
+    },
   },
   devAgent: {
     maxConcurrency: 3,
@@ -408,6 +425,13 @@ export class ConfigLoader {
     return this.config;
   }
 
+  /**
+   * Directory holding the active configuration file (config/ under the working directory when none was found)
+   */
+  public getConfigDir(): string {
+    return this.configPath ? dirname(this.configPath) : resolve(process.cwd(), "config");
+  }
+
   /**
    * Reload configuration from files
    */
@@ -676,6 +700,14 @@ export class ConfigLoader {
               ? yamlConfig.mcp.semantic.useReranker
               : process.env.MCP_SEMANTIC_USE_RERANKER === "true" || DEFAULT_CONFIG.mcp.semantic?.useReranker,
         },
+        security: {
+          allowedRoots: yamlConfig.mcp?.security?.allowedRoots?.length
+            ? yamlConfig.mcp.security.allowedRoots
+            : (process.env.MCP_ALLOWED_ROOTS ?? "")
+                .split(delimiter)
+                .map((root) => root.trim())
+                .filter(Boolean),
+        },
       },
       database: {
         path: yamlConfig.database?.path || process.env.DATABASE_PATH || DEFAULT_CONFIG.database?.path,
@@ -797,6 +829,17 @@ export class ConfigLoader {
           yamlConfig.indexer?.cacheTTL ||
           Number(process.env.INDEXER_AGENT_CACHE_TTL) ||
           DEFAULT_CONFIG.indexer?.cacheTTL,
+        watch: {
+          enabled:
+            yamlConfig.indexer?.watch?.enabled !== undefined
+              ? yamlConfig.indexer.watch.enabled
+              : process.env.INDEXER_WATCH === "true" || DEFAULT_CONFIG.indexer?.watch?.enabled,
+          debounceMs:
+            yamlConfig.indexer?.watch?.debounceMs ||
+            Number(process.env.INDEXER_WATCH_DEBOUNCE_MS) ||
+            DEFAULT_CONFIG.indexer?.watch?.debounceMs,
+          excludePatterns: yamlConfig.indexer?.watch?.excludePatterns || DEFAULT_CONFIG.indexer?.watch?.excludePatterns,
+        },
       },
       devAgent: {
         maxConcurrency:
@@ -0,0 +1,28 @@
+/**
+ * Codebase Size
+ * Counts the source files an index run would pick up and their total size, walking the tree in
+ * process (no shell), so resource limits and batch mode can be chosen before indexing starts
+ */
+
+import { statSync } from "node:fs";
+import { extname } from "node:path";
+import { getSupportedExtensions } from "../parsers/language-configs.js";
+import { IgnoreRules, type IgnoreRulesOptions } from "./ignore-rules.js";
+
+export interface CodebaseSize {
+  sourceFiles: number;
+  totalBytes: number;
+}
+
+export function measureCodebase(root: string, options: IgnoreRulesOptions = {}): CodebaseSize {
+  const extensions = new Set(getSupportedExtensions().map((ext) => `.${ext}`));
+  const files = new IgnoreRules(root, options).collectFiles((filePath) =>
+    extensions.has(extname(filePath).toLowerCase()),
+  );
+
+  let totalBytes = 0;
+  for (const filePath of files) {
+    totalBytes += statSync(filePath, { throwIfNoEntry: false })?.size ?? 0;
+  }
+  return { sourceFiles: files.length, totalBytes };
+}
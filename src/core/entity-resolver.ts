@@ -0,0 +1,282 @@
+/**
+ * Entity Resolver
+ * Maps the entity a tool argument names (an ID, a name, or a qualified name such as
+ * `UserService.load`) to indexed entities, ranked by how well they match. A name shared by
+ * entities in different files or products is reported as ambiguous instead of silently picking
+ * one; the caller can then ask the user (MCP elicitation) or return the candidates.
+ */
+
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type {
+  EntityCandidate,
+  EntityChooser,
+  EntityResolution,
+  EntityResolveOptions,
+} from "../types/entity-resolution.js";
+import { EntityResolutionError } from "../types/errors.js";
+import { type Entity, EntityType } from "../types/storage.js";
+
+export const DEFAULT_CANDIDATE_LIMIT = 5;
+
+// Points a candidate must lead the runner-up by to be picked without asking
+const RESOLVED_MARGIN = 10;
+// Rows fetched per search term before ranking
+const SEARCH_LIMIT = 50;
+// Rows scanned for near-miss suggestions when nothing matches
+const SUGGESTION_SCAN_LIMIT = 200;
+
+const QUALIFIER_SEPARATOR = /::|[.#:\\/]/;
+
+// Generated, vendored or archived copies that rarely are what the user means
+const BAD_PATHS = [
+  "/dist/",
+  "/build/",
+  "/out/",
+  "/.next/",
+  "/.nuxt/",
+  "/coverage/",
+  "/node_modules/",
+  "/tmp/",
+  "/temp/",
+  "/archives/",
+  "/archive/",
+  ".zip",
+  ".tar",
+  ".gz",
+  ".tgz",
+  ".rar",
+  ".7z",
+  ".xz",
+  ".bz2",
+  ".zst",
+];
+
+interface Ranked {
+  entity: Entity;
+  score: number;
+  reasons: string[];
+  /** The name (or the qualified name's last part) equals the identifier, ignoring case */
+  nameMatch: boolean;
+}
+
+function toPosixLower(path: string): string {
+  return path.replace(/\\/g, "/").toLowerCase();
+}
+
+function toCandidate({ entity, score, reasons }: Ranked, confidence?: number): EntityCandidate {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    filePath: entity.filePath,
+    line: entity.location?.start?.line ?? 0,
+    endLine: entity.location?.end?.line ?? 0,
+    product_id: entity.project_id,
+    confidence: confidence ?? Math.round(Math.min(Math.max(score, 1), 99)) / 100,
+    reasons,
+  };
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      const value = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function scoreCandidate(entity: Entity, identifier: string, tail: string, qualifier: string, hint?: string): Ranked {
+  const reasons: string[] = [];
+  const name = entity.name;
+  const lowerName = name.toLowerCase();
+  let nameMatch = true;
+  let score: number;
+
+  if (name === identifier) {
+    score = 90;
+    reasons.push("exact name");
+  } else if (lowerName === identifier.toLowerCase()) {
+    score = 80;
+    reasons.push("name differs in case");
+  } else if (qualifier && name === tail) {
+    score = 85;
+    reasons.push("exact name");
+  } else if (qualifier && lowerName === tail.toLowerCase()) {
+    score = 80;
+    reasons.push("name differs in case");
+  } else if (lowerName.startsWith(tail.toLowerCase())) {
+    nameMatch = false;
+    score = 50;
+    reasons.push("name starts with identifier");
+  } else {
+    nameMatch = false;
+    score = 35;
+    reasons.push("name contains identifier");
+  }
+
+  const path = toPosixLower(entity.filePath);
+  if (qualifier) {
+    const lowerQualifier = qualifier.toLowerCase();
+    const metadata = JSON.stringify(entity.metadata ?? {}).toLowerCase();
+    if (path.includes(lowerQualifier) || metadata.includes(lowerQualifier)) {
+      score += 5;
+      reasons.push(`qualifier "${qualifier}" matches`);
+    }
+  }
+
+  if (hint) {
+    if (path === hint) {
+      score += 10;
+      reasons.push("in hinted file");
+    } else if (path.endsWith(hint)) {
+      score += 8;
+      reasons.push("in hinted file");
+    } else if (path.includes(hint)) {
+      score += 5;
+      reasons.push("under hinted path");
+    } else {
+      score -= 20;
+    }
+  }
+
+  if (BAD_PATHS.some((bad) => path.includes(bad))) {
+    score -= 15;
+    reasons.push("generated or vendored path");
+  }
+  if (entity.type === EntityType.IMPORT || entity.type === EntityType.EXPORT) {
+    score -= 10;
+    reasons.push(`${entity.type} statement`);
+  }
+
+  return { entity, score, reasons, nameMatch };
+}
+
+function byScore(a: Ranked, b: Ranked): number {
+  return (
+    b.score - a.score || a.entity.filePath.length - b.entity.filePath.length || a.entity.id.localeCompare(b.entity.id)
+  );
+}
+
+/**
+ * Names close to a mistyped identifier, for the "did you mean" list of a not-found result
+ */
+async function nearMisses(storage: GraphStorageImpl, identifier: string, options: EntityResolveOptions) {
+  const lower = identifier.toLowerCase();
+  const maxDistance = Math.max(1, Math.floor(lower.length / 4));
+  const rows = await storage.searchEntitiesByName(identifier.slice(0, Math.min(3, identifier.length)), {
+    product_id: options.product_id,
+    limit: SUGGESTION_SCAN_LIMIT,
+  });
+
+  const ranked: Ranked[] = [];
+  for (const entity of rows) {
+    if (entity.filePath.startsWith("external://")) continue;
+    const distance = editDistance(lower, entity.name.toLowerCase(), maxDistance);
+    if (distance > maxDistance) continue;
+    ranked.push({ entity, score: 40 - distance * 10, reasons: [`${distance} edit(s) away`], nameMatch: false });
+  }
+  return ranked;
+}
+
+/**
+ * Rank the entities an identifier may refer to.
+ * `resolved` when an ID matches or one name match clearly beats the rest, `ambiguous` when
+ * several entities match equally well, `not_found` (with near misses as candidates) otherwise.
+ */
+export async function resolveEntityCandidates(
+  storage: GraphStorageImpl,
+  identifier: string,
+  options: EntityResolveOptions = {},
+): Promise<EntityResolution> {
+  const trimmed = identifier.trim();
+  const limit = Math.max(1, options.limit ?? DEFAULT_CANDIDATE_LIMIT);
+  if (!trimmed) return { identifier, status: "not_found", candidates: [] };
+
+  const direct = await storage.getEntity(trimmed);
+  if (direct && (!options.product_id || direct.project_id === options.product_id)) {
+    return {
+      identifier,
+      status: "resolved",
+      candidates: [toCandidate({ entity: direct, score: 100, reasons: ["exact id"], nameMatch: true }, 1)],
+    };
+  }
+
+  const parts = trimmed.split(QUALIFIER_SEPARATOR).filter(Boolean);
+  const tail = parts.at(-1) ?? trimmed;
+  // The innermost qualifier, e.g. the class of `module.Class.method`
+  const qualifier = parts.length > 1 ? parts.at(-2)! : "";
+  const hint = options.filePath ? toPosixLower(options.filePath).replace(/^\.\//, "") : undefined;
+
+  const seen = new Map<string, Ranked>();
+  for (const term of new Set([trimmed, tail])) {
+    for (const entity of await storage.searchEntitiesByName(term, {
+      product_id: options.product_id,
+      limit: SEARCH_LIMIT,
+    })) {
+      if (seen.has(entity.id) || entity.filePath.startsWith("external://")) continue;
+      seen.set(entity.id, scoreCandidate(entity, trimmed, tail, qualifier, hint));
+    }
+  }
+
+  const ranked = [...seen.values()].sort(byScore);
+  const matches = ranked.filter((entry) => entry.nameMatch);
+  if (matches.length === 0) {
+    const suggestions = ranked.length > 0 ? ranked : (await nearMisses(storage, tail, options)).sort(byScore);
+    return {
+      identifier,
+      status: "not_found",
+      candidates: suggestions.slice(0, limit).map((entry) => toCandidate(entry)),
+    };
+  }
+
+  const [best, runnerUp] = matches;
+  const clear = !runnerUp || best!.score - runnerUp.score >= RESOLVED_MARGIN;
+  return {
+    identifier,
+    status: clear ? "resolved" : "ambiguous",
+    candidates: matches.slice(0, limit).map((entry) => toCandidate(entry)),
+  };
+}
+
+/**
+ * Resolve an identifier to one entity, asking `choose` (when given) to pick among ambiguous
+ * candidates. Throws EntityResolutionError when nothing matches or the choice stays open.
+ */
+export async function resolveEntity(
+  storage: GraphStorageImpl,
+  identifier: string,
+  options: EntityResolveOptions & { choose?: EntityChooser } = {},
+): Promise<Entity> {
+  const resolution = await resolveEntityCandidates(storage, identifier, options);
+  let chosenId: string | undefined;
+
+  if (resolution.status === "resolved") {
+    chosenId = resolution.candidates[0]?.id;
+  } else if (resolution.status === "ambiguous" && options.choose) {
+    const answer = await options.choose(identifier, resolution.candidates);
+    chosenId = resolution.candidates.find((candidate) => candidate.id === answer)?.id;
+  }
+
+  const entity = chosenId ? await storage.getEntity(chosenId) : null;
+  if (!entity) {
+    throw new EntityResolutionError({
+      identifier,
+      status: resolution.status === "not_found" ? "not_found" : "ambiguous",
+      candidates: resolution.candidates,
+    });
+  }
+  return entity;
+}
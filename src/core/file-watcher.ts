@@ -0,0 +1,163 @@
+/**
+ * File Watcher
+ * Watches the server root for source changes and emits debounced FileChange batches
+ * that are fed through the parser/indexer pipeline for continuous re-indexing
+ */
+
+import { type FSWatcher, watch } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname, join } from "node:path";
+import { getSupportedExtensions } from "../parsers/language-configs.js";
+import { AgentBusyError } from "../types/errors.js";
+import type { FileChange } from "../types/parser.js";
+import { CODEGRAPH_IGNORE_FILE, GITIGNORE_FILE, IgnoreRules } from "./ignore-rules.js";
+
+export { DEFAULT_EXCLUDED_DIR_NAMES, matchesExcludePattern } from "./ignore-rules.js";
+
+export interface FileWatcherOptions {
+  /** Quiet period after the last event before a batch is emitted */
+  debounceMs?: number;
+  excludePatterns?: string[];
+  /** Receives each batch; batches never overlap */
+  onChanges: (changes: FileChange[]) => Promise<void>;
+  onError?: (error: Error) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const BUSY_RETRY_MS = 1000;
+
+export class FileWatcher {
+  private watcher: FSWatcher | null = null;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private readonly extensions: Set<string>;
+  private readonly debounceMs: number;
+  private readonly ignoreRules: IgnoreRules;
+
+  constructor(
+    private readonly root: string,
+    private readonly options: FileWatcherOptions,
+  ) {
+    this.extensions = new Set(getSupportedExtensions().map((ext) => `.${ext}`));
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.ignoreRules = new IgnoreRules(root, { excludePatterns: options.excludePatterns });
+  }
+
+  /**
+   * Start watching the root directory recursively
+   */
+  start(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.root, { recursive: true }, (_event, filename) => {
+      if (filename) {
+        const filePath = join(this.root, filename.toString());
+        const name = basename(filePath);
+        if (name === GITIGNORE_FILE || name === CODEGRAPH_IGNORE_FILE) this.ignoreRules.reload();
+        this.enqueue(filePath);
+      }
+    });
+    this.watcher.on("error", (error) => this.options.onError?.(error));
+  }
+
+  /**
+   * Stop watching and wait for an in-flight batch to finish
+   */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+    await this.running;
+  }
+
+  isWatching(): boolean {
+    return this.watcher !== null;
+  }
+
+  /**
+   * Record a changed path and (re)arm the debounce timer
+   */
+  enqueue(filePath: string): void {
+    if (!this.isTracked(filePath)) return;
+
+    this.pending.add(filePath);
+    this.schedule(this.debounceMs);
+  }
+
+  /**
+   * Emit the pending batch immediately
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    // Serialize batches: events arriving mid-batch wait for the next one
+    while (this.running) {
+      await this.running;
+    }
+    if (this.pending.size === 0) return;
+
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    this.running = this.processBatch(paths).finally(() => {
+      this.running = null;
+    });
+    await this.running;
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private async processBatch(paths: string[]): Promise<void> {
+    const changes = (await Promise.all(paths.map((filePath) => this.toFileChange(filePath)))).filter(
+      (change): change is FileChange => change !== null,
+    );
+    if (changes.length === 0) return;
+
+    try {
+      await this.options.onChanges(changes);
+    } catch (error) {
+      if (error instanceof AgentBusyError) {
+        // Put the paths back and retry once the agent has capacity
+        for (const change of changes) this.pending.add(change.filePath);
+        this.schedule(error.details.retryAfterMs ?? BUSY_RETRY_MS);
+        return;
+      }
+      this.options.onError?.(error as Error);
+    }
+  }
+
+  private async toFileChange(filePath: string): Promise<FileChange | null> {
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) return null;
+      const content = await readFile(filePath, "utf8");
+      return { filePath, changeType: "modified", content };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { filePath, changeType: "deleted" };
+      }
+      this.options.onError?.(error as Error);
+      return null;
+    }
+  }
+
+  private isTracked(filePath: string): boolean {
+    if (!this.extensions.has(extname(filePath).toLowerCase())) return false;
+    // Same rules as DevAgent.collectFiles: defaults, ignore files and exclude patterns
+    return !this.ignoreRules.isIgnored(filePath);
+  }
+}
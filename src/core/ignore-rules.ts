@@ -0,0 +1,524 @@
+/**
+ * Ignore Rules
+ * Decides which files under a root are indexed and scanned for clones, the way git decides what
+ * it tracks: built-in defaults, `.git/info/exclude`, nested `.gitignore` files, nested
+ * `.codegraphignore` files and the caller's exclude patterns, in increasing precedence. The last
+ * matching rule wins, so a `!pattern` in `.codegraphignore` re-includes what `.gitignore` or the
+ * defaults skip. Counts how many files and directories each rule skipped.
+ */
+
+import { existsSync, lstatSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { IgnoreRuleSource, IgnoreRuleStats, IgnoreSummary } from "../types/ignore.js";
+
+export const GITIGNORE_FILE = ".gitignore";
+export const CODEGRAPH_IGNORE_FILE = ".codegraphignore";
+
+/**
+ * Directory names that are never indexed unless an ignore file re-includes them
+ */
+export const DEFAULT_EXCLUDED_DIR_NAMES = new Set([
+  "node_modules",
+  "tmp",
+  "temp",
+  "cache",
+  "__pycache__",
+  ".pytest_cache",
+  "venv",
+  ".venv",
+  "test",
+  "tests",
+  "__tests__",
+  ".memory_bank",
+  "build",
+  "dist",
+  "out",
+  ".next",
+  ".nuxt",
+  "coverage",
+  "archives",
+  "archive",
+  "backups",
+  "backup",
+  "vendor",
+  "target",
+]);
+
+/**
+ * Default excluded directories that hold tests, indexed when tests are requested
+ */
+export const TEST_DIR_NAMES = new Set(["test", "tests", "__tests__"]);
+
+/**
+ * Match a path against index exclude patterns (`**` globs or plain substrings)
+ */
+export function matchesExcludePattern(path: string, excludePatterns: string[]): boolean {
+  for (const pattern of excludePatterns) {
+    if (pattern.includes("**")) {
+      const regex = pattern.replace(/\*\*/g, ".*").replace(/\*/g, "[^/]*");
+      if (new RegExp(regex).test(path)) return true;
+    } else if (path.includes(pattern.replace(/\*/g, ""))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export interface IgnoreRulesOptions {
+  /** Tool exclude patterns (`**` globs or plain substrings), matched against absolute paths */
+  excludePatterns?: string[];
+  /** Read `.gitignore`, `.git/info/exclude` and `.codegraphignore` (default true) */
+  ignoreFiles?: boolean;
+  /** Skip hidden and `DEFAULT_EXCLUDED_DIR_NAMES` directories (default true); `.git` is always skipped */
+  defaultRules?: boolean;
+  /** Keep `TEST_DIR_NAMES` directories out of the default rules (default false) */
+  includeTests?: boolean;
+}
+
+interface IgnoreRule extends IgnoreRuleStats {
+  negated: boolean;
+  /** Path relative to the root (posix) -> whether the rule matches it */
+  test: (path: string, isDirectory: boolean) => boolean;
+  /** Negated anchored rules: root-relative path prefix under which they can re-include something */
+  reincludePrefix?: string;
+}
+
+/** How a path was decided: skipped by `rule`, or kept (`rule` is the re-including rule, if any) */
+interface Decision {
+  ignored: boolean;
+  rule?: IgnoreRule;
+}
+
+const KEPT: Decision = { ignored: false };
+
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+/**
+ * Translate a gitignore glob (without leading `!` or trailing `/`) into a regex source
+ */
+function globToRegexSource(glob: string): string {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    const atSegmentStart = i === 0 || glob[i - 1] === "/";
+
+    if (char === "\\" && i + 1 < glob.length) {
+      source += glob[++i]!.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else if (
+      char === "*" &&
+      glob[i + 1] === "*" &&
+      atSegmentStart &&
+      (glob[i + 2] === "/" || i + 2 === glob.length)
+    ) {
+      if (glob[i + 2] === "/") {
+        // `**/`: zero or more directories
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        // trailing `**`: everything inside
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      while (glob[i + 1] === "*") i++;
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        const body = glob
+          .slice(i + 1, close)
+          .replace(/^!/, "^")
+          .replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\/]/g, "\\$&");
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile a gitignore-style path glob into a regex over `/`-separated relative paths: a pattern
+ * without a slash matches a file or directory name anywhere, and a match on a directory covers
+ * everything inside it
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/\/+$/, "");
+  const anchored = pattern.includes("/");
+  const body = globToRegexSource(pattern.replace(/^\//, ""));
+  return new RegExp(`${anchored ? "^" : "^(?:.*/)?"}${body}(?:/.*)?$`);
+}
+
+/**
+ * Where an ignore file sits: its directory relative to the root, or for files above the root
+ * (git repository root, `.git/info/exclude`) the root's path relative to the file's directory
+ */
+type RuleScope = { base: string } | { rootFromBase: string };
+
+/**
+ * Compile one gitignore line into a rule matching root-relative paths
+ */
+function compileGitignoreLine(
+  line: string,
+  scope: RuleScope,
+  meta: { source: IgnoreRuleSource; file?: string; line?: number; ignoreCase?: boolean },
+): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) return null;
+
+  let negated = false;
+  if (pattern.startsWith("!")) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.replace(/\/+$/, "");
+  }
+  if (!pattern) return null;
+
+  // A slash anywhere but at the end anchors the pattern to the ignore file's directory
+  const anchored = pattern.includes("/");
+  pattern = pattern.replace(/^\//, "");
+
+  const body = globToRegexSource(pattern);
+  const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`, meta.ignoreCase ? "i" : "");
+  const toBaseRelative = baseRelativizer(scope);
+
+  let reincludePrefix: string | undefined;
+  if (negated && anchored) {
+    const literal = pattern.slice(0, pattern.search(/[*?[\\]|$/));
+    const dir = literal.includes("/") ? literal.slice(0, literal.lastIndexOf("/")) : literal;
+    reincludePrefix = fromBaseRelative(scope, dir);
+  }
+
+  return {
+    source: meta.source,
+    file: meta.file,
+    line: meta.line,
+    pattern: line.trim(),
+    files: 0,
+    directories: 0,
+    negated,
+    reincludePrefix,
+    test: (path, isDirectory) => {
+      if (dirOnly && !isDirectory) return false;
+      const relativePath = toBaseRelative(path);
+      return relativePath !== null && regex.test(relativePath);
+    },
+  };
+}
+
+function joinPosix(a: string, b: string): string {
+  if (!a) return b;
+  if (!b) return a;
+  return `${a}/${b}`;
+}
+
+/**
+ * Root-relative path -> path relative to the ignore file's directory, or null when outside it
+ */
+function baseRelativizer(scope: RuleScope): (path: string) => string | null {
+  if ("rootFromBase" in scope) return (path) => joinPosix(scope.rootFromBase, path);
+  if (!scope.base) return (path) => path;
+  const prefix = `${scope.base}/`;
+  return (path) => (path.startsWith(prefix) ? path.slice(prefix.length) : null);
+}
+
+/**
+ * Path relative to the ignore file's directory -> root-relative path; empty when it contains the root
+ */
+function fromBaseRelative(scope: RuleScope, path: string): string | undefined {
+  if (!("rootFromBase" in scope)) return joinPosix(scope.base, path);
+  const { rootFromBase } = scope;
+  if (!rootFromBase) return path;
+  if (path === rootFromBase || rootFromBase.startsWith(`${path}/`) || !path) return "";
+  return path.startsWith(`${rootFromBase}/`) ? path.slice(rootFromBase.length + 1) : undefined;
+}
+
+/**
+ * The git repository (work tree root and git dir) containing `dir`, if any
+ */
+function findGitRepository(dir: string): { workTree: string; gitDir: string } | null {
+  let current = resolve(dir);
+  while (true) {
+    const dotGit = join(current, ".git");
+    const stats = statSync(dotGit, { throwIfNoEntry: false });
+    if (stats?.isDirectory()) return { workTree: current, gitDir: dotGit };
+    if (stats?.isFile()) {
+      // Worktrees and submodules: `.git` is a file pointing at the git dir
+      const match = /^gitdir:\s*(.+)$/m.exec(readFileSync(dotGit, "utf8"));
+      if (match) {
+        const gitDir = match[1]!.trim();
+        return { workTree: current, gitDir: isAbsolute(gitDir) ? gitDir : resolve(current, gitDir) };
+      }
+    }
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+export class IgnoreRules {
+  readonly root: string;
+  private readonly ignoreFiles: boolean;
+  private readonly defaultRules: IgnoreRule[];
+  private readonly excludeRules: IgnoreRule[];
+  private gitExcludeRules: IgnoreRule[] = [];
+  /** Directories between the git work tree and the root, relative to the root (`..`, `../..`) */
+  private aboveRoot: string[] = [];
+  private fileRules = new Map<string, IgnoreRule[]>();
+  private dirRules = new Map<string, IgnoreRule[]>();
+  private readonly allRules = new Set<IgnoreRule>();
+
+  constructor(root: string, options: IgnoreRulesOptions = {}) {
+    this.root = resolve(root);
+    this.ignoreFiles = options.ignoreFiles ?? true;
+
+    const defaultPatterns =
+      options.defaultRules === false
+        ? [".git/"]
+        : [
+            ".*/",
+            ...Array.from(DEFAULT_EXCLUDED_DIR_NAMES)
+              .filter((name) => !(options.includeTests && TEST_DIR_NAMES.has(name)))
+              .map((name) => `${name}/`),
+          ];
+    this.defaultRules = defaultPatterns
+      .map((pattern) => compileGitignoreLine(pattern, { base: "" }, { source: "default", ignoreCase: true }))
+      .filter((rule): rule is IgnoreRule => rule !== null);
+
+    this.excludeRules = (options.excludePatterns ?? []).map((pattern) => ({
+      source: "exclude_pattern" as const,
+      pattern,
+      files: 0,
+      directories: 0,
+      negated: false,
+      test: (path: string, isDirectory: boolean) =>
+        matchesExcludePattern(`${this.root}/${path}${isDirectory ? "/" : ""}`, [pattern]),
+    }));
+
+    this.loadRepositoryRules();
+  }
+
+  /**
+   * Forget cached ignore files, e.g. after one changed
+   */
+  reload(): void {
+    this.fileRules.clear();
+    this.dirRules.clear();
+    this.loadRepositoryRules();
+  }
+
+  /**
+   * Whether an absolute path (or one relative to the root) is skipped, including because a
+   * directory above it is
+   */
+  isIgnored(path: string, isDirectory = false): boolean {
+    const relativePath = this.toRelative(path);
+    if (relativePath === null) return true;
+    if (!relativePath) return false;
+
+    const parts = relativePath.split("/");
+    let inherited = KEPT;
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join("/");
+      inherited = this.decide(dir, true, inherited);
+      if (inherited.ignored && !this.mayReinclude(dir)) return true;
+    }
+    return this.decide(relativePath, isDirectory, inherited).ignored;
+  }
+
+  /**
+   * Walk the root and return the files that are not ignored and pass `accept`; skipped files
+   * (that pass `accept`) and directories are counted against the rule that skipped them.
+   * Symbolic links are not followed.
+   */
+  collectFiles(accept: (filePath: string) => boolean = () => true): string[] {
+    const files: string[] = [];
+
+    const walk = (dirAbs: string, dirRel: string, inherited: Decision) => {
+      let names: string[];
+      try {
+        names = readdirSync(dirAbs);
+      } catch {
+        return;
+      }
+
+      for (const name of names) {
+        const fullPath = join(dirAbs, name);
+        const stats = lstatSync(fullPath, { throwIfNoEntry: false });
+        if (!stats || stats.isSymbolicLink()) continue;
+
+        const relativePath = joinPosix(dirRel, name);
+        if (stats.isDirectory()) {
+          const decision = this.decide(relativePath, true, inherited);
+          if (decision.ignored && !this.mayReinclude(relativePath)) {
+            if (decision.rule) decision.rule.directories++;
+            continue;
+          }
+          walk(fullPath, relativePath, decision);
+        } else if (stats.isFile() && accept(fullPath)) {
+          const decision = this.decide(relativePath, false, inherited);
+          if (decision.ignored) {
+            if (decision.rule) decision.rule.files++;
+          } else {
+            files.push(fullPath);
+          }
+        }
+      }
+    };
+
+    walk(this.root, "", KEPT);
+    return files;
+  }
+
+  /**
+   * What the rules skipped during `collectFiles`
+   */
+  summary(): IgnoreSummary {
+    const rules = Array.from(this.allRules)
+      .filter((rule) => rule.files > 0 || rule.directories > 0)
+      .map(({ source, file, line, pattern, files, directories }) => ({
+        source,
+        ...(file !== undefined ? { file, line } : {}),
+        pattern,
+        files,
+        directories,
+      }))
+      .sort((a, b) => b.files - a.files || b.directories - a.directories || a.pattern.localeCompare(b.pattern));
+
+    return {
+      root: this.root,
+      filesSkipped: rules.reduce((total, rule) => total + rule.files, 0),
+      directoriesSkipped: rules.reduce((total, rule) => total + rule.directories, 0),
+      rules,
+    };
+  }
+
+  private toRelative(path: string): string | null {
+    const relativePath = toPosix(relative(this.root, isAbsolute(path) ? path : join(this.root, path)));
+    if (relativePath.startsWith("..") || isAbsolute(relativePath)) return null;
+    return relativePath;
+  }
+
+  /**
+   * Apply the rules in precedence order; the last one matching decides. Without a match the
+   * path shares its directory's fate.
+   */
+  private decide(relativePath: string, isDirectory: boolean, inherited: Decision): Decision {
+    const slash = relativePath.lastIndexOf("/");
+    const rules = this.rulesFor(slash === -1 ? "" : relativePath.slice(0, slash));
+
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const rule = rules[i]!;
+      if (rule.test(relativePath, isDirectory)) {
+        return { ignored: !rule.negated, rule };
+      }
+    }
+    return inherited;
+  }
+
+  /**
+   * An ignored directory is still walked when a negated rule can re-include something in it
+   */
+  private mayReinclude(dirRel: string): boolean {
+    for (const rule of this.rulesFor(dirRel)) {
+      const prefix = rule.reincludePrefix;
+      if (prefix === undefined) continue;
+      // The rule's directory is inside this one, or this one is inside the rule's directory
+      if (!prefix || `${prefix}/`.startsWith(`${dirRel}/`) || dirRel.startsWith(`${prefix}/`)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Rules that apply to entries of a directory (relative to the root), lowest precedence first
+   */
+  private rulesFor(dirRel: string): IgnoreRule[] {
+    const cached = this.dirRules.get(dirRel);
+    if (cached) return cached;
+
+    const ancestors = [""];
+    if (dirRel) {
+      const parts = dirRel.split("/");
+      for (let i = 1; i <= parts.length; i++) ancestors.push(parts.slice(0, i).join("/"));
+    }
+
+    const rules = [...this.defaultRules];
+    if (this.ignoreFiles) {
+      rules.push(...this.gitExcludeRules);
+      for (const dir of [...this.aboveRoot, ...ancestors])
+        rules.push(...this.loadFile(dir, GITIGNORE_FILE, "gitignore"));
+      for (const dir of ancestors) rules.push(...this.loadFile(dir, CODEGRAPH_IGNORE_FILE, "codegraphignore"));
+    }
+    rules.push(...this.excludeRules);
+
+    for (const rule of rules) this.allRules.add(rule);
+    this.dirRules.set(dirRel, rules);
+    return rules;
+  }
+
+  private loadFile(dirRel: string, name: string, source: IgnoreRuleSource): IgnoreRule[] {
+    const key = `${dirRel}\0${name}`;
+    const cached = this.fileRules.get(key);
+    if (cached) return cached;
+
+    const scope: RuleScope = dirRel.startsWith("..")
+      ? { rootFromBase: toPosix(relative(resolve(this.root, dirRel), this.root)) }
+      : { base: dirRel };
+    const rules = this.readRules(join(this.root, dirRel, name), scope, source);
+    this.fileRules.set(key, rules);
+    return rules;
+  }
+
+  private readRules(filePath: string, scope: RuleScope, source: IgnoreRuleSource): IgnoreRule[] {
+    if (!existsSync(filePath)) return [];
+    let content: string;
+    try {
+      content = readFileSync(filePath, "utf8");
+    } catch {
+      return [];
+    }
+
+    const file = toPosix(relative(this.root, filePath));
+    return content
+      .split(/\r?\n/)
+      .map((line, index) => compileGitignoreLine(line, scope, { source, file, line: index + 1 }))
+      .filter((rule): rule is IgnoreRule => rule !== null);
+  }
+
+  private loadRepositoryRules(): void {
+    this.gitExcludeRules = [];
+    this.aboveRoot = [];
+    if (!this.ignoreFiles) return;
+
+    const repository = findGitRepository(this.root);
+    if (!repository) return;
+
+    const workTreeFromRoot = toPosix(relative(this.root, repository.workTree));
+    this.gitExcludeRules = this.readRules(
+      join(repository.gitDir, "info", "exclude"),
+      { rootFromBase: toPosix(relative(repository.workTree, this.root)) },
+      "git_exclude",
+    );
+
+    // `.gitignore` files between the work tree and the root also apply
+    const depth = workTreeFromRoot ? workTreeFromRoot.split("/").length : 0;
+    for (let level = depth; level > 0; level--) {
+      this.aboveRoot.push(Array(level).fill("..").join("/"));
+    }
+  }
+}
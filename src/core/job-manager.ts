@@ -0,0 +1,213 @@
+/**
+ * Job Manager
+ * Runs indexing as background jobs, one at a time, recording progress in SQLite so callers can
+ * poll, wait with progress updates, or cancel. Cancellation aborts the job's signal between
+ * phases and tells the DevAgent (`indexing:cancel`) to stop before its next batch.
+ */
+
+import { EventEmitter } from "node:events";
+import type { JobStore } from "../storage/job-store.js";
+import { JobCancelledError } from "../types/errors.js";
+import type { CreateJobInput, IndexingProgressEvent, Job, JobProgress } from "../types/jobs.js";
+import { logger } from "../utils/logger.js";
+import { knowledgeBus } from "./knowledge-bus.js";
+
+export interface JobContext {
+  job: Job;
+  signal: AbortSignal;
+  reportProgress(progress: Partial<JobProgress>): void;
+  /** Throw JobCancelledError once the job has been cancelled */
+  throwIfCancelled(): void;
+}
+
+export type JobRunner = (context: JobContext) => Promise<unknown>;
+
+export interface WaitOptions {
+  /** Stop waiting (the job keeps running) after this long */
+  timeoutMs: number;
+  /** Cancel the job when this signal aborts, e.g. on an MCP cancellation */
+  signal?: AbortSignal;
+  onProgress?: (job: Job) => void;
+}
+
+const FINISHED = new Set(["completed", "failed", "cancelled"]);
+
+export function isJobFinished(job: Job): boolean {
+  return FINISHED.has(job.status);
+}
+
+/**
+ * One-line progress summary, e.g. "indexing: 200/1500 files"
+ */
+export function formatJobProgress(job: Job): string {
+  const { phase, filesProcessed, totalFiles } = job.progress;
+  return `${phase ?? job.status}: ${filesProcessed}/${totalFiles} files`;
+}
+
+export class JobManager {
+  private queue: Array<{ id: string; run: JobRunner }> = [];
+  private controllers = new Map<string, AbortController>();
+  private events = new EventEmitter();
+  private draining = false;
+  private subscriptionId: string | null = null;
+
+  constructor(private store: JobStore) {
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Listen for DevAgent batch progress and fail jobs a previous process left unfinished
+   */
+  attach(): void {
+    if (this.subscriptionId) return;
+    const interrupted = this.store.failInterruptedJobs();
+    if (interrupted > 0) {
+      logger.warn("JOBS", `Marked ${interrupted} interrupted jobs as failed`);
+    }
+    this.subscriptionId = knowledgeBus.subscribe("job-manager", "indexing:progress", (entry) => {
+      const { jobId, ...progress } = entry.data as IndexingProgressEvent;
+      if (jobId && this.controllers.has(jobId)) this.recordProgress(jobId, progress);
+    });
+  }
+
+  detach(): void {
+    if (this.subscriptionId) {
+      knowledgeBus.unsubscribe(this.subscriptionId);
+      this.subscriptionId = null;
+    }
+    for (const controller of this.controllers.values()) controller.abort();
+  }
+
+  /**
+   * Queue a job; it starts once the jobs ahead of it have finished
+   */
+  start(input: CreateJobInput, run: JobRunner): Job {
+    const job = this.store.createJob(input);
+    this.queue.push({ id: job.id, run });
+    logger.info("JOBS", `Queued ${job.kind} job`, { jobId: job.id, directory: job.directory });
+    void this.drain();
+    return job;
+  }
+
+  getJob(id: string): Job | null {
+    return this.store.getJob(id);
+  }
+
+  listJobs(options?: Parameters<JobStore["listJobs"]>[0]): Job[] {
+    return this.store.listJobs(options);
+  }
+
+  /**
+   * Cancel a queued or running job; returns null for unknown jobs and finished jobs unchanged
+   */
+  cancel(id: string): Job | null {
+    const job = this.store.getJob(id);
+    if (!job || isJobFinished(job)) return job;
+
+    this.store.requestCancel(id);
+    const queued = this.queue.findIndex((entry) => entry.id === id);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      this.store.finishJob(id, "cancelled");
+      this.emitFinished(id);
+    } else {
+      this.controllers.get(id)?.abort();
+      knowledgeBus.publish("indexing:cancel", { jobId: id }, "job-manager");
+    }
+    logger.info("JOBS", "Job cancellation requested", { jobId: id, queued: queued !== -1 });
+    return this.store.getJob(id);
+  }
+
+  /**
+   * Wait for a job to finish; resolves with its current state if the timeout passes first
+   */
+  wait(id: string, options: WaitOptions): Promise<Job | null> {
+    const current = this.store.getJob(id);
+    if (!current || isJobFinished(current)) return Promise.resolve(current);
+
+    return new Promise((resolve) => {
+      const onProgress = (job: Job) => {
+        if (job.id === id) options.onProgress?.(job);
+      };
+      const onFinished = (job: Job) => {
+        if (job.id === id) done(job);
+      };
+      const onAbort = () => this.cancel(id);
+      const timer = setTimeout(() => done(this.store.getJob(id)), options.timeoutMs);
+
+      const done = (job: Job | null) => {
+        clearTimeout(timer);
+        this.events.off("progress", onProgress);
+        this.events.off("finished", onFinished);
+        options.signal?.removeEventListener("abort", onAbort);
+        resolve(job);
+      };
+
+      this.events.on("progress", onProgress);
+      this.events.on("finished", onFinished);
+      if (options.signal?.aborted) onAbort();
+      else options.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      let next = this.queue.shift();
+      while (next) {
+        await this.execute(next.id, next.run);
+        next = this.queue.shift();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async execute(id: string, run: JobRunner): Promise<void> {
+    this.store.markRunning(id);
+    const job = this.store.getJob(id);
+    if (!job) return;
+
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
+    this.events.emit("progress", job);
+
+    const context: JobContext = {
+      job,
+      signal: controller.signal,
+      reportProgress: (progress) => this.recordProgress(id, progress),
+      throwIfCancelled: () => {
+        if (controller.signal.aborted) throw new JobCancelledError(id);
+      },
+    };
+
+    try {
+      const result = await run(context);
+      context.throwIfCancelled();
+      this.store.finishJob(id, "completed", { result });
+      logger.info("JOBS", `${job.kind} job completed`, { jobId: id });
+    } catch (error) {
+      if (error instanceof JobCancelledError || controller.signal.aborted) {
+        this.store.finishJob(id, "cancelled");
+        logger.info("JOBS", `${job.kind} job cancelled`, { jobId: id });
+      } else {
+        this.store.finishJob(id, "failed", { error: (error as Error).message });
+        logger.error("JOBS", `${job.kind} job failed`, { jobId: id, error: (error as Error).message });
+      }
+    } finally {
+      this.controllers.delete(id);
+      this.emitFinished(id);
+    }
+  }
+
+  private recordProgress(id: string, progress: Partial<JobProgress>): void {
+    const job = this.store.updateProgress(id, progress);
+    if (job) this.events.emit("progress", job);
+  }
+
+  private emitFinished(id: string): void {
+    const job = this.store.getJob(id);
+    if (job) this.events.emit("finished", job);
+  }
+}
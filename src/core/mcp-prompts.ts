@@ -0,0 +1,262 @@
+/**
+ * MCP Prompts
+ * Registry of parameterized code-graph workflows loaded from YAML (config/prompts.yaml and
+ * config/prompts/*.yaml), served through prompts/list and prompts/get with the relevant graph
+ * data embedded.
+ */
+
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  type GetPromptResult,
+  ListPromptsRequestSchema,
+  McpError,
+  type Prompt,
+  type PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { EntityResolutionError } from "../types/errors.js";
+import type { PromptDefinition } from "../types/prompts.js";
+import type { Entity } from "../types/storage.js";
+import { logger } from "../utils/logger.js";
+import type { ResourceContents, ToolRunner } from "./mcp-resources.js";
+
+const PROMPTS_FILE = "prompts.yaml";
+const PROMPTS_DIR = "prompts";
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const SINGLE_PLACEHOLDER = /^\{\{\s*[\w.]+\s*\}\}$/;
+
+const PromptArgumentSchema = z.object({
+  name: z.string().regex(/^\w+$/, "Argument names may only contain letters, digits and underscores"),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+  default: z.union([z.string(), z.number(), z.boolean()]).transform(String).optional(),
+  resolve: z.literal("entity").optional(),
+  hint: z.string().optional(),
+});
+
+const PromptContextSchema = z
+  .object({
+    title: z.string().optional(),
+    tool: z.string().optional(),
+    args: z.record(z.unknown()).optional(),
+    resource: z.string().optional(),
+  })
+  .refine((item) => Boolean(item.tool) !== Boolean(item.resource), {
+    message: "Each context item needs exactly one of `tool` or `resource`",
+  });
+
+const PromptFileSchema = z.object({
+  prompts: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        title: z.string().optional(),
+        description: z.string().optional(),
+        arguments: z.array(PromptArgumentSchema).optional().default([]),
+        context: z.array(PromptContextSchema).optional().default([]),
+        template: z.string().min(1),
+      }),
+    )
+    .default([]),
+});
+
+export interface McpPromptOptions {
+  /** Directory holding prompts.yaml and the prompts/ directory of custom definitions */
+  configDir: string;
+  /**
+   * Find an entity by ID or name, using a file path hint to disambiguate; may throw
+   * EntityResolutionError listing the candidates
+   */
+  resolveEntity: (identifier: string, hintFilePath?: string) => Promise<Entity | null>;
+  runTool: ToolRunner;
+  readResource: (uri: string) => Promise<ResourceContents[]>;
+}
+
+/**
+ * Load prompt definitions; definitions in later files replace earlier ones with the same name
+ */
+export function loadPromptDefinitions(configDir: string): PromptDefinition[] {
+  const files = [join(configDir, PROMPTS_FILE)];
+  const customDir = join(configDir, PROMPTS_DIR);
+  if (existsSync(customDir)) {
+    files.push(
+      ...readdirSync(customDir)
+        .filter((file) => /\.ya?ml$/.test(file))
+        .sort()
+        .map((file) => join(customDir, file)),
+    );
+  }
+
+  const prompts = new Map<string, PromptDefinition>();
+  for (const file of files) {
+    if (!existsSync(file)) continue;
+    try {
+      const parsed = PromptFileSchema.parse(parseYaml(readFileSync(file, "utf8")) ?? {});
+      for (const prompt of parsed.prompts) {
+        prompts.set(prompt.name, { ...prompt, source: file } as PromptDefinition);
+      }
+    } catch (error) {
+      logger.warn("MCP_PROMPTS", `Skipping invalid prompt file ${file}`, { error: (error as Error).message });
+    }
+  }
+  return Array.from(prompts.values());
+}
+
+export class McpPromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  constructor(private options: McpPromptOptions) {
+    this.reload();
+  }
+
+  /**
+   * Re-read the YAML definitions
+   */
+  reload(): void {
+    this.prompts = new Map(loadPromptDefinitions(this.options.configDir).map((prompt) => [prompt.name, prompt]));
+    logger.info("MCP_PROMPTS", `Loaded ${this.prompts.size} prompts`, { configDir: this.options.configDir });
+  }
+
+  /**
+   * Register the prompt handlers on an MCP server
+   */
+  attach(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: this.listPrompts() }));
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.getPrompt(request.params.name, request.params.arguments ?? {}),
+    );
+  }
+
+  listPrompts(): Prompt[] {
+    return Array.from(this.prompts.values()).map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments.map((arg) => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required ?? false,
+      })),
+    }));
+  }
+
+  /**
+   * Fill a prompt's arguments (resolving entities) and embed its graph context
+   */
+  async getPrompt(name: string, args: Record<string, string>): Promise<GetPromptResult> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const values: Record<string, string> = {};
+    for (const arg of prompt.arguments) {
+      const value = args[arg.name]?.trim() || arg.default;
+      if (value) values[arg.name] = value;
+      else if (arg.required) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument "${arg.name}" for prompt ${name}`);
+      }
+    }
+
+    for (const arg of prompt.arguments) {
+      const value = values[arg.name];
+      if (arg.resolve !== "entity" || !value) continue;
+      let entity: Entity | null;
+      try {
+        entity = await this.options.resolveEntity(value, arg.hint ? values[arg.hint] : undefined);
+      } catch (error) {
+        if (!(error instanceof EntityResolutionError)) throw error;
+        throw new McpError(ErrorCode.InvalidParams, `${error.message} for argument "${arg.name}"`, {
+          candidates: error.details.candidates,
+        });
+      }
+      if (!entity) {
+        throw new McpError(ErrorCode.InvalidParams, `No entity matches "${value}" for argument "${arg.name}"`);
+      }
+      values[`${arg.name}.id`] = entity.id;
+      values[`${arg.name}.name`] = entity.name;
+      values[`${arg.name}.type`] = String(entity.type);
+      values[`${arg.name}.filePath`] = entity.filePath;
+      values[`${arg.name}.line`] = String(entity.location?.start?.line ?? "");
+    }
+
+    const messages: PromptMessage[] = [
+      { role: "user", content: { type: "text", text: renderTemplate(prompt.template, values).trim() } },
+    ];
+    for (const item of prompt.context) {
+      messages.push(await this.renderContext(item, values));
+    }
+
+    return { description: prompt.description, messages };
+  }
+
+  private async renderContext(item: PromptDefinition["context"][number], values: Record<string, string>) {
+    const message = (text: string): PromptMessage => ({ role: "user", content: { type: "text", text } });
+
+    if (item.resource) {
+      const uri = renderTemplate(item.resource, values);
+      try {
+        const [contents] = await this.options.readResource(uri);
+        if (contents) return { role: "user", content: { type: "resource", resource: contents } } as PromptMessage;
+        return message(`${uri}: no contents`);
+      } catch (error) {
+        return message(`${uri} unavailable: ${(error as Error).message}`);
+      }
+    }
+
+    const tool = item.tool ?? "";
+    const heading = `## ${item.title ?? tool}`;
+    try {
+      const result = await this.options.runTool(tool, renderArgs(item.args ?? {}, values));
+      const output = result.content.map((content) => content.text ?? "").join("\n");
+      return message(`${heading}\n\n\`\`\`json\n${output}\n\`\`\``);
+    } catch (error) {
+      return message(`${heading}\n\nUnavailable: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown names render as empty strings
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_match, key: string) => values[key] ?? "");
+}
+
+/**
+ * Render tool arguments: placeholders are filled in, values left empty are dropped and
+ * single-placeholder values become numbers or booleans when they look like one
+ */
+function renderArgs(args: Record<string, unknown>, values: Record<string, string>): Record<string, unknown> {
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const rendered = renderTemplate(value, values);
+      if (rendered === "") return undefined;
+      if (!SINGLE_PLACEHOLDER.test(value)) return rendered;
+      if (/^-?\d+(\.\d+)?$/.test(rendered)) return Number(rendered);
+      if (rendered === "true" || rendered === "false") return rendered === "true";
+      return rendered;
+    }
+    if (Array.isArray(value)) {
+      const items = value.map(render).filter((item) => item !== undefined);
+      return items.length > 0 ? items : undefined;
+    }
+    if (value && typeof value === "object") {
+      return renderArgs(value as Record<string, unknown>, values);
+    }
+    return value;
+  };
+
+  const rendered: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    const result = render(value);
+    if (result !== undefined) rendered[key] = result;
+  }
+  return rendered;
+}
@@ -0,0 +1,444 @@
+/**
+ * MCP Resources
+ * Exposes indexed files, graph entities, products and graph reports as MCP resources, with
+ * subscriptions that emit `notifications/resources/updated` when re-indexing changes them.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import { extname, relative } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type Resource,
+  type ResourceTemplate,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import { logger } from "../utils/logger.js";
+import { knowledgeBus } from "./knowledge-bus.js";
+import type { ProjectManager } from "./project-manager.js";
+
+/** JSON-RPC code the MCP specification reserves for unknown resources */
+const RESOURCE_NOT_FOUND = -32002;
+
+const RESOURCES_PAGE_SIZE = 100;
+const MAX_FILE_RESOURCE_BYTES = 1024 * 1024;
+const MAX_ENTITY_RELATIONSHIPS = 200;
+// Re-indexing publishes one event per file; coalesce them into one notification per resource
+const UPDATE_DEBOUNCE_MS = 250;
+
+export const REPORT_URIS = {
+  stats: "report://graph/stats",
+  health: "report://graph/health",
+  hotspots: "report://hotspots",
+} as const;
+
+const REPORT_TOPICS = ["index:completed", "symbols:resolved", "git:history_ingested", "tests:mapped"];
+
+const MIME_TYPES: Record<string, string> = {
+  ".ts": "text/x-typescript",
+  ".tsx": "text/x-typescript",
+  ".js": "text/javascript",
+  ".jsx": "text/javascript",
+  ".mjs": "text/javascript",
+  ".cjs": "text/javascript",
+  ".py": "text/x-python",
+  ".java": "text/x-java",
+  ".cs": "text/x-csharp",
+  ".go": "text/x-go",
+  ".rs": "text/x-rust",
+  ".c": "text/x-c",
+  ".h": "text/x-c",
+  ".cpp": "text/x-c++",
+  ".hpp": "text/x-c++",
+  ".kt": "text/x-kotlin",
+  ".vb": "text/x-vb",
+  ".json": "application/json",
+  ".md": "text/markdown",
+};
+
+export type ToolRunner = (
+  name: string,
+  args: Record<string, unknown>,
+) => Promise<{ content: Array<{ text?: string }> }>;
+
+export interface McpResourceOptions {
+  /** Server root, used to name files relative to it */
+  rootDir: string;
+  getStorage: () => Promise<GraphStorageImpl>;
+  projectManager: ProjectManager;
+  /** Runs an MCP tool; reports reuse the tools' output rather than duplicating their logic */
+  runTool: ToolRunner;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export class McpResourceProvider {
+  /** Subscribed URI -> file whose re-indexing updates it (entities), or null */
+  private subscriptions = new Map<string, string | null>();
+  private pendingUris = new Set<string>();
+  private pendingListChange = false;
+  private flushTimer?: NodeJS.Timeout;
+  private busSubscriptions: string[] = [];
+  private server?: Server;
+
+  constructor(private options: McpResourceOptions) {}
+
+  /**
+   * Register the resource handlers on an MCP server and start forwarding index events
+   */
+  attach(server: Server): void {
+    this.server = server;
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => this.listResources(request.params?.cursor));
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.listResourceTemplates(),
+    }));
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: await this.readResource(request.params.uri),
+    }));
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      await this.subscribe(request.params.uri);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
+    this.busSubscriptions.push(
+      knowledgeBus.subscribe("mcp-resources", "index:complete", (entry) => {
+        const { filePath } = (entry.data ?? {}) as { filePath?: string };
+        if (filePath) this.markFilesChanged([filePath], false);
+      }),
+      knowledgeBus.subscribe("mcp-resources", "index:updated", (entry) => {
+        const { changes = [], entityIds = [] } = (entry.data ?? {}) as {
+          changes?: Array<{ filePath: string; changeType: string }>;
+          entityIds?: string[];
+        };
+        for (const id of entityIds) this.markChanged(entityUri(id));
+        const listChanged = changes.some((change) => change.changeType !== "modified");
+        this.markFilesChanged(
+          changes.map((change) => change.filePath),
+          listChanged,
+        );
+      }),
+      ...REPORT_TOPICS.map((topic) =>
+        knowledgeBus.subscribe("mcp-resources", topic, () => {
+          this.pendingListChange = true;
+          for (const uri of this.subscriptions.keys()) {
+            if (uri.startsWith("report://") || uri.startsWith("product://")) this.markChanged(uri);
+          }
+          this.scheduleFlush();
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Stop forwarding index events
+   */
+  detach(): void {
+    for (const id of this.busSubscriptions) knowledgeBus.unsubscribe(id);
+    this.busSubscriptions = [];
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.server = undefined;
+  }
+
+  /**
+   * Reports, products and indexed files, paginated by offset cursor
+   */
+  async listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const offset = cursor ? Number.parseInt(cursor, 10) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+    }
+
+    const fixed: Resource[] = [
+      {
+        uri: REPORT_URIS.stats,
+        name: "Graph statistics",
+        description: "Entity and relationship counts by type",
+        mimeType: "application/json",
+      },
+      {
+        uri: REPORT_URIS.health,
+        name: "Graph health",
+        description: "Whether the graph is populated and readable",
+        mimeType: "application/json",
+      },
+      {
+        uri: REPORT_URIS.hotspots,
+        name: "Complexity hotspots",
+        description: "Top 10 complexity hotspots (see the report://hotspots template for other metrics)",
+        mimeType: "application/json",
+      },
+      ...this.options.projectManager.listProjects().map((project) => ({
+        uri: productUri(project.id),
+        name: `Product: ${project.name}`,
+        description: project.description ?? undefined,
+        mimeType: "application/json",
+      })),
+    ];
+
+    const resources = fixed.slice(offset, offset + RESOURCES_PAGE_SIZE);
+    const fileOffset = Math.max(0, offset - fixed.length);
+    const fileLimit = RESOURCES_PAGE_SIZE - resources.length;
+    if (fileLimit > 0) {
+      const storage = await this.options.getStorage();
+      // One extra row tells whether another page follows
+      const files = await storage.listFiles(fileLimit + 1, fileOffset);
+      for (const file of files.slice(0, fileLimit)) {
+        resources.push({
+          uri: pathToFileURL(file.path).href,
+          name: relative(this.options.rootDir, file.path) || file.path,
+          description: `${file.entityCount} entities`,
+          mimeType: mimeTypeFor(file.path),
+        });
+      }
+      if (files.length > fileLimit) {
+        return { resources, nextCursor: String(offset + RESOURCES_PAGE_SIZE) };
+      }
+      return { resources };
+    }
+    return { resources, nextCursor: String(offset + RESOURCES_PAGE_SIZE) };
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: "file://{+path}",
+        name: "Indexed file",
+        description: "Source of an indexed file",
+      },
+      {
+        uriTemplate: "entity://{id}",
+        name: "Graph entity",
+        description: "Entity with its location and relationships",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "product://{id}",
+        name: "Product",
+        description: "Product with its repositories and index statistics",
+        mimeType: "application/json",
+      },
+      {
+        uriTemplate: "report://hotspots{?metric,limit,product_id}",
+        name: "Hotspots",
+        description: "Hotspots by metric: complexity, changes or coupling",
+        mimeType: "application/json",
+      },
+    ];
+  }
+
+  async readResource(uri: string): Promise<ResourceContents[]> {
+    if (uri.startsWith("file://")) return [await this.readFileResource(uri)];
+    if (uri.startsWith("entity://")) return [await this.readEntityResource(uri)];
+    if (uri.startsWith("product://")) return [this.readProductResource(uri)];
+    if (uri.startsWith("report://")) return [await this.readReportResource(uri)];
+    throw new McpError(RESOURCE_NOT_FOUND, `Unsupported resource URI: ${uri}`);
+  }
+
+  /**
+   * Track a resource for update notifications; fails for resources that do not exist
+   */
+  async subscribe(uri: string): Promise<void> {
+    let filePath: string | null = null;
+    if (uri.startsWith("file://")) {
+      filePath = await this.resolveIndexedFile(uri);
+    } else if (uri.startsWith("entity://")) {
+      const storage = await this.options.getStorage();
+      const entity = await storage.getEntity(parseEntityId(uri));
+      if (!entity) throw new McpError(RESOURCE_NOT_FOUND, `Entity not found: ${uri}`);
+      filePath = entity.filePath;
+    } else if (uri.startsWith("product://")) {
+      this.getProduct(uri);
+    } else if (!uri.startsWith("report://")) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Unsupported resource URI: ${uri}`);
+    }
+    this.subscriptions.set(uri, filePath);
+  }
+
+  private async readFileResource(uri: string): Promise<ResourceContents> {
+    const filePath = await this.resolveIndexedFile(uri);
+    const info = await stat(filePath).catch(() => null);
+    if (!info) throw new McpError(RESOURCE_NOT_FOUND, `File no longer exists: ${filePath}`);
+    if (info.size > MAX_FILE_RESOURCE_BYTES) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `File is ${info.size} bytes, above the ${MAX_FILE_RESOURCE_BYTES} byte resource limit`,
+      );
+    }
+    return { uri, mimeType: mimeTypeFor(filePath), text: await readFile(filePath, "utf8") };
+  }
+
+  private async readEntityResource(uri: string): Promise<ResourceContents> {
+    const storage = await this.options.getStorage();
+    const entity = await storage.getEntity(parseEntityId(uri));
+    if (!entity) throw new McpError(RESOURCE_NOT_FOUND, `Entity not found: ${uri}`);
+
+    const relationships = await storage.getRelationshipsForEntity(entity.id);
+    const outgoing = relationships.filter((rel) => rel.fromId === entity.id);
+    const incoming = relationships.filter((rel) => rel.toId === entity.id);
+    const summarize = (rels: typeof relationships, key: "fromId" | "toId") =>
+      rels.slice(0, MAX_ENTITY_RELATIONSHIPS).map((rel) => ({ type: rel.type, entity: entityUri(rel[key]) }));
+
+    return jsonContents(uri, {
+      entity: {
+        id: entity.id,
+        name: entity.name,
+        type: entity.type,
+        filePath: entity.filePath,
+        file: pathToFileURL(entity.filePath).href,
+        location: entity.location,
+        metadata: entity.metadata,
+        complexityScore: entity.complexityScore,
+        language: entity.language,
+      },
+      outgoing: summarize(outgoing, "toId"),
+      incoming: summarize(incoming, "fromId"),
+      totals: { outgoing: outgoing.length, incoming: incoming.length },
+    });
+  }
+
+  private readProductResource(uri: string): ResourceContents {
+    const product = this.getProduct(uri);
+    const { projectManager } = this.options;
+    return jsonContents(uri, {
+      product,
+      repositories: projectManager.listRepositories(product.id),
+      stats: projectManager.getProjectStats(product.id),
+    });
+  }
+
+  private async readReportResource(uri: string): Promise<ResourceContents> {
+    const [path = "", query = ""] = uri.slice("report://".length).split("?");
+    const params = new URLSearchParams(query);
+
+    let tool: string;
+    let args: Record<string, unknown> = {};
+    switch (path) {
+      case "graph/stats":
+        tool = "get_graph_stats";
+        break;
+      case "graph/health":
+        tool = "get_graph_health";
+        break;
+      case "hotspots": {
+        tool = "analyze_hotspots";
+        const limit = params.get("limit");
+        args = {
+          metric: params.get("metric") ?? undefined,
+          limit: limit ? Number.parseInt(limit, 10) : undefined,
+          product_id: params.get("product_id") ?? undefined,
+        };
+        break;
+      }
+      default:
+        throw new McpError(RESOURCE_NOT_FOUND, `Unknown report: ${uri}`);
+    }
+
+    const result = await this.options.runTool(tool, args);
+    const text = result.content[0]?.text ?? "{}";
+    return { uri, mimeType: "application/json", text };
+  }
+
+  /**
+   * Map a file URI to an indexed file; unindexed paths are not exposed
+   */
+  private async resolveIndexedFile(uri: string): Promise<string> {
+    let filePath: string;
+    try {
+      filePath = fileURLToPath(uri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid file URI: ${uri}`);
+    }
+    const storage = await this.options.getStorage();
+    if (!(await storage.getFileInfo(filePath))) {
+      throw new McpError(RESOURCE_NOT_FOUND, `File is not indexed: ${filePath}`);
+    }
+    return filePath;
+  }
+
+  private getProduct(uri: string) {
+    const id = decodeURIComponent(uri.slice("product://".length));
+    const product = this.options.projectManager.getProject(id);
+    if (!product) throw new McpError(RESOURCE_NOT_FOUND, `Product not found: ${uri}`);
+    return product;
+  }
+
+  private markFilesChanged(filePaths: string[], listChanged: boolean): void {
+    if (listChanged) this.pendingListChange = true;
+    const changed = new Set(filePaths);
+    for (const [uri, filePath] of this.subscriptions) {
+      if (filePath && changed.has(filePath)) this.markChanged(uri);
+    }
+    this.scheduleFlush();
+  }
+
+  private markChanged(uri: string): void {
+    if (this.subscriptions.has(uri)) this.pendingUris.add(uri);
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || (this.pendingUris.size === 0 && !this.pendingListChange)) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, UPDATE_DEBOUNCE_MS);
+    this.flushTimer.unref?.();
+  }
+
+  private async flush(): Promise<void> {
+    const server = this.server;
+    const uris = Array.from(this.pendingUris);
+    const listChanged = this.pendingListChange;
+    this.pendingUris.clear();
+    this.pendingListChange = false;
+    if (!server) return;
+
+    try {
+      for (const uri of uris) {
+        await server.sendResourceUpdated({ uri });
+      }
+      if (listChanged) {
+        await server.sendResourceListChanged();
+      }
+    } catch (error) {
+      // No client connected; subscribers re-read on reconnect
+      logger.debug("MCP_RESOURCES", "Resource notification not delivered", { error: (error as Error).message });
+    }
+  }
+}
+
+export function entityUri(id: string): string {
+  return `entity://${encodeURIComponent(id)}`;
+}
+
+export function productUri(id: string): string {
+  return `product://${encodeURIComponent(id)}`;
+}
+
+function parseEntityId(uri: string): string {
+  return decodeURIComponent(uri.slice("entity://".length));
+}
+
+function mimeTypeFor(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] ?? "text/plain";
+}
+
+function jsonContents(uri: string, data: unknown): ResourceContents {
+  return { uri, mimeType: "application/json", text: JSON.stringify(data, null, 2) };
+}
@@ -0,0 +1,174 @@
+/**
+ * MCP Tool Registry
+ * Registers the code-graph tools on an MCP server instance so that any transport can host them:
+ * stdio serves one server, the HTTP transports one server per session. Each server is bound to a
+ * workspace; tool calls carry its root directory and are limited to its product, if any.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  type ElicitRequest,
+  type ElicitResult,
+  ElicitResultSchema,
+  ListToolsRequestSchema,
+  type Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { hasScope, scopeForTool } from "../http/middleware/auth.js";
+import type { EntityChooser } from "../types/entity-resolution.js";
+import type { McpWorkspace, ToolCallContext } from "../types/mcp-session.js";
+import { createRequestId, logger } from "../utils/logger.js";
+import { type StructuredToolResult, toolResult } from "./tool-outputs.js";
+
+export type McpToolHandler = (
+  name: string,
+  args: unknown,
+  requestId: string,
+  startTime: number,
+  context: ToolCallContext,
+) => Promise<StructuredToolResult>;
+
+export interface McpToolRegistryOptions {
+  /** Tool definitions with their input and output schemas */
+  listTools: () => Tool[];
+  executeTool: McpToolHandler;
+}
+
+/**
+ * Limit tool arguments to the workspace's product: a call without `product_id` gets the
+ * workspace's product, a call naming another product is refused
+ */
+export function scopeToolArguments(args: unknown, workspace: McpWorkspace): { args: unknown; error?: string } {
+  const productId = workspace.product_id;
+  if (!productId) return { args };
+
+  const input = (args && typeof args === "object" ? args : {}) as Record<string, unknown>;
+  if (input.product_id !== undefined && input.product_id !== productId) {
+    return { args, error: `This session is scoped to product ${productId}` };
+  }
+  return { args: { ...input, product_id: productId } };
+}
+
+export class McpToolRegistry {
+  constructor(private options: McpToolRegistryOptions) {}
+
+  listTools(): Tool[] {
+    return this.options.listTools();
+  }
+
+  /**
+   * Register the tool handlers on an MCP server bound to `workspace`
+   */
+  attach(server: Server, workspace: McpWorkspace): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: this.listTools() }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const requestId = createRequestId();
+      const startTime = Date.now();
+
+      logger.mcpRequest(name, args, requestId);
+
+      // Over HTTP the transport carries the caller's API key scopes; stdio sessions are trusted
+      const requiredScope = scopeForTool(name, args);
+      if (extra.authInfo && !hasScope(extra.authInfo.scopes, requiredScope)) {
+        logger.warn("MCP_FORBIDDEN", `Tool ${name} requires the '${requiredScope}' scope`, {
+          tool: name,
+          clientId: extra.authInfo.clientId,
+        });
+        return toolResult({
+          success: false,
+          errorType: "forbidden",
+          error: `Tool ${name} requires the '${requiredScope}' scope`,
+        });
+      }
+
+      const scoped = scopeToolArguments(args, workspace);
+      if (scoped.error) {
+        logger.warn("MCP_FORBIDDEN", scoped.error, { tool: name, sessionId: extra.sessionId });
+        return toolResult({ success: false, errorType: "forbidden", error: scoped.error });
+      }
+
+      // Report job progress when the client sent a progress token; a cancelled request cancels its job
+      const progressToken = request.params._meta?.progressToken;
+      const result = await this.options.executeTool(name, scoped.args, requestId, startTime, {
+        signal: extra.signal,
+        workspace,
+        onProgress:
+          progressToken === undefined
+            ? undefined
+            : (progress, total, message) => {
+                extra
+                  .sendNotification({
+                    method: "notifications/progress",
+                    params: { progressToken, progress, total, message },
+                  })
+                  .catch(() => {});
+              },
+        chooseEntity: server.getClientCapabilities()?.elicitation
+          ? elicitEntityChoice(name, (req) => extra.sendRequest(req, ElicitResultSchema))
+          : undefined,
+      });
+
+      // Log response details for debugging Windsurf hang issues
+      const responseText = result.content?.[0]?.text || "";
+      logger.info(
+        "MCP_RESPONSE",
+        "Sending response to client",
+        {
+          tool: name,
+          contentLength: responseText.length,
+          elapsed: Date.now() - startTime,
+        },
+        requestId,
+      );
+
+      // Force stdout flush to ensure response reaches Windsurf
+      if (process.stdout.write("")) {
+        // Flush successful
+      }
+
+      return result;
+    });
+  }
+}
+
+type ElicitationSender = (request: ElicitRequest) => Promise<ElicitResult>;
+
+/**
+ * Ask the client (MCP elicitation) which of several matching entities was meant
+ */
+function elicitEntityChoice(tool: string, send: ElicitationSender): EntityChooser {
+  return async (identifier, candidates) => {
+    try {
+      const answer = await send({
+        method: "elicitation/create",
+        params: {
+          message: `Several entities match "${identifier}". Which one did you mean?`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              entityId: {
+                type: "string",
+                title: "Entity",
+                enum: candidates.map((candidate) => candidate.id),
+                enumNames: candidates.map(
+                  (candidate) => `${candidate.type} ${candidate.name} (${candidate.filePath}:${candidate.line})`,
+                ),
+              },
+            },
+            required: ["entityId"],
+          },
+        },
+      });
+      const entityId = answer.action === "accept" ? answer.content?.entityId : undefined;
+      return typeof entityId === "string" ? entityId : undefined;
+    } catch (error) {
+      logger.warn("ELICITATION_FAILED", "Could not ask the client to choose an entity", {
+        tool,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Path Guard
+ * The allowed-roots policy: every file or directory a client names (tool arguments, HTTP request
+ * bodies, MCP session roots, product repositories) must resolve inside one of the configured roots.
+ * Symbolic links are followed before the check, so a link inside a root cannot lead out of it.
+ */
+
+import { realpathSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, join, normalize, relative, resolve } from "node:path";
+import { PathNotAllowedError } from "../types/errors.js";
+
+export function expandHome(filepath: string): string {
+  if (filepath.startsWith("~/") || filepath === "~") {
+    return join(homedir(), filepath.slice(1));
+  }
+  return filepath;
+}
+
+/**
+ * Resolve symbolic links in the longest existing prefix of a path; the rest is kept as is
+ */
+function realPath(path: string): string {
+  const missing: string[] = [];
+  let current = path;
+  while (true) {
+    try {
+      return join(realpathSync.native(current), ...missing.reverse());
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return path;
+      missing.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isInside(root: string, path: string): boolean {
+  const fromRoot = relative(root, path);
+  return fromRoot === "" || (!fromRoot.startsWith("..") && !isAbsolute(fromRoot));
+}
+
+export class PathGuard {
+  /** Normalized absolute roots; the first is the server root that relative paths resolve against */
+  readonly roots: string[];
+  private readonly realRoots: string[];
+
+  constructor(allowedRoots: string[]) {
+    if (allowedRoots.length === 0) throw new Error("PathGuard needs at least one allowed root");
+    this.roots = Array.from(new Set(allowedRoots.map((root) => normalize(resolve(expandHome(root))))));
+    this.realRoots = this.roots.map(realPath);
+  }
+
+  /**
+   * Resolve a client-supplied path (`~` expanded, relative paths against `baseDir`) and check it
+   * against the allowed roots; throws PathNotAllowedError outside them
+   */
+  resolve(rawPath: string, baseDir = this.roots[0]!): string {
+    const expanded = expandHome(rawPath);
+    return this.assertAllowed(normalize(isAbsolute(expanded) ? expanded : resolve(baseDir, expanded)));
+  }
+
+  /**
+   * Return the absolute path unchanged when it is inside an allowed root
+   */
+  assertAllowed(path: string): string {
+    if (!this.isAllowed(path)) throw new PathNotAllowedError(path);
+    return path;
+  }
+
+  isAllowed(path: string): boolean {
+    const target = normalize(resolve(path));
+    if (!this.roots.some((root) => isInside(root, target))) return false;
+    const real = realPath(target);
+    return this.realRoots.some((root) => isInside(root, real));
+  }
+}
+
+let activeGuard: PathGuard | null = null;
+
+/**
+ * Set the policy used by tools and HTTP routes (done once at startup)
+ */
+export function configurePathGuard(allowedRoots: string[]): PathGuard {
+  activeGuard = new PathGuard(allowedRoots);
+  return activeGuard;
+}
+
+/**
+ * The configured policy; before configuration only the working directory is allowed
+ */
+export function getPathGuard(): PathGuard {
+  if (!activeGuard) activeGuard = new PathGuard([process.cwd()]);
+  return activeGuard;
+}
@@ -16,6 +16,9 @@ export interface ToolExecutionResult {
     type: string;
     text: string;
   }>;
+  /** The payload as an object matching the tool's output schema (absent for errors) */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
 }
 
 /**
@@ -88,6 +91,22 @@ export class ToolExecutor {
       "suggest_refactoring",
       "cross_language_search",
       "analyze_hotspots",
+      "ingest_git_history",
+      "resolve_symbols",
+      "explore_codebase",
+      "detect_cycles",
+      "find_path",
+      "analyze_diff_impact",
+      "find_tests_for",
+      "export_graph",
+      "detect_code_smells",
+      "find_dead_code",
+      "get_code_metrics",
+      "get_clone_trends",
+      "export_clone_report",
+      "get_entity_source",
+      "get_job_status",
+      "cancel_job",
       "find_related_concepts",
       "get_graph",
       "get_graph_stats",
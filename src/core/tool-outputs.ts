@@ -0,0 +1,874 @@
+/**
+ * Tool Outputs
+ * Output schemas and annotations for every MCP tool, and the helper that turns a tool payload
+ * into a result carrying both `structuredContent` and the same JSON as text (for clients that
+ * predate structured output). Schemas name the fields callers can rely on and allow extra ones,
+ * so adding a field is not a breaking change but moving or renaming one fails validation.
+ */
+
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { IGNORE_RULE_SOURCES } from "../types/ignore.js";
+import { JOB_KINDS, JOB_STATUSES } from "../types/jobs.js";
+
+// =============================================================================
+// Shared shapes
+// =============================================================================
+
+const EntitySummarySchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    filePath: z.string(),
+    location: z.unknown().optional(),
+    metadata: z.unknown().optional(),
+  })
+  .passthrough();
+
+const CitedEntitySchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    filePath: z.string(),
+    line: z.number(),
+    endLine: z.number(),
+  })
+  .passthrough();
+
+const SourceSnippetSchema = z
+  .object({
+    filePath: z.string(),
+    startLine: z.number(),
+    endLine: z.number(),
+    code: z.string(),
+    truncated: z.boolean(),
+  })
+  .passthrough();
+
+const IgnoreSummarySchema = z
+  .object({
+    root: z.string(),
+    filesSkipped: z.number(),
+    directoriesSkipped: z.number(),
+    rules: z.array(
+      z
+        .object({
+          source: z.enum(IGNORE_RULE_SOURCES),
+          file: z.string().optional(),
+          line: z.number().optional(),
+          pattern: z.string(),
+          files: z.number(),
+          directories: z.number(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+const JobProgressSchema = z
+  .object({
+    phase: z.string().optional(),
+    filesProcessed: z.number(),
+    totalFiles: z.number(),
+    entitiesExtracted: z.number(),
+    relationshipsCreated: z.number(),
+    skipped: IgnoreSummarySchema.optional(),
+  })
+  .passthrough();
+
+const JobSchema = z
+  .object({
+    id: z.string(),
+    kind: z.enum(JOB_KINDS),
+    status: z.enum(JOB_STATUSES),
+    directory: z.string(),
+    product_id: z.string().nullish(),
+    progress: JobProgressSchema,
+    result: z.unknown().optional(),
+    error: z.string().nullish(),
+    cancel_requested: z.boolean(),
+    created_at: z.number(),
+    started_at: z.number().nullish(),
+    finished_at: z.number().nullish(),
+  })
+  .passthrough();
+
+const KnowledgeBusStatsSchema = z
+  .object({
+    topicCount: z.number(),
+    entryCount: z.number(),
+    subscriptionCount: z.number(),
+    messageQueueSize: z.number(),
+  })
+  .passthrough();
+
+const JscpdSummarySchema = z
+  .object({
+    totalLinesAnalyzed: z.number(),
+    totalTokensAnalyzed: z.number(),
+    duplicatedLines: z.number(),
+    duplicatedTokens: z.number(),
+    duplicationPercentage: z.number(),
+    duplicationTokensPercentage: z.number(),
+    cloneCount: z.number(),
+    cloneClassCount: z.number(),
+    clonesByType: z.object({ type1: z.number(), type2: z.number(), type3: z.number() }),
+    clones: z.array(z.unknown()),
+  })
+  .passthrough();
+
+const JscpdCloneClassSchema = z
+  .object({
+    fingerprint: z.string(),
+    type: z.number(),
+    similarity: z.number(),
+    fragments: z.array(
+      z
+        .object({
+          sourceId: z.string(),
+          startLine: z.number(),
+          endLine: z.number(),
+          tokens: z.number(),
+          fingerprint: z.string(),
+          entityIds: z.array(z.string()),
+        })
+        .passthrough(),
+    ),
+    clones: z.array(z.number()),
+  })
+  .passthrough();
+
+const CloneRunDiffSchema = z
+  .object({
+    previousRunId: z.string().optional(),
+    newClasses: z.number(),
+    newFragments: z.number(),
+    resolvedClasses: z.number(),
+    unchangedClasses: z.number(),
+    hasNewDuplication: z.boolean(),
+  })
+  .passthrough();
+
+const CloneRunSummarySchema = z
+  .object({ id: z.string(), scope: z.string(), created_at: z.number(), diff: CloneRunDiffSchema })
+  .passthrough();
+
+const SuccessSchema = z.object({ success: z.boolean() });
+
+// =============================================================================
+// Per-tool outputs
+// =============================================================================
+
+/** index and clean_index: the job's result once finished, or its progress while running */
+const IndexJobOutputSchema = SuccessSchema.extend({
+  jobId: z.string(),
+  status: z.enum(JOB_STATUSES).optional(),
+  message: z.string().optional(),
+  progress: JobProgressSchema.optional(),
+}).passthrough();
+
+const MessageOutputSchema = SuccessSchema.extend({ message: z.string() }).passthrough();
+
+const JobStatusOutputSchema = SuccessSchema.extend({
+  job: JobSchema.optional(),
+  jobs: z.array(JobSchema).optional(),
+  total: z.number().optional(),
+}).passthrough();
+
+const CancelJobOutputSchema = SuccessSchema.extend({ message: z.string(), job: JobSchema }).passthrough();
+
+const ListFileEntitiesOutputSchema = z
+  .object({
+    filePath: z.string(),
+    total: z.number(),
+    entities: z.array(EntitySummarySchema),
+    stats: z.unknown().optional(),
+  })
+  .passthrough();
+
+const RelationshipEndSchema = z.object({ id: z.string(), name: z.string().nullable() }).passthrough();
+
+const ListEntityRelationshipsOutputSchema = z
+  .object({
+    entity: EntitySummarySchema,
+    relationships: z.array(
+      z
+        .object({
+          id: z.string(),
+          type: z.string(),
+          from: RelationshipEndSchema,
+          to: RelationshipEndSchema,
+          metadata: z.unknown().optional(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+const QueryOutputSchema = z
+  .object({
+    semantic: z.unknown(),
+    structural: z
+      .object({
+        entities: z.array(EntitySummarySchema),
+        relationships: z.number(),
+        stats: z.unknown().optional(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+
+const GetMetricsOutputSchema = z
+  .object({
+    resources: z.unknown(),
+    knowledge: KnowledgeBusStatsSchema,
+    conductor: z.unknown(),
+    agents: z.array(
+      z
+        .object({
+          id: z.string(),
+          type: z.string(),
+          status: z.string(),
+          memoryUsage: z.number(),
+          cpuUsage: z.number(),
+          queueSize: z.number(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+const GetVersionOutputSchema = z
+  .object({
+    server: z.object({ name: z.string(), version: z.string() }).passthrough(),
+    runtime: z
+      .object({
+        nodeVersion: z.string(),
+        platform: z.string(),
+        arch: z.string(),
+        pid: z.number(),
+        uptime: z.object({ seconds: z.number(), formatted: z.string() }),
+      })
+      .passthrough(),
+    memory: z.record(z.string()),
+    indexedDirectory: z.string(),
+    configEnvironment: z.unknown().optional(),
+  })
+  .passthrough();
+
+const SemanticSearchOutputSchema = z
+  .object({
+    query: z.string(),
+    results: z.array(z.object({}).passthrough()),
+    processingTime: z.number(),
+  })
+  .passthrough();
+
+const SimilarCodeSchema = z
+  .object({
+    id: z.string(),
+    path: z.string(),
+    content: z.string(),
+    similarity: z.number(),
+    type: z.string(),
+  })
+  .passthrough();
+
+const FindSimilarCodeOutputSchema = z.object({ results: z.array(SimilarCodeSchema), total: z.number() }).passthrough();
+
+const AnalyzeCodeImpactOutputSchema = z
+  .object({
+    source: EntitySummarySchema,
+    directImpacts: z.array(EntitySummarySchema),
+    indirectImpacts: z.array(EntitySummarySchema),
+    outboundDependencies: z.array(EntitySummarySchema),
+    affectedFiles: z.array(z.string()),
+    riskLevel: z.enum(["low", "medium", "high", "critical"]),
+    totals: z.object({ direct: z.number(), indirect: z.number(), outbound: z.number() }),
+  })
+  .passthrough();
+
+const DetectCodeClonesOutputSchema = z
+  .object({
+    semantic: z
+      .object({
+        totalGroups: z.number(),
+        skippedGroups: z.number(),
+        groups: z.array(z.unknown()),
+        raw: z.unknown(),
+      })
+      .passthrough(),
+    jscpd: z
+      .object({
+        summary: JscpdSummarySchema,
+        clones: z.array(z.unknown()),
+        cloneClasses: z.array(JscpdCloneClassSchema),
+      })
+      .passthrough(),
+    run: CloneRunSummarySchema.optional(),
+  })
+  .passthrough();
+
+const JscpdDetectClonesOutputSchema = z
+  .object({
+    clones: z.array(z.unknown()),
+    cloneClasses: z.array(JscpdCloneClassSchema),
+    statistic: z.unknown(),
+    summary: JscpdSummarySchema,
+    run: CloneRunSummarySchema.optional(),
+  })
+  .passthrough();
+
+const SuggestRefactoringOutputSchema = z
+  .object({
+    filePath: z.string(),
+    focus: z.object({ mode: z.enum(["range", "entityId", "focusArea", "file", "auto-top-entities"]) }).passthrough(),
+    analyzed: z.array(
+      z
+        .object({
+          entity: EntitySummarySchema.optional(),
+          range: z.record(z.number()).optional(),
+          suggestions: z.unknown(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+const CrossLanguageSearchOutputSchema = z
+  .object({ results: z.array(z.object({}).passthrough()), total: z.number() })
+  .passthrough();
+
+const AnalyzeHotspotsOutputSchema = z
+  .object({
+    metric: z.string(),
+    source: z.enum(["git_history", "syntax_metrics"]).optional(),
+    limit: z.number(),
+    hotspots: z.array(
+      z
+        .object({
+          entity: EntitySummarySchema,
+          metrics: z.record(z.unknown()),
+          score: z.number(),
+        })
+        .passthrough(),
+    ),
+    sampleSize: z.number(),
+    note: z.string().optional(),
+  })
+  .passthrough();
+
+const IngestGitHistoryOutputSchema = SuccessSchema.extend({
+  repositoryRoot: z.string(),
+  directory: z.string(),
+  head: z.string().optional(),
+  commitsScanned: z.number(),
+  filesTracked: z.number(),
+  entitiesTracked: z.number(),
+  durationMs: z.number(),
+  topFiles: z.array(z.object({}).passthrough()),
+}).passthrough();
+
+const ResolveSymbolsOutputSchema = SuccessSchema.extend({
+  placeholderReferences: z.number(),
+  resolved: z.number(),
+  byStrategy: z.record(z.number()),
+  external: z.number(),
+  unresolvedCount: z.number(),
+  unresolved: z.array(z.object({}).passthrough()),
+  placeholdersRemoved: z.number(),
+  timeMs: z.number(),
+}).passthrough();
+
+const ExploreCodebaseOutputSchema = SuccessSchema.extend({
+  topic: z.string().optional(),
+  seeds: z.array(CitedEntitySchema),
+  entryPoints: z.array(CitedEntitySchema),
+  modules: z.array(z.object({}).passthrough()),
+  keyEntities: z.array(CitedEntitySchema),
+  relationshipCounts: z.record(z.number()),
+  findings: z.array(z.object({}).passthrough()),
+  stats: z
+    .object({
+      entitiesExplored: z.number(),
+      relationshipsExplored: z.number(),
+      depth: z.number(),
+      semanticSearch: z.string(),
+      timeMs: z.number(),
+    })
+    .passthrough(),
+}).passthrough();
+
+const DetectCyclesOutputSchema = SuccessSchema.extend({
+  granularity: z.string(),
+  relationshipTypes: z.array(z.string()),
+  scope: z.object({}).passthrough(),
+  nodesAnalyzed: z.number(),
+  edgesAnalyzed: z.number(),
+  cycleCount: z.number(),
+  nodesInCycles: z.number(),
+  cycles: z.array(z.object({}).passthrough()),
+  timeMs: z.number(),
+}).passthrough();
+
+const FindPathOutputSchema = SuccessSchema.extend({
+  from: CitedEntitySchema,
+  to: CitedEntitySchema,
+  found: z.boolean(),
+  paths: z.array(z.object({}).passthrough()),
+  search: z
+    .object({
+      relationshipTypes: z.array(z.string()),
+      direction: z.string(),
+      maxDepth: z.number(),
+      k: z.number(),
+      nodesExpanded: z.number(),
+    })
+    .passthrough(),
+  timeMs: z.number(),
+}).passthrough();
+
+const AnalyzeDiffImpactOutputSchema = SuccessSchema.extend({
+  source: z.object({ type: z.enum(["diff", "refs"]) }).passthrough(),
+  changedFiles: z.array(z.object({ path: z.string(), status: z.string() }).passthrough()),
+  changedEntities: z.array(z.object({}).passthrough()),
+  unmappedFiles: z.array(z.string()),
+  impact: z.record(z.object({}).passthrough()),
+  summary: z
+    .object({
+      changedEntities: z.number(),
+      impactedEntities: z.number(),
+      impactedFiles: z.number(),
+      impactedTests: z.number(),
+      estimatedRisk: z.number(),
+    })
+    .passthrough(),
+  timeMs: z.number(),
+}).passthrough();
+
+const FindTestsForOutputSchema = SuccessSchema.extend({
+  targets: z.array(CitedEntitySchema),
+  tests: z.array(CitedEntitySchema),
+  totalTests: z.number(),
+  testFiles: z.array(z.object({ path: z.string(), framework: z.string(), distance: z.number() }).passthrough()),
+  commands: z.array(z.object({ framework: z.string(), command: z.string() }).passthrough()),
+  timeMs: z.number(),
+}).passthrough();
+
+const RelatedSourceSchema = CitedEntitySchema.extend({
+  calls: z.number(),
+  callLine: z.number().optional(),
+  snippet: SourceSnippetSchema.optional(),
+});
+
+const GetEntitySourceOutputSchema = SuccessSchema.extend({
+  entity: CitedEntitySchema,
+  source: SourceSnippetSchema.optional(),
+  docstring: z.string().optional(),
+  callers: z.array(RelatedSourceSchema),
+  callees: z.array(RelatedSourceSchema),
+  budget: z.object({ maxTokens: z.number(), usedTokens: z.number(), truncated: z.array(z.string()) }).passthrough(),
+}).passthrough();
+
+const ExportGraphOutputSchema = SuccessSchema.extend({
+  format: z.string(),
+  entities: z.number(),
+  relationships: z.number(),
+  truncated: z.boolean(),
+  contentType: z.string(),
+  content: z.string(),
+}).passthrough();
+
+const GetCodeMetricsOutputSchema = SuccessSchema.extend({
+  entities: z.array(
+    z
+      .object({
+        entity: EntitySummarySchema,
+        metrics: z
+          .object({
+            cyclomatic: z.number(),
+            cognitive: z.number(),
+            maxNesting: z.number(),
+            parameters: z.number(),
+            loc: z.number(),
+            sloc: z.number(),
+            halstead: z.object({ volume: z.number(), difficulty: z.number(), effort: z.number() }).passthrough(),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+  ),
+  total: z.number(),
+  note: z.string().optional(),
+}).passthrough();
+
+const DetectCodeSmellsOutputSchema = SuccessSchema.extend({
+  thresholds: z.object({}).passthrough(),
+  entitiesAnalyzed: z.number(),
+  relationshipsAnalyzed: z.number(),
+  smellCount: z.number(),
+  bySeverity: z.record(z.number()),
+  byKind: z.record(z.number()),
+  smells: z.array(
+    z
+      .object({
+        kind: z.string(),
+        severity: z.enum(["low", "medium", "high", "critical"]),
+        name: z.string(),
+        filePath: z.string(),
+        line: z.number().optional(),
+        entityIds: z.array(z.string()),
+        evidence: z.record(z.union([z.number(), z.string(), z.array(z.string())])),
+        message: z.string(),
+      })
+      .passthrough(),
+  ),
+}).passthrough();
+
+const ConfidenceCountsSchema = z.object({ low: z.number(), medium: z.number(), high: z.number() });
+
+const FindDeadCodeOutputSchema = SuccessSchema.extend({
+  entryPoints: z.object({ files: z.number(), entities: z.number() }),
+  entitiesAnalyzed: z.number(),
+  reachable: z.number(),
+  deadCount: z.number(),
+  byConfidence: ConfidenceCountsSchema,
+  directories: z.array(
+    z
+      .object({
+        directory: z.string(),
+        entities: z.number(),
+        dead: z.number(),
+        deadLines: z.number(),
+        byConfidence: ConfidenceCountsSchema,
+      })
+      .passthrough(),
+  ),
+  findings: z.array(
+    z
+      .object({
+        entityId: z.string(),
+        name: z.string(),
+        type: z.string(),
+        filePath: z.string(),
+        line: z.number(),
+        endLine: z.number(),
+        lines: z.number(),
+        exported: z.boolean(),
+        confidence: z.enum(["low", "medium", "high"]),
+        reasons: z.array(z.string()),
+      })
+      .passthrough(),
+  ),
+}).passthrough();
+
+const GetCloneTrendsOutputSchema = SuccessSchema.extend({
+  trends: z.array(
+    z
+      .object({
+        scope: z.string(),
+        product_id: z.string().optional(),
+        points: z.array(
+          z
+            .object({
+              runId: z.string(),
+              created_at: z.number(),
+              cloneCount: z.number(),
+              duplicatedLines: z.number(),
+              duplicationPercentage: z.number(),
+            })
+            .passthrough(),
+        ),
+        percentageChange: z.number(),
+      })
+      .passthrough(),
+  ),
+}).passthrough();
+
+const ExportCloneReportOutputSchema = SuccessSchema.extend({
+  runId: z.string(),
+  format: z.string(),
+  contentType: z.string(),
+  diff: CloneRunDiffSchema,
+  content: z.string(),
+}).passthrough();
+
+const FindRelatedConceptsOutputSchema = z
+  .object({
+    entity: z.object({ id: z.string(), name: z.string(), filePath: z.string() }).passthrough(),
+    related: z.array(z.object({}).passthrough()),
+  })
+  .passthrough();
+
+const GetGraphOutputSchema = z
+  .object({
+    entities: z.array(z.object({ id: z.string(), name: z.string(), type: z.string() }).passthrough()),
+    relations: z.array(z.object({ id: z.string(), fromId: z.string(), toId: z.string() }).passthrough()),
+    stats: z.object({ totalNodes: z.number(), totalRelations: z.number() }).passthrough(),
+  })
+  .passthrough();
+
+const CountByTypeSchema = z.object({ total: z.number(), byType: z.record(z.number()) }).passthrough();
+
+const GetGraphStatsOutputSchema = z
+  .object({
+    entities: CountByTypeSchema,
+    relationships: CountByTypeSchema,
+    files: z.object({ total: z.number() }).passthrough(),
+    /** What the ignore rules skipped in the last completed index run */
+    skippedFiles: IgnoreSummarySchema.extend({ jobId: z.string() }).optional(),
+  })
+  .passthrough();
+
+const LernaProjectGraphOutputSchema = SuccessSchema.extend({
+  cwd: z.string(),
+  lernaVersion: z.string().optional(),
+  nodeCount: z.number(),
+  graph: z.record(z.unknown()),
+  ingestSummary: z
+    .object({
+      packageCount: z.number(),
+      relationshipCount: z.number(),
+      skippedPackages: z.number(),
+      removedPackages: z.number(),
+    })
+    .optional(),
+  cached: z.boolean(),
+  force: z.boolean().optional(),
+}).passthrough();
+
+const GetGraphHealthOutputSchema = z
+  .object({
+    healthy: z.boolean(),
+    reason: z.string(),
+    totals: z.object({ entities: z.number(), relationships: z.number(), files: z.number() }).passthrough(),
+    sampleCount: z.number(),
+  })
+  .passthrough();
+
+const GetAgentMetricsOutputSchema = z
+  .object({
+    timestamp: z.string(),
+    conductor: z.object({ registeredAgents: z.number(), totalTasks: z.number() }).passthrough(),
+    agents: z.array(z.object({}).passthrough()),
+    resources: z.object({}).passthrough(),
+    knowledgeBus: z.object({}).passthrough(),
+  })
+  .passthrough();
+
+const ClearBusTopicOutputSchema = SuccessSchema.extend({
+  topicCleared: z.string(),
+  stats: KnowledgeBusStatsSchema,
+}).passthrough();
+
+const ProductSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullish(),
+    created_at: z.number(),
+    updated_at: z.number(),
+    metadata: z.unknown().optional(),
+  })
+  .passthrough();
+
+const RepositorySchema = z
+  .object({
+    id: z.string(),
+    project_id: z.string(),
+    repository_path: z.string(),
+    repository_name: z.string(),
+    added_at: z.number(),
+    metadata: z.unknown().optional(),
+  })
+  .passthrough();
+
+const CreateProductOutputSchema = SuccessSchema.extend({ product: ProductSchema }).passthrough();
+
+const AddRepositoryOutputSchema = SuccessSchema.extend({
+  repository: RepositorySchema,
+  message: z.string(),
+}).passthrough();
+
+const ListProductsOutputSchema = SuccessSchema.extend({
+  products: z.array(ProductSchema),
+  total: z.number(),
+  limit: z.number().optional(),
+  offset: z.number().optional(),
+}).passthrough();
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export interface ToolOutputDefinition {
+  schema: z.ZodTypeAny;
+  annotations: ToolAnnotations;
+}
+
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false } as const;
+/** Adds to or updates the graph without removing what other calls produced */
+const ADDITIVE = { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false } as const;
+const DESTRUCTIVE = { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false } as const;
+
+export const TOOL_OUTPUTS: Record<string, ToolOutputDefinition> = {
+  index: { schema: IndexJobOutputSchema, annotations: { title: "Index codebase", ...ADDITIVE } },
+  list_file_entities: {
+    schema: ListFileEntitiesOutputSchema,
+    annotations: { title: "List file entities", ...READ_ONLY },
+  },
+  list_entity_relationships: {
+    schema: ListEntityRelationshipsOutputSchema,
+    annotations: { title: "List entity relationships", ...READ_ONLY },
+  },
+  query: { schema: QueryOutputSchema, annotations: { title: "Query code graph", ...READ_ONLY } },
+  get_metrics: { schema: GetMetricsOutputSchema, annotations: { title: "Server metrics", ...READ_ONLY } },
+  get_version: { schema: GetVersionOutputSchema, annotations: { title: "Server version", ...READ_ONLY } },
+  semantic_search: { schema: SemanticSearchOutputSchema, annotations: { title: "Semantic search", ...READ_ONLY } },
+  find_similar_code: {
+    schema: FindSimilarCodeOutputSchema,
+    annotations: { title: "Find similar code", ...READ_ONLY },
+  },
+  analyze_code_impact: {
+    schema: AnalyzeCodeImpactOutputSchema,
+    annotations: { title: "Analyze code impact", ...READ_ONLY },
+  },
+  detect_code_clones: {
+    schema: DetectCodeClonesOutputSchema,
+    annotations: { title: "Detect code clones", ...ADDITIVE, idempotentHint: false },
+  },
+  jscpd_detect_clones: {
+    schema: JscpdDetectClonesOutputSchema,
+    annotations: { title: "Detect clones with jscpd", ...ADDITIVE, idempotentHint: false },
+  },
+  suggest_refactoring: {
+    schema: SuggestRefactoringOutputSchema,
+    annotations: { title: "Suggest refactoring", ...READ_ONLY },
+  },
+  cross_language_search: {
+    schema: CrossLanguageSearchOutputSchema,
+    annotations: { title: "Cross-language search", ...READ_ONLY },
+  },
+  analyze_hotspots: {
+    schema: AnalyzeHotspotsOutputSchema,
+    annotations: { title: "Analyze hotspots", ...READ_ONLY },
+  },
+  ingest_git_history: {
+    schema: IngestGitHistoryOutputSchema,
+    annotations: { title: "Ingest git history", ...ADDITIVE },
+  },
+  resolve_symbols: {
+    schema: ResolveSymbolsOutputSchema,
+    annotations: { title: "Resolve cross-file symbols", ...ADDITIVE },
+  },
+  explore_codebase: {
+    schema: ExploreCodebaseOutputSchema,
+    annotations: { title: "Explore codebase", ...READ_ONLY },
+  },
+  detect_cycles: { schema: DetectCyclesOutputSchema, annotations: { title: "Detect cycles", ...READ_ONLY } },
+  find_path: { schema: FindPathOutputSchema, annotations: { title: "Find path between entities", ...READ_ONLY } },
+  analyze_diff_impact: {
+    schema: AnalyzeDiffImpactOutputSchema,
+    annotations: { title: "Analyze diff impact", ...READ_ONLY },
+  },
+  find_tests_for: { schema: FindTestsForOutputSchema, annotations: { title: "Find covering tests", ...READ_ONLY } },
+  export_graph: { schema: ExportGraphOutputSchema, annotations: { title: "Export graph", ...READ_ONLY } },
+  get_code_metrics: {
+    schema: GetCodeMetricsOutputSchema,
+    annotations: { title: "Get code metrics", ...READ_ONLY },
+  },
+  detect_code_smells: {
+    schema: DetectCodeSmellsOutputSchema,
+    annotations: { title: "Detect code smells", ...READ_ONLY },
+  },
+  find_dead_code: {
+    schema: FindDeadCodeOutputSchema,
+    annotations: { title: "Find dead code", ...READ_ONLY },
+  },
+  get_clone_trends: {
+    schema: GetCloneTrendsOutputSchema,
+    annotations: { title: "Get clone trends", ...READ_ONLY },
+  },
+  export_clone_report: {
+    schema: ExportCloneReportOutputSchema,
+    annotations: { title: "Export clone report", ...READ_ONLY },
+  },
+  get_entity_source: {
+    schema: GetEntitySourceOutputSchema,
+    annotations: { title: "Get entity source", ...READ_ONLY },
+  },
+  find_related_concepts: {
+    schema: FindRelatedConceptsOutputSchema,
+    annotations: { title: "Find related concepts", ...READ_ONLY },
+  },
+  get_graph: { schema: GetGraphOutputSchema, annotations: { title: "Get graph", ...READ_ONLY } },
+  get_graph_stats: { schema: GetGraphStatsOutputSchema, annotations: { title: "Graph statistics", ...READ_ONLY } },
+  lerna_project_graph: {
+    schema: LernaProjectGraphOutputSchema,
+    // Only writes to the graph when `ingest` is set
+    annotations: { title: "Lerna project graph", ...ADDITIVE },
+  },
+  reset_graph: { schema: MessageOutputSchema, annotations: { title: "Reset graph", ...DESTRUCTIVE } },
+  clean_index: { schema: IndexJobOutputSchema, annotations: { title: "Clean reindex", ...DESTRUCTIVE } },
+  get_job_status: { schema: JobStatusOutputSchema, annotations: { title: "Job status", ...READ_ONLY } },
+  cancel_job: { schema: CancelJobOutputSchema, annotations: { title: "Cancel job", ...ADDITIVE } },
+  get_graph_health: { schema: GetGraphHealthOutputSchema, annotations: { title: "Graph health", ...READ_ONLY } },
+  get_agent_metrics: {
+    schema: GetAgentMetricsOutputSchema,
+    annotations: { title: "Agent metrics", ...READ_ONLY },
+  },
+  get_bus_stats: { schema: KnowledgeBusStatsSchema, annotations: { title: "Knowledge bus stats", ...READ_ONLY } },
+  clear_bus_topic: {
+    schema: ClearBusTopicOutputSchema,
+    annotations: { title: "Clear knowledge bus topic", ...DESTRUCTIVE },
+  },
+  create_product: {
+    schema: CreateProductOutputSchema,
+    annotations: { title: "Create product", ...ADDITIVE, idempotentHint: false },
+  },
+  add_repository_to_product: {
+    schema: AddRepositoryOutputSchema,
+    annotations: { title: "Add repository to product", ...ADDITIVE, idempotentHint: false },
+  },
+  list_products: { schema: ListProductsOutputSchema, annotations: { title: "List products", ...READ_ONLY } },
+};
+
+/**
+ * `outputSchema` and `annotations` for a tools/list entry
+ */
+export function describeToolOutput(name: string) {
+  const definition = TOOL_OUTPUTS[name];
+  if (!definition) {
+    throw new Error(`No output schema registered for tool: ${name}`);
+  }
+  return {
+    outputSchema: zodToJsonSchema(definition.schema, { $refStrategy: "none" }) as {
+      type: "object";
+      [key: string]: unknown;
+    },
+    annotations: definition.annotations,
+  };
+}
+
+export interface StructuredToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+/**
+ * Wrap a tool payload: successful payloads go out as `structuredContent` plus the same JSON as
+ * text; `success: false` payloads are marked `isError` and sent as text only, since they do not
+ * follow the tool's output schema
+ */
+export function toolResult(payload: object): StructuredToolResult {
+  const text = JSON.stringify(payload, null, 2);
+  if ((payload as { success?: unknown }).success === false) {
+    return { content: [{ type: "text", text }], isError: true };
+  }
+  return { content: [{ type: "text", text }], structuredContent: JSON.parse(text) };
+}
@@ -1,21 +1,20 @@
 #!/usr/bin/env node
 
 /**
- * HTTP+SSE MCP Server - Same tools as stdio server, but over HTTP for n8n
+ * HTTP MCP Server - Same tools as stdio server, but over HTTP for n8n and shared deployments
  *
- * This is a modified version of src/index.ts that uses SSE transport instead of stdio.
- * It exposes all 24 MCP tools over HTTP+SSE for n8n integration.
+ * Starts src/index.ts with the HTTP transports: Streamable HTTP on /mcp (resumable sessions)
+ * and legacy SSE on /sse + /messages. Each session gets its own MCP server, bound to the root
+ * directory and product the client picks when it connects (Mcp-Workspace-Root / Mcp-Product-Id
+ * headers, or the root / product_id query parameters), so one container can serve a whole team.
  *
  * Usage:
  *   MCP_SERVER_DIR=/path/to/code npm run mcp:sse
  *   MCP_SERVER_DIR=/path/to/code PORT=3000 node dist/http-mcp-server.js
  */
 
-// IMPORTANT: This file will import and re-export the server from index.ts
-// but change the transport from stdio to SSE
-
-// Set environment variable to trigger SSE mode
+// Set environment variable to trigger HTTP mode
 process.env.MCP_TRANSPORT = "sse";
 
-// Import the main server which will now use SSE transport
+// Import the main server which will now use the HTTP transports
 import("./index.js");
@@ -0,0 +1,67 @@
+/**
+ * MCP Event Store
+ * Keeps the last messages sent on each Streamable HTTP stream so a client that lost its
+ * connection can reconnect with `Last-Event-ID` and receive what it missed. One store per
+ * session; it is dropped with the session.
+ */
+
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export const DEFAULT_MAX_EVENTS_PER_STREAM = 500;
+
+interface StoredEvent {
+  seq: number;
+  message: JSONRPCMessage;
+}
+
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, StoredEvent[]>();
+  private seq = 0;
+
+  constructor(private maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const seq = ++this.seq;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ seq, message });
+    if (events.length > this.maxEventsPerStream) events.splice(0, events.length - this.maxEventsPerStream);
+    this.streams.set(streamId, events);
+    return formatEventId(streamId, seq);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<string> {
+    const parsed = parseEventId(lastEventId);
+    const events = parsed ? this.streams.get(parsed.streamId) : undefined;
+    if (!parsed || !events) {
+      throw new Error(`Unknown event ID: ${lastEventId}`);
+    }
+
+    for (const event of events) {
+      if (event.seq > parsed.seq) await send(formatEventId(parsed.streamId, event.seq), event.message);
+    }
+    return parsed.streamId;
+  }
+
+  /** Events currently kept, across streams */
+  get size(): number {
+    let total = 0;
+    for (const events of this.streams.values()) total += events.length;
+    return total;
+  }
+}
+
+// Stream IDs are generated by the transport and never contain "@"
+function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}@${seq}`;
+}
+
+function parseEventId(eventId: string): { streamId: string; seq: number } | null {
+  const at = eventId.lastIndexOf("@");
+  const seq = Number(eventId.slice(at + 1));
+  if (at <= 0 || !Number.isInteger(seq)) return null;
+  return { streamId: eventId.slice(0, at), seq };
+}
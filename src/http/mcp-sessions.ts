@@ -0,0 +1,262 @@
+/**
+ * MCP Session Manager
+ * Hosts one MCP server per HTTP session, over Streamable HTTP (`/mcp`, resumable through an
+ * event store) or the legacy SSE transport (`/sse` + `/messages`). A session is bound to the
+ * workspace the client asked for when it opened it (root directory and product, through the
+ * `Mcp-Workspace-Root`/`Mcp-Product-Id` headers or the `root`/`product_id` query parameters)
+ * and to the API key it was opened with.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { Request, Response } from "express";
+import type { AuthContext } from "../types/auth.js";
+import type { McpSessionInfo, McpTransportKind, McpWorkspace, McpWorkspaceRequest } from "../types/mcp-session.js";
+import { logger } from "../utils/logger.js";
+import { DEFAULT_MAX_EVENTS_PER_STREAM, InMemoryEventStore } from "./mcp-event-store.js";
+import type { ApiError } from "./middleware/error.js";
+
+export const WORKSPACE_ROOT_HEADER = "mcp-workspace-root";
+export const PRODUCT_HEADER = "mcp-product-id";
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+export interface McpSessionManagerOptions {
+  /** Creates the MCP server (tools, resources, prompts) for a session's workspace */
+  createServer: (workspace: McpWorkspace) => Server;
+  /** Checks the workspace a client asked for; throws an HttpError when it is not allowed */
+  resolveWorkspace: (request: McpWorkspaceRequest) => McpWorkspace;
+  /** Path the SSE transport tells clients to post messages to */
+  messagesPath?: string;
+  /** Streamable HTTP sessions without requests for this long are closed */
+  idleTimeoutMs?: number;
+  maxEventsPerStream?: number;
+}
+
+interface HostedSession {
+  info: McpSessionInfo;
+  server: Server;
+  transport: SSEServerTransport | StreamableHTTPServerTransport;
+}
+
+export class McpSessionManager {
+  private sessions = new Map<string, HostedSession>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private options: McpSessionManagerOptions) {
+    const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_SESSION_IDLE_MS;
+    if (idleTimeoutMs > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(idleTimeoutMs), Math.min(idleTimeoutMs, 60_000));
+      this.sweepTimer.unref();
+    }
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  listSessions(): McpSessionInfo[] {
+    return Array.from(this.sessions.values(), (session) => ({ ...session.info }));
+  }
+
+  /**
+   * Streamable HTTP endpoint: POST messages, GET the server stream (or resume it with
+   * `Last-Event-ID`), DELETE to end the session
+   */
+  async handleStreamable(req: Request, res: Response): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+
+    if (sessionId) {
+      const session = this.findSession(sessionId, "streamable", req, res);
+      if (!session) return;
+      session.info.lastSeenAt = Date.now();
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const workspace = this.resolveWorkspace(req, res);
+    if (!workspace) return;
+
+    const server = this.options.createServer(workspace);
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new InMemoryEventStore(this.options.maxEventsPerStream ?? DEFAULT_MAX_EVENTS_PER_STREAM),
+      onsessioninitialized: (newSessionId) => {
+        this.register(newSessionId, "streamable", server, transport, workspace, req);
+      },
+    });
+    // Set before connecting: the server chains its own close handling onto it
+    transport.onclose = () => {
+      if (transport.sessionId) this.forget(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  /**
+   * Legacy SSE endpoint: opens the event stream of a new session
+   */
+  async openSse(req: Request, res: Response): Promise<void> {
+    const workspace = this.resolveWorkspace(req, res);
+    if (!workspace) return;
+
+    const server = this.options.createServer(workspace);
+    const transport = new SSEServerTransport(this.options.messagesPath ?? "/messages", res);
+    const sessionId = transport.sessionId;
+    transport.onclose = () => this.forget(sessionId);
+    transport.onerror = (error) => {
+      logger.error("SSE_ERROR", "Transport error", { sessionId }, sessionId, error);
+    };
+
+    this.register(sessionId, "sse", server, transport, workspace, req);
+    // Starts the stream and announces the messages endpoint with the session ID
+    await server.connect(transport);
+  }
+
+  /**
+   * Legacy SSE endpoint: receives a client message for an open stream
+   */
+  async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = (req.query.sessionId || req.headers["mcp-session-id"] || req.body?.meta?.sessionId) as
+      | string
+      | undefined;
+    if (!sessionId) {
+      res.status(400).json({ error: "Missing session ID" });
+      return;
+    }
+
+    const session = this.findSession(sessionId, "sse", req, res);
+    if (!session) return;
+    session.info.lastSeenAt = Date.now();
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+  }
+
+  /**
+   * Close every session, e.g. on shutdown
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      await this.close(sessionId);
+    }
+  }
+
+  private register(
+    sessionId: string,
+    transportKind: McpTransportKind,
+    server: Server,
+    transport: HostedSession["transport"],
+    workspace: McpWorkspace,
+    req: Request,
+  ): void {
+    const now = Date.now();
+    this.sessions.set(sessionId, {
+      info: {
+        sessionId,
+        transport: transportKind,
+        workspace,
+        clientId: authOf(req)?.clientId,
+        createdAt: now,
+        lastSeenAt: now,
+      },
+      server,
+      transport,
+    });
+    logger.info("MCP_SESSION", `${transportKind} session opened: ${sessionId}`, { sessionId, workspace }, sessionId);
+  }
+
+  private findSession(
+    sessionId: string,
+    transportKind: McpTransportKind,
+    req: Request,
+    res: Response,
+  ): HostedSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      // 404 tells Streamable HTTP clients to start a new session
+      sendJsonRpcError(res, 404, -32001, "Session not found");
+      return undefined;
+    }
+    if (session.info.transport !== transportKind) {
+      sendJsonRpcError(res, 400, -32000, "Bad Request: Session exists but uses a different transport protocol");
+      return undefined;
+    }
+    if (session.info.clientId && session.info.clientId !== authOf(req)?.clientId) {
+      sendJsonRpcError(res, 403, -32000, "Session belongs to another API key");
+      return undefined;
+    }
+    return session;
+  }
+
+  private resolveWorkspace(req: Request, res: Response): McpWorkspace | undefined {
+    try {
+      return this.options.resolveWorkspace({
+        rootDir: headerOrQuery(req, WORKSPACE_ROOT_HEADER, "root"),
+        product_id: headerOrQuery(req, PRODUCT_HEADER, "product_id"),
+      });
+    } catch (error) {
+      const apiError = error as ApiError;
+      logger.warn("MCP_WORKSPACE_REJECTED", apiError.message, { path: req.path });
+      sendJsonRpcError(res, apiError.statusCode ?? 400, -32602, apiError.message);
+      return undefined;
+    }
+  }
+
+  private forget(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    logger.info("MCP_CLOSED", `Session closed: ${sessionId}`, { sessionId }, sessionId);
+    // Lets the server release what it attached (resource subscriptions)
+    session.server.close().catch(() => {});
+  }
+
+  private async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    try {
+      await session.transport.close();
+    } finally {
+      this.forget(sessionId);
+    }
+  }
+
+  private closeIdleSessions(idleTimeoutMs: number): void {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of Array.from(this.sessions.values())) {
+      // SSE sessions last as long as their stream
+      const { info } = session;
+      if (info.transport === "streamable" && info.lastSeenAt < cutoff) {
+        logger.info("MCP_SESSION_EXPIRED", `Closing idle session ${info.sessionId}`, {
+          sessionId: info.sessionId,
+          idleMs: Date.now() - info.lastSeenAt,
+        });
+        this.close(info.sessionId).catch(() => {});
+      }
+    }
+  }
+}
+
+function authOf(req: Request): AuthContext | undefined {
+  return (req as Request & { auth?: AuthContext }).auth;
+}
+
+function headerOrQuery(req: Request, header: string, param: string): string | undefined {
+  const value = req.headers[header] ?? req.query[param];
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === "string" && first.trim() ? first.trim() : undefined;
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
@@ -0,0 +1,149 @@
+/**
+ * Authentication Middleware
+ * API-key / bearer-token authentication with read < index < admin scopes
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiKeyStore } from "../../storage/api-key-store.js";
+import { API_SCOPES, type ApiScope, type AuthContext } from "../../types/auth.js";
+import { logger } from "../../utils/logger.js";
+import { HttpError } from "./error.js";
+
+export interface AuthOptions {
+  /** Skip authentication entirely (local development only) */
+  disabled: boolean;
+  /** Static admin token from the environment, used to bootstrap the first API keys */
+  adminToken?: string;
+}
+
+/**
+ * Tools that change the graph or project registry; everything else only needs `read`
+ */
+const TOOL_SCOPES: Record<string, ApiScope> = {
+  index: "index",
+  ingest_git_history: "index",
+  resolve_symbols: "index",
+  lerna_project_graph: "index",
+  create_product: "index",
+  add_repository_to_product: "index",
+  cancel_job: "index",
+  reset_graph: "admin",
+  clean_index: "admin",
+  clear_bus_topic: "admin",
+};
+
+/**
+ * Tools that record a clone run, which later runs diff against, unless called with `persist: false`
+ */
+const PERSISTING_TOOLS = new Set(["detect_code_clones", "jscpd_detect_clones"]);
+
+/**
+ * Get authentication configuration based on environment
+ */
+export function getAuthOptions(): AuthOptions {
+  return {
+    disabled: process.env.API_AUTH_DISABLED === "true",
+    adminToken: process.env.API_ADMIN_TOKEN || undefined,
+  };
+}
+
+/**
+ * Whether the granted scopes cover the required one (a higher scope includes the lower ones)
+ */
+export function hasScope(granted: readonly string[], required: ApiScope): boolean {
+  const level = API_SCOPES.indexOf(required);
+  return granted.some((scope) => API_SCOPES.indexOf(scope as ApiScope) >= level);
+}
+
+/**
+ * Scope needed to call an MCP tool with the given arguments
+ */
+export function scopeForTool(toolName: string, args?: Record<string, unknown>): ApiScope {
+  if (PERSISTING_TOOLS.has(toolName) && args?.persist !== false) return "index";
+  return TOOL_SCOPES[toolName] ?? "read";
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+function extractToken(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const [scheme, token] = authorization.split(" ");
+    if (scheme?.toLowerCase() === "bearer" && token) return token.trim();
+  }
+  const apiKey = req.headers["x-api-key"];
+  return typeof apiKey === "string" && apiKey ? apiKey.trim() : undefined;
+}
+
+function matchesToken(token: string, expected: string): boolean {
+  // Compare digests so the comparison is constant-time regardless of length
+  const a = createHash("sha256").update(token).digest();
+  const b = createHash("sha256").update(expected).digest();
+  return timingSafeEqual(a, b);
+}
+
+/**
+ * Create middleware that authenticates requests against the API key store. The identity is
+ * stored on `res.locals.auth` and on `req.auth`, where the MCP transports pick it up.
+ */
+export function authenticate(store: ApiKeyStore, options: AuthOptions = getAuthOptions()) {
+  if (options.disabled) {
+    logger.warn("AUTH_DISABLED", "API authentication is disabled (API_AUTH_DISABLED=true)");
+  }
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (options.disabled) {
+      return next();
+    }
+
+    const token = extractToken(req);
+    if (!token) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="code-graph-rag"');
+      return next(new HttpError(401, "Missing API key", "UNAUTHORIZED"));
+    }
+
+    let auth: AuthContext | undefined;
+    if (options.adminToken && matchesToken(token, options.adminToken)) {
+      auth = { token, clientId: "env:API_ADMIN_TOKEN", scopes: ["admin"] };
+    } else {
+      const apiKey = store.verifyKey(token);
+      if (apiKey) {
+        auth = { token, clientId: apiKey.id, scopes: apiKey.scopes, expiresAt: apiKey.expires_at };
+      }
+    }
+
+    if (!auth) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="code-graph-rag", error="invalid_token"');
+      return next(new HttpError(401, "Invalid, expired or revoked API key", "UNAUTHORIZED"));
+    }
+
+    res.locals.auth = auth;
+    (req as Request & { auth?: AuthContext }).auth = auth;
+    next();
+  };
+}
+
+/**
+ * Create middleware that rejects authenticated requests lacking the given scope. Requests let
+ * through by a disabled `authenticate` carry no identity and pass unchecked.
+ */
+export function requireScope(scope: ApiScope) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const auth = res.locals.auth as AuthContext | undefined;
+    if (auth && !hasScope(auth.scopes, scope)) {
+      return next(new HttpError(403, `This operation requires the '${scope}' scope`, "FORBIDDEN", { required: scope }));
+    }
+    next();
+  };
+}
+
+/**
+ * Create middleware that rejects authenticated requests lacking the scope the tool needs for the
+ * request body
+ */
+export function requireToolScope(toolName: string) {
+  return (req: Request, res: Response, next: NextFunction) =>
+    requireScope(scopeForTool(toolName, req.body))(req, res, next);
+}
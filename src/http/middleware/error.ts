@@ -4,7 +4,7 @@
  */
 
 import type { NextFunction, Request, Response } from "express";
-import { AgentBusyError } from "../../types/errors.js";
+import { AgentBusyError, EntityResolutionError, PathNotAllowedError } from "../../types/errors.js";
 import { logger } from "../../utils/logger.js";
 
 export interface ApiError extends Error {
@@ -57,7 +57,7 @@ function formatErrorResponse(error: ApiError, requestId?: string) {
 export function errorHandler(err: ApiError, req: Request, res: Response, _next: NextFunction) {
   // Prevent "headers already sent" errors for SSE/streaming responses
   if (res.headersSent) {
-    return;
+    return undefined;
   }
 
   const requestId = res.locals.requestId || (req.headers["x-request-id"] as string);
@@ -92,6 +92,25 @@ export function errorHandler(err: ApiError, req: Request, res: Response, _next:
     return res.status(503).json(formatErrorResponse(agentError, requestId));
   }
 
+  if (err instanceof PathNotAllowedError) {
+    const pathError: ApiError = Object.assign(new Error(err.message), {
+      statusCode: 403,
+      code: "PATH_NOT_ALLOWED",
+      details: { path: err.path },
+    });
+    return res.status(403).json(formatErrorResponse(pathError, requestId));
+  }
+
+  if (err instanceof EntityResolutionError) {
+    const statusCode = err.details.status === "ambiguous" ? 409 : 404;
+    const resolutionError: ApiError = Object.assign(new Error(err.message), {
+      statusCode,
+      code: err.details.status === "ambiguous" ? "ENTITY_AMBIGUOUS" : "ENTITY_NOT_FOUND",
+      details: err.details,
+    });
+    return res.status(statusCode).json(formatErrorResponse(resolutionError, requestId));
+  }
+
   if (err instanceof HttpError) {
     return res.status(err.statusCode).json(formatErrorResponse(err, requestId));
   }
@@ -0,0 +1,29 @@
+/**
+ * Path Guard Middleware
+ * Refuses requests whose body names a file or directory outside the allowed roots (403
+ * PATH_NOT_ALLOWED), before any tool runs
+ */
+
+import type { NextFunction, Request, Response } from "express";
+import { getPathGuard } from "../../core/path-guard.js";
+
+/**
+ * Check the given body fields (strings or string arrays); relative paths resolve against the
+ * server root
+ */
+export function guardBodyPaths(...fields: string[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const guard = getPathGuard();
+    try {
+      for (const field of fields) {
+        const value: unknown = req.body?.[field];
+        for (const path of Array.isArray(value) ? value : [value]) {
+          if (typeof path === "string" && path) guard.resolve(path);
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
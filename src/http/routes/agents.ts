@@ -6,6 +6,7 @@
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
+import { requireScope } from "../middleware/auth.js";
 import { asyncHandler } from "../middleware/error.js";
 import { validateBody } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
@@ -99,6 +100,7 @@ router.get(
  */
 router.post(
   "/bus/clear",
+  requireScope("admin"),
   validateBody(ClearBusTopicSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
@@ -6,7 +6,12 @@
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
+import { CLONE_REPORT_FORMATS } from "../../types/clone-runs.js";
+import { CODE_SMELL_KINDS, SMELL_SEVERITIES } from "../../types/code-smells.js";
+import { DEAD_CODE_CONFIDENCES } from "../../types/dead-code.js";
+import { requireScope, requireToolScope } from "../middleware/auth.js";
 import { asyncHandler } from "../middleware/error.js";
+import { guardBodyPaths } from "../middleware/path-guard.js";
 import { validateBody } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
 
@@ -22,6 +27,8 @@ const AnalyzeCodeImpactSchema = z.object({
 const DetectCodeClonesSchema = z.object({
   minSimilarity: z.number().optional().default(0.8).describe("Minimum similarity for clones"),
   scope: z.string().optional().default("all").describe("Scope: all, file, or module"),
+  product_id: z.string().optional().describe("Filter clone detection to specific product"),
+  persist: z.boolean().optional().describe("Record the jscpd result as a clone run (default true)"),
 });
 
 const JscpdCloneDetectionSchema = z.object({
@@ -31,8 +38,34 @@ const JscpdCloneDetectionSchema = z.object({
   formats: z.array(z.string()).optional().describe("File extensions to include"),
   minLines: z.number().int().min(1).optional().describe("Minimum lines per clone block"),
   maxLines: z.number().int().min(1).optional().describe("Maximum lines per clone block"),
-  minTokens: z.number().int().min(1).optional().describe("Minimum tokens per clone"),
+  minTokens: z.number().int().min(1).optional().describe("Minimum syntax tokens per clone"),
   ignoreCase: z.boolean().optional().describe("Lowercase tokens before comparison"),
+  normalize: z.boolean().optional().describe("Match renamed identifiers and changed literals (default true)"),
+  maxGap: z.number().int().min(0).optional().describe("Tokens allowed between runs of a gapped clone (default 5)"),
+  minSimilarity: z.number().min(0).max(1).optional().describe("Minimum similarity of a gapped clone (default 0.8)"),
+  gitignore: z.boolean().optional().describe("Skip files excluded by .gitignore and .codegraphignore (default true)"),
+  product_id: z.string().optional().describe("Product the scan belongs to, for run diffs and trends"),
+  persist: z.boolean().optional().describe("Record the result as a clone run (default true)"),
+});
+
+const CodeMetricsSchema = z.object({
+  entityId: z.string().optional().describe("Entity ID or name of one function or method"),
+  filePath: z.string().optional().describe("Only functions in this file"),
+  product_id: z.string().optional().describe("Only functions of this product"),
+  minComplexity: z.number().int().min(1).optional().describe("Minimum cyclomatic complexity"),
+  limit: z.number().int().min(1).max(500).optional().describe("Maximum functions returned"),
+});
+
+const CloneTrendsSchema = z.object({
+  product_id: z.string().optional().describe("Only trends of this product"),
+  limit: z.number().int().min(1).max(500).optional().describe("Most recent runs per trend"),
+});
+
+const CloneReportSchema = z.object({
+  format: z.enum(CLONE_REPORT_FORMATS).optional().default("sarif").describe("Report format"),
+  runId: z.string().optional().describe("Clone run to report (defaults to the latest run)"),
+  product_id: z.string().optional().describe("Report the latest run of this product"),
+  onlyNew: z.boolean().optional().describe("Only report duplication that is new since the previous run"),
 });
 
 const SuggestRefactoringSchema = z.object({
@@ -46,8 +79,61 @@ const SuggestRefactoringSchema = z.object({
 const AnalyzeHotspotsSchema = z.object({
   metric: z.string().optional().default("complexity").describe("Metric: complexity, changes, or coupling"),
   limit: z.number().optional().default(10).describe("Maximum hotspots to return"),
+  product_id: z.string().optional().describe("Filter hotspots to specific product"),
+});
+
+const IngestGitHistorySchema = z.object({
+  directory: z.string().optional().describe("Directory inside a git repository"),
+  maxCommits: z.number().int().positive().optional().describe("Maximum number of commits to walk"),
+  since: z.string().optional().describe("Only consider commits after this date"),
+  product_id: z.string().optional().describe("Product ID to associate churn data with"),
 });
 
+const DetectCyclesSchema = z.object({
+  relationshipTypes: z
+    .array(z.enum(["imports", "calls", "depends_on", "references", "inherits", "extends", "implements"]))
+    .optional()
+    .describe("Relationship types forming the dependency graph"),
+  granularity: z.enum(["file", "entity"]).optional().describe("Report cycles between files or entities"),
+  directory: z.string().optional().describe("Only consider code under this directory"),
+  language: z.string().optional().describe("Only consider code in this language"),
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  minSize: z.number().int().min(2).optional().describe("Smallest number of nodes reported as a cycle"),
+  limit: z.number().int().positive().optional().describe("Maximum cycles to return"),
+});
+
+const DetectCodeSmellsSchema = z.object({
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  directory: z.string().optional().describe("Only consider code under this directory"),
+  kinds: z.array(z.enum(CODE_SMELL_KINDS)).optional().describe("Smells to look for (default: all)"),
+  minSeverity: z.enum(SMELL_SEVERITIES).optional().describe("Drop smells below this severity"),
+  thresholds: z.record(z.number().positive()).optional().describe("Override detection limits by name"),
+  limit: z.number().int().positive().optional().describe("Maximum smells to return"),
+});
+
+const FindDeadCodeSchema = z.object({
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  directory: z.string().optional().describe("Only report dead code under this directory"),
+  entryFiles: z.array(z.string()).optional().describe("Globs of entry files whose declarations and exports are live"),
+  entryPoints: z.array(z.string()).optional().describe("Additional entity IDs or names that are live"),
+  includeTests: z.boolean().optional().describe("Treat test files as entry points"),
+  exportsAreUsed: z.boolean().optional().describe("Treat every export as used"),
+  minConfidence: z.enum(DEAD_CODE_CONFIDENCES).optional().describe("Drop findings below this confidence"),
+  limit: z.number().int().positive().optional().describe("Maximum findings to return"),
+});
+
+const AnalyzeDiffImpactSchema = z
+  .object({
+    diff: z.string().optional().describe("Unified diff text"),
+    base: z.string().optional().describe("Git ref to diff from when no diff text is given"),
+    head: z.string().optional().describe("Git ref to diff to (defaults to the working tree)"),
+    directory: z.string().optional().describe("Repository directory that diff paths are relative to"),
+    depth: z.number().int().min(1).optional().describe("Caller/importer hops followed from each changed entity"),
+    product_id: z.string().optional().describe("Only consider code of this product"),
+    limit: z.number().int().positive().optional().describe("Maximum entities listed per risk group"),
+  })
+  .refine((value) => value.diff || value.base, { message: "Provide either diff or base" });
+
 /**
  * POST /api/analysis/impact
  * Analyze code impact
@@ -75,6 +161,7 @@ router.post(
 router.post(
   "/clones",
   validateBody(DetectCodeClonesSchema),
+  requireToolScope("detect_code_clones"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("detect_code_clones", req.body, requestId);
@@ -95,6 +182,8 @@ router.post(
 router.post(
   "/jscpd-clones",
   validateBody(JscpdCloneDetectionSchema),
+  requireToolScope("jscpd_detect_clones"),
+  guardBodyPaths("paths"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("jscpd_detect_clones", req.body, requestId);
@@ -108,6 +197,70 @@ router.post(
   }),
 );
 
+/**
+ * POST /api/analysis/metrics
+ * Syntax-tree complexity metrics of functions and methods
+ */
+router.post(
+  "/metrics",
+  validateBody(CodeMetricsSchema),
+  guardBodyPaths("filePath"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("get_code_metrics", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/clone-trends
+ * Duplication trends from recorded clone runs
+ */
+router.post(
+  "/clone-trends",
+  validateBody(CloneTrendsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("get_clone_trends", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/clone-report
+ * Download a clone run as a SARIF, HTML or JSON report
+ */
+router.post(
+  "/clone-report",
+  validateBody(CloneReportSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("export_clone_report", req.body, requestId);
+    const report = parseToolResult(result) as {
+      runId: string;
+      extension: string;
+      contentType: string;
+      content: string;
+    };
+
+    res.setHeader("Content-Type", report.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${report.runId}.${report.extension}"`);
+    res.send(report.content);
+  }),
+);
+
 /**
  * POST /api/analysis/refactoring
  * Get refactoring suggestions
@@ -115,6 +268,7 @@ router.post(
 router.post(
   "/refactoring",
   validateBody(SuggestRefactoringSchema),
+  guardBodyPaths("filePath"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("suggest_refactoring", req.body, requestId);
@@ -148,4 +302,110 @@ router.post(
   }),
 );
 
+/**
+ * POST /api/analysis/git-history
+ * Ingest git churn for hotspot analysis
+ */
+router.post(
+  "/git-history",
+  requireScope("index"),
+  validateBody(IngestGitHistorySchema),
+  guardBodyPaths("directory"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("ingest_git_history", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/cycles
+ * Find import/call dependency cycles and the edges to cut
+ */
+router.post(
+  "/cycles",
+  validateBody(DetectCyclesSchema),
+  guardBodyPaths("directory"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("detect_cycles", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/smells
+ * Graph-based design smells with evidence and severity
+ */
+router.post(
+  "/smells",
+  validateBody(DetectCodeSmellsSchema),
+  guardBodyPaths("directory"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("detect_code_smells", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/dead-code
+ * Entities unreachable from entry points, with confidence and per-directory totals
+ */
+router.post(
+  "/dead-code",
+  validateBody(FindDeadCodeSchema),
+  guardBodyPaths("directory"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("find_dead_code", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * POST /api/analysis/diff-impact
+ * Map a diff or git ref range onto entities and group the impacted entities by risk
+ */
+router.post(
+  "/diff-impact",
+  validateBody(AnalyzeDiffImpactSchema),
+  guardBodyPaths("directory"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("analyze_diff_impact", req.body, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
 export default router;
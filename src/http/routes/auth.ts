@@ -0,0 +1,175 @@
+/**
+ * Auth Routes
+ * Endpoints for managing API keys and inspecting the caller's identity
+ */
+
+import type { Request, Response } from "express";
+import { Router } from "express";
+import { z } from "zod";
+import type { ApiKeyStore } from "../../storage/api-key-store.js";
+import { API_SCOPES, type AuthContext } from "../../types/auth.js";
+import { requireScope } from "../middleware/auth.js";
+import { asyncHandler, HttpError } from "../middleware/error.js";
+import { validateBody } from "../middleware/validation.js";
+
+// Schemas
+const CreateKeySchema = z.object({
+  name: z.string().min(1).max(100).describe("Label identifying the key's owner or purpose"),
+  scopes: z.array(z.enum(API_SCOPES)).min(1).default(["read"]).describe("Granted scopes: read, index, admin"),
+  expiresInDays: z.number().int().positive().optional().describe("Days until the key expires (never by default)"),
+});
+
+/**
+ * Create the auth router for an API key store
+ */
+export function createAuthRoutes(store: ApiKeyStore): Router {
+  const router = Router();
+
+  /**
+   * @swagger
+   * /api/auth/me:
+   *   get:
+   *     summary: Describe the authenticated caller
+   *     tags: [Auth]
+   *     responses:
+   *       200:
+   *         description: Client id and scopes of the key used
+   *       401:
+   *         $ref: '#/components/responses/Unauthorized'
+   */
+  router.get(
+    "/me",
+    asyncHandler(async (_req: Request, res: Response) => {
+      const requestId = res.locals.requestId;
+      const auth = res.locals.auth as AuthContext | undefined;
+
+      res.json({
+        success: true,
+        data: auth
+          ? { authenticated: true, clientId: auth.clientId, scopes: auth.scopes, expiresAt: auth.expiresAt }
+          : { authenticated: false },
+        meta: { requestId },
+      });
+    }),
+  );
+
+  /**
+   * @swagger
+   * /api/auth/keys:
+   *   post:
+   *     summary: Create an API key (the key is only returned once)
+   *     tags: [Auth]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name:
+   *                 type: string
+   *               scopes:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   enum: [read, index, admin]
+   *               expiresInDays:
+   *                 type: integer
+   *     responses:
+   *       201:
+   *         description: API key created
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   */
+  router.post(
+    "/keys",
+    requireScope("admin"),
+    validateBody(CreateKeySchema),
+    asyncHandler(async (req: Request, res: Response) => {
+      const requestId = res.locals.requestId;
+      const { name, scopes, expiresInDays } = req.body as z.infer<typeof CreateKeySchema>;
+      const { key, apiKey } = store.createKey({
+        name,
+        scopes,
+        expires_at: expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { key, apiKey },
+        meta: { requestId },
+      });
+    }),
+  );
+
+  /**
+   * @swagger
+   * /api/auth/keys:
+   *   get:
+   *     summary: List API keys (without the keys themselves)
+   *     tags: [Auth]
+   *     parameters:
+   *       - in: query
+   *         name: includeRevoked
+   *         schema:
+   *           type: boolean
+   *     responses:
+   *       200:
+   *         description: API keys
+   *       403:
+   *         $ref: '#/components/responses/Forbidden'
+   */
+  router.get(
+    "/keys",
+    requireScope("admin"),
+    asyncHandler(async (req: Request, res: Response) => {
+      const requestId = res.locals.requestId;
+      const keys = store.listKeys(req.query.includeRevoked === "true");
+
+      res.json({
+        success: true,
+        data: { keys, total: keys.length },
+        meta: { requestId },
+      });
+    }),
+  );
+
+  /**
+   * @swagger
+   * /api/auth/keys/{id}:
+   *   delete:
+   *     summary: Revoke an API key
+   *     tags: [Auth]
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: API key revoked
+   *       404:
+   *         $ref: '#/components/responses/NotFound'
+   */
+  router.delete(
+    "/keys/:id",
+    requireScope("admin"),
+    asyncHandler(async (req: Request, res: Response) => {
+      const requestId = res.locals.requestId;
+      const id = req.params.id ?? "";
+      if (!store.revokeKey(id)) {
+        throw new HttpError(404, `No active API key with id ${id}`, "NOT_FOUND");
+      }
+
+      res.json({
+        success: true,
+        data: { id, revoked: true },
+        meta: { requestId },
+      });
+    }),
+  );
+
+  return router;
+}
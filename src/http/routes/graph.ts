@@ -3,10 +3,19 @@
  * Endpoints for code graph operations
  */
 
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
+import { resolveEntity } from "../../core/entity-resolver.js";
+import { getPathGuard } from "../../core/path-guard.js";
+import { getGraphStorage } from "../../storage/graph-storage-factory.js";
+import { createGraphExport, DEFAULT_EXPORT_DEPTH, DEFAULT_EXPORT_MAX_ENTITIES } from "../../tools/graph-export.js";
+import { GRAPH_EXPORT_FORMATS } from "../../types/graph-export.js";
+import { requireScope } from "../middleware/auth.js";
 import { asyncHandler } from "../middleware/error.js";
+import { guardBodyPaths } from "../middleware/path-guard.js";
 import { validateBody, validateQuery } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
 
@@ -42,6 +51,18 @@ const GetGraphHealthSchema = z.object({
   sample: z.number().optional().default(1).describe("Sample size to fetch for verification"),
 });
 
+const ExportGraphSchema = z.object({
+  format: z.enum(GRAPH_EXPORT_FORMATS).describe("Output format"),
+  rootEntity: z.string().optional().describe("Entity ID or name whose neighbourhood is exported"),
+  filePath: z.string().optional().describe("Optional file path hint to disambiguate the root entity"),
+  depth: z.number().int().min(0).max(10).optional().default(DEFAULT_EXPORT_DEPTH).describe("Hops from the root"),
+  product_id: z.string().optional().describe("Only export this product"),
+  pathGlob: z.string().optional().describe("Only export entities in files matching this glob"),
+  entityTypes: z.array(z.string()).optional().describe("Entity types to include"),
+  relationshipTypes: z.array(z.string()).optional().describe("Relationship types to include"),
+  maxEntities: z.number().int().positive().optional().default(DEFAULT_EXPORT_MAX_ENTITIES),
+});
+
 /**
  * POST /api/graph/entities/list
  * List entities in a file
@@ -49,6 +70,7 @@ const GetGraphHealthSchema = z.object({
 router.post(
   "/entities/list",
   validateBody(ListEntitiesSchema),
+  guardBodyPaths("filePath"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("list_file_entities", req.body, requestId);
@@ -122,6 +144,37 @@ router.post(
   }),
 );
 
+/**
+ * POST /api/graph/export
+ * Stream the graph (or a subgraph) as GraphML, DOT, Mermaid, Cypher or JSON Lines
+ */
+router.post(
+  "/export",
+  validateBody(ExportGraphSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { format, rootEntity, filePath, depth, product_id, pathGlob, entityTypes, relationshipTypes, maxEntities } =
+      req.body as z.infer<typeof ExportGraphSchema>;
+    const storage = await getGraphStorage();
+    const root = rootEntity ? await resolveEntity(storage, rootEntity, { filePath, product_id }) : undefined;
+
+    const graphExport = createGraphExport(storage, {
+      format,
+      rootEntityId: root?.id,
+      depth,
+      product_id,
+      pathGlob,
+      rootDir: getPathGuard().roots[0],
+      entityTypes,
+      relationshipTypes,
+      maxEntities,
+    });
+
+    res.setHeader("Content-Type", `${graphExport.contentType}; charset=utf-8`);
+    res.setHeader("Content-Disposition", `attachment; filename="code-graph.${graphExport.extension}"`);
+    await pipeline(Readable.from(graphExport.chunks), res);
+  }),
+);
+
 /**
  * GET /api/graph/stats
  * Get graph statistics
@@ -167,6 +220,7 @@ router.get(
  */
 router.post(
   "/reset",
+  requireScope("admin"),
   asyncHandler(async (_req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("reset_graph", {}, requestId);
@@ -1,29 +1,65 @@
 /**
  * Indexing Routes
- * Endpoints for codebase indexing operations
+ * Endpoints for codebase indexing operations. Indexing runs as a background job: these routes
+ * answer 202 with the job's URL under /api/jobs.
  */
 
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
-import { asyncHandler } from "../middleware/error.js";
+import { requireScope } from "../middleware/auth.js";
+import { asyncHandler, HttpError } from "../middleware/error.js";
+import { guardBodyPaths } from "../middleware/path-guard.js";
 import { validateBody } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
 
 const router = Router();
 
+/**
+ * Start an indexing tool as a background job and answer 202 with its status URL
+ */
+async function startIndexJob(toolName: string, req: Request, res: Response) {
+  const requestId = res.locals.requestId;
+  const result = await executeTool(toolName, { ...req.body, background: true }, requestId);
+  const parsed = parseToolResult(result) as { success?: boolean; jobId?: string; error?: string };
+
+  if (!parsed.jobId) {
+    throw new HttpError(500, parsed.error ?? `${toolName} did not start a job`, "JOB_START_FAILED");
+  }
+
+  const statusUrl = `/api/jobs/${parsed.jobId}`;
+  res
+    .status(202)
+    .location(statusUrl)
+    .json({
+      success: true,
+      data: { ...parsed, statusUrl, cancelUrl: `${statusUrl}/cancel` },
+      meta: { requestId },
+    });
+}
+
 // Schemas
 const IndexSchema = z.object({
   directory: z.string().optional().describe("Directory to index"),
   incremental: z.boolean().optional().default(false).describe("Perform incremental indexing"),
   reset: z.boolean().optional().default(false).describe("Clear existing graph before indexing"),
   excludePatterns: z.array(z.string()).optional().default([]),
+  ignoreFiles: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Honor .gitignore, .git/info/exclude and .codegraphignore"),
   fullScan: z.boolean().optional().default(false),
 });
 
 const CleanIndexSchema = z.object({
   directory: z.string().optional().describe("Directory to index after reset"),
   excludePatterns: z.array(z.string()).optional().default([]),
+  ignoreFiles: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Honor .gitignore, .git/info/exclude and .codegraphignore"),
   fullScan: z.boolean().optional().default(false),
 });
 
@@ -34,7 +70,7 @@ const CleanIndexSchema = z.object({
  * @swagger
  * /api/index:
  *   post:
- *     summary: Index a codebase
+ *     summary: Index a codebase (background job)
  *     tags: [Indexing]
  *     requestBody:
  *       required: false
@@ -56,12 +92,15 @@ const CleanIndexSchema = z.object({
  *                 type: array
  *                 items:
  *                   type: string
+ *               ignoreFiles:
+ *                 type: boolean
+ *                 default: true
  *               fullScan:
  *                 type: boolean
  *                 default: false
  *     responses:
- *       200:
- *         description: Indexing completed
+ *       202:
+ *         description: Indexing job started; poll the Location header (/api/jobs/{id}) for progress
  *       400:
  *         description: Validation error
  *       500:
@@ -69,18 +108,10 @@ const CleanIndexSchema = z.object({
  */
 router.post(
   "/",
+  requireScope("index"),
   validateBody(IndexSchema),
-  asyncHandler(async (req: Request, res: Response) => {
-    const requestId = res.locals.requestId;
-    const result = await executeTool("index", req.body, requestId);
-    const parsed = parseToolResult(result);
-
-    res.json({
-      success: true,
-      data: parsed,
-      meta: { requestId },
-    });
-  }),
+  guardBodyPaths("directory"),
+  asyncHandler((req: Request, res: Response) => startIndexJob("index", req, res)),
 );
 
 /**
@@ -105,26 +136,21 @@ router.post(
  *                 type: array
  *                 items:
  *                   type: string
+ *               ignoreFiles:
+ *                 type: boolean
+ *                 default: true
  *               fullScan:
  *                 type: boolean
  *     responses:
- *       200:
- *         description: Clean indexing completed
+ *       202:
+ *         description: Clean indexing job started; poll the Location header (/api/jobs/{id}) for progress
  */
 router.post(
   "/clean",
+  requireScope("admin"),
   validateBody(CleanIndexSchema),
-  asyncHandler(async (req: Request, res: Response) => {
-    const requestId = res.locals.requestId;
-    const result = await executeTool("clean_index", req.body, requestId);
-    const parsed = parseToolResult(result);
-
-    res.json({
-      success: true,
-      data: parsed,
-      meta: { requestId },
-    });
-  }),
+  guardBodyPaths("directory"),
+  asyncHandler((req: Request, res: Response) => startIndexJob("clean_index", req, res)),
 );
 
 export default router;
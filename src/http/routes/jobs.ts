@@ -0,0 +1,149 @@
+/**
+ * Job Routes
+ * Status and cancellation of background indexing jobs
+ */
+
+import type { Request, Response } from "express";
+import { Router } from "express";
+import { z } from "zod";
+import { JOB_STATUSES } from "../../types/jobs.js";
+import { requireScope } from "../middleware/auth.js";
+import { asyncHandler } from "../middleware/error.js";
+import { validateQuery } from "../middleware/validation.js";
+import { executeTool, parseToolResult } from "../utils/tool-executor.js";
+
+const router = Router();
+
+// Schemas
+const ListJobsSchema = z.object({
+  status: z.enum(JOB_STATUSES).optional().describe("Only jobs with this status"),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20).describe("Maximum jobs to list"),
+});
+
+/**
+ * Send a job tool result, answering 404 when the job does not exist
+ */
+function sendJobResult(res: Response, jobId: string, parsed: any) {
+  const requestId = res.locals.requestId;
+  if (parsed?.success === false && String(parsed.error ?? "").startsWith("Job not found")) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        message: `Job not found: ${jobId}`,
+        code: "JOB_NOT_FOUND",
+      },
+      meta: { requestId },
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: parsed,
+    meta: { requestId },
+  });
+}
+
+/**
+ * GET /api/jobs
+ * List recent jobs
+ *
+ * @swagger
+ * /api/jobs:
+ *   get:
+ *     summary: List recent indexing jobs
+ *     tags: [Indexing]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, running, completed, failed, cancelled]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Jobs, newest first
+ */
+router.get(
+  "/",
+  validateQuery(ListJobsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const result = await executeTool("get_job_status", req.query, requestId);
+    const parsed = parseToolResult(result);
+
+    res.json({
+      success: true,
+      data: parsed,
+      meta: { requestId },
+    });
+  }),
+);
+
+/**
+ * GET /api/jobs/:id
+ * Get a job's status, progress and result
+ *
+ * @swagger
+ * /api/jobs/{id}:
+ *   get:
+ *     summary: Get an indexing job's status, progress and result
+ *     tags: [Indexing]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job details
+ *       404:
+ *         description: Job not found
+ */
+router.get(
+  "/:id",
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const jobId = req.params.id ?? "";
+    const result = await executeTool("get_job_status", { jobId }, requestId);
+    return sendJobResult(res, jobId, parseToolResult(result));
+  }),
+);
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a queued or running job
+ *
+ * @swagger
+ * /api/jobs/{id}/cancel:
+ *   post:
+ *     summary: Cancel a queued or running indexing job
+ *     tags: [Indexing]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation requested (a running job stops after its current batch)
+ *       404:
+ *         description: Job not found
+ */
+router.post(
+  "/:id/cancel",
+  requireScope("index"),
+  asyncHandler(async (req: Request, res: Response) => {
+    const requestId = res.locals.requestId;
+    const jobId = req.params.id ?? "";
+    const result = await executeTool("cancel_job", { jobId }, requestId);
+    return sendJobResult(res, jobId, parseToolResult(result));
+  }),
+);
+
+export default router;
@@ -6,7 +6,9 @@
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
+import { requireScope } from "../middleware/auth.js";
 import { asyncHandler } from "../middleware/error.js";
+import { guardBodyPaths } from "../middleware/path-guard.js";
 import { validateBody } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
 
@@ -25,7 +27,9 @@ const LernaProjectGraphSchema = z.object({
  */
 router.post(
   "/graph",
+  requireScope("index"),
   validateBody(LernaProjectGraphSchema),
+  guardBodyPaths("directory"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const result = await executeTool("lerna_project_graph", req.body, requestId);
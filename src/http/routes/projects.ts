@@ -8,7 +8,9 @@
 import type { Request, Response } from "express";
 import { Router } from "express";
 import { z } from "zod";
+import { requireScope } from "../middleware/auth.js";
 import { asyncHandler } from "../middleware/error.js";
+import { guardBodyPaths } from "../middleware/path-guard.js";
 import { validateBody, validateQuery } from "../middleware/validation.js";
 import { executeTool, parseToolResult } from "../utils/tool-executor.js";
 
@@ -106,6 +108,7 @@ const CrossRepoSearchSchema = z.object({
  */
 router.post(
   "/",
+  requireScope("index"),
   validateBody(CreateProjectSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
@@ -182,6 +185,7 @@ router.get(
  */
 router.patch(
   "/:id",
+  requireScope("index"),
   validateBody(UpdateProjectSchema),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
@@ -215,6 +219,7 @@ router.patch(
  */
 router.delete(
   "/:id",
+  requireScope("admin"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const { id } = req.params;
@@ -279,7 +284,9 @@ router.get(
  */
 router.post(
   "/:id/repositories",
+  requireScope("index"),
   validateBody(AddRepositorySchema),
+  guardBodyPaths("repository_path"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const { id } = req.params;
@@ -334,6 +341,7 @@ router.get(
  */
 router.delete(
   "/:projectId/repositories/:repositoryId",
+  requireScope("admin"),
   asyncHandler(async (req: Request, res: Response) => {
     const requestId = res.locals.requestId;
     const { repositoryId } = req.params;
@@ -13,20 +13,30 @@
  *   CORS_ORIGINS      - Allowed CORS origins, comma-separated (default: *)
  *   NODE_ENV          - Environment: development, production, test
  *   MCP_SERVER_DIR    - Directory to index (required)
+ *   MCP_ALLOWED_ROOTS - Further directories requests may name, separated like PATH
+ *   API_ADMIN_TOKEN   - Admin bearer token, used to create the first API keys
+ *   API_AUTH_DISABLED - Set to "true" to turn authentication off (local development only)
  */
 
 import type { Express } from "express";
 import express from "express";
 import swaggerUi from "swagger-ui-express";
+import { getConfig } from "../config/yaml-config.js";
+import { configurePathGuard } from "../core/path-guard.js";
+import { ApiKeyStore } from "../storage/api-key-store.js";
+import { getSQLiteManager } from "../storage/sqlite-manager.js";
 import { logger } from "../utils/logger.js";
+import { authenticate, requireScope } from "./middleware/auth.js";
 import { corsMiddleware } from "./middleware/cors.js";
 import { errorHandler, notFoundHandler } from "./middleware/error.js";
 import { requestLogger } from "./middleware/request-logger.js";
 import agentsRoutes from "./routes/agents.js";
 import analysisRoutes from "./routes/analysis.js";
+import { createAuthRoutes } from "./routes/auth.js";
 import graphRoutes from "./routes/graph.js";
 // Import route modules
 import indexRoutes from "./routes/index.js";
+import jobsRoutes from "./routes/jobs.js";
 import lernaRoutes from "./routes/lerna.js";
 import projectsRoutes from "./routes/projects.js";
 import semanticRoutes from "./routes/semantic.js";
@@ -35,7 +45,7 @@ import { swaggerSpec, swaggerUiOptions } from "./swagger.js";
 /**
  * Create and configure Express application
  */
-function createApp(): Express {
+function createApp(apiKeyStore: ApiKeyStore = new ApiKeyStore(getSQLiteManager())): Express {
   const app = express();
 
   // ===== Middleware =====
@@ -88,7 +98,13 @@ function createApp(): Express {
           "DELETE /api/projects/:projectId/repositories/:repositoryId",
           "POST   /api/projects/:id/search",
         ],
-        indexing: ["POST /api/index", "POST /api/index/clean"],
+        indexing: [
+          "POST /api/index",
+          "POST /api/index/clean",
+          "GET  /api/jobs",
+          "GET  /api/jobs/:id",
+          "POST /api/jobs/:id/cancel",
+        ],
         semantic: [
           "POST /api/semantic/search",
           "POST /api/semantic/similar",
@@ -101,6 +117,9 @@ function createApp(): Express {
           "POST /api/analysis/jscpd-clones",
           "POST /api/analysis/refactoring",
           "POST /api/analysis/hotspots",
+          "POST /api/analysis/git-history",
+          "POST /api/analysis/cycles",
+          "POST /api/analysis/diff-impact",
         ],
         graph: [
           "POST /api/graph/entities/list",
@@ -119,12 +138,19 @@ function createApp(): Express {
           "POST /api/agents/bus/clear",
         ],
         lerna: ["POST /api/lerna/graph"],
+        auth: ["GET    /api/auth/me", "POST   /api/auth/keys", "GET    /api/auth/keys", "DELETE /api/auth/keys/:id"],
       },
     });
   });
 
+  // ===== Authentication =====
+  // Every API route needs at least the read scope; routes that change data require more
+  app.use("/api", authenticate(apiKeyStore), requireScope("read"));
+
   // ===== API Routes =====
+  app.use("/api/auth", createAuthRoutes(apiKeyStore));
   app.use("/api/index", indexRoutes);
+  app.use("/api/jobs", jobsRoutes);
   app.use("/api/semantic", semanticRoutes);
   app.use("/api/analysis", analysisRoutes);
   app.use("/api/graph", graphRoutes);
@@ -156,6 +182,9 @@ async function startServer() {
     process.exit(1);
   }
 
+  // Request paths must be inside the served directory or a configured allowed root
+  configurePathGuard([process.env.MCP_SERVER_DIR, ...(getConfig().mcp.security?.allowedRoots ?? [])]);
+
   // Create Express app
   const app = createApp();
 
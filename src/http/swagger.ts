@@ -70,8 +70,25 @@ const swaggerDefinition = {
       name: "Lerna",
       description: "Lerna workspace operations",
     },
+    {
+      name: "Auth",
+      description: "API key management",
+    },
   ],
+  security: [{ BearerAuth: [] }, { ApiKeyAuth: [] }],
   components: {
+    securitySchemes: {
+      BearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "API key or API_ADMIN_TOKEN. Scopes: read < index < admin",
+      },
+      ApiKeyAuth: {
+        type: "apiKey",
+        in: "header",
+        name: "X-API-Key",
+      },
+    },
     schemas: {
       Error: {
         type: "object",
@@ -132,6 +149,26 @@ const swaggerDefinition = {
       },
     },
     responses: {
+      Unauthorized: {
+        description: "Unauthorized - Missing, invalid, expired or revoked API key",
+        content: {
+          "application/json": {
+            schema: {
+              $ref: "#/components/schemas/Error",
+            },
+          },
+        },
+      },
+      Forbidden: {
+        description: "Forbidden - API key lacks the required scope",
+        content: {
+          "application/json": {
+            schema: {
+              $ref: "#/components/schemas/Error",
+            },
+          },
+        },
+      },
       BadRequest: {
         description: "Bad Request - Validation error",
         content: {
@@ -41,4 +41,7 @@ export interface ToolExecutionResult {
     type: string;
     text: string;
   }>;
+  /** The payload as an object matching the tool's output schema (absent for errors) */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
 }
@@ -45,6 +45,9 @@ export async function executeTool(toolName: string, args: unknown, requestId: st
  * Parse tool execution result into JSON
  */
 export function parseToolResult(result: ToolExecutionResult): unknown {
+  if (result.structuredContent) {
+    return result.structuredContent;
+  }
   try {
     const textContent = result.content[0]?.text;
     if (!textContent) {
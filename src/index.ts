@@ -32,49 +32,118 @@ function createSafeEnvironment() {
 // Initialize safe environment BEFORE any imports that might use embedding generator
 createSafeEnvironment();
 
-import { readFileSync } from "node:fs";
-import { homedir } from "node:os";
-import { dirname, isAbsolute, join, normalize, relative, resolve } from "node:path";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { dirname, join, normalize, relative, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 // Consolidated MCP SDK imports
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { CallToolRequestSchema, isInitializeRequest, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolRequestSchema, type Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { Request, Response } from "express";
 // Schema and Node.js built-ins
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 // Import our multi-agent components
 import { ConductorOrchestrator } from "./agents/conductor-orchestrator.js";
+import type { DoraAgent as DoraAgentType } from "./agents/dora-agent.js";
 // TASK-001: Import new YAML configuration system
 import { ConfigLoader, initializeConfig, validateConfig } from "./config/yaml-config.js";
+import { measureCodebase } from "./core/codebase-size.js";
+import { resolveEntity, resolveEntityCandidates } from "./core/entity-resolver.js";
+import { FileWatcher } from "./core/file-watcher.js";
+import { formatJobProgress, isJobFinished, type JobContext, JobManager } from "./core/job-manager.js";
 import { knowledgeBus } from "./core/knowledge-bus.js";
+import { McpPromptRegistry } from "./core/mcp-prompts.js";
+import { McpResourceProvider } from "./core/mcp-resources.js";
+import { McpToolRegistry, scopeToolArguments } from "./core/mcp-tool-registry.js";
+import { configurePathGuard, expandHome, getPathGuard } from "./core/path-guard.js";
 import { ProjectManager } from "./core/project-manager.js";
 import { resourceManager } from "./core/resource-manager.js";
 import { initializeToolExecutor } from "./core/tool-executor.js";
-import { errorHandler, notFoundHandler } from "./http/middleware/error.js";
+import { describeToolOutput, toolResult } from "./core/tool-outputs.js";
+import { McpSessionManager } from "./http/mcp-sessions.js";
+import { authenticate, requireScope } from "./http/middleware/auth.js";
+import { errorHandler, HttpError, notFoundHandler } from "./http/middleware/error.js";
 import { requestLogger } from "./http/middleware/request-logger.js";
 import agentsRoutes from "./http/routes/agents.js";
 import analysisRoutes from "./http/routes/analysis.js";
+import { createAuthRoutes } from "./http/routes/auth.js";
 import graphRoutes from "./http/routes/graph.js";
 // HTTP API routes for SSE mode integration
 import indexRoutes from "./http/routes/index.js";
+import jobsRoutes from "./http/routes/jobs.js";
 import lernaRoutes from "./http/routes/lerna.js";
 import projectsRoutes from "./http/routes/projects.js";
 import semanticRoutes from "./http/routes/semantic.js";
+import { MEASURED_ENTITY_TYPES } from "./parsers/code-metrics.js";
+import { ApiKeyStore } from "./storage/api-key-store.js";
+import { CloneRunStore } from "./storage/clone-run-store.js";
+import { GitHistoryStore } from "./storage/git-history-store.js";
 import { getGraphStorage, initializeGraphStorage } from "./storage/graph-storage-factory.js";
+import { JobStore } from "./storage/job-store.js";
 import { getSQLiteManager } from "./storage/sqlite-manager.js";
 import { collectAgentMetrics } from "./tools/agent-metrics.js";
+import { cloneRunScope, getCloneTrends, recordCloneRun, renderCloneReport } from "./tools/clone-report.js";
+import { DEFAULT_SMELL_LIMIT, DEFAULT_SMELL_THRESHOLDS, detectCodeSmells } from "./tools/code-smells.js";
+import {
+  DEFAULT_EXPLORATION_DEPTH,
+  DEFAULT_MAX_SEEDS,
+  DEFAULT_SECTION_LIMIT,
+  MAX_EXPLORATION_DEPTH,
+} from "./tools/codebase-exploration.js";
+import { DEFAULT_CYCLE_LIMIT, DEFAULT_CYCLE_RELATIONSHIP_TYPES, detectCycles } from "./tools/cycle-detection.js";
+import { DEFAULT_DEAD_CODE_LIMIT, DEFAULT_ENTRY_FILES, DEFAULT_ENTRY_POINTS, findDeadCode } from "./tools/dead-code.js";
+import {
+  analyzeDiffImpact,
+  DEFAULT_IMPACT_DEPTH,
+  DEFAULT_IMPACT_LIMIT,
+  MAX_IMPACT_DEPTH,
+  parseUnifiedDiff,
+  readGitDiff,
+} from "./tools/diff-impact.js";
+import {
+  DEFAULT_RELATED_SOURCES,
+  DEFAULT_SOURCE_TOKENS,
+  getEntitySource,
+  MAX_CONTEXT_LINES,
+  MAX_RELATED_SOURCES,
+  MAX_SOURCE_TOKENS,
+} from "./tools/entity-source.js";
 // Import graph query functions
+import { DEFAULT_MAX_COMMITS, ingestGitHistory } from "./tools/git-history.js";
+import { DEFAULT_EXPORT_DEPTH, DEFAULT_EXPORT_MAX_ENTITIES, exportGraphToString } from "./tools/graph-export.js";
 import { getGraphStats, queryGraphEntities } from "./tools/graph-query.js";
-import { runJscpdCloneDetection } from "./tools/jscpd.js";
+import { DEFAULT_MAX_GAP, DEFAULT_MIN_SIMILARITY, runJscpdCloneDetection } from "./tools/jscpd.js";
 import { ingestLernaGraph } from "./tools/lerna-graph-ingest.js";
 import { getLernaProjectGraph } from "./tools/lerna-project-graph.js";
+import {
+  DEFAULT_PATH_COUNT,
+  DEFAULT_PATH_DEPTH,
+  findPaths,
+  MAX_PATH_COUNT,
+  MAX_PATH_DEPTH,
+} from "./tools/path-finding.js";
+import { DEFAULT_MAX_UNRESOLVED, resolveCrossFileSymbols } from "./tools/symbol-resolution.js";
+import {
+  DEFAULT_TEST_DEPTH,
+  DEFAULT_TEST_LIMIT,
+  findTestsFor,
+  MAX_TEST_DEPTH,
+  mapTests,
+  TEST_EXCLUDE_PATTERNS,
+} from "./tools/test-mapping.js";
 import type { AgentTask } from "./types/agent.js";
 import { AgentType } from "./types/agent.js";
-import { AgentBusyError } from "./types/errors.js";
-import type { CloneGroup } from "./types/semantic.js";
+import { CLONE_REPORT_FORMATS } from "./types/clone-runs.js";
+import { CODE_SMELL_KINDS, SMELL_SEVERITIES } from "./types/code-smells.js";
+import { DEAD_CODE_CONFIDENCES } from "./types/dead-code.js";
+import type { EntityResolveOptions } from "./types/entity-resolution.js";
+import { AgentBusyError, EntityResolutionError, PathNotAllowedError } from "./types/errors.js";
+import type { ExplorationReport } from "./types/exploration.js";
+import { GRAPH_EXPORT_FORMATS } from "./types/graph-export.js";
+import { JOB_STATUSES } from "./types/jobs.js";
+import type { McpWorkspace, McpWorkspaceRequest, ToolCallContext } from "./types/mcp-session.js";
+import type { CloneGroup, CrossLangResult, SemanticResult, SimilarCode } from "./types/semantic.js";
 import type { Entity, Relationship } from "./types/storage.js";
 import { EntityType } from "./types/storage.js";
 import { createRequestId, logger } from "./utils/logger.js";
@@ -84,6 +153,7 @@ const args = process.argv.slice(2);
 let overrideConfigPath: string | undefined;
 let helpRequested = false;
 let versionRequested = false;
+let watchRequested = false;
 const positionalArgs: string[] = [];
 
 for (let i = 0; i < args.length; i++) {
@@ -93,7 +163,7 @@ for (let i = 0; i < args.length; i++) {
     const next = args[++i];
     if (!next) {
       console.error("Error: --config requires a path argument");
-      console.error("Usage: code-graph-rag-mcp [--config <path>] <directory>");
+      console.error("Usage: code-graph-rag-mcp [--config <path>] [--watch] <directory>");
       process.exit(1);
     }
     overrideConfigPath = next;
@@ -101,7 +171,7 @@ for (let i = 0; i < args.length; i++) {
     const value = arg.slice("--config=".length);
     if (!value) {
       console.error("Error: --config requires a non-empty path");
-      console.error("Usage: code-graph-rag-mcp [--config <path>] <directory>");
+      console.error("Usage: code-graph-rag-mcp [--config <path>] [--watch] <directory>");
       process.exit(1);
     }
     overrideConfigPath = value;
@@ -109,9 +179,11 @@ for (let i = 0; i < args.length; i++) {
     helpRequested = true;
   } else if (arg === "--version" || arg === "-v") {
     versionRequested = true;
+  } else if (arg === "--watch") {
+    watchRequested = true;
   } else if (arg.startsWith("-")) {
     console.error(`Unknown option: ${arg}`);
-    console.error("Usage: code-graph-rag-mcp [--config <path>] <directory>");
+    console.error("Usage: code-graph-rag-mcp [--config <path>] [--watch] <directory>");
     process.exit(1);
   } else {
     positionalArgs.push(arg);
@@ -126,12 +198,14 @@ Usage:
 
 Options:
   --config <path>   Use an alternate YAML configuration file
+  --watch           Watch the directory and re-index changed files continuously
   --help, -h        Show this help message and exit
   --version, -v     Print version information and exit
 
 Examples:
   code-graph-rag-mcp /path/to/project
   code-graph-rag-mcp --config config/production.yaml /repo
+  code-graph-rag-mcp --watch /path/to/project
   code-graph-rag-mcp --version
 `);
 }
@@ -248,17 +322,10 @@ if (versionRequested) {
 }
 
 if (positionalArgs.length < 1) {
-  console.error("Usage: code-graph-rag-mcp [--config <path>] <directory>");
+  console.error("Usage: code-graph-rag-mcp [--config <path>] [--watch] <directory>");
   process.exit(1);
 }
 
-function expandHome(filepath: string): string {
-  if (filepath.startsWith("~/") || filepath === "~") {
-    return join(homedir(), filepath.slice(1));
-  }
-  return filepath;
-}
-
 if (overrideConfigPath) {
   ConfigLoader.setOverridePath(overrideConfigPath);
 }
@@ -334,13 +401,19 @@ if (isDebugMode) {
   process.env.MCP_DEBUG_DISABLE_SEMANTIC = process.env.MCP_DEBUG_DISABLE_SEMANTIC ?? "1";
 }
 
-function normalizeInputPath(rawPath: string): string;
-function normalizeInputPath(rawPath?: string | null): string | undefined;
-function normalizeInputPath(rawPath?: string | null): string | undefined {
+function normalizeInputPath(rawPath: string, baseDir?: string): string;
+function normalizeInputPath(rawPath?: string | null, baseDir?: string): string | undefined;
+function normalizeInputPath(rawPath?: string | null, baseDir = directory): string | undefined {
   if (!rawPath) return undefined;
-  const expanded = expandHome(rawPath);
-  const target = isAbsolute(expanded) ? expanded : resolve(directory, expanded);
-  return normalize(target);
+  // Throws PathNotAllowedError outside the allowed roots
+  return getPathGuard().resolve(rawPath, baseDir);
+}
+
+/**
+ * Format a path read from storage; unlike client input it is not checked against the allowed roots
+ */
+function normalizeStoredPath(filePath: string, baseDir = directory): string {
+  return normalize(resolve(baseDir, filePath));
 }
 
 // TASK-001: Initialize YAML configuration system
@@ -356,6 +429,9 @@ if (!validation.valid) {
   process.exit(1);
 }
 
+// Paths clients name must be inside the server root or a configured allowed root
+configurePathGuard([directory, ...(config.mcp.security?.allowedRoots ?? [])]);
+
 // Initialize global SQLiteManager with database configuration
 console.log("[Main] Initializing global SQLiteManager with config:", config.database.path);
 const globalSQLiteManager = getSQLiteManager(config.database);
@@ -368,6 +444,11 @@ await initializeGraphStorage(globalSQLiteManager);
 // Initialize global ProjectManager
 console.log("[Main] Initializing global ProjectManager");
 const projectManager = new ProjectManager(globalSQLiteManager);
+const gitHistoryStore = new GitHistoryStore(globalSQLiteManager);
+const cloneRunStore = new CloneRunStore(globalSQLiteManager);
+// Background index jobs; jobs left running by a previous process are marked failed
+const jobManager = new JobManager(new JobStore(globalSQLiteManager));
+jobManager.attach();
 
 // Initialize logging system with config
 logger.systemEvent("MCP Server Starting", {
@@ -471,6 +552,13 @@ async function getDoraAgent(): Promise<any> {
       await agent.initialize();
       cond.register(agent);
     }
+    if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
+      const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
+      (agent as DoraAgentType).setSemanticSearch(async (query, limit) => {
+        const semanticAgent = await getSemanticAgent();
+        return withTimeout(semanticAgent.semanticSearch(query, limit), timeoutMs, "dora_semantic_search", "dora");
+      });
+    }
     doraAgentInstance = agent;
     return agent;
   })().finally(() => {
@@ -480,6 +568,62 @@ async function getDoraAgent(): Promise<any> {
   return doraAgentInitPromise;
 }
 
+// File watcher for continuous incremental re-indexing (--watch / indexer.watch.enabled)
+let fileWatcher: FileWatcher | null = null;
+
+function startFileWatcher(): FileWatcher {
+  const watchConfig = config.indexer.watch ?? {};
+  const repos = projectManager.getRepositoriesByPath(directory);
+  const product_id = repos.length === 1 ? repos[0]?.project_id : undefined;
+
+  const watcher = new FileWatcher(directory, {
+    debounceMs: watchConfig.debounceMs,
+    excludePatterns: watchConfig.excludePatterns,
+    onChanges: async (changes) => {
+      const requestId = createRequestId();
+      const dev = await getDevAgent();
+      const task: AgentTask = {
+        id: `watch-${Date.now()}`,
+        type: "index:changes",
+        priority: 7,
+        payload: { changes, product_id },
+        createdAt: Date.now(),
+      };
+      const result = await dev.process(task);
+      const changedPaths = changes.filter((change) => change.changeType !== "deleted").map((change) => change.filePath);
+      const symbolResolution = await runSymbolResolution(directory, product_id, requestId, changedPaths);
+      logger.info("WATCH", `Re-indexed ${changes.length} changed files`, { result, symbolResolution }, requestId);
+    },
+    onError: (error) => {
+      logger.error("WATCH", "File watcher error", { error: error.message }, undefined, error);
+    },
+  });
+
+  watcher.start();
+  logger.systemEvent("File Watcher Started", { directory, debounceMs: watchConfig.debounceMs, product_id });
+  return watcher;
+}
+
+/**
+ * Link placeholder relationship targets to indexed entities after (re)indexing
+ */
+async function runSymbolResolution(
+  rootDir: string,
+  product_id: string | undefined,
+  requestId: string,
+  filePaths?: string[],
+): Promise<Awaited<ReturnType<typeof resolveCrossFileSymbols>> | { error: string }> {
+  try {
+    const storage = await getGraphStorage(globalSQLiteManager);
+    const report = await resolveCrossFileSymbols(storage, { rootDir, product_id, filePaths, maxUnresolved: 20 });
+    knowledgeBus.publish("symbols:resolved", { ...report, unresolved: undefined }, "mcp-server");
+    return report;
+  } catch (error) {
+    logger.warn("SYMBOLS", "Cross-file symbol resolution failed", { error: (error as Error).message }, requestId);
+    return { error: (error as Error).message };
+  }
+}
+
 async function ensureSemanticsReady(minVectors = 1, timeoutMs = 15000): Promise<boolean> {
   if (process.env.MCP_DEBUG_DISABLE_SEMANTIC === "1") {
     return true;
@@ -496,157 +640,25 @@ async function ensureSemanticsReady(minVectors = 1, timeoutMs = 15000): Promise<
   return false;
 }
 
-function toPosixPath(p?: string): string {
-  return (p || "").replace(/\\/g, "/");
-}
-
-function escapeRegExp(value: string): string {
-  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
-async function resolveEntity(
+/**
+ * Resolve the entity a tool argument names, asking the client to choose when several match
+ * equally well; throws EntityResolutionError with the candidates otherwise
+ */
+function resolveToolEntity(
   storage: Awaited<ReturnType<typeof getGraphStorage>>,
   identifier: string,
-): Promise<Entity | null> {
-  const direct = await storage.getEntity(identifier);
-  if (direct) return direct;
-
-  const query = await storage.executeQuery({
-    type: "entity",
-    filters: { name: new RegExp(escapeRegExp(identifier), "i") },
-    limit: 5,
-  });
-  if (query.entities.length > 0) {
-    return query.entities[0]!;
-  }
-
-  const fallback = await storage.executeQuery({ type: "entity", limit: 1 });
-  return fallback.entities[0] ?? null;
-}
-
-async function resolveEntityWithHint(
-  storage: Awaited<ReturnType<typeof getGraphStorage>>,
-  name: string,
-  hintFilePath?: string,
-): Promise<Entity | null> {
-  const esc = (s: string) => escapeRegExp(s);
-  const resolvedHintPath = hintFilePath ? normalizeInputPath(hintFilePath) : undefined;
-
-  if (resolvedHintPath) {
-    const hintLower = toPosixPath(resolvedHintPath).toLowerCase();
-
-    const exact = await storage.executeQuery({
-      type: "entity",
-      filters: {
-        filePath: resolvedHintPath,
-        name: new RegExp(`^${esc(name)}$`, "i"),
-      },
-      limit: 5,
-    });
-    if (exact.entities.length > 0) {
-      exact.entities.sort((a, b) => (a.filePath?.length ?? 0) - (b.filePath?.length ?? 0));
-      return exact.entities[0]!;
-    }
-
-    const fuzzy = await storage.executeQuery({
-      type: "entity",
-      filters: { name: new RegExp(`^${esc(name)}$`, "i") },
-      limit: 30,
-    });
-
-    const badPaths = [
-      "/dist/",
-      "/build/",
-      "/out/",
-      "/.next/",
-      "/.nuxt/",
-      "/coverage/",
-      "/node_modules/",
-      "/tmp/",
-      "/temp/",
-      "/archives/",
-      "/archive/",
-      ".zip",
-      ".tar",
-      ".gz",
-      ".tgz",
-      ".rar",
-      ".7z",
-      ".xz",
-      ".bz2",
-      ".zst",
-    ];
-
-    const ranked = fuzzy.entities
-      .map((e) => {
-        const p = toPosixPath(e.filePath).toLowerCase();
-        let score = 0;
-        if (p === hintLower) score += 5;
-        else if (p.endsWith(hintLower)) score += 4;
-        else if (p.includes(hintLower)) score += 3;
-
-        if (badPaths.some((b) => p.includes(b))) score -= 2;
-        else score += 1;
-
-        return { e, score };
-      })
-      .sort((a, b) => b.score - a.score || (a.e.filePath?.length ?? 0) - (b.e.filePath?.length ?? 0));
-
-    const top = ranked[0];
-    if (top && top.score > 0) {
-      return top.e ?? null;
-    }
-  }
-
-  const query = await storage.executeQuery({
-    type: "entity",
-    filters: { name: new RegExp(esc(name), "i") },
-    limit: 20,
+  toolContext: ToolCallContext,
+  options: EntityResolveOptions = {},
+): Promise<Entity> {
+  return resolveEntity(storage, identifier, {
+    ...options,
+    filePath: options.filePath ? expandHome(options.filePath) : undefined,
+    choose: toolContext.chooseEntity,
   });
-  if (query.entities.length === 0) {
-    const fb = await storage.executeQuery({ type: "entity", limit: 1 });
-    return fb.entities[0] ?? null;
-  }
-
-  const badPaths = [
-    "/dist/",
-    "/build/",
-    "/out/",
-    "/.next/",
-    "/.nuxt/",
-    "/coverage/",
-    "/node_modules/",
-    "/tmp/",
-    "/temp/",
-    "/archives/",
-    "/archive/",
-    ".zip",
-    ".tar",
-    ".gz",
-    ".tgz",
-    ".rar",
-    ".7z",
-    ".xz",
-    ".bz2",
-    ".zst",
-  ];
-
-  const ranked = query.entities
-    .map((e) => {
-      const p = toPosixPath(e.filePath).toLowerCase();
-      let score = 0;
-      if (e.name?.toLowerCase() === name.toLowerCase()) score += 1;
-      if (badPaths.some((b) => p.includes(b))) score -= 2;
-      else score += 1;
-      return { e, score };
-    })
-    .sort((a, b) => b.score - a.score || (a.e.filePath?.length ?? 0) - (b.e.filePath?.length ?? 0));
-
-  return ranked[0]?.e ?? null;
 }
 
 function mapEntitySummary(entity: Entity) {
-  const normalizedPath = normalizeInputPath(entity.filePath) ?? entity.filePath;
+  const normalizedPath = normalizeStoredPath(entity.filePath);
   return {
     id: entity.id,
     name: entity.name,
@@ -702,55 +714,36 @@ const IndexToolSchema = z.object({
     .describe(
       "Product ID to associate indexed entities with. If not provided, will auto-detect from project_repositories table.",
     ),
-  excludePatterns: z.array(z.string()).describe("Patterns to exclude").optional().default([
-    // Standard ignore patterns for large codebases
-    "node_modules/**",
-    ".git/**",
-    "dist/**",
-    "build/**",
-    "out/**",
-    ".next/**",
-    ".nuxt/**",
-    "coverage/**",
-    ".nyc_output/**",
-    "__pycache__/**",
-    "*.pyc",
-    ".pytest_cache/**",
-    "venv/**",
-    "env/**",
-    ".venv/**",
-    ".env/**",
-    "vendor/**",
-    "target/**",
-    ".gradle/**",
-    ".idea/**",
-    ".vscode/**",
-    "**/test/**",
-    "**/tests/**",
-    "**/__tests__/**",
-    "**/.memory_bank/**",
-    "tmp/**",
-    "temp/**",
-    "**/tmp/**",
-    "**/temp/**",
-    "*.log",
-    "*.tmp",
-    "*.cache",
-    "**/*.md",
-    "*.zip",
-    "*.tar",
-    "*.tar.gz",
-    "*.tgz",
-    "*.gz",
-    "*.bz2",
-    "*.xz",
-    "*.7z",
-    "*.rar",
-    "*.zst",
-    ".DS_Store",
-    "Thumbs.db",
-  ]),
+  excludePatterns: z
+    .array(z.string())
+    .describe(
+      "Extra patterns to exclude (globs with ** or path substrings), on top of the built-in directories (node_modules, build, dist, tests, hidden directories, ...) and the ignore files",
+    )
+    .optional()
+    .default([]),
+  ignoreFiles: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Honor .gitignore files, .git/info/exclude and .codegraphignore (whose !patterns re-include paths)"),
   fullScan: z.boolean().optional().default(false),
+  gitHistory: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Ingest git history (churn, authors, last touched) after indexing"),
+  includeTests: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      "Index test files too (test/, tests/, __tests__, *.test.*, *_test.*), tag them by framework and link them to the code they exercise",
+    ),
+  background: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Return a job ID right away instead of waiting; poll get_job_status for progress"),
 });
 
 const ListEntitiesToolSchema = z.object({
@@ -806,6 +799,11 @@ const DetectCodeClonesSchema = z.object({
   minSimilarity: z.number().optional().default(0.8).describe("Minimum similarity for clones"),
   scope: z.string().optional().default("all").describe("Scope: all, file, or module"),
   product_id: z.string().optional().describe("Filter clone detection to specific product"),
+  persist: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Record the jscpd result as a clone run and report what is new since the previous run"),
 });
 
 const JscpdCloneDetectionSchema = z.object({
@@ -822,15 +820,48 @@ const JscpdCloneDetectionSchema = z.object({
     .describe("File extensions to include without dots (e.g. ['ts','js'])."),
   minLines: z.number().int().min(1).optional().describe("Minimum lines per clone block."),
   maxLines: z.number().int().min(1).optional().describe("Maximum lines per clone block."),
-  minTokens: z.number().int().min(1).optional().describe("Minimum tokens per clone (interpreted as lines)."),
+  minTokens: z.number().int().min(1).optional().describe("Minimum syntax tokens per clone."),
   ignoreCase: z.boolean().optional().describe("Lowercase tokens before comparison."),
+  normalize: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Compare identifiers and literals as placeholders so renamed copies (Type-2 clones) match."),
+  maxGap: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(DEFAULT_MAX_GAP)
+    .describe("Unmatched tokens allowed between matching runs of a gapped (Type-3) clone; 0 disables."),
+  minSimilarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .default(DEFAULT_MIN_SIMILARITY)
+    .describe("Minimum share of matching tokens for a gapped clone."),
+  gitignore: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Skip files excluded by .gitignore, .git/info/exclude and .codegraphignore."),
+  product_id: z
+    .string()
+    .optional()
+    .describe("Product the scan belongs to; its runs are compared and trended together whatever paths they scan."),
+  persist: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Record the result as a clone run and report what is new since the previous run of the same scope."),
 });
 
 const SuggestRefactoringSchema = z
   .object({
     filePath: z.string().describe("File to analyze for refactoring"),
     focusArea: z.string().optional().describe("Specific entity name to focus on"),
-    entityId: z.string().optional().describe("Exact entity ID to analyze"),
+    entityId: z.string().optional().describe("Entity ID or name to analyze (resolved within filePath)"),
     startLine: z.number().int().min(1).optional().describe("1-based start line for manual selection"),
     endLine: z.number().int().min(1).optional().describe("1-based end line (exclusive)"),
     product_id: z.string().optional().describe("Product context for refactoring suggestions"),
@@ -857,6 +888,306 @@ const AnalyzeHotspotsSchema = z.object({
   product_id: z.string().optional().describe("Filter hotspots to specific product"),
 });
 
+const IngestGitHistorySchema = z.object({
+  directory: z.string().optional().describe("Directory inside a git repository (defaults to server root)"),
+  maxCommits: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(DEFAULT_MAX_COMMITS)
+    .describe("Maximum number of commits to walk, newest first"),
+  since: z.string().optional().describe("Only consider commits after this date (any git --since value)"),
+  product_id: z.string().optional().describe("Product ID to associate churn data with"),
+});
+
+const ResolveSymbolsSchema = z.object({
+  directory: z
+    .string()
+    .optional()
+    .describe("Repository root used to locate tsconfig.json and go.mod files (defaults to server root)"),
+  product_id: z.string().optional().describe("Only resolve relationships of this product"),
+  maxUnresolved: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(DEFAULT_MAX_UNRESOLVED)
+    .describe("Maximum number of unresolved symbols to list"),
+});
+
+const ExploreCodebaseSchema = z
+  .object({
+    topic: z.string().optional().describe("Free-text topic to research, e.g. 'authentication' or 'index batching'"),
+    entityId: z.string().optional().describe("Entity ID or name to start from instead of a topic"),
+    filePath: z.string().optional().describe("Optional file path hint to disambiguate entityId"),
+    product_id: z.string().optional().describe("Restrict exploration to a specific product"),
+    depth: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_EXPLORATION_DEPTH)
+      .optional()
+      .default(DEFAULT_EXPLORATION_DEPTH)
+      .describe("Subgraph depth walked from every starting entity"),
+    maxSeeds: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(DEFAULT_MAX_SEEDS)
+      .describe("Maximum starting entities picked for a topic"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(DEFAULT_SECTION_LIMIT)
+      .describe("Maximum entries per report section"),
+  })
+  .refine((value) => Boolean(value.topic || value.entityId), { message: "Provide a topic or an entityId" });
+
+const DetectCyclesSchema = z.object({
+  relationshipTypes: z
+    .array(z.enum(["imports", "calls", "depends_on", "references", "inherits", "extends", "implements"]))
+    .optional()
+    .default(DEFAULT_CYCLE_RELATIONSHIP_TYPES as ["imports", "calls", "depends_on"])
+    .describe("Relationship types forming the dependency graph"),
+  granularity: z
+    .enum(["file", "entity"])
+    .optional()
+    .default("file")
+    .describe("Report cycles between files (import cycles) or between individual entities"),
+  directory: z.string().optional().describe("Only consider code under this directory"),
+  language: z.string().optional().describe("Only consider code in this language, e.g. typescript or python"),
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  minSize: z.number().int().min(2).optional().default(2).describe("Smallest number of nodes reported as a cycle"),
+  limit: z.number().int().positive().optional().default(DEFAULT_CYCLE_LIMIT).describe("Maximum cycles to return"),
+});
+
+const FindPathSchema = z.object({
+  from: z.string().describe("Entity ID or name where the path starts, e.g. an HTTP handler"),
+  fromFilePath: z.string().optional().describe("Optional file path hint to disambiguate `from`"),
+  to: z.string().describe("Entity ID or name the path should reach, e.g. a DB access function"),
+  toFilePath: z.string().optional().describe("Optional file path hint to disambiguate `to`"),
+  relationshipTypes: z
+    .array(z.string())
+    .optional()
+    .describe("Only follow these relationship types (e.g. calls, imports); all types when omitted"),
+  direction: z
+    .enum(["outgoing", "any"])
+    .optional()
+    .default("outgoing")
+    .describe("Follow relationships only forwards (A calls/imports ... B) or in both directions"),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PATH_DEPTH)
+    .optional()
+    .default(DEFAULT_PATH_DEPTH)
+    .describe("Maximum hops per path"),
+  k: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PATH_COUNT)
+    .optional()
+    .default(DEFAULT_PATH_COUNT)
+    .describe("Number of shortest paths to return"),
+  product_id: z.string().optional().describe("Only follow relationships of this product"),
+});
+
+const FindTestsForSchema = z
+  .object({
+    entityId: z.string().optional().describe("Entity ID or name to find covering tests for"),
+    filePath: z
+      .string()
+      .optional()
+      .describe("File path hint for `entityId`, or on its own a changed file whose entities are all covered"),
+    depth: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_TEST_DEPTH)
+      .optional()
+      .default(DEFAULT_TEST_DEPTH)
+      .describe("Caller/importer hops followed to include tests that exercise the code indirectly (0 = direct only)"),
+    product_id: z.string().optional().describe("Only consider code of this product"),
+    limit: z.number().int().positive().optional().default(DEFAULT_TEST_LIMIT).describe("Maximum tests to return"),
+  })
+  .refine((value) => value.entityId || value.filePath, { message: "Provide entityId or filePath" });
+
+const GetEntitySourceSchema = z.object({
+  entity: z.string().describe("Entity ID or name"),
+  filePath: z.string().optional().describe("Optional file path hint to disambiguate the entity"),
+  contextLines: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_CONTEXT_LINES)
+    .optional()
+    .default(0)
+    .describe("Lines of surrounding code to include before and after the entity"),
+  includeDocstring: z.boolean().optional().default(true).describe("Include the entity's doc comment or docstring"),
+  callers: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_RELATED_SOURCES)
+    .optional()
+    .default(DEFAULT_RELATED_SOURCES)
+    .describe("Callers to include, most frequent first, each shown around its call site"),
+  callees: z
+    .number()
+    .int()
+    .min(0)
+    .max(MAX_RELATED_SOURCES)
+    .optional()
+    .default(DEFAULT_RELATED_SOURCES)
+    .describe("Callees to include, most frequent first, each shown from the start of its definition"),
+  maxTokens: z
+    .number()
+    .int()
+    .min(100)
+    .max(MAX_SOURCE_TOKENS)
+    .optional()
+    .default(DEFAULT_SOURCE_TOKENS)
+    .describe("Approximate token budget for all returned code; lower-priority snippets are cut first"),
+  product_id: z.string().optional().describe("Only follow call relationships of this product"),
+});
+
+const ExportGraphSchema = z.object({
+  format: z.enum(GRAPH_EXPORT_FORMATS).describe("Output format: graphml, dot (Graphviz), mermaid, cypher or jsonl"),
+  rootEntity: z
+    .string()
+    .optional()
+    .describe("Entity ID or name whose neighbourhood is exported; the whole graph when omitted"),
+  filePath: z.string().optional().describe("Optional file path hint to disambiguate `rootEntity`"),
+  depth: z
+    .number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .default(DEFAULT_EXPORT_DEPTH)
+    .describe("Relationship hops followed from `rootEntity`"),
+  product_id: z.string().optional().describe("Only export entities and relationships of this product"),
+  pathGlob: z
+    .string()
+    .optional()
+    .describe("Only export entities in files matching this glob, relative to the workspace (e.g. src/api/**)"),
+  entityTypes: z.array(z.string()).optional().describe("Only export these entity types"),
+  relationshipTypes: z.array(z.string()).optional().describe("Only export these relationship types"),
+  maxEntities: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(DEFAULT_EXPORT_MAX_ENTITIES)
+    .describe("Stop after this many entities; the export is marked truncated"),
+});
+
+const GetCloneTrendsSchema = z.object({
+  product_id: z.string().optional().describe("Only trends of this product's clone runs"),
+  limit: z.number().int().min(1).max(500).optional().default(20).describe("Most recent runs per trend"),
+});
+
+const ExportCloneReportSchema = z.object({
+  format: z.enum(CLONE_REPORT_FORMATS).optional().default("sarif").describe("Report format: sarif, html or json"),
+  runId: z.string().optional().describe("Clone run to report; the latest run of the product or workspace when omitted"),
+  product_id: z.string().optional().describe("Report the latest run of this product"),
+  onlyNew: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Only report copies that are new since the previous run, so CI fails on new duplication only"),
+});
+
+const GetCodeMetricsSchema = z.object({
+  entityId: z.string().optional().describe("Entity ID or name of one function or method"),
+  filePath: z.string().optional().describe("Only functions in this file, or a hint to disambiguate `entityId`"),
+  product_id: z.string().optional().describe("Only functions of this product"),
+  minComplexity: z.number().int().min(1).optional().describe("Only functions with at least this cyclomatic complexity"),
+  limit: z.number().int().min(1).max(500).optional().default(20).describe("Maximum functions returned"),
+});
+
+const DetectCodeSmellsSchema = z.object({
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  directory: z.string().optional().describe("Only consider code under this directory"),
+  kinds: z.array(z.enum(CODE_SMELL_KINDS)).optional().describe("Smells to look for (default: all)"),
+  minSeverity: z.enum(SMELL_SEVERITIES).optional().default("low").describe("Drop smells below this severity"),
+  thresholds: z
+    .object({
+      godClassMembers: z.number().int().positive().optional(),
+      godClassCoupling: z.number().int().positive().optional(),
+      featureEnvyCalls: z.number().int().positive().optional(),
+      shotgunSurgeryDependents: z.number().int().positive().optional(),
+      shotgunSurgeryFiles: z.number().int().positive().optional(),
+      maxParameters: z.number().int().positive().optional(),
+      maxInheritanceDepth: z.number().int().positive().optional(),
+      instabilityGap: z.number().positive().max(1).optional(),
+    })
+    .optional()
+    .describe(`Override detection limits; defaults: ${JSON.stringify(DEFAULT_SMELL_THRESHOLDS)}`),
+  limit: z.number().int().positive().optional().default(DEFAULT_SMELL_LIMIT).describe("Maximum smells to return"),
+});
+
+const FindDeadCodeSchema = z.object({
+  product_id: z.string().optional().describe("Only consider code of this product"),
+  directory: z.string().optional().describe("Only report dead code under this directory"),
+  entryFiles: z
+    .array(z.string())
+    .optional()
+    .describe(
+      `Gitignore-style globs of entry files whose declarations and exports are live (default: ${DEFAULT_ENTRY_FILES.join(", ")})`,
+    ),
+  entryPoints: z
+    .array(z.string())
+    .optional()
+    .describe(`Additional entity IDs or names that are live (always: ${DEFAULT_ENTRY_POINTS.join(", ")})`),
+  includeTests: z.boolean().optional().default(true).describe("Treat test files as entry points"),
+  exportsAreUsed: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Treat every export as used, for libraries whose consumers are not indexed"),
+  minConfidence: z
+    .enum(DEAD_CODE_CONFIDENCES)
+    .optional()
+    .default("low")
+    .describe("Drop findings below this confidence"),
+  limit: z.number().int().positive().optional().default(DEFAULT_DEAD_CODE_LIMIT).describe("Maximum findings to return"),
+});
+
+const AnalyzeDiffImpactSchema = z
+  .object({
+    diff: z.string().optional().describe("Unified diff text (git diff or diff -u output)"),
+    base: z.string().optional().describe("Git ref to diff from when no diff text is given, e.g. main or HEAD~3"),
+    head: z.string().optional().describe("Git ref to diff to (defaults to the working tree)"),
+    directory: z
+      .string()
+      .optional()
+      .describe("Repository directory that diff paths are relative to (defaults to server root)"),
+    depth: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_IMPACT_DEPTH)
+      .optional()
+      .default(DEFAULT_IMPACT_DEPTH)
+      .describe("Caller/importer hops followed from each changed entity"),
+    product_id: z.string().optional().describe("Only consider code of this product"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .default(DEFAULT_IMPACT_LIMIT)
+      .describe("Maximum entities listed per risk group"),
+  })
+  .refine((value) => value.diff || value.base, { message: "Provide either diff or base" });
+
 const FindRelatedConceptsSchema = z.object({
   entityId: z.string().describe("Entity to find related concepts for"),
   limit: z.number().optional().default(10).describe("Maximum results to return"),
@@ -941,24 +1272,30 @@ const ListProductsSchema = z.object({
 const CleanIndexSchema = z.object({
   directory: z.string().describe("Directory to index after reset").optional(),
   excludePatterns: z.array(z.string()).describe("Patterns to exclude during indexing").optional().default([]),
+  ignoreFiles: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Honor .gitignore files, .git/info/exclude and .codegraphignore (whose !patterns re-include paths)"),
   fullScan: z.boolean().optional().default(false),
+  background: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe("Return a job ID right away instead of waiting; poll get_job_status for progress"),
 });
 
-const GetAgentMetricsSchema = z.object({});
+const GetJobStatusSchema = z.object({
+  jobId: z.string().optional().describe("Job ID returned by index or clean_index; omit to list recent jobs"),
+  status: z.enum(JOB_STATUSES).optional().describe("When listing, only jobs with this status"),
+  limit: z.number().int().positive().max(100).optional().default(20).describe("Maximum jobs to list"),
+});
 
-// Create MCP server
-const server = new Server(
-  {
-    name: versionInfo.name,
-    version: versionInfo.version,
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
-    },
-  },
-);
+const CancelJobSchema = z.object({
+  jobId: z.string().describe("Job ID to cancel"),
+});
+
+const GetAgentMetricsSchema = z.object({});
 
 // Helper: enforce operation timeouts per SYSTEM_HANG_RECOVERY_PLAN
 async function withTimeout<T>(promise: Promise<T>, ms: number, label: string, requestId: string): Promise<T> {
@@ -979,517 +1316,794 @@ async function withTimeout<T>(promise: Promise<T>, ms: number, label: string, re
   }
 }
 
-// Handler for listing available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "index",
-        description: "Index a codebase using multi-agent parsing and analysis",
-        inputSchema: zodToJsonSchema(IndexToolSchema) as any,
-      },
-      {
-        name: "list_file_entities",
-        description:
-          "List parsed entities within a single file (imports, functions, classes, etc.); use as the entry point to discover stable entity identifiers before running relationship queries.",
-        inputSchema: zodToJsonSchema(ListEntitiesToolSchema) as any,
-      },
-      {
-        name: "list_entity_relationships",
-        description:
-          "List outgoing relationships for an entity (imports, references, containment). Provide either the entity id (preferred) or name+file path to inspect its dependencies.",
-        inputSchema: zodToJsonSchema(ListRelationshipsToolSchema) as any,
-      },
-      {
-        name: "query",
-        description: "Query the code graph using natural language or structured queries",
-        inputSchema: zodToJsonSchema(QueryToolSchema) as any,
-      },
-      {
-        name: "get_metrics",
-        description: "Get system metrics and agent performance statistics",
-        inputSchema: zodToJsonSchema(z.object({})) as any,
-      },
-      {
-        name: "get_version",
-        description: "Get MCP server version information and runtime details",
-        inputSchema: zodToJsonSchema(z.object({})) as any,
-      },
-      // New semantic tools - TASK-002
-      {
-        name: "semantic_search",
-        description:
-          "Search the codebase using natural language keywords or file/module paths. Useful for discovery before diving into structural graph queries.",
-        inputSchema: zodToJsonSchema(SemanticSearchSchema) as any,
-      },
-      {
-        name: "find_similar_code",
-        description: "Find code similar to a given snippet using semantic analysis",
-        inputSchema: zodToJsonSchema(FindSimilarCodeSchema) as any,
-      },
-      {
-        name: "analyze_code_impact",
-        description:
-          "Discover entities and files that depend on a given symbol. Use together with list_file_entities to obtain the precise entity id for impact analysis.",
-        inputSchema: zodToJsonSchema(AnalyzeCodeImpactSchema) as any,
-      },
-      {
-        name: "detect_code_clones",
-        description: "Find duplicate or similar code blocks across the codebase",
-        inputSchema: zodToJsonSchema(DetectCodeClonesSchema) as any,
-      },
-      {
-        name: "jscpd_detect_clones",
-        description: "Run JSCPD clone detection using a lightweight tokenizer",
-        inputSchema: zodToJsonSchema(JscpdCloneDetectionSchema) as any,
-      },
-      {
-        name: "suggest_refactoring",
-        description: "Get refactoring suggestions for improving code quality",
-        inputSchema: zodToJsonSchema(SuggestRefactoringSchema) as any,
-      },
-      {
-        name: "cross_language_search",
-        description: "Search across multiple programming languages",
-        inputSchema: zodToJsonSchema(CrossLanguageSearchSchema) as any,
-      },
-      {
-        name: "analyze_hotspots",
-        description: "Find code hotspots based on complexity, changes, or coupling",
-        inputSchema: zodToJsonSchema(AnalyzeHotspotsSchema) as any,
-      },
-      {
-        name: "find_related_concepts",
-        description: "Find conceptually related code to a given entity",
-        inputSchema: zodToJsonSchema(FindRelatedConceptsSchema) as any,
-      },
-      {
-        name: "get_graph",
-        description: "Get the code graph with all entities and relationships",
-        inputSchema: zodToJsonSchema(GetGraphSchema) as any,
-      },
-      {
-        name: "get_graph_stats",
-        description: "Get statistics about the code graph",
-        inputSchema: zodToJsonSchema(GetGraphStatsSchema) as any,
-      },
-      {
-        name: "lerna_project_graph",
-        description: "Generate a Lerna workspace dependency graph (if configured)",
-        inputSchema: zodToJsonSchema(GetLernaProjectGraphSchema) as any,
-      },
-      {
-        name: "reset_graph",
-        description: "Clear all graph data (entities, relationships, files)",
-        inputSchema: zodToJsonSchema(z.object({})) as any,
-      },
-      {
-        name: "clean_index",
-        description: "Reset graph and then perform a full index",
-        inputSchema: zodToJsonSchema(CleanIndexSchema) as any,
-      },
-      {
-        name: "get_graph_health",
-        description: "Health check for graph storage (totals + sample)",
-        inputSchema: zodToJsonSchema(GetGraphHealthSchema) as any,
-      },
-      {
-        name: "get_agent_metrics",
-        description: "Collect runtime telemetry for conductor and registered agents",
-        inputSchema: zodToJsonSchema(GetAgentMetricsSchema) as any,
-      },
-      {
-        name: "get_bus_stats",
-        description: "Inspect knowledge bus statistics (topics, entries, subscriptions)",
-        inputSchema: zodToJsonSchema(GetBusStatsSchema) as any,
-      },
-      {
-        name: "clear_bus_topic",
-        description: "Remove cached knowledge entries for a specific topic",
-        inputSchema: zodToJsonSchema(ClearBusTopicSchema) as any,
-      },
-      // Product Intelligence Management Tools
-      {
-        name: "create_product",
-        description: "Create a new product/project container for multi-repository management",
-        inputSchema: zodToJsonSchema(CreateProductSchema) as any,
-      },
-      {
-        name: "add_repository_to_product",
-        description: "Add a repository to an existing product for cross-repo analysis and indexing",
-        inputSchema: zodToJsonSchema(AddRepositoryToProductSchema) as any,
-      },
-      {
-        name: "list_products",
-        description: "List all products/projects with optional filtering",
-        inputSchema: zodToJsonSchema(ListProductsSchema) as any,
-      },
-    ],
-  };
-});
-
-async function executeToolCall(name: string, args: unknown, requestId: string, startTime: number) {
-  try {
-    switch (name) {
-      case "index": {
-        const {
-          directory: indexDir,
-          incremental,
-          excludePatterns,
-          reset,
-          fullScan,
-          product_id,
-        } = IndexToolSchema.parse(args);
-        const targetDir = indexDir || directory;
-
-        // Auto-detect product_id from project_repositories table if not provided
-        let resolvedProductId = product_id;
-        if (!resolvedProductId) {
-          const normalizedPath = normalizeInputPath(targetDir);
-          if (normalizedPath) {
-            const repos = projectManager.getRepositoriesByPath(normalizedPath);
-            if (repos.length === 1 && repos[0]) {
-              resolvedProductId = repos[0].project_id;
-              logger.info(
-                "INDEXING",
-                "Auto-detected product from repository path",
-                { product_id: resolvedProductId, path: normalizedPath },
-                requestId,
-              );
-            } else if (repos.length > 1) {
-              logger.warn(
-                "INDEXING",
-                "Repository belongs to multiple products - indexing without product_id",
-                { path: normalizedPath, product_count: repos.length },
-                requestId,
-              );
-            }
-          }
-        }
-
-        // Optional reset
-        if (reset) {
-          const storage = await getGraphStorage(globalSQLiteManager);
-          await storage.clear();
-          logger.systemEvent("Graph storage cleared before indexing", { directory: targetDir });
-        }
-
-        if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
-          await getSemanticAgent();
-        }
-
-        // Enhanced exclude patterns for large codebases
-        const enhancedExcludePatterns = [...excludePatterns];
-
-        // Check codebase size and add adaptive patterns
-        try {
-          const { execSync } = await import("node:child_process");
-          const fileCount = execSync(
-            `find "${targetDir}" -type f \\( -name "*.js" -o -name "*.ts" -o -name "*.py" -o -name "*.java" -o -name "*.cpp" -o -name "*.c" -o -name "*.go" -o -name "*.rs" \\) | wc -l`,
-            { encoding: "utf8" },
-          ).trim();
-          const numFiles = parseInt(fileCount, 10);
-
-          logger.info(
-            "INDEXING",
-            `Detected ${numFiles} source files in codebase`,
-            { directory: targetDir, fileCount: numFiles },
-            requestId,
-          );
-
-          // Adjust resource allocation based on codebase size
-          const { execSync: execSync2 } = await import("node:child_process");
-          const projectSizeBytes = execSync2(`du -sb "${targetDir}" | cut -f1`, { encoding: "utf8" }).trim();
-          const projectSizeMB = Math.floor(parseInt(projectSizeBytes, 10) / (1024 * 1024));
-          resourceManager.adjustForCodebaseSize(numFiles, projectSizeMB);
-
-          // For very large codebases (>2000 files), add more aggressive patterns
-          if (numFiles > 2000) {
-            logger.info(
-              "INDEXING",
-              "Large codebase detected, adding additional exclude patterns",
-              { fileCount: numFiles },
-              requestId,
-            );
-            enhancedExcludePatterns.push(
-              "**/test/**",
-              "**/tests/**",
-              "**/*_test.*",
-              "**/*_spec.*",
-              "**/*.test.*",
-              "**/*.spec.*",
-              "**/docs/**",
-              "**/doc/**",
-              "**/documentation/**",
-              "**/examples/**",
-              "**/example/**",
-              "**/demo/**",
-              "**/demos/**",
-              "**/migrations/**",
-              "**/scripts/**",
-              "**/tools/**",
-              "**/*.min.js",
-              "**/*.min.css",
-              "**/bundle.*",
-              "**/vendor.*",
-            );
-          }
-
-          // For extremely large codebases (>5000 files), enable incremental by default
-          if (numFiles > 5000 && !incremental) {
-            logger.info(
-              "INDEXING",
-              "Extremely large codebase detected, recommending incremental mode",
-              { fileCount: numFiles },
-              requestId,
-            );
-          }
+/**
+ * Definitions of every tool with its input and output schema, served by each MCP server instance
+ */
+function listToolDefinitions(): Tool[] {
+  return [
+    {
+      name: "index",
+      description:
+        "Index a codebase using multi-agent parsing and analysis. Runs as a background job: waits up to the tool timeout (sending progress notifications when requested), or returns the job ID at once with background: true",
+      inputSchema: zodToJsonSchema(IndexToolSchema) as any,
+      ...describeToolOutput("index"),
+    },
+    {
+      name: "list_file_entities",
+      description:
+        "List parsed entities within a single file (imports, functions, classes, etc.); use as the entry point to discover stable entity identifiers before running relationship queries.",
+      inputSchema: zodToJsonSchema(ListEntitiesToolSchema) as any,
+      ...describeToolOutput("list_file_entities"),
+    },
+    {
+      name: "list_entity_relationships",
+      description:
+        "List outgoing relationships for an entity (imports, references, containment). Provide either the entity id (preferred) or name+file path to inspect its dependencies.",
+      inputSchema: zodToJsonSchema(ListRelationshipsToolSchema) as any,
+      ...describeToolOutput("list_entity_relationships"),
+    },
+    {
+      name: "query",
+      description: "Query the code graph using natural language or structured queries",
+      inputSchema: zodToJsonSchema(QueryToolSchema) as any,
+      ...describeToolOutput("query"),
+    },
+    {
+      name: "get_metrics",
+      description: "Get system metrics and agent performance statistics",
+      inputSchema: zodToJsonSchema(z.object({})) as any,
+      ...describeToolOutput("get_metrics"),
+    },
+    {
+      name: "get_version",
+      description: "Get MCP server version information and runtime details",
+      inputSchema: zodToJsonSchema(z.object({})) as any,
+      ...describeToolOutput("get_version"),
+    },
+    // New semantic tools - TASK-002
+    {
+      name: "semantic_search",
+      description:
+        "Search the codebase using natural language keywords or file/module paths. Useful for discovery before diving into structural graph queries.",
+      inputSchema: zodToJsonSchema(SemanticSearchSchema) as any,
+      ...describeToolOutput("semantic_search"),
+    },
+    {
+      name: "find_similar_code",
+      description: "Find code similar to a given snippet using semantic analysis",
+      inputSchema: zodToJsonSchema(FindSimilarCodeSchema) as any,
+      ...describeToolOutput("find_similar_code"),
+    },
+    {
+      name: "analyze_code_impact",
+      description:
+        "Discover entities and files that depend on a given symbol. Accepts an entity id or a name; a name shared by several entities returns ranked candidates (or asks the client to choose) instead of guessing.",
+      inputSchema: zodToJsonSchema(AnalyzeCodeImpactSchema) as any,
+      ...describeToolOutput("analyze_code_impact"),
+    },
+    {
+      name: "detect_code_clones",
+      description: "Find duplicate or similar code blocks across the codebase",
+      inputSchema: zodToJsonSchema(DetectCodeClonesSchema) as any,
+      ...describeToolOutput("detect_code_clones"),
+    },
+    {
+      name: "jscpd_detect_clones",
+      description:
+        "Detect copy-paste clones over tree-sitter syntax tokens, including renamed (Type-2) and gapped (Type-3) copies, grouped into clone classes with the IDs of the entities involved",
+      inputSchema: zodToJsonSchema(JscpdCloneDetectionSchema) as any,
+      ...describeToolOutput("jscpd_detect_clones"),
+    },
+    {
+      name: "suggest_refactoring",
+      description: "Get refactoring suggestions for improving code quality",
+      inputSchema: zodToJsonSchema(SuggestRefactoringSchema) as any,
+      ...describeToolOutput("suggest_refactoring"),
+    },
+    {
+      name: "cross_language_search",
+      description: "Search across multiple programming languages",
+      inputSchema: zodToJsonSchema(CrossLanguageSearchSchema) as any,
+      ...describeToolOutput("cross_language_search"),
+    },
+    {
+      name: "analyze_hotspots",
+      description:
+        "Find code hotspots based on complexity (syntax-tree metrics of functions and methods), changes, or coupling",
+      inputSchema: zodToJsonSchema(AnalyzeHotspotsSchema) as any,
+      ...describeToolOutput("analyze_hotspots"),
+    },
+    {
+      name: "ingest_git_history",
+      description:
+        "Walk git history and store per-file and per-entity churn (commit counts, authors, last touched). Run after index; powers analyze_hotspots with metric=changes.",
+      inputSchema: zodToJsonSchema(IngestGitHistorySchema) as any,
+      ...describeToolOutput("ingest_git_history"),
+    },
+    {
+      name: "resolve_symbols",
+      description:
+        "Link cross-file relationship targets (imports, calls, inheritance) to their real entities using import data, tsconfig paths, Python packages, Go modules and Java packages; reports unresolved symbols. Runs automatically after index.",
+      inputSchema: zodToJsonSchema(ResolveSymbolsSchema) as any,
+      ...describeToolOutput("resolve_symbols"),
+    },
+    {
+      name: "explore_codebase",
+      description:
+        "Research a topic or entity: finds starting entities via semantic search, walks the surrounding graph and returns entry points, module boundaries, key entities and findings that cite entity IDs and file locations",
+      inputSchema: zodToJsonSchema(ExploreCodebaseSchema) as any,
+      ...describeToolOutput("explore_codebase"),
+    },
+    {
+      name: "detect_cycles",
+      description:
+        "Find dependency cycles (strongly connected components) over imports, calls or depends_on relationships, scoped by directory, language or product; cycles are ranked by size with the edges to cut",
+      inputSchema: zodToJsonSchema(DetectCyclesSchema) as any,
+      ...describeToolOutput("detect_cycles"),
+    },
+    {
+      name: "find_path",
+      description:
+        "Explain how entity A reaches entity B: returns the k shortest paths over the chosen relationship types, each hop with its relationship, file and line",
+      inputSchema: zodToJsonSchema(FindPathSchema) as any,
+      ...describeToolOutput("find_path"),
+    },
+    {
+      name: "analyze_diff_impact",
+      description:
+        "Assess a change set before merging: maps a unified diff or two git refs onto the changed entities and returns the entities, files and tests impacted through callers and importers, grouped by risk",
+      inputSchema: zodToJsonSchema(AnalyzeDiffImpactSchema) as any,
+      ...describeToolOutput("analyze_diff_impact"),
+    },
+    {
+      name: "find_tests_for",
+      description:
+        "Find the tests that exercise an entity or changed file, directly or through its callers and importers, with commands that run only those tests (requires indexing with includeTests)",
+      inputSchema: zodToJsonSchema(FindTestsForSchema) as any,
+      ...describeToolOutput("find_tests_for"),
+    },
+    {
+      name: "get_entity_source",
+      description:
+        "Get the source code of an entity, with optional surrounding lines, its docstring and snippets of its top callers and callees, within a token budget",
+      inputSchema: zodToJsonSchema(GetEntitySourceSchema) as any,
+      ...describeToolOutput("get_entity_source"),
+    },
+    {
+      name: "export_graph",
+      description:
+        "Export the code graph, or the neighbourhood of one entity, as GraphML, Graphviz DOT, a Mermaid flowchart, Cypher CREATE statements or JSON Lines, filtered by product, path glob and entity or relationship types",
+      inputSchema: zodToJsonSchema(ExportGraphSchema) as any,
+      ...describeToolOutput("export_graph"),
+    },
+    {
+      name: "get_code_metrics",
+      description:
+        "Complexity metrics computed from the syntax tree at index time for one function or method, or the most complex ones in a file or product: cyclomatic and cognitive complexity, nesting depth, parameter count, LOC/SLOC and Halstead metrics",
+      inputSchema: zodToJsonSchema(GetCodeMetricsSchema) as any,
+      ...describeToolOutput("get_code_metrics"),
+    },
+    {
+      name: "detect_code_smells",
+      description:
+        "Detect design smells from the code graph: god classes, feature envy, shotgun surgery candidates, long parameter lists, deep inheritance chains and dependencies on less stable files; each smell carries entity IDs, evidence metrics and a severity",
+      inputSchema: zodToJsonSchema(DetectCodeSmellsSchema) as any,
+      ...describeToolOutput("detect_code_smells"),
+    },
+    {
+      name: "find_dead_code",
+      description:
+        "Find functions, classes and exports that nothing reachable from the entry points (entry files, tests, decorator-registered route handlers, named entry functions) uses, with a confidence that accounts for dynamic dispatch, reflection and decorator registration, and dead code totals per directory",
+      inputSchema: zodToJsonSchema(FindDeadCodeSchema) as any,
+      ...describeToolOutput("find_dead_code"),
+    },
+    {
+      name: "get_clone_trends",
+      description:
+        "Duplication over time from recorded clone runs: clone counts, duplicated lines and percentage per run, and new and resolved clone classes, per product or scanned paths",
+      inputSchema: zodToJsonSchema(GetCloneTrendsSchema) as any,
+      ...describeToolOutput("get_clone_trends"),
+    },
+    {
+      name: "export_clone_report",
+      description:
+        "Export a recorded clone run as SARIF 2.1.0 (with baseline states for new copies), HTML or JSON; `onlyNew` keeps just the duplication introduced since the previous run",
+      inputSchema: zodToJsonSchema(ExportCloneReportSchema) as any,
+      ...describeToolOutput("export_clone_report"),
+    },
+    {
+      name: "find_related_concepts",
+      description: "Find conceptually related code to a given entity",
+      inputSchema: zodToJsonSchema(FindRelatedConceptsSchema) as any,
+      ...describeToolOutput("find_related_concepts"),
+    },
+    {
+      name: "get_graph",
+      description: "Get the code graph with all entities and relationships",
+      inputSchema: zodToJsonSchema(GetGraphSchema) as any,
+      ...describeToolOutput("get_graph"),
+    },
+    {
+      name: "get_graph_stats",
+      description:
+        "Get statistics about the code graph, including how many files each ignore rule skipped in the last index run",
+      inputSchema: zodToJsonSchema(GetGraphStatsSchema) as any,
+      ...describeToolOutput("get_graph_stats"),
+    },
+    {
+      name: "lerna_project_graph",
+      description: "Generate a Lerna workspace dependency graph (if configured)",
+      inputSchema: zodToJsonSchema(GetLernaProjectGraphSchema) as any,
+      ...describeToolOutput("lerna_project_graph"),
+    },
+    {
+      name: "reset_graph",
+      description: "Clear all graph data (entities, relationships, files)",
+      inputSchema: zodToJsonSchema(z.object({})) as any,
+      ...describeToolOutput("reset_graph"),
+    },
+    {
+      name: "clean_index",
+      description: "Reset graph and then perform a full index (as a background job, like index)",
+      inputSchema: zodToJsonSchema(CleanIndexSchema) as any,
+      ...describeToolOutput("clean_index"),
+    },
+    {
+      name: "get_job_status",
+      description:
+        "Get the status, progress (files processed/total, entities, relationships) and result of an index job, or list recent jobs",
+      inputSchema: zodToJsonSchema(GetJobStatusSchema) as any,
+      ...describeToolOutput("get_job_status"),
+    },
+    {
+      name: "cancel_job",
+      description: "Cancel a queued or running index job; a running job stops after its current batch",
+      inputSchema: zodToJsonSchema(CancelJobSchema) as any,
+      ...describeToolOutput("cancel_job"),
+    },
+    {
+      name: "get_graph_health",
+      description: "Health check for graph storage (totals + sample)",
+      inputSchema: zodToJsonSchema(GetGraphHealthSchema) as any,
+      ...describeToolOutput("get_graph_health"),
+    },
+    {
+      name: "get_agent_metrics",
+      description: "Collect runtime telemetry for conductor and registered agents",
+      inputSchema: zodToJsonSchema(GetAgentMetricsSchema) as any,
+      ...describeToolOutput("get_agent_metrics"),
+    },
+    {
+      name: "get_bus_stats",
+      description: "Inspect knowledge bus statistics (topics, entries, subscriptions)",
+      inputSchema: zodToJsonSchema(GetBusStatsSchema) as any,
+      ...describeToolOutput("get_bus_stats"),
+    },
+    {
+      name: "clear_bus_topic",
+      description: "Remove cached knowledge entries for a specific topic",
+      inputSchema: zodToJsonSchema(ClearBusTopicSchema) as any,
+      ...describeToolOutput("clear_bus_topic"),
+    },
+    // Product Intelligence Management Tools
+    {
+      name: "create_product",
+      description: "Create a new product/project container for multi-repository management",
+      inputSchema: zodToJsonSchema(CreateProductSchema) as any,
+      ...describeToolOutput("create_product"),
+    },
+    {
+      name: "add_repository_to_product",
+      description: "Add a repository to an existing product for cross-repo analysis and indexing",
+      inputSchema: zodToJsonSchema(AddRepositoryToProductSchema) as any,
+      ...describeToolOutput("add_repository_to_product"),
+    },
+    {
+      name: "list_products",
+      description: "List all products/projects with optional filtering",
+      inputSchema: zodToJsonSchema(ListProductsSchema) as any,
+      ...describeToolOutput("list_products"),
+    },
+  ];
+}
 
-          if (!fullScan) {
-            if (numFiles > 2000) {
-              logger.info(
-                "INDEXING",
-                "Large codebase detected, enabling batch processing",
-                { fileCount: numFiles },
-                requestId,
-              );
-              enhancedExcludePatterns.push("__batch_processing_enabled__"); // Special marker for batch processing
-            }
-          } else {
-            logger.info("INDEXING", "Full scan requested, batch mode disabled", { fileCount: numFiles }, requestId);
-          }
-        } catch (error) {
-          logger.warn(
-            "INDEXING",
-            "Could not detect codebase size, using default patterns",
-            { error: (error as Error).message },
-            requestId,
-          );
-        }
+/**
+ * Body of an `index` job: size detection, conductor indexing, then symbol resolution and the
+ * optional git history and test mapping passes. Returns the tool payload stored on the job.
+ */
+async function runIndexJob(
+  params: z.infer<typeof IndexToolSchema>,
+  targetDir: string,
+  resolvedProductId: string | undefined,
+  requestId: string,
+  job: JobContext,
+) {
+  const { incremental, excludePatterns, ignoreFiles, reset, fullScan, gitHistory, includeTests } = params;
+  job.reportProgress({ phase: "collecting" });
+
+  // Optional reset
+  if (reset) {
+    const storage = await getGraphStorage(globalSQLiteManager);
+    await storage.clear();
+    logger.systemEvent("Graph storage cleared before indexing", { directory: targetDir });
+  }
 
-        // Create indexing task with enhanced exclude patterns
-        const task: AgentTask = {
-          id: `index-${Date.now()}`,
-          type: "index",
-          priority: 8,
-          payload: {
-            directory: targetDir,
-            incremental,
-            excludePatterns: enhancedExcludePatterns,
-            product_id: resolvedProductId, // Pass product_id to indexer
-          },
-          createdAt: Date.now(),
-        };
+  if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
+    await getSemanticAgent();
+  }
 
-        // Process through conductor with mandatory delegation
-        const cond = getConductor();
-        await cond.initialize();
-        const configuredTimeout = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-        const timeoutMs = isDebugMode ? Math.max(configuredTimeout, 120000) : configuredTimeout;
-        const result = await withTimeout(cond.process(task), timeoutMs, "index", requestId);
+  // Enhanced exclude patterns for large codebases
+  const enhancedExcludePatterns = [...excludePatterns];
 
-        if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
-          await ensureSemanticsReady(1, 5000);
-        }
+  // Check codebase size and add adaptive patterns
+  try {
+    const { sourceFiles: numFiles, totalBytes } = measureCodebase(targetDir, {
+      excludePatterns,
+      ignoreFiles,
+      includeTests,
+    });
 
-        // Log indexing activity
-        logger.agentActivity(
-          "conductor",
-          "indexing completed",
-          {
-            directory: targetDir,
-            incremental,
-            excludePatterns,
-            entitiesFound: Array.isArray((result as any)?.entities) ? (result as any).entities.length : 0,
-          },
+    logger.info(
+      "INDEXING",
+      `Detected ${numFiles} source files in codebase`,
+      { directory: targetDir, fileCount: numFiles },
+      requestId,
+    );
+
+    // Adjust resource allocation based on codebase size
+    const projectSizeMB = Math.floor(totalBytes / (1024 * 1024));
+    resourceManager.adjustForCodebaseSize(numFiles, projectSizeMB);
+
+    // For very large codebases (>2000 files), add more aggressive patterns
+    if (numFiles > 2000) {
+      logger.info(
+        "INDEXING",
+        "Large codebase detected, adding additional exclude patterns",
+        { fileCount: numFiles },
+        requestId,
+      );
+      enhancedExcludePatterns.push(
+        "**/test/**",
+        "**/tests/**",
+        "**/*_test.*",
+        "**/*_spec.*",
+        "**/*.test.*",
+        "**/*.spec.*",
+        "**/docs/**",
+        "**/doc/**",
+        "**/documentation/**",
+        "**/examples/**",
+        "**/example/**",
+        "**/demo/**",
+        "**/demos/**",
+        "**/migrations/**",
+        "**/scripts/**",
+        "**/tools/**",
+        "**/*.min.js",
+        "**/*.min.css",
+        "**/bundle.*",
+        "**/vendor.*",
+      );
+    }
+
+    // For extremely large codebases (>5000 files), enable incremental by default
+    if (numFiles > 5000 && !incremental) {
+      logger.info(
+        "INDEXING",
+        "Extremely large codebase detected, recommending incremental mode",
+        { fileCount: numFiles },
+        requestId,
+      );
+    }
+
+    if (!fullScan) {
+      if (numFiles > 2000) {
+        logger.info(
+          "INDEXING",
+          "Large codebase detected, enabling batch processing",
+          { fileCount: numFiles },
           requestId,
         );
+        enhancedExcludePatterns.push("__batch_processing_enabled__"); // Special marker for batch processing
+      }
+    } else {
+      logger.info("INDEXING", "Full scan requested, batch mode disabled", { fileCount: numFiles }, requestId);
+    }
+  } catch (error) {
+    logger.warn(
+      "INDEXING",
+      "Could not detect codebase size, using default patterns",
+      { error: (error as Error).message },
+      requestId,
+    );
+  }
 
-        // Publish to knowledge bus
-        knowledgeBus.publish("index:completed", result, "mcp-server");
+  // Create indexing task with enhanced exclude patterns
+  const task: AgentTask = {
+    id: `index-${Date.now()}`,
+    type: "index",
+    priority: 8,
+    payload: {
+      directory: targetDir,
+      incremental,
+      excludePatterns: includeTests
+        ? enhancedExcludePatterns.filter((pattern) => !TEST_EXCLUDE_PATTERNS.includes(pattern))
+        : enhancedExcludePatterns,
+      ignoreFiles,
+      includeTests,
+      product_id: resolvedProductId, // Pass product_id to indexer
+      jobId: job.job.id,
+    },
+    createdAt: Date.now(),
+  };
 
-        const duration = Date.now() - startTime;
-        logger.mcpResponse(name, result, duration, requestId);
+  // Process through conductor with mandatory delegation
+  const cond = getConductor();
+  await cond.initialize();
+  const result = await cond.process(task);
+  job.throwIfCancelled();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  message: "Indexing completed",
-                  product_id: resolvedProductId,
-                  result,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
+  if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
+    await ensureSemanticsReady(1, 5000);
+  }
 
-      case "reset_graph": {
-        const storage = await getGraphStorage(globalSQLiteManager);
-        await storage.clear();
-        logger.systemEvent("Graph storage cleared via tool");
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify({ success: true, message: "Graph storage cleared" }, null, 2),
-            },
-          ],
-        };
+  // Log indexing activity
+  logger.agentActivity(
+    "conductor",
+    "indexing completed",
+    {
+      directory: targetDir,
+      incremental,
+      excludePatterns,
+      entitiesFound: Array.isArray((result as any)?.entities) ? (result as any).entities.length : 0,
+    },
+    requestId,
+  );
+
+  // Publish to knowledge bus
+  knowledgeBus.publish("index:completed", result, "mcp-server");
+
+  job.reportProgress({ phase: "resolving_symbols" });
+  const symbolResolution = await runSymbolResolution(normalizeInputPath(targetDir), resolvedProductId, requestId);
+
+  let gitHistorySummary: Awaited<ReturnType<typeof ingestGitHistory>> | { error: string } | undefined;
+  if (gitHistory) {
+    job.throwIfCancelled();
+    job.reportProgress({ phase: "git_history" });
+    try {
+      const storage = await getGraphStorage(globalSQLiteManager);
+      gitHistorySummary = await ingestGitHistory(storage, gitHistoryStore, normalizeInputPath(targetDir), {
+        product_id: resolvedProductId,
+      });
+      knowledgeBus.publish("git:history_ingested", gitHistorySummary, "mcp-server");
+    } catch (error) {
+      logger.warn("INDEXING", "Git history ingestion failed", { error: (error as Error).message }, requestId);
+      gitHistorySummary = { error: (error as Error).message };
+    }
+  }
+
+  let testMapping: Awaited<ReturnType<typeof mapTests>> | { error: string } | undefined;
+  if (includeTests) {
+    job.throwIfCancelled();
+    job.reportProgress({ phase: "mapping_tests" });
+    try {
+      const storage = await getGraphStorage(globalSQLiteManager);
+      testMapping = await mapTests(storage, {
+        rootDir: normalizeInputPath(targetDir),
+        product_id: resolvedProductId,
+      });
+      knowledgeBus.publish("tests:mapped", testMapping, "mcp-server");
+    } catch (error) {
+      logger.warn("INDEXING", "Test mapping failed", { error: (error as Error).message }, requestId);
+      testMapping = { error: (error as Error).message };
+    }
+  }
+
+  return {
+    success: true,
+    message: "Indexing completed",
+    product_id: resolvedProductId,
+    result,
+    symbolResolution,
+    gitHistory: gitHistorySummary,
+    testMapping,
+  };
+}
+
+/**
+ * Body of a `clean_index` job: clear the graph, then a full non-incremental index
+ */
+async function runCleanIndexJob(
+  params: z.infer<typeof CleanIndexSchema>,
+  targetDir: string,
+  requestId: string,
+  job: JobContext,
+) {
+  const { excludePatterns, ignoreFiles, fullScan } = params;
+  job.reportProgress({ phase: "collecting" });
+
+  // Reset graph first
+  const storage = await getGraphStorage(globalSQLiteManager);
+  await storage.clear();
+  logger.systemEvent("Graph storage cleared before clean index", { directory: targetDir });
+
+  if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
+    await getSemanticAgent();
+  }
+
+  // Perform index with reset semantics (already cleared), non-incremental
+  const enhancedExcludePatterns = [...(excludePatterns || [])];
+
+  // Adaptive patterns as in index tool
+  try {
+    const { sourceFiles: numFiles, totalBytes } = measureCodebase(targetDir, { excludePatterns, ignoreFiles });
+    logger.info(
+      "INDEXING",
+      `Detected ${numFiles} source files in codebase (clean_index)`,
+      { directory: targetDir, fileCount: numFiles },
+      requestId,
+    );
+    const projectSizeMB = Math.floor(totalBytes / (1024 * 1024));
+    resourceManager.adjustForCodebaseSize(numFiles, projectSizeMB);
+    if (numFiles > 2000) {
+      enhancedExcludePatterns.push(
+        "**/test/**",
+        "**/tests/**",
+        "**/*_test.*",
+        "**/*_spec.*",
+        "**/*.test.*",
+        "**/*.spec.*",
+        "**/docs/**",
+        "**/doc/**",
+        "**/documentation/**",
+        "**/examples/**",
+        "**/example/**",
+        "**/demo/**",
+        "**/demos/**",
+        "**/migrations/**",
+        "**/scripts/**",
+        "**/tools/**",
+        "**/*.min.js",
+        "**/*.min.css",
+        "**/bundle.*",
+        "**/vendor.*",
+      );
+    }
+
+    if (!fullScan) {
+      if (numFiles > 2000) {
+        logger.info(
+          "INDEXING",
+          "Large codebase detected, enabling batch processing (clean_index)",
+          { fileCount: numFiles },
+          requestId,
+        );
+        enhancedExcludePatterns.push("__batch_processing_enabled__");
       }
+    } else {
+      logger.info(
+        "INDEXING",
+        "Full scan requested, batch mode disabled (clean_index)",
+        { fileCount: numFiles },
+        requestId,
+      );
+    }
+  } catch (error) {
+    logger.warn(
+      "INDEXING",
+      "Could not detect codebase size (clean_index), using default patterns",
+      { error: (error as Error).message },
+      requestId,
+    );
+  }
 
-      case "clean_index": {
-        const { directory: indexDir, excludePatterns, fullScan } = CleanIndexSchema.parse(args);
-        const targetDir = indexDir || directory;
+  const task: AgentTask = {
+    id: `clean-index-${Date.now()}`,
+    type: "index",
+    priority: 8,
+    payload: {
+      directory: targetDir,
+      incremental: false,
+      excludePatterns: enhancedExcludePatterns,
+      ignoreFiles,
+      jobId: job.job.id,
+    },
+    createdAt: Date.now(),
+  };
 
-        // Reset graph first
-        const storage = await getGraphStorage(globalSQLiteManager);
-        await storage.clear();
-        logger.systemEvent("Graph storage cleared before clean index", { directory: targetDir });
+  const cond = getConductor();
+  await cond.initialize();
+  const result = await cond.process(task);
+  job.throwIfCancelled();
 
-        if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
-          await getSemanticAgent();
-        }
+  if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
+    await ensureSemanticsReady(1, 5000);
+  }
 
-        // Perform index with reset semantics (already cleared), non-incremental
-        const enhancedExcludePatterns = [...(excludePatterns || [])];
+  knowledgeBus.publish("index:completed", result, "mcp-server");
+  job.reportProgress({ phase: "resolving_symbols" });
+  const symbolResolution = await runSymbolResolution(normalizeInputPath(targetDir), undefined, requestId);
+  return {
+    success: true,
+    message: "Clean indexing completed",
+    result,
+    symbolResolution,
+  };
+}
 
-        // Adaptive patterns as in index tool
-        try {
-          const { execSync } = await import("node:child_process");
-          const fileCount = execSync(
-            `find "${targetDir}" -type f \\( -name "*.js" -o -name "*.ts" -o -name "*.py" -o -name "*.java" -o -name "*.cpp" -o -name "*.c" -o -name "*.go" -o -name "*.rs" \\) | wc -l`,
-            { encoding: "utf8" },
-          ).trim();
-          const numFiles = parseInt(fileCount, 10);
-          logger.info(
-            "INDEXING",
-            `Detected ${numFiles} source files in codebase (clean_index)`,
-            { directory: targetDir, fileCount: numFiles },
-            requestId,
-          );
-          const { execSync: execSync2 } = await import("node:child_process");
-          const projectSizeBytes = execSync2(`du -sb "${targetDir}" | cut -f1`, { encoding: "utf8" }).trim();
-          const projectSizeMB = Math.floor(parseInt(projectSizeBytes, 10) / (1024 * 1024));
-          resourceManager.adjustForCodebaseSize(numFiles, projectSizeMB);
-          if (numFiles > 2000) {
-            enhancedExcludePatterns.push(
-              "**/test/**",
-              "**/tests/**",
-              "**/*_test.*",
-              "**/*_spec.*",
-              "**/*.test.*",
-              "**/*.spec.*",
-              "**/docs/**",
-              "**/doc/**",
-              "**/documentation/**",
-              "**/examples/**",
-              "**/example/**",
-              "**/demo/**",
-              "**/demos/**",
-              "**/migrations/**",
-              "**/scripts/**",
-              "**/tools/**",
-              "**/*.min.js",
-              "**/*.min.css",
-              "**/bundle.*",
-              "**/vendor.*",
-            );
-          }
+/**
+ * Answer an index/clean_index call: unless `background` is set, wait for the job until the tool
+ * timeout (forwarding progress, and cancelling the job if the request is cancelled), then report
+ * the job's payload or that it is still running
+ */
+async function jobToolResponse(
+  name: string,
+  jobId: string,
+  background: boolean,
+  requestId: string,
+  startTime: number,
+  toolContext: ToolCallContext,
+) {
+  const configuredTimeout = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
+  const timeoutMs = isDebugMode ? Math.max(configuredTimeout, 120000) : configuredTimeout;
+  const job = background
+    ? jobManager.getJob(jobId)
+    : await jobManager.wait(jobId, {
+        timeoutMs,
+        signal: toolContext.signal,
+        onProgress: (current) =>
+          toolContext.onProgress?.(
+            current.progress.filesProcessed,
+            current.progress.totalFiles || undefined,
+            formatJobProgress(current),
+          ),
+      });
+  if (!job) {
+    throw new Error(`Job not found: ${jobId}`);
+  }
+  logger.mcpResponse(name, { jobId, status: job.status }, Date.now() - startTime, requestId);
+
+  let payload: Record<string, unknown>;
+  if (job.status === "completed") {
+    payload = { ...(job.result as Record<string, unknown>), jobId };
+  } else if (job.status === "failed") {
+    payload = { success: false, jobId, status: job.status, error: job.error };
+  } else if (job.status === "cancelled") {
+    payload = {
+      success: false,
+      jobId,
+      status: job.status,
+      message: "Indexing job was cancelled",
+      progress: job.progress,
+    };
+  } else {
+    payload = {
+      success: true,
+      jobId,
+      status: job.status,
+      progress: job.progress,
+      message: background
+        ? "Indexing job started; poll get_job_status with this jobId for progress"
+        : "Indexing is still running in the background; poll get_job_status with this jobId for progress",
+    };
+  }
+
+  return toolResult(payload);
+}
+
+async function executeToolCall(
+  name: string,
+  args: unknown,
+  requestId: string,
+  startTime: number,
+  toolContext: ToolCallContext = {},
+) {
+  // Relative paths and tool defaults resolve against the calling session's workspace
+  const workspaceRoot = toolContext.workspace?.rootDir ?? directory;
+  try {
+    switch (name) {
+      case "index": {
+        const params = IndexToolSchema.parse(args);
+        const targetDir = normalizeInputPath(params.directory || workspaceRoot, workspaceRoot);
 
-          if (!fullScan) {
-            if (numFiles > 2000) {
+        // Auto-detect product_id from project_repositories table if not provided
+        let resolvedProductId = params.product_id;
+        if (!resolvedProductId) {
+          const normalizedPath = normalizeInputPath(targetDir, workspaceRoot);
+          if (normalizedPath) {
+            const repos = projectManager.getRepositoriesByPath(normalizedPath);
+            if (repos.length === 1 && repos[0]) {
+              resolvedProductId = repos[0].project_id;
               logger.info(
                 "INDEXING",
-                "Large codebase detected, enabling batch processing (clean_index)",
-                { fileCount: numFiles },
+                "Auto-detected product from repository path",
+                { product_id: resolvedProductId, path: normalizedPath },
+                requestId,
+              );
+            } else if (repos.length > 1) {
+              logger.warn(
+                "INDEXING",
+                "Repository belongs to multiple products - indexing without product_id",
+                { path: normalizedPath, product_count: repos.length },
                 requestId,
               );
-              enhancedExcludePatterns.push("__batch_processing_enabled__");
             }
-          } else {
-            logger.info(
-              "INDEXING",
-              "Full scan requested, batch mode disabled (clean_index)",
-              { fileCount: numFiles },
-              requestId,
-            );
           }
-        } catch (error) {
-          logger.warn(
-            "INDEXING",
-            "Could not detect codebase size (clean_index), using default patterns",
-            { error: (error as Error).message },
-            requestId,
-          );
         }
 
-        const task: AgentTask = {
-          id: `clean-index-${Date.now()}`,
-          type: "index",
-          priority: 8,
-          payload: {
-            directory: targetDir,
-            incremental: false,
-            excludePatterns: enhancedExcludePatterns,
+        const job = jobManager.start(
+          {
+            kind: "index",
+            directory: normalizeInputPath(targetDir, workspaceRoot),
+            product_id: resolvedProductId,
+            params: { ...(args as Record<string, unknown>) },
           },
-          createdAt: Date.now(),
-        };
+          (context) => runIndexJob(params, targetDir, resolvedProductId, requestId, context),
+        );
+        return jobToolResponse(name, job.id, params.background, requestId, startTime, toolContext);
+      }
 
-        const cond = getConductor();
-        await cond.initialize();
-        const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-        const result = await withTimeout(cond.process(task), timeoutMs, "clean_index", requestId);
+      case "reset_graph": {
+        const storage = await getGraphStorage(globalSQLiteManager);
+        await storage.clear();
+        logger.systemEvent("Graph storage cleared via tool");
+        return toolResult({ success: true, message: "Graph storage cleared" });
+      }
+
+      case "clean_index": {
+        const params = CleanIndexSchema.parse(args);
+        const targetDir = normalizeInputPath(params.directory || workspaceRoot, workspaceRoot);
+
+        const job = jobManager.start(
+          {
+            kind: "clean_index",
+            directory: normalizeInputPath(targetDir, workspaceRoot),
+            params: { ...(args as Record<string, unknown>) },
+          },
+          (context) => runCleanIndexJob(params, targetDir, requestId, context),
+        );
+        return jobToolResponse(name, job.id, params.background, requestId, startTime, toolContext);
+      }
 
-        if (process.env.MCP_DEBUG_DISABLE_SEMANTIC !== "1") {
-          await ensureSemanticsReady(1, 5000);
+      case "get_job_status": {
+        const { jobId, status, limit } = GetJobStatusSchema.parse(args);
+        if (jobId) {
+          const job = jobManager.getJob(jobId);
+          if (!job) {
+            throw new Error(`Job not found: ${jobId}`);
+          }
+          return toolResult({ success: true, job });
         }
 
-        knowledgeBus.publish("index:completed", result, "mcp-server");
-        const duration = Date.now() - startTime;
-        logger.mcpResponse(name, result, duration, requestId);
+        const jobs = jobManager.listJobs({ status, limit });
+        return toolResult({ success: true, jobs, total: jobs.length });
+      }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  message: "Clean indexing completed",
-                  result,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+      case "cancel_job": {
+        const { jobId } = CancelJobSchema.parse(args);
+        const job = jobManager.cancel(jobId);
+        if (!job) {
+          throw new Error(`Job not found: ${jobId}`);
+        }
+        const message =
+          job.status === "cancelled"
+            ? "Job cancelled"
+            : isJobFinished(job)
+              ? `Job already ${job.status}`
+              : "Cancellation requested; the job stops after its current batch";
+        return toolResult({ success: true, message, job });
       }
 
       case "list_file_entities": {
         const { filePath, entityTypes } = ListEntitiesToolSchema.parse(args);
-        const targetFilePath = normalizeInputPath(filePath);
+        const targetFilePath = normalizeInputPath(filePath, workspaceRoot);
 
         const cacheKey = `entities:${targetFilePath}`;
         const cached = knowledgeBus.query(cacheKey, 1);
         if (cached.length > 0) {
           const entry = cached[0];
           if (entry && Date.now() - entry.timestamp < 60000) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(entry.data, null, 2),
-                },
-              ],
-            };
+            return toolResult(entry.data as object);
           }
         }
 
@@ -1518,14 +2132,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
 
         knowledgeBus.publish(cacheKey, response, "mcp-server", 60000);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(response, null, 2),
-            },
-          ],
-        };
+        return toolResult(response);
       }
       case "list_entity_relationships": {
         const {
@@ -1533,27 +2140,15 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           entityName,
           relationshipTypes,
           filePath: hintFilePath,
+          product_id,
         } = ListRelationshipsToolSchema.parse(args);
         const storage = await getGraphStorage(globalSQLiteManager);
-        const resolvedHintPath = hintFilePath ? normalizeInputPath(hintFilePath) : undefined;
-
-        let entity: Entity | null = null;
-        if (directId) {
-          entity = await storage.getEntity(directId);
-        }
-        if (!entity) {
-          entity = await resolveEntityWithHint(storage, entityName ?? directId ?? "", resolvedHintPath);
-        }
-        if (!entity) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ success: false, error: `Entity not found: ${entityName}` }, null, 2),
-              },
-            ],
-          };
-        }
+        const entity =
+          (directId ? await storage.getEntity(directId) : null) ??
+          (await resolveToolEntity(storage, entityName ?? directId ?? "", toolContext, {
+            filePath: hintFilePath,
+            product_id,
+          }));
 
         const relationships = await storage.getRelationshipsForEntity(entity.id);
         const filtered =
@@ -1577,21 +2172,10 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  entity: mapEntitySummary(entity),
-                  relationships: summarizeRelationships(filtered, neighborMap),
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          entity: mapEntitySummary(entity),
+          relationships: summarizeRelationships(filtered, neighborMap),
+        });
       }
 
       case "query": {
@@ -1621,25 +2205,14 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         const storage = await getGraphStorage(globalSQLiteManager);
         const structural = await queryGraphEntities(storage, query, limit ?? 10, product_id);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  semantic: semanticResult,
-                  structural: {
-                    entities: structural.entities.map((entity) => mapEntitySummary(entity)),
-                    relationships: structural.relationships.length,
-                    stats: structural.stats,
-                  },
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          semantic: semanticResult,
+          structural: {
+            entities: structural.entities.map((entity) => mapEntitySummary(entity)),
+            relationships: structural.relationships.length,
+            stats: structural.stats,
+          },
+        });
       }
 
       case "get_metrics": {
@@ -1648,30 +2221,19 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         const cond = getConductor();
         const conductorMetrics = cond.getMetrics();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  resources: resourceStats,
-                  knowledge: knowledgeStats,
-                  conductor: conductorMetrics,
-                  agents: Array.from(cond.agents.values()).map((agent) => ({
-                    id: agent.id,
-                    type: agent.type,
-                    status: agent.status,
-                    memoryUsage: agent.getMemoryUsage(),
-                    cpuUsage: agent.getCpuUsage(),
-                    queueSize: agent.getTaskQueue().length,
-                  })),
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          resources: resourceStats,
+          knowledge: knowledgeStats,
+          conductor: conductorMetrics,
+          agents: Array.from(cond.agents.values()).map((agent) => ({
+            id: agent.id,
+            type: agent.type,
+            status: agent.status,
+            memoryUsage: agent.getMemoryUsage(),
+            cpuUsage: agent.getCpuUsage(),
+            queueSize: agent.getTaskQueue().length,
+          })),
+        });
       }
 
       case "get_version": {
@@ -1679,44 +2241,33 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         const uptime = process.uptime();
         const memoryUsage = process.memoryUsage();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  server: {
-                    name: versionInfo.name,
-                    version: versionInfo.version,
-                    description: versionInfo.description,
-                    homepage: versionInfo.homepage,
-                    repository: versionInfo.repository,
-                  },
-                  runtime: {
-                    nodeVersion: versionInfo.nodeVersion,
-                    platform: versionInfo.platform,
-                    arch: versionInfo.arch,
-                    pid: process.pid,
-                    uptime: {
-                      seconds: Math.floor(uptime),
-                      formatted: `${Math.floor(uptime / 3600)}h ${Math.floor((uptime % 3600) / 60)}m ${Math.floor(uptime % 60)}s`,
-                    },
-                  },
-                  memory: {
-                    rss: `${Math.round(memoryUsage.rss / 1024 / 1024)}MB`,
-                    heapTotal: `${Math.round(memoryUsage.heapTotal / 1024 / 1024)}MB`,
-                    heapUsed: `${Math.round(memoryUsage.heapUsed / 1024 / 1024)}MB`,
-                    external: `${Math.round(memoryUsage.external / 1024 / 1024)}MB`,
-                  },
-                  indexedDirectory: directory,
-                  configEnvironment: config.environment,
-                },
-                null,
-                2,
-              ),
+        return toolResult({
+          server: {
+            name: versionInfo.name,
+            version: versionInfo.version,
+            description: versionInfo.description,
+            homepage: versionInfo.homepage,
+            repository: versionInfo.repository,
+          },
+          runtime: {
+            nodeVersion: versionInfo.nodeVersion,
+            platform: versionInfo.platform,
+            arch: versionInfo.arch,
+            pid: process.pid,
+            uptime: {
+              seconds: Math.floor(uptime),
+              formatted: `${Math.floor(uptime / 3600)}h ${Math.floor((uptime % 3600) / 60)}m ${Math.floor(uptime % 60)}s`,
             },
-          ],
-        };
+          },
+          memory: {
+            rss: `${Math.round(memoryUsage.rss / 1024 / 1024)}MB`,
+            heapTotal: `${Math.round(memoryUsage.heapTotal / 1024 / 1024)}MB`,
+            heapUsed: `${Math.round(memoryUsage.heapUsed / 1024 / 1024)}MB`,
+            external: `${Math.round(memoryUsage.external / 1024 / 1024)}MB`,
+          },
+          indexedDirectory: workspaceRoot,
+          configEnvironment: config.environment,
+        });
       }
 
       // New semantic tool handlers - TASK-002
@@ -1731,20 +2282,13 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           const firstCache = cached[0];
           if (firstCache && Date.now() - firstCache.timestamp < 30000) {
             // 30s cache
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(firstCache.data, null, 2),
-                },
-              ],
-            };
+            return toolResult(firstCache.data as object);
           }
         }
 
         const semanticAgent = await getSemanticAgent();
         const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-        const result = await withTimeout(
+        const result = await withTimeout<SemanticResult>(
           semanticAgent.semanticSearch(query, limit),
           timeoutMs,
           "semantic_search",
@@ -1754,14 +2298,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         // Cache result
         knowledgeBus.publish(cacheKey, result, "mcp-server", 30000);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return toolResult(result);
       }
 
       case "find_similar_code": {
@@ -1769,28 +2306,21 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         await ensureSemanticsReady(1, 20000);
         const semanticAgent = await getSemanticAgent();
         const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-        const sim = await withTimeout(
+        const sim = await withTimeout<SimilarCode[]>(
           semanticAgent.findSimilarCode(code, threshold ?? 0.5),
           timeoutMs,
           "find_similar_code",
           requestId,
         );
-        const result = Array.isArray(sim) && limit ? sim.slice(0, limit) : sim;
+        const results = limit ? sim.slice(0, limit) : sim;
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return toolResult({ results, total: results.length });
       }
 
       // analyze_code_impact handled below (single implementation with fallback)
 
       case "detect_code_clones": {
-        const { minSimilarity } = DetectCodeClonesSchema.parse(args);
+        const { minSimilarity, persist } = DetectCodeClonesSchema.parse(args);
         await ensureSemanticsReady(1, 20000);
         const semanticAgent = await getSemanticAgent();
         const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
@@ -1801,23 +2331,34 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           requestId,
         );
 
-        const jscpdResult = await runJscpdCloneDetection({
-          paths: [directory],
-          minTokens: 20,
-          minLines: 3,
-          ignore: [
-            "node_modules/**",
-            "dist/**",
-            "coverage/**",
-            "tmp/**",
-            "**/tmp/**",
-            "**/__tests__/**",
-            "**/tests/**",
-            "**/*.d.ts",
-          ],
-        });
+        const jscpdResult = await runJscpdCloneDetection(
+          {
+            paths: [workspaceRoot],
+            minTokens: 50,
+            minLines: 3,
+            ignore: [
+              "node_modules/**",
+              "dist/**",
+              "coverage/**",
+              "tmp/**",
+              "**/tmp/**",
+              "**/__tests__/**",
+              "**/tests/**",
+              "**/*.d.ts",
+            ],
+          },
+          await getGraphStorage(globalSQLiteManager),
+        );
 
-        const semanticNormalized = normalizeSemanticCloneGroups(semanticResult, directory);
+        // The jscpd pass scans the whole workspace, so its runs are scoped by path rather than by product
+        const run = persist
+          ? recordCloneRun(cloneRunStore, jscpdResult, {
+              tool: "detect_code_clones",
+              paths: [workspaceRoot],
+              options: { minTokens: 50, minLines: 3 },
+            })
+          : undefined;
+        const semanticNormalized = normalizeSemanticCloneGroups(semanticResult, workspaceRoot);
 
         const combined = {
           semantic: {
@@ -1829,28 +2370,22 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           jscpd: {
             summary: jscpdResult.summary,
             clones: jscpdResult.summary.clones,
+            cloneClasses: jscpdResult.cloneClasses,
           },
+          run,
         };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(combined, null, 2),
-            },
-          ],
-        };
+        return toolResult(combined);
       }
 
       case "jscpd_detect_clones": {
         const parsed = JscpdCloneDetectionSchema.parse(args);
-        const rawPaths = parsed.paths && parsed.paths.length > 0 ? parsed.paths : [directory];
+        const rawPaths = parsed.paths && parsed.paths.length > 0 ? parsed.paths : [workspaceRoot];
         const resolvedPaths = rawPaths
-          .map((p) => normalizeInputPath(p) ?? directory)
+          .map((p) => normalizeInputPath(p, workspaceRoot) ?? workspaceRoot)
           .filter((p): p is string => Boolean(p));
 
-        const result = await runJscpdCloneDetection({
-          paths: resolvedPaths,
+        const detectionOptions = {
           pattern: parsed.pattern,
           ignore: parsed.ignore,
           formats: parsed.formats?.map((fmt) => fmt.toLowerCase()),
@@ -1858,21 +2393,31 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           maxLines: parsed.maxLines,
           minTokens: parsed.minTokens,
           ignoreCase: parsed.ignoreCase,
-        });
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
+          gitignore: parsed.gitignore,
+          normalize: parsed.normalize,
+          maxGap: parsed.maxGap,
+          minSimilarity: parsed.minSimilarity,
         };
+        const result = await runJscpdCloneDetection(
+          { paths: resolvedPaths, ...detectionOptions },
+          await getGraphStorage(globalSQLiteManager),
+        );
+        if (!parsed.persist) {
+          return toolResult(result);
+        }
+
+        const run = recordCloneRun(cloneRunStore, result, {
+          tool: "jscpd_detect_clones",
+          paths: resolvedPaths,
+          product_id: parsed.product_id,
+          options: detectionOptions,
+        });
+        return toolResult({ ...result, run });
       }
 
       case "suggest_refactoring": {
         const { filePath, focusArea, entityId, startLine, endLine } = SuggestRefactoringSchema.parse(args);
-        const targetFilePath = normalizeInputPath(filePath);
+        const targetFilePath = normalizeInputPath(filePath, workspaceRoot);
 
         const semanticAgent = await getSemanticAgent();
         const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
@@ -1883,9 +2428,9 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         const MAX_SNIPPET = 10000;
 
         const readFileSafe = async (p: string) => {
-          const normalizedPath = normalizeInputPath(p);
           try {
-            return await fs.readFile(normalizedPath, "utf8");
+            // Entity paths come from storage: ones outside the allowed roots read as empty
+            return await fs.readFile(normalizeInputPath(p, workspaceRoot), "utf8");
           } catch {
             return "";
           }
@@ -1919,10 +2464,10 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           return { snippet, range };
         };
 
-        const runSuggest = async (snippet: string) => {
+        const runSuggest = async (snippet: string, entity?: Entity) => {
           const limited = snippet.length > MAX_SNIPPET ? snippet.slice(0, MAX_SNIPPET) : snippet;
           return await withTimeout(
-            semanticAgent.suggestRefactoring(limited),
+            semanticAgent.suggestRefactoring(limited, entity?.metadata.metrics),
             timeoutMs,
             "suggest_refactoring",
             requestId,
@@ -1938,14 +2483,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         const fileText = await readFileSafe(targetFilePath);
 
         if (!fileText) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ success: false, error: `Cannot read file: ${targetFilePath}` }, null, 2),
-              },
-            ],
-          };
+          return toolResult({ success: false, error: `Cannot read file: ${targetFilePath}` });
         }
 
         if (startLine != null && endLine != null) {
@@ -1953,66 +2491,29 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           const suggestions = await runSuggest(snippet);
           analyzed.push({ range, suggestions });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ filePath: targetFilePath, focus: { mode: "range", range }, analyzed }, null, 2),
-              },
-            ],
-          };
+          return toolResult({ filePath: targetFilePath, focus: { mode: "range", range }, analyzed });
         }
 
         if (entityId) {
-          const ent = await storage.getEntity(entityId);
-          if (!ent) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify({ success: false, error: `Entity not found by id: ${entityId}` }, null, 2),
-                },
-              ],
-            };
-          }
-
+          const ent = await resolveToolEntity(storage, entityId, toolContext, { filePath: targetFilePath });
           const { snippet, range } = sliceByEntity(fileText, ent);
-          const suggestions = await runSuggest(snippet);
+          const suggestions = await runSuggest(snippet, ent);
           analyzed.push({ entity: mapEntitySummary(ent), range, suggestions });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { filePath: targetFilePath, focus: { mode: "entityId", entityId: ent.id }, analyzed },
-                  null,
-                  2,
-                ),
-              },
-            ],
-          };
+          return toolResult({ filePath: targetFilePath, focus: { mode: "entityId", entityId: ent.id }, analyzed });
         }
 
         if (focusArea) {
-          const ent = await resolveEntityWithHint(storage, focusArea, targetFilePath);
+          // A soft focus: without a clear match in this file the whole file is analyzed
+          const focus = await resolveEntityCandidates(storage, focusArea, { filePath: targetFilePath, limit: 1 });
+          const match = focus.status === "resolved" ? focus.candidates[0] : undefined;
+          const ent = match && match.filePath === targetFilePath ? await storage.getEntity(match.id) : null;
           if (ent) {
             const { snippet, range } = sliceByEntity(fileText, ent);
-            const suggestions = await runSuggest(snippet);
+            const suggestions = await runSuggest(snippet, ent);
             analyzed.push({ entity: mapEntitySummary(ent), range, suggestions });
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(
-                    { filePath: targetFilePath, focus: { mode: "focusArea", focusArea }, analyzed },
-                    null,
-                    2,
-                  ),
-                },
-              ],
-            };
+            return toolResult({ filePath: targetFilePath, focus: { mode: "focusArea", focusArea }, analyzed });
           }
         }
 
@@ -2037,34 +2538,20 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           const suggestions = await runSuggest(fileText);
           analyzed.push({ range: { startIndex: 0, endIndex: Math.min(fileText.length, MAX_SNIPPET) }, suggestions });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ filePath: targetFilePath, focus: { mode: "file" }, analyzed }, null, 2),
-              },
-            ],
-          };
+          return toolResult({ filePath: targetFilePath, focus: { mode: "file" }, analyzed });
         }
 
         for (const ent of sorted) {
           const { snippet, range } = sliceByEntity(fileText, ent);
-          const suggestions = await runSuggest(snippet);
+          const suggestions = await runSuggest(snippet, ent);
           analyzed.push({ entity: mapEntitySummary(ent), range, suggestions });
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                { filePath: targetFilePath, focus: { mode: "auto-top-entities", count: analyzed.length }, analyzed },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          filePath: targetFilePath,
+          focus: { mode: "auto-top-entities", count: analyzed.length },
+          analyzed,
+        });
       }
 
       case "cross_language_search": {
@@ -2072,127 +2559,586 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         await ensureSemanticsReady(1, 20000);
         const semanticAgent = await getSemanticAgent();
         const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-        const result = await withTimeout(
+        const results = await withTimeout<CrossLangResult[]>(
           semanticAgent.crossLanguageSearch(query, languages || []),
           timeoutMs,
           "cross_language_search",
           requestId,
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return toolResult({ results, total: results.length });
       }
 
       case "analyze_hotspots": {
         const startTime = Date.now();
-        const { metric, limit } = AnalyzeHotspotsSchema.parse(args);
+        const { metric, limit, product_id } = AnalyzeHotspotsSchema.parse(args);
 
         logger.info("ANALYZE_HOTSPOTS", "Starting hotspot analysis", { metric, limit: limit ?? 10 }, requestId);
 
         const storage = await getGraphStorage(globalSQLiteManager);
-        const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
-
-        logger.debug("ANALYZE_HOTSPOTS", "Fetching relationships", { timeoutMs }, requestId);
 
-        // Fetch relationships only to avoid loading entities unnecessarily
-        const rels = await withTimeout(
-          storage.findRelationships({ type: "relationship", limit: 10000 }),
-          timeoutMs,
-          "analyze_hotspots",
+        // Churn-based hotspots: frequently changed code weighted by its complexity
+        if (metric === "changes") {
+          const churn = gitHistoryStore.getTopEntityChurn({ limit: Math.max((limit ?? 10) * 5, 50), product_id });
+          if (churn.length > 0) {
+            const churnHotspots = [] as Array<{
+              entity: ReturnType<typeof mapEntitySummary>;
+              metrics: {
+                commits: number;
+                linesChanged: number;
+                authors: number;
+                lastTouched?: string;
+                lastAuthor?: string;
+                complexity: number;
+              };
+              score: number;
+            }>;
+
+            for (const entry of churn) {
+              const entity = await storage.getEntity(entry.entity_id);
+              if (!entity) continue;
+              const complexity = Math.max(entity.complexityScore ?? 1, 1);
+              churnHotspots.push({
+                entity: mapEntitySummary(entity),
+                metrics: {
+                  commits: entry.commit_count,
+                  linesChanged: entry.lines_changed,
+                  authors: entry.authors.length,
+                  lastTouched: entry.last_commit_at ? new Date(entry.last_commit_at).toISOString() : undefined,
+                  lastAuthor: entry.last_author,
+                  complexity,
+                },
+                score: Math.round(entry.commit_count * complexity * 10 + entry.lines_changed),
+              });
+            }
+
+            churnHotspots.sort((a, b) => b.score - a.score);
+            const hotspots = churnHotspots.slice(0, limit ?? 10);
+
+            logger.info(
+              "ANALYZE_HOTSPOTS",
+              "Churn hotspot analysis complete",
+              { hotspots: hotspots.length, elapsed: Date.now() - startTime },
+              requestId,
+            );
+
+            return toolResult({
+              metric,
+              source: "git_history",
+              limit: limit ?? 10,
+              hotspots,
+              sampleSize: churn.length,
+            });
+          }
+
+          logger.debug("ANALYZE_HOTSPOTS", "No git churn data, falling back to graph degree", {}, requestId);
+        }
+
+        // Complexity hotspots: functions and methods ranked by their syntax-tree metrics
+        if (metric === "complexity") {
+          const measured = (
+            await storage.findEntities({
+              type: "entity",
+              filters: { entityType: [...MEASURED_ENTITY_TYPES] as EntityType[], product_id },
+              orderBy: "complexity",
+              limit: Math.max((limit ?? 10) * 5, 50),
+            })
+          ).filter((entity) => entity.metadata.metrics);
+          if (measured.length > 0) {
+            const hotspots = measured
+              .map((entity) => {
+                const metrics = entity.metadata.metrics!;
+                return {
+                  entity: mapEntitySummary(entity),
+                  metrics: {
+                    cyclomatic: metrics.cyclomatic,
+                    cognitive: metrics.cognitive,
+                    maxNesting: metrics.maxNesting,
+                    parameters: metrics.parameters,
+                    sloc: metrics.sloc,
+                    halsteadVolume: metrics.halstead.volume,
+                  },
+                  score: metrics.cyclomatic * 10 + metrics.cognitive * 5 + metrics.maxNesting * 3,
+                };
+              })
+              .sort((a, b) => b.score - a.score)
+              .slice(0, limit ?? 10);
+
+            logger.info(
+              "ANALYZE_HOTSPOTS",
+              "Complexity hotspot analysis complete",
+              { hotspots: hotspots.length, elapsed: Date.now() - startTime },
+              requestId,
+            );
+
+            return toolResult({
+              metric,
+              source: "syntax_metrics",
+              limit: limit ?? 10,
+              hotspots,
+              sampleSize: measured.length,
+            });
+          }
+
+          logger.debug("ANALYZE_HOTSPOTS", "No entity metrics indexed, falling back to graph degree", {}, requestId);
+        }
+        const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
+
+        logger.debug("ANALYZE_HOTSPOTS", "Fetching relationships", { timeoutMs }, requestId);
+
+        // Fetch relationships only to avoid loading entities unnecessarily
+        const rels = await withTimeout(
+          storage.findRelationships({ type: "relationship", limit: 10000 }),
+          timeoutMs,
+          "analyze_hotspots",
+          requestId,
+        );
+
+        logger.debug("ANALYZE_HOTSPOTS", "Relationships fetched", { count: rels.length }, requestId);
+
+        const counts = new Map<string, { incoming: number; outgoing: number }>();
+        for (const rel of rels) {
+          const from = counts.get(rel.fromId) ?? { incoming: 0, outgoing: 0 };
+          from.outgoing += 1;
+          counts.set(rel.fromId, from);
+
+          const to = counts.get(rel.toId) ?? { incoming: 0, outgoing: 0 };
+          to.incoming += 1;
+          counts.set(rel.toId, to);
+        }
+
+        logger.debug("ANALYZE_HOTSPOTS", "Counts computed", { uniqueEntities: counts.size }, requestId);
+
+        const ranked = Array.from(counts.entries())
+          .map(([id, data]) => ({ id, ...data, total: data.incoming + data.outgoing }))
+          .sort((a, b) => b.total - a.total)
+          .slice(0, limit ?? 10);
+
+        logger.debug("ANALYZE_HOTSPOTS", "Ranked entities", { topCount: ranked.length }, requestId);
+
+        const hotspots = [] as Array<{
+          entity: ReturnType<typeof mapEntitySummary>;
+          metrics: { incoming: number; outgoing: number; total: number };
+          score: number;
+        }>;
+
+        for (const entry of ranked) {
+          const entity = await storage.getEntity(entry.id);
+          if (!entity) {
+            logger.debug("ANALYZE_HOTSPOTS", "Entity not found in storage", { entityId: entry.id }, requestId);
+            continue;
+          }
+          const baseScore = entry.total * 10 + entry.incoming * 5;
+          const metricScore =
+            metric === "complexity" ? entry.total * 2 : metric === "coupling" ? entry.incoming * 3 : entry.outgoing * 3;
+          hotspots.push({
+            entity: mapEntitySummary(entity),
+            metrics: { incoming: entry.incoming, outgoing: entry.outgoing, total: entry.total },
+            score: Math.round(baseScore + metricScore),
+          });
+        }
+
+        const elapsed = Date.now() - startTime;
+        logger.info("ANALYZE_HOTSPOTS", "Hotspot analysis complete", { hotspots: hotspots.length, elapsed }, requestId);
+
+        return toolResult({
+          metric,
+          limit: limit ?? 10,
+          hotspots,
+          sampleSize: rels.length,
+          ...(metric === "changes"
+            ? { note: "No git history ingested; run ingest_git_history for churn-based hotspots." }
+            : {}),
+        });
+      }
+
+      case "ingest_git_history": {
+        const { directory: historyDir, maxCommits, since, product_id } = IngestGitHistorySchema.parse(args);
+        const targetDir = normalizeInputPath(historyDir || workspaceRoot, workspaceRoot);
+
+        logger.info("GIT_HISTORY", "Starting git history ingestion", { directory: targetDir, maxCommits }, requestId);
+
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const timeoutMs = Math.max(config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000, 120000);
+        const summary = await withTimeout(
+          ingestGitHistory(storage, gitHistoryStore, targetDir, { maxCommits, since, product_id }),
+          timeoutMs,
+          "ingest_git_history",
+          requestId,
+        );
+
+        knowledgeBus.publish("git:history_ingested", summary, "mcp-server");
+        logger.info("GIT_HISTORY", "Git history ingestion complete", { ...summary }, requestId);
+
+        return toolResult({
+          success: true,
+          ...summary,
+          topFiles: gitHistoryStore.getTopFileChurn({ limit: 10, product_id }),
+        });
+      }
+
+      case "resolve_symbols": {
+        const { directory: rootDir, product_id, maxUnresolved } = ResolveSymbolsSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const report = await resolveCrossFileSymbols(storage, {
+          rootDir: normalizeInputPath(rootDir || workspaceRoot, workspaceRoot),
+          product_id,
+          maxUnresolved,
+        });
+
+        knowledgeBus.publish("symbols:resolved", { ...report, unresolved: undefined }, "mcp-server");
+        logger.info(
+          "SYMBOLS",
+          "Cross-file symbol resolution complete",
+          { ...report, unresolved: undefined },
+          requestId,
+        );
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "explore_codebase": {
+        const {
+          topic,
+          entityId,
+          filePath: hintFilePath,
+          product_id,
+          depth,
+          maxSeeds,
+          limit,
+        } = ExploreCodebaseSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+
+        let entityIds: string[] | undefined;
+        if (entityId) {
+          const entity = await resolveToolEntity(storage, entityId, toolContext, {
+            filePath: hintFilePath,
+            product_id,
+          });
+          entityIds = [entity.id];
+        }
+
+        const dora = await getDoraAgent();
+        const timeoutMs = config.mcp.agents?.defaultTimeout || config.mcp.server?.timeout || 30000;
+        const result = (await withTimeout(
+          dora.process({
+            id: `explore-${requestId}`,
+            type: "exploration",
+            priority: 6,
+            payload: { topic, entityIds, product_id, depth, maxSeeds, limit },
+            createdAt: Date.now(),
+          } satisfies AgentTask),
+          timeoutMs,
+          "explore_codebase",
+          requestId,
+        )) as { exploration: { report: ExplorationReport } };
+        const report = result.exploration.report;
+
+        logger.info("EXPLORE", "Codebase exploration complete", { topic, entityIds, stats: report.stats }, requestId);
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "detect_cycles": {
+        const {
+          relationshipTypes,
+          granularity,
+          directory: scopeDir,
+          language,
+          product_id,
+          minSize,
+          limit,
+        } = DetectCyclesSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const report = await detectCycles(storage, {
+          relationshipTypes,
+          granularity,
+          directory: scopeDir ? normalizeInputPath(scopeDir, workspaceRoot) : undefined,
+          rootDir: workspaceRoot,
+          language,
+          product_id,
+          minSize,
+          limit,
+        });
+
+        logger.info(
+          "CYCLES",
+          "Cycle detection complete",
+          { cycleCount: report.cycleCount, nodesInCycles: report.nodesInCycles, timeMs: report.timeMs },
+          requestId,
+        );
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "find_path": {
+        const { from, fromFilePath, to, toFilePath, relationshipTypes, direction, maxDepth, k, product_id } =
+          FindPathSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+
+        const source = await resolveToolEntity(storage, from, toolContext, { filePath: fromFilePath, product_id });
+        const target = await resolveToolEntity(storage, to, toolContext, { filePath: toFilePath, product_id });
+
+        const report = await findPaths(storage, source, target, {
+          relationshipTypes,
+          direction,
+          maxDepth,
+          k,
+          product_id,
+        });
+        logger.info(
+          "FIND_PATH",
+          "Path search complete",
+          { from: source.id, to: target.id, paths: report.paths.length, ...report.search },
+          requestId,
+        );
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "analyze_diff_impact": {
+        const { diff, base, head, directory: diffDir, depth, product_id, limit } = AnalyzeDiffImpactSchema.parse(args);
+        let rootDir = normalizeInputPath(diffDir || workspaceRoot, workspaceRoot);
+        let diffText = diff;
+        if (!diffText && base) {
+          const gitDiff = await readGitDiff(rootDir, base, head);
+          diffText = gitDiff.diff;
+          rootDir = gitDiff.repositoryRoot;
+        }
+
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const report = await analyzeDiffImpact(
+          storage,
+          parseUnifiedDiff(diffText ?? ""),
+          { rootDir, depth, product_id, limit },
+          diff ? { type: "diff" } : { type: "refs", base: base!, head },
+        );
+        logger.info("DIFF_IMPACT", "Diff impact analysis complete", { rootDir, ...report.summary }, requestId);
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "find_tests_for": {
+        const { entityId, filePath, depth, product_id, limit } = FindTestsForSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+
+        let targets: Entity[];
+        if (entityId) {
+          targets = [await resolveToolEntity(storage, entityId, toolContext, { filePath, product_id })];
+        } else {
+          targets = await storage.getEntitiesByFile(normalizeInputPath(filePath!, workspaceRoot));
+        }
+        if (targets.length === 0) {
+          return toolResult({ success: false, error: `No entities in ${filePath}` });
+        }
+
+        const report = await findTestsFor(storage, targets, { rootDir: workspaceRoot, depth, product_id, limit });
+        logger.info(
+          "FIND_TESTS",
+          "Covering tests found",
+          { targets: targets.length, tests: report.totalTests, files: report.testFiles.length },
+          requestId,
+        );
+
+        return toolResult({ success: true, ...report });
+      }
+
+      case "get_entity_source": {
+        const {
+          entity: identifier,
+          filePath,
+          contextLines,
+          includeDocstring,
+          callers,
+          callees,
+          maxTokens,
+          product_id,
+        } = GetEntitySourceSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+
+        const entity = await resolveToolEntity(storage, identifier, toolContext, { filePath, product_id });
+
+        const report = await getEntitySource(storage, entity, {
+          contextLines,
+          includeDocstring,
+          callers,
+          callees,
+          maxTokens,
+          product_id,
+        });
+        logger.info(
+          "ENTITY_SOURCE",
+          "Entity source retrieved",
+          {
+            entity: entity.id,
+            callers: report.callers.length,
+            callees: report.callees.length,
+            usedTokens: report.budget.usedTokens,
+          },
+          requestId,
+        );
+
+        return toolResult({ success: !report.error, ...report });
+      }
+
+      case "export_graph": {
+        const {
+          format,
+          rootEntity,
+          filePath,
+          depth,
+          product_id,
+          pathGlob,
+          entityTypes,
+          relationshipTypes,
+          maxEntities,
+        } = ExportGraphSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const root = rootEntity
+          ? await resolveToolEntity(storage, rootEntity, toolContext, { filePath, product_id })
+          : undefined;
+
+        const { content, contentType, stats } = await exportGraphToString(storage, {
+          format,
+          rootEntityId: root?.id,
+          depth,
+          product_id,
+          pathGlob,
+          rootDir: workspaceRoot,
+          entityTypes,
+          relationshipTypes,
+          maxEntities,
+        });
+        logger.info("EXPORT_GRAPH", "Graph export complete", { root: root?.id, ...stats }, requestId);
+
+        return toolResult({ success: true, ...stats, contentType, content });
+      }
+
+      case "get_code_metrics": {
+        const { entityId, filePath, product_id, minComplexity, limit } = GetCodeMetricsSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+
+        const entities = entityId
+          ? [await resolveToolEntity(storage, entityId, toolContext, { filePath, product_id })]
+          : await storage.findEntities({
+              type: "entity",
+              filters: {
+                entityType: [...MEASURED_ENTITY_TYPES] as EntityType[],
+                ...(filePath ? { filePath: normalizeInputPath(filePath, workspaceRoot) } : {}),
+                product_id,
+                minComplexity,
+              },
+              orderBy: "complexity",
+              limit,
+            });
+        const measured = entities
+          .filter((entity) => entity.metadata.metrics)
+          .map((entity) => ({ entity: mapEntitySummary(entity), metrics: entity.metadata.metrics! }));
+
+        return toolResult({
+          success: true,
+          entities: measured,
+          total: measured.length,
+          ...(entityId && measured.length === 0
+            ? { note: "No metrics for this entity; only functions and methods are measured, reindex to compute them." }
+            : {}),
+        });
+      }
+
+      case "detect_code_smells": {
+        const {
+          product_id,
+          directory: scopeDir,
+          kinds,
+          minSeverity,
+          thresholds,
+          limit,
+        } = DetectCodeSmellsSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const report = await detectCodeSmells(storage, {
+          product_id,
+          directory: scopeDir ? normalizeInputPath(scopeDir, workspaceRoot) : undefined,
+          rootDir: workspaceRoot,
+          kinds,
+          minSeverity,
+          thresholds,
+          limit,
+        });
+
+        logger.info(
+          "SMELLS",
+          "Code smell detection complete",
+          { smellCount: report.smellCount, entitiesAnalyzed: report.entitiesAnalyzed, timeMs: report.timeMs },
           requestId,
         );
 
-        logger.debug("ANALYZE_HOTSPOTS", "Relationships fetched", { count: rels.length }, requestId);
-
-        const counts = new Map<string, { incoming: number; outgoing: number }>();
-        for (const rel of rels) {
-          const from = counts.get(rel.fromId) ?? { incoming: 0, outgoing: 0 };
-          from.outgoing += 1;
-          counts.set(rel.fromId, from);
-
-          const to = counts.get(rel.toId) ?? { incoming: 0, outgoing: 0 };
-          to.incoming += 1;
-          counts.set(rel.toId, to);
-        }
+        return toolResult({ success: true, ...report });
+      }
 
-        logger.debug("ANALYZE_HOTSPOTS", "Counts computed", { uniqueEntities: counts.size }, requestId);
+      case "find_dead_code": {
+        const {
+          product_id,
+          directory: scopeDir,
+          entryFiles,
+          entryPoints,
+          includeTests,
+          exportsAreUsed,
+          minConfidence,
+          limit,
+        } = FindDeadCodeSchema.parse(args);
+        const storage = await getGraphStorage(globalSQLiteManager);
+        const report = await findDeadCode(storage, {
+          product_id,
+          directory: scopeDir ? normalizeInputPath(scopeDir, workspaceRoot) : undefined,
+          rootDir: workspaceRoot,
+          entryFiles,
+          entryPoints,
+          includeTests,
+          exportsAreUsed,
+          minConfidence,
+          limit,
+        });
 
-        const ranked = Array.from(counts.entries())
-          .map(([id, data]) => ({ id, ...data, total: data.incoming + data.outgoing }))
-          .sort((a, b) => b.total - a.total)
-          .slice(0, limit ?? 10);
+        logger.info(
+          "DEAD_CODE",
+          "Dead code detection complete",
+          { deadCount: report.deadCount, entitiesAnalyzed: report.entitiesAnalyzed, timeMs: report.timeMs },
+          requestId,
+        );
 
-        logger.debug("ANALYZE_HOTSPOTS", "Ranked entities", { topCount: ranked.length }, requestId);
+        return toolResult({ success: true, ...report });
+      }
 
-        const hotspots = [] as Array<{
-          entity: ReturnType<typeof mapEntitySummary>;
-          metrics: { incoming: number; outgoing: number; total: number };
-          score: number;
-        }>;
+      case "get_clone_trends": {
+        const { product_id, limit } = GetCloneTrendsSchema.parse(args);
+        const trends = getCloneTrends(cloneRunStore, { product_id, limit });
+        return toolResult({ success: true, trends });
+      }
 
-        for (const entry of ranked) {
-          const entity = await storage.getEntity(entry.id);
-          if (!entity) {
-            logger.debug("ANALYZE_HOTSPOTS", "Entity not found in storage", { entityId: entry.id }, requestId);
-            continue;
-          }
-          const baseScore = entry.total * 10 + entry.incoming * 5;
-          const metricScore =
-            metric === "complexity" ? entry.total * 2 : metric === "coupling" ? entry.incoming * 3 : entry.outgoing * 3;
-          hotspots.push({
-            entity: mapEntitySummary(entity),
-            metrics: { incoming: entry.incoming, outgoing: entry.outgoing, total: entry.total },
-            score: Math.round(baseScore + metricScore),
-          });
+      case "export_clone_report": {
+        const { format, runId, product_id, onlyNew } = ExportCloneReportSchema.parse(args);
+        const run = runId
+          ? cloneRunStore.getRun(runId, true)
+          : cloneRunStore.getLatestRun(cloneRunScope([workspaceRoot], product_id), true);
+        if (!run) {
+          throw new Error(
+            runId ? `Clone run not found: ${runId}` : "No clone run recorded yet; run jscpd_detect_clones first",
+          );
         }
 
-        const elapsed = Date.now() - startTime;
-        logger.info("ANALYZE_HOTSPOTS", "Hotspot analysis complete", { hotspots: hotspots.length, elapsed }, requestId);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  metric,
-                  limit: limit ?? 10,
-                  hotspots,
-                  sampleSize: rels.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        const report = renderCloneReport(run, format, { onlyNew });
+        return toolResult({ success: true, ...report, diff: run.diff });
       }
 
       case "find_related_concepts": {
         const { entityId, limit } = FindRelatedConceptsSchema.parse(args);
         await ensureSemanticsReady(1, 20000);
         const storage = await getGraphStorage(globalSQLiteManager);
-        const entity = await resolveEntity(storage, entityId);
-        if (!entity) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ success: false, error: `Entity not found: ${entityId}` }, null, 2),
-              },
-            ],
-          };
-        }
+        const entity = await resolveToolEntity(storage, entityId, toolContext);
 
         // Read code snippet for this entity using stored location
         const fs = await import("node:fs/promises");
-        const entityFilePath = normalizeInputPath(entity.filePath) ?? entity.filePath;
+        const entityFilePath = normalizeStoredPath(entity.filePath, workspaceRoot);
         let snippet = "";
         try {
           const full = await fs.readFile(entityFilePath, "utf8");
@@ -2236,18 +3182,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           results = [];
         }
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                { entity: { id: entity.id, name: entity.name, filePath: entityFilePath }, related: results },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({ entity: { id: entity.id, name: entity.name, filePath: entityFilePath }, related: results });
       }
 
       case "get_graph": {
@@ -2268,47 +3203,23 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           requestId,
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  entities: result.entities,
-                  relations: result.relationships,
-                  stats: {
-                    totalNodes: result.stats.totalEntities,
-                    totalRelations: result.stats.totalRelationships,
-                  },
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          entities: result.entities,
+          relations: result.relationships,
+          stats: {
+            totalNodes: result.stats.totalEntities,
+            totalRelations: result.stats.totalRelationships,
+          },
+        });
       }
 
       case "analyze_code_impact": {
         const { entityId, filePath: hintFilePath, product_id } = AnalyzeCodeImpactSchema.parse(args);
         const storage = await getGraphStorage(globalSQLiteManager);
-        const resolvedHintPath = hintFilePath ? normalizeInputPath(hintFilePath) : undefined;
-
-        let entity = await storage.getEntity(entityId);
-        if (!entity) {
-          entity = await resolveEntityWithHint(storage, entityId, resolvedHintPath);
-        }
-
-        if (!entity) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify({ success: false, error: `Entity not found: ${entityId}` }, null, 2),
-              },
-            ],
-          };
-        }
+        const entity = await resolveToolEntity(storage, entityId, toolContext, {
+          filePath: hintFilePath,
+          product_id,
+        });
 
         const relationships = await storage.getRelationshipsForEntity(entity.id, undefined, product_id);
         const directIds = new Set<string>();
@@ -2344,7 +3255,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
 
         const affectedFiles = new Set<string>();
         for (const sample of [...directEntities, ...indirectEntities]) {
-          affectedFiles.add(normalizeInputPath(sample.filePath) ?? sample.filePath);
+          affectedFiles.add(normalizeStoredPath(sample.filePath, workspaceRoot));
         }
 
         const totalImpact = directEntities.length + indirectEntities.length;
@@ -2374,35 +3285,28 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           },
         };
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(impact, null, 2),
-            },
-          ],
-        };
+        return toolResult(impact);
       }
 
       case "get_graph_stats": {
         const storage = await getGraphStorage(globalSQLiteManager);
         const stats = await getGraphStats(storage);
+        // What the ignore rules kept out of the last completed index run
+        const lastIndexed = jobManager
+          .listJobs({ status: "completed", limit: 20 })
+          .find((job) => job.progress.skipped !== undefined);
+        const skippedFiles = lastIndexed?.progress.skipped
+          ? { jobId: lastIndexed.id, ...lastIndexed.progress.skipped }
+          : undefined;
 
         logger.info("GRAPH_STATS", "Retrieved graph statistics", stats, requestId);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(stats, null, 2),
-            },
-          ],
-        };
+        return toolResult({ ...stats, ...(skippedFiles ? { skippedFiles } : {}) });
       }
 
       case "lerna_project_graph": {
         const { directory: inputDir, ingest, force } = GetLernaProjectGraphSchema.parse(args ?? {});
-        const targetDir = normalizeInputPath(inputDir) ?? directory;
+        const targetDir = normalizeInputPath(inputDir, workspaceRoot) ?? workspaceRoot;
         const result = await getLernaProjectGraph(targetDir, { force });
 
         if (result.ok) {
@@ -2434,27 +3338,16 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
             requestId,
           );
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    success: true,
-                    cwd: result.cwd,
-                    lernaVersion: result.lernaVersion,
-                    nodeCount: Object.keys(result.graph).length,
-                    graph: result.graph,
-                    ingestSummary,
-                    cached: result.cached ?? false,
-                    force,
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-          };
+          return toolResult({
+            success: true,
+            cwd: result.cwd,
+            lernaVersion: result.lernaVersion,
+            nodeCount: Object.keys(result.graph).length,
+            graph: result.graph,
+            ingestSummary,
+            cached: result.cached ?? false,
+            force,
+          });
         }
 
         logger.warn(
@@ -2470,27 +3363,16 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           requestId,
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: false,
-                  cwd: result.cwd,
-                  reason: result.reason,
-                  message: result.message,
-                  stdout: result.stdout,
-                  stderr: result.stderr,
-                  cached: result.cached ?? false,
-                  force,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          success: false,
+          cwd: result.cwd,
+          reason: result.reason,
+          message: result.message,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          cached: result.cached ?? false,
+          force,
+        });
       }
 
       case "get_graph_health": {
@@ -2526,27 +3408,16 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           requestId,
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  healthy,
-                  reason,
-                  totals: {
-                    entities: metrics.totalEntities,
-                    relationships: metrics.totalRelationships,
-                    files: metrics.totalFiles,
-                  },
-                  sampleCount: sampleQuery.entities.length,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          healthy,
+          reason,
+          totals: {
+            entities: metrics.totalEntities,
+            relationships: metrics.totalRelationships,
+            files: metrics.totalFiles,
+          },
+          sampleCount: sampleQuery.entities.length,
+        });
       }
 
       case "get_agent_metrics": {
@@ -2561,14 +3432,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           knowledgeBus,
         });
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(snapshot, null, 2),
-            },
-          ],
-        };
+        return toolResult(snapshot);
       }
 
       case "get_bus_stats": {
@@ -2576,14 +3440,7 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
 
         const stats = knowledgeBus.getStats();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(stats, null, 2),
-            },
-          ],
-        };
+        return toolResult(stats);
       }
 
       case "clear_bus_topic": {
@@ -2592,22 +3449,11 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         knowledgeBus.clearTopic(topic);
         const stats = knowledgeBus.getStats();
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  topicCleared: topic,
-                  stats,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          success: true,
+          topicCleared: topic,
+          stats,
+        });
       }
 
       // Product Intelligence Management Tools
@@ -2621,44 +3467,22 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
 
         logger.info("PRODUCT_CREATED", "Created new product", { product_id: product.id, name: productName }, requestId);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  product,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          success: true,
+          product,
+        });
       }
 
       case "add_repository_to_product": {
         const { product_id, repository_path, repository_name, repository_type, metadata } =
           AddRepositoryToProductSchema.parse(args);
 
-        const normalizedPath = normalizeInputPath(repository_path);
+        const normalizedPath = normalizeInputPath(repository_path, workspaceRoot);
         if (!normalizedPath) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    success: false,
-                    error: `Invalid repository path: ${repository_path}`,
-                  },
-                  null,
-                  2,
-                ),
-              },
-            ],
-          };
+          return toolResult({
+            success: false,
+            error: `Invalid repository path: ${repository_path}`,
+          });
         }
 
         const repository = projectManager.addRepository(product_id, {
@@ -2677,22 +3501,11 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
           requestId,
         );
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  repository,
-                  message: `Repository added to product. Use index tool with product_id="${product_id}" to index this repository.`,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          success: true,
+          repository,
+          message: `Repository added to product. Use index tool with product_id="${product_id}" to index this repository.`,
+        });
       }
 
       case "list_products": {
@@ -2706,24 +3519,13 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
 
         logger.info("PRODUCTS_LISTED", "Listed products", { count: projects.length, offset, limit }, requestId);
 
-        return {
-          content: [
-            {
-              type: "text",
-              text: JSON.stringify(
-                {
-                  success: true,
-                  products: projects,
-                  total: projects.length,
-                  limit,
-                  offset,
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
+        return toolResult({
+          success: true,
+          products: projects,
+          total: projects.length,
+          limit,
+          offset,
+        });
       }
 
       default:
@@ -2740,78 +3542,141 @@ async function executeToolCall(name: string, args: unknown, requestId: string, s
         requestId,
       );
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                success: false,
-                errorType: "agent_busy",
-                error: errorMessage,
-                details: error.details,
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      };
+      return toolResult({
+        success: false,
+        errorType: "agent_busy",
+        error: errorMessage,
+        details: error.details,
+      });
+    }
+
+    if (error instanceof PathNotAllowedError) {
+      logger.warn("PATH_NOT_ALLOWED", errorMessage, { tool: name, path: error.path }, requestId);
+
+      return toolResult({
+        success: false,
+        errorType: "path_not_allowed",
+        error: errorMessage,
+        path: error.path,
+      });
+    }
+
+    if (error instanceof EntityResolutionError) {
+      logger.info("ENTITY_UNRESOLVED", errorMessage, { tool: name, status: error.details.status }, requestId);
+
+      return toolResult({
+        success: false,
+        errorType: error.details.status === "ambiguous" ? "ambiguous_entity" : "entity_not_found",
+        error: errorMessage,
+        identifier: error.details.identifier,
+        candidates: error.details.candidates,
+      });
     }
 
     logger.mcpError(name, error instanceof Error ? error : new Error(errorMessage), requestId);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(
-            {
-              success: false,
-              error: errorMessage,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+    return toolResult({
+      success: false,
+      error: errorMessage,
+    });
   }
 }
 
 // Initialize the tool executor for HTTP API routes
 initializeToolExecutor(executeToolCall);
 
-// Handler for tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const requestId = createRequestId();
-  const startTime = Date.now();
-
-  logger.mcpRequest(name, args, requestId);
+// MCP servers not yet closed; closed on shutdown
+const activeServers = new Set<Server>();
 
-  const result = await executeToolCall(name, args, requestId, startTime);
+const toolRegistry = new McpToolRegistry({
+  listTools: listToolDefinitions,
+  executeTool: executeToolCall,
+});
 
-  // Log response details for debugging Windsurf hang issues
-  const responseText = result.content?.[0]?.text || "";
-  logger.info(
-    "MCP_RESPONSE",
-    "Sending response to client",
+/**
+ * Create an MCP server with the tools, resources and prompts, bound to a workspace; stdio hosts
+ * one for the server root, the HTTP transports one per session
+ */
+function createMcpServer(workspace: McpWorkspace = { rootDir: directory }): Server {
+  const server = new Server(
     {
-      tool: name,
-      contentLength: responseText.length,
-      elapsed: Date.now() - startTime,
+      name: versionInfo.name,
+      version: versionInfo.version,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+      },
     },
-    requestId,
   );
+  const runTool = async (name: string, args: unknown) => {
+    const scoped = scopeToolArguments(args, workspace);
+    if (scoped.error) return toolResult({ success: false, errorType: "forbidden", error: scoped.error });
+    return executeToolCall(name, scoped.args, createRequestId(), Date.now(), { workspace });
+  };
 
-  // Force stdout flush to ensure response reaches Windsurf
-  if (process.stdout.write("")) {
-    // Flush successful
-  }
+  toolRegistry.attach(server, workspace);
 
-  return result;
-});
+  // Files, entities, products and reports as MCP resources
+  const resourceProvider = new McpResourceProvider({
+    rootDir: workspace.rootDir,
+    getStorage: () => getGraphStorage(globalSQLiteManager),
+    projectManager,
+    runTool,
+  });
+  resourceProvider.attach(server);
+
+  // Workflow prompts defined in YAML next to the active config file
+  const promptRegistry = new McpPromptRegistry({
+    configDir: ConfigLoader.getInstance().getConfigDir(),
+    resolveEntity: async (identifier, hintFilePath) => {
+      const storage = await getGraphStorage(globalSQLiteManager);
+      return resolveToolEntity(
+        storage,
+        identifier,
+        { workspace },
+        { filePath: hintFilePath, product_id: workspace.product_id },
+      );
+    },
+    runTool,
+    readResource: (uri) => resourceProvider.readResource(uri),
+  });
+  promptRegistry.attach(server);
+
+  activeServers.add(server);
+  server.onclose = () => {
+    activeServers.delete(server);
+    resourceProvider.detach();
+  };
+  return server;
+}
+
+/**
+ * Check the workspace an HTTP client asked for: the root must be a directory under an allowed
+ * root (relative roots resolve against the server root) and the product must exist
+ */
+function resolveSessionWorkspace(request: McpWorkspaceRequest): McpWorkspace {
+  let rootDir: string;
+  try {
+    rootDir = normalizeInputPath(request.rootDir) ?? directory;
+  } catch (error) {
+    if (!(error instanceof PathNotAllowedError)) throw error;
+    throw new HttpError(403, "Workspace root is outside the allowed roots", "PATH_NOT_ALLOWED", {
+      rootDir: error.path,
+    });
+  }
+  if (!existsSync(rootDir) || !statSync(rootDir).isDirectory()) {
+    throw new HttpError(400, `Workspace root is not a directory: ${rootDir}`, "INVALID_WORKSPACE", { rootDir });
+  }
+  if (request.product_id && !projectManager.projectExists(request.product_id)) {
+    throw new HttpError(404, `Product not found: ${request.product_id}`, "NOT_FOUND", {
+      product_id: request.product_id,
+    });
+  }
+  return { rootDir, product_id: request.product_id };
+}
 
 async function processDebugRequests(requests: DebugRequest[]): Promise<void> {
   for (const { parsed, raw } of requests) {
@@ -2849,6 +3714,14 @@ process.on("SIGINT", async () => {
   console.log("\nShutting down gracefully...");
   logger.systemEvent("MCP Server Shutdown Initiated");
 
+  if (fileWatcher) {
+    await fileWatcher.stop();
+    logger.systemEvent("File Watcher Stopped");
+  }
+
+  await Promise.allSettled(Array.from(activeServers, (server) => server.close()));
+  jobManager.detach();
+
   if (conductor) {
     await conductor.shutdown();
     logger.systemEvent("Conductor Shutdown Complete");
@@ -2920,161 +3793,65 @@ async function main() {
       }),
     );
 
-    // Store active transports (supports both SSE and Streamable HTTP)
-    const transports = new Map<string, SSEServerTransport | StreamableHTTPServerTransport>();
-
-    // =============================================================================
-    // STREAMABLE HTTP TRANSPORT (Protocol version 2025-03-26) - for n8n compatibility
-    // =============================================================================
-    app.all("/mcp", async (req, res): Promise<void> => {
-      const requestId = randomUUID();
-      logger.info("MCP_STREAMABLE", `Received ${req.method} request to /mcp`, { method: req.method }, requestId);
-
-      try {
-        // Check for existing session ID
-        const sessionId = req.headers["mcp-session-id"] as string | undefined;
-        let transport: StreamableHTTPServerTransport;
-
-        if (sessionId && transports.has(sessionId)) {
-          const existingTransport = transports.get(sessionId);
-          if (existingTransport instanceof StreamableHTTPServerTransport) {
-            transport = existingTransport;
-          } else {
-            res.status(400).json({
+    // API keys guard the MCP endpoints and the HTTP API; tool calls are checked per scope
+    const apiKeyStore = new ApiKeyStore(globalSQLiteManager);
+    const requireAuth = [authenticate(apiKeyStore), requireScope("read")];
+
+    // One MCP server per session, bound to the workspace (root directory, product) it asked for
+    const sessions = new McpSessionManager({
+      createServer: createMcpServer,
+      resolveWorkspace: resolveSessionWorkspace,
+      messagesPath: "/messages",
+      idleTimeoutMs: process.env.MCP_SESSION_IDLE_MS ? Number(process.env.MCP_SESSION_IDLE_MS) : undefined,
+    });
+
+    const handleMcp =
+      (label: string, handler: (req: Request, res: Response) => Promise<void>) =>
+      async (req: Request, res: Response): Promise<void> => {
+        const requestId = randomUUID();
+        logger.info(label, `Received ${req.method} request to ${req.path}`, { method: req.method }, requestId);
+        try {
+          await handler(req, res);
+        } catch (error) {
+          logger.error(`${label}_ERROR`, "Error handling MCP request", {}, requestId, error as Error);
+          if (!res.headersSent) {
+            res.status(500).json({
               jsonrpc: "2.0",
               error: {
-                code: -32000,
-                message: "Bad Request: Session exists but uses a different transport protocol",
+                code: -32603,
+                message: "Internal server error",
               },
               id: null,
             });
-            return;
           }
-        } else if (!sessionId && req.method === "POST" && isInitializeRequest(req.body)) {
-          // New session initialization
-          transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: () => randomUUID(),
-            onsessioninitialized: (newSessionId) => {
-              logger.info(
-                "MCP_SESSION",
-                `StreamableHTTP session initialized: ${newSessionId}`,
-                { sessionId: newSessionId },
-                requestId,
-              );
-              transports.set(newSessionId, transport);
-            },
-          });
-
-          transport.onclose = () => {
-            const sid = transport.sessionId;
-            if (sid && transports.has(sid)) {
-              logger.info("MCP_CLOSED", `StreamableHTTP session closed: ${sid}`, { sessionId: sid }, requestId);
-              transports.delete(sid);
-            }
-          };
-
-          // Connect to the MCP server
-          await server.connect(transport);
-        } else {
-          res.status(400).json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32000,
-              message: "Bad Request: No valid session ID provided",
-            },
-            id: null,
-          });
-          return;
-        }
-
-        // Handle the request
-        await transport.handleRequest(req as any, res as any, req.body);
-      } catch (error) {
-        logger.error("MCP_ERROR", "Error handling MCP request", {}, requestId, error as Error);
-        if (!res.headersSent) {
-          res.status(500).json({
-            jsonrpc: "2.0",
-            error: {
-              code: -32603,
-              message: "Internal server error",
-            },
-            id: null,
-          });
         }
-      }
-    });
-
-    // =============================================================================
-    // SSE TRANSPORT (Protocol version 2024-11-05) - legacy support
-    // =============================================================================
-
-    // SSE endpoint - establishes event stream
-    app.get("/sse", async (_req, res) => {
-      const sessionId = randomUUID();
-      logger.info("SSE_CONNECTION", "New SSE connection", { sessionId }, sessionId);
-
-      try {
-        const transport = new SSEServerTransport("/messages", res as any);
-        transports.set(sessionId, transport);
-
-        await server.connect(transport);
-        await transport.start();
-
-        transport.onclose = () => {
-          logger.info("SSE_CLOSED", "Connection closed", { sessionId }, sessionId);
-          transports.delete(sessionId);
-        };
-
-        transport.onerror = (error) => {
-          logger.error("SSE_ERROR", "Transport error", { sessionId }, sessionId, error);
-          transports.delete(sessionId);
-        };
-      } catch (error) {
-        logger.error("SSE_START_ERROR", "Failed to start SSE", { sessionId }, sessionId, error as Error);
-        if (!res.headersSent) {
-          res.status(500).json({ error: "Failed to establish SSE connection" });
-        }
-      }
-    });
-
-    // Messages endpoint - receives client messages (SSE transport only)
-    app.post("/messages", async (req, res): Promise<void> => {
-      const sessionId = (req.body?.meta?.sessionId || req.headers["mcp-session-id"] || req.query.sessionId) as string;
-      const requestId = randomUUID();
-
-      if (!sessionId) {
-        res.status(400).json({ error: "Missing session ID" });
-        return;
-      }
-
-      const transport = transports.get(sessionId);
-      if (!transport) {
-        res.status(404).json({ error: "Session not found" });
-        return;
-      }
+      };
 
-      // This endpoint is only for SSE transport
-      if (!(transport instanceof SSEServerTransport)) {
-        res.status(400).json({ error: "This endpoint is only for SSE transport. Use /mcp for Streamable HTTP." });
-        return;
-      }
+    // Streamable HTTP (protocol 2025-03-26), resumable with Last-Event-ID
+    app.all(
+      "/mcp",
+      ...requireAuth,
+      handleMcp("MCP_STREAMABLE", (req, res) => sessions.handleStreamable(req, res)),
+    );
 
-      try {
-        await transport.handlePostMessage(req as any, res as any, req.body);
-      } catch (error) {
-        logger.error("MESSAGE_ERROR", "Failed to handle message", { sessionId }, requestId, error as Error);
-        if (!res.headersSent) {
-          res.status(500).json({ error: "Failed to process message" });
-        }
-      }
-    });
+    // Legacy SSE (protocol 2024-11-05): GET /sse opens the stream, POST /messages sends to it
+    app.get(
+      "/sse",
+      ...requireAuth,
+      handleMcp("SSE_CONNECTION", (req, res) => sessions.openSse(req, res)),
+    );
+    app.post(
+      "/messages",
+      ...requireAuth,
+      handleMcp("MCP_MESSAGE", (req, res) => sessions.handleSseMessage(req, res)),
+    );
 
     // Health check
     app.get("/health", (_req, res) => {
       res.json({
         status: "healthy",
         transport: "sse+streamable",
-        activeSessions: transports.size,
+        activeSessions: sessions.size,
         directory,
         timestamp: new Date().toISOString(),
       });
@@ -3097,16 +3874,20 @@ async function main() {
           api: {
             projects: `http://${HOST}:${PORT}/api/projects`,
             index: `http://${HOST}:${PORT}/api/index`,
+            jobs: `http://${HOST}:${PORT}/api/jobs`,
             semantic: `http://${HOST}:${PORT}/api/semantic`,
             analysis: `http://${HOST}:${PORT}/api/analysis`,
             graph: `http://${HOST}:${PORT}/api/graph`,
             agents: `http://${HOST}:${PORT}/api/agents`,
             lerna: `http://${HOST}:${PORT}/api/lerna`,
+            auth: `http://${HOST}:${PORT}/api/auth`,
           },
         },
         usage: {
           n8n_streamable: `Configure MCP node with: http://localhost:${PORT}/mcp (HTTP Streamable)`,
           n8n_sse: `Configure MCP node with: http://localhost:${PORT}/sse (SSE)`,
+          workspace:
+            "Pick a session's root directory (under the server root) and product with the Mcp-Workspace-Root and Mcp-Product-Id headers, or the root and product_id query parameters",
         },
       });
     });
@@ -3118,8 +3899,13 @@ async function main() {
     // Add request logging middleware for API routes
     apiRouter.use(requestLogger);
 
+    // Every API route needs at least the read scope; routes that change data require more
+    apiRouter.use(...requireAuth);
+
     // Register all HTTP API routes
+    apiRouter.use("/auth", createAuthRoutes(apiKeyStore));
     apiRouter.use("/index", indexRoutes);
+    apiRouter.use("/jobs", jobsRoutes);
     apiRouter.use("/semantic", semanticRoutes);
     apiRouter.use("/analysis", analysisRoutes);
     apiRouter.use("/graph", graphRoutes);
@@ -3134,6 +3920,9 @@ async function main() {
     // Mount the API router
     app.use("/api", apiRouter);
 
+    // Authentication failures on the MCP endpoints
+    app.use(errorHandler);
+
     // Start HTTP server
     app.listen(PORT, HOST, () => {
       console.log(`\n🚀 MCP Server Ready`);
@@ -3166,12 +3955,8 @@ async function main() {
 
     // Graceful shutdown
     process.on("SIGTERM", () => {
-      logger.systemEvent("MCP Server Shutting Down", { transport: "sse", activeSessions: transports.size });
-      for (const [sessionId, transport] of transports.entries()) {
-        logger.info("SHUTDOWN", "Closing transport", { sessionId }, sessionId);
-        transport.close();
-      }
-      process.exit(0);
+      logger.systemEvent("MCP Server Shutting Down", { transport: "sse", activeSessions: sessions.size });
+      sessions.closeAll().finally(() => process.exit(0));
     });
   } else {
     // stdio transport (default)
@@ -3185,7 +3970,7 @@ async function main() {
       logger.systemEvent("MCP Server Transport Closed", { transport: "stdio" });
     };
 
-    await server.connect(transport);
+    await createMcpServer().connect(transport);
     console.log("MCP server running on stdio transport");
     logger.systemEvent("MCP Server Ready", {
       directory,
@@ -3226,6 +4011,11 @@ async function main() {
       await getDoraAgent();
       await getSemanticAgent();
       console.log("Core agents initialized (background): DevAgent, DoraAgent, SemanticAgent");
+
+      if (watchRequested || config.indexer.watch?.enabled) {
+        fileWatcher = startFileWatcher();
+        console.log(`Watching ${directory} for changes`);
+      }
     } catch (error) {
       console.error("Background agent init failed:", error);
       logger.error("AGENT_INIT", "Background agent initialization failed", { error: (error as Error).message });
@@ -0,0 +1,382 @@
+/**
+ * Code Metrics
+ * Computes cyclomatic and cognitive complexity, nesting depth, parameter count, LOC/SLOC and
+ * Halstead metrics for functions and methods from their tree-sitter nodes. Node types are matched
+ * across all grammars the parser loads; VBA has no grammar and is measured line by line.
+ */
+
+import type Parser from "tree-sitter";
+import type { CodeMetrics, HalsteadMetrics } from "../types/code-metrics.js";
+import type { ParsedEntity, SupportedLanguage } from "../types/parser.js";
+
+/** Entity types that own a body of code; properties only when they are accessor functions */
+export const MEASURED_ENTITY_TYPES = new Set<ParsedEntity["type"]>([
+  "property",
+  "function",
+  "method",
+  "async_function",
+  "generator",
+  "lambda",
+  "magic_method",
+  "abstract_method",
+  "class_method",
+  "static_method",
+  "context_manager",
+]);
+
+const IF_NODES = new Set(["if_statement", "if_expression", "if_let_expression"]);
+const LOOP_NODES = new Set([
+  "for_statement",
+  "for_in_statement",
+  "for_of_statement",
+  "for_range_loop",
+  "enhanced_for_statement",
+  "foreach_statement",
+  "for_expression",
+  "while_statement",
+  "while_expression",
+  "loop_expression",
+  "do_statement",
+]);
+const SWITCH_NODES = new Set([
+  "switch_statement",
+  "switch_expression",
+  "match_statement",
+  "match_expression",
+  "expression_switch_statement",
+  "type_switch_statement",
+  "select_statement",
+]);
+const CASE_NODES = new Set([
+  "switch_case",
+  "case_statement",
+  "switch_section",
+  "switch_block_statement_group",
+  "switch_rule",
+  "switch_expression_arm",
+  "expression_case",
+  "type_case",
+  "communication_case",
+  "case_clause",
+  "match_arm",
+]);
+const CATCH_NODES = new Set(["catch_clause", "except_clause"]);
+const TERNARY_NODES = new Set(["ternary_expression", "conditional_expression"]);
+const ELSE_NODES = new Set(["else_clause", "elif_clause"]);
+// Comprehension filters branch like an `if` but do not nest
+const FLAT_BRANCH_NODES = new Set(["if_clause"]);
+const NESTED_FUNCTION_NODES = new Set([
+  "arrow_function",
+  "function_expression",
+  "function",
+  "function_declaration",
+  "generator_function",
+  "generator_function_declaration",
+  "lambda",
+  "lambda_expression",
+  "closure_expression",
+  "func_literal",
+  "anonymous_method_expression",
+  "local_function_statement",
+  "function_definition",
+]);
+const LOGICAL_OPERATORS = new Set(["&&", "||", "and", "or"]);
+// Property entities that are functions: Python @property methods, getters and setters
+const ACCESSOR_NODE = /function|method|accessor|decorated_definition/;
+
+const STRING_NODE = /string|char|rune/;
+const STRING_PART = /content|fragment|start|end|interpolation|escape/;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isLogical(node: Parser.SyntaxNode): string | null {
+  if (node.type !== "binary_expression" && node.type !== "boolean_operator") return null;
+  const operator = node.childForFieldName("operator")?.type ?? node.child(1)?.type;
+  return operator && LOGICAL_OPERATORS.has(operator) ? operator : null;
+}
+
+function isDefaultCase(node: Parser.SyntaxNode): boolean {
+  if (node.type === "match_arm") return node.childForFieldName("pattern")?.text.trim() === "_";
+  const text = node.text.trimStart();
+  return /^default\b/.test(text) || /^case\s+_\s*:/.test(text);
+}
+
+function isElseIf(node: Parser.SyntaxNode): boolean {
+  const parent = node.parent;
+  if (!parent) return false;
+  if (parent.type === "else_clause") return true;
+  const alternative = IF_NODES.has(parent.type) ? parent.childForFieldName("alternative") : null;
+  return alternative?.startIndex === node.startIndex && alternative.type === node.type;
+}
+
+/** Java, C# and Go attach a bare block as the `else` of an if */
+function hasBareElse(node: Parser.SyntaxNode): boolean {
+  const alternative = node.childForFieldName("alternative");
+  return alternative !== null && !ELSE_NODES.has(alternative.type) && !IF_NODES.has(alternative.type);
+}
+
+function findParameterList(node: Parser.SyntaxNode): Parser.SyntaxNode | null {
+  const direct = node.childForFieldName("parameters") ?? node.childForFieldName("parameter");
+  if (direct) return direct;
+  // C and C++ keep the parameter list inside nested declarators
+  let declarator = node.childForFieldName("declarator");
+  while (declarator) {
+    const parameters = declarator.childForFieldName("parameters");
+    if (parameters) return parameters;
+    declarator = declarator.childForFieldName("declarator");
+  }
+  return null;
+}
+
+function countParameters(node: Parser.SyntaxNode): number {
+  const list = findParameterList(node);
+  if (!list) return 0;
+  // A lone arrow function parameter is the identifier itself
+  if (list.namedChildCount === 0) return list.type.endsWith("identifier") ? 1 : 0;
+  return list.namedChildren.filter(
+    (child, index) =>
+      !child.type.includes("comment") &&
+      child.type !== "self_parameter" &&
+      !(index === 0 && child.type === "identifier" && (child.text === "self" || child.text === "cls")),
+  ).length;
+}
+
+function halstead(operators: Map<string, number>, operands: Map<string, number>): HalsteadMetrics {
+  const sum = (counts: Map<string, number>) => [...counts.values()].reduce((total, count) => total + count, 0);
+  const distinctOperators = operators.size;
+  const distinctOperands = operands.size;
+  const totalOperators = sum(operators);
+  const totalOperands = sum(operands);
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = totalOperators + totalOperands;
+  const volume = vocabulary > 1 ? length * Math.log2(vocabulary) : 0;
+  const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+  return {
+    distinctOperators,
+    distinctOperands,
+    totalOperators,
+    totalOperands,
+    vocabulary,
+    length,
+    volume: round(volume),
+    difficulty: round(difficulty),
+    effort: round(difficulty * volume),
+    bugs: round(volume / 3000),
+  };
+}
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+/**
+ * Metrics of one function or method node
+ */
+export function computeNodeMetrics(node: Parser.SyntaxNode): CodeMetrics {
+  let decisions = 0;
+  let cognitive = 0;
+  let maxNesting = 0;
+  const codeLines = new Set<number>();
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+
+  const visit = (current: Parser.SyntaxNode, nesting: number) => {
+    const type = current.type;
+    const isString = current.isNamed && STRING_NODE.test(type) && !STRING_PART.test(type);
+
+    if (current.childCount === 0 || isString) {
+      if (type.includes("comment") || current.startIndex === current.endIndex) return;
+      for (let line = current.startPosition.row; line <= current.endPosition.row; line++) codeLines.add(line);
+      if (current.isNamed) increment(operands, current.text);
+      else increment(operators, type);
+      return;
+    }
+
+    let childNesting = nesting;
+    if (IF_NODES.has(type)) {
+      decisions += 1;
+      if (isElseIf(current)) {
+        cognitive += 1;
+      } else {
+        cognitive += 1 + nesting;
+        maxNesting = Math.max(maxNesting, nesting + 1);
+        childNesting = nesting + 1;
+      }
+      if (hasBareElse(current)) cognitive += 1;
+    } else if (ELSE_NODES.has(type)) {
+      if (type === "elif_clause") decisions += 1;
+      const branch = current.namedChildren.find((child) => !child.type.includes("comment"));
+      if (!(type === "else_clause" && branch && IF_NODES.has(branch.type))) cognitive += 1;
+    } else if (LOOP_NODES.has(type) || CATCH_NODES.has(type) || TERNARY_NODES.has(type)) {
+      decisions += 1;
+      cognitive += 1 + nesting;
+      maxNesting = Math.max(maxNesting, nesting + 1);
+      childNesting = nesting + 1;
+    } else if (SWITCH_NODES.has(type)) {
+      cognitive += 1 + nesting;
+      maxNesting = Math.max(maxNesting, nesting + 1);
+      childNesting = nesting + 1;
+    } else if (CASE_NODES.has(type)) {
+      if (!isDefaultCase(current)) decisions += 1;
+    } else if (FLAT_BRANCH_NODES.has(type)) {
+      decisions += 1;
+      cognitive += 1;
+    } else if (type === "goto_statement") {
+      cognitive += 1;
+    } else if (NESTED_FUNCTION_NODES.has(type) && current !== node) {
+      childNesting = nesting + 1;
+    } else {
+      // A run of the same logical operator counts once; each switch of operator counts again
+      const operator = isLogical(current);
+      if (operator) {
+        decisions += 1;
+        const parent = current.parent;
+        if (!parent || isLogical(parent) !== operator) cognitive += 1;
+      }
+    }
+
+    for (const child of current.children) visit(child, childNesting);
+  };
+
+  visit(node, 0);
+
+  return {
+    cyclomatic: decisions + 1,
+    cognitive,
+    maxNesting,
+    parameters: countParameters(node),
+    loc: node.endPosition.row - node.startPosition.row + 1,
+    sloc: codeLines.size,
+    halstead: halstead(operators, operands),
+  };
+}
+
+/**
+ * The node an entity was extracted from: the innermost node spanning exactly its location (a
+ * block holding only that function spans the same range)
+ */
+function findEntityNode(root: Parser.SyntaxNode, entity: ParsedEntity): Parser.SyntaxNode | null {
+  const { start, end } = entity.location;
+  if (end.index <= start.index) return null;
+  const node = root.descendantForIndex(start.index, end.index - 1);
+  return node && node.startIndex === start.index && node.endIndex === end.index ? node : null;
+}
+
+const VBA_PROCEDURE = /^\s*(?:(?:public|private|friend|static)\s+)*(sub|function|property\s+(?:get|let|set))\s/i;
+const VBA_TOKEN = /"(?:[^"\n]|"")*"|\d[\w.]*|[A-Za-z_][\w]*|<>|<=|>=|:=|\S/g;
+const VBA_KEYWORDS = new Set(
+  "and as byref byval call case const dim do each else elseif end exit false for function if in is let loop me mod new next not nothing optional or private property public redim select set step sub then to true until wend while with".split(
+    " ",
+  ),
+);
+
+/**
+ * VBA procedures, measured from their source lines; block keywords stand in for syntax nodes
+ */
+export function computeVbaMetrics(lines: string[], startLine: number): CodeMetrics | null {
+  const header = lines[startLine - 1];
+  const kind = header?.match(VBA_PROCEDURE)?.[1];
+  if (!header || !kind) return null;
+  const endPattern = new RegExp(`^\\s*end\\s+${kind.split(/\s+/)[0]}\\b`, "i");
+
+  let decisions = 0;
+  let cognitive = 0;
+  let nesting = 0;
+  let maxNesting = 0;
+  let sloc = 0;
+  let endLine = startLine;
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+
+  const open = () => {
+    cognitive += 1 + nesting;
+    nesting += 1;
+    maxNesting = Math.max(maxNesting, nesting);
+  };
+
+  for (let index = startLine - 1; index < lines.length; index++) {
+    // Strings are masked before the comment is cut so an apostrophe inside one is kept
+    const code = lines[index]!.replace(/"(?:[^"\n]|"")*"/g, '""').replace(/'.*$/, "");
+    endLine = index + 1;
+    if (code.trim()) sloc += 1;
+    for (const match of code.matchAll(VBA_TOKEN)) {
+      const word = match[0].toLowerCase();
+      if (/^["\d]/.test(word) || (/^[a-z_]/.test(word) && !VBA_KEYWORDS.has(word))) increment(operands, word);
+      else increment(operators, word);
+    }
+    if (index > startLine - 1 && endPattern.test(code)) break;
+
+    const statement = code.trim().toLowerCase();
+    if (/^if\b.*\bthen\s*$/.test(statement)) {
+      decisions += 1;
+      open();
+    } else if (/^if\b/.test(statement)) {
+      // Single-line If ... Then ...
+      decisions += 1;
+      cognitive += 1 + nesting;
+    } else if (/^elseif\b/.test(statement)) {
+      decisions += 1;
+      cognitive += 1;
+    } else if (/^else\b/.test(statement)) {
+      cognitive += 1;
+    } else if (/^(for|do|while)\b/.test(statement)) {
+      decisions += 1;
+      open();
+    } else if (/^select\s+case\b/.test(statement)) {
+      open();
+    } else if (/^case\b/.test(statement) && !/^case\s+else\b/.test(statement)) {
+      decisions += 1;
+    } else if (/^(end\s+(if|select)|next|loop|wend)\b/.test(statement)) {
+      nesting = Math.max(0, nesting - 1);
+    }
+    const logical = statement.match(/\b(and|or|andalso|orelse)\b/g);
+    if (logical) {
+      decisions += logical.length;
+      cognitive += logical.filter((operator, position) => operator !== logical[position - 1]).length;
+    }
+  }
+
+  const parameterList = header.match(/\(([^)]*)\)/)?.[1]?.trim();
+  return {
+    cyclomatic: decisions + 1,
+    cognitive,
+    maxNesting,
+    parameters: parameterList ? parameterList.split(",").length : 0,
+    loc: endLine - startLine + 1,
+    sloc,
+    halstead: halstead(operators, operands),
+  };
+}
+
+/**
+ * Attach metrics to every function and method, including those nested as children
+ */
+export function attachCodeMetrics(
+  entities: ParsedEntity[],
+  root: Parser.SyntaxNode | null,
+  content: string,
+  language: SupportedLanguage,
+): ParsedEntity[] {
+  const lines = language === "vba" ? content.split(/\r?\n/) : [];
+
+  const measure = (entity: ParsedEntity): ParsedEntity => {
+    const children = entity.children?.map(measure);
+    let metrics: CodeMetrics | null = null;
+    if (MEASURED_ENTITY_TYPES.has(entity.type)) {
+      if (language === "vba") {
+        metrics = computeVbaMetrics(lines, entity.location.start.line);
+      } else if (root) {
+        const node = findEntityNode(root, entity);
+        const isCode = node && (entity.type !== "property" || ACCESSOR_NODE.test(node.type));
+        metrics = isCode ? computeNodeMetrics(node) : null;
+      }
+    }
+    return {
+      ...entity,
+      ...(children ? { children } : {}),
+      ...(metrics ? { metrics } : {}),
+    };
+  };
+
+  return entities.map(measure);
+}
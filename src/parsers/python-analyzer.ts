@@ -1010,12 +1010,17 @@ export class PythonAnalyzer {
         isRelative = moduleNode.text.startsWith(".");
       }
 
-      // Extract imported names
+      // Extract imported names (tree-sitter-python lists them directly after the module name)
       const importList = node.descendantsOfType("import_list")[0];
-      if (importList) {
-        for (const item of importList.namedChildren) {
-          if (item.type === "identifier") {
+      const importedNodes = importList
+        ? importList.namedChildren
+        : node.namedChildren.filter((child) => child.startIndex !== moduleNode?.startIndex && child.type !== "comment");
+      if (importedNodes.length) {
+        for (const item of importedNodes) {
+          if (item.type === "identifier" || item.type === "dotted_name") {
             specifiers.push({ local: item.text, imported: item.text });
+          } else if (item.type === "wildcard_import") {
+            specifiers.push({ local: "*", imported: "*" });
           } else if (item.type === "aliased_import") {
             const imported = item.namedChildren[0]?.text;
             const local = item.namedChildren[1]?.text;
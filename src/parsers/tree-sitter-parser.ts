@@ -16,12 +16,14 @@ import Parser from "tree-sitter";
 import { ConfigLoader } from "../config/yaml-config.js";
 import type { ParsedEntity, ParseResult, SupportedLanguage } from "../types/parser.js";
 import { CAnalyzer } from "./c-analyzer.js";
+import { attachCodeMetrics } from "./code-metrics.js";
 import { CppAnalyzer } from "./cpp-analyzer.js";
 import { CSharpAnalyzer } from "./csharp-analyzer.js";
 import { GoAnalyzer } from "./go-analyzer.js";
 import { JavaAnalyzer } from "./java-analyzer.js";
 import { createPythonAnalyzer } from "./python-analyzer.js";
 import { RustAnalyzer } from "./rust-analyzer.js";
+import { TypeScriptAnalyzer } from "./typescript-analyzer.js";
 import { VbaAnalyzer } from "./vba-analyzer.js";
 
 type TreeSitterNode = Parser.SyntaxNode;
@@ -177,6 +179,7 @@ export class TreeSitterParser {
   private goAnalyzer = new GoAnalyzer();
   private javaAnalyzer = new JavaAnalyzer();
   private vbaAnalyzer = new VbaAnalyzer();
+  private typescriptAnalyzer = new TypeScriptAnalyzer();
 
   private cacheHits = 0;
   private cacheMisses = 0;
@@ -265,7 +268,7 @@ export class TreeSitterParser {
       let entities = vbaAnalysis.entities || [];
       const relationships = vbaAnalysis.relationships || [];
 
-      entities = entities.map((e) => ({ ...e, language }));
+      entities = attachCodeMetrics(entities, null, content, language).map((e) => ({ ...e, language }));
 
       this.cacheMisses++;
       this.setCache(cacheKey, { tree: null, entities, hash: internalHash, timestamp: Date.now(), relationships });
@@ -346,12 +349,19 @@ export class TreeSitterParser {
       console.log(
         `[TreeSitterParser] Java analysis: ${entities.length} entities, ${relationships.length} relationships`,
       );
+    } else if (language === "typescript" || language === "tsx" || language === "javascript" || language === "jsx") {
+      const ts = await this.typescriptAnalyzer.analyze(tree.rootNode as any, filePath);
+      entities = ts.entities || [];
+      relationships = ts.relationships || [];
+      console.log(
+        `[TreeSitterParser] TypeScript analysis: ${entities.length} entities, ${relationships.length} relationships`,
+      );
     } else {
-      // Default parser for JS/TS/etc
+      // Default parser for remaining languages
       entities = await this.extractEntities(tree.rootNode as any, content);
     }
 
-    entities = entities.map((entity) => ({
+    entities = attachCodeMetrics(entities, tree.rootNode, content, language).map((entity) => ({
       ...entity,
       language,
     }));
@@ -959,6 +969,20 @@ export class TreeSitterParser {
     };
   }
 
+  /**
+   * Parse a file into its raw syntax tree without entity extraction or caching.
+   * Returns null for languages without a tree-sitter grammar (VBA).
+   */
+  public async parseSyntaxTree(filePath: string, content: string): Promise<TreeSitterTree | null> {
+    if (!this.initialized || !this.parser) throw new Error("Parser not initialized");
+
+    const language = detectLanguage(filePath);
+    if (!LANGUAGE_LOADERS[language]) return null;
+
+    this.parser.setLanguage(await this.ensureLanguage(language));
+    return this.parser.parse(content, undefined, { bufferSize: this.bufferSize }) as TreeSitterTree;
+  }
+
   public clearCache(): void {
     for (const [, entry] of this.cache.entries()) {
       entry.tree = null;
@@ -0,0 +1,1459 @@
+/**
+ * TypeScript / JavaScript Language Analyzer
+ *
+ * Analyzer for TypeScript, TSX, JavaScript and JSX supporting:
+ * - Modules (one entity per file), functions, arrow functions and generators
+ * - Classes (incl. abstract and class expressions) with methods, accessors and fields
+ * - Interfaces, type aliases, enums and namespaces
+ * - Imports (named, default, namespace, type-only, require and dynamic import)
+ * - Exports and re-exports (`export { x } from`, `export * from`, `export * as ns from`)
+ *
+ * Relationships:
+ * - Function/method calls and constructor calls (`new X()`)
+ * - Class inheritance (`extends`) and interface implementation (`implements`)
+ * - Decorators on classes, members and parameters
+ * - Type references from signatures, fields, aliases and interfaces
+ * - Class membership (methods, fields, constructor parameter properties)
+ * - React component usage in JSX (`<Button />`)
+ *
+ * Relationship endpoints use entity names (resolved by the indexer within the file);
+ * symbols bound by an import carry the module specifier in `targetFile`.
+ */
+
+import type { EntityRelationship, ParsedEntity, TreeSitterNode } from "../types/parser.js";
+
+// Circuit breaker constants
+const MAX_RECURSION_DEPTH = 200;
+const PARSE_TIMEOUT_MS = 5000;
+
+// Global types that never resolve to project entities
+const BUILTIN_TYPES = new Set([
+  "Array",
+  "ArrayLike",
+  "AsyncGenerator",
+  "AsyncIterable",
+  "AsyncIterator",
+  "Awaited",
+  "BigInt",
+  "Boolean",
+  "Buffer",
+  "Date",
+  "Error",
+  "Exclude",
+  "Extract",
+  "Function",
+  "Generator",
+  "InstanceType",
+  "Iterable",
+  "Iterator",
+  "Map",
+  "NonNullable",
+  "Number",
+  "Object",
+  "Omit",
+  "Parameters",
+  "Partial",
+  "Pick",
+  "Promise",
+  "PromiseLike",
+  "Readonly",
+  "ReadonlyArray",
+  "Record",
+  "RegExp",
+  "Required",
+  "ReturnType",
+  "Set",
+  "String",
+  "Symbol",
+  "Uint8Array",
+  "WeakMap",
+  "WeakSet",
+]);
+
+// Global functions whose calls would only add noise to the graph
+const GLOBAL_FUNCTIONS = new Set([
+  "BigInt",
+  "Boolean",
+  "Number",
+  "String",
+  "Symbol",
+  "clearInterval",
+  "clearTimeout",
+  "decodeURIComponent",
+  "encodeURIComponent",
+  "isFinite",
+  "isNaN",
+  "parseFloat",
+  "parseInt",
+  "queueMicrotask",
+  "setInterval",
+  "setTimeout",
+  "structuredClone",
+]);
+
+// Higher-order wrappers whose function argument is the component itself
+const COMPONENT_WRAPPERS = new Set(["memo", "forwardRef", "observer", "React.memo", "React.forwardRef"]);
+
+const REACT_COMPONENT_BASES = new Set(["Component", "PureComponent", "React.Component", "React.PureComponent"]);
+
+// Custom error class for circuit breaker failures
+class CircuitBreakerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CircuitBreakerError";
+  }
+}
+
+interface ImportBinding {
+  source: string;
+  imported: string;
+}
+
+interface AnalysisContext {
+  filePath: string;
+  moduleName: string;
+  entities: ParsedEntity[];
+  relationships: EntityRelationship[];
+  relationshipKeys: Set<string>;
+  /** Local name -> import binding */
+  imports: Map<string, ImportBinding>;
+  /** Names declared at module level */
+  declared: Set<string>;
+  /** Local names exported through `export { a }` / `export default a` */
+  exported: Map<string, string[]>;
+}
+
+export class TypeScriptAnalyzer {
+  private recursionDepth = 0;
+  private parseStartTime = 0;
+
+  /**
+   * Helper: Convert tree-sitter position to ParsedEntity location
+   */
+  private getNodeLocation(node: TreeSitterNode) {
+    return {
+      start: {
+        line: node.startPosition.row + 1,
+        column: node.startPosition.column,
+        index: node.startIndex,
+      },
+      end: {
+        line: node.endPosition.row + 1,
+        column: node.endPosition.column,
+        index: node.endIndex,
+      },
+    };
+  }
+
+  /**
+   * Main entry point for analyzing TypeScript/JavaScript code
+   */
+  async analyze(
+    rootNode: TreeSitterNode,
+    filePath: string,
+  ): Promise<{ entities: ParsedEntity[]; relationships: EntityRelationship[] }> {
+    this.resetState();
+
+    const moduleName = filePath.split(/[\\/]/).pop() || filePath;
+    const context: AnalysisContext = {
+      filePath,
+      moduleName,
+      entities: [],
+      relationships: [],
+      relationshipKeys: new Set(),
+      imports: new Map(),
+      declared: new Set(),
+      exported: new Map(),
+    };
+
+    try {
+      context.entities.push({
+        name: moduleName,
+        type: "module",
+        filePath,
+        location: this.getNodeLocation(rootNode),
+        metadata: { isFileModule: true },
+      });
+
+      this.collectModuleBindings(rootNode, context);
+      for (const child of rootNode.namedChildren) {
+        this.visit(child, context, moduleName);
+      }
+      this.applyExportModifiers(context);
+    } catch (error) {
+      if (error instanceof CircuitBreakerError) {
+        console.warn(`[TypeScriptAnalyzer] Circuit breaker triggered for ${filePath}: ${error.message}`);
+      } else {
+        console.error(`[TypeScriptAnalyzer] Error analyzing ${filePath}:`, error);
+      }
+      // Return partial results on error
+    }
+
+    return { entities: context.entities, relationships: context.relationships };
+  }
+
+  /**
+   * Reset analyzer state for new file
+   */
+  private resetState(): void {
+    this.recursionDepth = 0;
+    this.parseStartTime = Date.now();
+  }
+
+  /**
+   * Check circuit breakers
+   */
+  private checkCircuitBreakers(): void {
+    if (this.recursionDepth > MAX_RECURSION_DEPTH) {
+      throw new CircuitBreakerError(`Maximum recursion depth ${MAX_RECURSION_DEPTH} exceeded`);
+    }
+
+    const elapsedTime = Date.now() - this.parseStartTime;
+    if (elapsedTime > PARSE_TIMEOUT_MS) {
+      throw new CircuitBreakerError(`Parse timeout ${PARSE_TIMEOUT_MS}ms exceeded`);
+    }
+  }
+
+  /**
+   * Pre-pass: record import bindings and module-level declarations so calls can be
+   * attributed regardless of declaration order
+   */
+  private collectModuleBindings(rootNode: TreeSitterNode, context: AnalysisContext): void {
+    for (const statement of rootNode.namedChildren) {
+      const node =
+        statement.type === "export_statement" ? (statement.childForFieldName("declaration") ?? statement) : statement;
+
+      if (node.type === "import_statement") {
+        const source = this.getModuleSpecifier(node);
+        if (!source) continue;
+        for (const spec of this.getImportSpecifiers(node)) {
+          context.imports.set(spec.local, { source, imported: spec.imported ?? spec.local });
+        }
+        continue;
+      }
+
+      const name = node.childForFieldName("name");
+      if (name && name.type !== "array_pattern" && name.type !== "object_pattern") {
+        context.declared.add(name.text);
+      }
+      if (node.type === "lexical_declaration" || node.type === "variable_declaration") {
+        for (const declarator of node.namedChildren.filter((c) => c.type === "variable_declarator")) {
+          const declName = declarator.childForFieldName("name");
+          const value = declarator.childForFieldName("value");
+          if (!declName) continue;
+
+          const requireSource = value ? this.getRequireSource(value) : null;
+          if (requireSource) {
+            for (const spec of this.getRequireSpecifiers(declName)) {
+              context.imports.set(spec.local, { source: requireSource, imported: spec.imported });
+            }
+          } else if (declName.type === "identifier") {
+            context.declared.add(declName.text);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Dispatch on node type; `scope` is the name of the entity that owns nested calls
+   */
+  private visit(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    this.recursionDepth++;
+    this.checkCircuitBreakers();
+
+    try {
+      switch (node.type) {
+        case "import_statement":
+          this.extractImport(node, context);
+          break;
+
+        case "export_statement":
+          this.extractExport(node, context, scope);
+          break;
+
+        case "function_declaration":
+        case "generator_function_declaration":
+          this.extractFunction(node, node.childForFieldName("name")?.text, context, scope);
+          break;
+
+        case "class_declaration":
+        case "abstract_class_declaration":
+          this.extractClass(node, node.childForFieldName("name")?.text, context, []);
+          break;
+
+        case "interface_declaration":
+          this.extractInterface(node, context);
+          break;
+
+        case "type_alias_declaration":
+          this.extractTypeAlias(node, context);
+          break;
+
+        case "enum_declaration":
+          this.extractEnum(node, context);
+          break;
+
+        case "internal_module":
+        case "module":
+          this.extractNamespace(node, context);
+          break;
+
+        case "lexical_declaration":
+        case "variable_declaration":
+          this.extractVariables(node, context, scope);
+          break;
+
+        case "call_expression":
+          this.extractCall(node, context, scope);
+          this.visitChildren(node, context, scope);
+          break;
+
+        case "new_expression":
+          this.extractConstructorCall(node, context, scope);
+          this.visitChildren(node, context, scope);
+          break;
+
+        case "jsx_opening_element":
+        case "jsx_self_closing_element":
+          this.extractJsxUsage(node, context, scope);
+          this.visitChildren(node, context, scope);
+          break;
+
+        case "assignment_expression":
+          if (scope === context.moduleName && /^(module\.)?exports\b/.test(node.text)) {
+            this.extractCommonJsExport(node, context, scope);
+          } else {
+            this.visitChildren(node, context, scope);
+          }
+          break;
+
+        case "class":
+          this.extractClass(node, node.childForFieldName("name")?.text, context, []);
+          break;
+
+        default:
+          this.visitChildren(node, context, scope);
+      }
+    } finally {
+      this.recursionDepth--;
+    }
+  }
+
+  private visitChildren(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    for (const child of node.namedChildren) {
+      this.visit(child, context, scope);
+    }
+  }
+
+  // ===========================================================================
+  // Imports and exports
+  // ===========================================================================
+
+  /**
+   * Extract import statement: `import a, { b as c } from "x"`, `import * as ns from "x"`
+   */
+  private extractImport(node: TreeSitterNode, context: AnalysisContext): void {
+    const source = this.getModuleSpecifier(node);
+    if (!source) return;
+
+    const specifiers = this.getImportSpecifiers(node);
+    const isTypeOnly = node.children.some((c) => c.type === "type");
+    const isNamespace = specifiers.some((s) => s.imported === "*");
+    const isDefault = specifiers.some((s) => s.imported === "default");
+
+    context.entities.push({
+      name: source,
+      type: "import",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      importData: {
+        source,
+        specifiers: specifiers.map((s) => ({ local: s.local, imported: s.imported })),
+        isDefault,
+        isNamespace,
+        isRelative: source.startsWith("."),
+      },
+      metadata: { isTypeOnly },
+    });
+
+    const line = node.startPosition.row + 1;
+    if (specifiers.length === 0) {
+      // Side-effect import: `import "./polyfill"`
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: "*",
+        type: "imports",
+        targetFile: source,
+        metadata: { line, sideEffect: true },
+      });
+      return;
+    }
+
+    for (const spec of specifiers) {
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: spec.imported === "default" || spec.imported === "*" ? spec.local : (spec.imported ?? spec.local),
+        type: "imports",
+        targetFile: source,
+        metadata: { line, local: spec.local, imported: spec.imported, isTypeOnly },
+      });
+    }
+  }
+
+  private getImportSpecifiers(node: TreeSitterNode): Array<{ local: string; imported?: string }> {
+    const specifiers: Array<{ local: string; imported?: string }> = [];
+    const clause = node.namedChildren.find((c) => c.type === "import_clause");
+    if (!clause) return specifiers;
+
+    for (const part of clause.namedChildren) {
+      if (part.type === "identifier") {
+        specifiers.push({ local: part.text, imported: "default" });
+      } else if (part.type === "namespace_import") {
+        const local = part.namedChildren.find((c) => c.type === "identifier")?.text;
+        if (local) specifiers.push({ local, imported: "*" });
+      } else if (part.type === "named_imports") {
+        for (const spec of part.namedChildren.filter((c) => c.type === "import_specifier")) {
+          const imported = spec.childForFieldName("name")?.text;
+          const alias = spec.childForFieldName("alias")?.text;
+          if (imported) specifiers.push({ local: alias ?? imported, imported });
+        }
+      }
+    }
+    return specifiers;
+  }
+
+  private getModuleSpecifier(node: TreeSitterNode): string | null {
+    const sourceNode = node.childForFieldName("source");
+    return sourceNode ? this.stripQuotes(sourceNode.text) : null;
+  }
+
+  /**
+   * Extract export statement: declarations, `export default`, local export lists and re-exports
+   */
+  private extractExport(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const isDefault = node.children.some((c) => c.type === "default");
+    const modifiers = isDefault ? ["export", "default"] : ["export"];
+    const line = node.startPosition.row + 1;
+    const source = this.getModuleSpecifier(node);
+
+    if (source) {
+      this.extractReExport(node, source, context);
+      return;
+    }
+
+    const declaration = node.childForFieldName("declaration");
+    if (declaration) {
+      const before = context.entities.length;
+      const decorators = node.namedChildren.filter((c) => c.type === "decorator");
+      if (declaration.type === "class_declaration" || declaration.type === "abstract_class_declaration") {
+        this.extractClass(declaration, declaration.childForFieldName("name")?.text, context, decorators);
+      } else {
+        this.visit(declaration, context, scope);
+      }
+      // Only the declared entity itself (not its members) is exported
+      const declared = context.entities[before];
+      if (declared) {
+        declared.modifiers = [...new Set([...(declared.modifiers ?? []), ...modifiers])];
+        this.addRelationship(context, {
+          from: context.moduleName,
+          to: declared.name,
+          type: "exports",
+          metadata: { line, isDefault },
+        });
+      }
+      return;
+    }
+
+    const value = node.childForFieldName("value");
+    if (value) {
+      if (value.type === "identifier") {
+        context.exported.set(value.text, modifiers);
+        this.addRelationship(context, {
+          from: context.moduleName,
+          to: value.text,
+          type: "exports",
+          metadata: { line, isDefault },
+        });
+        return;
+      }
+
+      const before = context.entities.length;
+      if (value.type === "class") {
+        this.extractClass(value, value.childForFieldName("name")?.text ?? "default", context, []);
+      } else if (
+        value.type === "arrow_function" ||
+        value.type === "function_expression" ||
+        value.type === "function" ||
+        value.type === "generator_function"
+      ) {
+        this.extractFunction(value, value.childForFieldName("name")?.text ?? "default", context, scope);
+      } else {
+        this.visit(value, context, scope);
+      }
+
+      const declared = context.entities[before];
+      if (declared) {
+        declared.modifiers = [...new Set([...(declared.modifiers ?? []), ...modifiers])];
+      }
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: declared?.name ?? "default",
+        type: "exports",
+        metadata: { line, isDefault },
+      });
+      return;
+    }
+
+    const clause = node.namedChildren.find((c) => c.type === "export_clause");
+    for (const spec of clause?.namedChildren.filter((c) => c.type === "export_specifier") ?? []) {
+      const local = spec.childForFieldName("name")?.text;
+      const alias = spec.childForFieldName("alias")?.text;
+      if (!local) continue;
+      context.exported.set(local, alias === "default" ? ["export", "default"] : ["export"]);
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: local,
+        type: "exports",
+        metadata: { line, alias },
+      });
+    }
+  }
+
+  /**
+   * Extract re-export: `export { a as b } from "x"`, `export * from "x"`, `export * as ns from "x"`
+   */
+  private extractReExport(node: TreeSitterNode, source: string, context: AnalysisContext): void {
+    const line = node.startPosition.row + 1;
+    const specifiers: Array<{ local: string; imported?: string }> = [];
+
+    const clause = node.namedChildren.find((c) => c.type === "export_clause");
+    const namespaceExport = node.namedChildren.find((c) => c.type === "namespace_export");
+    if (clause) {
+      for (const spec of clause.namedChildren.filter((c) => c.type === "export_specifier")) {
+        const imported = spec.childForFieldName("name")?.text;
+        const alias = spec.childForFieldName("alias")?.text;
+        if (imported) specifiers.push({ local: alias ?? imported, imported });
+      }
+    } else if (namespaceExport) {
+      const local = namespaceExport.namedChildren.find((c) => c.type === "identifier")?.text;
+      specifiers.push({ local: local ?? "*", imported: "*" });
+    } else {
+      specifiers.push({ local: "*", imported: "*" });
+    }
+
+    context.entities.push({
+      name: source,
+      type: "export",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      importData: {
+        source,
+        specifiers,
+        isNamespace: specifiers.some((s) => s.imported === "*"),
+        isRelative: source.startsWith("."),
+      },
+      metadata: { isReExport: true },
+    });
+
+    for (const spec of specifiers) {
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: spec.imported ?? spec.local,
+        type: "exports",
+        targetFile: source,
+        metadata: { line, alias: spec.local !== spec.imported ? spec.local : undefined, isReExport: true },
+      });
+    }
+  }
+
+  /**
+   * Mark entities exported later in the file through `export { a }` or `export default a`
+   */
+  private applyExportModifiers(context: AnalysisContext): void {
+    if (context.exported.size === 0) return;
+    for (const entity of context.entities) {
+      const modifiers = context.exported.get(entity.name);
+      if (!modifiers || entity.type === "import" || entity.type === "module") continue;
+      if (entity.metadata?.className) continue; // members share names with top-level symbols
+      entity.modifiers = [...new Set([...(entity.modifiers ?? []), ...modifiers])];
+    }
+  }
+
+  // ===========================================================================
+  // Declarations
+  // ===========================================================================
+
+  /**
+   * Extract function declaration, function expression or arrow function bound to `name`
+   */
+  private extractFunction(
+    node: TreeSitterNode,
+    name: string | undefined,
+    context: AnalysisContext,
+    _scope: string,
+    extra: { modifiers?: string[]; metadata?: Record<string, any> } = {},
+  ): void {
+    const functionName = name || "<anonymous>";
+    const modifiers = [...(extra.modifiers ?? [])];
+    if (node.children.some((c) => c.type === "async")) modifiers.push("async");
+    if (node.type.startsWith("generator_function") || node.children.some((c) => c.type === "*")) {
+      modifiers.push("generator");
+    }
+
+    const body = node.childForFieldName("body");
+    const returnType = node.childForFieldName("return_type");
+    const isComponent = /^[A-Z]/.test(functionName) && !!body && this.containsJsx(body);
+
+    context.entities.push({
+      name: functionName,
+      type: "function",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      modifiers,
+      parameters: this.extractParameters(node),
+      returnType: returnType ? this.typeText(returnType) : undefined,
+      signature: this.getSignature(node),
+      metadata: {
+        isArrow: node.type === "arrow_function",
+        ...(isComponent ? { isReactComponent: true } : {}),
+        ...extra.metadata,
+      },
+    });
+
+    this.extractTypeReferences(functionName, node, context, this.typeParameterNames(node));
+    this.extractParameterDecorators(functionName, node, context);
+
+    if (body) {
+      this.visit(body, context, functionName);
+    }
+  }
+
+  /**
+   * Extract class with heritage, decorators and members
+   */
+  private extractClass(
+    node: TreeSitterNode,
+    name: string | undefined,
+    context: AnalysisContext,
+    outerDecorators: TreeSitterNode[],
+  ): void {
+    const className = name || "<anonymous>";
+    const line = node.startPosition.row + 1;
+    const typeParameters = this.typeParameterNames(node);
+    const baseClasses: string[] = [];
+    const interfaces: string[] = [];
+
+    const heritage = node.namedChildren.find((c) => c.type === "class_heritage");
+    if (heritage) {
+      const extendsClause = heritage.namedChildren.find((c) => c.type === "extends_clause");
+      const implementsClause = heritage.namedChildren.find((c) => c.type === "implements_clause");
+      // tree-sitter-javascript puts the base expression directly under class_heritage
+      const baseExpressions = extendsClause
+        ? extendsClause.namedChildren.filter((c) => c.type !== "type_arguments")
+        : heritage.namedChildren.filter((c) => c.type !== "implements_clause");
+
+      for (const base of baseExpressions) {
+        if (base.type === "identifier" || base.type === "member_expression") {
+          baseClasses.push(base.text);
+        } else {
+          // e.g. `extends mixin(Base)`: record the calls made by the expression
+          this.visit(base, context, className);
+        }
+      }
+      for (const iface of implementsClause?.namedChildren ?? []) {
+        const ifaceName = this.typeName(iface);
+        if (ifaceName) interfaces.push(ifaceName);
+      }
+      if (extendsClause) {
+        this.extractTypeReferences(className, extendsClause, context, typeParameters, ["type_arguments"]);
+      }
+    }
+
+    const decorators = [
+      ...outerDecorators,
+      ...node.namedChildren.filter((c) => c.type === "decorator"),
+      ...this.precedingDecorators(node),
+    ];
+    const modifiers: string[] = [];
+    if (node.type === "abstract_class_declaration") modifiers.push("abstract");
+    const isComponent = baseClasses.some((b) => REACT_COMPONENT_BASES.has(b));
+
+    context.entities.push({
+      name: className,
+      type: "class",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      modifiers,
+      decorators: decorators.map((d) => this.describeDecorator(d)),
+      inheritance:
+        baseClasses.length || interfaces.length
+          ? { baseClasses, interfaces, isAbstract: node.type === "abstract_class_declaration" }
+          : undefined,
+      metadata: isComponent ? { isReactComponent: true } : undefined,
+    });
+
+    for (const base of baseClasses) {
+      this.addRelationship(context, {
+        from: className,
+        to: this.lastSegment(base),
+        type: "inherits",
+        targetFile: this.importSourceFor(base, context),
+        metadata: { line, inheritanceType: "extends", qualifiedName: base },
+      });
+    }
+    for (const iface of interfaces) {
+      this.addRelationship(context, {
+        from: className,
+        to: this.lastSegment(iface),
+        type: "implements",
+        targetFile: this.importSourceFor(iface, context),
+        metadata: { line },
+      });
+    }
+    this.addDecoratorRelationships(className, decorators, context);
+
+    const body = node.childForFieldName("body");
+    if (body) {
+      this.extractClassMembers(body, className, context, typeParameters);
+    }
+  }
+
+  /**
+   * Extract methods, accessors, fields and constructor parameter properties
+   */
+  private extractClassMembers(
+    body: TreeSitterNode,
+    className: string,
+    context: AnalysisContext,
+    typeParameters: Set<string>,
+  ): void {
+    for (const member of body.namedChildren) {
+      const isMethod =
+        member.type === "method_definition" ||
+        member.type === "abstract_method_signature" ||
+        member.type === "method_signature";
+      const isField = member.type === "public_field_definition" || member.type === "field_definition";
+      if (!isMethod && !isField) continue;
+
+      const nameNode = member.childForFieldName("name") ?? member.childForFieldName("property");
+      const memberName = nameNode?.text;
+      if (!memberName) continue;
+
+      const modifiers = this.memberModifiers(member);
+      const decorators = [
+        ...member.namedChildren.filter((c) => c.type === "decorator"),
+        ...this.precedingDecorators(member),
+      ];
+      const value = isField ? member.childForFieldName("value") : null;
+      const isArrowProperty = !!value && (value.type === "arrow_function" || value.type === "function_expression");
+      const returnType = member.childForFieldName("return_type");
+      const fieldType = isField ? member.childForFieldName("type") : null;
+
+      context.entities.push({
+        name: memberName,
+        type: isMethod || isArrowProperty ? "method" : "property",
+        filePath: context.filePath,
+        location: this.getNodeLocation(member),
+        modifiers,
+        decorators: decorators.map((d) => this.describeDecorator(d)),
+        parameters: isMethod
+          ? this.extractParameters(member)
+          : isArrowProperty
+            ? this.extractParameters(value!)
+            : undefined,
+        returnType: returnType ? this.typeText(returnType) : fieldType ? this.typeText(fieldType) : undefined,
+        signature: isMethod ? this.getSignature(member) : undefined,
+        metadata: {
+          className,
+          ...(memberName === "constructor" ? { isConstructor: true } : {}),
+          ...(isArrowProperty ? { isArrowProperty: true } : {}),
+        },
+      });
+
+      this.addRelationship(context, {
+        from: memberName,
+        to: className,
+        type: "member_of",
+        metadata: {
+          line: member.startPosition.row + 1,
+          memberType: memberName === "constructor" ? "constructor" : isMethod || isArrowProperty ? "method" : "field",
+        },
+      });
+      this.addDecoratorRelationships(memberName, decorators, context);
+      this.extractTypeReferences(memberName, isArrowProperty ? value! : member, context, typeParameters);
+
+      if (isMethod) {
+        this.extractParameterDecorators(memberName, member, context);
+        if (memberName === "constructor") {
+          this.extractParameterProperties(member, className, context);
+        }
+        const methodBody = member.childForFieldName("body");
+        if (methodBody) this.visit(methodBody, context, memberName);
+      } else if (value) {
+        const valueBody = isArrowProperty ? value.childForFieldName("body") : value;
+        if (valueBody) this.visit(valueBody, context, memberName);
+      }
+    }
+  }
+
+  /**
+   * `constructor(private readonly svc: Service)` declares a class field
+   */
+  private extractParameterProperties(ctor: TreeSitterNode, className: string, context: AnalysisContext): void {
+    const params = ctor.childForFieldName("parameters");
+    for (const param of params?.namedChildren ?? []) {
+      const hasModifier = param.namedChildren.some(
+        (c) => c.type === "accessibility_modifier" || c.type === "override_modifier",
+      );
+      const isReadonly = param.children.some((c) => c.type === "readonly");
+      if (!hasModifier && !isReadonly) continue;
+
+      const pattern = param.childForFieldName("pattern");
+      if (pattern?.type !== "identifier") continue;
+      const type = param.childForFieldName("type");
+
+      context.entities.push({
+        name: pattern.text,
+        type: "property",
+        filePath: context.filePath,
+        location: this.getNodeLocation(param),
+        modifiers: this.memberModifiers(param),
+        returnType: type ? this.typeText(type) : undefined,
+        metadata: { className, isParameterProperty: true },
+      });
+      this.addRelationship(context, {
+        from: pattern.text,
+        to: className,
+        type: "member_of",
+        metadata: { line: param.startPosition.row + 1, memberType: "field" },
+      });
+    }
+  }
+
+  private extractInterface(node: TreeSitterNode, context: AnalysisContext): void {
+    const name = node.childForFieldName("name")?.text;
+    if (!name) return;
+    const line = node.startPosition.row + 1;
+    const typeParameters = this.typeParameterNames(node);
+
+    const bases: string[] = [];
+    const extendsClause = node.namedChildren.find((c) => c.type === "extends_type_clause");
+    for (const base of extendsClause?.namedChildren ?? []) {
+      const baseName = this.typeName(base);
+      if (baseName) bases.push(baseName);
+    }
+
+    context.entities.push({
+      name,
+      type: "interface",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      inheritance: bases.length ? { baseClasses: bases } : undefined,
+    });
+
+    for (const base of bases) {
+      this.addRelationship(context, {
+        from: name,
+        to: this.lastSegment(base),
+        type: "inherits",
+        targetFile: this.importSourceFor(base, context),
+        metadata: { line, inheritanceType: "extends" },
+      });
+    }
+
+    const body = node.childForFieldName("body");
+    if (body) this.extractTypeReferences(name, body, context, typeParameters);
+    if (extendsClause) this.extractTypeReferences(name, extendsClause, context, typeParameters, ["type_arguments"]);
+  }
+
+  private extractTypeAlias(node: TreeSitterNode, context: AnalysisContext): void {
+    const name = node.childForFieldName("name")?.text;
+    if (!name) return;
+
+    context.entities.push({
+      name,
+      type: "type",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+    });
+
+    const value = node.childForFieldName("value");
+    if (value) this.extractTypeReferences(name, value, context, this.typeParameterNames(node), [], true);
+  }
+
+  private extractEnum(node: TreeSitterNode, context: AnalysisContext): void {
+    const name = node.childForFieldName("name")?.text;
+    if (!name) return;
+
+    const members = (node.childForFieldName("body")?.namedChildren ?? [])
+      .map((m) => (m.type === "enum_assignment" ? m.childForFieldName("name")?.text : m.text))
+      .filter((m): m is string => !!m);
+
+    context.entities.push({
+      name,
+      type: "enum",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      modifiers: node.children.some((c) => c.type === "const") ? ["const"] : [],
+      metadata: { members },
+    });
+  }
+
+  private extractNamespace(node: TreeSitterNode, context: AnalysisContext): void {
+    const name = node.childForFieldName("name")?.text;
+    if (!name) return;
+
+    context.entities.push({
+      name,
+      type: "module",
+      filePath: context.filePath,
+      location: this.getNodeLocation(node),
+      metadata: { isNamespace: true },
+    });
+
+    const body = node.childForFieldName("body");
+    if (body) this.visit(body, context, name);
+  }
+
+  /**
+   * Extract variable declarations: function-valued bindings become functions,
+   * `require()` bindings become imports, module-level bindings become variables/constants
+   */
+  private extractVariables(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const isConst = node.children.some((c) => c.type === "const");
+    const isModuleLevel = scope === context.moduleName;
+
+    for (const declarator of node.namedChildren.filter((c) => c.type === "variable_declarator")) {
+      const nameNode = declarator.childForFieldName("name");
+      const value = declarator.childForFieldName("value");
+      const name = nameNode?.type === "identifier" ? nameNode.text : undefined;
+
+      if (name && value) {
+        const fn = this.unwrapFunctionValue(value);
+        if (fn) {
+          this.extractFunction(fn.node, name, context, scope, {
+            metadata: fn.wrapper ? { wrapper: fn.wrapper, isReactComponent: /^[A-Z]/.test(name) } : undefined,
+          });
+          continue;
+        }
+        if (value.type === "class") {
+          this.extractClass(value, name, context, []);
+          continue;
+        }
+      }
+
+      const requireSource = nameNode && value ? this.getRequireSource(value) : null;
+      if (nameNode && requireSource) {
+        this.extractRequire(declarator, this.getRequireSpecifiers(nameNode), requireSource, context);
+        continue;
+      }
+
+      if (name && isModuleLevel) {
+        const type = declarator.childForFieldName("type");
+        context.entities.push({
+          name,
+          type: isConst ? "constant" : "variable",
+          filePath: context.filePath,
+          location: this.getNodeLocation(declarator),
+          returnType: type ? this.typeText(type) : undefined,
+        });
+        if (type) this.extractTypeReferences(name, type, context, new Set(), [], true);
+      }
+
+      if (value) {
+        this.visit(value, context, name && isModuleLevel ? name : scope);
+      }
+    }
+  }
+
+  /**
+   * Extract CommonJS import: `const x = require("x")`, `const { a, b: c } = require("x")`
+   */
+  private extractRequire(
+    declarator: TreeSitterNode,
+    specifiers: Array<{ local: string; imported: string }>,
+    source: string,
+    context: AnalysisContext,
+  ): void {
+    context.entities.push({
+      name: source,
+      type: "import",
+      filePath: context.filePath,
+      location: this.getNodeLocation(declarator),
+      importData: {
+        source,
+        specifiers,
+        isDefault: specifiers.some((s) => s.imported === "default"),
+        isRelative: source.startsWith("."),
+      },
+      metadata: { isRequire: true },
+    });
+
+    for (const spec of specifiers) {
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: spec.imported === "default" ? spec.local : spec.imported,
+        type: "imports",
+        targetFile: source,
+        metadata: { line: declarator.startPosition.row + 1, ...spec, isRequire: true },
+      });
+    }
+  }
+
+  /**
+   * Extract CommonJS exports: `module.exports = { a }`, `module.exports = a`, `exports.a = ...`
+   */
+  private extractCommonJsExport(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const left = node.childForFieldName("left");
+    const right = node.childForFieldName("right");
+    if (!left || !right) return;
+    const line = node.startPosition.row + 1;
+
+    const exportedNames: string[] = [];
+    if (left.text === "module.exports") {
+      if (right.type === "identifier") {
+        exportedNames.push(right.text);
+      } else if (right.type === "object") {
+        for (const prop of right.namedChildren) {
+          if (prop.type === "shorthand_property_identifier") exportedNames.push(prop.text);
+          else if (prop.type === "pair" && prop.childForFieldName("value")?.type === "identifier") {
+            exportedNames.push(prop.childForFieldName("value")!.text);
+          }
+        }
+      }
+    } else if (/^(module\.)?exports\.\w+$/.test(left.text) && right.type === "identifier") {
+      exportedNames.push(right.text);
+    }
+
+    for (const name of exportedNames) {
+      context.exported.set(name, ["export"]);
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: name,
+        type: "exports",
+        metadata: { line, isCommonJs: true },
+      });
+    }
+
+    const fn = this.unwrapFunctionValue(right);
+    const propertyName = left.childForFieldName("property")?.text;
+    if (fn && left.text !== "module.exports" && propertyName && /^(module\.)?exports\./.test(left.text)) {
+      // `exports.run = function () {}` declares the exported function inline
+      this.extractFunction(fn.node, propertyName, context, scope, { modifiers: ["export"] });
+      this.addRelationship(context, {
+        from: context.moduleName,
+        to: propertyName,
+        type: "exports",
+        metadata: { line, isCommonJs: true },
+      });
+      return;
+    }
+    this.visit(right, context, scope);
+  }
+
+  // ===========================================================================
+  // Calls, JSX and decorators
+  // ===========================================================================
+
+  private extractCall(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const callee = node.childForFieldName("function");
+    if (!callee) return;
+    const line = node.startPosition.row + 1;
+
+    // Dynamic import: `import("./x")` / `require("./x")` outside declarations
+    if (callee.type === "import" || (callee.type === "identifier" && callee.text === "require")) {
+      const arg = node.childForFieldName("arguments")?.namedChildren[0];
+      if (arg?.type === "string") {
+        this.addRelationship(context, {
+          from: scope,
+          to: "*",
+          type: "imports",
+          targetFile: this.stripQuotes(arg.text),
+          metadata: { line, dynamic: callee.type === "import", isRequire: callee.type !== "import" },
+        });
+      }
+      return;
+    }
+
+    const target = this.resolveCallee(callee, context);
+    if (!target) return;
+
+    this.addRelationship(context, {
+      from: scope,
+      to: target.name,
+      type: "calls",
+      targetFile: target.targetFile,
+      metadata: { line, receiver: target.receiver },
+    });
+  }
+
+  private extractConstructorCall(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const ctor = node.childForFieldName("constructor");
+    if (!ctor) return;
+
+    const target = this.resolveCallee(ctor, context);
+    if (!target) return;
+
+    this.addRelationship(context, {
+      from: scope,
+      to: target.name,
+      type: "calls",
+      targetFile: target.targetFile,
+      metadata: { line: node.startPosition.row + 1, callType: "new", receiver: target.receiver },
+    });
+  }
+
+  /**
+   * `<Button />`, `<UI.Button>`: record usage of capitalised (component) tags
+   */
+  private extractJsxUsage(node: TreeSitterNode, context: AnalysisContext, scope: string): void {
+    const tag = node.childForFieldName("name");
+    if (!tag) return;
+    const isComponent =
+      (tag.type === "identifier" && /^[A-Z]/.test(tag.text)) ||
+      tag.type === "member_expression" ||
+      tag.type === "nested_identifier";
+    if (!isComponent) return;
+
+    const root = tag.text.split(".")[0] ?? tag.text;
+    const binding = context.imports.get(root);
+    const name = this.lastSegment(tag.text);
+
+    this.addRelationship(context, {
+      from: scope,
+      to: binding && tag.type === "identifier" && binding.imported !== "default" ? binding.imported : name,
+      type: "calls",
+      targetFile: binding?.source,
+      metadata: { line: node.startPosition.row + 1, callType: "jsx", element: tag.text },
+    });
+  }
+
+  /**
+   * Resolve a callee expression to a target name; only calls that can point at project
+   * code are kept (local/imported functions, `this.*` and members of imported bindings)
+   */
+  private resolveCallee(
+    callee: TreeSitterNode,
+    context: AnalysisContext,
+  ): { name: string; targetFile?: string; receiver?: string } | null {
+    if (callee.type === "identifier") {
+      if (GLOBAL_FUNCTIONS.has(callee.text)) return null;
+      const binding = context.imports.get(callee.text);
+      if (binding && binding.imported !== "default" && binding.imported !== "*") {
+        return { name: binding.imported, targetFile: binding.source };
+      }
+      return { name: callee.text, targetFile: binding?.source };
+    }
+
+    if (callee.type === "member_expression") {
+      const property = callee.childForFieldName("property")?.text;
+      const object = callee.childForFieldName("object");
+      if (!property || !object) return null;
+
+      const receiver = object.text.length > 80 ? `${object.text.slice(0, 77)}...` : object.text;
+      const root = this.rootIdentifier(object);
+      if (root === "this" || root === "super") {
+        return { name: property, receiver };
+      }
+      if (root && context.imports.has(root)) {
+        return { name: property, targetFile: context.imports.get(root)?.source, receiver };
+      }
+      if (root && context.declared.has(root)) {
+        return { name: property, receiver };
+      }
+    }
+
+    return null;
+  }
+
+  private addDecoratorRelationships(target: string, decorators: TreeSitterNode[], context: AnalysisContext): void {
+    for (const decorator of decorators) {
+      const { name } = this.describeDecorator(decorator);
+      if (!name) continue;
+      const root = name.split(".")[0] ?? name;
+      const line = decorator.startPosition.row + 1;
+      const binding = context.imports.get(root);
+      if (!binding) {
+        this.addRelationship(context, {
+          from: this.lastSegment(name),
+          to: target,
+          type: "decorates",
+          metadata: { line },
+        });
+        continue;
+      }
+      // The indexer drops relationships whose source is not in this file, so imported
+      // decorators are recorded from the decorated side
+      this.addRelationship(context, {
+        from: target,
+        to: binding.imported === "default" || name.includes(".") ? this.lastSegment(name) : binding.imported,
+        type: "references",
+        targetFile: binding.source,
+        metadata: { line, referenceKind: "decorator" },
+      });
+    }
+  }
+
+  private extractParameterDecorators(owner: string, fn: TreeSitterNode, context: AnalysisContext): void {
+    const params = fn.childForFieldName("parameters");
+    for (const param of params?.namedChildren ?? []) {
+      const decorators = param.namedChildren.filter((c) => c.type === "decorator");
+      if (decorators.length) this.addDecoratorRelationships(owner, decorators, context);
+    }
+  }
+
+  private describeDecorator(decorator: TreeSitterNode): { name: string; arguments?: string[] } {
+    const expression = decorator.namedChildren[0];
+    if (!expression) return { name: "" };
+    if (expression.type === "call_expression") {
+      const args = expression.childForFieldName("arguments")?.namedChildren.map((a) => a.text) ?? [];
+      return { name: expression.childForFieldName("function")?.text ?? "", arguments: args };
+    }
+    return { name: expression.text };
+  }
+
+  /**
+   * Decorators on class members (and exported classes in some grammars) are siblings
+   */
+  private precedingDecorators(node: TreeSitterNode): TreeSitterNode[] {
+    const decorators: TreeSitterNode[] = [];
+    let current = node.previousSibling;
+    while (current && current.type === "decorator") {
+      decorators.unshift(current);
+      current = current.previousSibling;
+    }
+    return decorators;
+  }
+
+  // ===========================================================================
+  // Type references
+  // ===========================================================================
+
+  /**
+   * Record `references` from `owner` to every non-builtin type named in `node`,
+   * without descending into function bodies
+   */
+  private extractTypeReferences(
+    owner: string,
+    node: TreeSitterNode,
+    context: AnalysisContext,
+    typeParameters: Set<string>,
+    onlyWithin: string[] = [],
+    includeRoot = false,
+  ): void {
+    const seen = new Set<string>();
+    const stack: Array<{ node: TreeSitterNode; inType: boolean }> = [
+      { node, inType: includeRoot || onlyWithin.length === 0 },
+    ];
+
+    while (stack.length) {
+      const { node: current, inType } = stack.pop()!;
+      if (current.type === "statement_block" || current.type === "class_body") continue;
+
+      const nowInType =
+        inType ||
+        onlyWithin.includes(current.type) ||
+        (onlyWithin.length === 0 && (current.type === "type_annotation" || current.type === "type_arguments"));
+
+      if (current.type === "type_identifier" && (nowInType || onlyWithin.length === 0)) {
+        const name = current.text;
+        const isQualifiedPart = current.parent?.type === "nested_type_identifier";
+        const qualified = isQualifiedPart ? (current.parent?.text ?? name) : name;
+        if (!BUILTIN_TYPES.has(name) && !typeParameters.has(name) && !seen.has(qualified)) {
+          seen.add(qualified);
+          const root = qualified.split(".")[0] ?? qualified;
+          const binding = context.imports.get(root);
+          this.addRelationship(context, {
+            from: owner,
+            to: binding && !isQualifiedPart && binding.imported !== "default" ? binding.imported : name,
+            type: "references",
+            targetFile: binding?.source,
+            metadata: { line: current.startPosition.row + 1, referenceKind: "type" },
+          });
+        }
+        continue;
+      }
+
+      // Skip the declaration's own name and type parameter list
+      if (current.type === "type_parameters") continue;
+      for (const child of current.namedChildren) {
+        if (current !== node || child !== node.childForFieldName("name")) {
+          stack.push({ node: child, inType: nowInType });
+        }
+      }
+    }
+  }
+
+  private typeParameterNames(node: TreeSitterNode): Set<string> {
+    const names = new Set<string>();
+    const params = node.childForFieldName("type_parameters");
+    for (const param of params?.namedChildren ?? []) {
+      const name = param.childForFieldName("name")?.text;
+      if (name) names.add(name);
+    }
+    return names;
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private addRelationship(context: AnalysisContext, relationship: EntityRelationship): void {
+    if (!relationship.from || !relationship.to) return;
+    const key = `${relationship.type}|${relationship.from}|${relationship.to}|${relationship.targetFile ?? ""}`;
+    if (context.relationshipKeys.has(key)) return;
+    context.relationshipKeys.add(key);
+    context.relationships.push({ ...relationship, sourceFile: context.filePath });
+  }
+
+  private extractParameters(node: TreeSitterNode): ParsedEntity["parameters"] {
+    const params: NonNullable<ParsedEntity["parameters"]> = [];
+    const paramList = node.childForFieldName("parameters");
+    const single = node.childForFieldName("parameter");
+    if (single) {
+      params.push({ name: single.text });
+      return params;
+    }
+
+    for (const param of paramList?.namedChildren ?? []) {
+      if (param.type === "identifier") {
+        params.push({ name: param.text });
+        continue;
+      }
+      const pattern = param.childForFieldName("pattern") ?? param.childForFieldName("left") ?? param;
+      const type = param.childForFieldName("type");
+      const value = param.childForFieldName("value") ?? param.childForFieldName("right");
+      params.push({
+        name: pattern.text,
+        type: type ? this.typeText(type) : undefined,
+        optional: param.type === "optional_parameter" || !!value,
+        defaultValue: value?.text,
+      });
+    }
+    return params;
+  }
+
+  private memberModifiers(member: TreeSitterNode): string[] {
+    const modifiers: string[] = [];
+    for (const child of member.children) {
+      if (child.type === "accessibility_modifier") modifiers.push(child.text);
+      else if (child.type === "override_modifier") modifiers.push("override");
+      else if (["static", "readonly", "abstract", "async", "get", "set", "declare"].includes(child.type)) {
+        modifiers.push(child.type);
+      }
+    }
+    if (member.type === "abstract_method_signature" && !modifiers.includes("abstract")) modifiers.push("abstract");
+    const name = member.childForFieldName("name") ?? member.childForFieldName("property");
+    if (name?.type === "private_property_identifier") modifiers.push("private");
+    return modifiers;
+  }
+
+  private unwrapFunctionValue(value: TreeSitterNode): { node: TreeSitterNode; wrapper?: string } | null {
+    if (
+      value.type === "arrow_function" ||
+      value.type === "function_expression" ||
+      value.type === "function" ||
+      value.type === "generator_function"
+    ) {
+      return { node: value };
+    }
+    if (value.type === "call_expression") {
+      const callee = value.childForFieldName("function")?.text;
+      const inner = value.childForFieldName("arguments")?.namedChildren[0];
+      if (callee && COMPONENT_WRAPPERS.has(callee) && inner) {
+        const unwrapped = this.unwrapFunctionValue(inner);
+        if (unwrapped) return { node: unwrapped.node, wrapper: callee };
+      }
+    }
+    return null;
+  }
+
+  private getRequireSpecifiers(pattern: TreeSitterNode): Array<{ local: string; imported: string }> {
+    if (pattern.type === "identifier") return [{ local: pattern.text, imported: "default" }];
+    if (pattern.type !== "object_pattern") return [];
+
+    const specifiers: Array<{ local: string; imported: string }> = [];
+    for (const prop of pattern.namedChildren) {
+      if (prop.type === "shorthand_property_identifier_pattern") {
+        specifiers.push({ local: prop.text, imported: prop.text });
+      } else if (prop.type === "pair_pattern") {
+        const key = prop.childForFieldName("key")?.text;
+        const value = prop.childForFieldName("value");
+        if (key && value?.type === "identifier") specifiers.push({ local: value.text, imported: key });
+      }
+    }
+    return specifiers;
+  }
+
+  private getRequireSource(value: TreeSitterNode): string | null {
+    if (value.type !== "call_expression") return null;
+    const callee = value.childForFieldName("function");
+    if (callee?.type !== "identifier" || callee.text !== "require") return null;
+    const arg = value.childForFieldName("arguments")?.namedChildren[0];
+    return arg?.type === "string" ? this.stripQuotes(arg.text) : null;
+  }
+
+  private containsJsx(node: TreeSitterNode): boolean {
+    const stack = [node];
+    while (stack.length) {
+      const current = stack.pop()!;
+      if (
+        current.type === "jsx_element" ||
+        current.type === "jsx_self_closing_element" ||
+        current.type === "jsx_fragment"
+      ) {
+        return true;
+      }
+      stack.push(...current.namedChildren);
+    }
+    return false;
+  }
+
+  private rootIdentifier(node: TreeSitterNode): string | null {
+    let current: TreeSitterNode | null = node;
+    while (current) {
+      if (current.type === "identifier" || current.type === "this" || current.type === "super") return current.text;
+      if (current.type === "member_expression" || current.type === "call_expression") {
+        current = current.childForFieldName("object") ?? current.childForFieldName("function");
+      } else {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  private typeName(node: TreeSitterNode): string | null {
+    if (node.type === "type_identifier" || node.type === "identifier" || node.type === "nested_type_identifier") {
+      return node.text;
+    }
+    if (node.type === "generic_type") {
+      return node.childForFieldName("name")?.text ?? null;
+    }
+    if (node.type === "member_expression") return node.text;
+    return null;
+  }
+
+  private typeText(node: TreeSitterNode): string {
+    return node.text.replace(/^:\s*/, "").trim();
+  }
+
+  private importSourceFor(name: string, context: AnalysisContext): string | undefined {
+    return context.imports.get(name.split(".")[0] ?? name)?.source;
+  }
+
+  private lastSegment(name: string): string {
+    return name.split(".").pop() ?? name;
+  }
+
+  private stripQuotes(text: string): string {
+    return text.replace(/^[`'"]|[`'"]$/g, "");
+  }
+
+  private getSignature(node: TreeSitterNode): string {
+    const body = node.childForFieldName("body");
+    const end = body && body.type === "statement_block" ? body.startIndex : node.endIndex;
+    const text = node.text.slice(0, Math.max(0, end - node.startIndex));
+    return text.slice(0, 200).trim();
+  }
+}
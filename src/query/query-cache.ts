@@ -244,12 +244,24 @@ export class QueryCache {
   async findAffectedQueries(changeData: any): Promise<string[]> {
     const affected: string[] = [];
 
+    // A change may reference a single entity or a batch (e.g. file watcher updates)
+    const needles: string[] = [
+      ...(changeData?.entityId ? [changeData.entityId] : []),
+      ...(Array.isArray(changeData?.entityIds) ? changeData.entityIds : []),
+      ...(Array.isArray(changeData?.filePaths) ? changeData.filePaths : []),
+    ].filter((needle): needle is string => typeof needle === "string" && needle.length > 0);
+
+    if (needles.length === 0) {
+      return affected;
+    }
+
     // Check L1 and L2 caches
     const checkEntry = (entry: CacheEntry) => {
       const value = entry.value as any;
       if (value?.data) {
-        // Simple check: if the data contains the changed entity ID
-        if (changeData.entityId && JSON.stringify(value.data).includes(changeData.entityId)) {
+        // Simple check: if the data contains a changed entity ID or file path
+        const serialized = JSON.stringify(value.data);
+        if (needles.some((needle) => serialized.includes(needle))) {
           affected.push(entry.key);
         }
       }
@@ -264,15 +276,15 @@ export class QueryCache {
     }
 
     // Check L3 cache
-    if (this.l3Db && changeData.entityId) {
-      const rows = this.l3Db
-        .prepare(`
+    if (this.l3Db) {
+      const stmt = this.l3Db.prepare(`
         SELECT key FROM query_cache 
         WHERE value LIKE ?
-      `)
-        .all(`%${changeData.entityId}%`) as Array<{ key: string }>;
-
-      affected.push(...rows.map((r) => r.key));
+      `);
+      for (const needle of needles) {
+        const rows = stmt.all(`%${needle}%`) as Array<{ key: string }>;
+        affected.push(...rows.map((r) => r.key));
+      }
     }
 
     return [...new Set(affected)]; // Remove duplicates
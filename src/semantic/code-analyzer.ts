@@ -14,6 +14,7 @@
  *  - 2025-09-14: Created by Dev-Agent - TASK-002: Semantic code analysis implementation
  */
 
+import type { CodeMetrics as EntityMetrics } from "../types/code-metrics.js";
 import type {
   CloneGroup,
   CrossLangResult,
@@ -85,6 +86,52 @@ function extractCodeMetrics(code: string): CodeMetrics {
   return { lines, branches, loops, functions, classes, complexity };
 }
 
+function suggestFromMetrics(metrics: EntityMetrics): RefactoringSuggestion[] {
+  const suggestions: RefactoringSuggestion[] = [];
+
+  if (metrics.sloc > 50) {
+    suggestions.push({
+      type: "extract",
+      description: `Function is too long (${metrics.sloc} lines of code)`,
+      impact: "medium",
+      confidence: 0.85,
+      code: "// Consider breaking this function into smaller pieces",
+    });
+  }
+
+  if (metrics.cyclomatic > 10 || metrics.cognitive > 15) {
+    suggestions.push({
+      type: "simplify",
+      description: `High complexity detected (cyclomatic ${metrics.cyclomatic}, cognitive ${metrics.cognitive})`,
+      impact: "high",
+      confidence: 0.95,
+      code: "// Consider using early returns or extracting complex conditions",
+    });
+  }
+
+  if (metrics.maxNesting > 4) {
+    suggestions.push({
+      type: "simplify",
+      description: `Control flow nested ${metrics.maxNesting} levels deep`,
+      impact: "medium",
+      confidence: 0.9,
+      code: "// Consider guard clauses or extracting the inner blocks",
+    });
+  }
+
+  if (metrics.parameters > 5) {
+    suggestions.push({
+      type: "extract",
+      description: `Too many parameters (${metrics.parameters})`,
+      impact: "medium",
+      confidence: 0.85,
+      code: "// Consider grouping related parameters into an object",
+    });
+  }
+
+  return suggestions;
+}
+
 function determineSemanticType(code: string): SemanticAnalysis["semanticType"] {
   const lowerCode = code.toLowerCase();
 
@@ -364,14 +411,15 @@ export class CodeAnalyzer {
   }
 
   /**
-   * Suggest refactoring opportunities
+   * Suggest refactoring opportunities; syntax-tree metrics of the entity, when indexed, replace
+   * the text heuristics for size and complexity
    */
-  async suggestRefactoring(code: string): Promise<RefactoringSuggestion[]> {
-    const suggestions: RefactoringSuggestion[] = [];
+  async suggestRefactoring(code: string, entityMetrics?: EntityMetrics): Promise<RefactoringSuggestion[]> {
+    const suggestions: RefactoringSuggestion[] = entityMetrics ? suggestFromMetrics(entityMetrics) : [];
     const metrics = extractCodeMetrics(code);
 
     // Check for long functions
-    if (metrics.lines > 50) {
+    if (!entityMetrics && metrics.lines > 50) {
       suggestions.push({
         type: "extract",
         description: "Function is too long",
@@ -382,7 +430,7 @@ export class CodeAnalyzer {
     }
 
     // Check for complex conditions
-    if (metrics.branches > 10) {
+    if (!entityMetrics && metrics.branches > 10) {
       suggestions.push({
         type: "simplify",
         description: "High cyclomatic complexity detected",
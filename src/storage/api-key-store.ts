@@ -0,0 +1,140 @@
+/**
+ * API Key Store
+ * Issues, verifies and revokes HTTP API keys. Keys are random 256-bit tokens, so a plain
+ * SHA-256 hash is enough to store them; the key itself is only returned once, on creation.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import { nanoid } from "nanoid";
+import type { ApiKey, ApiScope, CreateApiKeyInput } from "../types/auth.js";
+import { logger } from "../utils/logger.js";
+import { runMigrations } from "./schema-migrations.js";
+import type { SQLiteManager } from "./sqlite-manager.js";
+
+export const API_KEY_PREFIX = "cgr_";
+
+// Avoid a write per request when the same key is used in bursts
+const LAST_USED_RESOLUTION_MS = 60000;
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string;
+  created_at: number;
+  last_used_at: number | null;
+  expires_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * SHA-256 hex digest used to store and look up keys
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export class ApiKeyStore {
+  private schemaReady = false;
+
+  constructor(private sqliteManager: SQLiteManager) {}
+
+  /**
+   * Create a key; the returned `key` is not stored and cannot be recovered later
+   */
+  createKey(input: CreateApiKeyInput): { key: string; apiKey: ApiKey } {
+    const db = this.connection();
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiKey: ApiKey = {
+      id: nanoid(),
+      name: input.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      scopes: Array.from(new Set(input.scopes)),
+      created_at: Date.now(),
+      expires_at: input.expires_at,
+    };
+
+    db.prepare(`
+      INSERT INTO api_keys (id, name, key_hash, key_prefix, scopes, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      apiKey.id,
+      apiKey.name,
+      hashApiKey(key),
+      apiKey.prefix,
+      JSON.stringify(apiKey.scopes),
+      apiKey.created_at,
+      apiKey.expires_at ?? null,
+    );
+
+    logger.info("API_KEY_CREATED", `API key created: ${apiKey.name}`, { id: apiKey.id, scopes: apiKey.scopes });
+    return { key, apiKey };
+  }
+
+  /**
+   * Look up an active (not revoked, not expired) key and record its use
+   */
+  verifyKey(key: string): ApiKey | null {
+    const db = this.connection();
+    const row = db.prepare("SELECT * FROM api_keys WHERE key_hash = ?").get(hashApiKey(key)) as ApiKeyRow | undefined;
+    if (!row) return null;
+
+    const apiKey = this.rowToApiKey(row);
+    const now = Date.now();
+    if (apiKey.revoked_at || (apiKey.expires_at && apiKey.expires_at <= now)) return null;
+
+    if (!apiKey.last_used_at || now - apiKey.last_used_at > LAST_USED_RESOLUTION_MS) {
+      db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(now, apiKey.id);
+      apiKey.last_used_at = now;
+    }
+    return apiKey;
+  }
+
+  /**
+   * List keys, newest first (revoked keys only when asked for)
+   */
+  listKeys(includeRevoked = false): ApiKey[] {
+    const db = this.connection();
+    const where = includeRevoked ? "" : "WHERE revoked_at IS NULL";
+    const rows = db.prepare(`SELECT * FROM api_keys ${where} ORDER BY created_at DESC`).all() as ApiKeyRow[];
+    return rows.map((row) => this.rowToApiKey(row));
+  }
+
+  /**
+   * Revoke a key; returns false when no active key has this id
+   */
+  revokeKey(id: string): boolean {
+    const db = this.connection();
+    const result = db
+      .prepare("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+      .run(Date.now(), id);
+    if (result.changes > 0) {
+      logger.info("API_KEY_REVOKED", "API key revoked", { id });
+    }
+    return result.changes > 0;
+  }
+
+  private connection() {
+    if (!this.schemaReady) {
+      if (!this.sqliteManager.isOpen()) {
+        this.sqliteManager.initialize();
+      }
+      runMigrations(this.sqliteManager);
+      this.schemaReady = true;
+    }
+    return this.sqliteManager.getConnection();
+  }
+
+  private rowToApiKey(row: ApiKeyRow): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.key_prefix,
+      scopes: JSON.parse(row.scopes) as ApiScope[],
+      created_at: row.created_at,
+      last_used_at: row.last_used_at ?? undefined,
+      expires_at: row.expires_at ?? undefined,
+      revoked_at: row.revoked_at ?? undefined,
+    };
+  }
+}
@@ -82,14 +82,15 @@ export class BatchOperations {
 
     const insertStmt = this.db.prepare(`
       INSERT INTO entities
-      (id, name, type, file_path, location, metadata, hash, created_at, updated_at, project_id)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, name, type, file_path, location, metadata, hash, created_at, updated_at, project_id, complexity_score)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(id) DO UPDATE SET
         name = excluded.name,
         type = excluded.type,
         file_path = excluded.file_path,
         location = excluded.location,
         metadata = excluded.metadata,
+        complexity_score = excluded.complexity_score,
         hash = COALESCE(excluded.hash, entities.hash),
         updated_at = excluded.updated_at,
         project_id = COALESCE(excluded.project_id, entities.project_id)
@@ -131,6 +132,7 @@ export class BatchOperations {
                 entity.createdAt || now,
                 entity.updatedAt || now,
                 entity.project_id || null,
+                entity.complexityScore ?? 0,
               );
             }
           });
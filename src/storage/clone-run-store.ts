@@ -0,0 +1,191 @@
+/**
+ * Clone Run Store
+ * Persists clone detection runs and their clone classes so runs can be diffed and trended
+ */
+
+import { nanoid } from "nanoid";
+import type { CloneRun, CloneRunClass, CloneRunDiff, CloneRunTotals } from "../types/clone-runs.js";
+import { runMigrations } from "./schema-migrations.js";
+import type { SQLiteManager } from "./sqlite-manager.js";
+
+interface CloneRunRow {
+  id: string;
+  scope: string;
+  project_id: string | null;
+  tool: string;
+  paths: string;
+  options: string;
+  totals: string;
+  clone_count: number;
+  class_count: number;
+  duplicated_lines: number;
+  duplication_percentage: number;
+  previous_run_id: string | null;
+  new_classes: number;
+  new_fragments: number;
+  resolved_classes: number;
+  unchanged_classes: number;
+  created_at: number;
+}
+
+interface CloneClassRow {
+  fingerprint: string;
+  type: number;
+  similarity: number;
+  is_new: number;
+  fragments: string;
+}
+
+export type CreateCloneRunInput = Omit<CloneRun, "id" | "created_at" | "classes"> & { classes: CloneRunClass[] };
+
+export interface CloneRunQueryOptions {
+  scope?: string;
+  product_id?: string;
+  limit?: number;
+}
+
+export class CloneRunStore {
+  private schemaReady = false;
+
+  constructor(private sqliteManager: SQLiteManager) {}
+
+  createRun(input: CreateCloneRunInput): CloneRun {
+    const { classes, ...fields } = input;
+    const run: CloneRun = { ...fields, id: `clones_${nanoid()}`, created_at: Date.now() };
+    const db = this.connection();
+
+    const insertRun = db.prepare(`
+      INSERT INTO clone_runs (
+        id, scope, project_id, tool, paths, options, totals, clone_count, class_count, duplicated_lines,
+        duplication_percentage, previous_run_id, new_classes, new_fragments, resolved_classes, unchanged_classes,
+        created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertClass = db.prepare(`
+      INSERT OR REPLACE INTO clone_run_classes (run_id, fingerprint, type, similarity, is_new, fragments)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      insertRun.run(
+        run.id,
+        run.scope,
+        run.product_id ?? null,
+        run.tool,
+        JSON.stringify(run.paths),
+        JSON.stringify(run.options),
+        JSON.stringify(run.totals),
+        run.cloneCount,
+        run.classCount,
+        run.totals.duplicatedLines,
+        run.totals.percentage,
+        run.diff.previousRunId ?? null,
+        run.diff.newClasses,
+        run.diff.newFragments,
+        run.diff.resolvedClasses,
+        run.diff.unchangedClasses,
+        run.created_at,
+      );
+      for (const cloneClass of classes) {
+        insertClass.run(
+          run.id,
+          cloneClass.fingerprint,
+          cloneClass.type,
+          cloneClass.similarity,
+          cloneClass.isNew ? 1 : 0,
+          JSON.stringify(cloneClass.fragments),
+        );
+      }
+    })();
+
+    return run;
+  }
+
+  /**
+   * Get a run, optionally with its clone classes
+   */
+  getRun(id: string, withClasses = false): CloneRun | null {
+    const row = this.connection().prepare("SELECT * FROM clone_runs WHERE id = ?").get(id) as CloneRunRow | undefined;
+    return row ? this.rowToRun(row, withClasses) : null;
+  }
+
+  /**
+   * The most recent run of a scope
+   */
+  getLatestRun(scope: string, withClasses = false): CloneRun | null {
+    const row = this.connection()
+      .prepare("SELECT * FROM clone_runs WHERE scope = ? ORDER BY created_at DESC, rowid DESC LIMIT 1")
+      .get(scope) as CloneRunRow | undefined;
+    return row ? this.rowToRun(row, withClasses) : null;
+  }
+
+  /**
+   * List runs, newest first
+   */
+  listRuns(options: CloneRunQueryOptions = {}): CloneRun[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (options.scope) {
+      conditions.push("scope = ?");
+      params.push(options.scope);
+    }
+    if (options.product_id) {
+      conditions.push("project_id = ?");
+      params.push(options.product_id);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.connection()
+      .prepare(`SELECT * FROM clone_runs ${where} ORDER BY created_at DESC, rowid DESC LIMIT ?`)
+      .all(...params, options.limit ?? 20) as CloneRunRow[];
+    return rows.map((row) => this.rowToRun(row, false));
+  }
+
+  private getClasses(runId: string): CloneRunClass[] {
+    const rows = this.connection()
+      .prepare("SELECT * FROM clone_run_classes WHERE run_id = ? ORDER BY rowid")
+      .all(runId) as CloneClassRow[];
+    return rows.map((row) => ({
+      fingerprint: row.fingerprint,
+      type: row.type,
+      similarity: row.similarity,
+      isNew: row.is_new === 1,
+      fragments: JSON.parse(row.fragments) as CloneRunClass["fragments"],
+    }));
+  }
+
+  private connection() {
+    if (!this.schemaReady) {
+      if (!this.sqliteManager.isOpen()) {
+        this.sqliteManager.initialize();
+      }
+      runMigrations(this.sqliteManager);
+      this.schemaReady = true;
+    }
+    return this.sqliteManager.getConnection();
+  }
+
+  private rowToRun(row: CloneRunRow, withClasses: boolean): CloneRun {
+    const diff: CloneRunDiff = {
+      previousRunId: row.previous_run_id ?? undefined,
+      newClasses: row.new_classes,
+      newFragments: row.new_fragments,
+      resolvedClasses: row.resolved_classes,
+      unchangedClasses: row.unchanged_classes,
+      hasNewDuplication: row.new_fragments > 0,
+    };
+    return {
+      id: row.id,
+      scope: row.scope,
+      product_id: row.project_id ?? undefined,
+      tool: row.tool,
+      paths: JSON.parse(row.paths) as string[],
+      options: JSON.parse(row.options) as Record<string, unknown>,
+      totals: JSON.parse(row.totals) as CloneRunTotals,
+      cloneCount: row.clone_count,
+      classCount: row.class_count,
+      diff,
+      created_at: row.created_at,
+      classes: withClasses ? this.getClasses(row.id) : undefined,
+    };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Git History Store
+ * Persists per-file and per-entity churn computed from git history
+ */
+
+import type { ChurnAuthor, EntityChurn, FileChurn } from "../types/git-history.js";
+import type { SQLiteManager } from "./sqlite-manager.js";
+
+export interface ChurnQueryOptions {
+  limit?: number;
+  product_id?: string;
+}
+
+export class GitHistoryStore {
+  constructor(private sqliteManager: SQLiteManager) {}
+
+  /**
+   * Replace all churn rows under a path prefix with freshly computed data
+   */
+  replaceChurn(pathPrefix: string, files: FileChurn[], entities: EntityChurn[]): void {
+    const db = this.sqliteManager.getConnection();
+    const likePrefix = `${pathPrefix.replace(/[\\%_]/g, "\\$&")}%`;
+
+    const deleteFiles = db.prepare(`DELETE FROM git_file_churn WHERE file_path LIKE ? ESCAPE '\\'`);
+    const deleteEntities = db.prepare(`DELETE FROM git_entity_churn WHERE file_path LIKE ? ESCAPE '\\'`);
+    const insertFile = db.prepare(`
+      INSERT OR REPLACE INTO git_file_churn (
+        file_path, project_id, commit_count, lines_added, lines_deleted, authors,
+        first_commit_at, last_commit_at, last_author, last_commit, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertEntity = db.prepare(`
+      INSERT OR REPLACE INTO git_entity_churn (
+        entity_id, file_path, project_id, commit_count, lines_changed, authors,
+        first_commit_at, last_commit_at, last_author, last_commit, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const transaction = db.transaction(() => {
+      deleteFiles.run(likePrefix);
+      deleteEntities.run(likePrefix);
+
+      for (const file of files) {
+        insertFile.run(
+          file.file_path,
+          file.project_id ?? null,
+          file.commit_count,
+          file.lines_added,
+          file.lines_deleted,
+          JSON.stringify(file.authors),
+          file.first_commit_at ?? null,
+          file.last_commit_at ?? null,
+          file.last_author ?? null,
+          file.last_commit ?? null,
+          file.updated_at,
+        );
+      }
+
+      for (const entity of entities) {
+        insertEntity.run(
+          entity.entity_id,
+          entity.file_path,
+          entity.project_id ?? null,
+          entity.commit_count,
+          entity.lines_changed,
+          JSON.stringify(entity.authors),
+          entity.first_commit_at ?? null,
+          entity.last_commit_at ?? null,
+          entity.last_author ?? null,
+          entity.last_commit ?? null,
+          entity.updated_at,
+        );
+      }
+    });
+
+    transaction();
+  }
+
+  /**
+   * Get churn for a single file
+   */
+  getFileChurn(filePath: string): FileChurn | null {
+    const db = this.sqliteManager.getConnection();
+    const row = db.prepare(`SELECT * FROM git_file_churn WHERE file_path = ?`).get(filePath) as any;
+    return row ? this.rowToFileChurn(row) : null;
+  }
+
+  /**
+   * Get churn for a single entity
+   */
+  getEntityChurn(entityId: string): EntityChurn | null {
+    const db = this.sqliteManager.getConnection();
+    const row = db.prepare(`SELECT * FROM git_entity_churn WHERE entity_id = ?`).get(entityId) as any;
+    return row ? this.rowToEntityChurn(row) : null;
+  }
+
+  /**
+   * List the most frequently changed files
+   */
+  getTopFileChurn(options: ChurnQueryOptions = {}): FileChurn[] {
+    const db = this.sqliteManager.getConnection();
+    const { limit = 100, product_id } = options;
+
+    let query = `SELECT * FROM git_file_churn WHERE 1=1`;
+    const params: any[] = [];
+
+    if (product_id) {
+      query += ` AND project_id = ?`;
+      params.push(product_id);
+    }
+
+    query += ` ORDER BY commit_count DESC, lines_added + lines_deleted DESC LIMIT ?`;
+    params.push(limit);
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map((row) => this.rowToFileChurn(row));
+  }
+
+  /**
+   * List the most frequently changed entities
+   */
+  getTopEntityChurn(options: ChurnQueryOptions = {}): EntityChurn[] {
+    const db = this.sqliteManager.getConnection();
+    const { limit = 100, product_id } = options;
+
+    let query = `SELECT * FROM git_entity_churn WHERE 1=1`;
+    const params: any[] = [];
+
+    if (product_id) {
+      query += ` AND project_id = ?`;
+      params.push(product_id);
+    }
+
+    query += ` ORDER BY commit_count DESC, lines_changed DESC LIMIT ?`;
+    params.push(limit);
+
+    const rows = db.prepare(query).all(...params) as any[];
+    return rows.map((row) => this.rowToEntityChurn(row));
+  }
+
+  /**
+   * Count stored churn rows
+   */
+  getCounts(): { files: number; entities: number } {
+    const db = this.sqliteManager.getConnection();
+    const files = db.prepare(`SELECT COUNT(*) as count FROM git_file_churn`).get() as { count: number };
+    const entities = db.prepare(`SELECT COUNT(*) as count FROM git_entity_churn`).get() as { count: number };
+    return { files: files.count, entities: entities.count };
+  }
+
+  private parseAuthors(raw: string | null): ChurnAuthor[] {
+    if (!raw) return [];
+    try {
+      return JSON.parse(raw) as ChurnAuthor[];
+    } catch {
+      return [];
+    }
+  }
+
+  private rowToFileChurn(row: any): FileChurn {
+    return {
+      file_path: row.file_path,
+      project_id: row.project_id ?? undefined,
+      commit_count: row.commit_count,
+      lines_added: row.lines_added,
+      lines_deleted: row.lines_deleted,
+      authors: this.parseAuthors(row.authors),
+      first_commit_at: row.first_commit_at ?? undefined,
+      last_commit_at: row.last_commit_at ?? undefined,
+      last_author: row.last_author ?? undefined,
+      last_commit: row.last_commit ?? undefined,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private rowToEntityChurn(row: any): EntityChurn {
+    return {
+      entity_id: row.entity_id,
+      file_path: row.file_path,
+      project_id: row.project_id ?? undefined,
+      commit_count: row.commit_count,
+      lines_changed: row.lines_changed,
+      authors: this.parseAuthors(row.authors),
+      first_commit_at: row.first_commit_at ?? undefined,
+      last_commit_at: row.last_commit_at ?? undefined,
+      last_author: row.last_author ?? undefined,
+      last_commit: row.last_commit ?? undefined,
+      updated_at: row.updated_at,
+    };
+  }
+}
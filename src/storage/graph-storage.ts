@@ -194,6 +194,7 @@ export class GraphStorageImpl implements GraphStorage {
           complexityScore,
           language,
           sizeBytes,
+          entity.project_id ?? null,
         );
       },
       1,
@@ -243,6 +244,7 @@ export class GraphStorageImpl implements GraphStorage {
                 complexityScore,
                 language,
                 sizeBytes,
+                entity.project_id ?? null,
               );
 
               processed++;
@@ -346,6 +348,15 @@ export class GraphStorageImpl implements GraphStorage {
           params.push(query.filters.name);
         }
       }
+
+      if (query.filters.minComplexity !== undefined) {
+        sql += " AND complexity_score >= ?";
+        params.push(query.filters.minComplexity);
+      }
+    }
+
+    if (query.orderBy === "complexity") {
+      sql += " ORDER BY complexity_score DESC, name";
     }
 
     // Apply limit and offset
@@ -374,6 +385,7 @@ export class GraphStorageImpl implements GraphStorage {
       relationship.metadata ? JSON.stringify(relationship.metadata) : null,
       relationship.weight ?? 1.0,
       relationship.createdAt ?? now,
+      relationship.project_id ?? null,
     );
   }
 
@@ -406,6 +418,7 @@ export class GraphStorageImpl implements GraphStorage {
             r.metadata ? JSON.stringify(r.metadata) : null,
             r.weight ?? 1.0,
             r.createdAt ?? now,
+            r.project_id ?? null,
           );
           processed++;
         } catch (error) {
@@ -508,6 +521,204 @@ export class GraphStorageImpl implements GraphStorage {
       : null;
   }
 
+  /**
+   * Page through indexed files ordered by path
+   */
+  async listFiles(limit: number, offset = 0): Promise<FileInfo[]> {
+    this.ensureReady();
+    const rows = this.db.prepare("SELECT * FROM files ORDER BY path LIMIT ? OFFSET ?").all(limit, offset) as any[];
+    return rows.map((row) => ({
+      path: row.path,
+      hash: row.hash,
+      lastIndexed: row.last_indexed,
+      entityCount: row.entity_count,
+    }));
+  }
+
+  async deleteFileInfo(path: string): Promise<void> {
+    this.ensureReady();
+    this.db.prepare("DELETE FROM files WHERE path = ?").run(path);
+  }
+
+  /**
+   * Get every entity recorded for a file (not subject to the query limit)
+   */
+  async getEntitiesByFile(path: string): Promise<Entity[]> {
+    this.ensureReady();
+    const rows = this.db.prepare("SELECT * FROM entities WHERE file_path = ?").all(path) as any[];
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Find entities whose name contains a term (case-insensitive), exact matches first, then
+   * prefix matches, then shorter names
+   */
+  async searchEntitiesByName(term: string, options: { product_id?: string; limit?: number } = {}): Promise<Entity[]> {
+    this.ensureReady();
+    const escaped = term.replace(/[\\%_]/g, "\\$&");
+    let sql = "SELECT * FROM entities WHERE name LIKE ? ESCAPE '\\'";
+    const params: any[] = [`%${escaped}%`];
+    if (options.product_id) {
+      sql += " AND project_id = ?";
+      params.push(options.product_id);
+    }
+    sql += " ORDER BY (lower(name) = lower(?)) DESC, (name LIKE ? ESCAPE '\\') DESC, length(name), file_path LIMIT ?";
+    params.push(term, `${escaped}%`, Math.min(options.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT));
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Delete relationships originating from the given entities, optionally only those of some types
+   */
+  async deleteRelationshipsFrom(entityIds: string[], types?: RelationType[]): Promise<number> {
+    this.ensureReady();
+    const typeFilter = types?.length ? ` AND type IN (${types.map(() => "?").join(",")})` : "";
+    const stmt = this.db.prepare(`DELETE FROM relationships WHERE from_id = ?${typeFilter}`);
+    const transaction = this.db.transaction((ids: string[]) => {
+      let deleted = 0;
+      for (const id of ids) {
+        deleted += stmt.run(id, ...(types ?? [])).changes;
+      }
+      return deleted;
+    });
+    return transaction(entityIds);
+  }
+
+  /**
+   * Get every non-placeholder entity, optionally limited to one product
+   */
+  async getIndexedEntities(product_id?: string): Promise<Entity[]> {
+    this.ensureReady();
+    let sql = "SELECT * FROM entities WHERE file_path NOT LIKE 'external://%'";
+    const params: any[] = [];
+    if (product_id) {
+      sql += " AND project_id = ?";
+      params.push(product_id);
+    }
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.rowToEntity(row));
+  }
+
+  /**
+   * Get every relationship of the given types (no paging limit), optionally for one product
+   */
+  async getRelationshipsByType(types: RelationType[], product_id?: string): Promise<Relationship[]> {
+    this.ensureReady();
+    if (types.length === 0) return [];
+    let sql = `SELECT * FROM relationships WHERE type IN (${types.map(() => "?").join(",")})`;
+    const params: any[] = [...types];
+    if (product_id) {
+      sql += " AND project_id = ?";
+      params.push(product_id);
+    }
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => this.rowToRelationship(row));
+  }
+
+  /**
+   * Get relationships that point at `external://` placeholder entities together with both endpoints
+   */
+  async getPlaceholderReferences(
+    options: { product_id?: string; fromFiles?: string[] } = {},
+  ): Promise<Array<{ relationship: Relationship; source: Entity; placeholder: Entity }>> {
+    this.ensureReady();
+    let sql = `
+      SELECT r.id AS r_id, r.from_id AS r_from_id, r.to_id AS r_to_id, r.type AS r_type,
+             r.metadata AS r_metadata, r.weight AS r_weight, r.created_at AS r_created_at,
+             r.project_id AS r_project_id,
+             s.*,
+             p.id AS p_id, p.name AS p_name, p.type AS p_type, p.file_path AS p_file_path,
+             p.location AS p_location, p.metadata AS p_metadata, p.hash AS p_hash,
+             p.created_at AS p_created_at, p.updated_at AS p_updated_at, p.project_id AS p_project_id
+      FROM relationships r
+      JOIN entities p ON p.id = r.to_id
+      JOIN entities s ON s.id = r.from_id
+      WHERE p.file_path LIKE 'external://%'
+    `;
+    const params: any[] = [];
+    if (options.product_id) {
+      sql += " AND r.project_id = ?";
+      params.push(options.product_id);
+    }
+    if (options.fromFiles?.length) {
+      sql += ` AND s.file_path IN (${options.fromFiles.map(() => "?").join(",")})`;
+      params.push(...options.fromFiles);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as any[];
+    return rows.map((row) => ({
+      relationship: this.rowToRelationship({
+        id: row.r_id,
+        from_id: row.r_from_id,
+        to_id: row.r_to_id,
+        type: row.r_type,
+        metadata: row.r_metadata,
+        weight: row.r_weight,
+        created_at: row.r_created_at,
+        project_id: row.r_project_id,
+      }),
+      source: this.rowToEntity(row),
+      placeholder: this.rowToEntity({
+        id: row.p_id,
+        name: row.p_name,
+        type: row.p_type,
+        file_path: row.p_file_path,
+        location: row.p_location,
+        metadata: row.p_metadata,
+        hash: row.p_hash,
+        created_at: row.p_created_at,
+        updated_at: row.p_updated_at,
+        project_id: row.p_project_id,
+      }),
+    }));
+  }
+
+  /**
+   * Point relationships at new targets (the relationship id is derived from its endpoints, so
+   * each one is replaced)
+   */
+  async retargetRelationships(
+    updates: Array<{ relationship: Relationship; toId: string; metadata?: Record<string, unknown> }>,
+  ): Promise<number> {
+    this.ensureReady();
+    const transaction = this.db.transaction((items: typeof updates) => {
+      let changed = 0;
+      for (const { relationship, toId, metadata } of items) {
+        this.statements.deleteRelationship?.run(relationship.id);
+        const next: Relationship = { ...relationship, toId, metadata: metadata ?? relationship.metadata };
+        this.statements.insertRelationship?.run(
+          this.stableRelationshipId(next),
+          next.fromId,
+          next.toId,
+          next.type,
+          next.metadata ? JSON.stringify(next.metadata) : null,
+          next.weight ?? 1.0,
+          next.createdAt ?? Date.now(),
+          next.project_id ?? null,
+        );
+        changed++;
+      }
+      return changed;
+    });
+    return transaction(updates);
+  }
+
+  /**
+   * Delete `external://` placeholder entities that no relationship points at anymore
+   */
+  async deleteUnreferencedPlaceholders(): Promise<number> {
+    this.ensureReady();
+    return this.db
+      .prepare(`
+      DELETE FROM entities
+      WHERE file_path LIKE 'external://%'
+        AND id NOT IN (SELECT to_id FROM relationships)
+        AND id NOT IN (SELECT from_id FROM relationships)
+    `)
+      .run().changes;
+  }
+
   async getOutdatedFiles(since: number): Promise<FileInfo[]> {
     this.ensureReady();
     const rows = this.db
@@ -880,6 +1091,7 @@ export class GraphStorageImpl implements GraphStorage {
       name: row.name,
       type: row.type as EntityType,
       filePath: row.file_path,
+      project_id: row.project_id ?? undefined,
       location: JSON.parse(row.location),
       metadata: row.metadata ? JSON.parse(row.metadata) : {},
       hash: row.hash,
@@ -900,6 +1112,7 @@ export class GraphStorageImpl implements GraphStorage {
       fromId: row.from_id,
       toId: row.to_id,
       type: row.type as RelationType,
+      project_id: row.project_id ?? undefined,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
       weight: row.weight,
       createdAt: row.created_at,
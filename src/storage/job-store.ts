@@ -0,0 +1,182 @@
+/**
+ * Job Store
+ * Persists background indexing jobs and their progress
+ */
+
+import { nanoid } from "nanoid";
+import type { CreateJobInput, Job, JobKind, JobProgress, JobStatus } from "../types/jobs.js";
+import { runMigrations } from "./schema-migrations.js";
+import type { SQLiteManager } from "./sqlite-manager.js";
+
+interface JobRow {
+  id: string;
+  kind: string;
+  status: string;
+  directory: string;
+  project_id: string | null;
+  params: string;
+  progress: string;
+  result: string | null;
+  error: string | null;
+  cancel_requested: number;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+  updated_at: number;
+}
+
+export interface JobQueryOptions {
+  status?: JobStatus;
+  limit?: number;
+}
+
+const EMPTY_PROGRESS: JobProgress = {
+  filesProcessed: 0,
+  totalFiles: 0,
+  entitiesExtracted: 0,
+  relationshipsCreated: 0,
+};
+
+export class JobStore {
+  private schemaReady = false;
+
+  constructor(private sqliteManager: SQLiteManager) {}
+
+  createJob(input: CreateJobInput): Job {
+    const now = Date.now();
+    const job: Job = {
+      id: `job_${nanoid()}`,
+      kind: input.kind,
+      status: "queued",
+      directory: input.directory,
+      product_id: input.product_id,
+      params: input.params,
+      progress: { ...EMPTY_PROGRESS },
+      cancel_requested: false,
+      created_at: now,
+      updated_at: now,
+    };
+
+    this.connection()
+      .prepare(`
+        INSERT INTO jobs (id, kind, status, directory, project_id, params, progress, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        job.id,
+        job.kind,
+        job.status,
+        job.directory,
+        job.product_id ?? null,
+        JSON.stringify(job.params),
+        JSON.stringify(job.progress),
+        job.created_at,
+        job.updated_at,
+      );
+    return job;
+  }
+
+  getJob(id: string): Job | null {
+    const row = this.connection().prepare("SELECT * FROM jobs WHERE id = ?").get(id) as JobRow | undefined;
+    return row ? this.rowToJob(row) : null;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  listJobs(options: JobQueryOptions = {}): Job[] {
+    const where = options.status ? "WHERE status = ?" : "";
+    const params: unknown[] = options.status ? [options.status] : [];
+    const rows = this.connection()
+      .prepare(`SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ?`)
+      .all(...params, options.limit ?? 20) as JobRow[];
+    return rows.map((row) => this.rowToJob(row));
+  }
+
+  markRunning(id: string): void {
+    const now = Date.now();
+    this.connection()
+      .prepare("UPDATE jobs SET status = 'running', started_at = ?, updated_at = ? WHERE id = ? AND status = 'queued'")
+      .run(now, now, id);
+  }
+
+  /**
+   * Merge a progress update into the stored progress
+   */
+  updateProgress(id: string, progress: Partial<JobProgress>): Job | null {
+    const job = this.getJob(id);
+    if (!job) return null;
+
+    job.progress = { ...job.progress, ...progress };
+    job.updated_at = Date.now();
+    this.connection()
+      .prepare("UPDATE jobs SET progress = ?, updated_at = ? WHERE id = ?")
+      .run(JSON.stringify(job.progress), job.updated_at, id);
+    return job;
+  }
+
+  /**
+   * Record the outcome of a job; finished jobs are never reopened
+   */
+  finishJob(
+    id: string,
+    status: Extract<JobStatus, "completed" | "failed" | "cancelled">,
+    { result, error }: { result?: unknown; error?: string } = {},
+  ): void {
+    const now = Date.now();
+    this.connection()
+      .prepare(`
+        UPDATE jobs SET status = ?, result = ?, error = ?, finished_at = ?, updated_at = ?
+        WHERE id = ? AND status IN ('queued', 'running')
+      `)
+      .run(status, result === undefined ? null : JSON.stringify(result), error ?? null, now, now, id);
+  }
+
+  requestCancel(id: string): void {
+    this.connection().prepare("UPDATE jobs SET cancel_requested = 1, updated_at = ? WHERE id = ?").run(Date.now(), id);
+  }
+
+  /**
+   * Fail jobs left queued or running by a previous server process; returns how many were found
+   */
+  failInterruptedJobs(): number {
+    const now = Date.now();
+    const result = this.connection()
+      .prepare(`
+        UPDATE jobs SET status = 'failed', error = 'Interrupted by server restart', finished_at = ?, updated_at = ?
+        WHERE status IN ('queued', 'running')
+      `)
+      .run(now, now);
+    return result.changes;
+  }
+
+  private connection() {
+    if (!this.schemaReady) {
+      if (!this.sqliteManager.isOpen()) {
+        this.sqliteManager.initialize();
+      }
+      runMigrations(this.sqliteManager);
+      this.schemaReady = true;
+    }
+    return this.sqliteManager.getConnection();
+  }
+
+  private rowToJob(row: JobRow): Job {
+    return {
+      id: row.id,
+      kind: row.kind as JobKind,
+      status: row.status as JobStatus,
+      directory: row.directory,
+      product_id: row.project_id ?? undefined,
+      params: JSON.parse(row.params) as Record<string, unknown>,
+      progress: { ...EMPTY_PROGRESS, ...(JSON.parse(row.progress) as Partial<JobProgress>) },
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error ?? undefined,
+      cancel_requested: row.cancel_requested === 1,
+      created_at: row.created_at,
+      started_at: row.started_at ?? undefined,
+      finished_at: row.finished_at ?? undefined,
+      updated_at: row.updated_at,
+    };
+  }
+}
@@ -20,7 +20,7 @@ import type { SQLiteManager } from "./sqlite-manager.js";
 // 2. CONSTANTS AND CONFIGURATION
 // =============================================================================
 const MIGRATIONS_TABLE = "migrations";
-const CURRENT_VERSION = 4;
+const CURRENT_VERSION = 7;
 
 // =============================================================================
 // 3. DATA MODELS AND TYPE DEFINITIONS
@@ -448,6 +448,162 @@ export const migrations: Migration[] = [
       -- For now, we just drop the indexes
     `,
   },
+  {
+    version: 5,
+    description: "Git history ingestion: per-file and per-entity churn",
+    up: `
+      -- Per-file churn aggregated from git log
+      CREATE TABLE IF NOT EXISTS git_file_churn (
+        file_path TEXT PRIMARY KEY,
+        project_id TEXT DEFAULT NULL,
+        commit_count INTEGER NOT NULL DEFAULT 0,
+        lines_added INTEGER NOT NULL DEFAULT 0,
+        lines_deleted INTEGER NOT NULL DEFAULT 0,
+        authors TEXT,  -- JSON: [{name, email, commits}]
+        first_commit_at INTEGER,
+        last_commit_at INTEGER,
+        last_author TEXT,
+        last_commit TEXT,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_git_file_churn_project ON git_file_churn(project_id);
+      CREATE INDEX IF NOT EXISTS idx_git_file_churn_commits ON git_file_churn(commit_count DESC);
+      CREATE INDEX IF NOT EXISTS idx_git_file_churn_last ON git_file_churn(last_commit_at);
+
+      -- Per-entity churn: commits whose hunks overlap the entity's current line range
+      CREATE TABLE IF NOT EXISTS git_entity_churn (
+        entity_id TEXT PRIMARY KEY,
+        file_path TEXT NOT NULL,
+        project_id TEXT DEFAULT NULL,
+        commit_count INTEGER NOT NULL DEFAULT 0,
+        lines_changed INTEGER NOT NULL DEFAULT 0,
+        authors TEXT,  -- JSON: [{name, email, commits}]
+        first_commit_at INTEGER,
+        last_commit_at INTEGER,
+        last_author TEXT,
+        last_commit TEXT,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_git_entity_churn_file ON git_entity_churn(file_path);
+      CREATE INDEX IF NOT EXISTS idx_git_entity_churn_project ON git_entity_churn(project_id);
+      CREATE INDEX IF NOT EXISTS idx_git_entity_churn_commits ON git_entity_churn(commit_count DESC);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_git_entity_churn_commits;
+      DROP INDEX IF EXISTS idx_git_entity_churn_project;
+      DROP INDEX IF EXISTS idx_git_entity_churn_file;
+      DROP TABLE IF EXISTS git_entity_churn;
+
+      DROP INDEX IF EXISTS idx_git_file_churn_last;
+      DROP INDEX IF EXISTS idx_git_file_churn_commits;
+      DROP INDEX IF EXISTS idx_git_file_churn_project;
+      DROP TABLE IF EXISTS git_file_churn;
+    `,
+  },
+  {
+    version: 6,
+    description: "HTTP API keys with scopes",
+    up: `
+      -- API keys for the HTTP API; only the SHA-256 hash of each key is stored
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        scopes TEXT NOT NULL,  -- JSON: ["read", "index", "admin"]
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        expires_at INTEGER,
+        revoked_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_api_keys_revoked ON api_keys(revoked_at);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_api_keys_revoked;
+      DROP TABLE IF EXISTS api_keys;
+    `,
+  },
+  {
+    version: 7,
+    description: "Background indexing jobs",
+    up: `
+      -- Indexing jobs with their progress, so clients can poll or cancel long runs
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,             -- 'index' | 'clean_index'
+        status TEXT NOT NULL,           -- 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+        directory TEXT NOT NULL,
+        project_id TEXT,
+        params TEXT NOT NULL,           -- JSON tool arguments
+        progress TEXT NOT NULL,         -- JSON JobProgress
+        result TEXT,                    -- JSON tool payload
+        error TEXT,
+        cancel_requested INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        finished_at INTEGER,
+        updated_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at DESC);
+    `,
+    down: `
+      DROP INDEX IF EXISTS idx_jobs_created;
+      DROP INDEX IF EXISTS idx_jobs_status;
+      DROP TABLE IF EXISTS jobs;
+    `,
+  },
+  {
+    version: 8,
+    description: "Persisted clone detection runs",
+    up: `
+      -- One row per clone detection run, compared with the previous run of the same scope
+      CREATE TABLE IF NOT EXISTS clone_runs (
+        id TEXT PRIMARY KEY,
+        scope TEXT NOT NULL,            -- 'product:<id>' or the scanned paths
+        project_id TEXT,
+        tool TEXT NOT NULL,             -- 'jscpd_detect_clones' | 'detect_code_clones'
+        paths TEXT NOT NULL,            -- JSON: scanned paths
+        options TEXT NOT NULL,          -- JSON: detection options
+        totals TEXT NOT NULL,           -- JSON: statistic total row
+        clone_count INTEGER NOT NULL,
+        class_count INTEGER NOT NULL,
+        duplicated_lines INTEGER NOT NULL,
+        duplication_percentage REAL NOT NULL,
+        previous_run_id TEXT,
+        new_classes INTEGER NOT NULL DEFAULT 0,
+        new_fragments INTEGER NOT NULL DEFAULT 0,
+        resolved_classes INTEGER NOT NULL DEFAULT 0,
+        unchanged_classes INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_clone_runs_scope ON clone_runs(scope, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_clone_runs_project ON clone_runs(project_id, created_at DESC);
+
+      -- Clone classes found by a run, keyed by the fingerprint of their normalized tokens
+      CREATE TABLE IF NOT EXISTS clone_run_classes (
+        run_id TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        type INTEGER NOT NULL,
+        similarity REAL NOT NULL,
+        is_new INTEGER NOT NULL DEFAULT 0,
+        fragments TEXT NOT NULL,        -- JSON: [{sourceId, startLine, endLine, tokens, fingerprint, entityIds, isNew}]
+        PRIMARY KEY (run_id, fingerprint),
+        FOREIGN KEY (run_id) REFERENCES clone_runs(id) ON DELETE CASCADE
+      );
+    `,
+    down: `
+      DROP TABLE IF EXISTS clone_run_classes;
+      DROP INDEX IF EXISTS idx_clone_runs_project;
+      DROP INDEX IF EXISTS idx_clone_runs_scope;
+      DROP TABLE IF EXISTS clone_runs;
+    `,
+  },
 ];
 
 // =============================================================================
@@ -0,0 +1,315 @@
+/**
+ * Clone Runs and Reports
+ * Records clone detection results as runs, diffs each run against the previous run of the same
+ * scope, groups runs into trends and renders runs as SARIF, HTML or JSON reports
+ */
+
+import { isAbsolute, relative, resolve } from "node:path";
+import type { CloneRunStore } from "../storage/clone-run-store.js";
+import type {
+  CloneReportFormat,
+  CloneRun,
+  CloneRunClass,
+  CloneRunFragment,
+  CloneTrend,
+  CloneTrendPoint,
+} from "../types/clone-runs.js";
+import type { JscpdCloneResult } from "./jscpd.js";
+
+export const CLONE_REPORT_MEDIA_TYPES: Record<CloneReportFormat, { contentType: string; extension: string }> = {
+  sarif: { contentType: "application/sarif+json", extension: "sarif" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+  json: { contentType: "application/json", extension: "json" },
+};
+
+const DEFAULT_TREND_POINTS = 20;
+// Runs scanned when grouping trends; each scope then keeps its newest points
+const TREND_SCAN_LIMIT = 1000;
+
+export interface RecordCloneRunOptions {
+  tool: string;
+  paths: string[];
+  product_id?: string;
+  options?: Record<string, unknown>;
+}
+
+export interface CloneReport {
+  runId: string;
+  format: CloneReportFormat;
+  contentType: string;
+  extension: string;
+  content: string;
+}
+
+/**
+ * Runs of a product share a scope whatever paths they scan; other runs are scoped by their paths
+ */
+export function cloneRunScope(paths: string[], product_id?: string): string {
+  if (product_id) return `product:${product_id}`;
+  return `paths:${[...new Set(paths.map((path) => resolve(path)))].sort().join(",")}`;
+}
+
+const fragmentKey = (fragment: { sourceId: string; fingerprint: string }) =>
+  `${fragment.sourceId}\u0000${fragment.fingerprint}`;
+
+const fragmentLines = (fragment: { startLine: number; endLine: number }) => fragment.endLine - fragment.startLine + 1;
+
+/**
+ * Persist a detection result as a run. Clone classes and fragments are matched with the previous
+ * run of the same scope by their token fingerprints, so moved code is not reported as new. The
+ * first run of a scope is the baseline: nothing in it is new.
+ *
+ * Marks `isNew` on the result's clones and fills `newClones` and `newDuplicatedLines` of its
+ * statistic totals. The returned run does not carry its classes; load them with `getRun`.
+ */
+export function recordCloneRun(
+  store: CloneRunStore,
+  result: JscpdCloneResult,
+  options: RecordCloneRunOptions,
+): CloneRun {
+  const scope = cloneRunScope(options.paths, options.product_id);
+  const previous = store.getLatestRun(scope, true);
+  const previousClasses = new Set(previous?.classes?.map((cloneClass) => cloneClass.fingerprint));
+  const previousFragments = new Set(
+    previous?.classes?.flatMap((cloneClass) => cloneClass.fragments.map((fragment) => fragmentKey(fragment))),
+  );
+
+  const classes: CloneRunClass[] = result.cloneClasses.map((cloneClass) => {
+    const fragments: CloneRunFragment[] = cloneClass.fragments.map((fragment) => ({
+      ...fragment,
+      isNew: previous !== null && !previousFragments.has(fragmentKey(fragment)),
+    }));
+    return {
+      fingerprint: cloneClass.fingerprint,
+      type: cloneClass.type,
+      similarity: cloneClass.similarity,
+      isNew: previous !== null && !previousClasses.has(cloneClass.fingerprint),
+      fragments,
+    };
+  });
+
+  // A clone pair is new when one of its copies overlaps a new fragment of its class
+  const newFragments = classes.flatMap((cloneClass) => cloneClass.fragments.filter((fragment) => fragment.isNew));
+  let newClones = 0;
+  result.cloneClasses.forEach((cloneClass, classIndex) => {
+    const added = classes[classIndex]!.fragments.filter((fragment) => fragment.isNew);
+    for (const cloneIndex of cloneClass.clones) {
+      const detail = result.summary.clones[cloneIndex];
+      if (!detail) continue;
+      const isNew = [detail.clone.duplicationA, detail.clone.duplicationB].some((duplication) =>
+        added.some(
+          (fragment) =>
+            fragment.sourceId === duplication.sourceId &&
+            fragment.startLine <= duplication.end.line &&
+            duplication.start.line <= fragment.endLine,
+        ),
+      );
+      detail.clone.isNew = isNew;
+      if (isNew) newClones += 1;
+    }
+  });
+
+  const total = result.statistic.total;
+  total.newClones = newClones;
+  total.newDuplicatedLines = newFragments.reduce((sum, fragment) => sum + fragmentLines(fragment), 0);
+
+  const currentClasses = new Set(classes.map((cloneClass) => cloneClass.fingerprint));
+  const resolvedClasses = [...previousClasses].filter((fingerprint) => !currentClasses.has(fingerprint)).length;
+  const newClasses = classes.filter((cloneClass) => cloneClass.isNew).length;
+
+  return store.createRun({
+    scope,
+    product_id: options.product_id,
+    tool: options.tool,
+    paths: options.paths,
+    options: options.options ?? {},
+    totals: { ...total },
+    cloneCount: result.summary.cloneCount,
+    classCount: classes.length,
+    diff: {
+      previousRunId: previous?.id,
+      newClasses,
+      newFragments: newFragments.length,
+      resolvedClasses,
+      unchangedClasses: classes.length - newClasses,
+      hasNewDuplication: newFragments.length > 0,
+    },
+    classes,
+  });
+}
+
+/**
+ * Duplication over time, one trend per scope, optionally limited to a product
+ */
+export function getCloneTrends(
+  store: CloneRunStore,
+  options: { product_id?: string; scope?: string; limit?: number } = {},
+): CloneTrend[] {
+  const limit = options.limit ?? DEFAULT_TREND_POINTS;
+  const runs = store.listRuns({ product_id: options.product_id, scope: options.scope, limit: TREND_SCAN_LIMIT });
+
+  const byScope = new Map<string, CloneRun[]>();
+  for (const run of runs) {
+    const scopeRuns = byScope.get(run.scope) ?? [];
+    if (scopeRuns.length < limit) scopeRuns.push(run);
+    byScope.set(run.scope, scopeRuns);
+  }
+
+  return [...byScope.entries()].map(([scope, scopeRuns]) => {
+    const points: CloneTrendPoint[] = scopeRuns.reverse().map((run) => ({
+      runId: run.id,
+      created_at: run.created_at,
+      cloneCount: run.cloneCount,
+      classCount: run.classCount,
+      duplicatedLines: run.totals.duplicatedLines,
+      duplicationPercentage: run.totals.percentage,
+      newClasses: run.diff.newClasses,
+      resolvedClasses: run.diff.resolvedClasses,
+    }));
+    const first = points[0]!;
+    const latest = points[points.length - 1]!;
+    return {
+      scope,
+      product_id: scopeRuns[0]!.product_id,
+      points,
+      percentageChange: Math.round((latest.duplicationPercentage - first.duplicationPercentage) * 100) / 100,
+    };
+  });
+}
+
+function artifactUri(sourceId: string, roots: string[]): { uri: string; uriBaseId?: string } {
+  const [root] = roots;
+  if (roots.length === 1 && root) {
+    const relativePath = relative(resolve(root), resolve(sourceId));
+    if (relativePath && !relativePath.startsWith("..") && !isAbsolute(relativePath)) {
+      return { uri: relativePath.split("\\").join("/"), uriBaseId: "SRCROOT" };
+    }
+  }
+  return { uri: `file://${resolve(sourceId).split("\\").join("/")}` };
+}
+
+function renderSarif(run: CloneRun, classes: CloneRunClass[], onlyNew: boolean): string {
+  const region = (fragment: CloneRunFragment) => ({ startLine: fragment.startLine, endLine: fragment.endLine });
+  const results = classes.flatMap((cloneClass) =>
+    (onlyNew ? cloneClass.fragments.filter((fragment) => fragment.isNew) : cloneClass.fragments).map((fragment) => {
+      const others = cloneClass.fragments.filter((other) => other !== fragment);
+      return {
+        ruleId: `code-clone/type-${cloneClass.type}`,
+        level: "warning",
+        message: {
+          text: `${fragmentLines(fragment)} lines duplicated in ${others.length} other location(s) (similarity ${cloneClass.similarity})`,
+        },
+        locations: [
+          {
+            physicalLocation: { artifactLocation: artifactUri(fragment.sourceId, run.paths), region: region(fragment) },
+          },
+        ],
+        relatedLocations: others.map((other, index) => ({
+          id: index + 1,
+          physicalLocation: { artifactLocation: artifactUri(other.sourceId, run.paths), region: region(other) },
+        })),
+        partialFingerprints: { cloneClass: cloneClass.fingerprint, cloneFragment: fragment.fingerprint },
+        ...(run.diff.previousRunId ? { baselineState: fragment.isNew ? "new" : "unchanged" } : {}),
+        properties: { entityIds: fragment.entityIds, tokens: fragment.tokens },
+      };
+    }),
+  );
+
+  const [root] = run.paths;
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: run.tool,
+            rules: ([1, 2, 3] as const).map((type) => ({
+              id: `code-clone/type-${type}`,
+              shortDescription: {
+                text: ["Exact copy", "Copy with renamed identifiers or literals", "Copy with added or removed code"][
+                  type - 1
+                ],
+              },
+            })),
+          },
+        },
+        ...(run.paths.length === 1 && root
+          ? { originalUriBaseIds: { SRCROOT: { uri: `file://${resolve(root).split("\\").join("/")}/` } } }
+          : {}),
+        automationDetails: { id: `${run.scope}/${run.id}` },
+        results,
+        properties: { totals: run.totals, diff: run.diff },
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+const escapeHtml = (value: unknown) => String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+function renderHtml(run: CloneRun, classes: CloneRunClass[]): string {
+  const summary: Array<[string, unknown]> = [
+    ["Run", run.id],
+    ["Scope", run.scope],
+    ["Created", new Date(run.created_at).toISOString()],
+    ["Clones", run.cloneCount],
+    ["Clone classes", run.classCount],
+    ["Duplicated lines", `${run.totals.duplicatedLines} of ${run.totals.lines} (${run.totals.percentage}%)`],
+    ["New clone classes", run.diff.newClasses],
+    ["New copies", run.diff.newFragments],
+    ["Resolved clone classes", run.diff.resolvedClasses],
+  ];
+  const rows = classes.flatMap((cloneClass) =>
+    cloneClass.fragments.map(
+      (fragment, index) =>
+        `<tr${fragment.isNew ? ' class="new"' : ""}>${index === 0 ? `<td rowspan="${cloneClass.fragments.length}">${escapeHtml(cloneClass.fingerprint)}<br>Type ${cloneClass.type}, similarity ${cloneClass.similarity}</td>` : ""}<td>${escapeHtml(fragment.sourceId)}</td><td>${fragment.startLine}-${fragment.endLine}</td><td>${fragment.tokens}</td><td>${fragment.isNew ? "new" : ""}</td></tr>`,
+    ),
+  );
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    `<head><meta charset="utf-8"><title>Clone report ${escapeHtml(run.id)}</title>`,
+    "<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left;vertical-align:top}tr.new td{background:#fff3cd}</style>",
+    "</head>",
+    "<body>",
+    "<h1>Clone report</h1>",
+    "<table>",
+    ...summary.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`),
+    "</table>",
+    "<h2>Clone classes</h2>",
+    "<table>",
+    "<tr><th>Class</th><th>File</th><th>Lines</th><th>Tokens</th><th>Status</th></tr>",
+    ...rows,
+    "</table>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Render a stored run; `onlyNew` keeps the classes with new copies, and only those copies' results in SARIF
+ */
+export function renderCloneReport(
+  run: CloneRun,
+  format: CloneReportFormat,
+  options: { onlyNew?: boolean } = {},
+): CloneReport {
+  const allClasses = run.classes ?? [];
+  const classes = options.onlyNew
+    ? allClasses.filter((cloneClass) => cloneClass.fragments.some((fragment) => fragment.isNew))
+    : allClasses;
+
+  let content: string;
+  if (format === "sarif") {
+    content = renderSarif(run, classes, options.onlyNew ?? false);
+  } else if (format === "html") {
+    content = renderHtml(run, classes);
+  } else {
+    content = JSON.stringify({ ...run, classes }, null, 2);
+  }
+
+  return { runId: run.id, format, ...CLONE_REPORT_MEDIA_TYPES[format], content };
+}
@@ -0,0 +1,201 @@
+/**
+ * Clone Tokenizer
+ * Splits source files into syntax tokens for clone detection. Files of a supported language are
+ * read through their tree-sitter grammar: comments are dropped and, when normalizing, identifiers
+ * and literals are replaced by placeholders so renamed copies (Type-2 clones) hash alike. VBA and
+ * non-source formats have no grammar and are tokenized lexically.
+ */
+
+import type Parser from "tree-sitter";
+import { FILE_EXTENSIONS } from "../parsers/language-configs.js";
+import type { TreeSitterParser } from "../parsers/tree-sitter-parser.js";
+
+export interface CloneToken {
+  /** Compared value: the source text, or a placeholder for normalized identifiers and literals */
+  value: string;
+  /** Source text, used to tell exact (Type-1) copies from renamed ones */
+  raw: string;
+  line: number;
+  column: number;
+  position: number;
+  endLine: number;
+  endColumn: number;
+  endPosition: number;
+}
+
+export interface CloneTokenizeOptions {
+  /** Replace identifiers with `$id`, numbers with `$num` and strings with `$str` */
+  normalize: boolean;
+  ignoreCase: boolean;
+}
+
+const IDENTIFIER_PLACEHOLDER = "$id";
+const NUMBER_PLACEHOLDER = "$num";
+const STRING_PLACEHOLDER = "$str";
+
+const STRING_NODE = /string|char|rune/;
+const STRING_PART = /content|fragment|start|end|interpolation|escape/;
+const NUMBER_NODE = /number|integer|float|int_literal|decimal|imaginary|real_literal/;
+
+// VBA has no tree-sitter grammar; its keywords are kept verbatim when identifiers are normalized
+const VBA_KEYWORDS = new Set([
+  "and",
+  "as",
+  "byref",
+  "byval",
+  "call",
+  "case",
+  "const",
+  "dim",
+  "do",
+  "each",
+  "else",
+  "elseif",
+  "end",
+  "exit",
+  "false",
+  "for",
+  "function",
+  "if",
+  "in",
+  "is",
+  "let",
+  "loop",
+  "me",
+  "mod",
+  "new",
+  "next",
+  "not",
+  "nothing",
+  "or",
+  "private",
+  "property",
+  "public",
+  "redim",
+  "select",
+  "set",
+  "step",
+  "sub",
+  "then",
+  "to",
+  "true",
+  "until",
+  "wend",
+  "while",
+  "with",
+]);
+
+const LEXICAL_TOKEN = /\s+|"(?:[^"\\\n]|\\.|"")*"|'(?:[^'\\\n]|\\.)*'|\d[\w.]*|[A-Za-z_$][\w$]*|\S/g;
+
+function lineStarts(content: string): number[] {
+  const starts = [0];
+  for (let index = content.indexOf("\n"); index !== -1; index = content.indexOf("\n", index + 1)) {
+    starts.push(index + 1);
+  }
+  return starts;
+}
+
+function locate(starts: number[], position: number): { line: number; column: number } {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle]! <= position) low = middle;
+    else high = middle - 1;
+  }
+  return { line: low + 1, column: position - starts[low]! };
+}
+
+function classifySyntaxLeaf(node: Parser.SyntaxNode, options: CloneTokenizeOptions): string | null {
+  if (node.type.includes("comment")) return null;
+  const text = options.ignoreCase ? node.text.toLowerCase() : node.text;
+  if (!options.normalize || !node.isNamed) return text;
+  if (STRING_NODE.test(node.type) && !STRING_PART.test(node.type)) return STRING_PLACEHOLDER;
+  if (node.type.endsWith("identifier")) return IDENTIFIER_PLACEHOLDER;
+  if (NUMBER_NODE.test(node.type)) return NUMBER_PLACEHOLDER;
+  return text;
+}
+
+function syntaxTokens(tree: Parser.Tree, options: CloneTokenizeOptions): CloneToken[] {
+  const tokens: CloneToken[] = [];
+  const stack: Parser.SyntaxNode[] = [tree.rootNode];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    // String literals are one token, whatever the grammar nests inside them
+    const isString = node.isNamed && STRING_NODE.test(node.type) && !STRING_PART.test(node.type);
+    if (node.childCount > 0 && !isString) {
+      for (let index = node.childCount - 1; index >= 0; index--) stack.push(node.child(index)!);
+      continue;
+    }
+    if (node.startIndex === node.endIndex) continue;
+
+    const value = isString ? (options.normalize ? STRING_PLACEHOLDER : node.text) : classifySyntaxLeaf(node, options);
+    if (value === null) continue;
+    tokens.push({
+      value,
+      raw: node.text,
+      line: node.startPosition.row + 1,
+      column: node.startPosition.column,
+      position: node.startIndex,
+      endLine: node.endPosition.row + 1,
+      endColumn: node.endPosition.column,
+      endPosition: node.endIndex,
+    });
+  }
+
+  return tokens;
+}
+
+function lexicalTokens(content: string, isVba: boolean, options: CloneTokenizeOptions): CloneToken[] {
+  const tokens: CloneToken[] = [];
+  const starts = lineStarts(content);
+  // VBA comments run from an apostrophe to the end of the line
+  const source = isVba ? content.replace(/'[^\n]*/g, (comment) => " ".repeat(comment.length)) : content;
+
+  for (const match of source.matchAll(LEXICAL_TOKEN)) {
+    const raw = match[0];
+    if (/^\s/.test(raw)) continue;
+
+    let value = options.ignoreCase || isVba ? raw.toLowerCase() : raw;
+    if (options.normalize) {
+      if (/^["']/.test(raw)) value = STRING_PLACEHOLDER;
+      else if (/^\d/.test(raw)) value = NUMBER_PLACEHOLDER;
+      else if (isVba && /^[A-Za-z_]/.test(raw) && !VBA_KEYWORDS.has(value)) value = IDENTIFIER_PLACEHOLDER;
+    }
+
+    const position = match.index;
+    const start = locate(starts, position);
+    const end = locate(starts, position + raw.length);
+    tokens.push({
+      value,
+      raw,
+      line: start.line,
+      column: start.column,
+      position,
+      endLine: end.line,
+      endColumn: end.column,
+      endPosition: position + raw.length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize one file; `parser` must be initialized
+ */
+export async function tokenizeForClones(
+  parser: TreeSitterParser,
+  filePath: string,
+  content: string,
+  options: CloneTokenizeOptions,
+): Promise<CloneToken[]> {
+  const extension = filePath.split(".").pop() ?? "";
+  const language = FILE_EXTENSIONS[extension] ?? FILE_EXTENSIONS[extension.toLowerCase()];
+  if (!language) return lexicalTokens(content, false, options);
+
+  const tree = await parser.parseSyntaxTree(filePath, content);
+  if (!tree) return lexicalTokens(content, language === "vba", options);
+  return syntaxTokens(tree, options);
+}
@@ -0,0 +1,508 @@
+/**
+ * Code smell detection.
+ * Reads class membership (member_of/contains edges, else lexical nesting), calls, references,
+ * inheritance and file dependencies from the graph and reports god classes, feature envy, shotgun
+ * surgery candidates, long parameter lists, deep inheritance chains and dependencies on files less
+ * stable than their dependents. Severity grows with how far a measurement exceeds its threshold.
+ */
+
+import { relative, sep } from "node:path";
+import { MEASURED_ENTITY_TYPES } from "../parsers/code-metrics.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import {
+  CODE_SMELL_KINDS,
+  type CodeSmell,
+  type CodeSmellKind,
+  type CodeSmellOptions,
+  type CodeSmellReport,
+  type CodeSmellThresholds,
+  SMELL_SEVERITIES,
+  type SmellSeverity,
+} from "../types/code-smells.js";
+import type { Entity, Relationship, RelationType } from "../types/storage.js";
+import { isInDirectory, push } from "./cycle-detection.js";
+
+export const DEFAULT_SMELL_THRESHOLDS: CodeSmellThresholds = {
+  godClassMembers: 20,
+  godClassCoupling: 15,
+  featureEnvyCalls: 3,
+  shotgunSurgeryDependents: 10,
+  shotgunSurgeryFiles: 5,
+  maxParameters: 5,
+  maxInheritanceDepth: 3,
+  instabilityGap: 0.3,
+};
+export const DEFAULT_SMELL_LIMIT = 50;
+
+export const CLASS_ENTITY_TYPES = new Set(["class", "struct", "interface", "trait", "dataclass", "protocol"]);
+export const FUNCTION_ENTITY_TYPES = new Set<string>(
+  Array.from(MEASURED_ENTITY_TYPES).filter((type) => type !== "property"),
+);
+export const MEMBERSHIP_RELATIONSHIP_TYPES = ["member_of", "contains"];
+
+const MEMBER_TYPES = new Set<string>([...FUNCTION_ENTITY_TYPES, "property", "field", "variable", "constant"]);
+const FILE_TYPES = new Set(["module", "file", "import", "export"]);
+const INHERITANCE_TYPES = new Set(["inherits", "extends"]);
+const USAGE_TYPES = new Set(["calls", "references"]);
+const DEPENDENCY_TYPES = ["imports", "calls", "references", "inherits", "extends", "implements", "depends_on"];
+const MAX_EVIDENCE_IDS = 10;
+
+interface ScoredSmell {
+  smell: CodeSmell;
+  /** How far the measurement exceeds its threshold, used to rank smells of the same severity */
+  score: number;
+}
+
+/**
+ * Entities in scope with their class membership and dependency edges
+ */
+interface SmellGraph {
+  entities: Map<string, Entity>;
+  ownerOf: Map<string, string>;
+  membersOf: Map<string, Set<string>>;
+  outgoing: Map<string, Relationship[]>;
+  incoming: Map<string, Relationship[]>;
+  relationshipCount: number;
+}
+
+function severityFor(value: number, threshold: number): SmellSeverity {
+  const ratio = threshold > 0 ? value / threshold : value;
+  if (ratio >= 3) return "critical";
+  if (ratio >= 2) return "high";
+  if (ratio >= 1.5) return "medium";
+  return "low";
+}
+
+export const isFunctionLike = (entity: Entity) => FUNCTION_ENTITY_TYPES.has(entity.type);
+
+const lineOf = (entity: Entity) => entity.location?.start?.line;
+
+/**
+ * Innermost class lexically enclosing an entity, unless a function encloses it more tightly
+ */
+function lexicalOwner(entity: Entity, sameFile: Entity[]): Entity | undefined {
+  let innermost: Entity | undefined;
+  for (const candidate of sameFile) {
+    if (candidate.id === entity.id) continue;
+    if (!CLASS_ENTITY_TYPES.has(candidate.type) && !isFunctionLike(candidate)) continue;
+    const { start, end } = candidate.location;
+    if (start.line > entity.location.start.line || end.line < entity.location.end.line) continue;
+    if (start.line === entity.location.start.line && end.line === entity.location.end.line) continue;
+    if (!innermost || start.line >= innermost.location.start.line) innermost = candidate;
+  }
+  return innermost && CLASS_ENTITY_TYPES.has(innermost.type) ? innermost : undefined;
+}
+
+/**
+ * Class owning each member: from member_of/contains relationships, else (e.g. Python, which has
+ * no membership edges) the class whose body lexically encloses the member
+ */
+export function resolveClassMembership(
+  entities: Map<string, Entity>,
+  membershipRelationships: Relationship[],
+): Map<string, string> {
+  const ownerOf = new Map<string, string>();
+  for (const rel of membershipRelationships) {
+    const [memberId, classId] = (rel.type as string) === "member_of" ? [rel.fromId, rel.toId] : [rel.toId, rel.fromId];
+    const member = entities.get(memberId);
+    const owner = entities.get(classId);
+    if (member && owner && MEMBER_TYPES.has(member.type) && CLASS_ENTITY_TYPES.has(owner.type)) {
+      ownerOf.set(memberId, classId);
+    }
+  }
+
+  const byFile = new Map<string, Entity[]>();
+  for (const entity of entities.values()) push(byFile, entity.filePath, entity);
+  for (const entity of entities.values()) {
+    if (ownerOf.has(entity.id) || !MEMBER_TYPES.has(entity.type)) continue;
+    const owner = lexicalOwner(entity, byFile.get(entity.filePath) ?? []);
+    if (owner) ownerOf.set(entity.id, owner.id);
+  }
+  return ownerOf;
+}
+
+async function buildSmellGraph(storage: GraphStorageImpl, options: CodeSmellOptions): Promise<SmellGraph> {
+  const entities = new Map<string, Entity>();
+  for (const entity of await storage.getIndexedEntities(options.product_id)) {
+    if (!options.directory || isInDirectory(entity.filePath, options.directory)) entities.set(entity.id, entity);
+  }
+
+  const ownerOf = resolveClassMembership(
+    entities,
+    await storage.getRelationshipsByType(MEMBERSHIP_RELATIONSHIP_TYPES as RelationType[], options.product_id),
+  );
+
+  const membersOf = new Map<string, Set<string>>();
+  for (const [memberId, classId] of ownerOf) {
+    const members = membersOf.get(classId) ?? new Set<string>();
+    members.add(memberId);
+    membersOf.set(classId, members);
+  }
+
+  const outgoing = new Map<string, Relationship[]>();
+  const incoming = new Map<string, Relationship[]>();
+  let relationshipCount = 0;
+  for (const rel of await storage.getRelationshipsByType(DEPENDENCY_TYPES as RelationType[], options.product_id)) {
+    if (rel.fromId === rel.toId || !entities.has(rel.fromId) || !entities.has(rel.toId)) continue;
+    push(outgoing, rel.fromId, rel);
+    push(incoming, rel.toId, rel);
+    relationshipCount++;
+  }
+
+  return { entities, ownerOf, membersOf, outgoing, incoming, relationshipCount };
+}
+
+/**
+ * Classes owning many members while coupled to many entities outside them
+ */
+function detectGodClasses(graph: SmellGraph, thresholds: CodeSmellThresholds): ScoredSmell[] {
+  const smells: ScoredSmell[] = [];
+  for (const [classId, members] of graph.membersOf) {
+    if (members.size < thresholds.godClassMembers) continue;
+    const cls = graph.entities.get(classId)!;
+    const unit = new Set([classId, ...members]);
+    const fanIn = new Set<string>();
+    const fanOut = new Set<string>();
+    for (const id of unit) {
+      for (const rel of graph.outgoing.get(id) ?? []) if (!unit.has(rel.toId)) fanOut.add(rel.toId);
+      for (const rel of graph.incoming.get(id) ?? []) if (!unit.has(rel.fromId)) fanIn.add(rel.fromId);
+    }
+    const coupling = fanIn.size + fanOut.size;
+    if (coupling < thresholds.godClassCoupling) continue;
+
+    const memberEntities = Array.from(members, (id) => graph.entities.get(id)!);
+    const methods = memberEntities.filter(isFunctionLike);
+    const score = Math.min(members.size / thresholds.godClassMembers, coupling / thresholds.godClassCoupling);
+    smells.push({
+      score,
+      smell: {
+        kind: "god_class",
+        severity: severityFor(score, 1),
+        name: cls.name,
+        filePath: cls.filePath,
+        line: lineOf(cls),
+        entityIds: [classId, ...methods.map((method) => method.id).slice(0, MAX_EVIDENCE_IDS)],
+        evidence: {
+          members: members.size,
+          methods: methods.length,
+          fanIn: fanIn.size,
+          fanOut: fanOut.size,
+          weightedMethodComplexity: methods.reduce((total, method) => total + (method.complexityScore ?? 0), 0),
+          godClassMembers: thresholds.godClassMembers,
+          godClassCoupling: thresholds.godClassCoupling,
+        },
+        message: `${cls.name} owns ${members.size} members and is coupled to ${coupling} entities (${fanIn.size} in, ${fanOut.size} out)`,
+      },
+    });
+  }
+  return smells;
+}
+
+/**
+ * Methods using more members of another class than of their own
+ */
+function detectFeatureEnvy(graph: SmellGraph, thresholds: CodeSmellThresholds): ScoredSmell[] {
+  const smells: ScoredSmell[] = [];
+  for (const [methodId, ownClassId] of graph.ownerOf) {
+    const method = graph.entities.get(methodId)!;
+    if (!isFunctionLike(method)) continue;
+
+    const own = new Set<string>();
+    const foreign = new Map<string, Set<string>>();
+    for (const rel of graph.outgoing.get(methodId) ?? []) {
+      if (!USAGE_TYPES.has(rel.type)) continue;
+      const target = graph.entities.get(rel.toId)!;
+      const targetClass = CLASS_ENTITY_TYPES.has(target.type) ? target.id : graph.ownerOf.get(target.id);
+      if (!targetClass) continue;
+      if (targetClass === ownClassId) {
+        own.add(target.id);
+      } else {
+        const used = foreign.get(targetClass) ?? new Set<string>();
+        used.add(target.id);
+        foreign.set(targetClass, used);
+      }
+    }
+
+    const [enviedId, used] = Array.from(foreign).sort((a, b) => b[1].size - a[1].size)[0] ?? [];
+    if (!enviedId || !used || used.size < thresholds.featureEnvyCalls || used.size <= own.size) continue;
+
+    const envied = graph.entities.get(enviedId)!;
+    const ownClass = graph.entities.get(ownClassId)!;
+    const excess = used.size - own.size;
+    smells.push({
+      score: excess / thresholds.featureEnvyCalls,
+      smell: {
+        kind: "feature_envy",
+        severity: severityFor(excess, thresholds.featureEnvyCalls),
+        name: method.name,
+        filePath: method.filePath,
+        line: lineOf(method),
+        entityIds: [methodId, enviedId, ...Array.from(used).slice(0, MAX_EVIDENCE_IDS)],
+        evidence: {
+          enviedClass: envied.name,
+          foreignMembersUsed: used.size,
+          ownMembersUsed: own.size,
+          ownClass: ownClass.name,
+          featureEnvyCalls: thresholds.featureEnvyCalls,
+        },
+        message: `${method.name} uses ${used.size} members of ${envied.name} but ${own.size} of its own class ${ownClass.name}`,
+      },
+    });
+  }
+  return smells;
+}
+
+/**
+ * Entities with so many dependents across files that changing them means editing many places
+ */
+function detectShotgunSurgery(graph: SmellGraph, thresholds: CodeSmellThresholds): ScoredSmell[] {
+  const smells: ScoredSmell[] = [];
+  for (const entity of graph.entities.values()) {
+    if (FILE_TYPES.has(entity.type)) continue;
+    const unit = new Set([entity.id, ...(graph.membersOf.get(entity.id) ?? [])]);
+    const dependents = new Set<string>();
+    for (const rel of graph.incoming.get(entity.id) ?? []) {
+      if (rel.type === "imports" || unit.has(rel.fromId)) continue;
+      dependents.add(rel.fromId);
+    }
+    if (dependents.size < thresholds.shotgunSurgeryDependents) continue;
+
+    const files = new Set<string>();
+    for (const id of dependents) {
+      const filePath = graph.entities.get(id)!.filePath;
+      if (filePath !== entity.filePath) files.add(filePath);
+    }
+    if (files.size < thresholds.shotgunSurgeryFiles) continue;
+
+    smells.push({
+      score: files.size / thresholds.shotgunSurgeryFiles,
+      smell: {
+        kind: "shotgun_surgery",
+        severity: severityFor(files.size, thresholds.shotgunSurgeryFiles),
+        name: entity.name,
+        filePath: entity.filePath,
+        line: lineOf(entity),
+        entityIds: [entity.id, ...Array.from(dependents).slice(0, MAX_EVIDENCE_IDS)],
+        evidence: {
+          dependents: dependents.size,
+          dependentFiles: files.size,
+          shotgunSurgeryDependents: thresholds.shotgunSurgeryDependents,
+          shotgunSurgeryFiles: thresholds.shotgunSurgeryFiles,
+        },
+        message: `Changing ${entity.name} affects ${dependents.size} dependents across ${files.size} other files`,
+      },
+    });
+  }
+  return smells;
+}
+
+function detectLongParameterLists(graph: SmellGraph, thresholds: CodeSmellThresholds): ScoredSmell[] {
+  const smells: ScoredSmell[] = [];
+  for (const entity of graph.entities.values()) {
+    if (!isFunctionLike(entity)) continue;
+    const parameters = entity.metadata.metrics?.parameters ?? entity.metadata.parameters?.length ?? 0;
+    if (parameters <= thresholds.maxParameters) continue;
+
+    smells.push({
+      score: parameters / thresholds.maxParameters,
+      smell: {
+        kind: "long_parameter_list",
+        severity: severityFor(parameters, thresholds.maxParameters),
+        name: entity.name,
+        filePath: entity.filePath,
+        line: lineOf(entity),
+        entityIds: [entity.id],
+        evidence: {
+          parameters,
+          maxParameters: thresholds.maxParameters,
+          ...(entity.metadata.parameters?.length
+            ? { parameterNames: entity.metadata.parameters.map((parameter) => parameter.name) }
+            : {}),
+        },
+        message: `${entity.name} takes ${parameters} parameters (limit ${thresholds.maxParameters})`,
+      },
+    });
+  }
+  return smells;
+}
+
+/**
+ * Classes whose longest chain of indexed ancestors exceeds the depth limit
+ */
+function detectDeepInheritance(graph: SmellGraph, thresholds: CodeSmellThresholds): ScoredSmell[] {
+  const parents = new Map<string, string[]>();
+  for (const [id, rels] of graph.outgoing) {
+    for (const rel of rels) {
+      if (INHERITANCE_TYPES.has(rel.type) && CLASS_ENTITY_TYPES.has(graph.entities.get(rel.toId)!.type)) {
+        push(parents, id, rel.toId);
+      }
+    }
+  }
+
+  // Longest ancestor chain per class, excluding the class itself; inheritance cycles stop the walk
+  const chains = new Map<string, string[]>();
+  const visiting = new Set<string>();
+  const chainOf = (id: string): string[] => {
+    const known = chains.get(id);
+    if (known) return known;
+    if (visiting.has(id)) return [];
+    visiting.add(id);
+    let longest: string[] = [];
+    for (const parent of parents.get(id) ?? []) {
+      const candidate = [parent, ...chainOf(parent)];
+      if (candidate.length > longest.length) longest = candidate;
+    }
+    visiting.delete(id);
+    chains.set(id, longest);
+    return longest;
+  };
+
+  const smells: ScoredSmell[] = [];
+  for (const id of parents.keys()) {
+    const chain = chainOf(id);
+    if (chain.length <= thresholds.maxInheritanceDepth) continue;
+    const cls = graph.entities.get(id)!;
+    const names = [cls.name, ...chain.map((ancestor) => graph.entities.get(ancestor)!.name)];
+
+    smells.push({
+      score: chain.length / thresholds.maxInheritanceDepth,
+      smell: {
+        kind: "deep_inheritance",
+        severity: severityFor(chain.length, thresholds.maxInheritanceDepth),
+        name: cls.name,
+        filePath: cls.filePath,
+        line: lineOf(cls),
+        entityIds: [id, ...chain],
+        evidence: { depth: chain.length, maxInheritanceDepth: thresholds.maxInheritanceDepth, chain: names },
+        message: `${cls.name} is ${chain.length} levels deep: ${names.join(" -> ")}`,
+      },
+    });
+  }
+  return smells;
+}
+
+/**
+ * Files depending on files more unstable than themselves (Stable Dependencies Principle), where
+ * instability is efferent / (afferent + efferent) file coupling
+ */
+function detectUnstableDependencies(
+  graph: SmellGraph,
+  thresholds: CodeSmellThresholds,
+  displayPath: (filePath: string) => string,
+): ScoredSmell[] {
+  const edges = new Map<string, Map<string, Relationship[]>>();
+  const afferent = new Map<string, Set<string>>();
+  for (const rels of graph.outgoing.values()) {
+    for (const rel of rels) {
+      const from = graph.entities.get(rel.fromId)!.filePath;
+      const to = graph.entities.get(rel.toId)!.filePath;
+      if (from === to) continue;
+      const targets = edges.get(from) ?? new Map<string, Relationship[]>();
+      push(targets, to, rel);
+      edges.set(from, targets);
+      const sources = afferent.get(to) ?? new Set<string>();
+      sources.add(from);
+      afferent.set(to, sources);
+    }
+  }
+
+  const instability = (filePath: string) => {
+    const ca = afferent.get(filePath)?.size ?? 0;
+    const ce = edges.get(filePath)?.size ?? 0;
+    return ca + ce === 0 ? 0 : ce / (ca + ce);
+  };
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const smells: ScoredSmell[] = [];
+  for (const [from, targets] of edges) {
+    const fromInstability = instability(from);
+    for (const [to, rels] of targets) {
+      const toInstability = instability(to);
+      const gap = toInstability - fromInstability;
+      if (gap < thresholds.instabilityGap) continue;
+
+      const entityIds = Array.from(new Set(rels.flatMap((rel) => [rel.fromId, rel.toId])));
+      smells.push({
+        score: gap / thresholds.instabilityGap,
+        smell: {
+          kind: "unstable_dependency",
+          severity: severityFor(gap, thresholds.instabilityGap),
+          name: displayPath(from),
+          filePath: from,
+          line: rels[0]!.metadata?.line ?? lineOf(graph.entities.get(rels[0]!.fromId)!),
+          entityIds: entityIds.slice(0, MAX_EVIDENCE_IDS),
+          evidence: {
+            dependency: displayPath(to),
+            instability: round(fromInstability),
+            dependencyInstability: round(toInstability),
+            afferent: afferent.get(from)?.size ?? 0,
+            efferent: targets.size,
+            relationships: rels.length,
+            instabilityGap: thresholds.instabilityGap,
+          },
+          message: `${displayPath(from)} (instability ${round(fromInstability)}) depends on the less stable ${displayPath(to)} (instability ${round(toInstability)})`,
+        },
+      });
+    }
+  }
+  return smells;
+}
+
+/**
+ * Detect design smells over the code graph, ranked by severity and by how far they exceed their thresholds
+ */
+export async function detectCodeSmells(
+  storage: GraphStorageImpl,
+  options: CodeSmellOptions = {},
+): Promise<CodeSmellReport> {
+  const start = Date.now();
+  const thresholds = { ...DEFAULT_SMELL_THRESHOLDS, ...options.thresholds };
+  const kinds = new Set<CodeSmellKind>(options.kinds?.length ? options.kinds : CODE_SMELL_KINDS);
+  const minSeverity = SMELL_SEVERITIES.indexOf(options.minSeverity ?? "low");
+  const limit = Math.max(options.limit ?? DEFAULT_SMELL_LIMIT, 1);
+  const rootDir = options.rootDir ?? options.directory;
+  const displayPath = (filePath: string) =>
+    rootDir ? relative(rootDir, filePath).split(sep).join("/") || filePath : filePath;
+
+  const graph = await buildSmellGraph(storage, options);
+  const detectors: Record<CodeSmellKind, () => ScoredSmell[]> = {
+    god_class: () => detectGodClasses(graph, thresholds),
+    feature_envy: () => detectFeatureEnvy(graph, thresholds),
+    shotgun_surgery: () => detectShotgunSurgery(graph, thresholds),
+    long_parameter_list: () => detectLongParameterLists(graph, thresholds),
+    deep_inheritance: () => detectDeepInheritance(graph, thresholds),
+    unstable_dependency: () => detectUnstableDependencies(graph, thresholds, displayPath),
+  };
+
+  const found = CODE_SMELL_KINDS.filter((kind) => kinds.has(kind))
+    .flatMap((kind) => detectors[kind]())
+    .filter(({ smell }) => SMELL_SEVERITIES.indexOf(smell.severity) >= minSeverity)
+    .sort(
+      (a, b) =>
+        SMELL_SEVERITIES.indexOf(b.smell.severity) - SMELL_SEVERITIES.indexOf(a.smell.severity) ||
+        b.score - a.score ||
+        a.smell.name.localeCompare(b.smell.name),
+    );
+
+  const bySeverity = Object.fromEntries(SMELL_SEVERITIES.map((severity) => [severity, 0])) as Record<
+    SmellSeverity,
+    number
+  >;
+  const byKind = Object.fromEntries(CODE_SMELL_KINDS.map((kind) => [kind, 0])) as Record<CodeSmellKind, number>;
+  for (const { smell } of found) {
+    bySeverity[smell.severity]++;
+    byKind[smell.kind]++;
+  }
+
+  return {
+    scope: { directory: options.directory, product_id: options.product_id },
+    thresholds,
+    entitiesAnalyzed: graph.entities.size,
+    relationshipsAnalyzed: graph.relationshipCount,
+    smellCount: found.length,
+    bySeverity,
+    byKind,
+    smells: found.slice(0, limit).map(({ smell }) => smell),
+    timeMs: Date.now() - start,
+  };
+}
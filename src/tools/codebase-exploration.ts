@@ -0,0 +1,567 @@
+/**
+ * Codebase exploration.
+ * Backs the Dora agent and the `explore_codebase` tool: a topic or entity is turned into seed
+ * entities (semantic search first, name matching as fallback), the graph around every seed is
+ * walked with `getSubgraph`, and the explored area is summarised as entry points, directory-level
+ * module boundaries and the most connected entities. Every statement in the report cites the
+ * entity IDs and file locations it was derived from.
+ */
+
+import { basename, dirname, extname, relative, sep } from "node:path";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type {
+  CitedEntity,
+  DiscoveredPattern,
+  EntryPoint,
+  EntryPointReason,
+  ExplorationFinding,
+  ExplorationOptions,
+  ExplorationReport,
+  ExplorationSeed,
+  ModuleBoundary,
+  PatternReport,
+  SemanticSearchFn,
+} from "../types/exploration.js";
+import type { Entity, Relationship, RelationType } from "../types/storage.js";
+
+export const DEFAULT_EXPLORATION_DEPTH = 2;
+export const MAX_EXPLORATION_DEPTH = 5;
+export const DEFAULT_MAX_SEEDS = 5;
+export const DEFAULT_SECTION_LIMIT = 15;
+
+/** Entity kinds that only mirror declarations made elsewhere */
+export const MIRROR_TYPES = new Set(["import", "export"]);
+
+const MAX_PUBLIC_SURFACE = 5;
+const MAX_FINDING_CITATIONS = 5;
+
+// Relationship types that mean "something uses this entity"
+const USAGE_TYPES = new Set(["calls", "references", "imports", "inherits", "extends", "implements", "decorates"]);
+// Relationship types describing structure rather than dependencies
+const STRUCTURAL_TYPES = new Set(["member_of", "contains"]);
+const ENTRY_POINT_TYPES = new Set(["function", "class"]);
+const ENTRY_FILE_NAMES = new Set(["index", "main", "app", "server", "cli", "__main__", "program"]);
+const MAIN_FUNCTION_NAMES = new Set(["main", "__main__"]);
+
+const STOP_WORDS = new Set("the and for with how what where does code from into that this are all".split(" "));
+
+function isPlaceholder(entity: Entity): boolean {
+  return entity.filePath.startsWith("external://");
+}
+
+/**
+ * Entity reference with the location an agent can cite
+ */
+export function citeEntity(entity: Entity): CitedEntity {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    filePath: entity.filePath,
+    line: entity.location?.start?.line ?? 0,
+    endLine: entity.location?.end?.line ?? 0,
+  };
+}
+
+function commonDirectory(paths: string[]): string {
+  if (paths.length === 0) return "";
+  let common = dirname(paths[0]!).split(sep);
+  for (const path of paths.slice(1)) {
+    const parts = dirname(path).split(sep);
+    let i = 0;
+    while (i < common.length && i < parts.length && common[i] === parts[i]) i++;
+    common = common.slice(0, i);
+  }
+  return common.join(sep) || sep;
+}
+
+/**
+ * Split a topic into lowercase search terms, breaking camelCase and snake_case identifiers
+ */
+function topicTerms(topic: string): string[] {
+  const terms = topic
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length >= 3 && !STOP_WORDS.has(term));
+  return Array.from(new Set(terms));
+}
+
+function isExported(entity: Entity): boolean {
+  const modifiers = entity.metadata?.modifiers ?? [];
+  return modifiers.includes("export") || (entity.metadata as Record<string, unknown>)?.isPublic === true;
+}
+
+/**
+ * Entities and relationships reached from the seeds, with per-entity adjacency
+ */
+class ExploredArea {
+  readonly entities = new Map<string, Entity>();
+  readonly relationships = new Map<string, Relationship>();
+  private readonly inbound = new Map<string, Relationship[]>();
+  private readonly outbound = new Map<string, Relationship[]>();
+
+  add(entities: Entity[], relationships: Relationship[]): void {
+    for (const entity of entities) {
+      if (!isPlaceholder(entity)) this.entities.set(entity.id, entity);
+    }
+    for (const relationship of relationships) {
+      if (this.relationships.has(relationship.id)) continue;
+      this.relationships.set(relationship.id, relationship);
+      this.inbound.set(relationship.toId, [...(this.inbound.get(relationship.toId) ?? []), relationship]);
+      this.outbound.set(relationship.fromId, [...(this.outbound.get(relationship.fromId) ?? []), relationship]);
+    }
+  }
+
+  inboundOf(id: string): Relationship[] {
+    return this.inbound.get(id) ?? [];
+  }
+
+  outboundOf(id: string): Relationship[] {
+    return this.outbound.get(id) ?? [];
+  }
+
+  degree(id: string): number {
+    const count = (rels: Relationship[]) => rels.filter((rel) => !STRUCTURAL_TYPES.has(rel.type)).length;
+    return count(this.inboundOf(id)) + count(this.outboundOf(id));
+  }
+}
+
+async function findSeeds(
+  storage: GraphStorageImpl,
+  options: ExplorationOptions,
+  maxSeeds: number,
+  semanticSearch?: SemanticSearchFn,
+): Promise<{ seeds: ExplorationSeed[]; semanticSearch: ExplorationReport["stats"]["semanticSearch"] }> {
+  const seeds = new Map<string, ExplorationSeed>();
+  const accept = (entity: Entity | null, source: ExplorationSeed["source"], score: number) => {
+    if (!entity || seeds.has(entity.id) || isPlaceholder(entity)) return;
+    if (options.product_id && entity.project_id !== options.product_id) return;
+    seeds.set(entity.id, { ...citeEntity(entity), source, score });
+  };
+
+  if (options.entityIds?.length) {
+    for (const id of options.entityIds) {
+      accept(await storage.getEntity(id), "entity", 1);
+    }
+    return { seeds: Array.from(seeds.values()), semanticSearch: "skipped" };
+  }
+
+  const topic = options.topic?.trim();
+  if (!topic) return { seeds: [], semanticSearch: "skipped" };
+
+  let semanticStatus: ExplorationReport["stats"]["semanticSearch"] = "unavailable";
+  if (semanticSearch) {
+    try {
+      const result = await semanticSearch(topic, maxSeeds * 3);
+      for (const hit of result.results ?? []) {
+        if (seeds.size >= maxSeeds) break;
+        const entityId = hit.metadata?.entityId;
+        if (typeof entityId !== "string") continue;
+        const entity = await storage.getEntity(entityId);
+        if (entity && MIRROR_TYPES.has(entity.type)) continue;
+        accept(entity, "semantic", Number(hit.similarity.toFixed(4)));
+      }
+      semanticStatus = seeds.size > 0 ? "used" : "empty";
+    } catch {
+      semanticStatus = "unavailable";
+    }
+  }
+
+  if (seeds.size < maxSeeds) {
+    const terms = topicTerms(topic);
+    if (terms.length > 0) {
+      const scored: Array<{ entity: Entity; score: number }> = [];
+      for (const entity of await storage.getIndexedEntities(options.product_id)) {
+        if (MIRROR_TYPES.has(entity.type) || seeds.has(entity.id)) continue;
+        const name = entity.name.toLowerCase();
+        const path = entity.filePath.toLowerCase();
+        let score = 0;
+        for (const term of terms) {
+          if (name === term) score += 3;
+          else if (name.includes(term)) score += 2;
+          else if (path.includes(term)) score += 1;
+        }
+        if (score > 0) scored.push({ entity, score });
+      }
+      scored.sort((a, b) => b.score - a.score || a.entity.name.length - b.entity.name.length);
+      const maxScore = terms.length * 3;
+      for (const { entity, score } of scored.slice(0, maxSeeds - seeds.size)) {
+        accept(entity, "keyword", Number((score / maxScore).toFixed(4)));
+      }
+    }
+  }
+
+  return { seeds: Array.from(seeds.values()), semanticSearch: semanticStatus };
+}
+
+function detectEntryPoints(area: ExploredArea, limit: number): EntryPoint[] {
+  const entryPoints: EntryPoint[] = [];
+
+  for (const entity of area.entities.values()) {
+    const isMain = MAIN_FUNCTION_NAMES.has(entity.name);
+    if (!isMain && !ENTRY_POINT_TYPES.has(entity.type)) continue;
+
+    const reasons: EntryPointReason[] = [];
+    if (isMain) reasons.push("main-function");
+    if (ENTRY_FILE_NAMES.has(basename(entity.filePath, extname(entity.filePath)).toLowerCase())) {
+      reasons.push("entry-file");
+    }
+    if (isExported(entity)) reasons.push("exported");
+    const used = area.inboundOf(entity.id).some((rel) => USAGE_TYPES.has(rel.type) && rel.fromId !== entity.id);
+    if (!used) reasons.push("no-internal-callers");
+
+    const qualifies = isMain || (!used && (reasons.includes("exported") || reasons.includes("entry-file")));
+    if (!qualifies) continue;
+
+    const fanOut = area.outboundOf(entity.id).filter((rel) => rel.type === "calls" || rel.type === "references").length;
+    entryPoints.push({ ...citeEntity(entity), reasons, fanOut });
+  }
+
+  entryPoints.sort(
+    (a, b) =>
+      Number(b.reasons.includes("main-function")) - Number(a.reasons.includes("main-function")) ||
+      b.reasons.length - a.reasons.length ||
+      b.fanOut - a.fanOut ||
+      a.name.localeCompare(b.name),
+  );
+  return entryPoints.slice(0, limit);
+}
+
+function summarizeModules(area: ExploredArea, rootDir: string, limit: number): ModuleBoundary[] {
+  const moduleOf = (entity: Entity) => relative(rootDir, dirname(entity.filePath)).split(sep).join("/") || ".";
+
+  const modules = new Map<
+    string,
+    {
+      files: Set<string>;
+      entities: number;
+      surface: Map<string, { entity: Entity; uses: number }>;
+      dependsOn: Map<string, number>;
+      dependedOnBy: Map<string, number>;
+    }
+  >();
+  const moduleEntry = (name: string) => {
+    let entry = modules.get(name);
+    if (!entry) {
+      entry = { files: new Set(), entities: 0, surface: new Map(), dependsOn: new Map(), dependedOnBy: new Map() };
+      modules.set(name, entry);
+    }
+    return entry;
+  };
+
+  for (const entity of area.entities.values()) {
+    const entry = moduleEntry(moduleOf(entity));
+    entry.files.add(entity.filePath);
+    entry.entities++;
+  }
+
+  for (const rel of area.relationships.values()) {
+    if (STRUCTURAL_TYPES.has(rel.type)) continue;
+    const from = area.entities.get(rel.fromId);
+    const to = area.entities.get(rel.toId);
+    if (!from || !to) continue;
+    const fromModule = moduleOf(from);
+    const toModule = moduleOf(to);
+    if (fromModule === toModule) continue;
+
+    const source = moduleEntry(fromModule);
+    const target = moduleEntry(toModule);
+    source.dependsOn.set(toModule, (source.dependsOn.get(toModule) ?? 0) + 1);
+    target.dependedOnBy.set(fromModule, (target.dependedOnBy.get(fromModule) ?? 0) + 1);
+    if (!MIRROR_TYPES.has(to.type)) {
+      const used = target.surface.get(to.id);
+      target.surface.set(to.id, { entity: to, uses: (used?.uses ?? 0) + 1 });
+    }
+  }
+
+  const ranked = (counts: Map<string, number>) =>
+    Array.from(counts.entries())
+      .map(([module, relationships]) => ({ module, relationships }))
+      .sort((a, b) => b.relationships - a.relationships || a.module.localeCompare(b.module));
+
+  return Array.from(modules.entries())
+    .map(([module, entry]) => ({
+      module,
+      files: entry.files.size,
+      entities: entry.entities,
+      publicSurface: Array.from(entry.surface.values())
+        .sort((a, b) => b.uses - a.uses || a.entity.name.localeCompare(b.entity.name))
+        .slice(0, MAX_PUBLIC_SURFACE)
+        .map(({ entity }) => citeEntity(entity)),
+      dependsOn: ranked(entry.dependsOn),
+      dependedOnBy: ranked(entry.dependedOnBy),
+    }))
+    .sort((a, b) => b.entities - a.entities || a.module.localeCompare(b.module))
+    .slice(0, limit);
+}
+
+function location(entity: CitedEntity, rootDir: string): string {
+  return `${relative(rootDir, entity.filePath).split(sep).join("/")}:${entity.line}`;
+}
+
+function buildFindings(
+  report: Omit<ExplorationReport, "findings" | "stats">,
+  area: ExploredArea,
+  rootDir: string,
+): ExplorationFinding[] {
+  const findings: ExplorationFinding[] = [];
+  const names = (entities: CitedEntity[]) =>
+    entities
+      .slice(0, MAX_FINDING_CITATIONS)
+      .map((entity) => `${entity.name} (${location(entity, rootDir)})`)
+      .join(", ");
+
+  if (report.seeds.length === 0) {
+    findings.push({
+      summary: report.topic
+        ? `No indexed entities matched "${report.topic}"`
+        : "No starting entities were found in the graph",
+      citations: [],
+    });
+    return findings;
+  }
+
+  findings.push({
+    summary: `${report.topic ? `"${report.topic}"` : "The exploration"} starts from ${names(report.seeds)}`,
+    citations: report.seeds.map((seed) => seed.id),
+  });
+
+  if (report.entryPoints.length > 0) {
+    findings.push({
+      summary: `${report.entryPoints.length} likely entry point(s): ${names(report.entryPoints)}`,
+      citations: report.entryPoints.slice(0, MAX_FINDING_CITATIONS).map((entry) => entry.id),
+    });
+  }
+
+  const [central] = report.keyEntities;
+  if (central && central.degree > 0) {
+    findings.push({
+      summary: `${central.name} (${location(central, rootDir)}) is the most connected entity with ${central.degree} relationships`,
+      citations: [central.id],
+    });
+  }
+
+  const reported = new Set<string>();
+  for (const module of report.modules) {
+    for (const dependency of module.dependsOn) {
+      const key = [module.module, dependency.module].sort().join("\u0000");
+      if (reported.has(key)) continue;
+      reported.add(key);
+
+      const target = report.modules.find((candidate) => candidate.module === dependency.module);
+      const mutual = target?.dependsOn.some((back) => back.module === module.module) ?? false;
+      const surface = target?.publicSurface ?? [];
+      findings.push({
+        summary: mutual
+          ? `Modules ${module.module} and ${dependency.module} depend on each other`
+          : `Module ${module.module} depends on ${dependency.module} through ${dependency.relationships} relationship(s)${
+              surface.length > 0 ? ` via ${surface.map((entity) => entity.name).join(", ")}` : ""
+            }`,
+        citations: surface.slice(0, MAX_FINDING_CITATIONS).map((entity) => entity.id),
+      });
+    }
+  }
+
+  const hierarchy = Array.from(area.relationships.values()).filter((rel) =>
+    ["inherits", "extends", "implements"].includes(rel.type),
+  );
+  if (hierarchy.length > 0) {
+    const examples = hierarchy
+      .map((rel) => ({ from: area.entities.get(rel.fromId), to: area.entities.get(rel.toId), type: rel.type }))
+      .filter((edge) => edge.from && edge.to)
+      .slice(0, MAX_FINDING_CITATIONS);
+    findings.push({
+      summary: `${hierarchy.length} inheritance/implementation relationship(s)${
+        examples.length > 0
+          ? `, e.g. ${examples.map((edge) => `${edge.from!.name} ${edge.type} ${edge.to!.name}`).join(", ")}`
+          : ""
+      }`,
+      citations: Array.from(new Set(examples.flatMap((edge) => [edge.from!.id, edge.to!.id]))),
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Explore the graph around a topic or a set of entities and produce a cited research report
+ */
+export async function exploreCodebase(
+  storage: GraphStorageImpl,
+  options: ExplorationOptions,
+  semanticSearch?: SemanticSearchFn,
+): Promise<ExplorationReport> {
+  const start = Date.now();
+  const depth = Math.min(Math.max(options.depth ?? DEFAULT_EXPLORATION_DEPTH, 1), MAX_EXPLORATION_DEPTH);
+  const maxSeeds = Math.max(options.maxSeeds ?? DEFAULT_MAX_SEEDS, 1);
+  const limit = Math.max(options.limit ?? DEFAULT_SECTION_LIMIT, 1);
+
+  const { seeds, semanticSearch: semanticStatus } = await findSeeds(storage, options, maxSeeds, semanticSearch);
+
+  const area = new ExploredArea();
+  for (const seed of seeds) {
+    const subgraph = await storage.getSubgraph(seed.id, depth, options.product_id);
+    area.add(subgraph.entities, subgraph.relationships);
+  }
+
+  const rootDir = options.rootDir ?? commonDirectory(Array.from(area.entities.values(), (entity) => entity.filePath));
+
+  const relationshipCounts: Record<string, number> = {};
+  for (const rel of area.relationships.values()) {
+    relationshipCounts[rel.type] = (relationshipCounts[rel.type] ?? 0) + 1;
+  }
+
+  const keyEntities = Array.from(area.entities.values())
+    .filter((entity) => !MIRROR_TYPES.has(entity.type))
+    .map((entity) => ({ ...citeEntity(entity), degree: area.degree(entity.id) }))
+    .sort((a, b) => b.degree - a.degree || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+  const partial = {
+    topic: options.topic,
+    seeds,
+    entryPoints: detectEntryPoints(area, limit),
+    modules: summarizeModules(area, rootDir, limit),
+    keyEntities,
+    relationshipCounts,
+  };
+
+  return {
+    ...partial,
+    findings: buildFindings(partial, area, rootDir),
+    stats: {
+      entitiesExplored: area.entities.size,
+      relationshipsExplored: area.relationships.size,
+      depth,
+      semanticSearch: semanticStatus,
+      timeMs: Date.now() - start,
+    },
+  };
+}
+
+/**
+ * Find recurring structural patterns (hierarchies, decorators, factories, components, barrels)
+ */
+export async function discoverPatterns(
+  storage: GraphStorageImpl,
+  options: { scope?: string; product_id?: string; limit?: number } = {},
+): Promise<PatternReport> {
+  const start = Date.now();
+  const limit = Math.max(options.limit ?? MAX_FINDING_CITATIONS, 1);
+  const scope = options.scope && options.scope !== "global" ? options.scope : undefined;
+
+  const entities = (await storage.getIndexedEntities(options.product_id)).filter(
+    (entity) => !scope || entity.filePath.includes(scope),
+  );
+  const byId = new Map(entities.map((entity) => [entity.id, entity]));
+  const relationships = (
+    await storage.getRelationshipsByType(
+      ["inherits", "extends", "implements", "decorates", "references"] as RelationType[],
+      options.product_id,
+    )
+  ).filter((rel) => byId.has(rel.fromId));
+
+  const patterns: DiscoveredPattern[] = [];
+  const add = (
+    pattern: Omit<DiscoveredPattern, "occurrences" | "examples">,
+    matches: Entity[],
+    occurrences?: number,
+  ) => {
+    if (matches.length === 0) return;
+    patterns.push({
+      ...pattern,
+      occurrences: occurrences ?? matches.length,
+      examples: matches.slice(0, limit).map(citeEntity),
+    });
+  };
+  const targetsOf = (types: string[], predicate: (rel: Relationship) => boolean = () => true) => {
+    const rels = relationships.filter((rel) => types.includes(rel.type) && predicate(rel));
+    const counts = new Map<string, number>();
+    for (const rel of rels) counts.set(rel.toId, (counts.get(rel.toId) ?? 0) + 1);
+    const targets = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => byId.get(id))
+      .filter((entity): entity is Entity => Boolean(entity));
+    return { count: rels.length, targets };
+  };
+
+  const hierarchy = targetsOf(["inherits", "extends"]);
+  add(
+    {
+      type: "design",
+      name: "Class Hierarchy",
+      description: "Classes extending shared base classes; examples are the most extended bases",
+    },
+    hierarchy.targets,
+    hierarchy.count,
+  );
+
+  const implementations = targetsOf(["implements"]);
+  add(
+    {
+      type: "design",
+      name: "Interface Implementation",
+      description: "Classes implementing declared interfaces; examples are the most implemented interfaces",
+    },
+    implementations.targets,
+    implementations.count,
+  );
+
+  const decorators = targetsOf(
+    ["decorates", "references"],
+    (rel) => (rel.type as string) === "decorates" || rel.metadata?.referenceKind === "decorator",
+  );
+  add(
+    { type: "coding", name: "Decorators", description: "Declarations annotated with decorators" },
+    decorators.targets,
+    decorators.count,
+  );
+
+  add(
+    {
+      type: "design",
+      name: "Factory Functions",
+      description: "Functions named create*/make*/build* that construct objects",
+    },
+    entities.filter(
+      (entity) =>
+        (entity.type === "function" || entity.type === "method") && /^(create|make|build)[A-Z_]/.test(entity.name),
+    ),
+  );
+
+  add(
+    {
+      type: "coding",
+      name: "Custom Error Types",
+      description: "Classes named *Error/*Exception used for domain-specific failures",
+    },
+    entities.filter((entity) => entity.type === "class" && /(Error|Exception)$/.test(entity.name)),
+  );
+
+  add(
+    { type: "architectural", name: "UI Components", description: "React components rendering JSX" },
+    entities.filter((entity) => (entity.metadata as Record<string, unknown>)?.isReactComponent === true),
+  );
+
+  const byFile = new Map<string, Entity[]>();
+  for (const entity of entities) byFile.set(entity.filePath, [...(byFile.get(entity.filePath) ?? []), entity]);
+  const barrels = Array.from(byFile.values())
+    .filter(
+      (fileEntities) =>
+        fileEntities.some((entity) => entity.type === "export") &&
+        !fileEntities.some((entity) => ["function", "class", "method"].includes(entity.type)),
+    )
+    .map((fileEntities) => fileEntities.find((entity) => entity.type === "export")!);
+  add(
+    {
+      type: "architectural",
+      name: "Barrel Modules",
+      description: "Files that only re-export declarations from other modules",
+    },
+    barrels,
+  );
+
+  patterns.sort((a, b) => b.occurrences - a.occurrences);
+  return { scope: scope ?? "global", patterns, entitiesScanned: entities.length, timeMs: Date.now() - start };
+}
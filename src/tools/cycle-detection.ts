@@ -0,0 +1,370 @@
+/**
+ * Cycle detection.
+ * Builds a dependency graph from the chosen relationship types (collapsed to files for import
+ * cycles, or kept per entity), finds its strongly connected components with Tarjan's algorithm and
+ * ranks every component with more than one node as a cycle. For each cycle a small set of edges
+ * to cut is suggested using the Eades-Lin-Smyth feedback arc set heuristic, weighted so that edges
+ * backed by fewer relationships are preferred.
+ */
+
+import { relative, sep } from "node:path";
+import { detectLanguageFromPath } from "../parsers/language-configs.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type {
+  CycleDetectionOptions,
+  CycleEdge,
+  CycleGranularity,
+  CycleNode,
+  CycleReport,
+  DetectedCycle,
+} from "../types/cycles.js";
+import type { Entity, Relationship, RelationType } from "../types/storage.js";
+
+export const DEFAULT_CYCLE_RELATIONSHIP_TYPES = ["imports", "calls", "depends_on"];
+export const DEFAULT_CYCLE_LIMIT = 20;
+
+const MAX_EDGE_EXAMPLES = 3;
+
+/**
+ * Append a value to the list kept under a key, creating the list on first use
+ */
+export function push<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const existing = map.get(key);
+  if (existing) existing.push(value);
+  else map.set(key, [value]);
+}
+
+/**
+ * Whether a file lies under a directory, both absolute
+ */
+export function isInDirectory(filePath: string, directory: string): boolean {
+  const dir = directory.endsWith(sep) ? directory : `${directory}${sep}`;
+  return filePath.startsWith(dir);
+}
+
+/**
+ * Dependency graph between cycle nodes, each edge keeping the relationships it was built from
+ */
+class DependencyGraph {
+  readonly nodes = new Map<string, CycleNode>();
+  private readonly edges = new Map<string, Map<string, Relationship[]>>();
+  edgeCount = 0;
+
+  addNode(node: CycleNode): void {
+    if (!this.nodes.has(node.id)) this.nodes.set(node.id, node);
+  }
+
+  addEdge(from: string, to: string, relationship: Relationship): void {
+    let targets = this.edges.get(from);
+    if (!targets) {
+      targets = new Map();
+      this.edges.set(from, targets);
+    }
+    const existing = targets.get(to);
+    if (existing) {
+      existing.push(relationship);
+    } else {
+      targets.set(to, [relationship]);
+      this.edgeCount++;
+    }
+  }
+
+  successors(id: string): string[] {
+    return Array.from(this.edges.get(id)?.keys() ?? []);
+  }
+
+  relationships(from: string, to: string): Relationship[] {
+    return this.edges.get(from)?.get(to) ?? [];
+  }
+}
+
+/**
+ * Tarjan's strongly connected components, iterative so deep dependency chains cannot overflow the stack
+ */
+function stronglyConnectedComponents(graph: DependencyGraph): string[][] {
+  let counter = 0;
+  const indices = new Map<string, number>();
+  const lowlinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  for (const root of graph.nodes.keys()) {
+    if (indices.has(root)) continue;
+
+    const work: Array<{ id: string; next: number; successors: string[] }> = [];
+    const visit = (id: string) => {
+      indices.set(id, counter);
+      lowlinks.set(id, counter);
+      counter++;
+      stack.push(id);
+      onStack.add(id);
+      work.push({ id, next: 0, successors: graph.successors(id) });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]!;
+      if (frame.next < frame.successors.length) {
+        const successor = frame.successors[frame.next++]!;
+        if (!indices.has(successor)) {
+          visit(successor);
+        } else if (onStack.has(successor)) {
+          lowlinks.set(frame.id, Math.min(lowlinks.get(frame.id)!, indices.get(successor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) lowlinks.set(parent.id, Math.min(lowlinks.get(parent.id)!, lowlinks.get(frame.id)!));
+
+      if (lowlinks.get(frame.id) === indices.get(frame.id)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Eades-Lin-Smyth ordering of a component; edges pointing backwards in the order form the cut set
+ */
+function feedbackArcSet(graph: DependencyGraph, members: string[]): Array<[string, string]> {
+  const memberSet = new Set(members);
+  const outgoing = new Map<string, Set<string>>();
+  const incoming = new Map<string, Set<string>>();
+  const outWeight = new Map<string, number>();
+  const inWeight = new Map<string, number>();
+  for (const id of members) {
+    outgoing.set(id, new Set());
+    incoming.set(id, new Set());
+    outWeight.set(id, 0);
+    inWeight.set(id, 0);
+  }
+  for (const from of members) {
+    for (const to of graph.successors(from)) {
+      if (!memberSet.has(to)) continue;
+      const weight = graph.relationships(from, to).length;
+      outgoing.get(from)!.add(to);
+      incoming.get(to)!.add(from);
+      outWeight.set(from, outWeight.get(from)! + weight);
+      inWeight.set(to, inWeight.get(to)! + weight);
+    }
+  }
+
+  const remaining = new Set([...members].sort());
+  const remove = (id: string) => {
+    remaining.delete(id);
+    for (const to of outgoing.get(id)!) {
+      incoming.get(to)!.delete(id);
+      inWeight.set(to, inWeight.get(to)! - graph.relationships(id, to).length);
+    }
+    for (const from of incoming.get(id)!) {
+      outgoing.get(from)!.delete(id);
+      outWeight.set(from, outWeight.get(from)! - graph.relationships(from, id).length);
+    }
+  };
+
+  const head: string[] = [];
+  const tail: string[] = [];
+  while (remaining.size > 0) {
+    let peeled = true;
+    while (peeled) {
+      peeled = false;
+      for (const id of remaining) {
+        if (outgoing.get(id)!.size === 0) {
+          tail.unshift(id);
+          remove(id);
+          peeled = true;
+        } else if (incoming.get(id)!.size === 0) {
+          head.push(id);
+          remove(id);
+          peeled = true;
+        }
+      }
+    }
+    if (remaining.size === 0) break;
+
+    let best: string | undefined;
+    let bestDelta = Number.NEGATIVE_INFINITY;
+    for (const id of remaining) {
+      const delta = outWeight.get(id)! - inWeight.get(id)!;
+      if (delta > bestDelta) {
+        best = id;
+        bestDelta = delta;
+      }
+    }
+    head.push(best!);
+    remove(best!);
+  }
+
+  const position = new Map([...head, ...tail].map((id, index) => [id, index]));
+  const cut: Array<[string, string]> = [];
+  for (const from of members) {
+    for (const to of graph.successors(from)) {
+      if (memberSet.has(to) && position.get(from)! > position.get(to)!) cut.push([from, to]);
+    }
+  }
+  return cut;
+}
+
+/**
+ * Shortest loop through the edge `from -> to`: a breadth-first walk from `to` until it reaches `from`
+ */
+function loopThrough(graph: DependencyGraph, members: Set<string>, from: string, to: string): string[] {
+  const previous = new Map<string, string | null>([[to, null]]);
+  const queue = [to];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (id === from) break;
+    for (const next of graph.successors(id)) {
+      if (members.has(next) && !previous.has(next)) {
+        previous.set(next, id);
+        queue.push(next);
+      }
+    }
+  }
+
+  const path: string[] = [];
+  for (let id: string | null | undefined = from; id; id = previous.get(id)) path.unshift(id);
+  return [from, ...path];
+}
+
+function describeEdge(graph: DependencyGraph, entities: Map<string, Entity>, from: string, to: string): CycleEdge {
+  const relationships = graph.relationships(from, to);
+  return {
+    from: graph.nodes.get(from)?.name ?? from,
+    to: graph.nodes.get(to)?.name ?? to,
+    relationshipTypes: Array.from(new Set(relationships.map((rel) => rel.type))).sort(),
+    relationships: relationships.length,
+    examples: relationships.slice(0, MAX_EDGE_EXAMPLES).map((rel) => {
+      const source = entities.get(rel.fromId);
+      const target = entities.get(rel.toId);
+      return {
+        relationshipId: rel.id,
+        type: rel.type,
+        from: source?.name ?? rel.fromId,
+        to: target?.name ?? rel.toId,
+        filePath: source?.filePath ?? "",
+        line: rel.metadata?.line ?? source?.location?.start?.line ?? 0,
+      };
+    }),
+  };
+}
+
+function inScope(entity: Entity, options: CycleDetectionOptions): boolean {
+  if (options.directory && !isInDirectory(entity.filePath, options.directory)) return false;
+  if (options.language) {
+    const language = entity.language ?? detectLanguageFromPath(entity.filePath);
+    if (language.toLowerCase() !== options.language.toLowerCase()) return false;
+  }
+  return true;
+}
+
+/**
+ * Find dependency cycles (strongly connected components) and suggest the edges to cut
+ */
+export async function detectCycles(
+  storage: GraphStorageImpl,
+  options: CycleDetectionOptions = {},
+): Promise<CycleReport> {
+  const start = Date.now();
+  const granularity: CycleGranularity = options.granularity ?? "file";
+  const relationshipTypes = options.relationshipTypes?.length
+    ? options.relationshipTypes
+    : DEFAULT_CYCLE_RELATIONSHIP_TYPES;
+  const minSize = Math.max(options.minSize ?? 2, 2);
+  const limit = Math.max(options.limit ?? DEFAULT_CYCLE_LIMIT, 1);
+  const rootDir = options.rootDir ?? options.directory;
+
+  const entities = new Map<string, Entity>();
+  for (const entity of await storage.getIndexedEntities(options.product_id)) {
+    if (inScope(entity, options)) entities.set(entity.id, entity);
+  }
+
+  const displayPath = (filePath: string) =>
+    rootDir ? relative(rootDir, filePath).split(sep).join("/") || filePath : filePath;
+  const nodeFor = (entity: Entity): CycleNode =>
+    granularity === "file"
+      ? { id: entity.filePath, name: displayPath(entity.filePath), filePath: entity.filePath }
+      : {
+          id: entity.id,
+          name: entity.name,
+          filePath: entity.filePath,
+          type: entity.type,
+          line: entity.location?.start?.line,
+        };
+
+  const graph = new DependencyGraph();
+  const nodesInScope = new Set(Array.from(entities.values(), (entity) => nodeFor(entity).id));
+  for (const rel of await storage.getRelationshipsByType(relationshipTypes as RelationType[], options.product_id)) {
+    const source = entities.get(rel.fromId);
+    const target = entities.get(rel.toId);
+    if (!source || !target) continue;
+    const from = nodeFor(source);
+    const to = nodeFor(target);
+    if (from.id === to.id) continue;
+    graph.addNode(from);
+    graph.addNode(to);
+    graph.addEdge(from.id, to.id, rel);
+  }
+
+  const components = stronglyConnectedComponents(graph).filter((component) => component.length >= minSize);
+
+  const cycles: DetectedCycle[] = components.map((component) => {
+    const members = new Set(component);
+    const types = new Set<string>();
+    let edgeCount = 0;
+    for (const from of component) {
+      for (const to of graph.successors(from)) {
+        if (!members.has(to)) continue;
+        edgeCount++;
+        for (const rel of graph.relationships(from, to)) types.add(rel.type);
+      }
+    }
+
+    const edgesToCut = feedbackArcSet(graph, component)
+      .map(([from, to]) => ({ from, to, edge: describeEdge(graph, entities, from, to) }))
+      .sort((a, b) => a.edge.relationships - b.edge.relationships || a.edge.from.localeCompare(b.edge.from));
+    const [firstCut] = edgesToCut;
+    const path = firstCut ? loopThrough(graph, members, firstCut.from, firstCut.to) : [];
+
+    return {
+      rank: 0,
+      size: component.length,
+      nodes: component.map((id) => graph.nodes.get(id)!).sort((a, b) => a.name.localeCompare(b.name)),
+      edgeCount,
+      relationshipTypes: Array.from(types).sort(),
+      path: path.map((id) => graph.nodes.get(id)?.name ?? id),
+      edgesToCut: edgesToCut.map(({ edge }) => edge),
+    };
+  });
+
+  cycles.sort(
+    (a, b) => b.size - a.size || b.edgeCount - a.edgeCount || a.nodes[0]!.name.localeCompare(b.nodes[0]!.name),
+  );
+  cycles.forEach((cycle, index) => {
+    cycle.rank = index + 1;
+  });
+
+  return {
+    granularity,
+    relationshipTypes,
+    scope: { directory: options.directory, language: options.language, product_id: options.product_id },
+    nodesAnalyzed: nodesInScope.size,
+    edgesAnalyzed: graph.edgeCount,
+    cycleCount: cycles.length,
+    nodesInCycles: cycles.reduce((total, cycle) => total + cycle.size, 0),
+    cycles: cycles.slice(0, limit),
+    timeMs: Date.now() - start,
+  };
+}
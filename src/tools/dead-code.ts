@@ -0,0 +1,319 @@
+/**
+ * Dead code detection.
+ * Marks entities live by walking calls, references, imports, inheritance and decorator edges from
+ * entry points: entry files (everything they declare and export), test files, route handlers
+ * registered through decorators and named entry functions such as `main`. Functions, classes and
+ * exported declarations left unreached are reported with a confidence that drops when dynamic
+ * dispatch, reflection or decorator registration could reach them without an edge in the graph,
+ * and are summed up per directory.
+ */
+
+import { readFileSync } from "node:fs";
+import { relative, sep } from "node:path";
+import { globToRegExp } from "../core/ignore-rules.js";
+import { detectLanguageFromPath } from "../parsers/language-configs.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import {
+  DEAD_CODE_CONFIDENCES,
+  type DeadCodeConfidence,
+  type DeadCodeDirectorySummary,
+  type DeadCodeFinding,
+  type DeadCodeOptions,
+  type DeadCodeReport,
+} from "../types/dead-code.js";
+import type { Entity, Relationship, RelationType } from "../types/storage.js";
+import {
+  CLASS_ENTITY_TYPES,
+  isFunctionLike,
+  MEMBERSHIP_RELATIONSHIP_TYPES,
+  resolveClassMembership,
+} from "./code-smells.js";
+import { isInDirectory, push } from "./cycle-detection.js";
+import { isTestFile } from "./test-mapping.js";
+
+export const DEFAULT_ENTRY_FILES = [
+  "/index.*",
+  "src/index.*",
+  "main.*",
+  "cli.*",
+  "server.*",
+  "app.*",
+  "__main__.py",
+  "manage.py",
+  "bin/**",
+];
+export const DEFAULT_ENTRY_POINTS = ["main"];
+export const DEFAULT_DEAD_CODE_LIMIT = 100;
+
+// Relationships through which a live entity keeps its target alive
+const LIVE_EDGE_TYPES = new Set([
+  "calls",
+  "references",
+  "imports",
+  "inherits",
+  "extends",
+  "implements",
+  "decorates",
+  "depends_on",
+  "tests",
+]);
+const INHERITANCE_TYPES = new Set(["inherits", "extends", "implements"]);
+// Declarations other than functions and classes that are only reported when exported
+const EXPORTED_DECLARATION_TYPES = new Set(["variable", "constant", "type", "interface", "enum", "typedef"]);
+const ROUTE_DECORATOR =
+  /(^|\.)(route|get|post|put|patch|delete|head|options|websocket|api_view|Get|Post|Put|Patch|Delete|Head|Options|All|Route|Controller|RestController|\w+Mapping|Http(Get|Post|Put|Patch|Delete))$/;
+// Names the runtime calls without a visible call site: constructors, dunder methods, Go init, Stringer
+const IMPLICIT_NAME = /^(constructor|__\w+__|init|toString|valueOf|toJSON|equals|hashCode|String|Error)$/;
+const REFLECTION_PATTERN =
+  /\b(getattr|setattr|hasattr|globals|__import__|import_module|eval|exec)\s*\(|\bReflect\.|\bnew Function\s*\(|\b(require|import)\s*\(\s*[^"'`\s)]|\bClass\.forName\b|\.getMethod\s*\(|\breflect\./;
+
+const rank = (confidence: DeadCodeConfidence) => DEAD_CODE_CONFIDENCES.indexOf(confidence);
+
+const isModule = (entity: Entity) => (entity.type as string) === "module";
+
+function emptyConfidences(): Record<DeadCodeConfidence, number> {
+  return { low: 0, medium: 0, high: 0 };
+}
+
+function usesReflection(filePath: string, cache: Map<string, boolean>): boolean {
+  let uses = cache.get(filePath);
+  if (uses === undefined) {
+    try {
+      uses = REFLECTION_PATTERN.test(readFileSync(filePath, "utf8"));
+    } catch {
+      uses = false;
+    }
+    cache.set(filePath, uses);
+  }
+  return uses;
+}
+
+/**
+ * Report functions, classes and exports that nothing reachable from an entry point uses
+ */
+export async function findDeadCode(storage: GraphStorageImpl, options: DeadCodeOptions = {}): Promise<DeadCodeReport> {
+  const start = Date.now();
+  const rootDir = options.rootDir ?? options.directory;
+  const includeTests = options.includeTests ?? true;
+  const minConfidence = rank(options.minConfidence ?? "low");
+  const limit = Math.max(options.limit ?? DEFAULT_DEAD_CODE_LIMIT, 1);
+  const entryFiles = (options.entryFiles?.length ? options.entryFiles : DEFAULT_ENTRY_FILES).map(globToRegExp);
+  const entryPoints = new Set([...DEFAULT_ENTRY_POINTS, ...(options.entryPoints ?? [])]);
+  const relativePath = (filePath: string) => (rootDir ? relative(rootDir, filePath) : filePath).split(sep).join("/");
+
+  const entities = new Map<string, Entity>();
+  for (const entity of await storage.getIndexedEntities(options.product_id)) entities.set(entity.id, entity);
+
+  const outgoing = new Map<string, Relationship[]>();
+  const parents = new Map<string, string[]>();
+  const exportsOf = new Map<string, string[]>();
+  const exported = new Set<string>();
+  const languagesWithCalls = new Set<string>();
+  const languageOf = (entity: Entity) => (entity.language ?? detectLanguageFromPath(entity.filePath)).toLowerCase();
+  const relationshipTypes = [...LIVE_EDGE_TYPES, "exports"] as RelationType[];
+  for (const rel of await storage.getRelationshipsByType(relationshipTypes, options.product_id)) {
+    const source = entities.get(rel.fromId);
+    if (!source || rel.fromId === rel.toId) continue;
+    // Inheritance edges to types outside the index still tell that a member may override a framework hook
+    if (INHERITANCE_TYPES.has(rel.type)) push(parents, rel.fromId, rel.toId);
+    if (!entities.has(rel.toId)) continue;
+    if (rel.type === "exports") {
+      push(exportsOf, rel.fromId, rel.toId);
+      exported.add(rel.toId);
+      continue;
+    }
+    if (rel.type === "calls") languagesWithCalls.add(languageOf(source));
+    push(outgoing, rel.fromId, rel);
+  }
+  for (const entity of entities.values()) {
+    if (entity.metadata.modifiers?.includes("export")) exported.add(entity.id);
+  }
+
+  const ownerOf = resolveClassMembership(
+    entities,
+    await storage.getRelationshipsByType(MEMBERSHIP_RELATIONSHIP_TYPES as RelationType[], options.product_id),
+  );
+  const membersOf = new Map<string, string[]>();
+  for (const [memberId, classId] of ownerOf) push(membersOf, classId, memberId);
+  const moduleOf = new Map<string, string>();
+  for (const entity of entities.values()) if (isModule(entity)) moduleOf.set(entity.filePath, entity.id);
+
+  // Roots: entry and test files, decorator-registered route handlers, named entry points
+  const live = new Set<string>();
+  const queue: string[] = [];
+  const mark = (id: string) => {
+    if (live.has(id) || !entities.has(id)) return;
+    live.add(id);
+    queue.push(id);
+  };
+  const rootFiles = new Set<string>();
+  for (const entity of entities.values()) {
+    const path = relativePath(entity.filePath);
+    const isEntryFile = entryFiles.some((glob) => glob.test(path));
+    const isTest = includeTests && isTestFile(entity.filePath, rootDir);
+    if (isEntryFile || isTest) {
+      rootFiles.add(entity.filePath);
+      mark(entity.id);
+      if (isEntryFile) for (const target of exportsOf.get(entity.id) ?? []) mark(target);
+    }
+    if (entryPoints.has(entity.name) || entryPoints.has(entity.id)) mark(entity.id);
+    if (entity.metadata.decorators?.some((decorator) => ROUTE_DECORATOR.test(decorator.name))) mark(entity.id);
+    if (options.exportsAreUsed && exported.has(entity.id)) mark(entity.id);
+  }
+  const rootCount = live.size;
+
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    for (const rel of outgoing.get(id) ?? []) mark(rel.toId);
+    // A used member keeps its class alive, and loading a file runs its top-level code
+    const owner = ownerOf.get(id);
+    if (owner) mark(owner);
+    const module = moduleOf.get(entities.get(id)!.filePath);
+    if (module) mark(module);
+  }
+
+  const inScope = (entity: Entity) => !options.directory || isInDirectory(entity.filePath, options.directory);
+  const candidates = Array.from(entities.values()).filter(
+    (entity) =>
+      inScope(entity) &&
+      !isTestFile(entity.filePath, rootDir) &&
+      (isFunctionLike(entity) ||
+        CLASS_ENTITY_TYPES.has(entity.type) ||
+        (EXPORTED_DECLARATION_TYPES.has(entity.type) && exported.has(entity.id))),
+  );
+  const dead = candidates.filter((entity) => !live.has(entity.id));
+  const deadIds = new Set(dead.map((entity) => entity.id));
+
+  // Members of a dead class and functions nested in a dead function go with their container
+  const covered = (entity: Entity) => {
+    const owner = ownerOf.get(entity.id);
+    if (owner && deadIds.has(owner)) return true;
+    return dead.some(
+      (other) =>
+        other !== entity &&
+        other.filePath === entity.filePath &&
+        other.location.start.line <= entity.location.start.line &&
+        other.location.end.line >= entity.location.end.line &&
+        (other.location.start.line < entity.location.start.line || other.location.end.line > entity.location.end.line),
+    );
+  };
+
+  const ancestorsOf = (classId: string): string[] => {
+    const seen = new Set<string>();
+    const pending = [...(parents.get(classId) ?? [])];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      pending.push(...(parents.get(id) ?? []));
+    }
+    return Array.from(seen);
+  };
+
+  const reflectionCache = new Map<string, boolean>();
+  const assess = (entity: Entity): { confidence: DeadCodeConfidence; reasons: string[] } => {
+    const low: string[] = [];
+    const medium: string[] = [];
+
+    const decorators = entity.metadata.decorators ?? [];
+    if (decorators.length > 0) {
+      low.push(
+        `decorated with ${decorators.map((decorator) => `@${decorator.name}`).join(", ")}, which may register it`,
+      );
+    }
+    if (IMPLICIT_NAME.test(entity.name) || (entity.type as string) === "magic_method") {
+      low.push("may be called implicitly by the runtime");
+    }
+    const owner = ownerOf.get(entity.id);
+    if (owner) {
+      const ownerName = entities.get(owner)!.name;
+      const ancestors = ancestorsOf(owner);
+      const overridden = ancestors
+        .map((id) => entities.get(id))
+        .find((ancestor) =>
+          (membersOf.get(ancestor?.id ?? "") ?? []).some((id) => entities.get(id)!.name === entity.name),
+        );
+      if (overridden) {
+        low.push(`overrides ${overridden.name}.${entity.name}; may be called through the base type`);
+      } else if (ancestors.some((id) => !entities.has(id))) {
+        low.push(`${ownerName} extends a type outside the index; may be a framework hook`);
+      } else if (live.has(owner)) {
+        medium.push(`member of the live ${ownerName}; may be reached through dynamic dispatch`);
+      }
+    }
+    if (usesReflection(entity.filePath, reflectionCache)) low.push("its file uses reflection or dynamic imports");
+    const language = languageOf(entity);
+    if (!languagesWithCalls.has(language)) low.push(`no call relationships were extracted for ${language} code`);
+    if (exported.has(entity.id)) medium.push("exported; may be used outside the indexed code");
+
+    const confidence: DeadCodeConfidence = low.length > 0 ? "low" : medium.length > 0 ? "medium" : "high";
+    return { confidence, reasons: [...low, ...medium] };
+  };
+
+  const findings: DeadCodeFinding[] = dead
+    .filter((entity) => !covered(entity))
+    .map((entity) => {
+      const { confidence, reasons } = assess(entity);
+      const line = entity.location.start.line;
+      const endLine = entity.location.end.line;
+      return {
+        entityId: entity.id,
+        name: entity.name,
+        type: entity.type,
+        filePath: entity.filePath,
+        line,
+        endLine,
+        lines: endLine - line + 1,
+        exported: exported.has(entity.id),
+        confidence,
+        reasons,
+      };
+    })
+    .filter((finding) => rank(finding.confidence) >= minConfidence)
+    .sort(
+      (a, b) =>
+        rank(b.confidence) - rank(a.confidence) ||
+        b.lines - a.lines ||
+        a.filePath.localeCompare(b.filePath) ||
+        a.line - b.line,
+    );
+
+  const directoryOf = (filePath: string) => {
+    const path = relativePath(filePath);
+    const slash = path.lastIndexOf("/");
+    return slash > 0 ? path.slice(0, slash) : ".";
+  };
+  const directories = new Map<string, DeadCodeDirectorySummary>();
+  const summaryFor = (filePath: string) => {
+    const directory = directoryOf(filePath);
+    let summary = directories.get(directory);
+    if (!summary) {
+      summary = { directory, entities: 0, dead: 0, deadLines: 0, byConfidence: emptyConfidences() };
+      directories.set(directory, summary);
+    }
+    return summary;
+  };
+  for (const entity of candidates) summaryFor(entity.filePath).entities++;
+  const byConfidence = emptyConfidences();
+  for (const finding of findings) {
+    const summary = summaryFor(finding.filePath);
+    summary.dead++;
+    summary.deadLines += finding.lines;
+    summary.byConfidence[finding.confidence]++;
+    byConfidence[finding.confidence]++;
+  }
+
+  return {
+    scope: { directory: options.directory, product_id: options.product_id },
+    entryPoints: { files: rootFiles.size, entities: rootCount },
+    entitiesAnalyzed: candidates.length,
+    reachable: candidates.length - dead.length,
+    deadCount: findings.length,
+    byConfidence,
+    directories: Array.from(directories.values())
+      .filter((summary) => summary.dead > 0)
+      .sort((a, b) => b.deadLines - a.deadLines || a.directory.localeCompare(b.directory)),
+    findings: findings.slice(0, limit),
+    timeMs: Date.now() - start,
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Change-set impact analysis.
+ * Parses a unified diff (given directly or produced by `git diff <base> [<head>]`), maps the
+ * changed line ranges onto the innermost indexed entities via `Entity.location`, and follows their
+ * dependents (callers, importers, subclasses, referrers) to compute the combined ripple of the
+ * whole change set. Impact levels follow `QueryAgent.calculateChangeRipple`: deletions weigh
+ * more than modifications, which weigh more than additions, and the risk fades with distance.
+ */
+
+import { execFile } from "node:child_process";
+import { isAbsolute, join } from "node:path";
+import { promisify } from "node:util";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type {
+  ChangedEntity,
+  DiffFileChange,
+  DiffImpactOptions,
+  DiffImpactReport,
+  ImpactedEntity,
+  RiskGroup,
+  RiskLevel,
+} from "../types/diff-impact.js";
+import type { Change } from "../types/query.js";
+import type { Entity } from "../types/storage.js";
+import { citeEntity, MIRROR_TYPES } from "./codebase-exploration.js";
+import { NULL_PATH, parseHunkHeader, stripDiffPrefix } from "./git-history.js";
+import { isTestFile } from "./test-mapping.js";
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_IMPACT_DEPTH = 3;
+export const MAX_IMPACT_DEPTH = 6;
+export const DEFAULT_IMPACT_LIMIT = 50;
+
+const MAX_DIFF_BYTES = 64 * 1024 * 1024;
+
+// Relationship types whose source breaks when their target changes
+const RIPPLE_TYPES = new Set([
+  "calls",
+  "references",
+  "imports",
+  "inherits",
+  "extends",
+  "implements",
+  "decorates",
+  "depends_on",
+]);
+// Same impact levels as GraphQueryProcessor.calculateRippleEffect
+const CHANGE_WEIGHT: Record<Change["type"], number> = { deleted: 3, modified: 2, added: 1 };
+const RISK_ORDER: RiskLevel[] = ["critical", "high", "medium", "low"];
+
+/**
+ * Parse a unified diff (git or plain `diff -u` format) into per-file changed line numbers
+ */
+export function parseUnifiedDiff(diff: string): DiffFileChange[] {
+  const files: Array<DiffFileChange & { hunks: number }> = [];
+  let pendingOld = 0;
+  let pendingNew = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const path = (raw: string) => {
+    const stripped = stripDiffPrefix(raw.replace(/\t.*$/, "").trim());
+    return stripped === NULL_PATH ? null : stripped;
+  };
+  const startFile = (oldPath: string | null, newPath: string | null) => {
+    files.push({ oldPath, newPath, status: "modified", removedLines: [], addedLines: [], removalPoints: [], hunks: 0 });
+  };
+
+  for (const line of diff.split(/\r?\n/)) {
+    const file = files[files.length - 1];
+    if (file && (pendingOld > 0 || pendingNew > 0)) {
+      if (line.startsWith("-")) {
+        file.removedLines.push(oldLine++);
+        file.removalPoints.push(Math.max(newLine, 1));
+        pendingOld--;
+        continue;
+      }
+      if (line.startsWith("+")) {
+        file.addedLines.push(newLine++);
+        pendingNew--;
+        continue;
+      }
+      if (line.startsWith("\\")) continue;
+      if (line.startsWith(" ") || line === "") {
+        oldLine++;
+        newLine++;
+        pendingOld--;
+        pendingNew--;
+        continue;
+      }
+      pendingOld = 0;
+      pendingNew = 0;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      startFile(match?.[1] ?? null, match?.[2] ?? null);
+    } else if (line.startsWith("--- ")) {
+      // Plain `diff -u` output has no "diff --git" header, so a new "---" after hunks starts the next file
+      if (!file || file.hunks > 0) startFile(null, null);
+      files[files.length - 1]!.oldPath = path(line.slice(4));
+    } else if (!file) {
+    } else if (line.startsWith("+++ ")) {
+      file.newPath = path(line.slice(4));
+    } else if (line.startsWith("@@ ")) {
+      const hunk = parseHunkHeader(line);
+      if (hunk) {
+        file.hunks++;
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+        pendingOld = hunk.oldCount;
+        pendingNew = hunk.newCount;
+      }
+    } else if (line.startsWith("rename from ")) {
+      file.oldPath = line.slice("rename from ".length);
+    } else if (line.startsWith("rename to ")) {
+      file.newPath = line.slice("rename to ".length);
+    } else if (line.startsWith("new file mode")) {
+      file.oldPath = null;
+    } else if (line.startsWith("deleted file mode")) {
+      file.newPath = null;
+    }
+  }
+
+  return files
+    .filter((entry) => entry.oldPath || entry.newPath)
+    .map(({ hunks: _hunks, ...entry }) => ({
+      ...entry,
+      status: !entry.oldPath
+        ? "added"
+        : !entry.newPath
+          ? "deleted"
+          : entry.oldPath !== entry.newPath
+            ? "renamed"
+            : "modified",
+    }));
+}
+
+/**
+ * Run `git diff` between two refs (or a ref and the working tree) inside the repository containing `directory`
+ */
+export async function readGitDiff(
+  directory: string,
+  base: string,
+  head?: string,
+): Promise<{ diff: string; repositoryRoot: string }> {
+  for (const ref of [base, head]) {
+    if (ref !== undefined && (ref.startsWith("-") || /\s/.test(ref))) {
+      throw new Error(`Invalid git ref: ${ref}`);
+    }
+  }
+  const { stdout: root } = await execFileAsync("git", ["rev-parse", "--show-toplevel"], { cwd: directory });
+  const args = ["diff", "--no-color", "--no-ext-diff", "-M", "--unified=0", base, ...(head ? [head] : []), "--"];
+  const { stdout } = await execFileAsync("git", args, { cwd: directory, maxBuffer: MAX_DIFF_BYTES });
+  return { diff: stdout, repositoryRoot: root.trim() };
+}
+
+function riskFor(change: Change["type"], distance: number): RiskLevel {
+  const weight = CHANGE_WEIGHT[change];
+  if (distance <= 1) return weight >= 3 ? "critical" : weight === 2 ? "high" : "medium";
+  if (distance === 2) return weight >= 3 ? "high" : weight === 2 ? "medium" : "low";
+  return "low";
+}
+
+/**
+ * Innermost entity (smallest span) covering each changed line
+ */
+function mapLinesToEntities(entities: Entity[], lines: number[]): Map<string, { entity: Entity; lines: Set<number> }> {
+  const mapped = new Map<string, { entity: Entity; lines: Set<number> }>();
+  for (const line of lines) {
+    let best: Entity | undefined;
+    for (const entity of entities) {
+      const start = entity.location?.start?.line ?? 0;
+      const end = entity.location?.end?.line ?? start;
+      if (line < start || line > end) continue;
+      if (!best || end - start < best.location.end.line - best.location.start.line) best = entity;
+    }
+    if (!best) continue;
+    const entry = mapped.get(best.id) ?? { entity: best, lines: new Set<number>() };
+    entry.lines.add(line);
+    mapped.set(best.id, entry);
+  }
+  return mapped;
+}
+
+/**
+ * Map a parsed diff onto entities and compute the ripple through their dependents, grouped by risk
+ */
+export async function analyzeDiffImpact(
+  storage: GraphStorageImpl,
+  files: DiffFileChange[],
+  options: DiffImpactOptions,
+  source: DiffImpactReport["source"] = { type: "diff" },
+): Promise<DiffImpactReport> {
+  const start = Date.now();
+  const depth = Math.min(Math.max(options.depth ?? DEFAULT_IMPACT_DEPTH, 1), MAX_IMPACT_DEPTH);
+  const limit = Math.max(options.limit ?? DEFAULT_IMPACT_LIMIT, 1);
+  const absolute = (path: string) => (isAbsolute(path) ? path : join(options.rootDir, path));
+
+  const changes = new Map<string, { entity: Entity; change: Change["type"]; lines: number }>();
+  const changedFiles: DiffImpactReport["changedFiles"] = [];
+  const unmappedFiles: string[] = [];
+
+  for (const file of files) {
+    const path = (file.status === "deleted" ? file.oldPath : file.newPath)!;
+    const entities = (await storage.getEntitiesByFile(absolute(path))).filter(
+      (entity) => !MIRROR_TYPES.has(entity.type) && (!options.product_id || entity.project_id === options.product_id),
+    );
+
+    let mapped: Array<{ entity: Entity; change: Change["type"]; lines: number }>;
+    if (file.status === "deleted") {
+      mapped = entities.map((entity) => ({
+        entity,
+        change: "deleted" as const,
+        lines: entity.location.end.line - entity.location.start.line + 1,
+      }));
+    } else {
+      const added = new Set(file.addedLines);
+      mapped = Array.from(mapLinesToEntities(entities, [...file.addedLines, ...file.removalPoints]).values()).map(
+        ({ entity, lines }) => {
+          let wholeEntityAdded = file.status === "added";
+          for (let line = entity.location.start.line; !wholeEntityAdded && line <= entity.location.end.line; line++) {
+            if (!added.has(line)) break;
+            if (line === entity.location.end.line) wholeEntityAdded = true;
+          }
+          return { entity, change: wholeEntityAdded ? ("added" as const) : ("modified" as const), lines: lines.size };
+        },
+      );
+    }
+
+    for (const entry of mapped) {
+      const existing = changes.get(entry.entity.id);
+      if (!existing || CHANGE_WEIGHT[entry.change] > CHANGE_WEIGHT[existing.change])
+        changes.set(entry.entity.id, entry);
+    }
+    if (entities.length === 0) unmappedFiles.push(path);
+    changedFiles.push({
+      path,
+      status: file.status,
+      added: file.addedLines.length,
+      removed: file.removedLines.length,
+      entities: mapped.length,
+    });
+  }
+
+  // Ripple through dependents of every changed entity, keeping the riskiest route to each one
+  const entityCache = new Map<string, Entity | null>();
+  const load = async (id: string) => {
+    if (!entityCache.has(id)) entityCache.set(id, await storage.getEntity(id));
+    return entityCache.get(id) ?? null;
+  };
+  const impacted = new Map<string, ImpactedEntity>();
+  let totalRisk = 0;
+
+  for (const { entity: changed, change } of changes.values()) {
+    const visited = new Set([changed.id]);
+    const queue: Array<{ id: string; distance: number }> = [{ id: changed.id, distance: 0 }];
+
+    while (queue.length > 0) {
+      const { id, distance } = queue.shift()!;
+      if (distance >= depth) continue;
+
+      for (const rel of await storage.getRelationshipsForEntity(id, undefined, options.product_id)) {
+        // Members ripple through their container: users of a class are affected by its methods
+        if (rel.fromId === id && (rel.type as string) === "member_of" && !visited.has(rel.toId)) {
+          visited.add(rel.toId);
+          queue.push({ id: rel.toId, distance });
+          continue;
+        }
+        if (rel.toId !== id || rel.fromId === id || !RIPPLE_TYPES.has(rel.type) || visited.has(rel.fromId)) continue;
+        visited.add(rel.fromId);
+
+        const dependent = await load(rel.fromId);
+        if (!dependent || dependent.filePath.startsWith("external://")) continue;
+        queue.push({ id: dependent.id, distance: distance + 1 });
+        if (changes.has(dependent.id)) continue;
+
+        const risk = riskFor(change, distance + 1);
+        totalRisk += distance === 0 ? CHANGE_WEIGHT[change] : 0.5;
+        const existing = impacted.get(dependent.id);
+        if (
+          existing &&
+          (RISK_ORDER.indexOf(existing.risk) < RISK_ORDER.indexOf(risk) ||
+            (existing.risk === risk && existing.distance <= distance + 1))
+        ) {
+          continue;
+        }
+        impacted.set(dependent.id, {
+          ...citeEntity(dependent),
+          risk,
+          distance: distance + 1,
+          via: { changedEntityId: changed.id, changedEntity: changed.name, relationshipType: rel.type },
+          isTest: isTestFile(dependent.filePath, options.rootDir),
+        });
+      }
+    }
+  }
+
+  const impact = {} as Record<RiskLevel, RiskGroup>;
+  for (const risk of RISK_ORDER) {
+    const entities = Array.from(impacted.values())
+      .filter((entity) => entity.risk === risk)
+      .sort((a, b) => a.distance - b.distance || a.filePath.localeCompare(b.filePath) || a.line - b.line);
+    impact[risk] = {
+      entities: entities.slice(0, limit),
+      files: Array.from(new Set(entities.map((entity) => entity.filePath))).sort(),
+      tests: entities.filter((entity) => entity.isTest).slice(0, limit),
+      totalEntities: entities.length,
+    };
+  }
+
+  const changedEntities: ChangedEntity[] = Array.from(changes.values())
+    .map(({ entity, change, lines }) => ({ ...citeEntity(entity), change, changedLines: lines }))
+    .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line);
+  const impactedList = Array.from(impacted.values());
+
+  return {
+    source,
+    changedFiles,
+    changedEntities,
+    unmappedFiles,
+    impact,
+    summary: {
+      changedEntities: changedEntities.length,
+      impactedEntities: impactedList.length,
+      impactedFiles: new Set(impactedList.map((entity) => entity.filePath)).size,
+      impactedTests: impactedList.filter((entity) => entity.isTest).length,
+      estimatedRisk: Math.min(100, totalRisk * 5),
+    },
+    timeMs: Date.now() - start,
+  };
+}
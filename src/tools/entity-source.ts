@@ -0,0 +1,306 @@
+/**
+ * Entity source retrieval.
+ * Returns the code of an indexed entity straight from disk: its lines (optionally widened by
+ * surrounding context), the doc comment or Python docstring that documents it, and snippets of
+ * its most frequent callers (around the call site) and callees (the start of their definition).
+ * Everything shares one token budget; the entity's own code is filled first, then the docstring,
+ * then callers and callees in turns, and snippets that no longer fit are shortened or left out.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+import { detectLanguageFromPath } from "../parsers/language-configs.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type { EntitySourceOptions, EntitySourceReport, RelatedSource, SourceSnippet } from "../types/entity-source.js";
+import { type Entity, RelationType } from "../types/storage.js";
+import { citeEntity } from "./codebase-exploration.js";
+
+export const DEFAULT_SOURCE_TOKENS = 4000;
+export const MAX_SOURCE_TOKENS = 50000;
+export const DEFAULT_RELATED_SOURCES = 3;
+export const MAX_RELATED_SOURCES = 20;
+export const MAX_CONTEXT_LINES = 50;
+
+// Rough size of a token in source code
+const CHARS_PER_TOKEN = 4;
+// Lines shown on each side of a caller's call site
+const CALL_SITE_RADIUS = 3;
+// Lines of a callee's definition shown: its signature and the start of its body
+const CALLEE_HEAD_LINES = 12;
+// Files larger than this are not read
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const DECORATOR_LINE = /^\s*(@|#\[|\[[A-Z])/;
+const PYTHON_DOCSTRING = /^\s*[rRuUbB]?("""|''')/;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Source files read at most once per request
+ */
+class SourceFiles {
+  private readonly cache = new Map<string, string[] | null>();
+
+  lines(filePath: string): string[] | null {
+    if (!this.cache.has(filePath)) {
+      let lines: string[] | null = null;
+      try {
+        if (statSync(filePath).size <= MAX_FILE_BYTES) {
+          lines = readFileSync(filePath, "utf8").split(/\r?\n/);
+        }
+      } catch {
+        lines = null;
+      }
+      this.cache.set(filePath, lines);
+    }
+    return this.cache.get(filePath) ?? null;
+  }
+}
+
+class TokenBudget {
+  used = 0;
+  readonly truncated: string[] = [];
+
+  constructor(readonly max: number) {}
+
+  /**
+   * Cut a line range to the lines that still fit; undefined when none does
+   */
+  snippet(lines: string[], filePath: string, startLine: number, endLine: number, label: string) {
+    const start = Math.max(1, startLine);
+    const end = Math.min(lines.length, Math.max(start, endLine));
+    const kept: string[] = [];
+    let tokens = 0;
+    for (let line = start; line <= end; line++) {
+      const cost = estimateTokens(`${lines[line - 1] ?? ""}\n`);
+      if (this.used + tokens + cost > this.max) break;
+      kept.push(lines[line - 1] ?? "");
+      tokens += cost;
+    }
+
+    const truncated = kept.length < end - start + 1;
+    if (truncated) this.truncated.push(label);
+    if (kept.length === 0) return undefined;
+
+    this.used += tokens;
+    const snippet: SourceSnippet = {
+      filePath,
+      startLine: start,
+      endLine: start + kept.length - 1,
+      code: kept.join("\n"),
+      truncated,
+    };
+    return snippet;
+  }
+
+  text(text: string, label: string): string | undefined {
+    const cost = estimateTokens(text);
+    if (this.used + cost > this.max) {
+      this.truncated.push(label);
+      return undefined;
+    }
+    this.used += cost;
+    return text;
+  }
+}
+
+/**
+ * The doc comment right above an entity (skipping decorators and attributes), or for Python the
+ * docstring that opens its body
+ */
+export function extractDocstring(lines: string[], entity: Entity): string | undefined {
+  const startLine = entity.location?.start?.line ?? 0;
+  if (startLine < 1) return undefined;
+  const language = detectLanguageFromPath(entity.filePath);
+  const linePrefix = language === "python" ? /^\s*#\s?/ : language === "vba" ? /^\s*'\s?/ : /^\s*\/\/[/!]?\s?/;
+
+  let cursor = startLine - 2;
+  while (cursor >= 0 && DECORATOR_LINE.test(lines[cursor] ?? "")) cursor--;
+
+  const comment: string[] = [];
+  if (/\*\/\s*$/.test(lines[cursor] ?? "") && language !== "python") {
+    let open = cursor;
+    while (open >= 0 && !(lines[open] ?? "").includes("/*")) open--;
+    if (open >= 0) {
+      for (let line = open; line <= cursor; line++) {
+        comment.push(
+          (lines[line] ?? "")
+            .replace(/^\s*\/\*+\s?/, "")
+            .replace(/\s*\*+\/\s*$/, "")
+            .replace(/^\s*\*\s?/, ""),
+        );
+      }
+    }
+  } else {
+    while (cursor >= 0 && linePrefix.test(lines[cursor] ?? "")) {
+      comment.unshift((lines[cursor] ?? "").replace(linePrefix, ""));
+      cursor--;
+    }
+  }
+
+  if (comment.length === 0 && language === "python") {
+    return extractPythonDocstring(lines, startLine, entity.location?.end?.line ?? startLine);
+  }
+  const text = comment.join("\n").trim();
+  return text || undefined;
+}
+
+function extractPythonDocstring(lines: string[], startLine: number, endLine: number): string | undefined {
+  // The docstring is the first statement after the (possibly multi-line) signature ending in ":"
+  let line = startLine - 1;
+  while (line < endLine && !/:\s*(#.*)?$/.test(lines[line] ?? "")) line++;
+  line++;
+  while (line < endLine && (lines[line] ?? "").trim() === "") line++;
+
+  const first = lines[line] ?? "";
+  const match = PYTHON_DOCSTRING.exec(first);
+  if (!match) return undefined;
+
+  const quote = match[1]!;
+  const body: string[] = [];
+  let rest = first.slice(match.index + match[0].length);
+  for (;;) {
+    const close = rest.indexOf(quote);
+    if (close !== -1) {
+      body.push(rest.slice(0, close));
+      break;
+    }
+    body.push(rest);
+    line++;
+    if (line >= endLine) break;
+    rest = lines[line] ?? "";
+  }
+
+  const indent = Math.min(
+    ...body
+      .slice(1)
+      .filter((text) => text.trim())
+      .map((text) => text.length - text.trimStart().length),
+  );
+  const text = body
+    .map((text, index) => (index > 0 && Number.isFinite(indent) ? text.slice(indent) : text))
+    .join("\n")
+    .trim();
+  return text || undefined;
+}
+
+interface Neighbour {
+  entity: Entity;
+  calls: number;
+  callLine?: number;
+}
+
+/**
+ * Entities linked to the target by `calls`, most calls first
+ */
+async function rankNeighbours(
+  storage: GraphStorageImpl,
+  entity: Entity,
+  direction: "callers" | "callees",
+  limit: number,
+  product_id?: string,
+): Promise<Neighbour[]> {
+  if (limit <= 0) return [];
+  const counts = new Map<string, { calls: number; callLine?: number }>();
+  for (const relationship of await storage.getRelationshipsForEntity(entity.id, RelationType.CALLS, product_id)) {
+    const outgoing = relationship.fromId === entity.id;
+    if (outgoing !== (direction === "callees")) continue;
+    const other = outgoing ? relationship.toId : relationship.fromId;
+    if (other === entity.id) continue;
+
+    const entry = counts.get(other) ?? { calls: 0 };
+    entry.calls++;
+    const line = relationship.metadata?.line;
+    if (typeof line === "number" && (entry.callLine === undefined || line < entry.callLine)) entry.callLine = line;
+    counts.set(other, entry);
+  }
+
+  const neighbours: Neighbour[] = [];
+  for (const [id, entry] of counts) {
+    const other = await storage.getEntity(id);
+    if (!other || other.filePath.startsWith("external://")) continue;
+    neighbours.push({ entity: other, ...entry });
+  }
+  return neighbours.sort((a, b) => b.calls - a.calls || a.entity.name.localeCompare(b.entity.name)).slice(0, limit);
+}
+
+/**
+ * Gather the source of an entity, its docstring and its callers' and callees' code within a token budget
+ */
+export async function getEntitySource(
+  storage: GraphStorageImpl,
+  entity: Entity,
+  options: EntitySourceOptions = {},
+): Promise<EntitySourceReport> {
+  const contextLines = Math.min(Math.max(options.contextLines ?? 0, 0), MAX_CONTEXT_LINES);
+  const callerLimit = Math.min(Math.max(options.callers ?? DEFAULT_RELATED_SOURCES, 0), MAX_RELATED_SOURCES);
+  const calleeLimit = Math.min(Math.max(options.callees ?? DEFAULT_RELATED_SOURCES, 0), MAX_RELATED_SOURCES);
+  const budget = new TokenBudget(Math.min(Math.max(options.maxTokens ?? DEFAULT_SOURCE_TOKENS, 1), MAX_SOURCE_TOKENS));
+  const files = new SourceFiles();
+
+  const report: EntitySourceReport = {
+    entity: citeEntity(entity),
+    callers: [],
+    callees: [],
+    budget: { maxTokens: budget.max, usedTokens: 0, truncated: budget.truncated },
+  };
+
+  const lines = files.lines(entity.filePath);
+  if (lines) {
+    const start = (entity.location?.start?.line ?? 1) - contextLines;
+    const end = (entity.location?.end?.line ?? entity.location?.start?.line ?? 1) + contextLines;
+    report.source = budget.snippet(lines, entity.filePath, start, end, "source");
+    if (options.includeDocstring ?? true) {
+      const docstring = extractDocstring(lines, entity);
+      if (docstring) report.docstring = budget.text(docstring, "docstring");
+    }
+  } else {
+    report.error = `Could not read ${entity.filePath}`;
+  }
+
+  const [callers, callees] = await Promise.all([
+    rankNeighbours(storage, entity, "callers", callerLimit, options.product_id),
+    rankNeighbours(storage, entity, "callees", calleeLimit, options.product_id),
+  ]);
+
+  const related = (neighbour: Neighbour, kind: "caller" | "callee"): RelatedSource => {
+    const { entity: other, calls, callLine } = neighbour;
+    const result: RelatedSource = { ...citeEntity(other), calls, callLine };
+    const otherLines = files.lines(other.filePath);
+    if (!otherLines) return result;
+
+    const defStart = other.location?.start?.line ?? 1;
+    const defEnd = other.location?.end?.line ?? defStart;
+    const label = `${kind}:${other.name}`;
+    if (kind === "caller" && callLine) {
+      result.snippet = budget.snippet(
+        otherLines,
+        other.filePath,
+        Math.max(defStart, callLine - CALL_SITE_RADIUS),
+        Math.min(defEnd, callLine + CALL_SITE_RADIUS),
+        label,
+      );
+    } else {
+      result.snippet = budget.snippet(
+        otherLines,
+        other.filePath,
+        defStart,
+        Math.min(defEnd, defStart + CALLEE_HEAD_LINES - 1),
+        label,
+      );
+    }
+    return result;
+  };
+
+  // Alternate callers and callees so neither side takes the whole budget
+  for (let i = 0; i < Math.max(callers.length, callees.length); i++) {
+    const caller = callers[i];
+    const callee = callees[i];
+    if (caller) report.callers.push(related(caller, "caller"));
+    if (callee) report.callees.push(related(callee, "callee"));
+  }
+
+  report.budget.usedTokens = budget.used;
+  return report;
+}
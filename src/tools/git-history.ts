@@ -0,0 +1,444 @@
+/**
+ * Git history ingestion.
+ * Walks `git log -p --unified=0` once, maps every hunk onto the current line layout of each file and
+ * aggregates churn (commits, lines, authors, last touch) per file and per indexed entity.
+ */
+
+import { execFile, spawn } from "node:child_process";
+import { join } from "node:path";
+import { createInterface } from "node:readline";
+import { promisify } from "node:util";
+import type { GitHistoryStore } from "../storage/git-history-store.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type {
+  ChurnAuthor,
+  EntityChurn,
+  FileChurn,
+  GitHistoryOptions,
+  GitHistorySummary,
+} from "../types/git-history.js";
+import { type Entity, EntityType } from "../types/storage.js";
+
+const execFileAsync = promisify(execFile);
+
+export const DEFAULT_MAX_COMMITS = 1000;
+
+const COMMIT_MARKER = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+export const NULL_PATH = "/dev/null";
+
+export interface LineInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A single `@@ -oldStart,oldCount +newStart,newCount @@` hunk header
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+}
+
+export interface GitFileChange {
+  oldPath: string;
+  newPath: string;
+  hunks: DiffHunk[];
+  added: number;
+  deleted: number;
+}
+
+export interface GitCommit {
+  hash: string;
+  author: string;
+  email: string;
+  timestamp: number;
+  files: GitFileChange[];
+}
+
+/**
+ * Follows one file's lines from an older revision to the working tree.
+ * `transforms` holds the hunks of every already-visited (newer) commit, newest first.
+ */
+interface LineTracker {
+  currentPath: string | null;
+  transforms: DiffHunk[][];
+}
+
+interface ChurnAccumulator {
+  commits: Set<string>;
+  lines: number;
+  added: number;
+  deleted: number;
+  authors: Map<string, ChurnAuthor>;
+  firstCommitAt?: number;
+  lastCommitAt?: number;
+  lastAuthor?: string;
+  lastCommit?: string;
+}
+
+/**
+ * Translate line intervals expressed in the "old" side of a diff into its "new" side.
+ * Lines removed by the diff are dropped; surviving lines are shifted by preceding hunks.
+ */
+export function mapIntervalsThroughHunks(intervals: LineInterval[], hunks: DiffHunk[]): LineInterval[] {
+  const mapped: LineInterval[] = [];
+
+  for (const interval of intervals) {
+    let cursor = interval.start;
+    let offset = 0;
+
+    for (const hunk of hunks) {
+      if (cursor > interval.end) break;
+      const delta = hunk.newCount - hunk.oldCount;
+
+      if (hunk.oldCount === 0) {
+        // Pure insertion after line `oldStart`
+        if (hunk.oldStart < cursor) {
+          offset += delta;
+          continue;
+        }
+        if (hunk.oldStart >= interval.end) break;
+        mapped.push({ start: cursor + offset, end: hunk.oldStart + offset });
+        cursor = hunk.oldStart + 1;
+        offset += delta;
+        continue;
+      }
+
+      const deletedEnd = hunk.oldStart + hunk.oldCount - 1;
+      if (deletedEnd < cursor) {
+        offset += delta;
+        continue;
+      }
+      if (hunk.oldStart > interval.end) break;
+      if (hunk.oldStart > cursor) {
+        mapped.push({ start: cursor + offset, end: hunk.oldStart - 1 + offset });
+      }
+      cursor = deletedEnd + 1;
+      offset += delta;
+    }
+
+    if (cursor <= interval.end) {
+      mapped.push({ start: cursor + offset, end: interval.end + offset });
+    }
+  }
+
+  return mapped;
+}
+
+export function parseHunkHeader(line: string): DiffHunk | null {
+  const match = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+  if (!match) return null;
+  return {
+    oldStart: Number(match[1]),
+    oldCount: match[2] === undefined ? 1 : Number(match[2]),
+    newStart: Number(match[3]),
+    newCount: match[4] === undefined ? 1 : Number(match[4]),
+  };
+}
+
+export function stripDiffPrefix(path: string): string {
+  if (path === NULL_PATH) return path;
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Stream `git log` output and invoke `onCommit` for every parsed commit (newest first)
+ */
+export async function readGitLog(
+  repositoryRoot: string,
+  pathspec: string,
+  options: GitHistoryOptions,
+  onCommit: (commit: GitCommit) => void,
+): Promise<number> {
+  const args = [
+    "-c",
+    "core.quotepath=off",
+    "log",
+    "--no-merges",
+    "--no-color",
+    "-M",
+    "-p",
+    "--unified=0",
+    `--format=${COMMIT_MARKER}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%ae${FIELD_SEPARATOR}%at`,
+    `--max-count=${options.maxCommits ?? DEFAULT_MAX_COMMITS}`,
+  ];
+  if (options.since) {
+    args.push(`--since=${options.since}`);
+  }
+  args.push("--", pathspec);
+
+  const child = spawn("git", args, { cwd: repositoryRoot, stdio: ["ignore", "pipe", "pipe"] });
+  let stderr = "";
+  child.stderr.on("data", (chunk) => {
+    stderr += chunk.toString();
+  });
+  const exited = new Promise<number>((resolve, reject) => {
+    child.on("error", reject);
+    child.on("close", (code) => resolve(code ?? 0));
+  });
+
+  let commit: GitCommit | null = null;
+  let file: GitFileChange | null = null;
+  let pendingOld = 0;
+  let pendingNew = 0;
+  let count = 0;
+
+  const flush = () => {
+    if (commit) {
+      onCommit(commit);
+      count++;
+    }
+    commit = null;
+    file = null;
+  };
+
+  const lines = createInterface({ input: child.stdout, crlfDelay: Number.POSITIVE_INFINITY });
+  for await (const line of lines) {
+    if (line.startsWith(COMMIT_MARKER)) {
+      flush();
+      const [hash = "", author = "", email = "", timestamp = "0"] = line.slice(1).split(FIELD_SEPARATOR);
+      commit = { hash, author, email, timestamp: Number(timestamp) * 1000, files: [] };
+      continue;
+    }
+    if (!commit) continue;
+
+    if (pendingOld > 0 || pendingNew > 0) {
+      if (line.startsWith("-")) {
+        pendingOld--;
+        if (file) file.deleted++;
+        continue;
+      }
+      if (line.startsWith("+")) {
+        pendingNew--;
+        if (file) file.added++;
+        continue;
+      }
+      if (line.startsWith("\\")) continue;
+      pendingOld = 0;
+      pendingNew = 0;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      file = {
+        oldPath: match?.[1] ?? "",
+        newPath: match?.[2] ?? "",
+        hunks: [],
+        added: 0,
+        deleted: 0,
+      };
+      commit.files.push(file);
+    } else if (file) {
+      if (line.startsWith("@@ ")) {
+        const hunk = parseHunkHeader(line);
+        if (hunk) {
+          file.hunks.push(hunk);
+          pendingOld = hunk.oldCount;
+          pendingNew = hunk.newCount;
+        }
+      } else if (line.startsWith("--- ")) {
+        file.oldPath = stripDiffPrefix(line.slice(4));
+      } else if (line.startsWith("+++ ")) {
+        file.newPath = stripDiffPrefix(line.slice(4));
+      } else if (line.startsWith("rename from ")) {
+        file.oldPath = line.slice("rename from ".length);
+      } else if (line.startsWith("rename to ")) {
+        file.newPath = line.slice("rename to ".length);
+      } else if (line.startsWith("new file mode")) {
+        file.oldPath = NULL_PATH;
+      } else if (line.startsWith("deleted file mode")) {
+        file.newPath = NULL_PATH;
+      }
+    }
+  }
+  flush();
+
+  const code = await exited;
+  if (code !== 0) {
+    throw new Error(`git log failed (exit ${code}): ${stderr.trim()}`);
+  }
+  return count;
+}
+
+function createAccumulator(): ChurnAccumulator {
+  return { commits: new Set(), lines: 0, added: 0, deleted: 0, authors: new Map() };
+}
+
+function recordCommit(acc: ChurnAccumulator, commit: GitCommit): void {
+  if (acc.commits.has(commit.hash)) return;
+  acc.commits.add(commit.hash);
+
+  const key = commit.email || commit.author;
+  const author = acc.authors.get(key) ?? { name: commit.author, email: commit.email, commits: 0 };
+  author.commits++;
+  acc.authors.set(key, author);
+
+  // Commits arrive newest first
+  if (acc.lastCommitAt === undefined) {
+    acc.lastCommitAt = commit.timestamp;
+    acc.lastAuthor = commit.author;
+    acc.lastCommit = commit.hash;
+  }
+  acc.firstCommitAt = commit.timestamp;
+}
+
+function sortedAuthors(acc: ChurnAccumulator): ChurnAuthor[] {
+  return Array.from(acc.authors.values()).sort((a, b) => b.commits - a.commits);
+}
+
+function intervalLength(intervals: LineInterval[]): number {
+  return intervals.reduce((sum, interval) => sum + (interval.end - interval.start + 1), 0);
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd });
+  return stdout.trim();
+}
+
+/**
+ * Ingest git history for `directory` and store per-file and per-entity churn.
+ * Entities are looked up by absolute file path, so the directory should be indexed first.
+ */
+export async function ingestGitHistory(
+  storage: GraphStorageImpl,
+  store: GitHistoryStore,
+  directory: string,
+  options: GitHistoryOptions = {},
+): Promise<GitHistorySummary> {
+  const startTime = Date.now();
+
+  const repositoryRoot = await git(directory, ["rev-parse", "--show-toplevel"]);
+  const prefix = await git(directory, ["rev-parse", "--show-prefix"]);
+  let head: string | undefined;
+  try {
+    head = await git(directory, ["rev-parse", "HEAD"]);
+  } catch {
+    head = undefined;
+  }
+
+  const toAbsolute = (gitPath: string): string | null =>
+    gitPath.startsWith(prefix) ? join(directory, gitPath.slice(prefix.length)) : null;
+
+  const trackers = new Map<string, LineTracker>();
+  const fileChurn = new Map<string, ChurnAccumulator>();
+  const entityChurn = new Map<string, ChurnAccumulator>();
+  const entityCache = new Map<string, Entity[]>();
+  const pendingEntityLoads: Array<{ path: string; commit: GitCommit; intervals: LineInterval[] }> = [];
+
+  const onCommit = (commit: GitCommit) => {
+    for (const change of commit.files) {
+      if (change.newPath === NULL_PATH) {
+        // Deleted later than anything still to come: older edits no longer exist in the tree
+        trackers.set(change.oldPath, { currentPath: null, transforms: [] });
+        continue;
+      }
+
+      let tracker = trackers.get(change.newPath);
+      if (!tracker) {
+        tracker = { currentPath: toAbsolute(change.newPath), transforms: [] };
+        trackers.set(change.newPath, tracker);
+      }
+
+      if (tracker.currentPath) {
+        const acc = fileChurn.get(tracker.currentPath) ?? createAccumulator();
+        recordCommit(acc, commit);
+        acc.added += change.added;
+        acc.deleted += change.deleted;
+        fileChurn.set(tracker.currentPath, acc);
+
+        let intervals: LineInterval[] = change.hunks.map((hunk) => {
+          const start = Math.max(hunk.newStart, 1);
+          return { start, end: hunk.newCount > 0 ? start + hunk.newCount - 1 : start };
+        });
+        for (let i = tracker.transforms.length - 1; i >= 0 && intervals.length > 0; i--) {
+          intervals = mapIntervalsThroughHunks(intervals, tracker.transforms[i] ?? []);
+        }
+        if (intervals.length > 0) {
+          pendingEntityLoads.push({ path: tracker.currentPath, commit, intervals });
+        }
+      }
+
+      tracker.transforms.push(change.hunks);
+
+      if (change.oldPath !== NULL_PATH && change.oldPath !== change.newPath) {
+        trackers.set(change.oldPath, tracker);
+        trackers.set(change.newPath, { currentPath: null, transforms: [] });
+      }
+    }
+  };
+
+  const commitsScanned = await readGitLog(repositoryRoot, prefix || ".", options, onCommit);
+
+  for (const { path, commit, intervals } of pendingEntityLoads) {
+    let entities = entityCache.get(path);
+    if (!entities) {
+      const found = await storage.findEntities({ type: "entity", filters: { filePath: path }, limit: 1000 });
+      entities = found.filter((entity) => entity.type !== EntityType.IMPORT);
+      entityCache.set(path, entities);
+    }
+
+    for (const entity of entities) {
+      const overlap = intervals
+        .map((interval) => ({
+          start: Math.max(interval.start, entity.location.start.line),
+          end: Math.min(interval.end, entity.location.end.line),
+        }))
+        .filter((interval) => interval.start <= interval.end);
+      if (overlap.length === 0) continue;
+
+      const acc = entityChurn.get(entity.id) ?? createAccumulator();
+      recordCommit(acc, commit);
+      acc.lines += intervalLength(overlap);
+      entityChurn.set(entity.id, acc);
+    }
+  }
+
+  const now = Date.now();
+  const files: FileChurn[] = Array.from(fileChurn.entries()).map(([filePath, acc]) => ({
+    file_path: filePath,
+    project_id: options.product_id,
+    commit_count: acc.commits.size,
+    lines_added: acc.added,
+    lines_deleted: acc.deleted,
+    authors: sortedAuthors(acc),
+    first_commit_at: acc.firstCommitAt,
+    last_commit_at: acc.lastCommitAt,
+    last_author: acc.lastAuthor,
+    last_commit: acc.lastCommit,
+    updated_at: now,
+  }));
+
+  const entityPaths = new Map<string, string>();
+  for (const [path, entities] of entityCache) {
+    for (const entity of entities) entityPaths.set(entity.id, path);
+  }
+
+  const entities: EntityChurn[] = Array.from(entityChurn.entries()).map(([entityId, acc]) => ({
+    entity_id: entityId,
+    file_path: entityPaths.get(entityId) ?? "",
+    project_id: options.product_id,
+    commit_count: acc.commits.size,
+    lines_changed: acc.lines,
+    authors: sortedAuthors(acc),
+    first_commit_at: acc.firstCommitAt,
+    last_commit_at: acc.lastCommitAt,
+    last_author: acc.lastAuthor,
+    last_commit: acc.lastCommit,
+    updated_at: now,
+  }));
+
+  store.replaceChurn(join(directory, "/"), files, entities);
+
+  return {
+    repositoryRoot,
+    directory,
+    head,
+    commitsScanned,
+    filesTracked: files.length,
+    entitiesTracked: entities.length,
+    durationMs: Date.now() - startTime,
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Graph export.
+ * Serializes the code graph, or the neighbourhood of one entity, as GraphML, Graphviz DOT, a
+ * Mermaid flowchart, Cypher CREATE statements or JSON Lines. Entities and relationships are read
+ * page by page and batched through the StreamHandler, so an export is produced as a sequence of
+ * text chunks that can be piped to an HTTP response without building the document in memory.
+ */
+
+import { isAbsolute, relative, sep } from "node:path";
+import { globToRegExp } from "../core/ignore-rules.js";
+import { StreamHandler } from "../query/stream-handler.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type { GraphExportFormat, GraphExportOptions, GraphExportStats } from "../types/graph-export.js";
+import type { Entity, EntityType, Relationship, RelationType } from "../types/storage.js";
+
+export const DEFAULT_EXPORT_DEPTH = 2;
+export const DEFAULT_EXPORT_MAX_ENTITIES = 5000;
+
+export const GRAPH_EXPORT_MEDIA_TYPES: Record<GraphExportFormat, { contentType: string; extension: string }> = {
+  graphml: { contentType: "application/graphml+xml", extension: "graphml" },
+  dot: { contentType: "text/vnd.graphviz", extension: "dot" },
+  mermaid: { contentType: "text/vnd.mermaid", extension: "mmd" },
+  cypher: { contentType: "application/x-cypher-query", extension: "cypher" },
+  jsonl: { contentType: "application/x-ndjson", extension: "jsonl" },
+};
+
+// Rows read per storage query, and items serialized per emitted chunk
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = 200;
+
+const streamHandler = new StreamHandler();
+
+interface GraphFormatter {
+  header: string;
+  footer: string;
+  /** Identifier the format uses for a node; entity IDs unless the format needs simple names */
+  nodeKey?: (index: number) => string;
+  node(entity: Entity, key: string): string;
+  edge(relationship: Relationship, fromKey: string, toKey: string): string;
+}
+
+export interface GraphExport {
+  contentType: string;
+  extension: string;
+  /** Counts, complete once `chunks` is exhausted */
+  stats: GraphExportStats;
+  chunks: AsyncGenerator<string, void, undefined>;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+function cypherIdentifier(value: string, separator: "" | "_"): string {
+  const words = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const joined =
+    separator === ""
+      ? words.map((word) => word[0]!.toUpperCase() + word.slice(1)).join("")
+      : words.map((word) => word.toUpperCase()).join("_");
+  return /^[A-Za-z]/.test(joined) ? joined : `T${joined}`;
+}
+
+function cypherMap(properties: Record<string, unknown>): string {
+  const entries = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `{${entries.join(", ")}}`;
+}
+
+function entityLine(entity: Entity): number | undefined {
+  return entity.location?.start?.line;
+}
+
+function relationshipLine(relationship: Relationship): number | undefined {
+  return relationship.metadata?.line;
+}
+
+const FORMATTERS: Record<GraphExportFormat, GraphFormatter> = {
+  graphml: {
+    header: [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+      '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+      '  <key id="filePath" for="node" attr.name="filePath" attr.type="string"/>',
+      '  <key id="line" for="node" attr.name="line" attr.type="int"/>',
+      '  <key id="product" for="node" attr.name="product_id" attr.type="string"/>',
+      '  <key id="relation" for="edge" attr.name="type" attr.type="string"/>',
+      '  <graph id="code-graph" edgedefault="directed">',
+      "",
+    ].join("\n"),
+    footer: "  </graph>\n</graphml>\n",
+    node: (entity, key) => {
+      const data: Array<[string, unknown]> = [
+        ["name", entity.name],
+        ["type", entity.type],
+        ["filePath", entity.filePath],
+        ["line", entityLine(entity)],
+        ["product", entity.project_id],
+      ];
+      const fields = data
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([name, value]) => `<data key="${name}">${escapeXml(String(value))}</data>`)
+        .join("");
+      return `    <node id="${escapeXml(key)}">${fields}</node>\n`;
+    },
+    edge: (relationship, fromKey, toKey) =>
+      `    <edge id="${escapeXml(relationship.id)}" source="${escapeXml(fromKey)}" target="${escapeXml(toKey)}">` +
+      `<data key="relation">${escapeXml(relationship.type)}</data></edge>\n`,
+  },
+
+  dot: {
+    header: "digraph code_graph {\n  rankdir=LR;\n  node [shape=box];\n",
+    footer: "}\n",
+    node: (entity, key) =>
+      `  ${quoteDot(key)} [label=${quoteDot(`${entity.name}\n${entity.type}`)}, tooltip=${quoteDot(entity.filePath)}];\n`,
+    edge: (relationship, fromKey, toKey) =>
+      `  ${quoteDot(fromKey)} -> ${quoteDot(toKey)} [label=${quoteDot(relationship.type)}];\n`,
+  },
+
+  mermaid: {
+    header: "flowchart LR\n",
+    footer: "",
+    // Mermaid node IDs cannot hold the characters entity IDs use
+    nodeKey: (index) => `n${index}`,
+    node: (entity, key) => `  ${key}["${`${entity.name} (${entity.type})`.replace(/"/g, "#quot;")}"]\n`,
+    edge: (relationship, fromKey, toKey) => `  ${fromKey} -->|${relationship.type.replace(/[|"]/g, "_")}| ${toKey}\n`,
+  },
+
+  cypher: {
+    header: "// Code graph export: run in an empty database or scope the MATCH clauses\n",
+    footer: "",
+    node: (entity, key) =>
+      `CREATE (:Entity:${cypherIdentifier(entity.type, "")} ${cypherMap({
+        id: key,
+        name: entity.name,
+        type: entity.type,
+        filePath: entity.filePath,
+        line: entityLine(entity),
+        product_id: entity.project_id,
+      })});\n`,
+    edge: (relationship, fromKey, toKey) =>
+      `MATCH (a:Entity {id: ${JSON.stringify(fromKey)}}), (b:Entity {id: ${JSON.stringify(toKey)}}) ` +
+      `CREATE (a)-[:${cypherIdentifier(relationship.type, "_")} ${cypherMap({
+        id: relationship.id,
+        line: relationshipLine(relationship),
+      })}]->(b);\n`,
+  },
+
+  jsonl: {
+    header: "",
+    footer: "",
+    node: (entity, key) =>
+      `${JSON.stringify({
+        kind: "node",
+        id: key,
+        name: entity.name,
+        type: entity.type,
+        filePath: entity.filePath,
+        line: entityLine(entity),
+        product_id: entity.project_id,
+      })}\n`,
+    edge: (relationship, fromKey, toKey) =>
+      `${JSON.stringify({
+        kind: "edge",
+        id: relationship.id,
+        from: fromKey,
+        to: toKey,
+        type: relationship.type,
+        line: relationshipLine(relationship),
+      })}\n`,
+  },
+};
+
+function entityFilter(options: GraphExportOptions): (entity: Entity) => boolean {
+  const glob = options.pathGlob ? globToRegExp(options.pathGlob) : null;
+  const types = options.entityTypes?.length ? new Set(options.entityTypes) : null;
+  const { rootDir, product_id } = options;
+
+  return (entity) => {
+    if (entity.filePath.startsWith("external://")) return false;
+    if (product_id && entity.project_id !== product_id) return false;
+    if (types && !types.has(entity.type)) return false;
+    if (glob) {
+      const fromRoot = rootDir ? relative(rootDir, entity.filePath) : "";
+      const path = rootDir && !fromRoot.startsWith("..") && !isAbsolute(fromRoot) ? fromRoot : entity.filePath;
+      if (!glob.test(path.split(sep).join("/"))) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Page through a storage query until a short page comes back
+ */
+async function* paged<T>(fetch: (offset: number) => Promise<T[]>): AsyncGenerator<T> {
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await fetch(offset);
+    yield* page;
+    if (page.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Export the graph in the requested format as a stream of text chunks
+ */
+export function createGraphExport(storage: GraphStorageImpl, options: GraphExportOptions): GraphExport {
+  const formatter = FORMATTERS[options.format];
+  const stats: GraphExportStats = { format: options.format, entities: 0, relationships: 0, truncated: false };
+  const streamOptions = { batchSize: BATCH_SIZE, highWaterMark: BATCH_SIZE };
+  const relationshipTypes = options.relationshipTypes?.length ? new Set(options.relationshipTypes) : null;
+  const keep = entityFilter(options);
+
+  async function* chunks(): AsyncGenerator<string, void, undefined> {
+    let entities: AsyncIterable<Entity> | Entity[];
+    let relationships: AsyncIterable<Relationship> | Relationship[];
+
+    if (options.rootEntityId) {
+      const subgraph = await storage.getSubgraph(
+        options.rootEntityId,
+        options.depth ?? DEFAULT_EXPORT_DEPTH,
+        options.product_id,
+      );
+      entities = subgraph.entities;
+      relationships = subgraph.relationships;
+    } else {
+      entities = paged((offset) =>
+        storage.findEntities({
+          type: "entity",
+          filters: {
+            product_id: options.product_id,
+            entityType: options.entityTypes as EntityType[] | undefined,
+          },
+          limit: PAGE_SIZE,
+          offset,
+        }),
+      );
+      relationships = paged((offset) =>
+        storage.findRelationships({
+          type: "relationship",
+          filters: {
+            product_id: options.product_id,
+            relationshipType: options.relationshipTypes as RelationType[] | undefined,
+          },
+          limit: PAGE_SIZE,
+          offset,
+        }),
+      );
+    }
+
+    yield formatter.header;
+
+    // Entity ID -> node key in the output; edges are only written between exported nodes
+    const keys = new Map<string, string>();
+    nodes: for await (const batch of streamHandler.streamResults(entities, streamOptions)) {
+      let text = "";
+      for (const entity of batch) {
+        if (!keep(entity) || keys.has(entity.id)) continue;
+        if (options.maxEntities !== undefined && keys.size >= options.maxEntities) {
+          stats.truncated = true;
+          if (text) yield text;
+          break nodes;
+        }
+        const key = formatter.nodeKey?.(keys.size) ?? entity.id;
+        keys.set(entity.id, key);
+        text += formatter.node(entity, key);
+      }
+      stats.entities = keys.size;
+      if (text) yield text;
+    }
+    stats.entities = keys.size;
+
+    for await (const batch of streamHandler.streamResults(relationships, streamOptions)) {
+      let text = "";
+      for (const relationship of batch) {
+        if (relationshipTypes && !relationshipTypes.has(relationship.type)) continue;
+        const fromKey = keys.get(relationship.fromId);
+        const toKey = keys.get(relationship.toId);
+        if (!fromKey || !toKey) continue;
+        text += formatter.edge(relationship, fromKey, toKey);
+        stats.relationships++;
+      }
+      if (text) yield text;
+    }
+
+    if (formatter.footer) yield formatter.footer;
+  }
+
+  return { ...GRAPH_EXPORT_MEDIA_TYPES[options.format], stats, chunks: chunks() };
+}
+
+/**
+ * Export into a single string (tool responses); large exports should stream `createGraphExport`
+ */
+export async function exportGraphToString(
+  storage: GraphStorageImpl,
+  options: GraphExportOptions,
+): Promise<{ content: string; contentType: string; stats: GraphExportStats }> {
+  const graphExport = createGraphExport(storage, options);
+  let content = "";
+  for await (const chunk of graphExport.chunks) content += chunk;
+  return { content, contentType: graphExport.contentType, stats: graphExport.stats };
+}
@@ -1,7 +1,13 @@
+import { createHash } from "node:crypto";
 import { extname } from "node:path";
 
+import { IgnoreRules } from "../core/ignore-rules.js";
+import { TreeSitterParser } from "../parsers/tree-sitter-parser.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type { Entity } from "../types/storage.js";
 import { getDefaultOptions, type IClone, type IOptions } from "../vendor/jscpd";
-import { type EntryWithContent, getFilesToDetect } from "../vendor/jscpd/files";
+import { type EntryWithContent, type ExcludeFilter, getFilesToDetect } from "../vendor/jscpd/files";
+import { type CloneToken, tokenizeForClones } from "./clone-tokenizer.js";
 
 type NumericOption = number | undefined | null;
 
@@ -12,11 +18,23 @@ export interface JscpdRunOptions {
   formats?: string[];
   minLines?: NumericOption;
   maxLines?: NumericOption;
+  /** Minimum syntax tokens per clone */
   minTokens?: NumericOption;
   ignoreCase?: boolean;
+  /** Skip what `.gitignore`, `.git/info/exclude` and `.codegraphignore` exclude (default true) */
+  gitignore?: boolean;
+  /** Compare identifiers and literals as placeholders so renamed copies match (Type-2, default true) */
+  normalize?: boolean;
+  /** Unmatched tokens allowed between matching runs of a gapped (Type-3) clone; 0 disables (default 5) */
+  maxGap?: NumericOption;
+  /** Minimum share of matching tokens for a gapped clone, 0-1 (default 0.8) */
+  minSimilarity?: NumericOption;
 }
 
-type StatisticRow = {
+/** 1: exact copy, 2: copy with renamed identifiers or changed literals, 3: copy with added or removed code */
+export type CloneType = 1 | 2 | 3;
+
+export type StatisticRow = {
   lines: number;
   tokens: number;
   sources: number;
@@ -29,7 +47,7 @@ type StatisticRow = {
   newClones: number;
 };
 
-type Statistic = {
+export type Statistic = {
   detectionDate: string;
   total: StatisticRow;
   formats: Record<
@@ -41,28 +59,38 @@ type Statistic = {
   >;
 };
 
-type TokenLine = {
-  text: string;
-  line: number;
-  startColumn: number;
-  endColumn: number;
-  startPosition: number;
-  endPosition: number;
+type SourceFile = {
+  entry: EntryWithContent;
+  tokens: CloneToken[];
+  /** Token values interned as numbers for hashing and comparison */
+  ids: number[];
+  format: string;
 };
 
-type WindowOccurrence = {
-  sourceId: string;
-  format: string;
-  startLine: number;
-  endLine: number;
-  startColumn: number;
-  endColumn: number;
-  startPosition: number;
-  endPosition: number;
+/** Equal token runs between two files; `a` and `b` are token indexes */
+type TokenMatch = { a: number; b: number; length: number };
+
+/** Matching runs joined across small gaps; ends are exclusive token indexes */
+type CloneChain = {
+  fileA: number;
+  fileB: number;
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+  matched: number;
+  gapped: boolean;
 };
 
 const NEWLINE = /\r?\n/;
 
+export const DEFAULT_MAX_GAP = 5;
+export const DEFAULT_MIN_SIMILARITY = 0.8;
+
+// Occurrences compared per seed; a sequence repeated more often than this is boilerplate
+const MAX_SEED_OCCURRENCES = 64;
+const HASH_BASE = 0x01000193;
+
 const createEmptyStatisticRow = (): StatisticRow => ({
   lines: 0,
   tokens: 0,
@@ -97,48 +125,13 @@ export function buildJscpdOptions(options: JscpdRunOptions): IOptions {
     maxLines: options.maxLines != null ? Number(options.maxLines) : defaults.maxLines,
     minTokens: minTokens > 0 ? minTokens : 1,
     ignoreCase: options.ignoreCase ?? defaults.ignoreCase,
+    gitignore: options.gitignore ?? true,
     absolute: true,
     silent: true,
   };
 }
 
-function normalizeLine(line: string, ignoreCase: boolean): string {
-  const normalized = line.replace(/\s+/g, " ").trim();
-  return ignoreCase ? normalized.toLowerCase() : normalized;
-}
-
-function tokenizeContent(entry: EntryWithContent, options: IOptions): TokenLine[] {
-  const lines = entry.content.split(NEWLINE);
-  const tokens: TokenLine[] = [];
-  let position = 0;
-
-  for (let index = 0; index < lines.length; index++) {
-    const original = lines[index] ?? "";
-    const normalized = normalizeLine(original, options.ignoreCase ?? false);
-    const startColumn = Math.max(original.search(/\S/), 0);
-    const endColumn = startColumn >= 0 ? original.length : 0;
-    const startPosition = position + Math.max(startColumn, 0);
-    const endPosition = position + original.length;
-
-    tokens.push({
-      text: normalized,
-      line: index + 1,
-      startColumn: startColumn >= 0 ? startColumn : 0,
-      endColumn,
-      startPosition,
-      endPosition,
-    });
-
-    position += original.length + 1;
-  }
-
-  return tokens;
-}
-
-function buildStatistic(
-  files: Array<{ entry: EntryWithContent; tokens: TokenLine[]; format: string }>,
-  clones: IClone[],
-): Statistic {
+function buildStatistic(files: SourceFile[], details: JscpdCloneDetail[]): Statistic {
   const statistic = createEmptyStatistic();
 
   for (const { entry, tokens, format } of files) {
@@ -168,28 +161,26 @@ function buildStatistic(
     sourceStat.tokens += fileTokens;
   }
 
-  const accumulateClone = (statRow: StatisticRow, clone: IClone) => {
+  const accumulateClone = (statRow: StatisticRow, detail: JscpdCloneDetail) => {
+    const { clone } = detail;
     const lines = Math.max(
       clone.duplicationA.end.line - clone.duplicationA.start.line,
       clone.duplicationB.end.line - clone.duplicationB.start.line,
       1,
     );
-    const tokens =
-      clone.duplicationA.range[1] -
-      clone.duplicationA.range[0] +
-      (clone.duplicationB.range[1] - clone.duplicationB.range[0]);
 
     statRow.clones += 1;
     statRow.duplicatedLines += lines;
     statRow.newDuplicatedLines += lines;
-    statRow.duplicatedTokens += Math.max(tokens, 0);
+    statRow.duplicatedTokens += detail.tokens.a + detail.tokens.b;
     statRow.newClones += 1;
   };
 
-  for (const clone of clones) {
+  for (const detail of details) {
+    const { clone } = detail;
     const format = clone.format;
     statistic.total.clones += 1;
-    accumulateClone(statistic.total, clone);
+    accumulateClone(statistic.total, detail);
 
     if (!statistic.formats[format]) {
       statistic.formats[format] = {
@@ -199,7 +190,7 @@ function buildStatistic(
     }
 
     const formatStat = statistic.formats[format];
-    accumulateClone(formatStat.total, clone);
+    accumulateClone(formatStat.total, detail);
 
     const { sourceId: sourceA } = clone.duplicationA;
     const { sourceId: sourceB } = clone.duplicationB;
@@ -211,8 +202,8 @@ function buildStatistic(
       formatStat.sources[sourceB] = createEmptyStatisticRow();
     }
 
-    accumulateClone(formatStat.sources[sourceA], clone);
-    accumulateClone(formatStat.sources[sourceB], clone);
+    accumulateClone(formatStat.sources[sourceA], detail);
+    accumulateClone(formatStat.sources[sourceB], detail);
   }
 
   const calculatePercentage = (duplicated: number, total: number): number => {
@@ -236,106 +227,127 @@ function buildStatistic(
   return statistic;
 }
 
-function buildClone(a: WindowOccurrence, b: WindowOccurrence): IClone {
-  return {
-    format: a.format,
-    foundDate: Date.now(),
-    duplicationA: {
-      sourceId: a.sourceId,
-      start: { line: a.startLine, column: a.startColumn, position: a.startPosition },
-      end: { line: a.endLine, column: a.endColumn, position: a.endPosition },
-      range: [a.startPosition, a.endPosition],
-    },
-    duplicationB: {
-      sourceId: b.sourceId,
-      start: { line: b.startLine, column: b.startColumn, position: b.startPosition },
-      end: { line: b.endLine, column: b.endColumn, position: b.endPosition },
-      range: [b.startPosition, b.endPosition],
-    },
-  };
+function internTokens(files: Array<Omit<SourceFile, "ids">>): SourceFile[] {
+  const interned = new Map<string, number>();
+  return files.map((file) => ({
+    ...file,
+    ids: file.tokens.map((token) => {
+      let id = interned.get(token.value);
+      if (id === undefined) {
+        id = interned.size + 1;
+        interned.set(token.value, id);
+      }
+      return id;
+    }),
+  }));
 }
 
-function slidingWindowOccurrences(tokens: TokenLine[], windowSize: number): Array<[string, WindowOccurrence]> {
-  const windows: Array<[string, WindowOccurrence]> = [];
-
-  if (tokens.length < windowSize) {
-    return windows;
-  }
-
-  for (let index = 0; index <= tokens.length - windowSize; index++) {
-    const slice = tokens.slice(index, index + windowSize);
-    const key = slice.map((token) => token.text).join("\n");
-    const start = slice[0]!;
-    const end = slice[slice.length - 1]!;
-
-    windows.push([
-      key,
-      {
-        sourceId: "",
-        format: "",
-        startLine: start.line,
-        endLine: end.line,
-        startColumn: start.startColumn,
-        endColumn: end.endColumn,
-        startPosition: start.startPosition,
-        endPosition: end.endPosition,
-      },
-    ]);
-  }
+/**
+ * Index every run of `seed` tokens by a rolling hash; returns [file, token index] occurrences per hash
+ */
+function indexSeeds(files: SourceFile[], seed: number): Map<number, Array<[number, number]>> {
+  const seeds = new Map<number, Array<[number, number]>>();
+  let power = 1;
+  for (let k = 1; k < seed; k++) power = Math.imul(power, HASH_BASE);
+
+  files.forEach(({ ids }, file) => {
+    if (ids.length < seed) return;
+    let hash = 0;
+    for (let k = 0; k < seed; k++) hash = (Math.imul(hash, HASH_BASE) + ids[k]!) | 0;
+
+    for (let index = 0; index + seed <= ids.length; index++) {
+      if (index > 0) {
+        hash = (Math.imul(hash - Math.imul(ids[index - 1]!, power), HASH_BASE) + ids[index + seed - 1]!) | 0;
+      }
+      const occurrences = seeds.get(hash);
+      if (!occurrences) seeds.set(hash, [[file, index]]);
+      else if (occurrences.length < MAX_SEED_OCCURRENCES) occurrences.push([file, index]);
+    }
+  });
 
-  return windows;
+  return seeds;
 }
 
-function groupOccurrences(
-  files: Array<{ entry: EntryWithContent; tokens: TokenLine[]; format: string }>,
-  windowSize: number,
-): Map<string, WindowOccurrence[]> {
-  const map = new Map<string, WindowOccurrence[]>();
-
-  for (const file of files) {
-    const windows = slidingWindowOccurrences(file.tokens, windowSize);
-
-    for (const [key, occurrence] of windows) {
-      occurrence.sourceId = file.entry.path;
-      occurrence.format = file.format;
-
-      const existing = map.get(key);
-      if (existing) {
-        existing.push(occurrence);
-      } else {
-        map.set(key, [occurrence]);
+/**
+ * Maximal equal token runs of at least `seed` tokens, keyed by file pair
+ */
+function findMatches(files: SourceFile[], seed: number): Map<string, TokenMatch[]> {
+  const matches = new Map<string, TokenMatch[]>();
+
+  for (const occurrences of indexSeeds(files, seed).values()) {
+    for (let p = 0; p < occurrences.length - 1; p++) {
+      for (let q = p + 1; q < occurrences.length; q++) {
+        const [fileA, a] = occurrences[p]!;
+        const [fileB, b] = occurrences[q]!;
+        const idsA = files[fileA]!.ids;
+        const idsB = files[fileB]!.ids;
+        if (fileA === fileB && b < a + seed) continue;
+        // Runs that extend to the left were found from an earlier seed
+        if (a > 0 && b > 0 && idsA[a - 1] === idsB[b - 1]) continue;
+
+        let length = 0;
+        while (length < seed && idsA[a + length] === idsB[b + length]) length++;
+        if (length < seed) continue;
+
+        const limit = fileA === fileB ? b - a : Number.POSITIVE_INFINITY;
+        while (length < limit && a + length < idsA.length && idsA[a + length] === idsB[b + length]) length++;
+
+        const key = `${fileA}:${fileB}`;
+        const list = matches.get(key);
+        if (list) list.push({ a, b, length });
+        else matches.set(key, [{ a, b, length }]);
       }
     }
   }
 
-  return map;
+  return matches;
 }
 
-function detectClonePairs(grouped: Map<string, WindowOccurrence[]>): IClone[] {
-  const clones: IClone[] = [];
+/**
+ * Join matching runs separated by at most `maxGap` unmatched tokens on either side (Type-3 clones)
+ */
+function chainMatches(fileA: number, fileB: number, matches: TokenMatch[], maxGap: number): CloneChain[] {
+  const finished: CloneChain[] = [];
+  let open: CloneChain[] = [];
+
+  matches.sort((x, y) => x.a - y.a || x.b - y.b);
+  for (const match of matches) {
+    // Chains ending too far before this match cannot grow any more
+    open = open.filter((chain) => {
+      if (match.a - chain.aEnd <= maxGap) return true;
+      finished.push(chain);
+      return false;
+    });
 
-  for (const occurrences of grouped.values()) {
-    if (occurrences.length < 2) continue;
+    let best: CloneChain | undefined;
+    for (const chain of open) {
+      const gapA = match.a - chain.aEnd;
+      const gapB = match.b - chain.bEnd;
+      if (gapA < 0 || gapB < 0 || gapA > maxGap || gapB > maxGap) continue;
+      if (fileA === fileB && match.a + match.length > chain.bStart) continue;
+      if (!best || chain.matched > best.matched) best = chain;
+    }
 
-    for (let i = 0; i < occurrences.length - 1; i++) {
-      for (let j = i + 1; j < occurrences.length; j++) {
-        const first = occurrences[i]!;
-        const second = occurrences[j]!;
-        if (first.sourceId === second.sourceId && first.startLine === second.startLine) {
-          continue;
-        }
-        clones.push(buildClone(first, second));
-      }
+    if (best) {
+      best.aEnd = match.a + match.length;
+      best.bEnd = match.b + match.length;
+      best.matched += match.length;
+      best.gapped = true;
+    } else {
+      open.push({
+        fileA,
+        fileB,
+        aStart: match.a,
+        aEnd: match.a + match.length,
+        bStart: match.b,
+        bEnd: match.b + match.length,
+        matched: match.length,
+        gapped: false,
+      });
     }
   }
 
-  return clones;
-}
-
-function computeWindowSize(options: IOptions): number {
-  const minTokens = options.minTokens ?? 50;
-  const minLines = options.minLines ?? 5;
-  return Math.max(minTokens, minLines, 1);
+  return [...finished, ...open];
 }
 
 function determineFormat(path: string): string {
@@ -345,10 +357,41 @@ function determineFormat(path: string): string {
 
 export interface JscpdCloneDetail {
   clone: IClone;
+  type: CloneType;
+  /** Share of matching tokens across both fragments (1 unless the clone has gaps) */
+  similarity: number;
+  /** Syntax tokens in each fragment */
+  tokens: { a: number; b: number };
   snippetA: string;
   snippetB: string;
 }
 
+export interface JscpdCloneFragment {
+  sourceId: string;
+  startLine: number;
+  endLine: number;
+  tokens: number;
+  /** Hash of the fragment's normalized tokens */
+  fingerprint: string;
+  /** Indexed entities the fragment belongs to (the innermost enclosing one, else those it contains) */
+  entityIds: string[];
+}
+
+/**
+ * Fragments that are all copies of one another, joined through the clone pairs that link them
+ */
+export interface JscpdCloneClass {
+  /** Hash of the normalized tokens of the largest fragment; stable while the code is unchanged */
+  fingerprint: string;
+  /** Highest clone type among the pairs in the class */
+  type: CloneType;
+  /** Lowest pair similarity in the class */
+  similarity: number;
+  fragments: JscpdCloneFragment[];
+  /** Indexes into `summary.clones` */
+  clones: number[];
+}
+
 export interface JscpdCloneSummary {
   totalLinesAnalyzed: number;
   totalTokensAnalyzed: number;
@@ -357,22 +400,172 @@ export interface JscpdCloneSummary {
   duplicationPercentage: number;
   duplicationTokensPercentage: number;
   cloneCount: number;
+  cloneClassCount: number;
+  clonesByType: Record<`type${CloneType}`, number>;
   clones: JscpdCloneDetail[];
 }
 
 export interface JscpdCloneResult {
   clones: IClone[];
+  cloneClasses: JscpdCloneClass[];
   statistic: Statistic;
   summary: JscpdCloneSummary;
 }
 
-export async function runJscpdCloneDetection(options: JscpdRunOptions): Promise<JscpdCloneResult> {
+/**
+ * Ignore-file rules per scanned root. Only the ignore files apply: the index's default
+ * directory exclusions (tests, build output, ...) do not limit clone detection.
+ */
+function ignoreFileFilter(): ExcludeFilter {
+  const rulesByRoot = new Map<string, IgnoreRules>();
+  return (root, absolutePath, isDirectory) => {
+    let rules = rulesByRoot.get(root);
+    if (!rules) {
+      rules = new IgnoreRules(root, { defaultRules: false });
+      rulesByRoot.set(root, rules);
+    }
+    return rules.isIgnored(absolutePath, isDirectory);
+  };
+}
+
+function isRawCopy(files: SourceFile[], chain: CloneChain): boolean {
+  const tokensA = files[chain.fileA]!.tokens;
+  const tokensB = files[chain.fileB]!.tokens;
+  for (let offset = 0; offset < chain.aEnd - chain.aStart; offset++) {
+    if (tokensA[chain.aStart + offset]!.raw !== tokensB[chain.bStart + offset]!.raw) return false;
+  }
+  return true;
+}
+
+function buildClone(files: SourceFile[], chain: CloneChain): IClone {
+  const duplication = (file: number, start: number, end: number): IClone["duplicationA"] => {
+    const first = files[file]!.tokens[start]!;
+    const last = files[file]!.tokens[end - 1]!;
+    return {
+      sourceId: files[file]!.entry.path,
+      start: { line: first.line, column: first.column, position: first.position },
+      end: { line: last.endLine, column: last.endColumn, position: last.endPosition },
+      range: [first.position, last.endPosition],
+    };
+  };
+
+  return {
+    format: files[chain.fileA]!.format,
+    foundDate: Date.now(),
+    duplicationA: duplication(chain.fileA, chain.aStart, chain.aEnd),
+    duplicationB: duplication(chain.fileB, chain.bStart, chain.bEnd),
+  };
+}
+
+type FragmentSpan = { file: number; start: number; end: number };
+
+function spanFingerprint(files: SourceFile[], span: FragmentSpan): string {
+  const values = files[span.file]!.tokens.slice(span.start, span.end).map((token) => token.value);
+  return createHash("sha1").update(values.join("\u0000")).digest("hex").slice(0, 16);
+}
+
+/**
+ * Group clone pairs into classes: fragments connected through pairs, where overlapping fragments
+ * of one file count as the same code
+ */
+function buildCloneClasses(
+  files: SourceFile[],
+  chains: CloneChain[],
+  details: JscpdCloneDetail[],
+): Array<Omit<JscpdCloneClass, "fragments"> & { spans: FragmentSpan[] }> {
+  const spans: FragmentSpan[] = [];
+  const parent: number[] = [];
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]!]!;
+      node = parent[node]!;
+    }
+    return node;
+  };
+  const union = (x: number, y: number) => {
+    parent[find(x)] = find(y);
+  };
+
+  chains.forEach((chain, index) => {
+    spans.push({ file: chain.fileA, start: chain.aStart, end: chain.aEnd });
+    spans.push({ file: chain.fileB, start: chain.bStart, end: chain.bEnd });
+    parent.push(2 * index, 2 * index + 1);
+    union(2 * index, 2 * index + 1);
+  });
+
+  // Fragments of one file overlapping by at least half of the shorter one are the same code
+  const order = spans
+    .map((_, index) => index)
+    .sort((x, y) => spans[x]!.file - spans[y]!.file || spans[x]!.start - spans[y]!.start);
+  for (let i = 0; i < order.length; i++) {
+    const first = spans[order[i]!]!;
+    for (let j = i + 1; j < order.length; j++) {
+      const second = spans[order[j]!]!;
+      if (second.file !== first.file || second.start >= first.end) break;
+      const overlap = Math.min(first.end, second.end) - second.start;
+      const shorter = Math.min(first.end - first.start, second.end - second.start);
+      if (overlap * 2 >= shorter) union(order[i]!, order[j]!);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  chains.forEach((_, index) => {
+    const root = find(2 * index);
+    const members = groups.get(root);
+    if (members) members.push(index);
+    else groups.set(root, [index]);
+  });
+
+  return Array.from(groups.values()).map((members) => {
+    // One fragment per overlapping region of a file, spanning all of it
+    const merged: FragmentSpan[] = [];
+    const memberSpans = members
+      .flatMap((index) => [spans[2 * index]!, spans[2 * index + 1]!])
+      .sort((x, y) => x.file - y.file || x.start - y.start);
+    for (const span of memberSpans) {
+      const last = merged[merged.length - 1];
+      if (last && last.file === span.file && span.start < last.end) last.end = Math.max(last.end, span.end);
+      else merged.push({ ...span });
+    }
+
+    const largest = merged.reduce((best, span) => (span.end - span.start > best.end - best.start ? span : best));
+
+    return {
+      fingerprint: spanFingerprint(files, largest),
+      type: Math.max(...members.map((index) => details[index]!.type)) as CloneType,
+      similarity: Math.min(...members.map((index) => details[index]!.similarity)),
+      spans: merged,
+      clones: members,
+    };
+  });
+}
+
+function fragmentEntityIds(entities: Entity[], startLine: number, endLine: number): string[] {
+  const code = entities.filter((entity) => entity.type !== "import" && entity.type !== "export");
+  const enclosing = code
+    .filter((entity) => entity.location.start.line <= startLine && entity.location.end.line >= endLine)
+    .sort((x, y) => x.location.end.line - x.location.start.line - (y.location.end.line - y.location.start.line))[0];
+  if (enclosing) return [enclosing.id];
+  return code
+    .filter((entity) => entity.location.start.line >= startLine && entity.location.end.line <= endLine)
+    .map((entity) => entity.id);
+}
+
+/**
+ * Detect clones over syntax tokens. With `storage`, clone class fragments carry the IDs of the
+ * indexed entities they cover.
+ */
+export async function runJscpdCloneDetection(
+  options: JscpdRunOptions,
+  storage?: GraphStorageImpl,
+): Promise<JscpdCloneResult> {
   const jscpdOptions = buildJscpdOptions(options);
-  const entries = getFilesToDetect(jscpdOptions);
+  const entries = getFilesToDetect(jscpdOptions, jscpdOptions.gitignore ? ignoreFileFilter() : undefined);
 
   if (entries.length === 0) {
     return {
       clones: [],
+      cloneClasses: [],
       statistic: createEmptyStatistic(),
       summary: {
         totalLinesAnalyzed: 0,
@@ -382,21 +575,73 @@ export async function runJscpdCloneDetection(options: JscpdRunOptions): Promise<
         duplicationPercentage: 0,
         duplicationTokensPercentage: 0,
         cloneCount: 0,
+        cloneClassCount: 0,
+        clonesByType: { type1: 0, type2: 0, type3: 0 },
         clones: [],
       },
     };
   }
 
-  const files = entries.map((entry) => {
-    const tokens = tokenizeContent(entry, jscpdOptions);
-    const format = determineFormat(entry.path);
-    return { entry, tokens, format };
-  });
+  const parser = new TreeSitterParser();
+  await parser.initialize();
+  const tokenizeOptions = { normalize: options.normalize ?? true, ignoreCase: jscpdOptions.ignoreCase ?? false };
+  const tokenized: Array<Omit<SourceFile, "ids">> = [];
+  for (const entry of entries) {
+    const tokens = await tokenizeForClones(parser, entry.path, entry.content, tokenizeOptions);
+    tokenized.push({ entry, tokens, format: determineFormat(entry.path) });
+  }
+  const files = internTokens(tokenized);
+
+  const minTokens = jscpdOptions.minTokens ?? 50;
+  const minLines = jscpdOptions.minLines ?? 1;
+  const maxLines = jscpdOptions.maxLines ?? Number.POSITIVE_INFINITY;
+  const maxGap = Math.max(Number(options.maxGap ?? DEFAULT_MAX_GAP), 0);
+  const minSimilarity = Number(options.minSimilarity ?? DEFAULT_MIN_SIMILARITY);
+  // Gapped clones are assembled from shorter exact runs
+  const seed = maxGap > 0 ? Math.max(Math.ceil(minTokens / 2), 1) : minTokens;
+
+  const chains: CloneChain[] = [];
+  const details: JscpdCloneDetail[] = [];
+  for (const [key, matches] of findMatches(files, seed)) {
+    const [fileA, fileB] = key.split(":").map(Number) as [number, number];
+    for (const chain of chainMatches(fileA, fileB, matches, maxGap)) {
+      const tokensA = chain.aEnd - chain.aStart;
+      const tokensB = chain.bEnd - chain.bStart;
+      if (Math.max(tokensA, tokensB) < minTokens) continue;
+      const similarity = Math.round(((2 * chain.matched) / (tokensA + tokensB)) * 100) / 100;
+      if (similarity < minSimilarity) continue;
+
+      const clone = buildClone(files, chain);
+      const lines = Math.max(
+        clone.duplicationA.end.line - clone.duplicationA.start.line + 1,
+        clone.duplicationB.end.line - clone.duplicationB.start.line + 1,
+      );
+      if (lines < minLines || lines > maxLines) continue;
+
+      chains.push(chain);
+      details.push({
+        clone,
+        type: chain.gapped ? 3 : isRawCopy(files, chain) ? 1 : 2,
+        similarity,
+        tokens: { a: tokensA, b: tokensB },
+        snippetA: "",
+        snippetB: "",
+      });
+    }
+  }
 
-  const windowSize = computeWindowSize(jscpdOptions);
-  const grouped = groupOccurrences(files, windowSize);
-  const clones = detectClonePairs(grouped);
-  const statistic = buildStatistic(files, clones);
+  // Report clones in file order
+  const order = chains
+    .map((_, index) => index)
+    .sort((x, y) => {
+      const a = chains[x]!;
+      const b = chains[y]!;
+      return a.fileA - b.fileA || a.aStart - b.aStart || a.fileB - b.fileB || a.bStart - b.bStart;
+    });
+  const sortedChains = order.map((index) => chains[index]!);
+  const cloneDetails = order.map((index) => details[index]!);
+  const clones = cloneDetails.map((detail) => detail.clone);
+  const statistic = buildStatistic(files, cloneDetails);
 
   const linesByPath = new Map<string, string[]>();
   for (const { entry } of files) {
@@ -411,11 +656,36 @@ export async function runJscpdCloneDetection(options: JscpdRunOptions): Promise<
     return lines.slice(adjustedStart, adjustedEnd).join("\n");
   };
 
-  const cloneDetails: JscpdCloneDetail[] = clones.map((clone) => ({
-    clone,
-    snippetA: excerpt(clone.duplicationA.sourceId, clone.duplicationA.start.line, clone.duplicationA.end.line),
-    snippetB: excerpt(clone.duplicationB.sourceId, clone.duplicationB.start.line, clone.duplicationB.end.line),
-  }));
+  for (const detail of cloneDetails) {
+    const { duplicationA, duplicationB } = detail.clone;
+    detail.snippetA = excerpt(duplicationA.sourceId, duplicationA.start.line, duplicationA.end.line);
+    detail.snippetB = excerpt(duplicationB.sourceId, duplicationB.start.line, duplicationB.end.line);
+  }
+
+  const entitiesByPath = new Map<string, Entity[]>();
+  const cloneClasses: JscpdCloneClass[] = [];
+  for (const { spans, ...cloneClass } of buildCloneClasses(files, sortedChains, cloneDetails)) {
+    const fragments: JscpdCloneFragment[] = [];
+    for (const span of spans) {
+      const { entry, tokens } = files[span.file]!;
+      const startLine = tokens[span.start]!.line;
+      const endLine = tokens[span.end - 1]!.endLine;
+      let entities = entitiesByPath.get(entry.path);
+      if (storage && !entities) {
+        entities = await storage.getEntitiesByFile(entry.path);
+        entitiesByPath.set(entry.path, entities);
+      }
+      fragments.push({
+        sourceId: entry.path,
+        startLine,
+        endLine,
+        tokens: span.end - span.start,
+        fingerprint: spanFingerprint(files, span),
+        entityIds: entities ? fragmentEntityIds(entities, startLine, endLine) : [],
+      });
+    }
+    cloneClasses.push({ ...cloneClass, fragments });
+  }
 
   const summary: JscpdCloneSummary = {
     totalLinesAnalyzed: statistic.total.lines,
@@ -425,11 +695,18 @@ export async function runJscpdCloneDetection(options: JscpdRunOptions): Promise<
     duplicationPercentage: statistic.total.percentage,
     duplicationTokensPercentage: statistic.total.percentageTokens,
     cloneCount: clones.length,
+    cloneClassCount: cloneClasses.length,
+    clonesByType: {
+      type1: cloneDetails.filter((detail) => detail.type === 1).length,
+      type2: cloneDetails.filter((detail) => detail.type === 2).length,
+      type3: cloneDetails.filter((detail) => detail.type === 3).length,
+    },
     clones: cloneDetails,
   };
 
   return {
     clones,
+    cloneClasses,
     statistic,
     summary,
   };
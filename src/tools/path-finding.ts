@@ -0,0 +1,220 @@
+/**
+ * Path finding.
+ * Answers "how does A reach B" over the relationship graph: breadth-first search for the shortest
+ * path, extended to the k shortest loop-free paths with Yen's algorithm. Neighbours are loaded
+ * lazily from storage, so only the part of the graph the search touches is read. Paths never run
+ * through `external://` placeholders, which would otherwise connect unrelated code that happens to
+ * import the same package.
+ */
+
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import type { FoundPath, PathDirection, PathFindingOptions, PathHop, PathReport } from "../types/path-finding.js";
+import type { Entity, Relationship } from "../types/storage.js";
+import { citeEntity } from "./codebase-exploration.js";
+
+export const DEFAULT_PATH_DEPTH = 6;
+export const MAX_PATH_DEPTH = 12;
+export const DEFAULT_PATH_COUNT = 1;
+export const MAX_PATH_COUNT = 10;
+
+// Upper bound on entities expanded by one breadth-first search
+const MAX_EXPANSIONS = 20000;
+
+interface Step {
+  to: string;
+  relationship: Relationship;
+  direction: PathHop["direction"];
+}
+
+interface NodePath {
+  nodes: string[];
+  steps: Step[];
+}
+
+const pathKey = (nodes: string[]) => nodes.join("\u0000");
+const edgeKey = (from: string, to: string) => `${from}\u0000${to}`;
+
+/**
+ * Lazily loaded, filtered view of the relationship graph
+ */
+class PathGraph {
+  private readonly entities = new Map<string, Entity | null>();
+  private readonly adjacency = new Map<string, Step[]>();
+  expanded = 0;
+
+  constructor(
+    private readonly storage: GraphStorageImpl,
+    private readonly types: Set<string>,
+    private readonly direction: PathDirection,
+    private readonly product_id?: string,
+  ) {}
+
+  async entity(id: string): Promise<Entity | null> {
+    if (!this.entities.has(id)) this.entities.set(id, await this.storage.getEntity(id));
+    return this.entities.get(id) ?? null;
+  }
+
+  async steps(id: string, target: string): Promise<Step[]> {
+    let steps = this.adjacency.get(id);
+    if (!steps) {
+      this.expanded++;
+      steps = [];
+      const seen = new Set<string>();
+      for (const relationship of await this.storage.getRelationshipsForEntity(id, undefined, this.product_id)) {
+        if (this.types.size > 0 && !this.types.has(relationship.type)) continue;
+        const forward = relationship.fromId === id;
+        if (!forward && this.direction === "outgoing") continue;
+        const to = forward ? relationship.toId : relationship.fromId;
+        if (to === id || seen.has(to)) continue;
+        const neighbour = await this.entity(to);
+        if (!neighbour || (neighbour.filePath.startsWith("external://") && to !== target)) continue;
+        seen.add(to);
+        steps.push({ to, relationship, direction: forward ? "forward" : "backward" });
+      }
+      this.adjacency.set(id, steps);
+    }
+    return steps;
+  }
+
+  /**
+   * Breadth-first shortest path avoiding the given nodes and edges
+   */
+  async shortest(
+    source: string,
+    target: string,
+    maxDepth: number,
+    blockedNodes: Set<string>,
+    blockedEdges: Set<string>,
+  ): Promise<NodePath | null> {
+    const previous = new Map<string, { from: string; step: Step } | null>([[source, null]]);
+    let frontier = [source];
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        if (this.expanded >= MAX_EXPANSIONS && !this.adjacency.has(id)) continue;
+        for (const step of await this.steps(id, target)) {
+          if (previous.has(step.to) || blockedNodes.has(step.to) || blockedEdges.has(edgeKey(id, step.to))) continue;
+          previous.set(step.to, { from: id, step });
+          if (step.to === target) return this.unwind(previous, target);
+          next.push(step.to);
+        }
+      }
+      frontier = next;
+    }
+    return null;
+  }
+
+  private unwind(previous: Map<string, { from: string; step: Step } | null>, target: string): NodePath {
+    const nodes = [target];
+    const steps: Step[] = [];
+    for (let link = previous.get(target); link; link = previous.get(link.from)) {
+      nodes.unshift(link.from);
+      steps.unshift(link.step);
+    }
+    return { nodes, steps };
+  }
+}
+
+/**
+ * Yen's k shortest loop-free paths on top of the breadth-first search
+ */
+async function kShortestPaths(
+  graph: PathGraph,
+  source: string,
+  target: string,
+  k: number,
+  maxDepth: number,
+): Promise<NodePath[]> {
+  const first = await graph.shortest(source, target, maxDepth, new Set(), new Set());
+  if (!first) return [];
+
+  const accepted: NodePath[] = [first];
+  const candidates: NodePath[] = [];
+  const known = new Set([pathKey(first.nodes)]);
+
+  while (accepted.length < k) {
+    const last = accepted[accepted.length - 1]!;
+    for (let i = 0; i < last.nodes.length - 1; i++) {
+      const spur = last.nodes[i]!;
+      const rootNodes = last.nodes.slice(0, i + 1);
+      const rootKey = pathKey(rootNodes);
+
+      const blockedEdges = new Set<string>();
+      for (const path of accepted) {
+        if (path.nodes.length > i + 1 && pathKey(path.nodes.slice(0, i + 1)) === rootKey) {
+          blockedEdges.add(edgeKey(path.nodes[i]!, path.nodes[i + 1]!));
+        }
+      }
+      const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spurPath = await graph.shortest(spur, target, maxDepth - i, blockedNodes, blockedEdges);
+      if (!spurPath) continue;
+
+      const candidate = {
+        nodes: [...rootNodes, ...spurPath.nodes.slice(1)],
+        steps: [...last.steps.slice(0, i), ...spurPath.steps],
+      };
+      const key = pathKey(candidate.nodes);
+      if (!known.has(key)) {
+        known.add(key);
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.steps.length - b.steps.length);
+    accepted.push(candidates.shift()!);
+  }
+
+  return accepted;
+}
+
+/**
+ * Find up to k shortest paths from one entity to another, each hop carrying its file and line
+ */
+export async function findPaths(
+  storage: GraphStorageImpl,
+  from: Entity,
+  to: Entity,
+  options: PathFindingOptions = {},
+): Promise<PathReport> {
+  const start = Date.now();
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const direction = options.direction ?? "outgoing";
+  const maxDepth = Math.min(Math.max(options.maxDepth ?? DEFAULT_PATH_DEPTH, 1), MAX_PATH_DEPTH);
+  const k = Math.min(Math.max(options.k ?? DEFAULT_PATH_COUNT, 1), MAX_PATH_COUNT);
+
+  const graph = new PathGraph(storage, new Set(relationshipTypes), direction, options.product_id);
+  const nodePaths = from.id === to.id ? [] : await kShortestPaths(graph, from.id, to.id, k, maxDepth);
+
+  const paths: FoundPath[] = [];
+  for (const nodePath of nodePaths) {
+    const hops: PathHop[] = [];
+    for (let i = 0; i < nodePath.steps.length; i++) {
+      const step = nodePath.steps[i]!;
+      const hopFrom = (await graph.entity(nodePath.nodes[i]!))!;
+      const hopTo = (await graph.entity(step.to))!;
+      const origin = step.direction === "forward" ? hopFrom : hopTo;
+      hops.push({
+        from: citeEntity(hopFrom),
+        to: citeEntity(hopTo),
+        relationshipId: step.relationship.id,
+        relationshipType: step.relationship.type,
+        direction: step.direction,
+        filePath: origin.filePath,
+        line: step.relationship.metadata?.line ?? origin.location?.start?.line ?? 0,
+      });
+    }
+    paths.push({ length: hops.length, hops });
+  }
+
+  return {
+    from: citeEntity(from),
+    to: citeEntity(to),
+    found: paths.length > 0,
+    paths,
+    search: { relationshipTypes, direction, maxDepth, k, nodesExpanded: graph.expanded },
+    timeMs: Date.now() - start,
+  };
+}
@@ -0,0 +1,647 @@
+/**
+ * Cross-file symbol resolution.
+ * The indexer resolves relationship targets within one file and parks everything else on
+ * `external://<source>` placeholder entities. This pass runs after indexing and links those
+ * placeholders to the real entities using import data, tsconfig `paths`, Python package layouts,
+ * Go module paths and Java packages. Targets in third-party packages stay on their placeholders;
+ * targets that should exist in the repository but were not found are reported as unresolved.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, isAbsolute, join, resolve, sep } from "node:path";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import { type Entity, EntityType, type Relationship } from "../types/storage.js";
+import type {
+  ResolutionStrategy,
+  SymbolResolutionOptions,
+  SymbolResolutionReport,
+  UnresolvedSymbol,
+} from "../types/symbol-resolution.js";
+
+export const DEFAULT_MAX_UNRESOLVED = 200;
+
+const MAX_REEXPORT_DEPTH = 5;
+const MAX_ANCESTOR_DEPTH = 12;
+
+const JS_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs", ".mts", ".cts"];
+const JS_FAMILY = new Set([".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".mts", ".cts"]);
+
+// Entity kinds that never stand for a declaration of the symbol they are named after
+const NON_DECLARATION_TYPES = new Set(["import", "export"]);
+// Member-level entities rank below top-level declarations with the same name
+const MEMBER_TYPES = new Set(["method", "property", "field", "parameter"]);
+
+type LanguageFamily = "javascript" | "python" | "go" | "java" | "other";
+
+interface ModuleLocation {
+  files: string[];
+  strategy: ResolutionStrategy;
+}
+
+type Resolution =
+  | { kind: "resolved"; entity: Entity; strategy: ResolutionStrategy }
+  | { kind: "external" }
+  | { kind: "unresolved"; reason: UnresolvedSymbol["reason"]; candidates?: number };
+
+interface PlaceholderReference {
+  relationship: Relationship;
+  source: Entity;
+  placeholder: Entity;
+}
+
+interface TsConfigPaths {
+  baseDir: string;
+  paths: Array<{ pattern: string; targets: string[] }>;
+}
+
+interface GoModule {
+  path: string;
+  dir: string;
+}
+
+/**
+ * In-memory view over the indexed entities used during one pass
+ */
+class SymbolIndex {
+  readonly byFile = new Map<string, Entity[]>();
+  readonly byName = new Map<string, Entity[]>();
+  readonly byDir = new Map<string, string[]>();
+
+  constructor(entities: Entity[]) {
+    for (const entity of entities) {
+      const inFile = this.byFile.get(entity.filePath);
+      if (inFile) {
+        inFile.push(entity);
+      } else {
+        this.byFile.set(entity.filePath, [entity]);
+        const dir = dirname(entity.filePath);
+        this.byDir.set(dir, [...(this.byDir.get(dir) ?? []), entity.filePath]);
+      }
+      if (!NON_DECLARATION_TYPES.has(entity.type)) {
+        this.byName.set(entity.name, [...(this.byName.get(entity.name) ?? []), entity]);
+      }
+    }
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.byFile.has(filePath);
+  }
+
+  files(): IterableIterator<string> {
+    return this.byFile.keys();
+  }
+}
+
+/**
+ * Maps module specifiers to indexed files, per language
+ */
+class ModuleLocator {
+  private tsConfigs = new Map<string, TsConfigPaths | null>();
+  private goModules = new Map<string, GoModule | null>();
+  private javaCache = new Map<string, string[]>();
+
+  constructor(
+    private readonly index: SymbolIndex,
+    private readonly rootDir?: string,
+  ) {}
+
+  locate(specifier: string, fromFile: string, language: LanguageFamily): ModuleLocation | null {
+    switch (language) {
+      case "javascript":
+        return this.locateJs(specifier, fromFile);
+      case "python":
+        return this.locatePython(specifier, fromFile);
+      case "go":
+        return this.locateGo(specifier, fromFile);
+      case "java":
+        return this.locateJava(specifier);
+      default:
+        return this.locateJs(specifier, fromFile);
+    }
+  }
+
+  private locateJs(specifier: string, fromFile: string): ModuleLocation | null {
+    if (specifier.startsWith(".") || isAbsolute(specifier)) {
+      const file = this.tryJsFile(resolve(dirname(fromFile), specifier));
+      return file ? { files: [file], strategy: "relative-import" } : null;
+    }
+
+    const config = this.loadTsConfig(dirname(fromFile));
+    if (!config) return null;
+
+    for (const { pattern, targets } of config.paths) {
+      const captured = matchPathPattern(pattern, specifier);
+      if (captured === null) continue;
+      for (const target of targets) {
+        const file = this.tryJsFile(resolve(config.baseDir, target.replace("*", captured)));
+        if (file) return { files: [file], strategy: "tsconfig-paths" };
+      }
+    }
+    const viaBaseUrl = this.tryJsFile(resolve(config.baseDir, specifier));
+    return viaBaseUrl ? { files: [viaBaseUrl], strategy: "tsconfig-paths" } : null;
+  }
+
+  private tryJsFile(base: string): string | null {
+    const candidates = [base];
+    const ext = extname(base);
+    if ([".js", ".jsx", ".mjs", ".cjs"].includes(ext)) {
+      // ESM sources import their compiled names: `./util.js` -> `./util.ts`
+      const stem = base.slice(0, -ext.length);
+      candidates.push(`${stem}.ts`, `${stem}.tsx`, `${stem}.mts`, `${stem}.cts`);
+    }
+    for (const extension of JS_EXTENSIONS) candidates.push(`${base}${extension}`);
+    for (const extension of JS_EXTENSIONS) candidates.push(join(base, `index${extension}`));
+    return candidates.find((candidate) => this.index.hasFile(candidate)) ?? null;
+  }
+
+  /**
+   * Nearest tsconfig.json / jsconfig.json with `baseUrl` or `paths` (following `extends`)
+   */
+  private loadTsConfig(dir: string): TsConfigPaths | null {
+    if (this.tsConfigs.has(dir)) return this.tsConfigs.get(dir) ?? null;
+
+    let config: TsConfigPaths | null = null;
+    for (const name of ["tsconfig.json", "jsconfig.json"]) {
+      const file = join(dir, name);
+      if (existsSync(file)) {
+        config = readTsConfigPaths(file, 0);
+        if (config) break;
+      }
+    }
+    if (!config && !this.isBoundary(dir)) {
+      config = this.loadTsConfig(dirname(dir));
+    }
+    this.tsConfigs.set(dir, config);
+    return config;
+  }
+
+  private locatePython(specifier: string, fromFile: string): ModuleLocation | null {
+    const dots = specifier.match(/^\.+/)?.[0].length ?? 0;
+    const modulePath = specifier.slice(dots).split(".").filter(Boolean).join(sep);
+
+    const roots: string[] = [];
+    if (dots > 0) {
+      let base = dirname(fromFile);
+      for (let i = 1; i < dots; i++) base = dirname(base);
+      roots.push(base);
+    } else {
+      // Absolute imports resolve against any ancestor acting as a source root (repo root, `src/`, ...)
+      let dir = dirname(fromFile);
+      for (let i = 0; i < MAX_ANCESTOR_DEPTH; i++) {
+        roots.push(dir);
+        if (this.isBoundary(dir)) break;
+        dir = dirname(dir);
+      }
+    }
+
+    for (const root of roots) {
+      const base = modulePath ? join(root, modulePath) : root;
+      for (const candidate of [`${base}.py`, `${base}.pyi`, join(base, "__init__.py")]) {
+        if (this.index.hasFile(candidate)) return { files: [candidate], strategy: "python-package" };
+      }
+    }
+    return null;
+  }
+
+  private locateGo(importPath: string, fromFile: string): ModuleLocation | null {
+    const module = this.findGoModule(dirname(fromFile));
+    if (!module) return null;
+    if (importPath !== module.path && !importPath.startsWith(`${module.path}/`)) return null;
+
+    const packageDir = join(module.dir, importPath.slice(module.path.length));
+    const files = (this.index.byDir.get(packageDir) ?? []).filter((file) => file.endsWith(".go"));
+    return files.length ? { files, strategy: "go-module" } : null;
+  }
+
+  private findGoModule(dir: string): GoModule | null {
+    if (this.goModules.has(dir)) return this.goModules.get(dir) ?? null;
+
+    let module: GoModule | null = null;
+    const goMod = join(dir, "go.mod");
+    if (existsSync(goMod)) {
+      const path = readFileSync(goMod, "utf8").match(/^module\s+(\S+)/m)?.[1];
+      if (path) module = { path, dir };
+    }
+    if (!module && !this.isBoundary(dir)) {
+      module = this.findGoModule(dirname(dir));
+    }
+    this.goModules.set(dir, module);
+    return module;
+  }
+
+  /**
+   * `com.acme.Foo` -> `.../com/acme/Foo.java`; `com.acme` (wildcard) -> every file of the package;
+   * static imports (`com.acme.Foo.bar`) fall back to the enclosing class
+   */
+  private locateJava(specifier: string): ModuleLocation | null {
+    const segments = specifier.split(".").filter((segment) => segment && segment !== "*");
+    while (segments.length) {
+      const relative = segments.join(sep);
+      const cached = this.javaCache.get(relative);
+      const files =
+        cached ??
+        [...this.index.files()].filter(
+          (file) => file.endsWith(`${sep}${relative}.java`) || dirname(file).endsWith(`${sep}${relative}`),
+        );
+      this.javaCache.set(relative, files);
+      if (files.length) return { files, strategy: "java-package" };
+      segments.pop();
+    }
+    return null;
+  }
+
+  private isBoundary(dir: string): boolean {
+    return dir === dirname(dir) || (!!this.rootDir && resolve(dir) === resolve(this.rootDir));
+  }
+}
+
+/**
+ * Link placeholder targets to indexed entities and report what could not be resolved
+ */
+export async function resolveCrossFileSymbols(
+  storage: GraphStorageImpl,
+  options: SymbolResolutionOptions = {},
+): Promise<SymbolResolutionReport> {
+  const startTime = Date.now();
+  const maxUnresolved = options.maxUnresolved ?? DEFAULT_MAX_UNRESOLVED;
+  const report: SymbolResolutionReport = {
+    placeholderReferences: 0,
+    resolved: 0,
+    byStrategy: {},
+    external: 0,
+    unresolvedCount: 0,
+    unresolved: [],
+    placeholdersRemoved: 0,
+    timeMs: 0,
+  };
+
+  const references = await storage.getPlaceholderReferences({
+    product_id: options.product_id,
+    fromFiles: options.filePaths,
+  });
+  report.placeholderReferences = references.length;
+  if (references.length === 0) {
+    report.timeMs = Date.now() - startTime;
+    return report;
+  }
+
+  const index = new SymbolIndex(await storage.getIndexedEntities(options.product_id));
+  const locator = new ModuleLocator(index, options.rootDir);
+  const resolver = new ReferenceResolver(index, locator, references);
+
+  const updates: Array<{ relationship: Relationship; toId: string; metadata?: Record<string, unknown> }> = [];
+  for (const reference of references) {
+    const resolution = resolver.resolve(reference);
+
+    if (resolution.kind === "resolved") {
+      updates.push({
+        relationship: reference.relationship,
+        toId: resolution.entity.id,
+        metadata: { ...reference.relationship.metadata, resolvedBy: resolution.strategy },
+      });
+      report.resolved++;
+      report.byStrategy[resolution.strategy] = (report.byStrategy[resolution.strategy] ?? 0) + 1;
+    } else if (resolution.kind === "external") {
+      report.external++;
+    } else {
+      report.unresolvedCount++;
+      if (report.unresolved.length < maxUnresolved) {
+        report.unresolved.push({
+          symbol: placeholderSymbol(reference.placeholder),
+          source: placeholderSource(reference.placeholder),
+          fromEntityId: reference.source.id,
+          fromEntity: reference.source.name,
+          filePath: reference.source.filePath,
+          relationshipType: reference.relationship.type,
+          reason: resolution.reason,
+          candidates: resolution.candidates,
+        });
+      }
+    }
+  }
+
+  if (updates.length) {
+    await storage.retargetRelationships(updates);
+    report.placeholdersRemoved = await storage.deleteUnreferencedPlaceholders();
+  }
+
+  report.timeMs = Date.now() - startTime;
+  return report;
+}
+
+/**
+ * Resolves one placeholder reference at a time; import hints are computed once per file
+ */
+class ReferenceResolver {
+  /** Module paths imported by each file through `imports` relationships (Go/Java analyzers) */
+  private importedModules = new Map<string, Array<{ path: string; wildcard: boolean }>>();
+
+  constructor(
+    private readonly index: SymbolIndex,
+    private readonly locator: ModuleLocator,
+    references: PlaceholderReference[],
+  ) {
+    for (const { relationship, source, placeholder } of references) {
+      if (relationship.type !== "imports") continue;
+      const entries = this.importedModules.get(source.filePath) ?? [];
+      entries.push({ path: placeholderSymbol(placeholder), wildcard: !!relationship.metadata?.isWildcard });
+      this.importedModules.set(source.filePath, entries);
+    }
+  }
+
+  resolve({ relationship, source, placeholder }: PlaceholderReference): Resolution {
+    const fromFile = source.filePath;
+    const language = languageFamily(fromFile);
+    const symbol = placeholderSymbol(placeholder);
+    const specifier = placeholderSource(placeholder);
+    const hasSpecifier = specifier !== "unknown" && specifier !== fromFile && !this.index.hasFile(specifier);
+
+    const result = hasSpecifier
+      ? this.resolveFromModule(specifier, symbol, fromFile, language)
+      : this.resolveWithoutModule(relationship, symbol, fromFile, language);
+
+    // Never turn a placeholder into a self-reference
+    if (result.kind === "resolved" && result.entity.id === relationship.fromId) {
+      return { kind: "unresolved", reason: "symbol-not-found" };
+    }
+    return result;
+  }
+
+  /**
+   * The analyzer recorded where the symbol comes from (`import { x } from "./y"`)
+   */
+  private resolveFromModule(specifier: string, symbol: string, fromFile: string, language: LanguageFamily): Resolution {
+    const location = this.locator.locate(specifier, fromFile, language);
+    if (!location) {
+      return isRelativeSpecifier(specifier) ? { kind: "unresolved", reason: "module-not-found" } : { kind: "external" };
+    }
+
+    const entity =
+      this.findExported(location.files, symbol, language, 0) ??
+      (this.isDefaultBinding(fromFile, specifier, symbol)
+        ? this.findExported(location.files, "default", language, 0)
+        : null);
+    return entity
+      ? { kind: "resolved", entity, strategy: location.strategy }
+      : { kind: "unresolved", reason: "symbol-not-found" };
+  }
+
+  /**
+   * Only the symbol is known: use the file's imports, its package, then a unique global match
+   */
+  private resolveWithoutModule(
+    relationship: Relationship,
+    symbol: string,
+    fromFile: string,
+    language: LanguageFamily,
+  ): Resolution {
+    // Go/Java/Python import edges name the module itself
+    if (relationship.type === "imports" && language !== "javascript" && language !== "other") {
+      const location = this.locator.locate(symbol, fromFile, language);
+      if (!location) return { kind: "external" };
+      const module = this.findModuleEntity(location.files, symbol.split(".").pop() ?? symbol);
+      return module
+        ? { kind: "resolved", entity: module, strategy: location.strategy }
+        : { kind: "unresolved", reason: "symbol-not-found" };
+    }
+
+    const dot = symbol.lastIndexOf(".");
+    const qualifier = dot > 0 ? symbol.slice(0, dot) : undefined;
+    const member = dot > 0 ? symbol.slice(dot + 1) : symbol;
+
+    const viaImport = this.resolveThroughImports(fromFile, qualifier, member, language);
+    if (viaImport) return viaImport;
+
+    if (language === "go" || language === "java") {
+      const samePackage = (this.index.byDir.get(dirname(fromFile)) ?? []).filter((file) => file !== fromFile);
+      const entity = this.findExported(samePackage, member, language, 0);
+      if (entity) return { kind: "resolved", entity, strategy: "same-package" };
+    }
+
+    const family = (this.index.byName.get(member) ?? []).filter(
+      (entity) => entity.filePath !== fromFile && languageFamily(entity.filePath) === language,
+    );
+    const best = rankCandidates(family);
+    if (best.length === 1 && best[0]) return { kind: "resolved", entity: best[0], strategy: "global-unique" };
+    if (best.length > 1) return { kind: "unresolved", reason: "ambiguous", candidates: best.length };
+    return { kind: "unresolved", reason: "symbol-not-found" };
+  }
+
+  private resolveThroughImports(
+    fromFile: string,
+    qualifier: string | undefined,
+    member: string,
+    language: LanguageFamily,
+  ): Resolution | null {
+    // Import entities carrying importData (TS/JS, Python)
+    for (const entity of this.index.byFile.get(fromFile) ?? []) {
+      const importData = entity.metadata?.importData;
+      if (entity.type !== "import" || !importData?.source) continue;
+
+      let target: string | undefined;
+      if (qualifier) {
+        const binding = importData.specifiers?.find((s: any) => s.local === qualifier);
+        const importsModule = importData.source === qualifier || importData.source.endsWith(`.${qualifier}`) || binding;
+        if (
+          importsModule &&
+          (!binding || binding.imported === "*" || binding.imported === "default" || !binding.imported)
+        ) {
+          target = member;
+        }
+      } else {
+        const binding = importData.specifiers?.find((s: any) => s.local === member);
+        if (binding) target = binding.imported && binding.imported !== "*" ? binding.imported : member;
+      }
+      if (!target) continue;
+
+      const location = this.locator.locate(importData.source, fromFile, language);
+      if (!location) return { kind: "external" };
+      const found =
+        this.findExported(location.files, target, language, 0) ??
+        (target === "default" ? this.findExported(location.files, member, language, 0) : null);
+      if (found) return { kind: "resolved", entity: found, strategy: "import-binding" };
+    }
+
+    // Module imports recorded as relationships (Go packages, Java classes and packages)
+    for (const imported of this.importedModules.get(fromFile) ?? []) {
+      const lastSegment = imported.path.split(/[./]/).pop();
+      const matches =
+        (qualifier && lastSegment === qualifier) || (!qualifier && (imported.wildcard || lastSegment === member));
+      if (!matches) continue;
+
+      const location = this.locator.locate(imported.path, fromFile, language);
+      if (!location) {
+        if (qualifier || lastSegment === member) return { kind: "external" };
+        continue;
+      }
+      const found = this.findExported(location.files, member, language, 0);
+      if (found) return { kind: "resolved", entity: found, strategy: location.strategy };
+    }
+    return null;
+  }
+
+  /**
+   * Find the declaration of `name` in the given files, following re-exports
+   */
+  private findExported(files: string[], name: string, language: LanguageFamily, depth: number): Entity | null {
+    if (depth > MAX_REEXPORT_DEPTH) return null;
+
+    for (const file of files) {
+      const entities = this.index.byFile.get(file) ?? [];
+      if (name === "*") {
+        const module = this.findModuleEntity([file]);
+        if (module) return module;
+        continue;
+      }
+
+      const matches =
+        name === "default"
+          ? entities.filter((e) => (e.metadata?.modifiers ?? []).includes("default"))
+          : entities.filter((e) => e.name === name && !NON_DECLARATION_TYPES.has(e.type));
+      const best = rankCandidates(matches)[0];
+      if (best) return best;
+    }
+
+    // `export { name } from "./x"` / `export * from "./x"` / `from .x import name` in an `__init__.py`
+    for (const file of files) {
+      for (const entity of this.index.byFile.get(file) ?? []) {
+        const importData = entity.metadata?.importData;
+        if ((entity.type !== "export" && entity.type !== "import") || !importData?.source) continue;
+
+        const specifiers: Array<{ local: string; imported?: string }> = importData.specifiers ?? [];
+        const binding = specifiers.find((s) => s.local === name);
+        const isStarExport = entity.type === "export" && specifiers.some((s) => s.local === "*");
+        if (!binding && !isStarExport) continue;
+
+        const location = this.locator.locate(importData.source, file, language);
+        if (!location) continue;
+        const target = binding?.imported && binding.imported !== "*" ? binding.imported : name;
+        const found = this.findExported(location.files, target, language, depth + 1);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  private findModuleEntity(files: string[], preferredName?: string): Entity | null {
+    const modules = files.flatMap((file) => (this.index.byFile.get(file) ?? []).filter(isModuleEntity));
+    return modules.find((m) => m.name === preferredName) ?? modules[0] ?? null;
+  }
+
+  /**
+   * `import def from "./x"` records calls to the local name `def`
+   */
+  private isDefaultBinding(fromFile: string, specifier: string, symbol: string): boolean {
+    return (this.index.byFile.get(fromFile) ?? []).some(
+      (entity) =>
+        entity.type === "import" &&
+        entity.metadata?.importData?.source === specifier &&
+        (entity.metadata.importData.specifiers ?? []).some((s: any) => s.local === symbol && s.imported === "default"),
+    );
+  }
+}
+
+// Module-level entities (file modules, Python modules, Go/Java packages)
+function isModuleEntity(entity: Entity): boolean {
+  return (entity.type as string) === "module" || entity.type === EntityType.PACKAGE;
+}
+
+function placeholderSymbol(placeholder: Entity): string {
+  return (placeholder.metadata as any)?.symbol ?? placeholder.name;
+}
+
+function placeholderSource(placeholder: Entity): string {
+  return (placeholder.metadata as any)?.source ?? placeholder.filePath.replace(/^external:\/\//, "");
+}
+
+function isRelativeSpecifier(specifier: string): boolean {
+  return specifier.startsWith(".") || isAbsolute(specifier);
+}
+
+function languageFamily(filePath: string): LanguageFamily {
+  const ext = extname(filePath).toLowerCase();
+  if (JS_FAMILY.has(ext)) return "javascript";
+  if (ext === ".py" || ext === ".pyi") return "python";
+  if (ext === ".go") return "go";
+  if (ext === ".java") return "java";
+  return "other";
+}
+
+/**
+ * Keep the best-ranked candidates: declarations over members, exported over private
+ */
+function rankCandidates(candidates: Entity[]): Entity[] {
+  if (candidates.length <= 1) return candidates;
+  const score = (entity: Entity) =>
+    (MEMBER_TYPES.has(entity.type) ? 0 : 2) + ((entity.metadata?.modifiers ?? []).includes("export") ? 1 : 0);
+  const top = Math.max(...candidates.map(score));
+  return candidates.filter((candidate) => score(candidate) === top);
+}
+
+/**
+ * Match a tsconfig `paths` key (at most one `*`) and return the captured part
+ */
+function matchPathPattern(pattern: string, specifier: string): string | null {
+  const star = pattern.indexOf("*");
+  if (star === -1) return pattern === specifier ? "" : null;
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) return null;
+  if (specifier.length < prefix.length + suffix.length) return null;
+  return specifier.slice(prefix.length, specifier.length - suffix.length);
+}
+
+function readTsConfigPaths(file: string, depth: number): TsConfigPaths | null {
+  let json: any;
+  try {
+    json = JSON.parse(stripJsonComments(readFileSync(file, "utf8")));
+  } catch {
+    return null;
+  }
+
+  const options = json?.compilerOptions ?? {};
+  const dir = dirname(file);
+  if (options.baseUrl !== undefined || options.paths) {
+    const baseDir = resolve(dir, options.baseUrl ?? ".");
+    const paths = Object.entries((options.paths ?? {}) as Record<string, string[]>)
+      .map(([pattern, targets]) => ({ pattern, targets }))
+      // Most specific (longest prefix) pattern wins, as in tsc
+      .sort((a, b) => b.pattern.indexOf("*") - a.pattern.indexOf("*"));
+    return { baseDir, paths };
+  }
+
+  if (typeof json?.extends === "string" && depth < 3 && json.extends.startsWith(".")) {
+    const parent = resolve(dir, json.extends.endsWith(".json") ? json.extends : `${json.extends}.json`);
+    return existsSync(parent) ? readTsConfigPaths(parent, depth + 1) : null;
+  }
+  return null;
+}
+
+/**
+ * tsconfig files are JSONC: drop comments and trailing commas outside of strings
+ */
+function stripJsonComments(text: string): string {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      out += ch;
+      if (ch === "\\") out += text[++i] ?? "";
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+      out += "\n";
+    } else if (ch === "/" && text[i + 1] === "*") {
+      i = text.indexOf("*/", i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      out += ch;
+    }
+  }
+  return out.replace(/,(\s*[}\]])/g, "$1");
+}
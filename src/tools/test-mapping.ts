@@ -0,0 +1,440 @@
+/**
+ * Test-to-code mapping.
+ * Tags the entities of test files with their framework (jest, vitest, pytest, go test, JUnit,
+ * xUnit) and links them to the code they exercise with `tests` relationships: through the calls,
+ * references and imports the tests make, and through the naming conventions that pair a test file
+ * with the file it covers. `findTestsFor` walks those links back from an entity or a changed file,
+ * including tests that only reach it through callers and importers, so agents can run just the
+ * relevant tests.
+ */
+
+import { readFileSync } from "node:fs";
+import { basename, dirname, extname, isAbsolute, relative, sep } from "node:path";
+import { detectLanguageFromPath, isFileSupported } from "../parsers/language-configs.js";
+import type { GraphStorageImpl } from "../storage/graph-storage.js";
+import { type Entity, EntityType, type Relationship, RelationType } from "../types/storage.js";
+import type {
+  CoveringTest,
+  FindTestsOptions,
+  FindTestsReport,
+  TestCase,
+  TestFramework,
+  TestLinkStrategy,
+  TestMappingOptions,
+  TestMappingReport,
+  TestTag,
+} from "../types/test-mapping.js";
+import { citeEntity, MIRROR_TYPES } from "./codebase-exploration.js";
+
+export const DEFAULT_TEST_DEPTH = 2;
+export const MAX_TEST_DEPTH = 5;
+export const DEFAULT_TEST_LIMIT = 50;
+
+/**
+ * Exclude patterns that keep test code out of the index unless test indexing is requested
+ */
+export const TEST_EXCLUDE_PATTERNS = [
+  "**/test/**",
+  "**/tests/**",
+  "**/__tests__/**",
+  "**/*_test.*",
+  "**/*_spec.*",
+  "**/*.test.*",
+  "**/*.spec.*",
+];
+
+const TEST_FILE_PATTERN =
+  /(^|[\\/])(__tests__|tests?|specs?)[\\/]|\.(test|spec)\.[cm]?[jt]sx?$|_test\.(go|py)$|(^|[\\/])test_[^\\/]+\.py$|Tests?\.(java|cs|kt)$/;
+// Test file affixes stripped to find the file a test covers by name
+const SUBJECT_AFFIXES = [/\.(test|spec)$/, /_(test|spec)$/, /^test_/, /Tests?$/];
+
+// Relationships through which a test exercises code
+const EXERCISE_TYPES = new Set(["calls", "references", "imports", "extends", "implements", "inherits"]);
+// Relationships through which code depends on other code, followed backwards from a target
+const DEPENDENT_TYPES = new Set([...EXERCISE_TYPES, "decorates", "depends_on"]);
+
+const JS_CASE_PATTERN = /\b(?:it|test)(?:\.\w+)*\s*\(\s*(["'`])(.*?)\1/;
+const JAVA_TEST_ANNOTATION = /@(Test|ParameterizedTest|RepeatedTest|TestFactory|TestTemplate)\b/;
+const XUNIT_ATTRIBUTES = new Set(["Fact", "Theory", "Test", "TestCase", "TestMethod", "DataTestMethod"]);
+const GO_TEST_NAME = /^(Test|Benchmark|Fuzz|Example)([A-Z0-9_]|$)/;
+
+/**
+ * Whether a path looks like a test file for any of the supported test frameworks. Directories
+ * above `rootDir` are ignored, so a repository checked out under a `tests/` folder is not all tests.
+ */
+export function isTestFile(filePath: string, rootDir?: string): boolean {
+  const path = rootDir && isAbsolute(filePath) ? relative(rootDir, filePath) : filePath;
+  return TEST_FILE_PATTERN.test(path.startsWith("..") ? filePath : path);
+}
+
+/**
+ * Framework of a test file, from its language and imports
+ */
+export function detectTestFramework(filePath: string, content: string): TestFramework | null {
+  if (!isFileSupported(filePath)) return null;
+  switch (detectLanguageFromPath(filePath)) {
+    case "javascript":
+    case "typescript":
+    case "jsx":
+    case "tsx":
+      return /from\s+["']vitest["']|require\(\s*["']vitest["']\s*\)/.test(content) ? "vitest" : "jest";
+    case "python":
+      return "pytest";
+    case "go":
+      return filePath.endsWith("_test.go") ? "go" : null;
+    case "java":
+      return "junit";
+    case "csharp":
+      return "xunit";
+    default:
+      return null;
+  }
+}
+
+function isModule(entity: Entity): boolean {
+  return (entity.type as string) === "module" || entity.metadata?.isFileModule === true;
+}
+
+/**
+ * Declarations not nested in another declaration of the same file
+ */
+function outermost(entities: Entity[]): Entity[] {
+  const candidates = entities.filter((entity) => !MIRROR_TYPES.has(entity.type) && !isModule(entity));
+  return candidates.filter(
+    (entity) =>
+      !candidates.some(
+        (other) =>
+          other !== entity &&
+          other.location.start.line <= entity.location.start.line &&
+          other.location.end.line >= entity.location.end.line &&
+          other.location.end.line - other.location.start.line > entity.location.end.line - entity.location.start.line,
+      ),
+  );
+}
+
+/**
+ * Pick the test cases, suites and file-level test entities of one test file
+ */
+function tagTestEntities(framework: TestFramework, entities: Entity[], content: string): Map<Entity, TestTag> {
+  const tags = new Map<Entity, TestTag>();
+  const lines = content.split("\n");
+
+  if (framework === "jest" || framework === "vitest") {
+    // Cases are anonymous callbacks whose calls the parser attributes to the module entity
+    const cases: TestCase[] = [];
+    lines.forEach((text, index) => {
+      const match = JS_CASE_PATTERN.exec(text);
+      if (match?.[2]) cases.push({ name: match[2], line: index + 1 });
+    });
+    const module = entities.find(isModule);
+    if (module) tags.set(module, { framework, kind: "file", cases });
+    return tags;
+  }
+
+  const isCase = (entity: Entity): boolean => {
+    if (entity.type !== EntityType.FUNCTION && entity.type !== EntityType.METHOD) return false;
+    switch (framework) {
+      case "pytest":
+        return entity.name.startsWith("test");
+      case "go":
+        return GO_TEST_NAME.test(entity.name);
+      case "junit": {
+        const head = lines.slice(entity.location.start.line - 1, entity.location.start.line + 2).join("\n");
+        return JAVA_TEST_ANNOTATION.test(head.split("(")[0] ?? "");
+      }
+      case "xunit":
+        return ((entity.metadata?.attributes as string[] | undefined) ?? []).some((name) => XUNIT_ATTRIBUTES.has(name));
+    }
+    return false;
+  };
+
+  const cases = entities.filter(isCase);
+  for (const entity of cases) tags.set(entity, { framework, kind: "case" });
+  for (const entity of entities) {
+    if (entity.type !== EntityType.CLASS) continue;
+    const members = cases.filter(
+      (test) =>
+        test.location.start.line >= entity.location.start.line && test.location.end.line <= entity.location.end.line,
+    );
+    if (members.length > 0 || (framework === "pytest" && entity.name.startsWith("Test"))) {
+      tags.set(entity, {
+        framework,
+        kind: "suite",
+        cases: members.map((test) => ({ name: test.name, line: test.location.start.line })),
+      });
+    }
+  }
+  return tags;
+}
+
+/**
+ * Name of the file a test file covers by convention, without extension. Files in test
+ * directories without a test affix (`tests/user.ts`) mirror the source layout by name.
+ */
+function subjectStem(filePath: string): string {
+  const stem = basename(filePath, extname(filePath));
+  for (const affix of SUBJECT_AFFIXES) {
+    const stripped = stem.replace(affix, "");
+    if (stripped !== stem && stripped.length > 0) return stripped;
+  }
+  return stem;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const left = a.split(sep);
+  const right = b.split(sep);
+  let length = 0;
+  while (length < left.length && length < right.length && left[length] === right[length]) length++;
+  return length;
+}
+
+/**
+ * Tag test entities and (re)create the `tests` relationships linking them to the code they exercise
+ */
+export async function mapTests(
+  storage: GraphStorageImpl,
+  options: TestMappingOptions = {},
+): Promise<TestMappingReport> {
+  const start = Date.now();
+  const byFile = new Map<string, Entity[]>();
+  for (const entity of await storage.getIndexedEntities(options.product_id)) {
+    const inFile = byFile.get(entity.filePath);
+    if (inFile) inFile.push(entity);
+    else byFile.set(entity.filePath, [entity]);
+  }
+
+  const testFiles = Array.from(byFile.keys()).filter((path) => isTestFile(path, options.rootDir));
+  const testFileSet = new Set(testFiles);
+  const sourceByStem = new Map<string, string[]>();
+  for (const path of byFile.keys()) {
+    if (testFileSet.has(path)) continue;
+    const stem = basename(path, extname(path));
+    sourceByStem.set(stem, [...(sourceByStem.get(stem) ?? []), path]);
+  }
+
+  const report: TestMappingReport = {
+    testFiles: testFiles.length,
+    testEntities: 0,
+    byFramework: {},
+    links: 0,
+    linksByStrategy: { graph: 0, convention: 0 },
+    unrecognizedFiles: [],
+    timeMs: 0,
+  };
+  const links = new Map<string, Relationship>();
+  const link = (test: Entity, target: Entity, framework: TestFramework, strategy: TestLinkStrategy, via?: string) => {
+    const key = `${test.id}\u0000${target.id}`;
+    if (links.has(key)) return;
+    links.set(key, {
+      id: "",
+      fromId: test.id,
+      toId: target.id,
+      type: RelationType.TESTS,
+      project_id: test.project_id ?? options.product_id,
+      metadata: { framework, strategy, ...(via ? { via } : {}) },
+    });
+    report.linksByStrategy[strategy]++;
+  };
+
+  const testEntityIds: string[] = [];
+  const entityCache = new Map<string, Entity | null>();
+  for (const path of testFiles) {
+    const entities = byFile.get(path) ?? [];
+    let content = "";
+    try {
+      content = readFileSync(path, "utf8");
+    } catch {
+      // Tag from entity names alone when the file is gone
+    }
+    const framework = detectTestFramework(path, content);
+    if (!framework) {
+      report.unrecognizedFiles.push(path);
+      continue;
+    }
+
+    const tags = tagTestEntities(framework, entities, content);
+    for (const [entity, tag] of tags) {
+      await storage.updateEntity(entity.id, { metadata: { ...entity.metadata, test: tag } });
+      testEntityIds.push(entity.id);
+    }
+    report.testEntities += tags.size;
+    report.byFramework[framework] = (report.byFramework[framework] ?? 0) + tags.size;
+
+    for (const test of tags.keys()) {
+      for (const rel of await storage.getRelationshipsForEntity(test.id, undefined, options.product_id)) {
+        if (rel.fromId !== test.id || !EXERCISE_TYPES.has(rel.type)) continue;
+        if (!entityCache.has(rel.toId)) entityCache.set(rel.toId, await storage.getEntity(rel.toId));
+        const target = entityCache.get(rel.toId);
+        if (!target || target.filePath.startsWith("external://") || MIRROR_TYPES.has(target.type)) continue;
+        if (testFileSet.has(target.filePath)) continue;
+        link(test, target, framework, "graph", rel.type);
+      }
+    }
+
+    // Pair the test file with same-named source files, preferring the closest directory
+    const stem = subjectStem(path);
+    const candidates = (sourceByStem.get(stem) ?? []).filter(
+      (candidate) => detectLanguageFromPath(candidate) === detectLanguageFromPath(path),
+    );
+    const closeness = candidates.map((candidate) => commonPrefixLength(dirname(candidate), dirname(path)));
+    const best = Math.max(...closeness);
+    const owners = Array.from(tags.entries())
+      .filter(([, tag]) => tag.kind !== "case")
+      .map(([entity]) => entity);
+    const linkFrom = owners.length > 0 ? owners : Array.from(tags.keys());
+    candidates.forEach((candidate, index) => {
+      if (closeness[index] !== best) return;
+      for (const target of outermost(byFile.get(candidate) ?? [])) {
+        for (const test of linkFrom) link(test, target, framework, "convention");
+      }
+    });
+  }
+
+  await storage.deleteRelationshipsFrom(testEntityIds, [RelationType.TESTS]);
+  const result = await storage.insertRelationships(Array.from(links.values()));
+  report.links = result.processed;
+  report.timeMs = Date.now() - start;
+  return report;
+}
+
+/**
+ * Tests that exercise the given entities, directly or through up to `depth` callers/importers
+ */
+export async function findTestsFor(
+  storage: GraphStorageImpl,
+  targets: Entity[],
+  options: FindTestsOptions = {},
+): Promise<FindTestsReport> {
+  const start = Date.now();
+  const depth = Math.min(Math.max(options.depth ?? DEFAULT_TEST_DEPTH, 0), MAX_TEST_DEPTH);
+  const limit = Math.max(options.limit ?? DEFAULT_TEST_LIMIT, 1);
+
+  const entityCache = new Map<string, Entity | null>();
+  const load = async (id: string) => {
+    if (!entityCache.has(id)) entityCache.set(id, await storage.getEntity(id));
+    return entityCache.get(id) ?? null;
+  };
+  const found = new Map<string, CoveringTest>();
+  const record = (test: Entity, covers: Entity, distance: number, strategy: TestLinkStrategy) => {
+    const tag = test.metadata?.test as TestTag | undefined;
+    const existing = found.get(test.id);
+    if (!tag || (existing && existing.distance <= distance)) return;
+    found.set(test.id, {
+      ...citeEntity(test),
+      framework: tag.framework,
+      kind: tag.kind,
+      cases: tag.cases ?? [],
+      distance,
+      covers: { id: covers.id, name: covers.name, filePath: covers.filePath },
+      strategy,
+    });
+  };
+
+  const visited = new Set<string>();
+  let frontier: Entity[] = [];
+  for (const target of targets) {
+    if (visited.has(target.id)) continue;
+    visited.add(target.id);
+    frontier.push(target);
+    // A changed test file selects its own tests
+    if (target.metadata?.test) record(target, target, 0, "graph");
+  }
+
+  for (let distance = 0; distance <= depth && frontier.length > 0; distance++) {
+    const next: Entity[] = [];
+    for (let i = 0; i < frontier.length; i++) {
+      const entity = frontier[i]!;
+      for (const rel of await storage.getRelationshipsForEntity(entity.id, undefined, options.product_id)) {
+        // Members are exercised through their container
+        if (rel.fromId === entity.id && (rel.type as string) === "member_of" && !visited.has(rel.toId)) {
+          const container = await load(rel.toId);
+          visited.add(rel.toId);
+          if (container) frontier.push(container);
+          continue;
+        }
+        if (rel.toId !== entity.id || rel.fromId === entity.id) continue;
+
+        if (rel.type === RelationType.TESTS) {
+          const test = await load(rel.fromId);
+          if (test) record(test, entity, distance, (rel.metadata?.strategy as TestLinkStrategy) ?? "graph");
+          continue;
+        }
+        if (distance === depth || !DEPENDENT_TYPES.has(rel.type) || visited.has(rel.fromId)) continue;
+        visited.add(rel.fromId);
+        const dependent = await load(rel.fromId);
+        if (!dependent || dependent.filePath.startsWith("external://") || dependent.metadata?.test) continue;
+        next.push(dependent);
+      }
+    }
+    frontier = next;
+  }
+
+  const tests = Array.from(found.values()).sort(
+    (a, b) => a.distance - b.distance || a.filePath.localeCompare(b.filePath) || a.line - b.line,
+  );
+  const testFiles = new Map<string, FindTestsReport["testFiles"][number]>();
+  for (const test of tests) {
+    if (!testFiles.has(test.filePath)) {
+      testFiles.set(test.filePath, { path: test.filePath, framework: test.framework, distance: test.distance });
+    }
+  }
+
+  return {
+    targets: targets.map(citeEntity),
+    tests: tests.slice(0, limit),
+    totalTests: tests.length,
+    testFiles: Array.from(testFiles.values()),
+    commands: buildTestCommands(Array.from(testFiles.values()), tests, options.rootDir),
+    timeMs: Date.now() - start,
+  };
+}
+
+/**
+ * Commands that run only the given test files (or test classes, for JUnit and xUnit)
+ */
+function buildTestCommands(
+  files: FindTestsReport["testFiles"],
+  tests: CoveringTest[],
+  rootDir?: string,
+): FindTestsReport["commands"] {
+  const display = (path: string) => (rootDir && isAbsolute(path) ? relative(rootDir, path) || "." : path);
+  const commands: FindTestsReport["commands"] = [];
+  const frameworks = Array.from(new Set(files.map((file) => file.framework)));
+
+  for (const framework of frameworks) {
+    const paths = files.filter((file) => file.framework === framework).map((file) => display(file.path));
+    const classes = Array.from(
+      new Set(
+        tests
+          .filter((test) => test.framework === framework)
+          .map((test) => (test.kind === "suite" ? test.name : basename(test.filePath, extname(test.filePath)))),
+      ),
+    );
+    switch (framework) {
+      case "jest":
+        commands.push({ framework, command: `npx jest ${paths.join(" ")}` });
+        break;
+      case "vitest":
+        commands.push({ framework, command: `npx vitest run ${paths.join(" ")}` });
+        break;
+      case "pytest":
+        commands.push({ framework, command: `pytest ${paths.join(" ")}` });
+        break;
+      case "go": {
+        const packages = Array.from(new Set(paths.map((path) => `./${dirname(path)}`.replace(/^\.\/\.$/, "."))));
+        commands.push({ framework, command: `go test ${packages.join(" ")}` });
+        break;
+      }
+      case "junit":
+        commands.push({ framework, command: `mvn test -Dtest=${classes.join(",")}` });
+        break;
+      case "xunit":
+        commands.push({
+          framework,
+          command: `dotnet test --filter "${classes.map((name) => `FullyQualifiedName~${name}`).join("|")}"`,
+        });
+        break;
+    }
+  }
+  return commands;
+}
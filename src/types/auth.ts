@@ -0,0 +1,42 @@
+/**
+ * Auth Types
+ * API keys and scopes guarding the HTTP API and the HTTP MCP transports
+ */
+
+/**
+ * Access levels, each including the ones before it: read < index < admin
+ */
+export const API_SCOPES = ["read", "index", "admin"] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+/**
+ * Stored API key; the key itself is only kept as a SHA-256 hash
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** First characters of the key, to recognise it in listings */
+  prefix: string;
+  scopes: ApiScope[];
+  created_at: number;
+  last_used_at?: number;
+  expires_at?: number;
+  revoked_at?: number;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiScope[];
+  expires_at?: number;
+}
+
+/**
+ * Identity attached to an authenticated request (shaped like the MCP SDK `AuthInfo`, so the
+ * HTTP MCP transports hand it to tool handlers)
+ */
+export interface AuthContext {
+  token: string;
+  clientId: string;
+  scopes: ApiScope[];
+  expiresAt?: number;
+}
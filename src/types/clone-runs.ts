@@ -0,0 +1,91 @@
+/**
+ * Clone Run Types
+ * Persisted clone detection runs, their diff against the previous run of the same scope, trends
+ * and report formats
+ */
+
+export const CLONE_REPORT_FORMATS = ["sarif", "html", "json"] as const;
+export type CloneReportFormat = (typeof CLONE_REPORT_FORMATS)[number];
+
+/** Totals of a run, as in the `total` row of the jscpd statistic */
+export interface CloneRunTotals {
+  lines: number;
+  tokens: number;
+  sources: number;
+  clones: number;
+  duplicatedLines: number;
+  duplicatedTokens: number;
+  percentage: number;
+  percentageTokens: number;
+  newDuplicatedLines: number;
+  newClones: number;
+}
+
+export interface CloneRunFragment {
+  sourceId: string;
+  startLine: number;
+  endLine: number;
+  tokens: number;
+  fingerprint: string;
+  entityIds: string[];
+  /** Not a fragment of this class in the previous run */
+  isNew: boolean;
+}
+
+export interface CloneRunClass {
+  fingerprint: string;
+  type: number;
+  similarity: number;
+  /** The class did not exist in the previous run */
+  isNew: boolean;
+  fragments: CloneRunFragment[];
+}
+
+export interface CloneRunDiff {
+  /** Run this one is compared with; absent for the first run of a scope */
+  previousRunId?: string;
+  newClasses: number;
+  /** Copies added to classes, counting every fragment of new classes */
+  newFragments: number;
+  resolvedClasses: number;
+  unchangedClasses: number;
+  /** New duplication since the previous run; what CI should fail on */
+  hasNewDuplication: boolean;
+}
+
+export interface CloneRun {
+  id: string;
+  /** Runs are compared with the previous run of the same scope (product, or scanned paths) */
+  scope: string;
+  product_id?: string;
+  tool: string;
+  paths: string[];
+  options: Record<string, unknown>;
+  totals: CloneRunTotals;
+  cloneCount: number;
+  classCount: number;
+  diff: CloneRunDiff;
+  created_at: number;
+  /** Loaded on request */
+  classes?: CloneRunClass[];
+}
+
+export interface CloneTrendPoint {
+  runId: string;
+  created_at: number;
+  cloneCount: number;
+  classCount: number;
+  duplicatedLines: number;
+  duplicationPercentage: number;
+  newClasses: number;
+  resolvedClasses: number;
+}
+
+export interface CloneTrend {
+  scope: string;
+  product_id?: string;
+  /** Oldest first */
+  points: CloneTrendPoint[];
+  /** Change in duplication percentage from the first to the latest point */
+  percentageChange: number;
+}
@@ -0,0 +1,40 @@
+/**
+ * Code Metrics Types
+ * Per-entity complexity and size metrics computed from the syntax tree at parse time
+ */
+
+export interface HalsteadMetrics {
+  /** Distinct operators (n1) */
+  distinctOperators: number;
+  /** Distinct operands (n2) */
+  distinctOperands: number;
+  /** Total operators (N1) */
+  totalOperators: number;
+  /** Total operands (N2) */
+  totalOperands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+  /** Estimated delivered bugs (volume / 3000) */
+  bugs: number;
+}
+
+export interface CodeMetrics {
+  /** McCabe cyclomatic complexity: decision points + 1 */
+  cyclomatic: number;
+  /** Cognitive complexity: control flow breaks, weighted by nesting */
+  cognitive: number;
+  /** Deepest nesting of control flow structures */
+  maxNesting: number;
+  parameters: number;
+  /** Lines spanned by the entity */
+  loc: number;
+  /** Lines holding code, excluding blank and comment-only lines */
+  sloc: number;
+  halstead: HalsteadMetrics;
+}
+
+export const CODE_METRIC_KEYS = ["cyclomatic", "cognitive", "maxNesting", "parameters", "loc", "sloc"] as const;
+export type CodeMetricKey = (typeof CODE_METRIC_KEYS)[number];
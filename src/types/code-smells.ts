@@ -0,0 +1,87 @@
+/**
+ * Code Smell Types
+ * Design smells detected from the code graph: class membership, calls, inheritance and file dependencies
+ */
+
+export const CODE_SMELL_KINDS = [
+  "god_class",
+  "feature_envy",
+  "shotgun_surgery",
+  "long_parameter_list",
+  "deep_inheritance",
+  "unstable_dependency",
+] as const;
+export type CodeSmellKind = (typeof CODE_SMELL_KINDS)[number];
+
+export const SMELL_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+export type SmellSeverity = (typeof SMELL_SEVERITIES)[number];
+
+/**
+ * Limits above which a smell is reported; severity grows with how far a measurement exceeds its limit
+ */
+export interface CodeSmellThresholds {
+  /** Methods and fields a class may own before it can be a god class */
+  godClassMembers: number;
+  /** Distinct entities a god class candidate is coupled to (fan-in plus fan-out) */
+  godClassCoupling: number;
+  /** Members of one foreign class a method must use, beyond the members of its own class, to envy it */
+  featureEnvyCalls: number;
+  /** Distinct callers and referrers an entity may have before a change to it ripples widely */
+  shotgunSurgeryDependents: number;
+  /** Distinct other files those dependents must span */
+  shotgunSurgeryFiles: number;
+  maxParameters: number;
+  /** Ancestors a class may have along its longest extends chain */
+  maxInheritanceDepth: number;
+  /** How much more unstable a dependency may be than the file depending on it */
+  instabilityGap: number;
+}
+
+/**
+ * Options for a code smell detection pass
+ */
+export interface CodeSmellOptions {
+  product_id?: string;
+  /** Only consider entities under this directory */
+  directory?: string;
+  /** Root used to shorten file names in the report (defaults to `directory`) */
+  rootDir?: string;
+  /** Smell kinds to look for (defaults to all) */
+  kinds?: CodeSmellKind[];
+  minSeverity?: SmellSeverity;
+  thresholds?: Partial<CodeSmellThresholds>;
+  /** Maximum number of smells returned */
+  limit?: number;
+}
+
+/**
+ * One detected smell
+ */
+export interface CodeSmell {
+  kind: CodeSmellKind;
+  severity: SmellSeverity;
+  /** Entity the smell is reported on; for unstable dependencies, the file depending on the unstable one */
+  name: string;
+  filePath: string;
+  line?: number;
+  /** The offending entity first, then the entities backing the evidence */
+  entityIds: string[];
+  /** Measurements that triggered the smell, next to the thresholds they exceeded */
+  evidence: Record<string, number | string | string[]>;
+  message: string;
+}
+
+/**
+ * Result of a code smell detection pass
+ */
+export interface CodeSmellReport {
+  scope: { directory?: string; product_id?: string };
+  thresholds: CodeSmellThresholds;
+  entitiesAnalyzed: number;
+  relationshipsAnalyzed: number;
+  smellCount: number;
+  bySeverity: Record<SmellSeverity, number>;
+  byKind: Record<CodeSmellKind, number>;
+  smells: CodeSmell[];
+  timeMs: number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Cycle Detection Types
+ * Types for strongly connected component analysis over import/call/dependency relationships
+ */
+
+/**
+ * Graph nodes cycles are reported on: whole files (import cycles) or individual entities
+ */
+export type CycleGranularity = "file" | "entity";
+
+/**
+ * Options for a cycle detection pass
+ */
+export interface CycleDetectionOptions {
+  /** Relationship types forming the dependency graph (defaults to imports, calls and depends_on) */
+  relationshipTypes?: string[];
+  granularity?: CycleGranularity;
+  /** Only consider entities under this directory */
+  directory?: string;
+  /** Root used to shorten file names in the report (defaults to `directory`) */
+  rootDir?: string;
+  /** Only consider entities of this language (e.g. "typescript", "python") */
+  language?: string;
+  product_id?: string;
+  /** Smallest component reported as a cycle */
+  minSize?: number;
+  /** Maximum number of cycles returned */
+  limit?: number;
+}
+
+/**
+ * File or entity taking part in a cycle
+ */
+export interface CycleNode {
+  /** File path for file granularity, entity ID for entity granularity */
+  id: string;
+  name: string;
+  filePath: string;
+  type?: string;
+  line?: number;
+}
+
+/**
+ * Relationship backing a cycle edge, with its source location
+ */
+export interface CycleEdgeExample {
+  relationshipId: string;
+  type: string;
+  from: string;
+  to: string;
+  filePath: string;
+  line: number;
+}
+
+/**
+ * Aggregated dependency from one cycle node to another
+ */
+export interface CycleEdge {
+  from: string;
+  to: string;
+  relationshipTypes: string[];
+  /** Number of relationships collapsed into this edge; cutting lighter edges is cheaper */
+  relationships: number;
+  examples: CycleEdgeExample[];
+}
+
+/**
+ * One strongly connected component
+ */
+export interface DetectedCycle {
+  rank: number;
+  size: number;
+  nodes: CycleNode[];
+  edgeCount: number;
+  relationshipTypes: string[];
+  /** One concrete loop through the component, closing on its first node */
+  path: string[];
+  /** Edges whose removal leaves the component acyclic */
+  edgesToCut: CycleEdge[];
+}
+
+/**
+ * Result of a cycle detection pass
+ */
+export interface CycleReport {
+  granularity: CycleGranularity;
+  relationshipTypes: string[];
+  scope: { directory?: string; language?: string; product_id?: string };
+  nodesAnalyzed: number;
+  edgesAnalyzed: number;
+  cycleCount: number;
+  nodesInCycles: number;
+  cycles: DetectedCycle[];
+  timeMs: number;
+}
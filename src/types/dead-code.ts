@@ -0,0 +1,75 @@
+/**
+ * Dead Code Types
+ * Reachability of functions, classes and exports from entry points over the code graph
+ */
+
+export const DEAD_CODE_CONFIDENCES = ["low", "medium", "high"] as const;
+/** How sure the report is that nothing uses an entity; dynamic dispatch, reflection and decorators lower it */
+export type DeadCodeConfidence = (typeof DEAD_CODE_CONFIDENCES)[number];
+
+/**
+ * Options for a dead code pass
+ */
+export interface DeadCodeOptions {
+  product_id?: string;
+  /** Only report entities under this directory; reachability is still computed over the whole graph */
+  directory?: string;
+  /** Root that entry file globs and directory summaries are relative to */
+  rootDir?: string;
+  /** Gitignore-style globs of entry files; everything declared and exported in them is live */
+  entryFiles?: string[];
+  /** Entity IDs or names that are live, e.g. `main` or handlers registered by configuration */
+  entryPoints?: string[];
+  /** Treat test files as entry points (default true) */
+  includeTests?: boolean;
+  /** Treat every exported declaration as used, for libraries whose consumers are not indexed */
+  exportsAreUsed?: boolean;
+  minConfidence?: DeadCodeConfidence;
+  /** Maximum number of findings returned */
+  limit?: number;
+}
+
+/**
+ * Entity that nothing reachable from an entry point uses
+ */
+export interface DeadCodeFinding {
+  entityId: string;
+  name: string;
+  type: string;
+  filePath: string;
+  line: number;
+  endLine: number;
+  /** Lines removed with the entity, including members of a dead class */
+  lines: number;
+  exported: boolean;
+  confidence: DeadCodeConfidence;
+  /** Why the entity may still be used despite having no references */
+  reasons: string[];
+}
+
+/**
+ * Dead code totals of one directory
+ */
+export interface DeadCodeDirectorySummary {
+  directory: string;
+  /** Functions, classes and exports declared directly in the directory */
+  entities: number;
+  dead: number;
+  deadLines: number;
+  byConfidence: Record<DeadCodeConfidence, number>;
+}
+
+/**
+ * Result of a dead code pass
+ */
+export interface DeadCodeReport {
+  scope: { directory?: string; product_id?: string };
+  entryPoints: { files: number; entities: number };
+  entitiesAnalyzed: number;
+  reachable: number;
+  deadCount: number;
+  byConfidence: Record<DeadCodeConfidence, number>;
+  directories: DeadCodeDirectorySummary[];
+  findings: DeadCodeFinding[];
+  timeMs: number;
+}
@@ -0,0 +1,90 @@
+/**
+ * Diff Impact Types
+ * Types for mapping a change set (unified diff or git ref range) onto entities and their dependents
+ */
+
+import type { CitedEntity } from "./exploration.js";
+import type { Change } from "./query.js";
+
+export type RiskLevel = "critical" | "high" | "medium" | "low";
+
+/**
+ * One file of a parsed unified diff with the changed line numbers on each side
+ */
+export interface DiffFileChange {
+  oldPath: string | null;
+  newPath: string | null;
+  status: "added" | "deleted" | "modified" | "renamed";
+  /** Lines removed, numbered in the old file */
+  removedLines: number[];
+  /** Lines added, numbered in the new file */
+  addedLines: number[];
+  /** New-file lines next to which removed lines used to be */
+  removalPoints: number[];
+}
+
+/**
+ * Options for a diff impact analysis
+ */
+export interface DiffImpactOptions {
+  /** Directory paths in the diff are relative to */
+  rootDir: string;
+  /** Number of caller/importer hops followed from each changed entity */
+  depth?: number;
+  product_id?: string;
+  /** Maximum entities listed per risk group */
+  limit?: number;
+}
+
+/**
+ * Entity touched by the diff
+ */
+export interface ChangedEntity extends CitedEntity {
+  change: Change["type"];
+  changedLines: number;
+}
+
+/**
+ * Entity reached from a changed entity through its dependents
+ */
+export interface ImpactedEntity extends CitedEntity {
+  risk: RiskLevel;
+  distance: number;
+  /** Changed entity the shortest ripple came from and the relationship it arrived through */
+  via: { changedEntityId: string; changedEntity: string; relationshipType: string };
+  isTest: boolean;
+}
+
+export interface RiskGroup {
+  entities: ImpactedEntity[];
+  files: string[];
+  tests: ImpactedEntity[];
+  totalEntities: number;
+}
+
+/**
+ * Result of a diff impact analysis
+ */
+export interface DiffImpactReport {
+  source: { type: "diff" } | { type: "refs"; base: string; head?: string };
+  changedFiles: Array<{
+    path: string;
+    status: DiffFileChange["status"];
+    added: number;
+    removed: number;
+    entities: number;
+  }>;
+  changedEntities: ChangedEntity[];
+  /** Changed files without indexed entities (not indexed, or unsupported language) */
+  unmappedFiles: string[];
+  impact: Record<RiskLevel, RiskGroup>;
+  summary: {
+    changedEntities: number;
+    impactedEntities: number;
+    impactedFiles: number;
+    impactedTests: number;
+    /** 0-100, computed like `QueryAgent.calculateChangeRipple` */
+    estimatedRisk: number;
+  };
+  timeMs: number;
+}
@@ -0,0 +1,38 @@
+/**
+ * Entity Resolution Types
+ * Ranked candidates for an entity named by a tool argument, used to pick the entity a name
+ * refers to or to ask the caller which one they meant
+ */
+
+import type { CitedEntity } from "./exploration.js";
+
+export interface EntityCandidate extends CitedEntity {
+  product_id?: string;
+  /** 0-1; 1 for an exact ID match */
+  confidence: number;
+  /** Why the candidate matched, e.g. "exact name", "in hinted file" */
+  reasons: string[];
+}
+
+export type EntityResolutionStatus = "resolved" | "ambiguous" | "not_found";
+
+export interface EntityResolution {
+  identifier: string;
+  status: EntityResolutionStatus;
+  /** Best match first; for `not_found`, names that are close to the identifier */
+  candidates: EntityCandidate[];
+}
+
+export interface EntityResolveOptions {
+  /** File path hint; candidates in that file rank first */
+  filePath?: string;
+  product_id?: string;
+  /** Maximum candidates returned */
+  limit?: number;
+}
+
+/**
+ * Asks the client which candidate it meant; resolves to the chosen entity ID, or undefined
+ * when the user declined or the client cannot ask
+ */
+export type EntityChooser = (identifier: string, candidates: EntityCandidate[]) => Promise<string | undefined>;
@@ -0,0 +1,62 @@
+/**
+ * Entity Source Types
+ * Source text of an entity with its docstring and the code of its callers and callees, as
+ * returned by the `get_entity_source` tool
+ */
+
+import type { CitedEntity } from "./exploration.js";
+
+export interface EntitySourceOptions {
+  /** Lines of surrounding code to include before and after the entity */
+  contextLines?: number;
+  includeDocstring?: boolean;
+  /** Number of callers to include, most frequent first */
+  callers?: number;
+  /** Number of callees to include, most frequent first */
+  callees?: number;
+  /** Approximate token budget for all returned code (about 4 characters per token) */
+  maxTokens?: number;
+  product_id?: string;
+}
+
+/**
+ * A range of lines from a source file (1-based, inclusive)
+ */
+export interface SourceSnippet {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  code: string;
+  /** The snippet was cut short to stay within the token budget */
+  truncated: boolean;
+}
+
+/**
+ * A caller or callee of the entity; callers are shown around the call site, callees from their
+ * definition
+ */
+export interface RelatedSource extends CitedEntity {
+  /** Number of call relationships between the two entities */
+  calls: number;
+  /** Line of the first call site */
+  callLine?: number;
+  /** Absent when the file could not be read or the budget ran out */
+  snippet?: SourceSnippet;
+}
+
+export interface EntitySourceReport {
+  entity: CitedEntity;
+  /** The entity's code, widened by `contextLines` */
+  source?: SourceSnippet;
+  docstring?: string;
+  callers: RelatedSource[];
+  callees: RelatedSource[];
+  budget: {
+    maxTokens: number;
+    usedTokens: number;
+    /** Snippets left out or shortened to fit the budget */
+    truncated: string[];
+  };
+  /** Why the source could not be read */
+  error?: string;
+}
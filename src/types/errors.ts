@@ -1,4 +1,5 @@
 import type { AgentStatus } from "./agent.js";
+import type { EntityCandidate } from "./entity-resolution.js";
 
 export interface AgentBusyDetails {
   agentId: string;
@@ -21,3 +22,43 @@ export class AgentBusyError extends Error {
     this.details = details;
   }
 }
+
+export class JobCancelledError extends Error {
+  public readonly jobId: string;
+
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+    this.jobId = jobId;
+  }
+}
+
+export interface EntityResolutionDetails {
+  identifier: string;
+  status: "ambiguous" | "not_found";
+  candidates: EntityCandidate[];
+}
+
+export class EntityResolutionError extends Error {
+  public readonly details: EntityResolutionDetails;
+
+  constructor(details: EntityResolutionDetails) {
+    super(
+      details.status === "ambiguous"
+        ? `Entity "${details.identifier}" is ambiguous: ${details.candidates.length} candidates match`
+        : `Entity not found: ${details.identifier}`,
+    );
+    this.name = "EntityResolutionError";
+    this.details = details;
+  }
+}
+
+export class PathNotAllowedError extends Error {
+  public readonly path: string;
+
+  constructor(path: string) {
+    super(`Path is outside the allowed roots: ${path}`);
+    this.name = "PathNotAllowedError";
+    this.path = path;
+  }
+}
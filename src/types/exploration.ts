@@ -0,0 +1,122 @@
+/**
+ * Codebase Exploration Types
+ * Types for the research reports produced by the Dora agent and the `explore_codebase` tool
+ */
+
+import type { SemanticResult } from "./semantic.js";
+
+/**
+ * Semantic search used to pick exploration seeds for a free-text topic
+ */
+export type SemanticSearchFn = (query: string, limit: number) => Promise<SemanticResult>;
+
+/**
+ * Entity reference included in a report so every statement can be traced back to the graph
+ */
+export interface CitedEntity {
+  id: string;
+  name: string;
+  type: string;
+  filePath: string;
+  line: number;
+  endLine: number;
+}
+
+/**
+ * Entity the exploration started from
+ */
+export interface ExplorationSeed extends CitedEntity {
+  source: "entity" | "semantic" | "keyword";
+  score: number;
+}
+
+export type EntryPointReason = "main-function" | "entry-file" | "exported" | "no-internal-callers";
+
+/**
+ * Entity through which control or data most likely enters the explored area
+ */
+export interface EntryPoint extends CitedEntity {
+  reasons: EntryPointReason[];
+  /** Outgoing calls/references within the explored subgraph */
+  fanOut: number;
+}
+
+/**
+ * Directory-level module of the explored area and the edges crossing its boundary
+ */
+export interface ModuleBoundary {
+  module: string;
+  files: number;
+  entities: number;
+  /** Entities of this module used from other modules */
+  publicSurface: CitedEntity[];
+  dependsOn: Array<{ module: string; relationships: number }>;
+  dependedOnBy: Array<{ module: string; relationships: number }>;
+}
+
+/**
+ * Statement about the explored area with the entity IDs supporting it
+ */
+export interface ExplorationFinding {
+  summary: string;
+  citations: string[];
+}
+
+/**
+ * Options for one exploration
+ */
+export interface ExplorationOptions {
+  /** Free-text topic resolved to seeds through semantic search, falling back to name matching */
+  topic?: string;
+  /** Entities to start from; takes precedence over the topic */
+  entityIds?: string[];
+  /** Root used to derive module names (defaults to the common directory of explored files) */
+  rootDir?: string;
+  product_id?: string;
+  /** Subgraph depth walked from every seed */
+  depth?: number;
+  maxSeeds?: number;
+  /** Maximum entries in each report section */
+  limit?: number;
+}
+
+/**
+ * Structured research report
+ */
+export interface ExplorationReport {
+  topic?: string;
+  seeds: ExplorationSeed[];
+  entryPoints: EntryPoint[];
+  modules: ModuleBoundary[];
+  keyEntities: Array<CitedEntity & { degree: number }>;
+  relationshipCounts: Record<string, number>;
+  findings: ExplorationFinding[];
+  stats: {
+    entitiesExplored: number;
+    relationshipsExplored: number;
+    depth: number;
+    semanticSearch: "used" | "empty" | "unavailable" | "skipped";
+    timeMs: number;
+  };
+}
+
+/**
+ * Structural pattern found in the graph
+ */
+export interface DiscoveredPattern {
+  type: "architectural" | "design" | "coding";
+  name: string;
+  occurrences: number;
+  description: string;
+  examples: CitedEntity[];
+}
+
+/**
+ * Result of a pattern discovery pass
+ */
+export interface PatternReport {
+  scope: string;
+  patterns: DiscoveredPattern[];
+  entitiesScanned: number;
+  timeMs: number;
+}
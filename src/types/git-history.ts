@@ -0,0 +1,69 @@
+/**
+ * Git History Types
+ * Types for churn data ingested from `git log` and stored alongside the code graph
+ */
+
+/**
+ * Author contribution summary for a file or entity
+ */
+export interface ChurnAuthor {
+  name: string;
+  email: string;
+  commits: number;
+}
+
+/**
+ * Churn aggregated for a single file
+ */
+export interface FileChurn {
+  file_path: string;
+  project_id?: string;
+  commit_count: number;
+  lines_added: number;
+  lines_deleted: number;
+  authors: ChurnAuthor[];
+  first_commit_at?: number;
+  last_commit_at?: number;
+  last_author?: string;
+  last_commit?: string;
+  updated_at: number;
+}
+
+/**
+ * Churn aggregated for a single entity (commits whose hunks overlap its current line range)
+ */
+export interface EntityChurn {
+  entity_id: string;
+  file_path: string;
+  project_id?: string;
+  commit_count: number;
+  lines_changed: number;
+  authors: ChurnAuthor[];
+  first_commit_at?: number;
+  last_commit_at?: number;
+  last_author?: string;
+  last_commit?: string;
+  updated_at: number;
+}
+
+/**
+ * Options for git history ingestion
+ */
+export interface GitHistoryOptions {
+  maxCommits?: number;
+  since?: string;
+  product_id?: string;
+}
+
+/**
+ * Result of a git history ingestion run
+ */
+export interface GitHistorySummary {
+  repositoryRoot: string;
+  directory: string;
+  head?: string;
+  commitsScanned: number;
+  filesTracked: number;
+  entitiesTracked: number;
+  durationMs: number;
+}
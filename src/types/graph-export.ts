@@ -0,0 +1,35 @@
+/**
+ * Graph Export Types
+ * Options and statistics for exporting the code graph (or a subgraph) to visualization and
+ * graph-database formats
+ */
+
+export const GRAPH_EXPORT_FORMATS = ["graphml", "dot", "mermaid", "cypher", "jsonl"] as const;
+export type GraphExportFormat = (typeof GRAPH_EXPORT_FORMATS)[number];
+
+export interface GraphExportOptions {
+  format: GraphExportFormat;
+  /** Export the neighbourhood of this entity (resolved by the caller) instead of the whole graph */
+  rootEntityId?: string;
+  /** Relationship hops followed from the root entity */
+  depth?: number;
+  product_id?: string;
+  /**
+   * Only entities whose file matches this glob, relative to `rootDir` (gitignore-style: a pattern
+   * without `/` matches a file or directory name anywhere, `**` crosses directories)
+   */
+  pathGlob?: string;
+  /** Directory `pathGlob` is matched relative to */
+  rootDir?: string;
+  entityTypes?: string[];
+  relationshipTypes?: string[];
+  /** Stop after this many entities (the export is marked truncated) */
+  maxEntities?: number;
+}
+
+export interface GraphExportStats {
+  format: GraphExportFormat;
+  entities: number;
+  relationships: number;
+  truncated: boolean;
+}
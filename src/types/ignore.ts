@@ -0,0 +1,36 @@
+/**
+ * Ignore Types
+ * Rules that keep files out of the index and clone detection, and how many files each skipped
+ */
+
+/**
+ * Where a rule comes from, lowest precedence first; a later matching rule overrides an earlier one
+ */
+export const IGNORE_RULE_SOURCES = [
+  "default",
+  "git_exclude",
+  "gitignore",
+  "codegraphignore",
+  "exclude_pattern",
+] as const;
+export type IgnoreRuleSource = (typeof IGNORE_RULE_SOURCES)[number];
+
+export interface IgnoreRuleStats {
+  source: IgnoreRuleSource;
+  /** Ignore file the rule is in, relative to the root; absent for built-in rules and tool patterns */
+  file?: string;
+  line?: number;
+  pattern: string;
+  /** Files skipped that would otherwise have been collected */
+  files: number;
+  /** Directories not descended into */
+  directories: number;
+}
+
+export interface IgnoreSummary {
+  root: string;
+  filesSkipped: number;
+  directoriesSkipped: number;
+  /** Rules that skipped something, most files first */
+  rules: IgnoreRuleStats[];
+}
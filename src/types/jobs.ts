@@ -0,0 +1,57 @@
+/**
+ * Job Types
+ * Background indexing jobs persisted in SQLite, so their progress and outcome survive the
+ * request that started them
+ */
+
+import type { IgnoreSummary } from "./ignore.js";
+
+export const JOB_KINDS = ["index", "clean_index"] as const;
+export type JobKind = (typeof JOB_KINDS)[number];
+
+export const JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export interface JobProgress {
+  /** Current step: collecting, indexing, resolving_symbols, git_history, mapping_tests */
+  phase?: string;
+  filesProcessed: number;
+  totalFiles: number;
+  entitiesExtracted: number;
+  relationshipsCreated: number;
+  /** Files and directories the ignore rules kept out of the job */
+  skipped?: IgnoreSummary;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  directory: string;
+  product_id?: string;
+  /** Tool arguments the job was started with */
+  params: Record<string, unknown>;
+  progress: JobProgress;
+  /** Tool payload once the job completed */
+  result?: unknown;
+  error?: string;
+  cancel_requested: boolean;
+  created_at: number;
+  started_at?: number;
+  finished_at?: number;
+  updated_at: number;
+}
+
+export interface CreateJobInput {
+  kind: JobKind;
+  directory: string;
+  product_id?: string;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Published on the knowledge bus (`indexing:progress`) after each indexed batch
+ */
+export interface IndexingProgressEvent extends Partial<JobProgress> {
+  jobId: string;
+}
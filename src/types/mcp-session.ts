@@ -0,0 +1,42 @@
+/**
+ * MCP Session Types
+ * The workspace an MCP server instance is bound to, and the sessions the HTTP transports host
+ */
+
+import type { EntityChooser } from "./entity-resolution.js";
+
+export interface McpWorkspace {
+  /** Directory relative tool paths resolve against; defaults for tools that take a directory */
+  rootDir: string;
+  /** When set, tool calls are limited to this product */
+  product_id?: string;
+}
+
+/** What a client asks for when it opens a session */
+export interface McpWorkspaceRequest {
+  rootDir?: string;
+  product_id?: string;
+}
+
+export type McpTransportKind = "stdio" | "sse" | "streamable";
+
+export interface McpSessionInfo {
+  sessionId: string;
+  transport: McpTransportKind;
+  workspace: McpWorkspace;
+  /** API key the session was opened with; other keys cannot use it */
+  clientId?: string;
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface ToolCallContext {
+  /** Aborted when the MCP client cancels the request */
+  signal?: AbortSignal;
+  /** Set when the client asked for `notifications/progress` */
+  onProgress?: (progress: number, total?: number, message?: string) => void;
+  /** Set when the client supports elicitation; asks which of several matching entities was meant */
+  chooseEntity?: EntityChooser;
+  /** Workspace of the session the call came from; the server root when absent */
+  workspace?: McpWorkspace;
+}
@@ -16,6 +16,7 @@
 // 1. IMPORTS AND DEPENDENCIES
 // =============================================================================
 import type { AgentTask } from "./agent.js";
+import type { CodeMetrics } from "./code-metrics.js";
 
 // =============================================================================
 // 2. CONSTANTS AND CONFIGURATION
@@ -206,6 +207,9 @@ export interface ParsedEntity {
   /** Return type for functions/methods */
   returnType?: string;
 
+  /** Complexity and size metrics for functions/methods, computed from the syntax tree */
+  metrics?: CodeMetrics;
+
   /** Parameters for functions/methods */
   parameters?: Array<{
     name: string;
@@ -487,6 +491,7 @@ export interface EntityRelationship {
     | "overrides"
     | "calls"
     | "imports"
+    | "exports"
     | "decorates"
     | "contains"
     | "references"
@@ -0,0 +1,63 @@
+/**
+ * Path Finding Types
+ * Types for "how does A reach B" queries answered by the `find_path` tool
+ */
+
+import type { CitedEntity } from "./exploration.js";
+
+/**
+ * Which way relationships may be followed: only from source to target ("outgoing") or both ways ("any")
+ */
+export type PathDirection = "outgoing" | "any";
+
+/**
+ * Options for a path search
+ */
+export interface PathFindingOptions {
+  /** Only follow these relationship types (all types when empty) */
+  relationshipTypes?: string[];
+  direction?: PathDirection;
+  /** Maximum number of hops per path */
+  maxDepth?: number;
+  /** Number of shortest paths to return */
+  k?: number;
+  product_id?: string;
+}
+
+/**
+ * One step of a path, located at the relationship that links the two entities
+ */
+export interface PathHop {
+  from: CitedEntity;
+  to: CitedEntity;
+  relationshipId: string;
+  relationshipType: string;
+  /** "backward" when the relationship was followed against its direction */
+  direction: "forward" | "backward";
+  /** File and line where the relationship occurs (the source side of the relationship) */
+  filePath: string;
+  line: number;
+}
+
+export interface FoundPath {
+  length: number;
+  hops: PathHop[];
+}
+
+/**
+ * Result of a path search
+ */
+export interface PathReport {
+  from: CitedEntity;
+  to: CitedEntity;
+  found: boolean;
+  paths: FoundPath[];
+  search: {
+    relationshipTypes: string[];
+    direction: PathDirection;
+    maxDepth: number;
+    k: number;
+    nodesExpanded: number;
+  };
+  timeMs: number;
+}
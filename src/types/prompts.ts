@@ -0,0 +1,37 @@
+/**
+ * Prompt Types
+ * YAML-defined MCP prompt templates (config/prompts.yaml) for common code-graph workflows
+ */
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+  /** Value used when the argument is not given */
+  default?: string;
+  /** Look the value up in the graph; templates then read `{{name.id}}`, `{{name.filePath}}`, ... */
+  resolve?: "entity";
+  /** Argument whose value is the file path hint for `resolve: entity` */
+  hint?: string;
+}
+
+/**
+ * Graph data embedded in a prompt: the output of a tool call or the contents of a resource
+ */
+export interface PromptContextItem {
+  title?: string;
+  tool?: string;
+  args?: Record<string, unknown>;
+  resource?: string;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments: PromptArgumentDefinition[];
+  context: PromptContextItem[];
+  template: string;
+  /** File the definition was loaded from */
+  source?: string;
+}
@@ -15,6 +15,8 @@
  * implementation
  */
 
+import type { CodeMetrics } from "./code-metrics.js";
+
 // =============================================================================
 // 2. CONSTANTS AND CONFIGURATION
 // =============================================================================
@@ -224,7 +226,7 @@ export interface SemanticOperations {
   crossLanguageSearch(query: string, languages: string[]): Promise<CrossLangResult[]>;
 
   // Refactoring suggestions
-  suggestRefactoring(code: string): Promise<RefactoringSuggestion[]>;
+  suggestRefactoring(code: string, metrics?: CodeMetrics): Promise<RefactoringSuggestion[]>;
 }
 
 /**
@@ -13,6 +13,7 @@
 // =============================================================================
 // 1. IMPORTS AND DEPENDENCIES
 // =============================================================================
+import type { CodeMetrics } from "./code-metrics.js";
 import type { ParsedEntity } from "./parser.js";
 export type { ParsedEntity };
 
@@ -55,6 +56,7 @@ export enum RelationType {
   REFERENCES = "references",
   CONTAINS = "contains",
   DEPENDS_ON = "depends_on",
+  TESTS = "tests",
 }
 
 /**
@@ -93,6 +95,8 @@ export interface Entity {
       arguments?: string[];
       isBuiltin?: boolean;
     }>;
+    /** Syntax-tree metrics of functions and methods */
+    metrics?: CodeMetrics;
     [key: string]: unknown;
   };
   hash: string;
@@ -100,6 +104,7 @@ export interface Entity {
   updatedAt: number;
 
   // Enhanced v2 fields
+  /** Cyclomatic complexity for functions and methods; a type-based estimate for other entities */
   complexityScore?: number;
   language?: string;
   sizeBytes?: number;
@@ -147,7 +152,11 @@ export interface GraphQuery {
     filePath?: string | string[];
     name?: string | RegExp;
     product_id?: string;
+    /** Entities whose complexity score is at least this */
+    minComplexity?: number;
   };
+  /** Most complex entities first (entity queries only) */
+  orderBy?: "complexity";
   depth?: number;
   limit?: number;
   offset?: number;
@@ -398,8 +407,10 @@ export function parsedEntityToEntity(
       signature: parsed.signature,
       language: parsed.language,
       decorators: parsed.decorators,
+      metrics: parsed.metrics,
     },
     hash,
+    complexityScore: parsed.metrics?.cyclomatic,
   };
 }
 
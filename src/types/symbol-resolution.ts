@@ -0,0 +1,60 @@
+/**
+ * Symbol Resolution Types
+ * Types for the cross-file pass that links `external://` placeholder targets to indexed entities
+ */
+
+/**
+ * How a placeholder target was matched to an indexed entity
+ */
+export type ResolutionStrategy =
+  | "relative-import"
+  | "tsconfig-paths"
+  | "python-package"
+  | "go-module"
+  | "java-package"
+  | "same-package"
+  | "import-binding"
+  | "global-unique";
+
+/**
+ * A placeholder target that could not be linked to an indexed entity
+ */
+export interface UnresolvedSymbol {
+  symbol: string;
+  source: string;
+  fromEntityId: string;
+  fromEntity: string;
+  filePath: string;
+  relationshipType: string;
+  reason: "module-not-found" | "symbol-not-found" | "ambiguous";
+  /** Number of equally ranked candidates when ambiguous */
+  candidates?: number;
+}
+
+/**
+ * Options for a resolution pass
+ */
+export interface SymbolResolutionOptions {
+  /** Repository root used to locate tsconfig.json / go.mod files */
+  rootDir?: string;
+  product_id?: string;
+  /** Only resolve relationships originating from these files */
+  filePaths?: string[];
+  /** Maximum number of unresolved symbols listed in the report */
+  maxUnresolved?: number;
+}
+
+/**
+ * Result of a resolution pass
+ */
+export interface SymbolResolutionReport {
+  placeholderReferences: number;
+  resolved: number;
+  byStrategy: Partial<Record<ResolutionStrategy, number>>;
+  /** Targets in third-party packages or the standard library */
+  external: number;
+  unresolvedCount: number;
+  unresolved: UnresolvedSymbol[];
+  placeholdersRemoved: number;
+  timeMs: number;
+}
@@ -0,0 +1,85 @@
+/**
+ * Test Mapping Types
+ * Types for tagging test entities, linking them to the code they exercise and answering
+ * "which tests cover this" queries
+ */
+
+import type { CitedEntity } from "./exploration.js";
+
+export type TestFramework = "jest" | "vitest" | "pytest" | "go" | "junit" | "xunit";
+
+/**
+ * How a `tests` relationship was derived: from calls/imports in the test, or from file naming
+ * (`user.test.ts` covers `user.ts`, `test_user.py` covers `user.py`, `UserTest.java` covers `User.java`)
+ */
+export type TestLinkStrategy = "graph" | "convention";
+
+export interface TestCase {
+  name: string;
+  line: number;
+}
+
+/**
+ * Tag stored under `metadata.test` on test entities. Test files whose cases are anonymous
+ * callbacks (jest/vitest) are tagged on their module entity with the case names listed.
+ */
+export interface TestTag {
+  framework: TestFramework;
+  kind: "file" | "suite" | "case";
+  cases?: TestCase[];
+}
+
+export interface TestMappingOptions {
+  /** Repository root, used to judge test directories relative to the repository */
+  rootDir?: string;
+  product_id?: string;
+}
+
+/**
+ * Result of tagging test entities and linking them with `tests` relationships
+ */
+export interface TestMappingReport {
+  testFiles: number;
+  testEntities: number;
+  byFramework: Partial<Record<TestFramework, number>>;
+  links: number;
+  linksByStrategy: Record<TestLinkStrategy, number>;
+  /** Test files whose framework could not be recognised */
+  unrecognizedFiles: string[];
+  timeMs: number;
+}
+
+export interface FindTestsOptions {
+  rootDir?: string;
+  /** Caller/importer hops followed to find tests that exercise the target indirectly */
+  depth?: number;
+  product_id?: string;
+  limit?: number;
+}
+
+/**
+ * A test that exercises one of the target entities, directly or through its dependents
+ */
+export interface CoveringTest extends CitedEntity {
+  framework: TestFramework;
+  kind: TestTag["kind"];
+  cases: TestCase[];
+  /** 0 when the test links to the target itself, otherwise the number of dependent hops in between */
+  distance: number;
+  /** Entity the `tests` relationship points at */
+  covers: { id: string; name: string; filePath: string };
+  strategy: TestLinkStrategy;
+}
+
+/**
+ * Result of a `find_tests_for` query
+ */
+export interface FindTestsReport {
+  targets: CitedEntity[];
+  tests: CoveringTest[];
+  totalTests: number;
+  testFiles: Array<{ path: string; framework: TestFramework; distance: number }>;
+  /** Commands that run only the selected test files, one per framework */
+  commands: Array<{ framework: TestFramework; command: string }>;
+  timeMs: number;
+}
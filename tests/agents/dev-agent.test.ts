@@ -0,0 +1,78 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, relative } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { DevAgent } from "../../src/agents/dev-agent.js";
+import { IndexerAgent } from "../../src/agents/indexer-agent.js";
+import type { KnowledgeEntry } from "../../src/core/knowledge-bus.js";
+import { resetCacheManager } from "../../src/storage/cache-manager.js";
+import { getGraphStorage, resetGraphStorage } from "../../src/storage/graph-storage-factory.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { TEST_EXCLUDE_PATTERNS } from "../../src/tools/test-mapping.js";
+
+const FILES = ["src/app.ts", "src/app.test.ts", "tests/app.test.ts", "lib/__tests__/util.ts"];
+
+describe("DevAgent indexing", () => {
+  let root: string;
+  let manager: SQLiteManager;
+  let indexer: IndexerAgent;
+  let agent: DevAgent;
+
+  const index = async (payload: Record<string, unknown>) => {
+    const result = await (agent as any).performRealIndexing({ directory: root, ...payload });
+    const storage = await getGraphStorage(manager);
+    const { entities } = await storage.executeQuery({ type: "entity" });
+    return {
+      totalFiles: result.totalFiles as number,
+      files: [...new Set(entities.map((entity) => relative(root, entity.filePath)))].sort(),
+    };
+  };
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), "dev-agent-"));
+    for (const file of FILES) {
+      mkdirSync(dirname(join(root, file)), { recursive: true });
+      writeFileSync(join(root, file), "export const value = 1;\n");
+    }
+    resetGraphStorage();
+    resetCacheManager();
+    manager = new SQLiteManager({ memory: true });
+    indexer = new IndexerAgent(manager);
+    await indexer.initialize();
+    agent = new DevAgent();
+    (agent as any).indexerAgent = indexer;
+  });
+
+  afterEach(async () => {
+    await indexer.shutdown();
+    manager.close();
+    resetGraphStorage();
+    resetCacheManager();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("skips test directories and test files by default", async () => {
+    expect(await index({ excludePatterns: TEST_EXCLUDE_PATTERNS })).toEqual({ totalFiles: 1, files: ["src/app.ts"] });
+  });
+
+  it("indexes test directories when tests are requested", async () => {
+    expect(await index({ excludePatterns: [], includeTests: true })).toEqual({
+      totalFiles: 4,
+      files: ["lib/__tests__/util.ts", "src/app.test.ts", "src/app.ts", "tests/app.test.ts"],
+    });
+  });
+
+  it("stops a running job when it is cancelled and forgets cancels for jobs it is not running", async () => {
+    const cancel = (jobId: string) => (agent as any).handleIndexingCancel({ data: { jobId } } as KnowledgeEntry);
+    (agent as any).indexBatchSize = 1;
+
+    cancel("job_elsewhere");
+    expect((agent as any).cancelledJobs.size).toBe(0);
+
+    const indexing = (agent as any).performRealIndexing({ directory: root, excludePatterns: [], jobId: "job_1" });
+    cancel("job_1");
+    expect(await indexing).toMatchObject({ cancelled: true, filesProcessed: 1, totalFiles: 2 });
+    expect((agent as any).runningJobs.size).toBe(0);
+    expect((agent as any).cancelledJobs.size).toBe(0);
+  });
+});
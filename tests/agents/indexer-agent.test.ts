@@ -313,6 +313,32 @@ describe("IndexerAgent", () => {
       // Deletion should succeed even if entity doesn't exist
       expect(result.failed).toBe(0);
     });
+
+    test("should drop stale entities when re-indexing a file", async () => {
+      const filePath = "/test/watched.ts";
+      const moved = (name: string, start: number): ParsedEntity => ({
+        ...createMockParsedEntity(name),
+        location: { start: { line: 1, column: 0, index: start }, end: { line: 5, column: 0, index: start + 50 } },
+      });
+
+      await agent.reindexFile([moved("keep", 0), moved("gone", 100)], filePath);
+      const result = await agent.reindexFile([moved("keep", 0), moved("added", 200)], filePath);
+
+      expect(result.removed.map((entity) => entity.name)).toEqual(["gone"]);
+      const names = (await agent.queryGraph({ type: "entity", filters: { filePath } })).entities.map((e) => e.name);
+      expect(names.sort()).toEqual(["added", "keep"]);
+    });
+
+    test("should remove all entities of a deleted file", async () => {
+      const filePath = "/test/deleted.ts";
+      await agent.indexEntities(createMockParseResult(filePath).entities, filePath);
+
+      const result = await agent.removeFile(filePath);
+
+      expect(result.removed).toHaveLength(3);
+      const remaining = await agent.queryGraph({ type: "entity", filters: { filePath } });
+      expect(remaining.entities).toHaveLength(0);
+    });
   });
 
   describe("Graph Queries", () => {
@@ -0,0 +1,111 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { IndexerAgent } from "../../src/agents/indexer-agent.js";
+import { resolveEntity, resolveEntityCandidates } from "../../src/core/entity-resolver.js";
+import { TreeSitterParser } from "../../src/parsers/tree-sitter-parser.js";
+import { resetCacheManager } from "../../src/storage/cache-manager.js";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { getGraphStorage, resetGraphStorage } from "../../src/storage/graph-storage-factory.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { EntityResolutionError } from "../../src/types/errors.js";
+
+const FILES: Record<string, string> = {
+  "src/api/user.ts": "export function loadUser() {\n  return null;\n}\n",
+  "src/admin/user.ts": "export function loadUser() {\n  return null;\n}\n",
+  "src/billing/invoice.ts": [
+    'import { loadUser } from "../api/user";',
+    "export class InvoiceService {",
+    "  createInvoice() {",
+    "    return loadUser();",
+    "  }",
+    "}",
+    "",
+  ].join("\n"),
+};
+
+describe("entity resolver", () => {
+  let root: string;
+  let manager: SQLiteManager;
+  let agent: IndexerAgent;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), "entity-resolver-"));
+    resetGraphStorage();
+    resetCacheManager();
+    manager = new SQLiteManager({ memory: true });
+    agent = new IndexerAgent(manager);
+    await agent.initialize();
+    storage = (await getGraphStorage(manager)) as GraphStorageImpl;
+
+    const parser = new TreeSitterParser();
+    await parser.initialize();
+    for (const [relativePath, content] of Object.entries(FILES)) {
+      const filePath = join(root, relativePath);
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, content);
+      const result: any = await parser.parse(filePath, content, `hash-${relativePath}`);
+      await agent.indexEntities(result.entities, filePath, []);
+    }
+  });
+
+  afterEach(async () => {
+    await agent.shutdown();
+    manager.close();
+    resetGraphStorage();
+    resetCacheManager();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reports a name defined in several files as ambiguous with equally ranked candidates", async () => {
+    const resolution = await resolveEntityCandidates(storage, "loadUser", { limit: 10 });
+
+    expect(resolution.status).toBe("ambiguous");
+    const definitions = resolution.candidates.filter((candidate) => candidate.type === "function");
+    expect(definitions.map((candidate) => candidate.filePath).sort()).toEqual([
+      join(root, "src/admin/user.ts"),
+      join(root, "src/api/user.ts"),
+    ]);
+    expect(definitions[0]?.reasons).toContain("exact name");
+    expect(definitions[0]?.confidence).toBe(definitions[1]?.confidence);
+  });
+
+  it("resolves with a file path hint, a qualified name or an ID", async () => {
+    const hinted = await resolveEntity(storage, "loadUser", { filePath: "src/admin/user.ts" });
+    expect(hinted.filePath).toBe(join(root, "src/admin/user.ts"));
+
+    const qualified = await resolveEntityCandidates(storage, "InvoiceService.createInvoice");
+    expect(qualified).toMatchObject({ status: "resolved", candidates: [{ name: "createInvoice" }] });
+
+    const byId = await resolveEntityCandidates(storage, hinted.id);
+    expect(byId).toMatchObject({ status: "resolved", candidates: [{ id: hinted.id, confidence: 1 }] });
+  });
+
+  it("fails on a typo with near-miss suggestions instead of picking an arbitrary entity", async () => {
+    const resolution = await resolveEntityCandidates(storage, "loadUsr");
+    expect(resolution.status).toBe("not_found");
+    expect(resolution.candidates[0]).toMatchObject({ name: "loadUser", reasons: ["1 edit(s) away"] });
+
+    const error = await resolveEntity(storage, "loadUsr").catch((caught) => caught);
+    expect(error).toBeInstanceOf(EntityResolutionError);
+    expect((error as EntityResolutionError).details).toMatchObject({ identifier: "loadUsr", status: "not_found" });
+  });
+
+  it("lets the client choose among ambiguous candidates", async () => {
+    const offered: string[] = [];
+    const chosen = await resolveEntity(storage, "loadUser", {
+      choose: async (_identifier, candidates) => {
+        offered.push(...candidates.map((candidate) => candidate.filePath));
+        return candidates.find((candidate) => candidate.filePath.includes("admin"))?.id;
+      },
+    });
+    expect(offered).toContain(join(root, "src/api/user.ts"));
+    expect(chosen.filePath).toBe(join(root, "src/admin/user.ts"));
+
+    await expect(resolveEntity(storage, "loadUser", { choose: async () => undefined })).rejects.toMatchObject({
+      details: { status: "ambiguous" },
+    });
+  });
+});
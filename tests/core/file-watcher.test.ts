@@ -0,0 +1,106 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { FileWatcher, matchesExcludePattern } from "../../src/core/file-watcher.js";
+import { AgentBusyError } from "../../src/types/errors.js";
+import type { FileChange } from "../../src/types/parser.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("FileWatcher", () => {
+  let root: string;
+  let batches: FileChange[][];
+  let watcher: FileWatcher;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "file-watcher-"));
+    batches = [];
+    watcher = new FileWatcher(root, {
+      debounceMs: 50,
+      excludePatterns: ["**/*.generated.ts"],
+      onChanges: async (changes) => {
+        batches.push(changes);
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("debounces repeated events into a single batch", async () => {
+    const file = join(root, "a.ts");
+    writeFileSync(file, "export const a = 1;\n");
+
+    watcher.enqueue(file);
+    watcher.enqueue(file);
+    watcher.enqueue(join(root, "b.ts"));
+    await sleep(150);
+
+    expect(batches).toHaveLength(1);
+    const byPath = new Map(batches[0]?.map((change) => [change.filePath, change]));
+    expect(byPath.get(file)?.changeType).toBe("modified");
+    expect(byPath.get(file)?.content).toBe("export const a = 1;\n");
+    expect(byPath.get(join(root, "b.ts"))?.changeType).toBe("deleted");
+  });
+
+  it("ignores unsupported, excluded and hidden paths", async () => {
+    mkdirSync(join(root, "node_modules"));
+    mkdirSync(join(root, ".cache"));
+
+    watcher.enqueue(join(root, "notes.txt"));
+    watcher.enqueue(join(root, "api.generated.ts"));
+    watcher.enqueue(join(root, "node_modules", "dep.js"));
+    watcher.enqueue(join(root, ".cache", "tmp.ts"));
+    await watcher.flush();
+
+    expect(batches).toHaveLength(0);
+  });
+
+  it("requeues a batch when the agent is busy", async () => {
+    let attempts = 0;
+    const busyWatcher = new FileWatcher(root, {
+      debounceMs: 10,
+      onChanges: async (changes) => {
+        attempts++;
+        if (attempts === 1) {
+          throw new AgentBusyError({ agentId: "dev", status: "busy", reason: "queue", retryAfterMs: 20 } as any);
+        }
+        batches.push(changes);
+      },
+    });
+
+    const file = join(root, "retry.ts");
+    writeFileSync(file, "export {};\n");
+    busyWatcher.enqueue(file);
+    await sleep(150);
+    await busyWatcher.stop();
+
+    expect(attempts).toBe(2);
+    expect(batches[0]?.map((change) => change.filePath)).toEqual([file]);
+  });
+
+  it("picks up changes from the file system", async () => {
+    watcher.start();
+    await sleep(50);
+
+    writeFileSync(join(root, "watched.ts"), "export const watched = true;\n");
+
+    const deadline = Date.now() + 3000;
+    while (batches.length === 0 && Date.now() < deadline) {
+      await sleep(25);
+    }
+
+    expect(batches.flat().map((change) => change.filePath)).toContain(join(root, "watched.ts"));
+  });
+});
+
+describe("matchesExcludePattern", () => {
+  it("supports globs and plain substrings", () => {
+    expect(matchesExcludePattern("/repo/src/a.min.js", ["**/*.min.js"])).toBe(true);
+    expect(matchesExcludePattern("/repo/vendor/lib.ts", ["vendor/"])).toBe(true);
+    expect(matchesExcludePattern("/repo/src/lib.ts", ["vendor/", "**/*.min.js"])).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join, relative } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { IgnoreRules } from "../../src/core/ignore-rules.js";
+import { runJscpdCloneDetection } from "../../src/tools/jscpd.js";
+
+describe("IgnoreRules", () => {
+  let root: string;
+
+  const write = (path: string, content = "export const value = 1;\n") => {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  };
+  const collect = (rules: IgnoreRules) =>
+    rules
+      .collectFiles((filePath) => filePath.endsWith(".ts"))
+      .map((filePath) => relative(root, filePath))
+      .sort();
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "ignore-rules-"));
+    write(".git/info/exclude", "# local only\nscratch.ts\n");
+    write(".gitignore", "*.gen.ts\n/generated/\nlogs/\n");
+    write("src/.gitignore", "legacy/\n!keep.gen.ts\n");
+    write("src/index.ts");
+    write("src/api.gen.ts");
+    write("src/keep.gen.ts");
+    write("src/legacy/old.ts");
+    write("src/scratch.ts");
+    write("generated/client.ts");
+    write("packages/app/generated/ok.ts");
+    write("node_modules/dep/index.ts");
+    write("vendor/lib.ts");
+    write("tests/unit.ts");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("honors nested .gitignore files, .git/info/exclude and the default directories", () => {
+    const rules = new IgnoreRules(root);
+
+    expect(collect(rules)).toEqual(["packages/app/generated/ok.ts", "src/index.ts", "src/keep.gen.ts"]);
+    expect(rules.isIgnored(join(root, "src/legacy/new.ts"))).toBe(true);
+    expect(rules.isIgnored(join(root, "src/other.ts"))).toBe(false);
+    expect(rules.isIgnored("/elsewhere/file.ts")).toBe(true);
+  });
+
+  it("reports how many files and directories each rule skipped", () => {
+    const rules = new IgnoreRules(root);
+    collect(rules);
+
+    const summary = rules.summary();
+    expect(summary).toMatchObject({ root, filesSkipped: 2, directoriesSkipped: 6 });
+    expect(summary.rules).toEqual(
+      expect.arrayContaining([
+        { source: "gitignore", file: ".gitignore", line: 1, pattern: "*.gen.ts", files: 1, directories: 0 },
+        { source: "gitignore", file: ".gitignore", line: 2, pattern: "/generated/", files: 0, directories: 1 },
+        { source: "gitignore", file: "src/.gitignore", line: 1, pattern: "legacy/", files: 0, directories: 1 },
+        { source: "git_exclude", file: ".git/info/exclude", line: 2, pattern: "scratch.ts", files: 1, directories: 0 },
+        { source: "default", pattern: "node_modules/", files: 0, directories: 1 },
+        { source: "default", pattern: "vendor/", files: 0, directories: 1 },
+        { source: "default", pattern: "tests/", files: 0, directories: 1 },
+      ]),
+    );
+  });
+
+  it("lets .codegraphignore re-include what .gitignore and the defaults skip", () => {
+    write(".codegraphignore", "!/generated/\n!/tests/\nsrc/keep.gen.ts\n");
+    const rules = new IgnoreRules(root);
+
+    expect(collect(rules)).toEqual([
+      "generated/client.ts",
+      "packages/app/generated/ok.ts",
+      "src/index.ts",
+      "tests/unit.ts",
+    ]);
+  });
+
+  it("applies exclude patterns last and can skip the ignore files", () => {
+    expect(collect(new IgnoreRules(root, { excludePatterns: ["**/packages/**", "index.ts"] }))).toEqual([
+      "src/keep.gen.ts",
+    ]);
+    expect(collect(new IgnoreRules(root, { ignoreFiles: false }))).toEqual([
+      "generated/client.ts",
+      "packages/app/generated/ok.ts",
+      "src/api.gen.ts",
+      "src/index.ts",
+      "src/keep.gen.ts",
+      "src/legacy/old.ts",
+      "src/scratch.ts",
+    ]);
+  });
+
+  it("keeps test directories when tests are requested", () => {
+    expect(collect(new IgnoreRules(root, { includeTests: true }))).toEqual([
+      "packages/app/generated/ok.ts",
+      "src/index.ts",
+      "src/keep.gen.ts",
+      "tests/unit.ts",
+    ]);
+  });
+
+  it("keeps ignored files out of clone detection", async () => {
+    const duplicate = Array.from({ length: 8 }, (_, i) => `export const value${i} = compute(${i}) + offset;`).join(
+      "\n",
+    );
+    write("src/a.ts", duplicate);
+    write("src/b.gen.ts", duplicate);
+
+    const scan = (gitignore: boolean) =>
+      runJscpdCloneDetection({ paths: [root], formats: ["ts"], minLines: 5, minTokens: 5, gitignore });
+
+    expect((await scan(true)).summary.cloneCount).toBe(0);
+    expect((await scan(false)).summary.cloneCount).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { JobManager } from "../../src/core/job-manager.js";
+import { knowledgeBus } from "../../src/core/knowledge-bus.js";
+import { JobStore } from "../../src/storage/job-store.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import type { Job } from "../../src/types/jobs.js";
+
+const INDEX_JOB = { kind: "index" as const, directory: "/repo", params: { directory: "/repo" } };
+
+/**
+ * A promise with its resolve function, to hold a job in its running state
+ */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe("JobManager", () => {
+  let manager: SQLiteManager;
+  let store: JobStore;
+  let jobs: JobManager;
+
+  beforeEach(() => {
+    manager = new SQLiteManager({ memory: true });
+    store = new JobStore(manager);
+    jobs = new JobManager(store);
+    jobs.attach();
+  });
+
+  afterEach(() => {
+    jobs.detach();
+    manager.close();
+  });
+
+  it("runs jobs one at a time and records batch progress and results", async () => {
+    const gate = deferred();
+    const first = jobs.start(INDEX_JOB, async (context) => {
+      context.reportProgress({ phase: "indexing", totalFiles: 4 });
+      await gate.promise;
+      knowledgeBus.publish(
+        "indexing:progress",
+        { jobId: context.job.id, filesProcessed: 4, entitiesExtracted: 10, relationshipsCreated: 3 },
+        "dev-agent",
+      );
+      return { success: true, message: "Indexing completed" };
+    });
+    const second = jobs.start(INDEX_JOB, async () => ({ success: true }));
+
+    expect(jobs.getJob(first.id)?.status).toBe("running");
+    expect(jobs.getJob(second.id)?.status).toBe("queued");
+
+    const updates: Job[] = [];
+    const waiting = jobs.wait(first.id, { timeoutMs: 5000, onProgress: (job) => updates.push(job) });
+    gate.resolve();
+    const done = await waiting;
+
+    expect(done).toMatchObject({
+      status: "completed",
+      result: { success: true, message: "Indexing completed" },
+      progress: { phase: "indexing", filesProcessed: 4, totalFiles: 4, entitiesExtracted: 10, relationshipsCreated: 3 },
+    });
+    expect(updates.at(-1)?.progress.filesProcessed).toBe(4);
+    expect((await jobs.wait(second.id, { timeoutMs: 5000 }))?.status).toBe("completed");
+  });
+
+  it("cancels queued and running jobs, and stops the DevAgent via the knowledge bus", async () => {
+    const gate = deferred();
+    const cancelEvents: unknown[] = [];
+    const subscription = knowledgeBus.subscribe("test", "indexing:cancel", (entry) => {
+      cancelEvents.push(entry.data);
+    });
+
+    const running = jobs.start(INDEX_JOB, async (context) => {
+      await gate.promise;
+      context.throwIfCancelled();
+      return { success: true };
+    });
+    const queued = jobs.start(INDEX_JOB, async () => ({ success: true }));
+
+    expect(jobs.cancel(queued.id)?.status).toBe("cancelled");
+
+    // An aborted request cancels the job it was waiting on
+    const controller = new AbortController();
+    const waiting = jobs.wait(running.id, { timeoutMs: 5000, signal: controller.signal });
+    controller.abort();
+    gate.resolve();
+
+    expect(await waiting).toMatchObject({ status: "cancelled", cancel_requested: true });
+    expect(cancelEvents).toEqual([{ jobId: running.id }]);
+    expect(jobs.cancel("job_missing")).toBeNull();
+    knowledgeBus.unsubscribe(subscription);
+  });
+
+  it("returns the running job when waiting times out, and fails jobs interrupted by a restart", async () => {
+    const gate = deferred();
+    const job = jobs.start(INDEX_JOB, async () => {
+      await gate.promise;
+      throw new Error("parser crashed");
+    });
+
+    expect((await jobs.wait(job.id, { timeoutMs: 10 }))?.status).toBe("running");
+    gate.resolve();
+    expect(await jobs.wait(job.id, { timeoutMs: 5000 })).toMatchObject({ status: "failed", error: "parser crashed" });
+
+    const stale = store.createJob(INDEX_JOB);
+    store.markRunning(stale.id);
+    const restarted = new JobManager(store);
+    restarted.attach();
+    expect(restarted.getJob(stale.id)).toMatchObject({ status: "failed", error: "Interrupted by server restart" });
+    expect(restarted.listJobs({ status: "failed" })).toHaveLength(2);
+    restarted.detach();
+  });
+});
@@ -0,0 +1,145 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { loadPromptDefinitions, McpPromptRegistry } from "../../src/core/mcp-prompts.js";
+import type { Entity } from "../../src/types/storage.js";
+
+const PROMPTS = `
+prompts:
+  - name: review_change_impact
+    title: Review impact
+    arguments:
+      - name: entity
+        required: true
+        resolve: entity
+        hint: filePath
+      - name: filePath
+      - name: depth
+        default: "2"
+      - name: product_id
+    context:
+      - resource: "entity://{{entity.id}}"
+      - title: Impact analysis
+        tool: analyze_code_impact
+        args:
+          entityId: "{{entity.id}}"
+          depth: "{{depth}}"
+          product_id: "{{product_id}}"
+          paths: ["{{filePath}}"]
+    template: |
+      Change {{entity.name}} ({{entity.type}}) in {{entity.filePath}}:{{entity.line}}, depth {{depth}}.
+  - name: onboard_module
+    arguments:
+      - name: module
+        required: true
+    template: Onboard me to {{module}}.
+`;
+
+const LOAD_USER = {
+  id: "e1",
+  name: "loadUser",
+  type: "function",
+  filePath: "/repo/src/service.ts",
+  location: { start: { line: 7, column: 0, index: 0 }, end: { line: 9, column: 1, index: 0 } },
+} as unknown as Entity;
+
+describe("MCP prompts", () => {
+  let configDir: string;
+  let toolCalls: Array<{ name: string; args: Record<string, unknown> }>;
+  let lookups: Array<[string, string | undefined]>;
+  let registry: McpPromptRegistry;
+
+  beforeEach(() => {
+    configDir = mkdtempSync(join(tmpdir(), "mcp-prompts-"));
+    writeFileSync(join(configDir, "prompts.yaml"), PROMPTS);
+    toolCalls = [];
+    lookups = [];
+    registry = new McpPromptRegistry({
+      configDir,
+      resolveEntity: async (identifier, hint) => {
+        lookups.push([identifier, hint]);
+        return identifier === "loadUser" ? LOAD_USER : null;
+      },
+      runTool: async (name, args) => {
+        toolCalls.push({ name, args });
+        return { content: [{ type: "text", text: '{"success":true}' }] };
+      },
+      readResource: async (uri) => [{ uri, mimeType: "application/json", text: '{"entity":{}}' }],
+    });
+  });
+
+  afterEach(() => {
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("ships valid built-in workflows next to the default config", () => {
+    const names = loadPromptDefinitions(resolve("config")).map((prompt) => prompt.name);
+    expect(names).toEqual(
+      expect.arrayContaining(["review_change_impact", "onboard_module", "explain_duplicates", "review_diff"]),
+    );
+  });
+
+  it("pre-fills resolved entities and embeds graph context", async () => {
+    const result = await registry.getPrompt("review_change_impact", { entity: "loadUser", filePath: "src/service.ts" });
+
+    expect(lookups).toEqual([["loadUser", "src/service.ts"]]);
+    expect(result.messages[0]?.content).toEqual({
+      type: "text",
+      text: "Change loadUser (function) in /repo/src/service.ts:7, depth 2.",
+    });
+    expect(result.messages[1]?.content).toEqual({
+      type: "resource",
+      resource: { uri: "entity://e1", mimeType: "application/json", text: '{"entity":{}}' },
+    });
+    expect(result.messages[2]?.content).toMatchObject({
+      type: "text",
+      text: expect.stringContaining("## Impact analysis"),
+    });
+    // Numbers are coerced and the missing product_id is dropped
+    expect(toolCalls).toEqual([
+      { name: "analyze_code_impact", args: { entityId: "e1", depth: 2, paths: ["src/service.ts"] } },
+    ]);
+
+    await expect(registry.getPrompt("review_change_impact", {})).rejects.toThrow(/Missing required argument "entity"/);
+    await expect(registry.getPrompt("review_change_impact", { entity: "nope" })).rejects.toThrow(/No entity matches/);
+    await expect(registry.getPrompt("missing", {})).rejects.toThrow(/Unknown prompt/);
+  });
+
+  it("lets custom definitions replace built-ins and skips invalid files", () => {
+    mkdirSync(join(configDir, "prompts"));
+    writeFileSync(
+      join(configDir, "prompts", "team.yaml"),
+      "prompts:\n  - name: onboard_module\n    title: Team onboarding\n    template: Read the wiki.\n",
+    );
+    writeFileSync(join(configDir, "prompts", "broken.yaml"), "prompts:\n  - name: broken\n");
+    registry.reload();
+
+    const prompts = registry.listPrompts();
+    expect(prompts.map((prompt) => prompt.name).sort()).toEqual(["onboard_module", "review_change_impact"]);
+    expect(prompts.find((prompt) => prompt.name === "onboard_module")).toMatchObject({
+      title: "Team onboarding",
+      arguments: [],
+    });
+  });
+
+  it("serves prompts/list and prompts/get over MCP", async () => {
+    const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { prompts: {} } });
+    registry.attach(server);
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.find((prompt) => prompt.name === "onboard_module")?.arguments).toEqual([
+      { name: "module", required: true },
+    ]);
+    const result = await client.getPrompt({ name: "onboard_module", arguments: { module: "indexing" } });
+    expect(result.messages).toEqual([{ role: "user", content: { type: "text", text: "Onboard me to indexing." } }]);
+
+    await client.close();
+  });
+});
@@ -0,0 +1,134 @@
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { knowledgeBus } from "../../src/core/knowledge-bus.js";
+import { entityUri, McpResourceProvider, productUri, REPORT_URIS } from "../../src/core/mcp-resources.js";
+import { ProjectManager } from "../../src/core/project-manager.js";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "db.ts": "export function query() {\n  return 1;\n}\n",
+  "service.ts": 'import { query } from "./db";\nexport function loadUser() {\n  return query();\n}\n',
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("MCP resources", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+  let projectManager: ProjectManager;
+  let provider: McpResourceProvider;
+  let client: Client;
+  let toolCalls: Array<{ name: string; args: Record<string, unknown> }>;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+
+    projectManager = new ProjectManager(fixture.manager);
+    toolCalls = [];
+    provider = new McpResourceProvider({
+      rootDir: root,
+      getStorage: async () => storage,
+      projectManager,
+      runTool: async (name, args) => {
+        toolCalls.push({ name, args });
+        return { content: [{ type: "text", text: JSON.stringify({ tool: name }) }] };
+      },
+    });
+
+    const server = new Server(
+      { name: "test", version: "1.0.0" },
+      { capabilities: { resources: { subscribe: true, listChanged: true } } },
+    );
+    provider.attach(server);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    provider.detach();
+    await client.close();
+    await fixture.cleanup();
+  });
+
+  it("lists reports, products and indexed files with templates", async () => {
+    const product = projectManager.createProject({ name: "Shop" });
+
+    const { resources } = await client.listResources();
+    const uris = resources.map((resource) => resource.uri);
+    expect(uris.slice(0, 4)).toEqual([
+      REPORT_URIS.stats,
+      REPORT_URIS.health,
+      REPORT_URIS.hotspots,
+      productUri(product.id),
+    ]);
+    expect(resources.find((resource) => resource.name === "db.ts")).toMatchObject({
+      uri: pathToFileURL(join(root, "db.ts")).href,
+      mimeType: "text/x-typescript",
+    });
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toContain("entity://{id}");
+  });
+
+  it("reads files, entities, products and reports", async () => {
+    const fileUri = pathToFileURL(join(root, "service.ts")).href;
+    const file = await client.readResource({ uri: fileUri });
+    expect(file.contents[0]).toMatchObject({ uri: fileUri, text: FILES["service.ts"] });
+
+    const [loadUser] = (await storage.getEntitiesByFile(join(root, "service.ts"))).filter((e) => e.name === "loadUser");
+    const [query] = (await storage.getEntitiesByFile(join(root, "db.ts"))).filter((e) => e.name === "query");
+    const entity = JSON.parse(String((await client.readResource({ uri: entityUri(loadUser!.id) })).contents[0]?.text));
+    expect(entity.entity).toMatchObject({ name: "loadUser", file: pathToFileURL(join(root, "service.ts")).href });
+    expect(entity.outgoing).toContainEqual({ type: "calls", entity: entityUri(query!.id) });
+
+    const product = projectManager.createProject({ name: "Shop" });
+    const productContents = await client.readResource({ uri: productUri(product.id) });
+    expect(JSON.parse(String(productContents.contents[0]?.text)).product.name).toBe("Shop");
+
+    await client.readResource({ uri: "report://hotspots?metric=changes&limit=5" });
+    expect(toolCalls).toEqual([
+      { name: "analyze_hotspots", args: { metric: "changes", limit: 5, product_id: undefined } },
+    ]);
+
+    await expect(client.readResource({ uri: pathToFileURL(join(root, "missing.ts")).href })).rejects.toThrow(
+      /not indexed/,
+    );
+    await expect(client.readResource({ uri: "entity://nope" })).rejects.toThrow(/Entity not found/);
+  });
+
+  it("notifies subscribers when re-indexing changes a resource", async () => {
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+
+    const dbPath = join(root, "db.ts");
+    const [query] = (await storage.getEntitiesByFile(dbPath)).filter((e) => e.name === "query");
+    await client.subscribeResource({ uri: pathToFileURL(dbPath).href });
+    await client.subscribeResource({ uri: entityUri(query!.id) });
+    await client.subscribeResource({ uri: REPORT_URIS.stats });
+    await expect(client.subscribeResource({ uri: "entity://nope" })).rejects.toThrow(/Entity not found/);
+
+    knowledgeBus.publish("index:complete", { filePath: dbPath }, "test");
+    knowledgeBus.publish("index:complete", { filePath: dbPath }, "test");
+    knowledgeBus.publish("index:complete", { filePath: join(root, "service.ts") }, "test");
+    await sleep(400);
+    expect(updated.sort()).toEqual([entityUri(query!.id), pathToFileURL(dbPath).href].sort());
+
+    updated.length = 0;
+    await client.unsubscribeResource({ uri: pathToFileURL(dbPath).href });
+    knowledgeBus.publish("index:completed", {}, "test");
+    knowledgeBus.publish("index:complete", { filePath: dbPath }, "test");
+    await sleep(400);
+    expect(updated.sort()).toEqual([entityUri(query!.id), REPORT_URIS.stats].sort());
+  });
+});
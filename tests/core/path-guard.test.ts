@@ -0,0 +1,95 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import type { Server as HttpServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import express from "express";
+import { measureCodebase } from "../../src/core/codebase-size.js";
+import { configurePathGuard, PathGuard } from "../../src/core/path-guard.js";
+import { errorHandler } from "../../src/http/middleware/error.js";
+import { guardBodyPaths } from "../../src/http/middleware/path-guard.js";
+import { PathNotAllowedError } from "../../src/types/errors.js";
+
+describe("PathGuard", () => {
+  let base: string;
+  let root: string;
+  let extra: string;
+  let outside: string;
+
+  beforeEach(() => {
+    base = realpathSync(mkdtempSync(join(tmpdir(), "path-guard-")));
+    root = join(base, "root");
+    extra = join(base, "extra");
+    outside = join(base, "outside");
+    for (const dir of [join(root, "src"), extra, outside]) mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it("resolves paths inside the allowed roots and refuses the rest", () => {
+    const guard = new PathGuard([root, extra]);
+
+    expect(guard.resolve("src")).toBe(join(root, "src"));
+    expect(guard.resolve("lib/a.ts", join(root, "src"))).toBe(join(root, "src", "lib", "a.ts"));
+    expect(guard.resolve(join(extra, "not-yet-created"))).toBe(join(extra, "not-yet-created"));
+    expect(() => guard.resolve(outside)).toThrow(PathNotAllowedError);
+    expect(() => guard.resolve("../outside")).toThrow(/outside the allowed roots/);
+    expect(() => guard.resolve(`${root}-sibling`)).toThrow(PathNotAllowedError);
+  });
+
+  it("follows symbolic links before checking", () => {
+    symlinkSync(outside, join(root, "escape"));
+    const guard = new PathGuard([root]);
+
+    expect(guard.isAllowed(join(root, "escape"))).toBe(false);
+    expect(guard.isAllowed(join(root, "escape", "file.ts"))).toBe(false);
+    expect(guard.isAllowed(join(root, "src", "file.ts"))).toBe(true);
+  });
+
+  it("answers 403 PATH_NOT_ALLOWED for request bodies naming outside paths", async () => {
+    configurePathGuard([root]);
+    const app = express();
+    app.use(express.json());
+    app.post("/index", guardBodyPaths("directory", "paths"), (_req, res) => {
+      res.json({ success: true });
+    });
+    app.use(errorHandler);
+
+    const server = await new Promise<HttpServer>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    const post = (body: unknown) =>
+      fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/index`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    try {
+      expect((await post({ directory: "src" })).status).toBe(200);
+      const refused = await post({ paths: ["src", outside] });
+      expect(refused.status).toBe(403);
+      expect(await refused.json()).toMatchObject({
+        success: false,
+        error: { code: "PATH_NOT_ALLOWED", details: { path: outside } },
+      });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+      configurePathGuard([process.cwd()]);
+    }
+  });
+
+  it("measures the source files an index run would collect without a shell", () => {
+    writeFileSync(join(root, "src", "a.ts"), "export const a = 1;\n");
+    writeFileSync(join(root, "src", "b.py"), "b = 2\n");
+    writeFileSync(join(root, "src", "notes.txt"), "not code\n");
+    mkdirSync(join(root, "node_modules"));
+    writeFileSync(join(root, "node_modules", "dep.js"), "module.exports = 1;\n");
+
+    expect(measureCodebase(root)).toEqual({ sourceFiles: 2, totalBytes: 26 });
+    expect(measureCodebase(root, { excludePatterns: ["**/*.py"] }).sourceFiles).toBe(1);
+  });
+});
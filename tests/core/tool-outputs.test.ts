@@ -0,0 +1,88 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { ToolExecutor } from "../../src/core/tool-executor.js";
+import { describeToolOutput, TOOL_OUTPUTS, toolResult } from "../../src/core/tool-outputs.js";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { detectCycles } from "../../src/tools/cycle-detection.js";
+import { getEntitySource } from "../../src/tools/entity-source.js";
+import { findPaths } from "../../src/tools/path-finding.js";
+import { resolveCrossFileSymbols } from "../../src/tools/symbol-resolution.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/handler.ts": 'import { loadUser } from "./user";\nexport function handle() {\n  return loadUser();\n}\n',
+  "src/user.ts": "/** Load the user */\nexport function loadUser() {\n  return { id: 1 };\n}\n",
+};
+
+describe("tool outputs", () => {
+  it("declares an object output schema and annotations for every tool", () => {
+    const tools = new ToolExecutor().getAvailableTools();
+    expect(Object.keys(TOOL_OUTPUTS).sort()).toEqual([...tools].sort());
+
+    for (const name of tools) {
+      const { outputSchema, annotations } = describeToolOutput(name);
+      expect(outputSchema.type).toBe("object");
+      expect(typeof annotations.readOnlyHint).toBe("boolean");
+    }
+
+    const destructive = tools.filter((name) => TOOL_OUTPUTS[name]?.annotations.destructiveHint);
+    expect(destructive.sort()).toEqual(["clean_index", "clear_bus_topic", "reset_graph"]);
+    expect(describeToolOutput("get_entity_source").annotations).toMatchObject({ readOnlyHint: true });
+    expect(() => describeToolOutput("no_such_tool")).toThrow(/No output schema/);
+  });
+
+  it("returns structured content for results and marks failures as errors", () => {
+    const result = toolResult({ success: true, message: "Graph storage cleared", at: new Date(0) });
+    expect(result.structuredContent).toEqual({
+      success: true,
+      message: "Graph storage cleared",
+      at: "1970-01-01T00:00:00.000Z",
+    });
+    expect(JSON.parse(result.content[0]!.text)).toEqual(result.structuredContent);
+    expect(TOOL_OUTPUTS.reset_graph!.schema.safeParse(result.structuredContent).success).toBe(true);
+
+    const failure = toolResult({ success: false, error: "Entity not found: nope" });
+    expect(failure).toMatchObject({ isError: true });
+    expect(failure.structuredContent).toBeUndefined();
+    expect(JSON.parse(failure.content[0]!.text)).toEqual({ success: false, error: "Entity not found: nope" });
+
+    // Moving a field breaks the contract
+    expect(TOOL_OUTPUTS.find_similar_code!.schema.safeParse({ matches: [] }).success).toBe(false);
+  });
+
+  describe("against real reports", () => {
+    let fixture: IndexedFixture;
+    let root: string;
+    let storage: GraphStorageImpl;
+
+    beforeEach(async () => {
+      fixture = await createIndexedFixture(FILES, { resolveSymbols: false });
+      ({ root, storage } = fixture);
+    });
+
+    afterEach(() => fixture.cleanup());
+
+    it("match the declared schemas", async () => {
+      const symbols = await resolveCrossFileSymbols(storage, { rootDir: root });
+      const [handle] = (await storage.getEntitiesByFile(join(root, "src/handler.ts"))).filter(
+        (entity) => entity.name === "handle",
+      );
+      const [loadUser] = (await storage.getEntitiesByFile(join(root, "src/user.ts"))).filter(
+        (entity) => entity.name === "loadUser",
+      );
+
+      const payloads: Record<string, object> = {
+        resolve_symbols: { success: true, ...symbols },
+        get_entity_source: { success: true, ...(await getEntitySource(storage, loadUser!)) },
+        find_path: { success: true, ...(await findPaths(storage, handle!, loadUser!)) },
+        detect_cycles: { success: true, ...(await detectCycles(storage, { rootDir: root })) },
+      };
+
+      for (const [name, payload] of Object.entries(payloads)) {
+        const { structuredContent } = toolResult(payload);
+        const parsed = TOOL_OUTPUTS[name]!.schema.safeParse(structuredContent);
+        expect({ name, issues: parsed.success ? [] : parsed.error.issues }).toEqual({ name, issues: [] });
+      }
+    });
+  });
+});
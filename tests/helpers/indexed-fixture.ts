@@ -0,0 +1,91 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { IndexerAgent } from "../../src/agents/indexer-agent.js";
+import { isFileSupported } from "../../src/parsers/language-configs.js";
+import { TreeSitterParser } from "../../src/parsers/tree-sitter-parser.js";
+import { resetCacheManager } from "../../src/storage/cache-manager.js";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { getGraphStorage, resetGraphStorage } from "../../src/storage/graph-storage-factory.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { resolveCrossFileSymbols } from "../../src/tools/symbol-resolution.js";
+
+export interface IndexedFixtureOptions {
+  /** Product the files are indexed under */
+  product_id?: string;
+  /** Link imports and calls across files once the files are indexed (default true) */
+  resolveSymbols?: boolean;
+}
+
+/**
+ * Source files written to a temporary root and indexed into an in-memory graph
+ */
+export interface IndexedFixture {
+  root: string;
+  manager: SQLiteManager;
+  agent: IndexerAgent;
+  storage: GraphStorageImpl;
+  /** Write more files under the root and index the ones a grammar exists for */
+  indexFiles(files: Record<string, string>): Promise<void>;
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Write files (paths relative to a fresh temporary root), parse and index them, and resolve their
+ * symbols across files. Resets the graph storage and cache singletons before and after.
+ */
+export async function createIndexedFixture(
+  files: Record<string, string> = {},
+  options: IndexedFixtureOptions = {},
+): Promise<IndexedFixture> {
+  const root = mkdtempSync(join(tmpdir(), "indexed-fixture-"));
+  resetGraphStorage();
+  resetCacheManager();
+  const manager = new SQLiteManager({ memory: true });
+  const agent = new IndexerAgent(manager);
+  await agent.initialize();
+  const storage = (await getGraphStorage(manager)) as GraphStorageImpl;
+  const parser = new TreeSitterParser();
+  await parser.initialize();
+
+  const indexFiles = async (entries: Record<string, string>) => {
+    for (const [relativePath, content] of Object.entries(entries)) {
+      const filePath = join(root, relativePath);
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, content);
+    }
+    for (const [relativePath, content] of Object.entries(entries)) {
+      const filePath = join(root, relativePath);
+      if (!isFileSupported(filePath)) continue;
+      const result: any = await parser.parse(filePath, content, `hash-${relativePath}`);
+      const relationships = (result.relationships ?? []).map((r: any) => ({
+        from: r.from,
+        to: r.to,
+        type: r.type,
+        targetFile: r.targetFile ?? filePath,
+        metadata: r.metadata,
+      }));
+      await agent.indexEntities(result.entities, filePath, relationships, options.product_id);
+    }
+  };
+
+  await indexFiles(files);
+  if (options.resolveSymbols !== false) {
+    await resolveCrossFileSymbols(storage, { rootDir: root, product_id: options.product_id });
+  }
+
+  return {
+    root,
+    manager,
+    agent,
+    storage,
+    indexFiles,
+    cleanup: async () => {
+      await agent.shutdown();
+      manager.close();
+      resetGraphStorage();
+      resetCacheManager();
+      rmSync(root, { recursive: true, force: true });
+    },
+  };
+}
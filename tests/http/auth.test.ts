@@ -0,0 +1,116 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import express from "express";
+import { authenticate, hasScope, requireScope, scopeForTool } from "../../src/http/middleware/auth.js";
+import { errorHandler } from "../../src/http/middleware/error.js";
+import analysisRoutes from "../../src/http/routes/analysis.js";
+import { createAuthRoutes } from "../../src/http/routes/auth.js";
+import lernaRoutes from "../../src/http/routes/lerna.js";
+import { ApiKeyStore, hashApiKey } from "../../src/storage/api-key-store.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+
+const ADMIN_TOKEN = "test-admin-token";
+
+describe("HTTP API authentication", () => {
+  let manager: SQLiteManager;
+  let store: ApiKeyStore;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    manager = new SQLiteManager({ memory: true });
+    store = new ApiKeyStore(manager);
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api", authenticate(store, { disabled: false, adminToken: ADMIN_TOKEN }), requireScope("read"));
+    app.use("/api/auth", createAuthRoutes(store));
+    app.get("/api/graph/stats", (_req, res) => res.json({ success: true }));
+    app.post("/api/graph/reset", requireScope("admin"), (_req, res) => res.json({ success: true }));
+    app.use("/api/analysis", analysisRoutes);
+    app.use("/api/lerna", lernaRoutes);
+    app.use(errorHandler);
+
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    manager.close();
+  });
+
+  function call(path: string, token?: string, init: RequestInit = {}) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return fetch(`${baseUrl}${path}`, { ...init, headers });
+  }
+
+  it("orders scopes and maps tools to the scope they need", () => {
+    expect(hasScope(["admin"], "index")).toBe(true);
+    expect(hasScope(["index"], "read")).toBe(true);
+    expect(hasScope(["read"], "index")).toBe(false);
+    expect(scopeForTool("semantic_search")).toBe("read");
+    expect(scopeForTool("index")).toBe("index");
+    expect(scopeForTool("lerna_project_graph")).toBe("index");
+    expect(scopeForTool("jscpd_detect_clones", {})).toBe("index");
+    expect(scopeForTool("detect_code_clones", { persist: false })).toBe("read");
+    expect(scopeForTool("reset_graph")).toBe("admin");
+  });
+
+  it("rejects missing keys and enforces scopes on destructive routes", async () => {
+    const missing = await call("/api/graph/stats");
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect(((await missing.json()) as any).error.code).toBe("UNAUTHORIZED");
+
+    expect((await call("/api/graph/stats", "cgr_unknown")).status).toBe(401);
+
+    const { key: readKey } = store.createKey({ name: "reader", scopes: ["read"] });
+    expect((await call("/api/graph/stats", readKey)).status).toBe(200);
+
+    const forbidden = await call("/api/graph/reset", readKey, { method: "POST" });
+    expect(forbidden.status).toBe(403);
+    expect(((await forbidden.json()) as any).error.code).toBe("FORBIDDEN");
+    expect(
+      (await call("/api/lerna/graph", readKey, { method: "POST", body: JSON.stringify({ ingest: true }) })).status,
+    ).toBe(403);
+    expect((await call("/api/analysis/jscpd-clones", readKey, { method: "POST", body: "{}" })).status).toBe(403);
+
+    const viaHeader = await fetch(`${baseUrl}/api/graph/stats`, { headers: { "X-API-Key": readKey } });
+    expect(viaHeader.status).toBe(200);
+
+    expect((await call("/api/graph/reset", ADMIN_TOKEN, { method: "POST" })).status).toBe(200);
+  });
+
+  it("issues keys through the admin token, stores only hashes and honours revocation", async () => {
+    const created = await call("/api/auth/keys", ADMIN_TOKEN, {
+      method: "POST",
+      body: JSON.stringify({ name: "ci", scopes: ["index"] }),
+    });
+    expect(created.status).toBe(201);
+    const { data } = (await created.json()) as any;
+    expect(data.key).toMatch(/^cgr_/);
+    expect(data.apiKey).toMatchObject({ name: "ci", scopes: ["index"] });
+
+    const rows = manager.getConnection().prepare("SELECT key_hash, key_prefix FROM api_keys").all() as any[];
+    expect(rows).toEqual([{ key_hash: hashApiKey(data.key), key_prefix: data.key.slice(0, 10) }]);
+    expect(JSON.stringify(rows)).not.toContain(data.key);
+
+    const me = (await (await call("/api/auth/me", data.key)).json()) as any;
+    expect(me.data).toMatchObject({ authenticated: true, clientId: data.apiKey.id, scopes: ["index"] });
+    expect((await call("/api/auth/keys", data.key)).status).toBe(403);
+
+    const revoked = await call(`/api/auth/keys/${data.apiKey.id}`, ADMIN_TOKEN, { method: "DELETE" });
+    expect(revoked.status).toBe(200);
+    expect((await call("/api/auth/me", data.key)).status).toBe(401);
+    expect(store.listKeys()).toHaveLength(0);
+    expect(store.listKeys(true)[0]?.revoked_at).toBeDefined();
+
+    const { key: expired } = store.createKey({ name: "old", scopes: ["read"], expires_at: Date.now() - 1000 });
+    expect(store.verifyKey(expired)).toBeNull();
+  });
+});
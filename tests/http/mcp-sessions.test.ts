@@ -0,0 +1,151 @@
+import type { Server as HttpServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import express from "express";
+import { McpToolRegistry } from "../../src/core/mcp-tool-registry.js";
+import { toolResult } from "../../src/core/tool-outputs.js";
+import { InMemoryEventStore } from "../../src/http/mcp-event-store.js";
+import { McpSessionManager, PRODUCT_HEADER, WORKSPACE_ROOT_HEADER } from "../../src/http/mcp-sessions.js";
+import { HttpError } from "../../src/http/middleware/error.js";
+
+describe("MCP HTTP sessions", () => {
+  let sessions: McpSessionManager;
+  let httpServer: HttpServer;
+  let url: URL;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    const registry = new McpToolRegistry({
+      listTools: () => [{ name: "whereami", inputSchema: { type: "object" } }],
+      executeTool: async (_name, args, _requestId, _startTime, context) =>
+        toolResult({ success: true, rootDir: context.workspace?.rootDir, args }),
+    });
+    sessions = new McpSessionManager({
+      createServer: (workspace) => {
+        const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+        registry.attach(server, workspace);
+        return server;
+      },
+      resolveWorkspace: ({ rootDir = "/repos", product_id }) => {
+        if (!rootDir.startsWith("/repos")) throw new HttpError(403, `Workspace root must be inside /repos`);
+        return { rootDir, product_id };
+      },
+    });
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for `authenticate`: the API key identity the transports pass on
+    app.use((req, _res, next) => {
+      const clientId = req.headers["x-client-id"];
+      if (typeof clientId === "string") {
+        (req as express.Request & { auth?: unknown }).auth = { token: clientId, clientId, scopes: ["admin"] };
+      }
+      next();
+    });
+    app.all("/mcp", (req, res) => {
+      sessions.handleStreamable(req, res).catch(() => res.status(500).end());
+    });
+
+    httpServer = await new Promise<HttpServer>((resolve) => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening));
+    });
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.splice(0).map((client) => client.close()));
+    await sessions.closeAll();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  async function connect(headers: Record<string, string>) {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    clients.push(client);
+    await client.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers } }));
+    return client;
+  }
+
+  async function whereami(client: Client, args: Record<string, unknown> = {}) {
+    const result = await client.callTool({ name: "whereami", arguments: args });
+    return JSON.parse((result.content as Array<{ text: string }>)[0]!.text);
+  }
+
+  it("binds each session to the workspace and product it asked for", async () => {
+    const web = await connect({ [WORKSPACE_ROOT_HEADER]: "/repos/web", [PRODUCT_HEADER]: "shop", "x-client-id": "a" });
+    const api = await connect({ [WORKSPACE_ROOT_HEADER]: "/repos/api", "x-client-id": "b" });
+
+    expect(await whereami(web, { query: "x" })).toMatchObject({
+      rootDir: "/repos/web",
+      args: { query: "x", product_id: "shop" },
+    });
+    expect(await whereami(api)).toMatchObject({ rootDir: "/repos/api", args: {} });
+    expect(await whereami(web, { product_id: "billing" })).toMatchObject({
+      success: false,
+      errorType: "forbidden",
+      error: "This session is scoped to product shop",
+    });
+
+    expect(
+      sessions
+        .listSessions()
+        .map((session) => [session.transport, session.workspace.rootDir, session.clientId])
+        .sort(),
+    ).toEqual([
+      ["streamable", "/repos/api", "b"],
+      ["streamable", "/repos/web", "a"],
+    ]);
+  });
+
+  it("rejects workspaces outside the allowed root and sessions used with another API key", async () => {
+    await expect(connect({ [WORKSPACE_ROOT_HEADER]: "/etc" })).rejects.toThrow(/403|inside \/repos/);
+
+    await connect({ "x-client-id": "a" });
+    const [session] = sessions.listSessions();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "mcp-session-id": session!.sessionId,
+        "mcp-protocol-version": "2025-03-26",
+        "x-client-id": "b",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(403);
+
+    const unknown = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "mcp-session-id": "no-such-session" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it("replays the events a client missed after the ID it last saw", async () => {
+    const store = new InMemoryEventStore(2);
+    const message = (id: number): JSONRPCMessage => ({ jsonrpc: "2.0", id, result: {} });
+    const first = await store.storeEvent("stream-a", message(1));
+    await store.storeEvent("stream-b", message(2));
+    await store.storeEvent("stream-a", message(3));
+    await store.storeEvent("stream-a", message(4));
+
+    const replayed: Array<[string, JSONRPCMessage]> = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (eventId, event) => {
+        replayed.push([eventId, event]);
+      },
+    });
+
+    expect(streamId).toBe("stream-a");
+    expect(replayed.map(([, event]) => (event as { id: number }).id)).toEqual([3, 4]);
+    // Older events beyond the per-stream limit are dropped
+    expect(store.size).toBe(3);
+    await expect(store.replayEventsAfter("unknown@1", { send: async () => {} })).rejects.toThrow(/Unknown event ID/);
+  });
+});
@@ -0,0 +1,157 @@
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { IndexerAgent } from "../../src/agents/indexer-agent.js";
+import { computeVbaMetrics } from "../../src/parsers/code-metrics.js";
+import { TreeSitterParser } from "../../src/parsers/tree-sitter-parser.js";
+import { resetCacheManager } from "../../src/storage/cache-manager.js";
+import { getGraphStorage, resetGraphStorage } from "../../src/storage/graph-storage-factory.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import type { ParsedEntity } from "../../src/types/parser.js";
+
+const TYPESCRIPT = `export function classify(items: number[], limit: number, strict: boolean): string {
+  let label = "none";
+  for (const item of items) {
+    // compare against the limit
+    if (item > limit && strict) {
+      label = "high";
+    } else if (item === limit) {
+      label = "equal";
+    } else {
+      label = item < 0 ? "negative" : "low";
+    }
+  }
+  return label;
+}
+
+export function identity(value: string): string {
+  return value;
+}
+`;
+
+const PYTHON = `class Scorer:
+    def score(self, values, threshold=0):
+        total = 0
+        for v in values:
+            if v > threshold or v is None:
+                total += 1
+            elif v == threshold:
+                total += 2
+        return total
+`;
+
+const GO = `package main
+
+func pick(kind string, n int) int {
+	switch kind {
+	case "a":
+		return n
+	case "b":
+		if n > 0 {
+			return -n
+		}
+	default:
+		return 0
+	}
+	return 1
+}
+`;
+
+const VBA = `Public Function Grade(score As Integer) As String
+    ' letter grade
+    If score > 90 Then
+        Grade = "A"
+    ElseIf score > 75 And score < 90 Then
+        Grade = "B"
+    Else
+        Grade = "C"
+    End If
+End Function
+`;
+
+describe("syntax-tree code metrics", () => {
+  let parser: TreeSitterParser;
+
+  const parse = async (file: string, code: string) => {
+    const result = await parser.parse(file, code, `hash-${file}`);
+    return result.entities as ParsedEntity[];
+  };
+  const find = (entities: ParsedEntity[], name: string) => {
+    const all = entities.flatMap((entity) => [entity, ...(entity.children ?? [])]);
+    return all.find((entity) => entity.name === name && entity.metrics);
+  };
+
+  beforeAll(async () => {
+    parser = new TreeSitterParser();
+    await parser.initialize();
+  });
+
+  afterAll(() => {
+    parser.clearCache();
+  });
+
+  it("measures TypeScript functions", async () => {
+    const entities = await parse("classify.ts", TYPESCRIPT);
+
+    expect(find(entities, "classify")!.metrics).toMatchObject({
+      cyclomatic: 6,
+      cognitive: 9,
+      maxNesting: 3,
+      parameters: 3,
+      loc: 14,
+      sloc: 13,
+    });
+    const identity = find(entities, "identity")!.metrics!;
+    expect(identity).toMatchObject({ cyclomatic: 1, cognitive: 0, maxNesting: 0, parameters: 1, loc: 3, sloc: 3 });
+    expect(identity.halstead.distinctOperands).toBe(2);
+    expect(identity.halstead.volume).toBeGreaterThan(0);
+  });
+
+  it("measures Python, Go and VBA procedures", async () => {
+    expect(find(await parse("scorer.py", PYTHON), "score")!.metrics).toMatchObject({
+      cyclomatic: 5,
+      cognitive: 5,
+      maxNesting: 2,
+      parameters: 2,
+    });
+    expect(find(await parse("pick.go", GO), "pick")!.metrics).toMatchObject({
+      cyclomatic: 4,
+      cognitive: 3,
+      maxNesting: 2,
+      parameters: 2,
+    });
+    expect(computeVbaMetrics(VBA.split("\n"), 1)).toMatchObject({
+      cyclomatic: 4,
+      cognitive: 4,
+      maxNesting: 1,
+      parameters: 1,
+      loc: 10,
+      sloc: 9,
+    });
+  });
+
+  it("stores cyclomatic complexity as the entity's complexity score", async () => {
+    resetGraphStorage();
+    resetCacheManager();
+    const manager = new SQLiteManager({ memory: true });
+    const agent = new IndexerAgent(manager);
+    await agent.initialize();
+
+    try {
+      await agent.indexEntities(await parse("/repo/classify.ts", TYPESCRIPT), "/repo/classify.ts", []);
+      const storage = await getGraphStorage(manager);
+
+      const ranked = await storage.findEntities({
+        type: "entity",
+        filters: { entityType: ["function" as any], minComplexity: 2 },
+        orderBy: "complexity",
+      });
+      expect(ranked.map((entity) => entity.name)).toEqual(["classify"]);
+      expect(ranked[0]!.complexityScore).toBe(6);
+      expect(ranked[0]!.metadata.metrics).toMatchObject({ cyclomatic: 6, cognitive: 9 });
+    } finally {
+      await agent.shutdown();
+      manager.close();
+      resetGraphStorage();
+      resetCacheManager();
+    }
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * TypeScript / JavaScript Analyzer Tests
+ *
+ * Test suite for entity and relationship extraction from TS, TSX and JS sources
+ */
+
+import { TreeSitterParser } from "../../src/parsers/tree-sitter-parser";
+import type { EntityRelationship } from "../../src/types/parser";
+
+function findRelationship(relationships: EntityRelationship[], type: string, from: string, to: string) {
+  return relationships.find((r) => r.type === type && r.from === from && r.to === to);
+}
+
+describe("TypeScriptAnalyzer", () => {
+  let parser: TreeSitterParser;
+
+  beforeAll(async () => {
+    parser = new TreeSitterParser();
+    await parser.initialize();
+  });
+
+  it("should extract imports, re-exports and calls through imported bindings", async () => {
+    const code = `
+import React, { useState as useLocalState } from "react";
+import * as utils from "./utils";
+import type { Options } from "./types";
+export { helper as publicHelper } from "./helper";
+export * from "./all";
+
+export function run(options: Options) {
+  utils.format(options);
+  useLocalState(0);
+  return local();
+}
+
+function local() {
+  return 1;
+}
+    `;
+
+    const result = await parser.parse("/src/run.ts", code, "ts-hash-1");
+    const relationships = (result as any).relationships as EntityRelationship[];
+
+    const module = result.entities.find((e) => e.type === "module");
+    expect(module?.name).toBe("run.ts");
+
+    const reactImport = result.entities.find((e) => e.type === "import" && e.name === "react");
+    expect(reactImport?.importData?.isDefault).toBe(true);
+    expect(reactImport?.importData?.specifiers).toContainEqual({ local: "useLocalState", imported: "useState" });
+    const utilsImport = result.entities.find((e) => e.type === "import" && e.name === "./utils");
+    expect(utilsImport?.importData?.isNamespace).toBe(true);
+    expect(result.entities.find((e) => e.name === "./types")?.metadata?.isTypeOnly).toBe(true);
+
+    expect(findRelationship(relationships, "imports", "run.ts", "useState")?.targetFile).toBe("react");
+    expect(findRelationship(relationships, "exports", "run.ts", "helper")?.targetFile).toBe("./helper");
+    expect(findRelationship(relationships, "exports", "run.ts", "*")?.targetFile).toBe("./all");
+    expect(findRelationship(relationships, "exports", "run.ts", "run")).toBeDefined();
+
+    expect(findRelationship(relationships, "calls", "run", "format")?.targetFile).toBe("./utils");
+    expect(findRelationship(relationships, "calls", "run", "useState")?.targetFile).toBe("react");
+    expect(findRelationship(relationships, "calls", "run", "local")?.targetFile).toBeUndefined();
+    expect(findRelationship(relationships, "references", "run", "Options")?.targetFile).toBe("./types");
+
+    const run = result.entities.find((e) => e.name === "run");
+    expect(run?.modifiers).toContain("export");
+  });
+
+  it("should extract classes with heritage, decorators and members", async () => {
+    const code = `
+import { Injectable } from "@nestjs/common";
+import { BaseService } from "./base";
+
+@Injectable()
+export abstract class UserService extends BaseService<User> implements Disposable {
+  private cache: Map<string, User> = new Map();
+
+  constructor(private readonly repo: UserRepository) {
+    super();
+  }
+
+  async find(id: string): Promise<User> {
+    return this.load(id);
+  }
+
+  private load = (id: string) => this.repo.get(id);
+
+  abstract dispose(): void;
+}
+
+interface Disposable extends Closeable {
+  dispose(): void;
+}
+
+type UserId = string | Identifier;
+
+enum Role { Admin, User }
+    `;
+
+    const result = await parser.parse("/src/user-service.ts", code, "ts-hash-2");
+    const relationships = (result as any).relationships as EntityRelationship[];
+
+    const service = result.entities.find((e) => e.type === "class" && e.name === "UserService");
+    expect(service?.modifiers).toEqual(expect.arrayContaining(["abstract", "export"]));
+    expect(service?.inheritance?.baseClasses).toEqual(["BaseService"]);
+    expect(service?.inheritance?.interfaces).toEqual(["Disposable"]);
+    expect(service?.decorators?.[0]?.name).toBe("Injectable");
+
+    expect(findRelationship(relationships, "inherits", "UserService", "BaseService")?.targetFile).toBe("./base");
+    expect(findRelationship(relationships, "implements", "UserService", "Disposable")).toBeDefined();
+    expect(findRelationship(relationships, "references", "UserService", "Injectable")?.metadata?.referenceKind).toBe(
+      "decorator",
+    );
+    expect(findRelationship(relationships, "references", "UserService", "User")).toBeDefined();
+
+    const members = result.entities.filter((e) => e.metadata?.className === "UserService").map((e) => e.name);
+    expect(members).toEqual(expect.arrayContaining(["cache", "constructor", "repo", "find", "load", "dispose"]));
+    expect(result.entities.find((e) => e.name === "repo")?.metadata?.isParameterProperty).toBe(true);
+    expect(result.entities.find((e) => e.name === "load")?.type).toBe("method");
+    expect(result.entities.find((e) => e.name === "dispose" && e.type === "method")?.modifiers).toContain("abstract");
+
+    expect(findRelationship(relationships, "member_of", "find", "UserService")?.metadata?.memberType).toBe("method");
+    expect(findRelationship(relationships, "member_of", "repo", "UserService")?.metadata?.memberType).toBe("field");
+    expect(findRelationship(relationships, "calls", "find", "load")?.metadata?.receiver).toBe("this");
+    expect(findRelationship(relationships, "calls", "load", "get")?.metadata?.receiver).toBe("this.repo");
+    expect(findRelationship(relationships, "references", "constructor", "UserRepository")).toBeDefined();
+    // Builtin types are not graph nodes
+    expect(findRelationship(relationships, "references", "cache", "Map")).toBeUndefined();
+
+    expect(findRelationship(relationships, "inherits", "Disposable", "Closeable")).toBeDefined();
+    expect(findRelationship(relationships, "references", "UserId", "Identifier")).toBeDefined();
+    expect(result.entities.find((e) => e.type === "enum")?.metadata?.members).toEqual(["Admin", "User"]);
+  });
+
+  it("should detect React components and JSX usage", async () => {
+    const code = `
+import React, { memo } from "react";
+import { Card } from "./card";
+import * as UI from "./ui";
+
+export function Profile({ name }: ProfileProps) {
+  return (
+    <Card>
+      <UI.Avatar name={name} />
+      <span>{name}</span>
+    </Card>
+  );
+}
+
+export const Badge = memo(() => <Profile name="x" />);
+
+export default class Legacy extends React.Component {
+  render() {
+    return <Badge />;
+  }
+}
+    `;
+
+    const result = await parser.parse("/src/profile.tsx", code, "tsx-hash-1");
+    const relationships = (result as any).relationships as EntityRelationship[];
+
+    expect(result.entities.find((e) => e.name === "Profile")?.metadata?.isReactComponent).toBe(true);
+    const badge = result.entities.find((e) => e.name === "Badge");
+    expect(badge?.type).toBe("function");
+    expect(badge?.metadata?.wrapper).toBe("memo");
+    expect(result.entities.find((e) => e.name === "Legacy")?.metadata?.isReactComponent).toBe(true);
+    expect(result.entities.find((e) => e.name === "Legacy")?.modifiers).toContain("default");
+
+    const jsx = relationships.filter((r) => r.type === "calls" && r.metadata?.callType === "jsx");
+    expect(findRelationship(jsx, "calls", "Profile", "Card")?.targetFile).toBe("./card");
+    expect(findRelationship(jsx, "calls", "Profile", "Avatar")?.targetFile).toBe("./ui");
+    expect(findRelationship(jsx, "calls", "Badge", "Profile")).toBeDefined();
+    expect(findRelationship(jsx, "calls", "render", "Badge")).toBeDefined();
+    // Intrinsic elements are not components
+    expect(jsx.some((r) => r.to === "span")).toBe(false);
+  });
+
+  it("should handle CommonJS modules", async () => {
+    const code = `
+const path = require("path");
+const { helper, other: renamed } = require("./helper");
+
+function main() {
+  const widget = new Widget();
+  helper();
+  renamed();
+  path.join("a", "b");
+  console.log(widget);
+}
+
+module.exports = { main };
+    `;
+
+    const result = await parser.parse("/src/main.js", code, "js-hash-1");
+    const relationships = (result as any).relationships as EntityRelationship[];
+
+    const helperImport = result.entities.find((e) => e.type === "import" && e.name === "./helper");
+    expect(helperImport?.metadata?.isRequire).toBe(true);
+    expect(helperImport?.importData?.specifiers).toContainEqual({ local: "renamed", imported: "other" });
+
+    expect(findRelationship(relationships, "calls", "main", "helper")?.targetFile).toBe("./helper");
+    expect(findRelationship(relationships, "calls", "main", "other")?.targetFile).toBe("./helper");
+    expect(findRelationship(relationships, "calls", "main", "join")?.targetFile).toBe("path");
+    expect(findRelationship(relationships, "calls", "main", "Widget")?.metadata?.callType).toBe("new");
+    // Calls on unknown receivers are not recorded
+    expect(relationships.some((r) => r.to === "log")).toBe(false);
+
+    expect(findRelationship(relationships, "exports", "main.js", "main")).toBeDefined();
+    expect(result.entities.find((e) => e.name === "main")?.modifiers).toContain("export");
+  });
+});
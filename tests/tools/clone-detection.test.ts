@@ -0,0 +1,180 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { IndexerAgent } from "../../src/agents/indexer-agent.js";
+import { TreeSitterParser } from "../../src/parsers/tree-sitter-parser.js";
+import { resetCacheManager } from "../../src/storage/cache-manager.js";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { getGraphStorage, resetGraphStorage } from "../../src/storage/graph-storage-factory.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { tokenizeForClones } from "../../src/tools/clone-tokenizer.js";
+import { runJscpdCloneDetection } from "../../src/tools/jscpd.js";
+
+const ORIGINAL = `export function totalPrice(items: Item[], taxRate: number): number {
+  let sum = 0;
+  for (const item of items) {
+    if (item.quantity > 0) {
+      sum += item.price * item.quantity;
+    }
+  }
+  const tax = sum * taxRate;
+  return Math.round((sum + tax) * 100) / 100;
+}
+`;
+
+// Same code with every identifier and literal changed (Type-2)
+const RENAMED = `// Copied from the cart module
+export function orderTotal(lines: Line[], vat: number): number {
+  let acc = 0;
+  for (const line of lines) {
+    if (line.count > 1) {
+      acc += line.cost * line.count;
+    }
+  }
+  const extra = acc * vat;
+  return Math.round((acc + extra) * 1000) / 1000;
+}
+`;
+
+// Same code with one statement added in the middle (Type-3)
+const GAPPED = `export function invoiceTotal(rows: Row[], rate: number): number {
+  let sum = 0;
+  for (const row of rows) {
+    if (row.quantity > 0) {
+      sum += row.price * row.quantity;
+    }
+  }
+  log(sum);
+  const tax = sum * rate;
+  return Math.round((sum + tax) * 100) / 100;
+}
+`;
+
+describe("syntax-aware clone detection", () => {
+  let root: string;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = join(root, relativePath);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "clone-detection-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("tokenizes through tree-sitter, dropping comments and normalizing names and literals", async () => {
+    const parser = new TreeSitterParser();
+    await parser.initialize();
+
+    const tokens = await tokenizeForClones(parser, "a.py", "def f(x):  # note\n    return x + 1.5 + 'y'\n", {
+      normalize: true,
+      ignoreCase: false,
+    });
+    expect(tokens.map((token) => token.value)).toEqual([
+      "def",
+      "$id",
+      "(",
+      "$id",
+      ")",
+      ":",
+      "return",
+      "$id",
+      "+",
+      "$num",
+      "+",
+      "$str",
+    ]);
+    expect(tokens[7]).toMatchObject({ raw: "x", line: 2, column: 11 });
+
+    const vba = await tokenizeForClones(parser, "m.bas", "Dim total As Long ' running sum\ntotal = 5\n", {
+      normalize: true,
+      ignoreCase: false,
+    });
+    expect(vba.map((token) => token.value)).toEqual(["dim", "$id", "as", "$id", "$id", "=", "$num"]);
+  });
+
+  it("finds renamed (Type-2) and gapped (Type-3) copies that line matching misses", async () => {
+    write("src/cart.ts", ORIGINAL);
+    write("src/orders.ts", RENAMED);
+    write("src/invoices.ts", GAPPED);
+
+    const result = await runJscpdCloneDetection({ paths: [root], formats: ["ts"], minTokens: 40, minLines: 5 });
+    const pairs = result.summary.clones.map((detail) => ({
+      files: [detail.clone.duplicationA.sourceId, detail.clone.duplicationB.sourceId].map((path) =>
+        path.slice(root.length + 1),
+      ),
+      type: detail.type,
+      similarity: detail.similarity,
+    }));
+
+    expect(pairs).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ files: ["src/cart.ts", "src/orders.ts"], type: 2, similarity: 1 }),
+        expect.objectContaining({ files: ["src/cart.ts", "src/invoices.ts"], type: 3 }),
+      ]),
+    );
+    const gapped = pairs.find((pair) => pair.type === 3)!;
+    expect(gapped.similarity).toBeGreaterThanOrEqual(0.8);
+    expect(gapped.similarity).toBeLessThan(1);
+    expect(result.summary.clonesByType.type2).toBeGreaterThan(0);
+
+    const exact = await runJscpdCloneDetection({
+      paths: [root],
+      formats: ["ts"],
+      minTokens: 40,
+      minLines: 5,
+      normalize: false,
+      maxGap: 0,
+    });
+    expect(exact.summary.cloneCount).toBe(0);
+  });
+
+  it("groups copies into clone classes carrying entity IDs", async () => {
+    const files = [write("src/cart.ts", ORIGINAL), write("src/orders.ts", RENAMED), write("lib/billing.ts", ORIGINAL)];
+
+    resetGraphStorage();
+    resetCacheManager();
+    const manager = new SQLiteManager({ memory: true });
+    const agent = new IndexerAgent(manager);
+    await agent.initialize();
+    const storage = (await getGraphStorage(manager)) as GraphStorageImpl;
+    const parser = new TreeSitterParser();
+    await parser.initialize();
+    for (const filePath of files) {
+      const parsed: any = await parser.parse(filePath, readFileSync(filePath, "utf8"), `hash-${filePath}`);
+      await agent.indexEntities(parsed.entities, filePath, []);
+    }
+
+    try {
+      const result = await runJscpdCloneDetection(
+        { paths: [root], formats: ["ts"], minTokens: 40, minLines: 5 },
+        storage,
+      );
+
+      expect(result.cloneClasses).toHaveLength(1);
+      const [cloneClass] = result.cloneClasses;
+      expect(cloneClass!.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+      expect(cloneClass!.type).toBe(2);
+      expect(cloneClass!.fragments.map((fragment) => fragment.sourceId).sort()).toEqual([...files].sort());
+      expect(cloneClass!.clones).toHaveLength(3);
+
+      const functions = await storage.findEntities({ type: "entity", filters: { entityType: "function" as any } });
+      const byFile = new Map(functions.map((entity) => [entity.filePath, entity.id]));
+      for (const fragment of cloneClass!.fragments) {
+        expect(fragment.entityIds).toEqual([byFile.get(fragment.sourceId)]);
+      }
+    } finally {
+      await agent.shutdown();
+      manager.close();
+      resetGraphStorage();
+      resetCacheManager();
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { CloneRunStore } from "../../src/storage/clone-run-store.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { getCloneTrends, recordCloneRun, renderCloneReport } from "../../src/tools/clone-report.js";
+import { runJscpdCloneDetection } from "../../src/tools/jscpd.js";
+
+const TOTAL = `export function totalPrice(items: Item[], taxRate: number): number {
+  let sum = 0;
+  for (const item of items) {
+    if (item.quantity > 0) {
+      sum += item.price * item.quantity;
+    }
+  }
+  const tax = sum * taxRate;
+  return Math.round((sum + tax) * 100) / 100;
+}
+`;
+
+const VALIDATE = `export function validateUser(user: User): string[] {
+  const errors: string[] = [];
+  if (!user.name || user.name.length < 2) {
+    errors.push("name is too short");
+  }
+  if (!user.email || !user.email.includes("@")) {
+    errors.push("email is invalid");
+  }
+  if (user.age !== undefined && (user.age < 0 || user.age > 150)) {
+    errors.push("age is out of range");
+  }
+  return errors;
+}
+`;
+
+describe("clone runs", () => {
+  let root: string;
+  let manager: SQLiteManager;
+  let store: CloneRunStore;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = join(root, relativePath);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+  };
+
+  const detectAndRecord = async () => {
+    const result = await runJscpdCloneDetection({ paths: [root], formats: ["ts"], minTokens: 40, minLines: 5 });
+    return {
+      result,
+      run: recordCloneRun(store, result, { tool: "jscpd_detect_clones", paths: [root], product_id: "shop" }),
+    };
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "clone-runs-"));
+    manager = new SQLiteManager({ memory: true });
+    store = new CloneRunStore(manager);
+  });
+
+  afterEach(() => {
+    manager.close();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("treats the first run as the baseline and reports only copies added since", async () => {
+    write("src/cart.ts", TOTAL);
+    write("src/orders.ts", TOTAL);
+    write("src/users.ts", VALIDATE);
+
+    const first = await detectAndRecord();
+    expect(first.run.diff).toMatchObject({ newClasses: 0, newFragments: 0, hasNewDuplication: false });
+    expect(first.run.diff.previousRunId).toBeUndefined();
+    expect(first.run.classCount).toBe(1);
+
+    // Unchanged code, moved down a few lines, is not new duplication
+    write("src/orders.ts", `// orders\n\n\n${TOTAL}`);
+    const second = await detectAndRecord();
+    expect(second.run.diff).toMatchObject({
+      previousRunId: first.run.id,
+      newClasses: 0,
+      newFragments: 0,
+      unchangedClasses: 1,
+      hasNewDuplication: false,
+    });
+
+    write("src/invoices.ts", TOTAL);
+    write("src/admins.ts", VALIDATE);
+    const third = await detectAndRecord();
+    expect(third.run.diff).toMatchObject({
+      newClasses: 1,
+      newFragments: 3,
+      resolvedClasses: 0,
+      hasNewDuplication: true,
+    });
+    expect(third.result.statistic.total.newClones).toBeGreaterThan(0);
+    expect(third.result.statistic.total.newDuplicatedLines).toBe(third.run.totals.newDuplicatedLines);
+
+    const stored = store.getRun(third.run.id, true)!;
+    const newSources = stored
+      .classes!.flatMap((cloneClass) => cloneClass.fragments)
+      .filter((fragment) => fragment.isNew)
+      .map((fragment) => fragment.sourceId.slice(root.length + 1))
+      .sort();
+    expect(newSources).toEqual(["src/admins.ts", "src/invoices.ts", "src/users.ts"]);
+
+    rmSync(join(root, "src/admins.ts"));
+    const fourth = await detectAndRecord();
+    expect(fourth.run.diff).toMatchObject({ newClasses: 0, resolvedClasses: 1, hasNewDuplication: false });
+
+    const [trend] = getCloneTrends(store, { product_id: "shop" });
+    expect(trend!.scope).toBe("product:shop");
+    expect(trend!.points.map((point) => point.runId)).toEqual([first, second, third, fourth].map(({ run }) => run.id));
+    expect(trend!.percentageChange).toBeGreaterThan(0);
+    expect(getCloneTrends(store, { product_id: "shop", limit: 2 })[0]!.points).toHaveLength(2);
+    expect(getCloneTrends(store, { product_id: "other" })).toEqual([]);
+  });
+
+  it("renders SARIF with baseline states, HTML and JSON reports", async () => {
+    write("src/cart.ts", TOTAL);
+    write("src/orders.ts", TOTAL);
+    await detectAndRecord();
+    write("src/invoices.ts", TOTAL);
+    const { run } = await detectAndRecord();
+    const stored = store.getLatestRun(run.scope, true)!;
+    expect(stored.id).toBe(run.id);
+
+    const sarif = renderCloneReport(stored, "sarif");
+    expect(sarif.contentType).toBe("application/sarif+json");
+    const log = JSON.parse(sarif.content);
+    expect(log.version).toBe("2.1.0");
+    const results = log.runs[0].results;
+    expect(results).toHaveLength(3);
+    expect(results[0].ruleId).toBe("code-clone/type-1");
+    expect(results[0].relatedLocations).toHaveLength(2);
+    expect(results[0].locations[0].physicalLocation.artifactLocation.uriBaseId).toBe("SRCROOT");
+    const states = Object.fromEntries(
+      results.map((result: any) => [result.locations[0].physicalLocation.artifactLocation.uri, result.baselineState]),
+    );
+    expect(states).toEqual({ "src/cart.ts": "unchanged", "src/orders.ts": "unchanged", "src/invoices.ts": "new" });
+
+    const onlyNew = JSON.parse(renderCloneReport(stored, "sarif", { onlyNew: true }).content);
+    expect(onlyNew.runs[0].results).toHaveLength(1);
+
+    write("src/<script>.ts", TOTAL);
+    const html = renderCloneReport(store.getLatestRun((await detectAndRecord()).run.scope, true)!, "html");
+    expect(html.contentType).toMatch(/^text\/html/);
+    expect(html.content).toContain("&#60;script&#62;.ts");
+    expect(html.content).not.toContain("<script>");
+
+    const json = JSON.parse(renderCloneReport(stored, "json").content);
+    expect(json.classes).toHaveLength(1);
+    expect(json.diff.newFragments).toBe(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { detectCodeSmells } from "../../src/tools/code-smells.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const caller = (name: string) =>
+  `import { formatMoney } from "./util";\nexport function ${name}() {\n  return formatMoney(1);\n}\n`;
+
+const FILES: Record<string, string> = {
+  "money/util.ts":
+    'import { now } from "./clock";\nexport function formatMoney(value: number): string {\n  return now() + value.toFixed(2);\n}\n',
+  "money/clock.ts":
+    'import { zone } from "./zone";\nimport { offset } from "./offset";\nexport function now(): string {\n  return zone() + offset();\n}\n',
+  "money/zone.ts": 'export function zone() {\n  return "UTC";\n}\n',
+  "money/offset.ts": 'export function offset() {\n  return "+0";\n}\n',
+  "money/cart.ts": caller("showCart"),
+  "money/order.ts": caller("showOrder"),
+  "money/invoice.ts": caller("showInvoice"),
+  "billing/ledger.ts": `export class Ledger {
+  entries: number[] = [];
+  post(amount: number) {
+    this.entries.push(amount);
+  }
+  balance() {
+    return this.entries.reduce((sum, entry) => sum + entry, 0);
+  }
+  close() {
+    this.post(-this.balance());
+  }
+  reset() {
+    this.entries = [];
+  }
+}
+
+const ledger = new Ledger();
+
+export class Report {
+  title() {
+    return "Report";
+  }
+  render() {
+    ledger.post(1);
+    ledger.close();
+    ledger.reset();
+    return this.title() + ledger.balance();
+  }
+}
+`,
+  "billing/shapes.ts": `export class Shape {}
+export class Polygon extends Shape {}
+export class Quad extends Polygon {}
+export class Rectangle extends Quad {}
+export class Square extends Rectangle {}
+
+export function configure(a: number, b: number, c: number, d: number, e: number, f: number, g: number, h: number, i: number, j: number, k: number) {
+  return a + b + c + d + e + f + g + h + i + j + k;
+}
+`,
+};
+
+describe("detectCodeSmells", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES, { product_id: "shop" });
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  it("reports class-level smells with entity IDs, evidence and severity", async () => {
+    const report = await detectCodeSmells(storage, {
+      kinds: ["god_class", "feature_envy", "long_parameter_list", "deep_inheritance"],
+      thresholds: { godClassMembers: 5, godClassCoupling: 2 },
+      product_id: "shop",
+    });
+    const byKind = Object.fromEntries(report.smells.map((smell) => [smell.kind, smell]));
+
+    // Most severe first
+    expect(report.smells[0]).toMatchObject({ kind: "long_parameter_list", name: "configure", severity: "high" });
+    expect(report.smells[0]?.evidence).toMatchObject({ parameters: 11, maxParameters: 5 });
+
+    const ledger = await storage.findEntities({ type: "entity", filters: { name: "Ledger" } });
+    expect(byKind.god_class).toMatchObject({ name: "Ledger", severity: "low" });
+    expect(byKind.god_class?.entityIds[0]).toBe(ledger[0]?.id);
+    expect(byKind.god_class?.evidence).toMatchObject({ members: 5, methods: 4, fanIn: 2 });
+
+    expect(byKind.feature_envy).toMatchObject({ name: "render", severity: "low" });
+    expect(byKind.feature_envy?.entityIds[1]).toBe(ledger[0]?.id);
+    expect(byKind.feature_envy?.evidence).toMatchObject({
+      enviedClass: "Ledger",
+      foreignMembersUsed: 4,
+      ownMembersUsed: 1,
+      ownClass: "Report",
+    });
+
+    expect(byKind.deep_inheritance?.name).toBe("Square");
+    expect(byKind.deep_inheritance?.entityIds).toHaveLength(5);
+    expect(byKind.deep_inheritance?.evidence.chain).toEqual(["Square", "Rectangle", "Quad", "Polygon", "Shape"]);
+    expect(report.byKind).toMatchObject({ god_class: 1, feature_envy: 1, shotgun_surgery: 0 });
+
+    // Defaults are far above this small fixture
+    const defaults = await detectCodeSmells(storage, { kinds: ["god_class", "feature_envy"] });
+    expect(defaults.byKind).toMatchObject({ god_class: 0, feature_envy: 1 });
+    expect(await detectCodeSmells(storage, { product_id: "other" })).toMatchObject({
+      entitiesAnalyzed: 0,
+      smellCount: 0,
+    });
+  });
+
+  it("finds shotgun surgery candidates and unstable file dependencies", async () => {
+    const report = await detectCodeSmells(storage, {
+      directory: join(root, "money"),
+      thresholds: { shotgunSurgeryDependents: 3, shotgunSurgeryFiles: 3 },
+    });
+
+    expect(report.smells.map((smell) => smell.kind).sort()).toEqual(["shotgun_surgery", "unstable_dependency"]);
+    const shotgun = report.smells.find((smell) => smell.kind === "shotgun_surgery")!;
+    expect(shotgun).toMatchObject({ name: "formatMoney", line: 2 });
+    expect(shotgun.evidence).toMatchObject({ dependents: 3, dependentFiles: 3 });
+    expect(shotgun.entityIds).toHaveLength(4);
+
+    const unstable = report.smells.find((smell) => smell.kind === "unstable_dependency")!;
+    expect(unstable.name).toBe("util.ts");
+    expect(unstable.evidence).toMatchObject({ dependency: "clock.ts", instability: 0.25, dependencyInstability: 0.67 });
+
+    const severe = await detectCodeSmells(storage, { minSeverity: "high" });
+    expect(severe.smells.map((smell) => smell.name)).toEqual(["configure"]);
+    expect(severe.bySeverity).toMatchObject({ low: 0, high: 1 });
+  });
+});
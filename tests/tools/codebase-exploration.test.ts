@@ -0,0 +1,92 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { discoverPatterns, exploreCodebase } from "../../src/tools/codebase-exploration.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/main.ts": 'import { startServer } from "./server/http";\nexport function main() {\n  startServer();\n}\n',
+  "src/server/http.ts":
+    'import { handleRequest } from "../core/router";\nexport function startServer() {\n  handleRequest();\n}\n',
+  "src/core/router.ts":
+    'import { authenticate } from "../auth/session";\nexport function handleRequest() {\n  return authenticate();\n}\n',
+  "src/auth/session.ts": [
+    "export class SessionStore {}",
+    "export class RedisSessionStore extends SessionStore {}",
+    "export function authenticate() {",
+    "  return new RedisSessionStore();",
+    "}",
+    "",
+  ].join("\n"),
+};
+
+describe("codebase exploration", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  it("explores a topic by name when semantic search is unavailable", async () => {
+    const report = await exploreCodebase(storage, { topic: "authenticate", rootDir: root, depth: 4 });
+
+    expect(report.stats.semanticSearch).toBe("unavailable");
+    expect(report.seeds[0]).toMatchObject({ name: "authenticate", source: "keyword" });
+    expect(report.seeds[0]?.filePath).toBe(join(root, "src/auth/session.ts"));
+
+    const main = report.entryPoints.find((entry) => entry.name === "main");
+    expect(main?.reasons).toEqual(expect.arrayContaining(["main-function", "exported", "no-internal-callers"]));
+    expect(main?.line).toBe(2);
+    expect(report.entryPoints.map((entry) => entry.name)).not.toContain("authenticate");
+
+    const auth = report.modules.find((module) => module.module === "src/auth");
+    expect(auth?.publicSurface.map((entity) => entity.name)).toContain("authenticate");
+    expect(auth?.dependedOnBy.map((dependency) => dependency.module)).toContain("src/core");
+
+    const explored = new Set([
+      ...report.seeds.map((seed) => seed.id),
+      ...report.entryPoints.map((entry) => entry.id),
+      ...report.keyEntities.map((entity) => entity.id),
+      ...report.modules.flatMap((module) => module.publicSurface.map((entity) => entity.id)),
+    ]);
+    const citations = report.findings.flatMap((finding) => finding.citations);
+    expect(citations.length).toBeGreaterThan(0);
+    for (const id of citations) {
+      expect(await storage.getEntity(id)).not.toBeNull();
+    }
+    expect(citations.some((id) => explored.has(id))).toBe(true);
+  });
+
+  it("uses semantic hits as seeds and honours explicit entities", async () => {
+    const [router] = (await storage.getEntitiesByFile(join(root, "src/core/router.ts"))).filter(
+      (entity) => entity.name === "handleRequest",
+    );
+    expect(router).toBeDefined();
+
+    const semantic = await exploreCodebase(storage, { topic: "request routing", rootDir: root }, async (query) => ({
+      query,
+      processingTime: 1,
+      results: [{ id: "vec-1", content: "handleRequest", similarity: 0.91, metadata: { entityId: router!.id } }],
+    }));
+    expect(semantic.stats.semanticSearch).toBe("used");
+    expect(semantic.seeds[0]).toMatchObject({ id: router!.id, source: "semantic", score: 0.91 });
+
+    const explicit = await exploreCodebase(storage, { entityIds: [router!.id], rootDir: root, depth: 1 });
+    expect(explicit.stats.semanticSearch).toBe("skipped");
+    expect(explicit.seeds).toHaveLength(1);
+    expect(explicit.keyEntities.map((entity) => entity.name)).toContain("handleRequest");
+  });
+
+  it("discovers structural patterns with cited examples", async () => {
+    const report = await discoverPatterns(storage);
+
+    const hierarchy = report.patterns.find((pattern) => pattern.name === "Class Hierarchy");
+    expect(hierarchy?.occurrences).toBe(1);
+    expect(hierarchy?.examples[0]).toMatchObject({ name: "SessionStore", line: 1 });
+  });
+});
@@ -0,0 +1,72 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { detectCycles } from "../../src/tools/cycle-detection.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/a.ts": 'import { b } from "./b";\nexport function a() {\n  return b();\n}\n',
+  "src/b.ts": 'import { c } from "./c";\nexport function b() {\n  return c();\n}\n',
+  "src/c.ts": 'import { a } from "./a";\nexport function c() {\n  return a();\n}\n',
+  "src/x.ts": 'import { y } from "./y";\nexport const X = 1;\nexport function x() {\n  return y();\n}\n',
+  "src/y.ts": 'import { X } from "./x";\nexport function y() {\n  return X;\n}\n',
+  "src/leaf.ts": 'import { a } from "./a";\nexport function leaf() {\n  return a();\n}\n',
+  "py/__init__.py": "",
+  "py/p.py": "from .q import g\n\ndef f():\n    return g()\n",
+  "py/q.py": "from .p import f\n\ndef g():\n    return f()\n",
+};
+
+describe("detectCycles", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  it("ranks file-level import cycles by size and suggests edges to cut", async () => {
+    const report = await detectCycles(storage, { rootDir: root });
+
+    expect(report.granularity).toBe("file");
+    expect(report.cycleCount).toBe(3);
+    const [largest] = report.cycles;
+    expect(largest?.rank).toBe(1);
+    expect(largest?.nodes.map((node) => node.name)).toEqual(["src/a.ts", "src/b.ts", "src/c.ts"]);
+    expect(report.cycles.flatMap((cycle) => cycle.nodes.map((node) => node.name))).not.toContain("src/leaf.ts");
+
+    // Cutting a single edge breaks a simple loop; the loop itself is reported end to end
+    expect(largest?.edgesToCut).toHaveLength(1);
+    const cut = largest!.edgesToCut[0]!;
+    expect(cut.examples[0]?.line).toBeGreaterThan(0);
+    expect(largest?.path).toHaveLength(4);
+    expect(largest?.path[0]).toBe(cut.from);
+    expect(largest?.path[1]).toBe(cut.to);
+    expect(largest?.path[3]).toBe(cut.from);
+  });
+
+  it("scopes cycles by directory and language", async () => {
+    const inSrc = await detectCycles(storage, { directory: join(root, "src") });
+    expect(inSrc.cycles.map((cycle) => cycle.size)).toEqual([3, 2]);
+    expect(inSrc.cycles[1]?.nodes.map((node) => node.name)).toEqual(["x.ts", "y.ts"]);
+
+    const python = await detectCycles(storage, { language: "python", rootDir: root });
+    expect(python.cycles).toHaveLength(1);
+    expect(python.cycles[0]?.nodes.map((node) => node.name)).toEqual(["py/p.py", "py/q.py"]);
+  });
+
+  it("finds entity-level call cycles", async () => {
+    const report = await detectCycles(storage, {
+      granularity: "entity",
+      relationshipTypes: ["calls"],
+      language: "typescript",
+    });
+
+    expect(report.cycles).toHaveLength(1);
+    expect(report.cycles[0]?.nodes.map((node) => node.name)).toEqual(["a", "b", "c"]);
+    expect(report.cycles[0]?.relationshipTypes).toEqual(["calls"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { findDeadCode } from "../../src/tools/dead-code.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/index.ts": `import express from "express";
+import { listUsers } from "./users";
+import { Billing } from "./services/billing";
+export { helper } from "./util";
+
+const app = express();
+app.get("/users", listUsers);
+
+export default function start() {
+  new Billing();
+  app.listen(3000);
+}
+`,
+  "src/users.ts": `export function listUsers(req: any, res: any) {
+  res.json([]);
+}
+
+export function unusedExport() {
+  return 1;
+}
+
+export function testOnly() {
+  return 2;
+}
+
+function privateDead() {
+  return 3;
+}
+
+class Legacy {
+  first() {
+    return 4;
+  }
+  second() {
+    return this.first();
+  }
+}
+`,
+  "src/util.ts": "export function helper() {\n  return 5;\n}\n",
+  "src/services/billing.ts": `export class Billing {
+  charge(amount: number) {
+    return amount;
+  }
+}
+`,
+  "src/services/controller.ts": `export class UserController {
+  @Get("/users")
+  list() {
+    return [];
+  }
+}
+`,
+  "src/plugins/loader.ts": `export async function loadPlugin(name: string) {
+  return import(name);
+}
+`,
+  "tests/users.test.ts": 'import { testOnly } from "../src/users";\n\nit("works", () => {\n  testOnly();\n});\n',
+  "scripts/report.py": "def orphan():\n    return 1\n",
+};
+
+describe("findDeadCode", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES, { product_id: "web" });
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  const names = (report: { findings: Array<{ name: string }> }) =>
+    report.findings.map((finding) => finding.name).sort();
+
+  it("reports code unreachable from entry points with confidence levels", async () => {
+    const report = await findDeadCode(storage, { rootDir: root, product_id: "web" });
+
+    // Imported by the entry file, re-exported by it, registered by a route decorator or used by tests
+    expect(names(report)).toEqual(["Legacy", "charge", "loadPlugin", "orphan", "privateDead", "unusedExport"]);
+    const byName = Object.fromEntries(report.findings.map((finding) => [finding.name, finding]));
+
+    // A dead class is reported once, with the lines of its members
+    expect(byName.Legacy).toMatchObject({ confidence: "high", type: "class", line: 17, lines: 8, reasons: [] });
+    expect(byName.privateDead).toMatchObject({ confidence: "high", exported: false });
+    expect(byName.unusedExport).toMatchObject({ confidence: "medium", exported: true });
+    expect(byName.charge?.confidence).toBe("medium");
+    expect(byName.charge?.reasons[0]).toMatch(/dynamic dispatch/);
+    expect(byName.loadPlugin?.confidence).toBe("low");
+    expect(byName.loadPlugin?.reasons[0]).toMatch(/reflection or dynamic imports/);
+    expect(byName.orphan?.reasons).toEqual(["no call relationships were extracted for python code"]);
+    expect(report.findings.map((finding) => finding.confidence)).toEqual([
+      "high",
+      "high",
+      "medium",
+      "medium",
+      "low",
+      "low",
+    ]);
+    expect(report.byConfidence).toEqual({ low: 2, medium: 2, high: 2 });
+
+    expect(report.directories[0]).toMatchObject({
+      directory: "src",
+      dead: 3,
+      deadLines: 14,
+      byConfidence: { low: 0, medium: 1, high: 2 },
+    });
+    expect(report.directories.map((summary) => summary.directory)).toContain("src/services");
+  });
+
+  it("honors entry point and scope options", async () => {
+    const withoutTests = await findDeadCode(storage, { rootDir: root, includeTests: false, minConfidence: "medium" });
+    expect(names(withoutTests)).toEqual(["Legacy", "charge", "privateDead", "testOnly", "unusedExport"]);
+
+    const library = await findDeadCode(storage, {
+      directory: join(root, "src"),
+      rootDir: root,
+      exportsAreUsed: true,
+      entryPoints: ["privateDead"],
+      minConfidence: "high",
+    });
+    expect(names(library)).toEqual(["Legacy"]);
+    expect(library.directories).toEqual([
+      { directory: "src", entities: 9, dead: 1, deadLines: 8, byConfidence: { low: 0, medium: 0, high: 1 } },
+    ]);
+
+    const custom = await findDeadCode(storage, { rootDir: root, entryFiles: ["src/users.ts"] });
+    expect(names(custom)).toContain("start");
+    expect(names(custom)).not.toContain("unusedExport");
+  });
+
+  it("matches entry files against the root when reporting on a subdirectory", async () => {
+    // src/index.ts is outside the reported directory but still makes Billing live
+    const report = await findDeadCode(storage, { directory: join(root, "src/services"), rootDir: root });
+    expect(report.scope.directory).toBe(join(root, "src/services"));
+    expect(report.entryPoints.files).toBeGreaterThan(0);
+    expect(names(report)).toEqual(["charge"]);
+    expect(report.directories.map((summary) => summary.directory)).toEqual(["src/services"]);
+  });
+});
@@ -0,0 +1,142 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { analyzeDiffImpact, parseUnifiedDiff } from "../../src/tools/diff-impact.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/db.ts": "export function query() {\n  return 1;\n}\n\nexport function close() {\n  return 0;\n}\n",
+  "src/service.ts": 'import { query } from "./db";\nexport function loadUser() {\n  return query();\n}\n',
+  "src/handler.ts": 'import { loadUser } from "./service";\nexport function handle() {\n  return loadUser();\n}\n',
+  "tests/service.test.ts":
+    'import { loadUser } from "../src/service";\nexport function checkLoadUser() {\n  return loadUser();\n}\n',
+};
+
+const MODIFY_QUERY = [
+  "diff --git a/src/db.ts b/src/db.ts",
+  "index 1111111..2222222 100644",
+  "--- a/src/db.ts",
+  "+++ b/src/db.ts",
+  "@@ -2 +2 @@ export function query() {",
+  "-  return 1;",
+  "+  return 2;",
+  "",
+].join("\n");
+
+describe("parseUnifiedDiff", () => {
+  it("tracks changed lines on both sides, renames, additions and deletions", () => {
+    const files = parseUnifiedDiff(
+      [
+        MODIFY_QUERY,
+        "diff --git a/src/old.ts b/src/new.ts",
+        "similarity index 90%",
+        "rename from src/old.ts",
+        "rename to src/new.ts",
+        "--- a/src/old.ts",
+        "+++ b/src/new.ts",
+        "@@ -3,2 +3,0 @@",
+        "-a",
+        "-b",
+        "diff --git a/src/added.ts b/src/added.ts",
+        "new file mode 100644",
+        "--- /dev/null",
+        "+++ b/src/added.ts",
+        "@@ -0,0 +1,2 @@",
+        "+x",
+        "+y",
+      ].join("\n"),
+    );
+
+    expect(files).toEqual([
+      {
+        oldPath: "src/db.ts",
+        newPath: "src/db.ts",
+        status: "modified",
+        removedLines: [2],
+        addedLines: [2],
+        removalPoints: [2],
+      },
+      {
+        oldPath: "src/old.ts",
+        newPath: "src/new.ts",
+        status: "renamed",
+        removedLines: [3, 4],
+        addedLines: [],
+        removalPoints: [3, 3],
+      },
+      {
+        oldPath: null,
+        newPath: "src/added.ts",
+        status: "added",
+        removedLines: [],
+        addedLines: [1, 2],
+        removalPoints: [],
+      },
+    ]);
+  });
+});
+
+describe("analyzeDiffImpact", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  it("maps changed lines to entities and groups the ripple by risk", async () => {
+    const report = await analyzeDiffImpact(storage, parseUnifiedDiff(MODIFY_QUERY), { rootDir: root });
+
+    expect(report.changedEntities.map((entity) => [entity.name, entity.change])).toEqual([["query", "modified"]]);
+
+    const high = report.impact.high.entities.map((entity) => entity.name);
+    expect(high).toContain("loadUser");
+    expect(report.impact.high.entities.find((entity) => entity.name === "loadUser")).toMatchObject({
+      distance: 1,
+      via: { changedEntity: "query", relationshipType: "calls" },
+    });
+
+    const medium = report.impact.medium.entities.map((entity) => entity.name);
+    expect(medium).toEqual(expect.arrayContaining(["handle", "checkLoadUser"]));
+    expect(report.impact.medium.tests.map((entity) => entity.name)).toContain("checkLoadUser");
+    const testFiles = new Set(report.impact.medium.tests.map((entity) => entity.filePath));
+    expect(Array.from(testFiles)).toEqual([join(root, "tests/service.test.ts")]);
+    expect(report.summary.impactedTests).toBe(report.impact.medium.tests.length);
+    expect(report.impact.critical.totalEntities).toBe(0);
+  });
+
+  it("treats deleted files as deletions and respects the depth", async () => {
+    const deletion = [
+      "diff --git a/src/db.ts b/src/db.ts",
+      "deleted file mode 100644",
+      "--- a/src/db.ts",
+      "+++ /dev/null",
+      "@@ -1,7 +0,0 @@",
+      ...FILES["src/db.ts"]!.trimEnd()
+        .split("\n")
+        .map((line) => `-${line}`),
+      "diff --git a/README.md b/README.md",
+      "--- a/README.md",
+      "+++ b/README.md",
+      "@@ -1 +1 @@",
+      "-old",
+      "+new",
+    ].join("\n");
+
+    const report = await analyzeDiffImpact(storage, parseUnifiedDiff(deletion), { rootDir: root, depth: 1 });
+
+    expect(report.changedEntities.map((entity) => [entity.name, entity.change])).toEqual(
+      expect.arrayContaining([
+        ["query", "deleted"],
+        ["close", "deleted"],
+      ]),
+    );
+    expect(report.impact.critical.entities.map((entity) => entity.name)).toContain("loadUser");
+    expect(report.summary.impactedEntities).toBe(report.impact.critical.totalEntities);
+    expect(report.unmappedFiles).toEqual(["README.md"]);
+  });
+});
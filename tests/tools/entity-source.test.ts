@@ -0,0 +1,100 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { extractDocstring, getEntitySource } from "../../src/tools/entity-source.js";
+import type { Entity } from "../../src/types/storage.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/http/handler.ts": [
+    'import { loadUser } from "../service/user";',
+    "export function handle() {",
+    "  const user = loadUser();",
+    "  return user;",
+    "}",
+    "",
+  ].join("\n"),
+  "src/service/user.ts": [
+    'import { findUser } from "../repo/user-repo";',
+    "",
+    "/**",
+    " * Load the signed-in user.",
+    " * Falls back to the guest account.",
+    " */",
+    "export function loadUser() {",
+    "  return findUser();",
+    "}",
+    "",
+  ].join("\n"),
+  "src/repo/user-repo.ts": "export function findUser() {\n  return { id: 1 };\n}\n",
+  "scripts/report.py": [
+    "def summarize(rows):",
+    '    """Summarize rows.',
+    "",
+    "    Returns a dict of totals.",
+    '    """',
+    "    return {}",
+    "",
+  ].join("\n"),
+};
+
+describe("getEntitySource", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  async function entity(name: string, file: string): Promise<Entity> {
+    const entities = await storage.getEntitiesByFile(join(root, file));
+    const found = entities.find((candidate) => candidate.name === name && candidate.type !== "import");
+    if (!found) throw new Error(`${name} not indexed`);
+    return found;
+  }
+
+  it("returns the entity's code, docstring, callers around the call site and callees", async () => {
+    const loadUser = await entity("loadUser", "src/service/user.ts");
+    const report = await getEntitySource(storage, loadUser, { contextLines: 1 });
+
+    expect(report.source).toMatchObject({ startLine: 6, endLine: 10, truncated: false });
+    expect(report.source?.code).toContain("export function loadUser() {\n  return findUser();\n}");
+    expect(report.docstring).toBe("Load the signed-in user.\nFalls back to the guest account.");
+    expect(report.callers).toEqual([
+      expect.objectContaining({
+        name: "handle",
+        calls: 1,
+        snippet: expect.objectContaining({ code: expect.stringContaining("const user = loadUser();") }),
+      }),
+    ]);
+    expect(report.callees).toEqual([
+      expect.objectContaining({
+        name: "findUser",
+        snippet: expect.objectContaining({ startLine: 1, code: expect.stringContaining("return { id: 1 };") }),
+      }),
+    ]);
+    expect(report.budget.truncated).toEqual([]);
+    expect(report.budget.usedTokens).toBeGreaterThan(0);
+  });
+
+  it("cuts the lowest-priority snippets to stay within the token budget", async () => {
+    const loadUser = await entity("loadUser", "src/service/user.ts");
+    const report = await getEntitySource(storage, loadUser, { maxTokens: 12, includeDocstring: false });
+
+    expect(report.source?.truncated).toBe(true);
+    expect(report.budget.usedTokens).toBeLessThanOrEqual(12);
+    expect(report.budget.truncated).toEqual(expect.arrayContaining(["source", "caller:handle", "callee:findUser"]));
+    expect(report.callers[0]?.snippet).toBeUndefined();
+  });
+
+  it("reads Python docstrings from the start of the body", async () => {
+    const summarize = await entity("summarize", "scripts/report.py");
+    const lines = FILES["scripts/report.py"]!.split("\n");
+
+    expect(extractDocstring(lines, summarize)).toBe("Summarize rows.\n\nReturns a dict of totals.");
+  });
+});
@@ -0,0 +1,133 @@
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { GitHistoryStore } from "../../src/storage/git-history-store.js";
+import { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { runMigrations } from "../../src/storage/schema-migrations.js";
+import { SQLiteManager } from "../../src/storage/sqlite-manager.js";
+import { ingestGitHistory, mapIntervalsThroughHunks } from "../../src/tools/git-history.js";
+import { type Entity, EntityType } from "../../src/types/storage.js";
+
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Alice",
+  GIT_AUTHOR_EMAIL: "alice@example.com",
+  GIT_COMMITTER_NAME: "Alice",
+  GIT_COMMITTER_EMAIL: "alice@example.com",
+};
+
+function git(cwd: string, args: string[], env: NodeJS.ProcessEnv = GIT_ENV): void {
+  execFileSync("git", args, { cwd, env, stdio: "ignore" });
+}
+
+function makeEntity(filePath: string, name: string, startLine: number, endLine: number): Entity {
+  return {
+    id: "",
+    name,
+    type: EntityType.FUNCTION,
+    filePath,
+    location: {
+      start: { line: startLine, column: 0, index: 0 },
+      end: { line: endLine, column: 0, index: 0 },
+    },
+    metadata: {},
+    hash: `${name}-hash`,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+}
+
+describe("mapIntervalsThroughHunks", () => {
+  it("shifts lines after insertions and drops deleted lines", () => {
+    const hunks = [
+      { oldStart: 2, oldCount: 0, newStart: 3, newCount: 2 },
+      { oldStart: 5, oldCount: 2, newStart: 8, newCount: 0 },
+    ];
+
+    expect(mapIntervalsThroughHunks([{ start: 1, end: 2 }], hunks)).toEqual([{ start: 1, end: 2 }]);
+    expect(mapIntervalsThroughHunks([{ start: 3, end: 4 }], hunks)).toEqual([{ start: 5, end: 6 }]);
+    expect(mapIntervalsThroughHunks([{ start: 5, end: 6 }], hunks)).toEqual([]);
+    expect(mapIntervalsThroughHunks([{ start: 4, end: 8 }], hunks)).toEqual([
+      { start: 6, end: 6 },
+      { start: 7, end: 8 },
+    ]);
+  });
+});
+
+describe("ingestGitHistory", () => {
+  let manager: SQLiteManager;
+  let storage: GraphStorageImpl;
+  let store: GitHistoryStore;
+  let repoDir: string;
+
+  beforeEach(async () => {
+    manager = new SQLiteManager({ memory: true });
+    manager.initialize();
+    runMigrations(manager);
+    storage = new GraphStorageImpl(manager);
+    await storage.initialize();
+    store = new GitHistoryStore(manager);
+
+    repoDir = mkdtempSync(join(tmpdir(), "git-history-"));
+    git(repoDir, ["init", "-q"]);
+  });
+
+  afterEach(() => {
+    manager.close();
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("stores per-file and per-entity churn mapped to current line ranges", async () => {
+    const file = join(repoDir, "math.ts");
+
+    writeFileSync(
+      file,
+      ["function add() {", "  return 1;", "}", "function sub() {", "  return 2;", "}", ""].join("\n"),
+    );
+    git(repoDir, ["add", "."]);
+    git(repoDir, ["commit", "-q", "-m", "initial"]);
+
+    // Edit sub() only
+    writeFileSync(
+      file,
+      ["function add() {", "  return 1;", "}", "function sub() {", "  return 3;", "}", ""].join("\n"),
+    );
+    git(repoDir, ["commit", "-q", "-am", "tweak sub"], {
+      ...GIT_ENV,
+      GIT_AUTHOR_NAME: "Bob",
+      GIT_AUTHOR_EMAIL: "bob@example.com",
+    });
+
+    // Prepend lines so the current layout no longer matches older commits
+    writeFileSync(
+      file,
+      ["// header", "", "function add() {", "  return 1;", "}", "function sub() {", "  return 3;", "}", ""].join("\n"),
+    );
+    git(repoDir, ["commit", "-q", "-am", "add header"]);
+
+    await storage.insertEntities([makeEntity(file, "add", 3, 5), makeEntity(file, "sub", 6, 8)]);
+    const stored = await storage.findEntities({ type: "entity", filters: { filePath: file }, limit: 10 });
+    const add = stored.find((entity) => entity.name === "add") as Entity;
+    const sub = stored.find((entity) => entity.name === "sub") as Entity;
+
+    const summary = await ingestGitHistory(storage, store, repoDir);
+
+    expect(summary.commitsScanned).toBe(3);
+    expect(summary.filesTracked).toBe(1);
+
+    const fileChurn = store.getFileChurn(file);
+    expect(fileChurn?.commit_count).toBe(3);
+    expect(fileChurn?.authors.map((author) => author.name).sort()).toEqual(["Alice", "Bob"]);
+
+    const addChurn = store.getEntityChurn(add.id);
+    const subChurn = store.getEntityChurn(sub.id);
+    expect(addChurn?.commit_count).toBe(1);
+    expect(subChurn?.commit_count).toBe(2);
+    expect(subChurn?.last_author).toBe("Bob");
+
+    const top = store.getTopEntityChurn({ limit: 1 });
+    expect(top[0]?.entity_id).toBe(sub.id);
+  });
+});
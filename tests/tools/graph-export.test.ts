@@ -0,0 +1,100 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { createGraphExport, exportGraphToString } from "../../src/tools/graph-export.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/api/handler.ts":
+    'import { loadUser } from "../db/repo";\nexport function handleRequest(id: string) {\n  return loadUser(id);\n}\n',
+  "src/db/repo.ts": 'export function loadUser(id: string) {\n  return { id, name: "a \\"quoted\\" <name>" };\n}\n',
+  "lib/util.ts": "export class Helper {\n  run() {\n    return 1;\n  }\n}\n",
+};
+
+describe("graph export", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  it("exports the whole graph as JSON Lines with edges only between exported nodes", async () => {
+    const { content, stats } = await exportGraphToString(storage, { format: "jsonl" });
+    const records = content
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const nodes = records.filter((record) => record.kind === "node");
+    const edges = records.filter((record) => record.kind === "edge");
+    const ids = new Set(nodes.map((node) => node.id));
+
+    expect(stats).toMatchObject({ format: "jsonl", entities: nodes.length, relationships: edges.length });
+    expect(stats.truncated).toBe(false);
+    expect(nodes.map((node) => node.name)).toEqual(expect.arrayContaining(["handleRequest", "loadUser", "Helper"]));
+    expect(nodes.every((node) => !node.filePath.startsWith("external://"))).toBe(true);
+    expect(edges.length).toBeGreaterThan(0);
+    expect(edges.every((edge) => ids.has(edge.from) && ids.has(edge.to))).toBe(true);
+  });
+
+  it("filters by path glob, entity type and relationship type", async () => {
+    const scoped = await exportGraphToString(storage, { format: "jsonl", pathGlob: "src/**", rootDir: root });
+    const files = scoped.content
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line))
+      .filter((record) => record.kind === "node")
+      .map((node) => node.filePath);
+    expect(files.length).toBeGreaterThan(0);
+    expect(files.every((file) => file.startsWith(join(root, "src")))).toBe(true);
+
+    const classes = await exportGraphToString(storage, { format: "jsonl", entityTypes: ["class"] });
+    expect(classes.stats.entities).toBe(1);
+    expect(classes.content).toContain('"name":"Helper"');
+
+    const none = await exportGraphToString(storage, { format: "jsonl", relationshipTypes: ["inherits"] });
+    expect(none.stats.relationships).toBe(0);
+  });
+
+  it("exports the neighbourhood of a root entity in every format", async () => {
+    const [handler] = await storage.findEntities({ type: "entity", filters: { name: "handleRequest" } });
+    const options = { rootEntityId: handler!.id, depth: 2 };
+
+    const mermaid = await exportGraphToString(storage, { ...options, format: "mermaid" });
+    expect(mermaid.content.startsWith("flowchart LR\n")).toBe(true);
+    expect(mermaid.content).toMatch(/n\d+\["handleRequest \(function\)"\]/);
+    expect(mermaid.content).not.toContain("Helper");
+
+    const dot = await exportGraphToString(storage, { ...options, format: "dot" });
+    expect(dot.content).toMatch(/^digraph code_graph \{/);
+    expect(dot.content).toContain(`"${handler!.id}"`);
+    expect(dot.content.trimEnd().endsWith("}")).toBe(true);
+
+    const graphml = await exportGraphToString(storage, { ...options, format: "graphml" });
+    expect(graphml.contentType).toBe("application/graphml+xml");
+    expect(graphml.content).toContain('<data key="name">handleRequest</data>');
+    expect(graphml.content).toMatch(/<edge id="[^"]+" source="[^"]+" target="[^"]+">/);
+    expect(graphml.content.trimEnd().endsWith("</graphml>")).toBe(true);
+
+    const cypher = await exportGraphToString(storage, { ...options, format: "cypher" });
+    expect(cypher.content).toContain('CREATE (:Entity:Function {id: "');
+    expect(cypher.content).toMatch(
+      /MATCH \(a:Entity \{id: "[^"]+"\}\), \(b:Entity \{id: "[^"]+"\}\) CREATE \(a\)-\[:[A-Z_]+/,
+    );
+    expect(cypher.stats.relationships).toBeGreaterThan(0);
+  });
+
+  it("streams chunks and marks the export truncated at maxEntities", async () => {
+    const graphExport = createGraphExport(storage, { format: "dot", maxEntities: 2 });
+    const chunks: string[] = [];
+    for await (const chunk of graphExport.chunks) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(graphExport.stats).toMatchObject({ entities: 2, truncated: true });
+    expect(chunks.join("").match(/\[label=/g)!.length).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { findPaths } from "../../src/tools/path-finding.js";
+import type { Entity } from "../../src/types/storage.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/http/handler.ts": [
+    'import { loadUser } from "../service/user";',
+    'import { cached } from "../cache";',
+    "export function handle() {",
+    "  loadUser();",
+    "  return cached();",
+    "}",
+    "",
+  ].join("\n"),
+  "src/service/user.ts":
+    'import { findUser } from "../repo/user-repo";\nexport function loadUser() {\n  return findUser();\n}\n',
+  "src/repo/user-repo.ts": 'import { query } from "../db";\nexport function findUser() {\n  return query();\n}\n',
+  "src/cache.ts": 'import { query } from "./db";\nexport function cached() {\n  return query();\n}\n',
+  "src/db.ts": "export function query() {\n  return 1;\n}\n",
+};
+
+describe("findPaths", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  async function entity(relativePath: string, name: string): Promise<Entity> {
+    const [found] = (await storage.getEntitiesByFile(join(root, relativePath))).filter((e) => e.name === name);
+    expect(found).toBeDefined();
+    return found!;
+  }
+
+  it("returns the k shortest call paths with file and line for every hop", async () => {
+    const handle = await entity("src/http/handler.ts", "handle");
+    const query = await entity("src/db.ts", "query");
+
+    const report = await findPaths(storage, handle, query, { relationshipTypes: ["calls"], k: 3 });
+
+    expect(report.found).toBe(true);
+    expect(report.paths.map((path) => path.hops.map((hop) => hop.to.name))).toEqual([
+      ["cached", "query"],
+      ["loadUser", "findUser", "query"],
+    ]);
+
+    const [firstHop] = report.paths[0]!.hops;
+    expect(firstHop).toMatchObject({
+      relationshipType: "calls",
+      direction: "forward",
+      filePath: join(root, "src/http/handler.ts"),
+      line: 5,
+    });
+    expect(report.paths[1]!.hops[2]).toMatchObject({ filePath: join(root, "src/repo/user-repo.ts"), line: 3 });
+  });
+
+  it("honours direction and depth limits", async () => {
+    const handle = await entity("src/http/handler.ts", "handle");
+    const query = await entity("src/db.ts", "query");
+
+    const backwards = await findPaths(storage, query, handle, { relationshipTypes: ["calls"] });
+    expect(backwards.found).toBe(false);
+
+    const undirected = await findPaths(storage, query, handle, { relationshipTypes: ["calls"], direction: "any" });
+    expect(undirected.paths[0]?.hops.map((hop) => hop.direction)).toEqual(["backward", "backward"]);
+
+    const shallow = await findPaths(storage, handle, query, { relationshipTypes: ["calls"], maxDepth: 1 });
+    expect(shallow.found).toBe(false);
+  });
+});
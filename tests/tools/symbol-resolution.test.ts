@@ -0,0 +1,111 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { resolveCrossFileSymbols } from "../../src/tools/symbol-resolution.js";
+import type { Entity } from "../../src/types/storage.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+describe("resolveCrossFileSymbols", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+  let indexFiles: IndexedFixture["indexFiles"];
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture({}, { resolveSymbols: false });
+    ({ root, storage, indexFiles } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  async function targetsOf(filePath: string, fromName: string, type: string): Promise<Entity[]> {
+    const [from] = (await storage.getEntitiesByFile(join(root, filePath))).filter((e) => e.name === fromName);
+    if (!from) return [];
+    const relationships = await storage.getRelationshipsForEntity(from.id);
+    const targets = await Promise.all(
+      relationships.filter((r) => r.fromId === from.id && r.type === type).map((r) => storage.getEntity(r.toId)),
+    );
+    return targets.filter((entity): entity is Entity => entity !== null);
+  }
+
+  it("links TypeScript imports through relative paths, re-exports and tsconfig paths", async () => {
+    await indexFiles({
+      "tsconfig.json": `{
+        // JSONC is allowed here
+        "compilerOptions": { "baseUrl": ".", "paths": { "@lib/*": ["lib/*"], } },
+      }`,
+      "lib/widget.ts": "export class Widget {}\n",
+      "src/impl/helper.ts": "export function helper() { return 1; }\n",
+      "src/util.ts": 'export { helper } from "./impl/helper";\n',
+      "src/defaults.ts": "export default function makeDefaults() { return {}; }\n",
+      "src/app.ts": [
+        'import React from "react";',
+        'import { helper } from "./util.js";',
+        'import { Widget } from "@lib/widget";',
+        'import makeDefaults from "./defaults";',
+        'import { missing } from "./nowhere";',
+        "export function start() {",
+        "  helper();",
+        "  makeDefaults();",
+        "  missing();",
+        "  return new Widget();",
+        "}",
+        "",
+      ].join("\n"),
+    });
+
+    const report = await resolveCrossFileSymbols(storage, { rootDir: root });
+
+    const calls = await targetsOf("src/app.ts", "start", "calls");
+    const byName = new Map(calls.map((entity) => [entity.name, entity]));
+    expect(byName.get("helper")?.filePath).toBe(join(root, "src/impl/helper.ts"));
+    expect(byName.get("makeDefaults")?.filePath).toBe(join(root, "src/defaults.ts"));
+    expect(byName.get("Widget")?.filePath).toBe(join(root, "lib/widget.ts"));
+
+    expect(report.byStrategy["relative-import"]).toBeGreaterThan(0);
+    expect(report.byStrategy["tsconfig-paths"]).toBeGreaterThan(0);
+    expect(report.external).toBeGreaterThan(0); // react
+    expect(report.unresolved).toContainEqual(
+      expect.objectContaining({ symbol: "missing", source: "./nowhere", reason: "module-not-found" }),
+    );
+
+    // React stays on its placeholder, resolved placeholders are gone
+    const placeholders = await storage.findEntities({ type: "entity", filters: { name: "helper" }, limit: 10 });
+    expect(placeholders.every((entity) => !entity.filePath.startsWith("external://"))).toBe(true);
+  });
+
+  it("links Python imports through package layouts", async () => {
+    await indexFiles({
+      "pkg/__init__.py": "",
+      "pkg/models.py": "class Model:\n    pass\n",
+      "app.py": "from pkg.models import Model\n\nclass User(Model):\n    pass\n",
+    });
+
+    const report = await resolveCrossFileSymbols(storage, { rootDir: root });
+
+    const bases = await targetsOf("app.py", "User", "inherits");
+    expect(bases.map((entity) => entity.filePath)).toContain(join(root, "pkg/models.py"));
+    expect(report.byStrategy["import-binding"]).toBeGreaterThan(0);
+  });
+
+  it("links Go packages through go.mod and Java classes through packages", async () => {
+    await indexFiles({
+      "go.mod": "module example.com/app\n\ngo 1.21\n",
+      "util/strings.go": "package util\n\nfunc Reverse(s string) string {\n  return s\n}\n",
+      "main.go": 'package main\n\nimport "example.com/app/util"\n\nfunc run() {\n  util.Reverse("x")\n}\n',
+      "src/com/acme/model/Base.java": "package com.acme.model;\n\npublic class Base {}\n",
+      "src/com/acme/app/Child.java":
+        "package com.acme.app;\n\nimport com.acme.model.Base;\n\npublic class Child extends Base {}\n",
+    });
+
+    const report = await resolveCrossFileSymbols(storage, { rootDir: root });
+
+    const goImports = await targetsOf("main.go", "main", "imports");
+    expect(goImports.map((entity) => entity.filePath)).toContain(join(root, "util/strings.go"));
+    expect(report.byStrategy["go-module"]).toBeGreaterThan(0);
+
+    const javaBases = await targetsOf("src/com/acme/app/Child.java", "Child", "inherits");
+    expect(javaBases.map((entity) => entity.filePath)).toContain(join(root, "src/com/acme/model/Base.java"));
+    expect(report.byStrategy["java-package"]).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import type { GraphStorageImpl } from "../../src/storage/graph-storage.js";
+import { detectTestFramework, findTestsFor, isTestFile, mapTests } from "../../src/tools/test-mapping.js";
+import type { Entity } from "../../src/types/storage.js";
+import { RelationType } from "../../src/types/storage.js";
+import { createIndexedFixture, type IndexedFixture } from "../helpers/indexed-fixture.js";
+
+const FILES: Record<string, string> = {
+  "src/db.ts": "export function query() {\n  return 1;\n}\n",
+  "src/service.ts": 'import { query } from "./db";\nexport function loadUser() {\n  return query();\n}\n',
+  "src/handler.ts": 'import { loadUser } from "./service";\nexport function handle() {\n  return loadUser();\n}\n',
+  "tests/service.test.ts": [
+    'import { loadUser } from "../src/service";',
+    'describe("service", () => {',
+    '  it("loads a user", () => {',
+    "    expect(loadUser()).toBe(1);",
+    "  });",
+    "});",
+    "",
+  ].join("\n"),
+  "src/__tests__/routes.spec.ts": [
+    'import { describe, expect, test } from "vitest";',
+    'import { handle } from "../handler";',
+    'test("handles", () => {',
+    "  expect(handle()).toBe(1);",
+    "});",
+    "",
+  ].join("\n"),
+  "app/user.py": "def load_user():\n    return 1\n",
+  "tests/test_user.py": "class TestUser:\n    def test_load(self):\n        assert True\n",
+};
+
+describe("test mapping", () => {
+  let fixture: IndexedFixture;
+  let root: string;
+  let storage: GraphStorageImpl;
+
+  beforeEach(async () => {
+    fixture = await createIndexedFixture(FILES);
+    ({ root, storage } = fixture);
+  });
+
+  afterEach(() => fixture.cleanup());
+
+  async function entity(relativePath: string, name: string): Promise<Entity> {
+    const [found] = (await storage.getEntitiesByFile(join(root, relativePath))).filter((e) => e.name === name);
+    expect(found).toBeDefined();
+    return found!;
+  }
+
+  it("recognizes test files and frameworks", () => {
+    for (const path of [
+      "src/a.test.ts",
+      "pkg/a_test.go",
+      "tests/test_a.py",
+      "src/FooTest.java",
+      "src/__tests__/a.js",
+    ]) {
+      expect(isTestFile(path)).toBe(true);
+    }
+    expect(isTestFile("/work/tests/repo/src/user.ts", "/work/tests/repo")).toBe(false);
+    expect(detectTestFramework("a.spec.ts", 'import { it } from "vitest";')).toBe("vitest");
+    expect(detectTestFramework("a.spec.ts", "it('x', () => {});")).toBe("jest");
+    expect(detectTestFramework("FooTests.cs", "")).toBe("xunit");
+  });
+
+  it("tags test entities and links them to the code they exercise", async () => {
+    const report = await mapTests(storage, { rootDir: root });
+
+    expect(report.testFiles).toBe(3);
+    expect(report.byFramework).toEqual({ jest: 1, vitest: 1, pytest: 2 });
+    expect(report.linksByStrategy.graph).toBeGreaterThan(0);
+    expect(report.linksByStrategy.convention).toBeGreaterThan(0);
+
+    const module = await entity("tests/service.test.ts", "service.test.ts");
+    expect(module.metadata.test).toEqual({
+      framework: "jest",
+      kind: "file",
+      cases: [{ name: "loads a user", line: 3 }],
+    });
+
+    const loadUser = await entity("src/service.ts", "loadUser");
+    const links = (await storage.getRelationshipsForEntity(loadUser.id, RelationType.TESTS)).filter(
+      (rel) => rel.toId === loadUser.id,
+    );
+    expect(links.map((rel) => rel.fromId)).toContain(module.id);
+
+    // Re-running replaces the links instead of accumulating them
+    const again = await mapTests(storage, { rootDir: root });
+    expect(again.links).toBe(report.links);
+  });
+
+  it("finds direct and indirect tests with commands that run only them", async () => {
+    await mapTests(storage, { rootDir: root });
+
+    const query = await entity("src/db.ts", "query");
+    const report = await findTestsFor(storage, [query], { rootDir: root, depth: 2 });
+    expect(report.tests.map((test) => [test.filePath, test.distance])).toEqual([
+      [join(root, "tests/service.test.ts"), 1],
+      [join(root, "src/__tests__/routes.spec.ts"), 2],
+    ]);
+    expect(report.commands).toEqual([
+      { framework: "jest", command: "npx jest tests/service.test.ts" },
+      { framework: "vitest", command: "npx vitest run src/__tests__/routes.spec.ts" },
+    ]);
+
+    const direct = await findTestsFor(storage, [query], { rootDir: root, depth: 0 });
+    expect(direct.totalTests).toBe(0);
+
+    const pythonFile = await storage.getEntitiesByFile(join(root, "app/user.py"));
+    const python = await findTestsFor(storage, pythonFile, { rootDir: root });
+    expect(python.tests[0]).toMatchObject({ name: "TestUser", kind: "suite", strategy: "convention" });
+    expect(python.commands).toEqual([{ framework: "pytest", command: "pytest tests/test_user.py" }]);
+  });
+});